@@ -0,0 +1,39 @@
+-- Migration: Add durable processing job queue
+-- Purpose: Persist DataProcessingPipeline jobs so pending work survives restarts and deploys
+
+-- CreateEnum
+CREATE TYPE "ProcessingJobStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "processing_jobs" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" "ProcessingJobStatus" NOT NULL DEFAULT 'PENDING',
+    "data" JSONB NOT NULL DEFAULT '{}',
+    "priority" INTEGER NOT NULL DEFAULT 5,
+    "retryCount" INTEGER NOT NULL DEFAULT 0,
+    "maxRetries" INTEGER NOT NULL DEFAULT 3,
+    "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leaseOwner" TEXT,
+    "leaseExpiresAt" TIMESTAMP(3),
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "processing_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "processing_jobs_status_availableAt_priority_idx" ON "processing_jobs"("status", "availableAt", "priority");
+
+-- CreateIndex
+CREATE INDEX "processing_jobs_status_leaseExpiresAt_idx" ON "processing_jobs"("status", "leaseExpiresAt");
+
+-- CreateIndex
+CREATE INDEX "processing_jobs_sessionId_type_idx" ON "processing_jobs"("sessionId", "type");
+
+-- AddForeignKey
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "unified_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- Migration: Add versioned training dataset snapshots
+-- Purpose: Store immutable train/validation splits so fine-tune runs are reproducible and comparable
+
+-- CreateTable
+CREATE TABLE "training_datasets" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "description" TEXT,
+    "selection" JSONB NOT NULL,
+    "splitConfig" JSONB NOT NULL,
+    "trainJsonl" TEXT NOT NULL,
+    "validationJsonl" TEXT NOT NULL,
+    "manifest" JSONB NOT NULL,
+    "trainChecksum" TEXT NOT NULL,
+    "validationChecksum" TEXT NOT NULL,
+    "manifestChecksum" TEXT NOT NULL,
+    "trainCount" INTEGER NOT NULL,
+    "validationCount" INTEGER NOT NULL,
+    "sessionCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "training_datasets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "training_datasets_name_version_key" ON "training_datasets"("name", "version");
+
+-- CreateIndex
+CREATE INDEX "training_datasets_createdAt_idx" ON "training_datasets"("createdAt");
+
+-- fine_tuning_jobs was created outside migrations (db push), so guard the change
+ALTER TABLE IF EXISTS "fine_tuning_jobs" ADD COLUMN IF NOT EXISTS "datasetId" TEXT;
+
+CREATE INDEX IF NOT EXISTS "fine_tuning_jobs_datasetId_idx" ON "fine_tuning_jobs"("datasetId");
@@ -0,0 +1,24 @@
+-- Migration: Add model evaluation scorecards
+-- Purpose: Persist offline evaluation results so fine-tuned models can be compared
+
+-- CreateTable
+CREATE TABLE "model_evaluations" (
+    "id" TEXT NOT NULL,
+    "modelId" TEXT NOT NULL,
+    "jobId" TEXT,
+    "sessionIds" JSONB NOT NULL DEFAULT '[]',
+    "caseCount" INTEGER NOT NULL,
+    "exactSelectorAccuracy" DOUBLE PRECISION NOT NULL,
+    "equivalentSelectorAccuracy" DOUBLE PRECISION NOT NULL,
+    "actionTypeAccuracy" DOUBLE PRECISION NOT NULL,
+    "parseFailureRate" DOUBLE PRECISION NOT NULL,
+    "averageLatencyMs" DOUBLE PRECISION NOT NULL,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "results" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "model_evaluations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "model_evaluations_modelId_createdAt_idx" ON "model_evaluations"("modelId", "createdAt");
@@ -0,0 +1,5 @@
+-- Migration: Add stream sequence watermark to unified sessions
+-- Purpose: Let WebSocket protocol v2 clients resume from the last acknowledged sequence number
+
+-- AlterTable
+ALTER TABLE "unified_sessions" ADD COLUMN "streamSequence" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,34 @@
+-- Migration: Add database-backed API keys
+-- Purpose: Replace VALID_API_KEYS with hashed, role-scoped keys that can be rotated and revoked
+
+-- CreateEnum
+CREATE TYPE "ApiKeyRole" AS ENUM ('EXTENSION', 'WORKER', 'ANALYST', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "role" "ApiKeyRole" NOT NULL,
+    "createdBy" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "revokedReason" TEXT,
+    "rotatedFromId" TEXT,
+    "lastUsedAt" TIMESTAMP(3),
+    "lastUsedIp" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_prefix_key" ON "api_keys"("prefix");
+
+-- CreateIndex
+CREATE INDEX "api_keys_role_idx" ON "api_keys"("role");
+
+-- CreateIndex
+CREATE INDEX "api_keys_revokedAt_idx" ON "api_keys"("revokedAt");
@@ -0,0 +1,26 @@
+-- Migration: Add append-only enhanced interaction table
+-- Purpose: Store each enhanced interaction as its own row instead of rewriting the session's JSON array.
+-- Existing sessions are copied over by `npm run migrate:interactions`; reads fall back to the JSON array until then.
+
+-- CreateTable
+CREATE TABLE "enhanced_interactions" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "clientSequence" INTEGER,
+    "type" TEXT NOT NULL,
+    "timestamp" BIGINT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "enhanced_interactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "enhanced_interactions_sessionId_sequence_key" ON "enhanced_interactions"("sessionId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "enhanced_interactions_sessionId_timestamp_idx" ON "enhanced_interactions"("sessionId", "timestamp");
+
+-- AddForeignKey
+ALTER TABLE "enhanced_interactions" ADD CONSTRAINT "enhanced_interactions_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "unified_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Migration: Add screenshot processing columns
+-- Purpose: Track thumbnails and perceptual hashes for transcoded screenshots so duplicate burst frames can reuse stored objects.
+
+-- AlterTable
+ALTER TABLE "screenshots" ADD COLUMN     "thumbnailKey" TEXT,
+ADD COLUMN     "perceptualHash" TEXT,
+ADD COLUMN     "duplicateOfId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "screenshots_sessionId_burstId_idx" ON "screenshots"("sessionId", "burstId");
@@ -0,0 +1,30 @@
+-- Migration: Add retention run history
+-- Purpose: Record every retention policy execution and mark screenshots whose raw image was purged after archiving
+
+-- CreateEnum
+CREATE TYPE "RetentionRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "screenshots" ADD COLUMN     "purgedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "retention_runs" (
+    "id" TEXT NOT NULL,
+    "policy" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "status" "RetentionRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "affected" INTEGER NOT NULL DEFAULT 0,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "retention_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "retention_runs_policy_startedAt_idx" ON "retention_runs"("policy", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "retention_runs_status_idx" ON "retention_runs"("status");
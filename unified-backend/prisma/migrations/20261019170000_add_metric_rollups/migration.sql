@@ -0,0 +1,31 @@
+-- Migration: Add metric rollups
+-- Purpose: Store request latency and system metrics as minute/hour/day buckets instead of one system_config row per sample
+
+-- CreateEnum
+CREATE TYPE "MetricResolution" AS ENUM ('MINUTE', 'HOUR', 'DAY');
+
+-- CreateTable
+CREATE TABLE "metric_rollups" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "series" TEXT NOT NULL DEFAULT '',
+    "labels" JSONB NOT NULL DEFAULT '{}',
+    "resolution" "MetricResolution" NOT NULL,
+    "bucketStart" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "sum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "min" DOUBLE PRECISION NOT NULL,
+    "max" DOUBLE PRECISION NOT NULL,
+    "histogram" INTEGER[],
+
+    CONSTRAINT "metric_rollups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "metric_rollups_name_series_resolution_bucketStart_key" ON "metric_rollups"("name", "series", "resolution", "bucketStart");
+
+-- CreateIndex
+CREATE INDEX "metric_rollups_name_resolution_bucketStart_idx" ON "metric_rollups"("name", "resolution", "bucketStart");
+
+-- Drop per-sample metric blobs; nothing reads them any more
+DELETE FROM "system_config" WHERE "category" IN ('metrics', 'performance');
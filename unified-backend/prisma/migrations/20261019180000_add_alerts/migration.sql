@@ -0,0 +1,71 @@
+-- Migration: Add persisted alert configs and alert history
+-- Purpose: Replace the in-memory alert maps and system_config alert rows with tables that survive restarts
+
+-- CreateEnum
+CREATE TYPE "AlertStatus" AS ENUM ('ACTIVE', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "alert_configs" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'threshold',
+    "metric" TEXT NOT NULL,
+    "condition" TEXT NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "channels" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alerts" (
+    "id" TEXT NOT NULL,
+    "configId" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" "AlertStatus" NOT NULL DEFAULT 'ACTIVE',
+    "message" TEXT NOT NULL,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "occurrences" INTEGER NOT NULL DEFAULT 1,
+    "notifications" JSONB NOT NULL DEFAULT '[]',
+    "triggeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastTriggeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "escalatedAt" TIMESTAMP(3),
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedBy" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+
+    CONSTRAINT "alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alerts_configId_status_idx" ON "alerts"("configId", "status");
+
+-- CreateIndex
+CREATE INDEX "alerts_status_triggeredAt_idx" ON "alerts"("status", "triggeredAt");
+
+-- AddForeignKey
+ALTER TABLE "alerts" ADD CONSTRAINT "alerts_configId_fkey" FOREIGN KEY ("configId") REFERENCES "alert_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over alert configs created through the API (stored as system_config rows)
+INSERT INTO "alert_configs" ("id", "name", "type", "metric", "condition", "threshold", "enabled", "channels", "createdAt", "updatedAt")
+SELECT
+    "value"->>'id',
+    "value"->>'name',
+    COALESCE("value"->>'type', 'threshold'),
+    "value"->>'metric',
+    "value"->>'condition',
+    ("value"->>'threshold')::DOUBLE PRECISION,
+    COALESCE(("value"->>'enabled')::BOOLEAN, true),
+    COALESCE(NULLIF(ARRAY(SELECT jsonb_array_elements_text("value"->'channels')), '{}'), ARRAY['log']),
+    "createdAt",
+    "updatedAt"
+FROM "system_config"
+WHERE "category" = 'alerts' AND "value" ? 'id' AND "value" ? 'metric'
+ON CONFLICT ("id") DO NOTHING;
+
+-- Active alerts kept in system_config were never reloaded; drop them with the old configs
+DELETE FROM "system_config" WHERE "category" IN ('alerts', 'active_alerts');
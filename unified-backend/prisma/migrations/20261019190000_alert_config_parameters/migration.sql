@@ -0,0 +1,8 @@
+-- Migration: Add tuning parameters to alert configs
+-- Purpose: Anomaly and pattern alerts need per-rule windows, sample minimums and smoothing factors
+
+-- AlterTable
+ALTER TABLE "alert_configs" ADD COLUMN "parameters" JSONB NOT NULL DEFAULT '{}';
+
+-- Windowed scans for the interaction-rate and selector-reliability pattern detectors
+CREATE INDEX "enhanced_interactions_createdAt_idx" ON "enhanced_interactions"("createdAt");
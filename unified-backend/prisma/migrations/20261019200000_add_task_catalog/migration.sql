@@ -0,0 +1,85 @@
+-- Migration: Add site profiles and versioned task templates
+-- Purpose: Move the retailer descriptions and task templates hard-coded in TaskGenerationService into editable tables
+
+-- CreateTable
+CREATE TABLE "site_profiles" (
+    "id" TEXT NOT NULL,
+    "hostname" TEXT NOT NULL,
+    "name" TEXT,
+    "description" TEXT NOT NULL,
+    "storeType" TEXT NOT NULL,
+    "categories" TEXT[],
+    "features" TEXT[],
+    "complexity" TEXT[],
+    "products" TEXT[],
+    "productCategories" TEXT[],
+    "localContext" TEXT,
+    "deriveFromWorldModel" BOOLEAN NOT NULL DEFAULT false,
+    "derivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "site_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "task_templates" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "hostname" TEXT,
+    "taskType" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "steps" TEXT[],
+    "successCriteria" TEXT[],
+    "variables" JSONB NOT NULL DEFAULT '{}',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "site_profiles_hostname_key" ON "site_profiles"("hostname");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_templates_key_version_key" ON "task_templates"("key", "version");
+
+-- CreateIndex
+CREATE INDEX "task_templates_hostname_taskType_active_idx" ON "task_templates"("hostname", "taskType", "active");
+
+-- Seed the sites TaskGenerationService used to know about
+INSERT INTO "site_profiles" ("id", "hostname", "description", "storeType", "categories", "features", "complexity", "products", "productCategories", "localContext", "updatedAt") VALUES
+    (gen_random_uuid()::TEXT, 'rei.com', 'Leading outdoor gear and apparel retailer', 'Outdoor Recreation & Sporting Goods', ARRAY['outdoor', 'hiking', 'seattle_weather', 'pacific_northwest']::TEXT[], ARRAY['gear_finder', 'local_store_pickup', 'expert_advice', 'outdoor_classes']::TEXT[], ARRAY['gear_selection', 'size_fitting', 'activity_matching']::TEXT[], ARRAY['hiking gear', 'camping equipment', 'outdoor clothing', 'bikes', 'climbing gear', 'winter sports gear']::TEXT[], '{}'::TEXT[], 'Seattle flagship store available for pickup and returns', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'nordstrom.com', 'Premium department store with fashion and home goods', 'Department Store & Fashion', ARRAY['fashion', 'seattle_style', 'business_casual', 'rain_appropriate']::TEXT[], ARRAY['personal_styling', 'size_consultation', 'seattle_store_pickup']::TEXT[], ARRAY['style_coordination', 'occasion_dressing', 'seattle_weather_appropriate']::TEXT[], ARRAY['designer clothing', 'shoes', 'handbags', 'jewelry', 'beauty products', 'home decor']::TEXT[], '{}'::TEXT[], 'Founded in Seattle, local store network for services', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'starbucks.com', 'Global coffeehouse chain with retail products', 'Coffee & Lifestyle Retail', ARRAY['coffee', 'seattle_culture', 'local_roasters', 'gift_cards']::TEXT[], ARRAY['store_locator', 'mobile_order', 'rewards_program']::TEXT[], ARRAY['drink_customization', 'seasonal_offerings', 'local_store_features']::TEXT[], ARRAY['coffee beans', 'brewing equipment', 'mugs & tumblers', 'food items', 'gift cards']::TEXT[], '{}'::TEXT[], 'Seattle headquarters, original Pike Place location nearby', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'nike.com', 'Athletic footwear and apparel brand', 'Athletic Wear & Footwear', ARRAY['athletic', 'apparel', 'customization', 'sizing']::TEXT[], ARRAY['product_customization', 'size_guide', 'style_matching', 'sport_specific']::TEXT[], ARRAY['outfit_building', 'performance_matching', 'custom_design']::TEXT[], ARRAY['sneakers', 'athletic clothing', 'sports equipment', 'team merchandise', 'accessories']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'amazon.com', 'Global e-commerce marketplace', 'Online Marketplace', ARRAY['shopping', 'comparison', 'wishlist', 'reviews']::TEXT[], ARRAY['search', 'filter', 'cart', 'checkout', 'reviews', 'recommendations']::TEXT[], ARRAY['product_search', 'price_comparison', 'bulk_ordering', 'subscription_management']::TEXT[], ARRAY['electronics', 'books', 'home goods', 'clothing', 'groceries', 'virtually everything']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'uniqlo.com', 'Japanese casual wear designer and retailer', 'Fast Fashion & Basics', ARRAY['basics', 'seasonal', 'coordination', 'sizing']::TEXT[], ARRAY['color_matching', 'size_selection', 'outfit_coordination', 'seasonal_collections']::TEXT[], ARRAY['wardrobe_building', 'style_coordination', 'seasonal_planning']::TEXT[], ARRAY['basic clothing', 'seasonal collections', 'outerwear', 'undergarments', 'accessories']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'hm.com', 'Swedish fast fashion retailer with trendy, affordable clothing', 'Fast Fashion & Trendy Apparel', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['latest trends', 'sustainable collections', 'size inclusivity', 'seasonal campaigns', 'fashion collaborations']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['trendy clothing', 'seasonal fashion', 'accessories', 'shoes', 'home textiles', 'beauty products']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'www2.hm.com', 'Swedish fast fashion retailer with trendy, affordable clothing', 'Fast Fashion & Trendy Apparel', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['latest trends', 'sustainable collections', 'size inclusivity', 'seasonal campaigns', 'fashion collaborations']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['trendy clothing', 'seasonal fashion', 'accessories', 'shoes', 'home textiles', 'beauty products']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'filson.com', 'Seattle-based premium outdoor and workwear brand since 1897', 'Premium Outdoor & Workwear', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['lifetime guarantee', 'Seattle heritage', 'handcrafted quality', 'repair service', 'premium materials']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['rugged outerwear', 'leather bags', 'wool clothing', 'boots', 'classic Seattle style', 'durable workwear']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'prismseattle.com', 'Seattle local fashion boutique with curated contemporary styles', 'Local Fashion Boutique', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['curated selection', 'personal styling', 'local Seattle fashion', 'boutique experience', 'unique pieces']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['contemporary clothing', 'designer pieces', 'accessories', 'unique finds', 'local designers']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'millieseattle.com', 'Seattle boutique specializing in modern women''s fashion', 'Local Women''s Boutique', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['modern aesthetic', 'Seattle local', 'women-focused', 'fashion-forward', 'boutique service']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['women''s clothing', 'dresses', 'tops', 'accessories', 'modern styles', 'contemporary fashion']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'elmboutique.com', 'Seattle fashion boutique with eclectic and artistic clothing', 'Local Fashion Boutique', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['artistic curation', 'unique finds', 'Seattle local', 'independent brands', 'creative fashion']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['artistic clothing', 'unique fashion', 'accessories', 'eclectic styles', 'independent designers']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'surlatable.com', 'Premium kitchen and cooking equipment retailer', 'Kitchen & Cooking Equipment', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['cooking classes', 'expert advice', 'professional quality', 'recipe resources', 'kitchen design']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['cookware', 'kitchen appliances', 'baking supplies', 'cutlery', 'kitchen gadgets', 'food items']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'williams-sonoma.com', 'Premium home and kitchen retailer', 'Home & Kitchen', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['design services', 'registry', 'seasonal collections', 'premium brands', 'home styling']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['cookware', 'home decor', 'furniture', 'bedding', 'kitchen appliances', 'holiday items']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'homedepot.com', 'Home improvement and hardware retailer', 'Home Improvement & Hardware', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['installation services', 'project guides', 'bulk ordering', 'contractor services', 'local pickup']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['tools', 'building materials', 'garden supplies', 'appliances', 'home improvement', 'paint']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'target.com', 'General merchandise retailer with style and value', 'General Merchandise', ARRAY['general', 'shopping', 'navigation']::TEXT[], ARRAY['Target Circle rewards', 'same-day delivery', 'exclusive brands', 'pharmacy', 'grocery pickup']::TEXT[], ARRAY['basic_navigation', 'simple_interaction']::TEXT[], ARRAY['clothing', 'home goods', 'electronics', 'groceries', 'beauty', 'toys', 'seasonal items']::TEXT[], '{}'::TEXT[], NULL, CURRENT_TIMESTAMP);
+
+-- Seed the built-in templates as version 1; sites without their own templates use the generic (NULL hostname) set
+INSERT INTO "task_templates" ("id", "key", "version", "hostname", "taskType", "category", "title", "description", "steps", "successCriteria", "variables", "createdBy") VALUES
+    (gen_random_uuid()::TEXT, 'any_find_specific_product', 1, NULL, 'simple', 'shopping', 'Find a specific product', 'Search for and locate a {product} under {price}', ARRAY['Navigate to the store', 'Search for {product}', 'Filter by price', 'Select a product']::TEXT[], ARRAY['Product found', 'Price within budget', 'Product page viewed']::TEXT[], '{}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'any_add_item_to_cart', 1, NULL, 'simple', 'shopping', 'Add item to cart', 'Find a {product} and add it to your cart', ARRAY['Search for {product}', 'Select product', 'Add to cart']::TEXT[], ARRAY['Item added to cart', 'Cart icon shows item count']::TEXT[], '{}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'any_navigate_to_cart', 1, NULL, 'simple', 'shopping', 'Navigate to cart page', 'Go to your shopping cart to review items', ARRAY['Click cart icon', 'View cart contents']::TEXT[], ARRAY['Cart page displayed', 'Items visible in cart']::TEXT[], '{}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'any_compare_similar_products', 1, NULL, 'simple', 'comparison', 'Compare similar products', 'Compare 3 different {products} and choose the best value', ARRAY['Search {products}', 'Open 3 products in tabs', 'Compare features', 'Select best option']::TEXT[], ARRAY['3 products compared', 'Decision made', 'Best value identified']::TEXT[], '{}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'any_build_complete_setup', 1, NULL, 'complex', 'shopping', 'Build complete setup', 'Create a {category} setup with all necessary components under {budget}', ARRAY['Research components', 'Compare options', 'Check compatibility', 'Add all to cart']::TEXT[], ARRAY['Complete setup', 'Within budget', 'Components compatible']::TEXT[], '{}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'nike_find_sport_gear', 1, 'nike.com', 'simple', 'athletic', 'Find sport-specific gear', 'Find {sport} {gear} in your size and preferred color', ARRAY['Go to {sport} section', 'Filter by {gear} type', 'Select size', 'Choose color']::TEXT[], ARRAY['Correct sport category', 'Right size', 'Preferred color']::TEXT[], '{"sport": {"type": "choice", "options": ["hiking", "cycling", "kayaking", "running", "climbing"]}, "gear": {"type": "choice", "options": ["rain gear", "hiking boots", "cycling equipment", "outdoor clothing", "camping gear"]}}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'uniqlo_build_basic_wardrobe', 1, 'uniqlo.com', 'simple', 'basics', 'Build basic wardrobe', 'Select {number} essential {clothing_type} in versatile colors', ARRAY['Navigate to {clothing_type}', 'Choose versatile colors', 'Select sizes', 'Add to cart']::TEXT[], ARRAY['Essential items selected', 'Versatile colors', 'Correct sizes']::TEXT[], '{"number": {"type": "integer", "min": 2, "max": 5}, "clothing_type": {"type": "choice", "options": ["rain jackets", "wool sweaters", "hiking pants", "fleece layers", "waterproof boots"]}}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'rei_seattle_weather_gear', 1, 'rei.com', 'simple', 'outdoor', 'Find Seattle weather gear', 'Search for {gear} suitable for Seattle''s rainy climate', ARRAY['Browse outdoor gear', 'Filter for weather protection', 'Select Seattle-appropriate item']::TEXT[], ARRAY['Weather-resistant gear found', 'Suitable for Pacific Northwest', 'Added to cart']::TEXT[], '{"gear": {"type": "choice", "options": ["rain gear", "hiking boots", "cycling equipment", "outdoor clothing", "camping gear"]}}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'rei_local_hiking_gear', 1, 'rei.com', 'simple', 'outdoor', 'Gear up for local hiking', 'Find {gear} for hiking trails around Seattle like Mount Rainier', ARRAY['Visit hiking section', 'Filter by activity', 'Select trail-appropriate gear']::TEXT[], ARRAY['Hiking gear selected', 'Appropriate for local trails', 'Ready for checkout']::TEXT[], '{"gear": {"type": "choice", "options": ["rain gear", "hiking boots", "cycling equipment", "outdoor clothing", "camping gear"]}}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'rei_rain_gear_essentials', 1, 'rei.com', 'simple', 'seattle_weather', 'Rain gear essentials', 'Find a {product} to stay dry in Seattle weather', ARRAY['Search rain gear', 'Compare waterproof ratings', 'Add to cart']::TEXT[], ARRAY['Waterproof item found', 'Seattle weather appropriate', 'Cart updated']::TEXT[], '{"product": {"type": "choice", "options": ["waterproof hiking boots", "rain jacket", "coffee beans", "fleece pullover", "insulated water bottle", "daypack", "wool socks", "umbrella", "Seahawks jersey", "local honey"]}}'::JSONB, 'migration'),
+    (gen_random_uuid()::TEXT, 'starbucks_seattle_coffee_culture', 1, 'starbucks.com', 'simple', 'coffee', 'Order Seattle coffee culture', 'Find {product} representing Seattle''s coffee heritage', ARRAY['Browse coffee selection', 'Look for Seattle-roasted options', 'Add to cart']::TEXT[], ARRAY['Seattle coffee found', 'Authentic local selection', 'Order placed']::TEXT[], '{"product": {"type": "choice", "options": ["waterproof hiking boots", "rain jacket", "coffee beans", "fleece pullover", "insulated water bottle", "daypack", "wool socks", "umbrella", "Seahawks jersey", "local honey"]}}'::JSONB, 'migration');
@@ -0,0 +1,84 @@
+-- Migration: Add data subject requests and the privacy audit trail
+-- Purpose: Track GDPR / CCPA access and erasure requests from intake to completion, with a hash-chained audit log
+
+-- CreateEnum
+CREATE TYPE "DataSubjectRequestType" AS ENUM ('ACCESS', 'ERASURE');
+
+-- CreateEnum
+CREATE TYPE "DataSubjectRequestStatus" AS ENUM ('PENDING_VERIFICATION', 'VERIFIED', 'PROCESSING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "data_subject_requests" (
+    "id" TEXT NOT NULL,
+    "type" "DataSubjectRequestType" NOT NULL,
+    "regulation" TEXT NOT NULL DEFAULT 'gdpr',
+    "status" "DataSubjectRequestStatus" NOT NULL DEFAULT 'PENDING_VERIFICATION',
+    "subjectId" TEXT NOT NULL,
+    "contactEmail" TEXT,
+    "notes" TEXT,
+    "requestedBy" TEXT,
+    "verificationHash" TEXT,
+    "verificationExpiresAt" TIMESTAMP(3),
+    "verifiedAt" TIMESTAMP(3),
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "exportKey" TEXT,
+    "exportChecksum" TEXT,
+    "result" JSONB NOT NULL DEFAULT '{}',
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "data_subject_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "privacy_audit_events" (
+    "id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "requestId" TEXT,
+    "action" TEXT NOT NULL,
+    "actor" TEXT,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "previousHash" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "privacy_audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "data_subject_requests_subjectId_idx" ON "data_subject_requests"("subjectId");
+
+-- CreateIndex
+CREATE INDEX "data_subject_requests_status_dueAt_idx" ON "data_subject_requests"("status", "dueAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "privacy_audit_events_sequence_key" ON "privacy_audit_events"("sequence");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "privacy_audit_events_hash_key" ON "privacy_audit_events"("hash");
+
+-- CreateIndex
+CREATE INDEX "privacy_audit_events_requestId_sequence_idx" ON "privacy_audit_events"("requestId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "privacy_audit_events_action_idx" ON "privacy_audit_events"("action");
+
+-- CreateIndex
+CREATE INDEX "privacy_audit_events_createdAt_idx" ON "privacy_audit_events"("createdAt");
+
+-- The audit trail is append-only; the hash chain detects edits made by anyone able to drop these triggers
+CREATE FUNCTION "privacy_audit_events_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'privacy_audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "privacy_audit_events_no_update_delete"
+    BEFORE UPDATE OR DELETE ON "privacy_audit_events"
+    FOR EACH ROW EXECUTE FUNCTION "privacy_audit_events_append_only"();
+
+CREATE TRIGGER "privacy_audit_events_no_truncate"
+    BEFORE TRUNCATE ON "privacy_audit_events"
+    FOR EACH STATEMENT EXECUTE FUNCTION "privacy_audit_events_append_only"();
@@ -0,0 +1,17 @@
+-- Migration: Add the PII token vault
+-- Purpose: Keep encrypted originals of values the redaction engine replaced with tokens, so authorized staff can reverse them
+
+-- CreateTable
+CREATE TABLE "pii_tokens" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "piiType" TEXT NOT NULL,
+    "ciphertext" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pii_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pii_tokens_sessionId_token_key" ON "pii_tokens"("sessionId", "token");
@@ -0,0 +1,7 @@
+-- Migration: Point the built-in threshold alerts at real metric paths
+-- Purpose: Rules seeded with cpu.usage, memory.usage, quality.average and errors.rate never matched a metric; only rows still on the old path are touched
+
+UPDATE "alert_configs" SET "metric" = 'system.cpu.usage' WHERE "id" = 'high_cpu_usage' AND "metric" = 'cpu.usage';
+UPDATE "alert_configs" SET "metric" = 'system.memory.usage' WHERE "id" = 'high_memory_usage' AND "metric" = 'memory.usage';
+UPDATE "alert_configs" SET "metric" = 'business.averageQualityScore' WHERE "id" = 'low_quality_sessions' AND "metric" = 'quality.average';
+UPDATE "alert_configs" SET "metric" = 'requests.errorRate' WHERE "id" = 'high_error_rate' AND "metric" = 'errors.rate';
@@ -0,0 +1,8 @@
+-- Migration: Window pattern detectors on interaction capture time
+-- Purpose: Migrated and restored interactions carry an insert-time createdAt, so the detectors scan "timestamp" instead
+
+-- DropIndex
+DROP INDEX "enhanced_interactions_createdAt_idx";
+
+-- CreateIndex
+CREATE INDEX "enhanced_interactions_timestamp_idx" ON "enhanced_interactions"("timestamp");
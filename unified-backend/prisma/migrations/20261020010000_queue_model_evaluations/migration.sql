@@ -0,0 +1,24 @@
+-- Migration: Run model evaluations from the job queue
+-- Purpose: A scorecard row is created when an evaluation is requested and filled in by a queued model_evaluation job, which is not tied to a session
+
+-- CreateEnum
+CREATE TYPE "ModelEvaluationStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable: every scorecard stored so far was written after its run finished
+ALTER TABLE "model_evaluations"
+    ADD COLUMN "status" "ModelEvaluationStatus" NOT NULL DEFAULT 'COMPLETED',
+    ADD COLUMN "maxCases" INTEGER,
+    ADD COLUMN "error" TEXT,
+    ADD COLUMN "startedAt" TIMESTAMP(3),
+    ADD COLUMN "completedAt" TIMESTAMP(3),
+    ALTER COLUMN "caseCount" SET DEFAULT 0,
+    ALTER COLUMN "exactSelectorAccuracy" DROP NOT NULL,
+    ALTER COLUMN "equivalentSelectorAccuracy" DROP NOT NULL,
+    ALTER COLUMN "actionTypeAccuracy" DROP NOT NULL,
+    ALTER COLUMN "parseFailureRate" DROP NOT NULL,
+    ALTER COLUMN "averageLatencyMs" DROP NOT NULL;
+
+ALTER TABLE "model_evaluations" ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- AlterTable
+ALTER TABLE "processing_jobs" ALTER COLUMN "sessionId" DROP NOT NULL;
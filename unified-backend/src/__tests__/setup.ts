@@ -24,6 +24,7 @@ afterAll(async () => {
 async function cleanupTestDatabase() {
   try {
     // Delete in reverse dependency order
+    await prisma.processingJob.deleteMany();
     await prisma.visionAnalysisCache.deleteMany();
     await prisma.contextEnhancement.deleteMany();
     await prisma.psychologyProfile.deleteMany();
@@ -1,18 +1,29 @@
 import { PrismaClient } from '@prisma/client';
+import { withFieldEncryption } from '../services/encryption/field-encryption';
 
 // Singleton PrismaClient instance with proper connection pooling
 class DatabaseConnection {
   private static instance: PrismaClient | null = null;
+  private static base: PrismaClient | null = null;
 
   static getInstance(): PrismaClient {
     if (!DatabaseConnection.instance) {
+      // Sensitive columns are encrypted on write and decrypted on read (see services/encryption)
+      DatabaseConnection.instance = withFieldEncryption(DatabaseConnection.getBaseInstance());
+    }
+    return DatabaseConnection.instance;
+  }
+
+  /** The client without field encryption, for jobs that work on the stored ciphertext */
+  static getBaseInstance(): PrismaClient {
+    if (!DatabaseConnection.base) {
       // Configure DATABASE_URL with PostgreSQL connection pool parameters
       const databaseUrl = process.env.DATABASE_URL;
       const enhancedDatabaseUrl = databaseUrl?.includes('connection_limit') 
         ? databaseUrl 
         : `${databaseUrl}?connection_limit=5&idle_timeout=300000&pool_timeout=20&connect_timeout=30`;
 
-      DatabaseConnection.instance = new PrismaClient({
+      DatabaseConnection.base = new PrismaClient({
         log: ['error', 'warn', 'info'],
         datasources: {
           db: {
@@ -33,8 +44,8 @@ class DatabaseConnection {
       // Keep-alive ping to prevent idle timeout on hosted Postgres
       setInterval(async () => {
         try {
-          if (DatabaseConnection.instance) {
-            await DatabaseConnection.instance.$executeRaw`SELECT 1`;
+          if (DatabaseConnection.base) {
+            await DatabaseConnection.base.$executeRaw`SELECT 1`;
             console.log('🟢 Database keep-alive ping successful');
           }
         } catch (error) {
@@ -46,12 +57,13 @@ class DatabaseConnection {
       // Connection error handling is built into Prisma
       // No need for manual error listeners
     }
-    return DatabaseConnection.instance;
+    return DatabaseConnection.base;
   }
 
   static async disconnect(): Promise<void> {
-    if (DatabaseConnection.instance) {
-      await DatabaseConnection.instance.$disconnect();
+    if (DatabaseConnection.base) {
+      await DatabaseConnection.base.$disconnect();
+      DatabaseConnection.base = null;
       DatabaseConnection.instance = null;
     }
   }
@@ -1,11 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { Logger } from '../utils/logger';
-import { SecurityPrivacyService } from '../services/security-privacy';
+import { prisma } from '../lib/database';
+import { ApiKeyManagerImpl, ApiKeyPrincipal, ApiKeyRole, isApiKeyRole } from '../services/auth/api-key-manager';
 import rateLimit from 'express-rate-limit';
 
 const logger = new Logger('AuthMiddleware');
-const securityService = new SecurityPrivacyService();
+const apiKeyManager = new ApiKeyManagerImpl(prisma);
 
 // Strict rate limiting for authentication endpoints
 export const authRateLimit = rateLimit({
@@ -108,7 +109,46 @@ interface AuthRequest extends Request {
   user?: {
     id: string;
     type: 'admin' | 'worker' | 'system';
+    role: ApiKeyRole;
     permissions: string[];
+    apiKeyId?: string;
+  };
+}
+
+const ROLE_PERMISSIONS: Record<ApiKeyRole, string[]> = {
+  extension: ['read', 'write'],
+  worker: ['read', 'write'],
+  analyst: ['read'],
+  admin: ['read', 'write', 'admin']
+};
+
+function userFromApiKey(principal: ApiKeyPrincipal): NonNullable<AuthRequest['user']> {
+  return {
+    id: `api-key:${principal.keyId}`,
+    type: principal.role === 'admin' ? 'admin' : principal.role === 'worker' ? 'worker' : 'system',
+    role: principal.role,
+    permissions: ROLE_PERMISSIONS[principal.role],
+    apiKeyId: principal.keyId
+  };
+}
+
+// The shared X_API_KEY is handed out by the public /config endpoint, so it only ever gets extension access
+function userFromLegacyKey(): NonNullable<AuthRequest['user']> {
+  return {
+    id: 'api-user',
+    type: 'system',
+    role: 'extension',
+    permissions: ROLE_PERMISSIONS.extension
+  };
+}
+
+function userFromToken(decoded: any): NonNullable<AuthRequest['user']> {
+  const type = decoded.type || 'worker';
+  return {
+    id: decoded.id || decoded.sub,
+    type,
+    role: isApiKeyRole(decoded.role) ? decoded.role : type === 'admin' ? 'admin' : 'worker',
+    permissions: decoded.permissions || ['read']
   };
 }
 
@@ -130,23 +170,26 @@ export const authMiddleware = async (
       // Handle API key authentication
       const validApiKey = process.env.X_API_KEY;
       if (validApiKey && apiKey === validApiKey) {
-        req.user = {
-          id: 'api-user',
-          type: 'system',
-          permissions: ['read', 'write']
-        };
+        req.user = userFromLegacyKey();
         return next();
       }
       
-      const isValid = await validateApiKey(apiKey);
-      if (isValid) {
-        req.user = {
-          id: 'api-user',
-          type: 'system',
-          permissions: ['read', 'write']
-        };
+      const principal = await validateApiKey(apiKey, req.ip);
+      if (principal) {
+        req.user = userFromApiKey(principal);
         return next();
       }
+
+      const identifier = (req as any).authIdentifier;
+      if (identifier) {
+        trackFailedAuth(identifier);
+      }
+
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid API key',
+        message: 'The provided API key is invalid, expired or revoked'
+      });
     }
 
     if (!token) {
@@ -177,15 +220,12 @@ export const authMiddleware = async (
     
     const decoded = jwt.verify(token, jwtSecret) as any;
     
-    req.user = {
-      id: decoded.id || decoded.sub,
-      type: decoded.type || 'worker',
-      permissions: decoded.permissions || ['read']
-    };
+    req.user = userFromToken(decoded);
 
     logger.debug('User authenticated', {
       userId: req.user.id,
       type: req.user.type,
+      role: req.user.role,
       path: req.path
     });
 
@@ -267,7 +307,7 @@ export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction
     });
   }
 
-  if (req.user.type !== 'admin') {
+  if (req.user.type !== 'admin' && req.user.role !== 'admin') {
     logger.warn('Admin access denied', {
       userId: req.user.id,
       userType: req.user.type,
@@ -284,13 +324,41 @@ export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction
   next();
 };
 
-async function validateApiKey(apiKey: string): Promise<boolean> {
+// Restricts a route group to API keys / tokens carrying one of the given roles
+export const requireRole = (...roles: ApiKeyRole[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+    }
+
+    if (!roles.includes(req.user.role)) {
+      logger.warn('Role denied', {
+        userId: req.user.id,
+        role: req.user.role,
+        allowedRoles: roles,
+        path: req.originalUrl
+      });
+
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient role',
+        message: `This endpoint requires one of: ${roles.join(', ')}`
+      });
+    }
+
+    next();
+  };
+};
+
+async function validateApiKey(apiKey: string, ipAddress?: string): Promise<ApiKeyPrincipal | null> {
   try {
-    const result = await securityService.validateApiKey(apiKey);
-    return result.isValid;
+    return await apiKeyManager.validateKey(apiKey, { ipAddress });
   } catch (error) {
     logger.error('API key validation failed', error);
-    return false;
+    return null;
   }
 }
 
@@ -317,19 +385,16 @@ export const optionalAuth = async (
       const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
       const decoded = jwt.verify(token, jwtSecret) as any;
       
-      req.user = {
-        id: decoded.id || decoded.sub,
-        type: decoded.type || 'worker',
-        permissions: decoded.permissions || ['read']
-      };
+      req.user = userFromToken(decoded);
     } else if (apiKey) {
-      const isValid = await validateApiKey(apiKey);
-      if (isValid) {
-        req.user = {
-          id: 'api-user',
-          type: 'system',
-          permissions: ['read', 'write']
-        };
+      const validApiKey = process.env.X_API_KEY;
+      if (validApiKey && apiKey === validApiKey) {
+        req.user = userFromLegacyKey();
+      } else {
+        const principal = await validateApiKey(apiKey, req.ip);
+        if (principal) {
+          req.user = userFromApiKey(principal);
+        }
       }
     }
 
@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { PerformanceMetrics } from '../services/monitoring-analytics';
+import { LATENCY_BUCKETS_MS } from '../services/metrics/metrics-store';
+import { MetricsRegistry, getMetricsRegistry } from '../services/metrics/openmetrics';
+
+export interface RequestMetricsRecorder {
+  recordPerformanceMetric(metric: PerformanceMetrics): void;
+  trackActiveRequest(delta: 1 | -1): void;
+}
+
+/**
+ * Route template the request matched (e.g. /api/sessions/:id) so ids in the
+ * URL do not create a new series per request; unmatched requests share one
+ */
+export const routeTemplate = (req: Request): string => {
+  if (!req.route?.path) return 'unmatched';
+  const routePath = typeof req.route.path === 'string' ? req.route.path : String(req.route.path);
+  return `${req.baseUrl}${routePath === '/' && req.baseUrl ? '' : routePath}`;
+};
+
+/**
+ * Records latency and status for every request once the response is sent
+ * (or the client goes away): into the analytics rollups via the recorder
+ * and into the /metrics latency histogram
+ */
+export const requestMetrics = (recorder: RequestMetricsRecorder, registry: MetricsRegistry = getMetricsRegistry()) => {
+  const duration = registry.histogram(
+    'http_request_duration_seconds',
+    'HTTP request latency by route template, method and status',
+    LATENCY_BUCKETS_MS.map(bound => bound / 1000)
+  );
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const startedAt = process.hrtime.bigint();
+    let recorded = false;
+    recorder.trackActiveRequest(1);
+
+    const record = () => {
+      if (recorded) return;
+      recorded = true;
+      recorder.trackActiveRequest(-1);
+
+      const metric: PerformanceMetrics = {
+        endpoint: routeTemplate(req),
+        method: req.method,
+        responseTime: Number(process.hrtime.bigint() - startedAt) / 1e6,
+        statusCode: res.headersSent ? res.statusCode : 499,
+        timestamp: new Date(),
+        userId: (req as any).user?.id
+      };
+      recorder.recordPerformanceMetric(metric);
+      duration.observe(
+        { method: metric.method, route: metric.endpoint, status: String(metric.statusCode) },
+        metric.responseTime / 1000
+      );
+    };
+
+    res.on('finish', record);
+    res.on('close', record);
+    next();
+  };
+};
@@ -1,11 +1,13 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { query, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { Logger } from '../utils/logger';
 import { prisma } from '../lib/database';
 import { QualityControlService } from '../services/quality-control-clean';
 import { StorageManager } from '../services/storage-manager-clean';
 import { requireAdmin } from '../middleware/auth';
 import { getErrorMessage } from '../utils/type-helpers';
+import { API_KEY_ROLES, ApiKeyInactiveError, ApiKeyManager, ApiKeyNotFoundError } from '../services/auth/api-key-manager';
+import { RetentionPolicyNotFoundError, RetentionPolicyRunningError, RetentionScheduler } from '../services/retention';
 
 const router = Router();
 const logger = new Logger('AdminRoutes');
@@ -27,6 +29,9 @@ const handleValidationErrors = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+const getApiKeyManager = (req: Request): ApiKeyManager | undefined => req.app.locals.apiKeyManager;
+const getRetentionScheduler = (req: Request): RetentionScheduler | undefined => req.app.locals.retentionScheduler;
+
 // GET /api/admin/dashboard - Admin dashboard overview
 router.get('/dashboard', async (req, res) => {
   try {
@@ -453,4 +458,234 @@ router.get('/system/health', async (req, res) => {
   }
 });
 
-export { router as adminRoutes };
\ No newline at end of file
+// GET /api/admin/keys - List API keys (never includes the key itself)
+router.get('/keys', [
+  query('role').optional().isIn([...API_KEY_ROLES]),
+  query('includeInactive').optional().isBoolean()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const apiKeyManager = getApiKeyManager(req);
+    if (!apiKeyManager) {
+      return res.status(503).json({
+        success: false,
+        error: 'API key manager not available'
+      });
+    }
+
+    const keys = await apiKeyManager.listKeys({
+      role: req.query.role as any,
+      includeInactive: req.query.includeInactive === 'true'
+    });
+
+    res.json({
+      success: true,
+      data: keys
+    });
+
+  } catch (error) {
+    logger.error('Failed to list API keys', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list API keys',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/admin/keys - Issue a new API key; the plaintext key is only returned here
+router.post('/keys', [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }),
+  body('role').isIn([...API_KEY_ROLES]).withMessage(`role must be one of: ${API_KEY_ROLES.join(', ')}`),
+  body('expiresAt').optional().isISO8601()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const apiKeyManager = getApiKeyManager(req);
+    if (!apiKeyManager) {
+      return res.status(503).json({
+        success: false,
+        error: 'API key manager not available'
+      });
+    }
+
+    const { name, role, expiresAt } = req.body;
+    const issued = await apiKeyManager.createKey({
+      name,
+      role,
+      createdBy: (req as any).user?.id,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined
+    });
+
+    res.status(201).json({
+      success: true,
+      data: issued
+    });
+
+  } catch (error) {
+    logger.error('Failed to create API key', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create API key',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/admin/keys/:id/rotate - Replace a key, optionally keeping the old one alive for a grace period
+router.post('/keys/:id/rotate', [
+  param('id').isUUID(),
+  body('gracePeriodHours').optional().isFloat({ min: 0, max: 720 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const apiKeyManager = getApiKeyManager(req);
+    if (!apiKeyManager) {
+      return res.status(503).json({
+        success: false,
+        error: 'API key manager not available'
+      });
+    }
+
+    const gracePeriodHours = Number(req.body.gracePeriodHours ?? 0);
+    const rotated = await apiKeyManager.rotateKey(req.params.id, {
+      gracePeriodMs: gracePeriodHours * 60 * 60 * 1000,
+      rotatedBy: (req as any).user?.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: rotated
+    });
+
+  } catch (error) {
+    logger.error('Failed to rotate API key', error);
+    res.status(error instanceof ApiKeyNotFoundError ? 404 : error instanceof ApiKeyInactiveError ? 409 : 500).json({
+      success: false,
+      error: 'Failed to rotate API key',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/admin/keys/:id/revoke - Revoke a key immediately
+router.post('/keys/:id/revoke', [
+  param('id').isUUID(),
+  body('reason').optional().isString().isLength({ max: 500 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const apiKeyManager = getApiKeyManager(req);
+    if (!apiKeyManager) {
+      return res.status(503).json({
+        success: false,
+        error: 'API key manager not available'
+      });
+    }
+
+    const key = await apiKeyManager.revokeKey(req.params.id, req.body.reason);
+
+    res.json({
+      success: true,
+      data: key
+    });
+
+  } catch (error) {
+    logger.error('Failed to revoke API key', error);
+    res.status(error instanceof ApiKeyNotFoundError ? 404 : error instanceof ApiKeyInactiveError ? 409 : 500).json({
+      success: false,
+      error: 'Failed to revoke API key',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/admin/retention/policies - Retention policies with their schedule and last run
+router.get('/retention/policies', async (req: Request, res: Response) => {
+  try {
+    const retentionScheduler = getRetentionScheduler(req);
+    if (!retentionScheduler) {
+      return res.status(503).json({
+        success: false,
+        error: 'Retention scheduler not available'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await retentionScheduler.listPolicies()
+    });
+
+  } catch (error) {
+    logger.error('Failed to list retention policies', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list retention policies',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/admin/retention/runs - Retention run history, newest first
+router.get('/retention/runs', [
+  query('policy').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: 500 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const retentionScheduler = getRetentionScheduler(req);
+    if (!retentionScheduler) {
+      return res.status(503).json({
+        success: false,
+        error: 'Retention scheduler not available'
+      });
+    }
+
+    const runs = await retentionScheduler.listRuns({
+      policy: req.query.policy as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: runs
+    });
+
+  } catch (error) {
+    logger.error('Failed to list retention runs', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list retention runs',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/admin/retention/policies/:name/run - Run a policy now; dryRun defaults to the policy's configured mode
+router.post('/retention/policies/:name/run', [
+  param('name').isString().isLength({ min: 1, max: 100 }),
+  body('dryRun').optional().isBoolean()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const retentionScheduler = getRetentionScheduler(req);
+    if (!retentionScheduler) {
+      return res.status(503).json({
+        success: false,
+        error: 'Retention scheduler not available'
+      });
+    }
+
+    const dryRun = req.body.dryRun === undefined ? undefined : req.body.dryRun === true || req.body.dryRun === 'true';
+    const run = await retentionScheduler.runPolicy(req.params.name, { dryRun, trigger: 'manual' });
+
+    res.json({
+      success: true,
+      data: run
+    });
+
+  } catch (error) {
+    logger.error('Failed to run retention policy', error);
+    res.status(error instanceof RetentionPolicyNotFoundError ? 404 : error instanceof RetentionPolicyRunningError ? 409 : 500).json({
+      success: false,
+      error: 'Failed to run retention policy',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+export { router as adminRoutes };
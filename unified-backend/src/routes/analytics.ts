@@ -1,11 +1,27 @@
-import { Router, Request, Response } from 'express';
-import { MonitoringAnalyticsService } from '../services/monitoring-analytics';
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { AlertStatus } from '@prisma/client';
+import { getMonitoringAnalyticsService } from '../services/monitoring-analytics';
+import { ALERT_CHANNELS, ALERT_SEVERITIES, AlertNotFoundError, AlertSeverity, AlertStateError, PATTERN_DETECTORS } from '../services/alerts';
 import { Logger } from '../utils/logger';
-// import { getErrorMessage } from '../utils/type-helpers';
+import { getErrorMessage } from '../utils/type-helpers';
 
 const router = Router();
 const logger = new Logger('AnalyticsRoutes');
-const monitoringService = new MonitoringAnalyticsService();
+const monitoringService = getMonitoringAnalyticsService();
+
+// Validation middleware
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+  next();
+};
 
 // Dashboard overview endpoint
 router.get('/dashboard', async (req: Request, res: Response) => {
@@ -367,6 +383,215 @@ router.get('/export/:type', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/analytics/alerts - Alert history, newest first
+router.get('/alerts', [
+  query('status').optional().isIn(Object.values(AlertStatus)),
+  query('severity').optional().isIn([...ALERT_SEVERITIES]),
+  query('configId').optional().isString(),
+  query('limit').optional().isInt({ min: 1, max: 500 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const alerts = await monitoringService.getAlertManager().listAlerts({
+      status: req.query.status as AlertStatus | undefined,
+      severity: req.query.severity as AlertSeverity | undefined,
+      configId: req.query.configId as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: alerts
+    });
+
+  } catch (error) {
+    logger.error('Failed to list alerts', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list alerts',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/analytics/alerts/configs - Alert rules
+router.get('/alerts/configs', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await monitoringService.getAlertManager().listConfigs()
+    });
+
+  } catch (error) {
+    logger.error('Failed to list alert configs', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list alert configs',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+const alertConfigValidators = (optional: boolean) => {
+  const field = (name: string) => optional ? body(name).optional() : body(name);
+  return [
+    field('name').isString().trim().isLength({ min: 1, max: 200 }),
+    field('type').isIn(['threshold', 'anomaly', 'pattern']),
+    field('metric').isString().trim().isLength({ min: 1 }),
+    body('metric').if(body('type').equals('pattern')).isIn(Object.keys(PATTERN_DETECTORS))
+      .withMessage(`Pattern rules must use one of: ${Object.keys(PATTERN_DETECTORS).join(', ')}`),
+    field('condition').isIn(['greater_than', 'less_than', 'equals', 'outside']),
+    field('threshold').isFloat(),
+    body('parameters').optional().isObject(),
+    body('parameters.*').isFloat({ min: 0 }).toFloat(),
+    field('enabled').isBoolean(),
+    field('channels').isArray({ min: 1 }),
+    body('channels.*').isIn([...ALERT_CHANNELS])
+  ];
+};
+
+// POST /api/analytics/alerts/configs - Create an alert rule
+router.post('/alerts/configs', [
+  body('id').optional().matches(/^[a-z0-9_]{1,64}$/),
+  body('enabled').default(true),
+  body('channels').default(['log']),
+  ...alertConfigValidators(false)
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const config = await monitoringService.getAlertManager().createConfig({
+      id: req.body.id,
+      name: req.body.name,
+      type: req.body.type,
+      metric: req.body.metric,
+      condition: req.body.condition,
+      threshold: Number(req.body.threshold),
+      parameters: req.body.parameters,
+      enabled: req.body.enabled,
+      channels: req.body.channels
+    });
+
+    res.status(201).json({
+      success: true,
+      data: config
+    });
+
+  } catch (error: any) {
+    logger.error('Failed to create alert config', error);
+    res.status(error?.code === 'P2002' ? 409 : 500).json({
+      success: false,
+      error: 'Failed to create alert config',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// PATCH /api/analytics/alerts/configs/:id - Update an alert rule
+router.patch('/alerts/configs/:id', [
+  param('id').isString(),
+  ...alertConfigValidators(true)
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const fields = ['name', 'type', 'metric', 'condition', 'threshold', 'parameters', 'enabled', 'channels'] as const;
+    const updates = Object.fromEntries(
+      fields.filter(field => req.body[field] !== undefined).map(field => [field, field === 'threshold' ? Number(req.body[field]) : req.body[field]])
+    );
+
+    res.json({
+      success: true,
+      data: await monitoringService.getAlertManager().updateConfig(req.params.id, updates)
+    });
+
+  } catch (error) {
+    logger.error('Failed to update alert config', error);
+    res.status(error instanceof AlertNotFoundError ? 404 : 500).json({
+      success: false,
+      error: 'Failed to update alert config',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// DELETE /api/analytics/alerts/configs/:id - Delete an alert rule and its history
+router.delete('/alerts/configs/:id', [
+  param('id').isString()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    await monitoringService.deleteAlert(req.params.id);
+
+    res.json({
+      success: true,
+      data: { id: req.params.id, deleted: true }
+    });
+
+  } catch (error) {
+    logger.error('Failed to delete alert config', error);
+    res.status(error instanceof AlertNotFoundError ? 404 : 500).json({
+      success: false,
+      error: 'Failed to delete alert config',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/analytics/alerts/channels/test - Send a test notification
+router.post('/alerts/channels/test', [
+  body('channel').optional().isIn([...ALERT_CHANNELS])
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await monitoringService.getAlertManager().sendTest(req.body.channel)
+    });
+
+  } catch (error) {
+    logger.error('Failed to send test alert', error);
+    res.status(error instanceof AlertNotFoundError ? 404 : 500).json({
+      success: false,
+      error: 'Failed to send test alert',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/analytics/alerts/:id/acknowledge - Stop escalation for an active alert
+router.post('/alerts/:id/acknowledge', [
+  param('id').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await monitoringService.getAlertManager().acknowledge(req.params.id, (req as any).user?.id)
+    });
+
+  } catch (error) {
+    logger.error('Failed to acknowledge alert', error);
+    res.status(error instanceof AlertNotFoundError ? 404 : error instanceof AlertStateError ? 409 : 500).json({
+      success: false,
+      error: 'Failed to acknowledge alert',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/analytics/alerts/:id/resolve - Close an alert and send the resolution notice
+router.post('/alerts/:id/resolve', [
+  param('id').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await monitoringService.getAlertManager().resolve(req.params.id, (req as any).user?.id)
+    });
+
+  } catch (error) {
+    logger.error('Failed to resolve alert', error);
+    res.status(error instanceof AlertNotFoundError ? 404 : error instanceof AlertStateError ? 409 : 500).json({
+      success: false,
+      error: 'Failed to resolve alert',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
 // Utility functions
 function getTimeRangeStart(timeRange: string): Date {
   const now = new Date();
@@ -1,7 +1,20 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { param, query, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
+import multer from 'multer';
+import { pipeline } from 'stream/promises';
 import { Logger } from '../utils/logger';
 import { StorageManager } from '../services/storage-manager-clean';
+import {
+  ARCHIVE_CONTENT_TYPES,
+  ARCHIVE_FORMATS,
+  ArchiveChecksumError,
+  ArchiveConflictError,
+  ArchiveFormat,
+  ArchiveNotFoundError,
+  ArchiveRestoreServiceImpl,
+  InvalidArchiveError,
+  archiveFileName
+} from '../services/archives';
 import { prisma } from '../lib/database';
 import { getErrorMessage } from '../utils/type-helpers';
 
@@ -22,6 +35,25 @@ const handleValidationErrors = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+// Archives come from another deployment as a multipart upload in the "archive" field
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 50 * 1024 * 1024 } });
+
+const createRestoreService = () => new ArchiveRestoreServiceImpl(prisma, {
+  archiveDir: process.env.ARCHIVE_DIR || '/tmp/codesight/archives'
+});
+
+const restoreStatusFor = (error: unknown): number =>
+  error instanceof ArchiveNotFoundError ? 404
+    : error instanceof ArchiveConflictError ? 409
+      : error instanceof ArchiveChecksumError ? 422
+        : error instanceof InvalidArchiveError ? 400
+          : 500;
+
+const restoreValidation = [
+  body('sessionId').optional().isUUID(),
+  body('replace').optional().isBoolean()
+];
+
 // GET /api/archives - List session archives
 router.get('/', [
   query('page').optional().isInt({ min: 1 }),
@@ -152,10 +184,12 @@ router.get('/:id', [
 
 // POST /api/archives/create/:sessionId - Create archive for session
 router.post('/create/:sessionId', [
-  param('sessionId').isUUID()
+  param('sessionId').isUUID(),
+  body('format').optional().isIn(ARCHIVE_FORMATS)
 ], handleValidationErrors, async (req: Request, res: Response) => {
   try {
     const { sessionId } = req.params;
+    const format = req.body.format as ArchiveFormat | undefined;
 
     // Use transaction to ensure atomicity
     const result = await prisma.$transaction(async (tx) => {
@@ -165,7 +199,7 @@ router.post('/create/:sessionId', [
       });
 
       if (!session) {
-        throw new Error('Session not found');
+        throw new ArchiveNotFoundError('Session not found');
       }
 
       // Check if archive already exists
@@ -174,7 +208,7 @@ router.post('/create/:sessionId', [
       });
 
       if (existingArchive) {
-        throw new Error('Archive already exists for this session');
+        throw new ArchiveConflictError('Archive already exists for this session');
       }
 
       // Create archive placeholder record
@@ -196,7 +230,7 @@ router.post('/create/:sessionId', [
 
     // Create archive (outside transaction to avoid long-running operations)
     const storageManager = new StorageManager(prisma);
-    const archiveResult = await storageManager.createSessionArchive(sessionId);
+    const archiveResult = await storageManager.createSessionArchive(sessionId, { format });
 
     // Update archive record with completion data
     await prisma.sessionArchive.update({
@@ -206,7 +240,10 @@ router.post('/create/:sessionId', [
         s3Key: archiveResult.s3Key,
         fileSize: archiveResult.fileSize,
         compressionRatio: archiveResult.compressionRatio,
-        checksum: archiveResult.checksum
+        checksum: archiveResult.checksum,
+        format: archiveResult.manifest.format,
+        version: archiveResult.manifest.version,
+        manifest: archiveResult.manifest as any
       }
     });
 
@@ -230,36 +267,86 @@ router.post('/create/:sessionId', [
   } catch (error) {
     logger.error('Failed to create archive', error);
     
-    if (getErrorMessage(error) === 'Session not found') {
-      return res.status(404).json({
+    if (error instanceof ArchiveNotFoundError || error instanceof ArchiveConflictError) {
+      return res.status(error instanceof ArchiveNotFoundError ? 404 : 409).json({
         success: false,
-        error: 'Session not found'
+        error: getErrorMessage(error)
       });
     }
     
-    if (getErrorMessage(error) === 'Archive already exists for this session') {
-      return res.status(409).json({
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create archive',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/archives/import - Restore an archive exported by another deployment
+router.post('/import', upload.single('archive'), restoreValidation, handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
         success: false,
-        error: 'Archive already exists for this session'
+        error: 'Archive file is required'
       });
     }
-    
-    res.status(500).json({
+
+    const result = await createRestoreService().importArchive(req.file.buffer, {
+      sessionId: req.body.sessionId,
+      replace: String(req.body.replace) === 'true'
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    logger.error('Failed to import archive', error);
+    res.status(restoreStatusFor(error)).json({
       success: false,
-      error: 'Failed to create archive',
+      error: 'Failed to import archive',
       details: getErrorMessage(error)
     });
   }
 });
 
-// GET /api/archives/:id/download - Get download URL for archive
+// POST /api/archives/:id/restore - Verify an archive and rebuild its session
+router.post('/:id/restore', [
+  param('id').isUUID(),
+  ...restoreValidation
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const result = await createRestoreService().restore(req.params.id, {
+      sessionId: req.body.sessionId,
+      replace: req.body.replace === true || req.body.replace === 'true'
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    logger.error('Failed to restore archive', error);
+    res.status(restoreStatusFor(error)).json({
+      success: false,
+      error: 'Failed to restore archive',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/archives/:id/download - Get download URL for archive, or the archive itself with ?stream=true
 router.get('/:id/download', [
   param('id').isUUID(),
-  query('expiresIn').optional().isInt({ min: 300, max: 86400 }) // 5 minutes to 24 hours
+  query('expiresIn').optional().isInt({ min: 300, max: 86400 }), // 5 minutes to 24 hours
+  query('stream').optional().isBoolean()
 ], handleValidationErrors, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { expiresIn = 3600 } = req.query; // Default 1 hour
+    const { expiresIn = 3600, stream } = req.query; // Default 1 hour
 
     const archive = await prisma.sessionArchive.findUnique({
       where: { id }
@@ -281,6 +368,21 @@ router.get('/:id/download', [
     }
 
     const storageManager = new StorageManager(prisma);
+    const filename = archiveFileName(archive.sessionId, archive.format);
+
+    if (stream === 'true') {
+      // Piped from local disk or S3 as it is read, never staged in tmp
+      const { stream: body, size } = await storageManager.openArchiveStream(archive);
+      res.setHeader('Content-Type', ARCHIVE_CONTENT_TYPES[archive.format as ArchiveFormat] || 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('X-Archive-Checksum', archive.checksum);
+      if (size !== undefined) res.setHeader('Content-Length', String(size));
+
+      await pipeline(body, res);
+      logger.info('Archive streamed', { archiveId: id, size });
+      return;
+    }
+
     const downloadUrl = await storageManager.generateArchiveDownloadUrl(archive.sessionId, Number(expiresIn));
 
     logger.info('Download URL generated', {
@@ -294,12 +396,23 @@ router.get('/:id/download', [
         downloadUrl,
         expiresIn: Number(expiresIn),
         fileSize: Number(archive.fileSize),
-        filename: `session_${archive.sessionId}.zip`
+        filename
       }
     });
 
   } catch (error) {
     logger.error('Failed to generate download URL', error);
+    // A stream that fails part way can only be cut off
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    if (error instanceof ArchiveNotFoundError) {
+      return res.status(404).json({
+        success: false,
+        error: 'Archive file not found'
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to generate download URL',
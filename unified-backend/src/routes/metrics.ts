@@ -0,0 +1,28 @@
+import { Router, Request, Response } from 'express';
+import { Logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/type-helpers';
+import { OPENMETRICS_CONTENT_TYPE, getMetricsRegistry } from '../services/metrics/openmetrics';
+
+const router = Router();
+const logger = new Logger('MetricsRoutes');
+
+// GET /metrics - Prometheus scrape target (OpenMetrics text format)
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const body = await getMetricsRegistry().render();
+
+    res.set('Content-Type', OPENMETRICS_CONTENT_TYPE);
+    res.set('Cache-Control', 'no-store');
+    res.send(body);
+
+  } catch (error) {
+    logger.error('Failed to render metrics', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to render metrics',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+export { router as metricsRoutes };
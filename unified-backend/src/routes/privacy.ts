@@ -0,0 +1,390 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { DataSubjectRequestStatus } from '@prisma/client';
+import { Logger } from '../utils/logger';
+import { prisma } from '../lib/database';
+import { getErrorMessage } from '../utils/type-helpers';
+import {
+  DSR_REGULATIONS,
+  DSR_TYPES,
+  DataSubjectRequestNotFoundError,
+  DataSubjectRequestService,
+  DataSubjectRequestStateError,
+  InvalidVerificationTokenError,
+  PIIRedactionEngine,
+  PrivacyAuditLogImpl
+} from '../services/privacy';
+
+const router = Router();
+const verificationRouter = Router();
+const logger = new Logger('PrivacyRoutes');
+const auditLog = new PrivacyAuditLogImpl(prisma);
+
+const DSR_STATUSES = Object.values(DataSubjectRequestStatus);
+
+// Validation middleware
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+const getRequestService = (req: Request): DataSubjectRequestService | undefined => req.app.locals.dataSubjectRequests;
+
+const requestStatusFor = (error: unknown): number => {
+  if (error instanceof DataSubjectRequestNotFoundError) return 404;
+  if (error instanceof DataSubjectRequestStateError) return 409;
+  return 500;
+};
+
+const serviceUnavailable = (res: Response) => res.status(503).json({
+  success: false,
+  error: 'Data subject request service not available'
+});
+
+// GET /api/privacy/requests - List requests, newest first
+router.get('/requests', [
+  query('status').optional().isIn(DSR_STATUSES),
+  query('type').optional().isIn([...DSR_TYPES]),
+  query('subjectId').optional().isString().isLength({ min: 1, max: 200 }),
+  query('overdue').optional().isBoolean(),
+  query('limit').optional().isInt({ min: 1, max: 500 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const requests = getRequestService(req);
+    if (!requests) return serviceUnavailable(res);
+
+    const data = await requests.listRequests({
+      status: req.query.status as DataSubjectRequestStatus | undefined,
+      type: req.query.type as any,
+      subjectId: req.query.subjectId as string | undefined,
+      overdue: req.query.overdue === 'true',
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    logger.error('Failed to list data subject requests', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list data subject requests',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/privacy/requests - Record a request; the verification token is only returned here, to be sent to the subject
+router.post('/requests', [
+  body('type').isIn([...DSR_TYPES]).withMessage(`type must be one of: ${DSR_TYPES.join(', ')}`),
+  body('regulation').optional().isIn([...DSR_REGULATIONS]),
+  body('subjectId').isString().trim().isLength({ min: 1, max: 200 }),
+  body('contactEmail').optional().isEmail(),
+  body('notes').optional().isString().isLength({ max: 2000 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const requests = getRequestService(req);
+    if (!requests) return serviceUnavailable(res);
+
+    const { type, regulation, subjectId, contactEmail, notes } = req.body;
+    const issued = await requests.createRequest({
+      type,
+      regulation,
+      subjectId,
+      contactEmail,
+      notes,
+      requestedBy: (req as any).user?.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: issued
+    });
+
+  } catch (error) {
+    logger.error('Failed to create data subject request', error);
+    const message = getErrorMessage(error);
+    res.status(requestStatusFor(error)).json({
+      success: false,
+      error: 'Failed to create data subject request',
+      details: message
+    });
+  }
+});
+
+// GET /api/privacy/requests/:id - One request with its audit events
+router.get('/requests/:id', [
+  param('id').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const requests = getRequestService(req);
+    if (!requests) return serviceUnavailable(res);
+
+    const request = await requests.getRequest(req.params.id);
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        error: 'Data subject request not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: request
+    });
+
+  } catch (error) {
+    logger.error('Failed to get data subject request', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get data subject request',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/privacy/requests/:id/token - Issue a new verification token, e.g. after the first one expired
+router.post('/requests/:id/token', [
+  param('id').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const requests = getRequestService(req);
+    if (!requests) return serviceUnavailable(res);
+
+    const issued = await requests.reissueVerification(req.params.id, (req as any).user?.id);
+
+    res.status(201).json({
+      success: true,
+      data: issued
+    });
+
+  } catch (error) {
+    logger.error('Failed to reissue verification token', error);
+    const message = getErrorMessage(error);
+    res.status(requestStatusFor(error)).json({
+      success: false,
+      error: 'Failed to reissue verification token',
+      details: message
+    });
+  }
+});
+
+// POST /api/privacy/requests/:id/process - Export or erase a verified request; a failed erasure can be processed again
+router.post('/requests/:id/process', [
+  param('id').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const requests = getRequestService(req);
+    if (!requests) return serviceUnavailable(res);
+
+    const request = await requests.processRequest(req.params.id, (req as any).user?.id);
+
+    res.json({
+      success: true,
+      data: request
+    });
+
+  } catch (error) {
+    logger.error('Failed to process data subject request', error);
+    const message = getErrorMessage(error);
+    res.status(requestStatusFor(error)).json({
+      success: false,
+      error: 'Failed to process data subject request',
+      details: message
+    });
+  }
+});
+
+// POST /api/privacy/requests/:id/cancel - Close a request that has not completed
+router.post('/requests/:id/cancel', [
+  param('id').isUUID(),
+  body('reason').optional().isString().isLength({ max: 500 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const requests = getRequestService(req);
+    if (!requests) return serviceUnavailable(res);
+
+    const request = await requests.cancelRequest(req.params.id, {
+      actor: (req as any).user?.id,
+      reason: req.body.reason
+    });
+
+    res.json({
+      success: true,
+      data: request
+    });
+
+  } catch (error) {
+    logger.error('Failed to cancel data subject request', error);
+    const message = getErrorMessage(error);
+    res.status(requestStatusFor(error)).json({
+      success: false,
+      error: 'Failed to cancel data subject request',
+      details: message
+    });
+  }
+});
+
+// GET /api/privacy/requests/:id/export - Download the bundle of a completed access request
+router.get('/requests/:id/export', [
+  param('id').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const requests = getRequestService(req);
+    if (!requests) return serviceUnavailable(res);
+
+    const { bundle, checksum, fileName } = await requests.getExport(req.params.id, (req as any).user?.id);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.setHeader('X-Export-Checksum', checksum);
+    res.send(bundle);
+
+  } catch (error) {
+    logger.error('Failed to download data subject export', error);
+    const message = getErrorMessage(error);
+    res.status(requestStatusFor(error)).json({
+      success: false,
+      error: 'Failed to download data subject export',
+      details: message
+    });
+  }
+});
+
+// GET /api/privacy/audit - Audit events in chain order
+router.get('/audit', [
+  query('requestId').optional().isUUID(),
+  query('action').optional().isString().isLength({ max: 100 }),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('afterSequence').optional().isInt({ min: 0 }),
+  query('limit').optional().isInt({ min: 1, max: 1000 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const events = await auditLog.list({
+      requestId: req.query.requestId as string | undefined,
+      action: req.query.action as string | undefined,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      to: req.query.to ? new Date(req.query.to as string) : undefined,
+      afterSequence: req.query.afterSequence ? parseInt(req.query.afterSequence as string) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+    });
+
+    res.json({
+      success: true,
+      data: events
+    });
+
+  } catch (error) {
+    logger.error('Failed to list privacy audit events', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list privacy audit events',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/privacy/audit/verify - Recompute the audit hash chain
+router.get('/audit/verify', async (req: Request, res: Response) => {
+  try {
+    const verification = await auditLog.verifyChain();
+    if (!verification.valid) {
+      logger.error('Privacy audit chain is broken', verification.brokenAt);
+    }
+
+    res.json({
+      success: true,
+      data: verification
+    });
+
+  } catch (error) {
+    logger.error('Failed to verify privacy audit chain', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify privacy audit chain',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/privacy/detokenize - Reveal the original values behind PII tokens in text from one session
+router.post('/detokenize', [
+  body('sessionId').isString().isLength({ min: 1, max: 200 }),
+  body('text').isString().isLength({ min: 1, max: 100000 }),
+  body('reason').isString().trim().isLength({ min: 1, max: 500 }).withMessage('reason is required for the audit trail')
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const redaction: PIIRedactionEngine | undefined = req.app.locals.piiRedaction;
+    if (!redaction) {
+      return res.status(503).json({
+        success: false,
+        error: 'PII redaction service not available'
+      });
+    }
+
+    const { sessionId, text, reason } = req.body;
+    const result = await redaction.detokenize(sessionId, text);
+    await auditLog.append({
+      action: 'pii.detokenized',
+      actor: (req as any).user?.id,
+      details: { sessionId, resolved: result.resolved, unresolved: result.unresolved.length, reason }
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    logger.error('Failed to detokenize text', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to detokenize text',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/privacy/verify - Public: the subject confirms a request with the token they were sent
+verificationRouter.post('/', [
+  body('requestId').isUUID(),
+  body('token').isString().isLength({ min: 1, max: 200 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const requests = getRequestService(req);
+    if (!requests) return serviceUnavailable(res);
+
+    const request = await requests.verifyIdentity(req.body.requestId, req.body.token);
+
+    res.json({
+      success: true,
+      data: { id: request.id, status: request.status, verifiedAt: request.verifiedAt, dueAt: request.dueAt }
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidVerificationTokenError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+
+    logger.error('Failed to verify data subject request', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify data subject request'
+    });
+  }
+});
+
+export { router as privacyRoutes, verificationRouter as privacyVerificationRoutes };
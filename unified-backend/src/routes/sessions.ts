@@ -3,11 +3,18 @@ import { prisma } from '../lib/database';
 import { body, param, query, validationResult } from 'express-validator';
 import { Logger } from '../utils/logger';
 import { DataProcessingPipeline } from '../services/data-processing-pipeline';
+import { StorageManager } from '../services/storage-manager-clean';
 import { getErrorMessage } from '../utils/type-helpers';
+import { PlaywrightExportServiceImpl } from '../services/export/playwright-export';
+import { EnhancedInteractionStoreImpl } from '../services/interactions/enhanced-interaction-store';
 
 const router = Router();
 // Using shared prisma instance from lib/database
 const logger = new Logger('SessionRoutes');
+const playwrightExporter = new PlaywrightExportServiceImpl();
+const interactionStore = new EnhancedInteractionStoreImpl(prisma);
+
+const getStorageManager = (req: Request): StorageManager | undefined => req.app.locals.storageManager;
 
 // Validation middleware
 const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
@@ -140,7 +147,7 @@ router.get('/:id', [
 
     res.json({
       success: true,
-      data: session
+      data: await interactionStore.hydrate(session)
     });
 
   } catch (error) {
@@ -378,6 +385,65 @@ router.get('/:id/training-data', [
   }
 });
 
+// GET /api/sessions/:id/export/playwright - Export session as a Playwright test
+router.get('/:id/export/playwright', [
+  param('id').isUUID(),
+  query('format').optional().isIn(['ts', 'json']),
+  query('assertions').optional().isBoolean(),
+  query('selectorTimeoutMs').optional().isInt({ min: 100, max: 60000 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const session = await prisma.unifiedSession.findUnique({
+      where: { id },
+      include: {
+        interactions: {
+          orderBy: { timestamp: 'asc' }
+        }
+      }
+    });
+
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+    }
+
+    const result = playwrightExporter.generateScript(await interactionStore.hydrate(session), {
+      includeAssertions: req.query.assertions !== 'false',
+      selectorTimeoutMs: req.query.selectorTimeoutMs ? Number(req.query.selectorTimeoutMs) : undefined
+    });
+
+    logger.info('Session exported to Playwright', {
+      sessionId: id,
+      stepCount: result.stepCount,
+      skippedCount: result.skippedCount,
+      placeholders: result.placeholders.length
+    });
+
+    if (req.query.format === 'json') {
+      return res.json({
+        success: true,
+        data: result
+      });
+    }
+
+    res.setHeader('Content-Type', 'application/typescript; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+    res.send(result.script);
+
+  } catch (error) {
+    logger.error('Failed to export session', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export session',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
 // DELETE /api/sessions/:id - Delete session (soft delete)
 router.delete('/:id', [
   param('id').isUUID()
@@ -536,6 +602,18 @@ router.post('/:id/screenshots', [
       });
     }
 
+    // Store inline images in object storage; keep the data URL only if that fails so it can be offloaded later
+    let stored: ReturnType<StorageManager['toScreenshotFields']> | undefined;
+    const storageManager = getStorageManager(req);
+    if (dataUrl && !s3Key && storageManager) {
+      try {
+        const result = await storageManager.compressAndUploadScreenshot(dataUrl, sessionId, eventType, { burstId });
+        stored = storageManager.toScreenshotFields(result);
+      } catch (error) {
+        logger.warn('Screenshot upload failed, storing inline', { sessionId, error: getErrorMessage(error) });
+      }
+    }
+
     // Calculate file size from dataUrl if provided
     let fileSize: number | undefined;
     if (dataUrl) {
@@ -552,7 +630,7 @@ router.post('/:id/screenshots', [
         interactionId,
         timestamp: BigInt(timestamp),
         eventType,
-        dataUrl,
+        dataUrl: s3Key ? null : dataUrl,
         s3Key,
         viewport: JSON.stringify(viewport),
         quality,
@@ -564,6 +642,7 @@ router.post('/:id/screenshots', [
         format,
         fileSize,
         compressed: !!s3Key, // If s3Key exists, assume it's compressed
+        ...stored
       }
     });
 
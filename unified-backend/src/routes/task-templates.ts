@@ -0,0 +1,241 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { PrismaClient } from '@prisma/client';
+import { requireRole } from '../middleware/auth';
+import {
+  InvalidTaskTemplateError,
+  TEMPLATE_TASK_TYPES,
+  TaskCatalog,
+  TaskCatalogImpl,
+  TaskCatalogNotFoundError,
+  TaskTemplateConflictError,
+  WorldModelUnavailableError
+} from '../services/tasks';
+import { Logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/type-helpers';
+
+const router = Router();
+const logger = new Logger('TaskTemplateRoutes');
+const adminOnly = requireRole('admin') as any;
+
+// Validation middleware
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+function getCatalog(req: Request): TaskCatalog {
+  return new TaskCatalogImpl(req.app.locals.prisma as PrismaClient, req.app.locals.worldModelService);
+}
+
+function statusFor(error: unknown): number {
+  if (error instanceof InvalidTaskTemplateError) return 400;
+  if (error instanceof TaskCatalogNotFoundError) return 404;
+  if (error instanceof TaskTemplateConflictError) return 409;
+  if (error instanceof WorldModelUnavailableError) return 503;
+  return 500;
+}
+
+function sendError(res: Response, error: unknown, summary: string): void {
+  logger.error(summary, error);
+  res.status(statusFor(error)).json({
+    success: false,
+    error: summary,
+    details: getErrorMessage(error)
+  });
+}
+
+const templateValidators = (partial: boolean) => {
+  const field = (name: string) => partial ? body(name).optional() : body(name);
+  return [
+    body('key').optional().matches(/^[a-z0-9_]+$/).withMessage('Key must be lowercase letters, digits and underscores'),
+    body('hostname').optional({ values: 'null' }).isString(),
+    field('taskType').isIn([...TEMPLATE_TASK_TYPES]),
+    field('category').isString().notEmpty(),
+    field('title').isString().notEmpty(),
+    field('description').isString().notEmpty(),
+    field('steps').isArray({ min: 1 }),
+    body('steps.*').isString(),
+    field('successCriteria').isArray({ min: 1 }),
+    body('successCriteria.*').isString(),
+    body('variables').optional().isObject()
+  ];
+};
+
+const TEMPLATE_FIELDS = ['hostname', 'taskType', 'category', 'title', 'description', 'steps', 'successCriteria', 'variables'] as const;
+
+// GET /api/tasks/templates - List active templates
+router.get('/', [
+  query('hostname').optional().isString(),
+  query('taskType').optional().isIn([...TEMPLATE_TASK_TYPES]),
+  query('category').optional().isString()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await getCatalog(req).listTemplates({
+        hostname: req.query.hostname as string | undefined,
+        taskType: req.query.taskType as string | undefined,
+        category: req.query.category as string | undefined
+      })
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to list task templates');
+  }
+});
+
+// POST /api/tasks/templates - Create a template (version 1)
+router.post('/', adminOnly, templateValidators(false), handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const template = await getCatalog(req).createTemplate({
+      key: req.body.key,
+      hostname: req.body.hostname,
+      taskType: req.body.taskType,
+      category: req.body.category,
+      title: req.body.title,
+      description: req.body.description,
+      steps: req.body.steps,
+      successCriteria: req.body.successCriteria,
+      variables: req.body.variables
+    }, (req as any).user?.id);
+
+    res.status(201).json({ success: true, data: template });
+  } catch (error) {
+    sendError(res, error, 'Failed to create task template');
+  }
+});
+
+// GET /api/tasks/templates/sites - List site profiles
+router.get('/sites', async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await getCatalog(req).listSites() });
+  } catch (error) {
+    sendError(res, error, 'Failed to list site profiles');
+  }
+});
+
+// PUT /api/tasks/templates/sites/:hostname - Create or replace a site profile
+router.put('/sites/:hostname', adminOnly, [
+  param('hostname').isString().notEmpty(),
+  body('name').optional({ values: 'null' }).isString(),
+  body('description').isString().notEmpty(),
+  body('storeType').isString().notEmpty(),
+  body('categories').isArray(),
+  body(['features', 'complexity', 'products', 'productCategories']).optional().isArray(),
+  body(['categories.*', 'features.*', 'complexity.*', 'products.*', 'productCategories.*']).isString(),
+  body('localContext').optional({ values: 'null' }).isString(),
+  body('deriveFromWorldModel').optional().isBoolean()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const site = await getCatalog(req).upsertSite(req.params.hostname, {
+      name: req.body.name,
+      description: req.body.description,
+      storeType: req.body.storeType,
+      categories: req.body.categories,
+      features: req.body.features,
+      complexity: req.body.complexity,
+      products: req.body.products,
+      productCategories: req.body.productCategories,
+      localContext: req.body.localContext,
+      deriveFromWorldModel: req.body.deriveFromWorldModel
+    });
+
+    res.json({ success: true, data: site });
+  } catch (error) {
+    sendError(res, error, 'Failed to save site profile');
+  }
+});
+
+// DELETE /api/tasks/templates/sites/:hostname - Remove a site profile
+router.delete('/sites/:hostname', adminOnly, [
+  param('hostname').isString().notEmpty()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    await getCatalog(req).deleteSite(req.params.hostname);
+    res.json({ success: true, data: { hostname: req.params.hostname, deleted: true } });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete site profile');
+  }
+});
+
+// POST /api/tasks/templates/sites/:hostname/derive - Refresh products and categories from the world model
+router.post('/sites/:hostname/derive', adminOnly, [
+  param('hostname').isString().notEmpty()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await getCatalog(req).deriveSite(req.params.hostname) });
+  } catch (error) {
+    sendError(res, error, 'Failed to derive site profile');
+  }
+});
+
+// GET /api/tasks/templates/:key - Latest (or a specific) version of a template
+router.get('/:key', [
+  param('key').isString().notEmpty(),
+  query('version').optional().isInt({ min: 1 }).toInt()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const template = await getCatalog(req).getTemplate(req.params.key, req.query.version as number | undefined);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Task template not found' });
+    }
+    res.json({ success: true, data: template });
+  } catch (error) {
+    sendError(res, error, 'Failed to get task template');
+  }
+});
+
+// GET /api/tasks/templates/:key/versions - Every version of a template, newest first
+router.get('/:key/versions', [
+  param('key').isString().notEmpty()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const versions = await getCatalog(req).listTemplateVersions(req.params.key);
+    if (versions.length === 0) {
+      return res.status(404).json({ success: false, error: 'Task template not found' });
+    }
+    res.json({ success: true, data: versions });
+  } catch (error) {
+    sendError(res, error, 'Failed to list task template versions');
+  }
+});
+
+// PUT /api/tasks/templates/:key - Publish a new version of a template
+router.put('/:key', adminOnly, [
+  param('key').isString().notEmpty(),
+  ...templateValidators(true)
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const changes = Object.fromEntries(
+      TEMPLATE_FIELDS.filter(field => req.body[field] !== undefined).map(field => [field, req.body[field]])
+    );
+
+    res.json({
+      success: true,
+      data: await getCatalog(req).updateTemplate(req.params.key, changes, (req as any).user?.id)
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update task template');
+  }
+});
+
+// DELETE /api/tasks/templates/:key - Retire a template
+router.delete('/:key', adminOnly, [
+  param('key').isString().notEmpty()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    await getCatalog(req).deleteTemplate(req.params.key);
+    res.json({ success: true, data: { key: req.params.key, retired: true } });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete task template');
+  }
+});
+
+export default router;
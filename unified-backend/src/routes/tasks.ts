@@ -1,9 +1,11 @@
 import express from 'express';
 import { body, param, query, validationResult } from 'express-validator';
-import { PrismaClient, TaskAssignmentStatus } from '@prisma/client';
+import { PrismaClient, TaskAssignmentStatus, TaskDifficulty } from '@prisma/client';
 import { Logger } from '../utils/logger';
 import { TaskGenerationService } from '../services/task-generation';
 import { OpenAIIntegrationService } from '../services/openai-integration-clean';
+import { TaskAssignmentEngineImpl, TaskCatalogImpl, TaskCompletionVerifierImpl, TaskRecommendation } from '../services/tasks';
+import taskTemplateRoutes from './task-templates';
 
 const router = express.Router();
 const logger = new Logger('TaskRoutes');
@@ -17,33 +19,79 @@ const validateRequest = (req: express.Request, res: express.Response, next: expr
   next();
 };
 
+const createTaskService = (req: express.Request) => {
+  const prisma = req.app.locals.prisma as PrismaClient;
+  return new TaskGenerationService(prisma, new TaskCatalogImpl(prisma, req.app.locals.worldModelService));
+};
+
+const createAssignmentEngine = (req: express.Request) => {
+  const prisma = req.app.locals.prisma as PrismaClient;
+  return new TaskAssignmentEngineImpl(prisma, new TaskCatalogImpl(prisma, req.app.locals.worldModelService));
+};
+
+// The worker a task is for is the authenticated caller; only admins may name another worker
+const resolveWorkerId = (req: express.Request): string => {
+  const user = (req as any).user;
+  return (user?.role === 'admin' && (req.query.workerId as string)) || user?.id || 'anonymous';
+};
+
+// Tasks and their outcomes feed the named worker's skill profile, so callers cannot act as someone else
+const rejectOtherWorker = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const user = (req as any).user;
+  if (req.query.workerId && user?.role !== 'admin' && req.query.workerId !== user?.id) {
+    return res.status(403).json({ success: false, error: 'Only admins can request tasks for another worker' });
+  }
+  next();
+};
+
+// What the client needs to know about an engine choice, without the full profile
+const summarizeRecommendation = (recommendation: TaskRecommendation | null) => recommendation && {
+  workerId: recommendation.workerId,
+  difficulty: recommendation.difficulty,
+  taskType: recommendation.taskType,
+  website: recommendation.website,
+  score: recommendation.candidate.score,
+  workerSuccessRate: recommendation.profile.recentSuccessRate
+};
+
+// Site profiles and task templates
+router.use('/templates', taskTemplateRoutes);
+
 // GET /api/tasks/generate - Generate a new task
 router.get('/generate', [
   query('website').isURL().withMessage('Valid website URL required'),
   query('userLevel').optional().isIn(['beginner', 'intermediate', 'advanced']).withMessage('Invalid user level'),
   query('category').optional().isString().withMessage('Category must be string'),
-  query('sessionId').optional().isString().withMessage('Session ID must be string')
-], validateRequest, async (req: express.Request, res: express.Response) => {
+  query('sessionId').optional().isString().withMessage('Session ID must be string'),
+  query('workerId').optional().isString().withMessage('Worker ID must be string')
+], validateRequest, rejectOtherWorker, async (req: express.Request, res: express.Response) => {
   try {
-    const { website, userLevel = 'beginner', category, sessionId } = req.query;
+    const { website, userLevel, category, sessionId } = req.query;
+    const workerId = resolveWorkerId(req);
     
-    const prisma = req.app.locals.prisma as PrismaClient;
     const openaiService = req.app.locals.openaiService as OpenAIIntegrationService;
-    const taskService = new TaskGenerationService(prisma);
+    const taskService = createTaskService(req);
+
+    // Without an explicit level the worker's skill profile sets the difficulty
+    // and training data coverage picks the task type for this site
+    const recommendation = userLevel
+      ? null
+      : await createAssignmentEngine(req).recommend(workerId, { website: website as string });
     
-    logger.info('Generating task', { website, userLevel, category, sessionId });
+    logger.info('Generating task', { website, userLevel, category, sessionId, workerId, recommendation: summarizeRecommendation(recommendation) });
     
     // Generate task
     const task = await taskService.generateTask(
       website as string, 
-      userLevel as string, 
-      category as string
+      (userLevel as string) || recommendation!.userLevel, 
+      category as string,
+      recommendation?.taskType
     );
     
     // If sessionId provided, assign task to session
     let assignment = null;
     if (sessionId) {
-      assignment = await taskService.assignTask(task.id, sessionId as string);
+      assignment = await taskService.assignTask(task.id, sessionId as string, workerId);
       await taskService.updateTaskStatus(sessionId as string, TaskAssignmentStatus.IN_PROGRESS);
     }
     
@@ -51,6 +99,7 @@ router.get('/generate', [
       success: true,
       task,
       assignment,
+      recommendation: summarizeRecommendation(recommendation),
       message: 'Task generated successfully'
     });
     
@@ -71,9 +120,8 @@ router.get('/session/:sessionId', [
   try {
     const { sessionId } = req.params;
     
-    const prisma = req.app.locals.prisma as PrismaClient;
     const openaiService = req.app.locals.openaiService as OpenAIIntegrationService;
-    const taskService = new TaskGenerationService(prisma);
+    const taskService = createTaskService(req);
     
     const result = await taskService.getSessionTask(sessionId);
     
@@ -99,22 +147,43 @@ router.get('/session/:sessionId', [
   }
 });
 
-// POST /api/tasks/session/:sessionId/status - Update task status
+// POST /api/tasks/session/:sessionId/status - Update task status. Workers only report
+// progress; a COMPLETED report runs verification against the recorded interactions,
+// which alone decides COMPLETED or FAILED
 router.post('/session/:sessionId/status', [
   param('sessionId').isString().notEmpty().withMessage('Session ID required'),
-  body('status').isIn(['ASSIGNED', 'IN_PROGRESS', 'COMPLETED', 'FAILED', 'ABANDONED']).withMessage('Invalid status'),
-  body('automationSequence').optional().isArray().withMessage('Automation sequence must be array'),
-  body('completionTime').optional().isNumeric().withMessage('Completion time must be number')
+  body('status').isIn(['ASSIGNED', 'IN_PROGRESS', 'ABANDONED', 'COMPLETED']).withMessage('Invalid status'),
+  body('automationSequence').optional().isArray().withMessage('Automation sequence must be array')
 ], validateRequest, async (req: express.Request, res: express.Response) => {
   try {
     const { sessionId } = req.params;
-    const { status, automationSequence, completionTime } = req.body;
-    
-    const prisma = req.app.locals.prisma as PrismaClient;
-    const openaiService = req.app.locals.openaiService as OpenAIIntegrationService;
-    const taskService = new TaskGenerationService(prisma);
+    const { status, automationSequence } = req.body;
+
+    if (status === TaskAssignmentStatus.COMPLETED) {
+      const prisma = req.app.locals.prisma as PrismaClient;
+      if (automationSequence) {
+        await prisma.taskAssignment.updateMany({
+          where: { sessionId },
+          data: { automationSequence: JSON.stringify(automationSequence) }
+        });
+      }
+      const verifications = await new TaskCompletionVerifierImpl(prisma).verifySession(sessionId);
+      if (verifications.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'No task assigned to this session'
+        });
+      }
+      return res.json({
+        success: true,
+        verifications,
+        message: 'Task completion verified'
+      });
+    }
+
+    const taskService = createTaskService(req);
     
-    await taskService.updateTaskStatus(sessionId, status, automationSequence, completionTime);
+    await taskService.updateTaskStatus(sessionId, status, automationSequence);
     
     res.json({
       success: true,
@@ -130,41 +199,65 @@ router.post('/session/:sessionId/status', [
   }
 });
 
-// GET /api/tasks/random - Get a random task for any website
+// POST /api/tasks/session/:sessionId/verify - Re-check the session's tasks against its recorded interactions
+router.post('/session/:sessionId/verify', [
+  param('sessionId').isString().notEmpty().withMessage('Session ID required')
+], validateRequest, async (req: express.Request, res: express.Response) => {
+  try {
+    const prisma = req.app.locals.prisma as PrismaClient;
+    const verifications = await new TaskCompletionVerifierImpl(prisma).verifySession(req.params.sessionId);
+
+    if (verifications.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'No task assigned to this session'
+      });
+    }
+
+    res.json({
+      success: true,
+      verifications
+    });
+
+  } catch (error) {
+    logger.error('Failed to verify session tasks', { sessionId: req.params.sessionId, error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify session tasks'
+    });
+  }
+});
+
+// GET /api/tasks/random - Pick the next task for a worker: difficulty from their
+// skill profile, site and task type from gaps in training data coverage
 router.get('/random', [
   query('difficulty').optional().isIn(['beginner', 'intermediate', 'advanced']).withMessage('Invalid difficulty'),
   query('category').optional().isString().withMessage('Category must be string'),
-  query('sessionId').optional().isString().withMessage('Session ID must be string')
-], validateRequest, async (req: express.Request, res: express.Response) => {
+  query('sessionId').optional().isString().withMessage('Session ID must be string'),
+  query('workerId').optional().isString().withMessage('Worker ID must be string')
+], validateRequest, rejectOtherWorker, async (req: express.Request, res: express.Response) => {
   try {
-    const { difficulty = 'beginner', category, sessionId } = req.query;
-    
-    // Random popular e-commerce sites
-    const websites = [
-      'https://www.amazon.com',
-      'https://www.nike.com', 
-      'https://www.uniqlo.com',
-      'https://www.nordstrom.com',
-      'https://www.target.com',
-      'https://www.bestbuy.com'
-    ];
+    const { difficulty, category, sessionId } = req.query;
+    const workerId = resolveWorkerId(req);
     
-    const randomWebsite = websites[Math.floor(Math.random() * websites.length)];
-    
-    const prisma = req.app.locals.prisma as PrismaClient;
     const openaiService = req.app.locals.openaiService as OpenAIIntegrationService;
-    const taskService = new TaskGenerationService(prisma);
+    const taskService = createTaskService(req);
+
+    const recommendation = await createAssignmentEngine(req).recommend(workerId, {
+      difficulty: difficulty ? (difficulty as string).toUpperCase() as TaskDifficulty : undefined
+    });
     
     const task = await taskService.generateTask(
-      randomWebsite, 
-      difficulty as string, 
-      category as string
+      recommendation.website, 
+      recommendation.userLevel, 
+      category as string,
+      recommendation.taskType
     );
     
     // If sessionId provided, assign task to session
     let assignment = null;
     if (sessionId) {
-      assignment = await taskService.assignTask(task.id, sessionId as string);
+      assignment = await taskService.assignTask(task.id, sessionId as string, workerId);
       await taskService.updateTaskStatus(sessionId as string, TaskAssignmentStatus.IN_PROGRESS);
     }
     
@@ -172,6 +265,7 @@ router.get('/random', [
       success: true,
       task,
       assignment,
+      recommendation: summarizeRecommendation(recommendation),
       message: 'Random task generated successfully'
     });
     
@@ -184,6 +278,42 @@ router.get('/random', [
   }
 });
 
+// GET /api/tasks/workers/:workerId/profile - Skill profile and recommended difficulty
+router.get('/workers/:workerId/profile', [
+  param('workerId').isString().notEmpty().withMessage('Worker ID required')
+], validateRequest, async (req: express.Request, res: express.Response) => {
+  try {
+    res.json({
+      success: true,
+      profile: await createAssignmentEngine(req).getWorkerProfile(req.params.workerId)
+    });
+    
+  } catch (error) {
+    logger.error('Failed to build worker profile', { workerId: req.params.workerId, error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build worker profile'
+    });
+  }
+});
+
+// GET /api/tasks/coverage - Training data coverage the assignment engine balances
+router.get('/coverage', async (req: express.Request, res: express.Response) => {
+  try {
+    res.json({
+      success: true,
+      coverage: await createAssignmentEngine(req).getCoverage()
+    });
+    
+  } catch (error) {
+    logger.error('Failed to load training coverage', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load training coverage'
+    });
+  }
+});
+
 // GET /api/tasks/stats - Get task completion statistics
 router.get('/stats', async (req, res) => {
   try {
@@ -2,12 +2,17 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { Logger } from '../utils/logger';
 import { OpenAIIntegrationService } from '../services/openai-integration-clean';
+import { FineTuningJobStateError, FineTuningManager, FineTuningNotFoundError } from '../services/training/fine-tuning-manager';
+import { DatasetBuilder, DatasetNotFoundError, EmptyDatasetError } from '../services/training/dataset-builder';
+import { ModelEvaluator } from '../services/training/model-evaluator';
+import { EnhancedInteractionStoreImpl } from '../services/interactions/enhanced-interaction-store';
 import { prisma } from '../lib/database';
 import { getErrorMessage } from '../utils/type-helpers';
 
 const router = Router();
 const logger = new Logger('TrainingRoutes');
 // Using shared prisma instance from lib/database
+const interactionStore = new EnhancedInteractionStoreImpl(prisma);
 
 // Validation middleware
 const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
@@ -22,6 +27,10 @@ const handleValidationErrors = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+const getFineTuningManager = (req: Request): FineTuningManager | undefined => req.app.locals.fineTuningManager;
+const getDatasetBuilder = (req: Request): DatasetBuilder | undefined => req.app.locals.datasetBuilder;
+const getModelEvaluator = (req: Request): ModelEvaluator | undefined => req.app.locals.modelEvaluator;
+
 // POST /api/training/generate - Generate training data from sessions
 router.post('/generate', [
   body('sessionIds').isArray().withMessage('sessionIds must be an array'),
@@ -44,7 +53,7 @@ router.post('/generate', [
           include: { interactions: true, screenshots: true }
         });
         if (session) {
-          const trainingData = await openaiService.generateTrainingData(session);
+          const trainingData = await openaiService.generateTrainingData(await interactionStore.hydrate(session));
           totalExamples += trainingData.messages.length;
           totalQuality += trainingData.trainingValue;
         }
@@ -97,44 +106,92 @@ router.post('/pipeline', [
   try {
     const { sessionIds, config = {} } = req.body;
 
-    const openaiService = new OpenAIIntegrationService();
+    const fineTuningManager = getFineTuningManager(req);
+    if (!fineTuningManager) {
+      return res.status(503).json({
+        success: false,
+        error: 'Fine-tuning manager not available'
+      });
+    }
+
+    const openaiService: OpenAIIntegrationService = req.app.locals.openaiService || new OpenAIIntegrationService();
+    const trainingConfig = {
+      model: 'gpt-4o-mini-2024-07-18',
+      hyperparameters: {
+        n_epochs: config.epochs || 3,
+        batch_size: config.batchSize || 1,
+        learning_rate_multiplier: config.learningRate || 0.1
+      },
+      suffix: config.suffix
+    };
     
-    // Create complete training pipeline using available methods
-    let allTrainingData: any[] = [];
+    const allTrainingData: any[] = [];
+    const trainingDataIds: string[] = [];
     
-    // Generate training data for all sessions
+    // Generate training data for all sessions, recording one TrainingData row per session
     for (const sessionId of sessionIds) {
       try {
         const session = await prisma.unifiedSession.findUnique({
           where: { id: sessionId },
           include: { interactions: true, screenshots: true }
         });
-        if (session) {
-          const trainingData = await openaiService.generateTrainingData(session);
-          allTrainingData.push(...trainingData.messages);
-        }
+        if (!session) continue;
+
+        const trainingData = await openaiService.generateTrainingData(await interactionStore.hydrate(session));
+        const examples: any[] = trainingData.examples || trainingData.messages || [];
+        if (examples.length === 0) continue;
+
+        const jsonlData = examples.map(example => JSON.stringify(example)).join('\n');
+        const recordData = {
+          jsonlData,
+          fileSize: Buffer.byteLength(jsonlData),
+          trainingConfig: trainingConfig as any,
+          trainingQuality: session.qualityScore || 0,
+          status: 'UPLOADING' as const
+        };
+
+        const existing = await prisma.trainingData.findFirst({
+          where: { sessionId },
+          orderBy: { createdAt: 'desc' }
+        });
+        const record = existing
+          ? await prisma.trainingData.update({ where: { id: existing.id }, data: recordData })
+          : await prisma.trainingData.create({ data: { sessionId, ...recordData } });
+
+        trainingDataIds.push(record.id);
+        allTrainingData.push(...examples);
       } catch (error) {
         logger.warn(`Failed to process session ${sessionId}`, error);
       }
     }
+
+    if (allTrainingData.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No training examples could be generated from the given sessions'
+      });
+    }
     
-    // Upload training file and create fine-tuning job
-    const fileId = await openaiService.uploadTrainingFile({ messages: allTrainingData }, config);
-    const jobId = await openaiService.createFineTuningJob(fileId, {
-      model: 'gpt-4o-mini-2024-07-18',
-      hyperparameters: {
-        n_epochs: config.epochs || 3,
-        batch_size: config.batchSize || 1,
-        learning_rate_multiplier: config.learningRate || 0.1
-      },
-      suffix: config.suffix
-    });
+    // Upload training file and create a tracked fine-tuning job
+    let fileId: string;
+    try {
+      fileId = await openaiService.uploadTrainingFile({ messages: allTrainingData }, config);
+    } catch (error) {
+      await prisma.trainingData.updateMany({
+        where: { id: { in: trainingDataIds } },
+        data: { status: 'FAILED' }
+      });
+      throw error;
+    }
+
+    const job = await fineTuningManager.createJob({ fileId, config: trainingConfig, trainingDataIds });
     
     const pipeline = {
-      trainingRecordId: `training_${Date.now()}`,
-      jobId,
+      trainingRecordId: job.id,
+      jobId: job.jobId,
       totalExamples: allTrainingData.length,
-      fileId
+      fileId,
+      trainingDataIds
     };
 
     logger.info('Training pipeline created', {
@@ -165,7 +222,16 @@ router.get('/jobs/:jobId', [
   try {
     const { jobId } = req.params;
 
-    const openaiService = new OpenAIIntegrationService();
+    // Tracked jobs are synced into FineTuningJob; untracked ones are read straight from the provider
+    const job = await getFineTuningManager(req)?.syncJob(jobId);
+    if (job) {
+      return res.json({
+        success: true,
+        data: job
+      });
+    }
+
+    const openaiService: OpenAIIntegrationService = req.app.locals.openaiService || new OpenAIIntegrationService();
     const status = await openaiService.monitorTraining(jobId);
 
     res.json({
@@ -183,12 +249,52 @@ router.get('/jobs/:jobId', [
   }
 });
 
+// POST /api/training/jobs/:jobId/cancel - Cancel a running training job
+router.post('/jobs/:jobId/cancel', [
+  param('jobId').isString().withMessage('jobId must be a string')
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    const fineTuningManager = getFineTuningManager(req);
+    if (!fineTuningManager) {
+      return res.status(503).json({
+        success: false,
+        error: 'Fine-tuning manager not available'
+      });
+    }
+
+    const job = await fineTuningManager.cancelJob(jobId);
+
+    logger.info('Training job cancelled', { jobId, status: job.status });
+
+    res.json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    logger.error('Failed to cancel training job', error);
+    res.status(error instanceof FineTuningNotFoundError ? 404 : error instanceof FineTuningJobStateError ? 409 : 500).json({
+      success: false,
+      error: 'Failed to cancel training job',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
 // GET /api/training/models - List fine-tuned models
 router.get('/models', async (req, res) => {
   try {
-    // Note: listFineTunedModels method not implemented yet
-    // For now, return empty array
-    const models: any[] = [];
+    const fineTuningManager = getFineTuningManager(req);
+    const modelEvaluator = getModelEvaluator(req);
+    const summaries = fineTuningManager ? await fineTuningManager.listModels() : [];
+
+    // Attach the latest scorecard so models can be compared side by side
+    const models = await Promise.all(summaries.map(async summary => ({
+      ...summary,
+      latestScorecard: modelEvaluator ? await modelEvaluator.getLatestScorecard(summary.modelId) : null
+    })));
 
     res.json({
       success: true,
@@ -208,34 +314,55 @@ router.get('/models', async (req, res) => {
   }
 });
 
-// POST /api/training/models/:modelId/test - Test a trained model
+// POST /api/training/models/:modelId/test - Queue an evaluation of a trained model on held-out sessions
 router.post('/models/:modelId/test', [
   param('modelId').isString().withMessage('modelId must be a string'),
-  body('prompt').isString().withMessage('prompt is required')
+  body('sessionIds').optional().isArray(),
+  body('sessionIds.*').optional().isUUID(),
+  body('maxCases').optional().isInt({ min: 1, max: 500 }),
+  body('prompt').optional().isString(),
+  body('systemPrompt').optional().isString(),
+  body('maxTokens').optional().isInt({ min: 1, max: 4096 }),
+  body('temperature').optional().isFloat({ min: 0, max: 2 })
 ], handleValidationErrors, async (req: Request, res: Response) => {
   try {
     const { modelId } = req.params;
-    const { prompt } = req.body;
+    const { sessionIds, maxCases, prompt, systemPrompt, maxTokens, temperature } = req.body;
 
-    // Note: testModel method not implemented yet
-    // For now, return a placeholder response
-    const result = {
-      modelId,
-      prompt,
-      response: "Model testing not yet implemented",
-      timestamp: new Date()
-    };
+    const fineTuningManager = getFineTuningManager(req);
+    const modelEvaluator = getModelEvaluator(req);
+    if (!fineTuningManager || !modelEvaluator) {
+      return res.status(503).json({
+        success: false,
+        error: 'Model evaluation not available'
+      });
+    }
 
-    logger.info('Model tested', { modelId, promptLength: prompt.length });
+    const previousScorecard = await modelEvaluator.getLatestScorecard(modelId);
+    // Up to maxCases model calls, so the run goes through the job queue
+    const scorecard = await modelEvaluator.queueEvaluation({ modelId, sessionIds, maxCases });
 
-    res.json({
+    // An ad-hoc prompt is a single call and is still answered inline
+    const sample = prompt
+      ? await fineTuningManager.testModel(modelId, prompt, { systemPrompt, maxTokens, temperature })
+      : undefined;
+
+    logger.info('Model test queued', { modelId, scorecardId: scorecard.id });
+
+    res.status(202).json({
       success: true,
-      data: result
+      data: {
+        modelId,
+        scorecardId: scorecard.id,
+        status: scorecard.status,
+        previousScorecard,
+        sample
+      }
     });
 
   } catch (error) {
     logger.error('Failed to test model', error);
-    res.status(500).json({
+    res.status(error instanceof FineTuningNotFoundError ? 404 : 500).json({
       success: false,
       error: 'Failed to test model',
       details: getErrorMessage(error)
@@ -243,6 +370,317 @@ router.post('/models/:modelId/test', [
   }
 });
 
+// GET /api/training/models/:modelId/scorecards/:scorecardId - One scorecard, e.g. to poll a queued test
+router.get('/models/:modelId/scorecards/:scorecardId', [
+  param('modelId').isString().withMessage('modelId must be a string'),
+  param('scorecardId').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const modelEvaluator = getModelEvaluator(req);
+    if (!modelEvaluator) {
+      return res.status(503).json({
+        success: false,
+        error: 'Model evaluation not available'
+      });
+    }
+
+    const scorecard = await modelEvaluator.getScorecard(req.params.scorecardId);
+    if (!scorecard || scorecard.modelId !== req.params.modelId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scorecard not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: scorecard
+    });
+
+  } catch (error) {
+    logger.error('Failed to get model scorecard', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get model scorecard',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/training/models/:modelId/scorecards - Evaluation history for a model
+router.get('/models/:modelId/scorecards', [
+  param('modelId').isString().withMessage('modelId must be a string'),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const { modelId } = req.params;
+    const modelEvaluator = getModelEvaluator(req);
+    const scorecards = modelEvaluator ? await modelEvaluator.listScorecards(modelId, Number(req.query.limit) || 20) : [];
+
+    res.json({
+      success: true,
+      data: {
+        scorecards,
+        count: scorecards.length
+      }
+    });
+
+  } catch (error) {
+    logger.error('Failed to list model scorecards', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list model scorecards',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/training/datasets - Build the next version of a dataset snapshot
+router.post('/datasets', [
+  body('name').matches(/^[a-z0-9][a-z0-9_-]{0,63}$/i).withMessage('name must be 1-64 letters, digits, dashes or underscores'),
+  body('description').optional().isString(),
+  body('selection').optional().isObject(),
+  body('selection.sessionIds').optional().isArray(),
+  body('selection.sessionIds.*').optional().isUUID(),
+  body('selection.minSessionQuality').optional().isFloat({ min: 0, max: 100 }),
+  body('selection.minExampleQuality').optional().isFloat({ min: 0, max: 1 }),
+  body('selection.domains').optional().isArray(),
+  body('selection.domains.*').optional().isString(),
+  body('selection.exampleTypes').optional().isArray(),
+  body('selection.exampleTypes.*').optional().isIn(['fine_tuning', 'sequence', 'task_driven']),
+  body('selection.from').optional().isISO8601(),
+  body('selection.to').optional().isISO8601(),
+  body('selection.maxSessions').optional().isInt({ min: 1, max: 5000 }),
+  body('split').optional().isObject(),
+  body('split.validationRatio').optional().isFloat({ min: 0, max: 0.5 }),
+  body('split.seed').optional().isString()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const { name, description, selection = {}, split } = req.body;
+
+    const datasetBuilder = getDatasetBuilder(req);
+    if (!datasetBuilder) {
+      return res.status(503).json({
+        success: false,
+        error: 'Dataset builder not available'
+      });
+    }
+
+    const dataset = await datasetBuilder.buildDataset({
+      name,
+      description,
+      selection: {
+        ...selection,
+        from: selection.from ? new Date(selection.from) : undefined,
+        to: selection.to ? new Date(selection.to) : undefined
+      },
+      split
+    });
+
+    res.status(201).json({
+      success: true,
+      data: dataset
+    });
+
+  } catch (error) {
+    logger.error('Failed to build training dataset', error);
+    res.status(error instanceof EmptyDatasetError ? 422 : 500).json({
+      success: false,
+      error: 'Failed to build training dataset',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/training/datasets - List dataset snapshots
+router.get('/datasets', [
+  query('name').optional().isString()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const datasetBuilder = getDatasetBuilder(req);
+    const datasets = datasetBuilder ? await datasetBuilder.listDatasets(req.query.name as string | undefined) : [];
+
+    res.json({
+      success: true,
+      data: {
+        datasets,
+        count: datasets.length
+      }
+    });
+
+  } catch (error) {
+    logger.error('Failed to list training datasets', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list training datasets',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/training/datasets/:id - Get dataset manifest and checksums
+router.get('/datasets/:id', [
+  param('id').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const dataset = await getDatasetBuilder(req)?.getDataset(req.params.id);
+
+    if (!dataset) {
+      return res.status(404).json({
+        success: false,
+        error: 'Training dataset not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: dataset
+    });
+
+  } catch (error) {
+    logger.error('Failed to get training dataset', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get training dataset',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/training/datasets/:id/files/:split - Download a split as JSONL
+router.get('/datasets/:id/files/:split', [
+  param('id').isUUID(),
+  param('split').isIn(['train', 'validation'])
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const { id, split } = req.params;
+    const content = await getDatasetBuilder(req)?.getDatasetFile(id, split as 'train' | 'validation');
+
+    if (content === null || content === undefined) {
+      return res.status(404).json({
+        success: false,
+        error: 'Training dataset not found'
+      });
+    }
+
+    res.setHeader('Content-Type', 'application/jsonl');
+    res.setHeader('Content-Disposition', `attachment; filename="${id}-${split}.jsonl"`);
+    res.send(content);
+
+  } catch (error) {
+    logger.error('Failed to download training dataset', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download training dataset',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// GET /api/training/datasets/:id/verify - Recompute dataset checksums
+router.get('/datasets/:id/verify', [
+  param('id').isUUID()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const datasetBuilder = getDatasetBuilder(req);
+    if (!datasetBuilder) {
+      return res.status(503).json({
+        success: false,
+        error: 'Dataset builder not available'
+      });
+    }
+
+    const verification = await datasetBuilder.verifyDataset(req.params.id);
+
+    res.json({
+      success: true,
+      data: verification
+    });
+
+  } catch (error) {
+    logger.error('Failed to verify training dataset', error);
+    res.status(error instanceof DatasetNotFoundError ? 404 : 500).json({
+      success: false,
+      error: 'Failed to verify training dataset',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+// POST /api/training/datasets/:id/fine-tune - Start a fine-tuning job from a snapshot
+router.post('/datasets/:id/fine-tune', [
+  param('id').isUUID(),
+  body('config').optional().isObject(),
+  body('config.model').optional().isString(),
+  body('config.suffix').optional().isString(),
+  body('config.epochs').optional().isInt({ min: 1, max: 10 }),
+  body('config.batchSize').optional().isInt({ min: 1, max: 8 }),
+  body('config.learningRate').optional().isFloat({ min: 0.01, max: 1.0 })
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { config = {} } = req.body;
+
+    const datasetBuilder = getDatasetBuilder(req);
+    const fineTuningManager = getFineTuningManager(req);
+    if (!datasetBuilder || !fineTuningManager) {
+      return res.status(503).json({
+        success: false,
+        error: 'Fine-tuning services not available'
+      });
+    }
+
+    const dataset = await datasetBuilder.getDataset(id);
+    if (!dataset) {
+      return res.status(404).json({
+        success: false,
+        error: 'Training dataset not found'
+      });
+    }
+
+    const files = await datasetBuilder.uploadDataset(id);
+    const job = await fineTuningManager.createJob({
+      fileId: files.trainingFileId,
+      datasetId: id,
+      config: {
+        model: config.model || 'gpt-4o-mini-2024-07-18',
+        hyperparameters: {
+          n_epochs: config.epochs || 3,
+          batch_size: config.batchSize || 1,
+          learning_rate_multiplier: config.learningRate || 0.1
+        },
+        suffix: config.suffix,
+        validationFileId: files.validationFileId
+      }
+    });
+
+    logger.info('Fine-tuning started from dataset', {
+      datasetId: id,
+      version: dataset.version,
+      jobId: job.jobId
+    });
+
+    res.json({
+      success: true,
+      data: {
+        trainingRecordId: job.id,
+        jobId: job.jobId,
+        datasetId: id,
+        datasetVersion: dataset.version,
+        ...files
+      }
+    });
+
+  } catch (error) {
+    logger.error('Failed to start fine-tuning from dataset', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start fine-tuning from dataset',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
 // GET /api/training/data - List training data records
 router.get('/data', [
   query('page').optional().isInt({ min: 1 }),
@@ -0,0 +1,77 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, validationResult } from 'express-validator';
+import { Logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/type-helpers';
+import { WorldModelService } from '../services/world-model/database/service';
+import { PageType, RAGQuery } from '../services/world-model/types';
+
+const router = Router();
+const logger = new Logger('WorldModelRoutes');
+
+// Validation middleware
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+// POST /api/world-model/query - Retrieve selectors, variant clusters and workflows for automation agents
+router.post('/query', [
+  body('domain').isString().trim().notEmpty().withMessage('domain is required'),
+  body('categoryPath').optional().isString().trim(),
+  body('pageType').optional().isIn(Object.values(PageType)).withMessage('Invalid pageType'),
+  body('intent').optional().isString().isLength({ max: 500 }),
+  body('productType').optional().isString().trim()
+], handleValidationErrors, async (req: Request, res: Response) => {
+  try {
+    const worldModelService = req.app.locals.worldModelService as WorldModelService | undefined;
+
+    if (!worldModelService) {
+      return res.status(503).json({
+        success: false,
+        error: 'World model is not configured'
+      });
+    }
+
+    const ragQuery: RAGQuery = {
+      domain: req.body.domain,
+      categoryPath: req.body.categoryPath,
+      pageType: req.body.pageType,
+      intent: req.body.intent,
+      productType: req.body.productType
+    };
+
+    const result = await worldModelService.query(ragQuery);
+
+    logger.info('World model query answered', {
+      domain: ragQuery.domain,
+      categoryPath: ragQuery.categoryPath,
+      pageType: ragQuery.pageType,
+      selectorCount: Object.keys(result.selectors).length,
+      variantClusterCount: result.variantClusters.length,
+      workflowCount: result.workflows.length,
+      reliability: result.reliability
+    });
+
+    res.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    logger.error('World model query failed', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to query world model',
+      details: getErrorMessage(error)
+    });
+  }
+});
+
+export { router as worldModelRoutes };
@@ -0,0 +1,49 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Issue an API key from the command line. Used to bootstrap the first admin
+ * key; everything after that can go through /api/admin/keys.
+ *
+ *   npm run keys:create -- --role admin --name "ops laptop" [--expires-in-days 90]
+ */
+
+import { prisma } from '../lib/database';
+import { API_KEY_ROLES, ApiKeyManagerImpl, isApiKeyRole } from '../services/auth/api-key-manager';
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const role = readFlag(args, '--role');
+  const name = readFlag(args, '--name') || `${role} key`;
+  const expiresInDays = readFlag(args, '--expires-in-days');
+
+  if (!isApiKeyRole(role)) {
+    console.error(`Usage: create-api-key --role <${API_KEY_ROLES.join('|')}> [--name <name>] [--expires-in-days <days>]`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const manager = new ApiKeyManagerImpl(prisma);
+  const { apiKey, key } = await manager.createKey({
+    name,
+    role,
+    createdBy: 'cli',
+    expiresAt: expiresInDays ? new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000) : undefined
+  });
+
+  console.log(`Created ${key.role} key "${key.name}" (${key.id})`);
+  console.log(`Prefix:  ${key.prefix}`);
+  console.log(`API key: ${apiKey}`);
+  console.log('Store this key now; it cannot be shown again.');
+}
+
+main()
+  .catch(error => {
+    console.error('Failed to create API key:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,74 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Copy interactions still held in UnifiedSession.enhancedInteractions into
+ * the enhanced_interactions table. Safe to re-run: interactions already
+ * present as rows are skipped. Readers merge both sources, so this can run
+ * while the server is live.
+ *
+ *   npm run migrate:interactions -- [--dry-run] [--clear-json] [--batch-size 100]
+ */
+
+import { prisma } from '../lib/database';
+import { EnhancedInteractionStoreImpl } from '../services/interactions/enhanced-interaction-store';
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const clearLegacy = args.includes('--clear-json');
+  const batchSize = Math.max(1, Number(readFlag(args, '--batch-size')) || 100);
+
+  const store = new EnhancedInteractionStoreImpl(prisma);
+  const totals = { sessions: 0, migrated: 0, alreadyPresent: 0, failed: 0 };
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.unifiedSession.findMany({
+      where: { NOT: { enhancedInteractions: { equals: [] } } },
+      select: { id: true, enhancedInteractions: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    });
+    if (batch.length === 0) break;
+    cursor = batch[batch.length - 1].id;
+
+    for (const session of batch) {
+      totals.sessions++;
+
+      if (dryRun) {
+        const count = Array.isArray(session.enhancedInteractions) ? session.enhancedInteractions.length : 0;
+        console.log(`Would migrate ${session.id}: ${count} interactions`);
+        continue;
+      }
+
+      try {
+        const result = await store.migrateSession(session.id, { clearLegacy });
+        totals.migrated += result.migrated;
+        totals.alreadyPresent += result.alreadyPresent;
+        console.log(`Migrated ${session.id}: ${result.migrated} new, ${result.alreadyPresent} already present`);
+      } catch (error) {
+        totals.failed++;
+        console.error(`Failed to migrate ${session.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  console.log(`${dryRun ? 'Dry run: ' : ''}${totals.sessions} sessions, ${totals.migrated} interactions migrated, ` +
+    `${totals.alreadyPresent} already present, ${totals.failed} failed`);
+  if (totals.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Failed to migrate enhanced interactions:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
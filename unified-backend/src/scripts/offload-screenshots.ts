@@ -0,0 +1,45 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Move screenshots still stored inline as data URLs into object storage.
+ * Safe to re-run; each pass handles one batch until nothing is left.
+ *
+ *   npm run screenshots:offload -- [--batch-size 100]
+ */
+
+import { prisma } from '../lib/database';
+import { StorageManager } from '../services/storage-manager-clean';
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const batchSize = Math.max(1, Number(readFlag(process.argv.slice(2), '--batch-size')) || 100);
+  const storageManager = new StorageManager(prisma);
+  const totals = { offloaded: 0, cleared: 0, failed: 0 };
+
+  for (;;) {
+    const result = await storageManager.offloadInlineScreenshots(batchSize);
+    totals.offloaded += result.offloaded;
+    totals.cleared += result.cleared;
+    totals.failed += result.failed;
+    console.log(`Offloaded ${result.offloaded}, cleared ${result.cleared}, failed ${result.failed}`);
+
+    // Failed rows stay inline; stop once a batch makes no progress
+    if (result.offloaded === 0) break;
+  }
+
+  console.log(`Done: ${totals.offloaded} offloaded, ${totals.cleared} inline copies cleared, ${totals.failed} failed`);
+  if (totals.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('Failed to offload screenshots:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -2,6 +2,7 @@
 
 import { prisma } from '../lib/database';
 import { Logger } from '../utils/logger';
+import { EnhancedInteractionStoreImpl } from '../services/interactions/enhanced-interaction-store';
 
 const SessionAnalyzer = require('../session-analyzer.js');
 const JourneyReconstructor = require('../journey-reconstructor.js');
@@ -23,7 +24,7 @@ async function processRealSessions() {
 
     // Fetch recent completed sessions
     console.log('📊 Fetching recent sessions from database...');
-    const sessions = await prisma.unifiedSession.findMany({
+    const sessions = await new EnhancedInteractionStoreImpl(prisma).hydrateMany(await prisma.unifiedSession.findMany({
       where: {
         status: 'COMPLETED'
       },
@@ -31,7 +32,7 @@ async function processRealSessions() {
         createdAt: 'desc'
       },
       take: 2
-    });
+    }));
 
     if (sessions.length === 0) {
       console.log('❌ No completed sessions found in database');
@@ -49,8 +50,8 @@ async function processRealSessions() {
       try {
         console.log(`Analyzing session: ${session.id}`);
         
-        // Parse enhanced interactions from JSON field  
-        const enhancedInteractions = session.enhancedInteractions as any[];
+        // Enhanced interactions (rows plus any legacy JSON)
+        const enhancedInteractions = session.enhancedInteractions;
         
         // Extract domain from page titles first
         const samplePageTitle = enhancedInteractions[0]?.context?.pageTitle || '';
@@ -0,0 +1,53 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Move every encrypted column onto the active ENCRYPTION_KEY: encrypts values
+ * stored before encryption was enabled and rewraps those under a key listed in
+ * ENCRYPTION_PREVIOUS_KEYS. Safe to re-run; a previous key can be dropped once
+ * a run reports nothing left to update and no failures.
+ *
+ *   npm run encryption:reencrypt -- [--dry-run] [--batch-size 200]
+ */
+
+import { DatabaseConnection } from '../lib/database';
+import { FieldReencryptionJob, ReencryptionTargetReport, getFieldCipher } from '../services/encryption';
+
+// Works on the stored values, so it needs the client without the encryption extension
+const prisma = DatabaseConnection.getBaseInstance();
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function describe(name: string, target: ReencryptionTargetReport): string {
+  return `${name}: ${target.scanned} scanned, ${target.updated} updated, ${target.failed} failed`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const batchSize = readFlag(args, '--batch-size');
+
+  const cipher = getFieldCipher();
+  if (!cipher) {
+    throw new Error('ENCRYPTION_KEY is not set');
+  }
+
+  const report = await new FieldReencryptionJob(prisma, cipher, {
+    dryRun: args.includes('--dry-run'),
+    batchSize: batchSize ? parseInt(batchSize) : undefined
+  }).run();
+
+  console.log(`${report.dryRun ? 'Dry run - would move' : 'Moved'} values to key ${report.activeKeyId}`);
+  console.log(describe('Sessions', report.sessions));
+  console.log(describe('Screenshots', report.screenshots));
+  console.log(describe('Interactions', report.interactions));
+  if (report.sessions.failed + report.screenshots.failed + report.interactions.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch(error => {
+    console.error('Failed to re-encrypt fields:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,57 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Restore a session from a SessionArchive, or import an archive file exported
+ * by another deployment. Checksums are verified before anything is written.
+ *
+ *   npm run archives:restore -- --archive-id <id> [--new-id <uuid>] [--replace] [--verify-only]
+ *   npm run archives:restore -- --file session-<id>.zip|tar.zst [--new-id <uuid>] [--replace]
+ */
+
+import * as fs from 'fs/promises';
+import { prisma } from '../lib/database';
+import { ArchiveRestoreServiceImpl } from '../services/archives';
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const archiveId = readFlag(args, '--archive-id');
+  const file = readFlag(args, '--file');
+  const options = { sessionId: readFlag(args, '--new-id'), replace: args.includes('--replace') };
+
+  if (!archiveId === !file) {
+    throw new Error('Pass either --archive-id or --file');
+  }
+
+  const service = new ArchiveRestoreServiceImpl(prisma, {
+    archiveDir: process.env.ARCHIVE_DIR || '/tmp/codesight/archives'
+  });
+
+  if (archiveId && args.includes('--verify-only')) {
+    const verification = await service.verify(archiveId);
+    console.log(`${verification.verified.length} files verified`);
+    verification.missing.forEach(filename => console.log(`Missing: ${filename}`));
+    verification.mismatched.forEach(filename => console.log(`Checksum mismatch: ${filename}`));
+    if (!verification.valid) process.exitCode = 1;
+    return;
+  }
+
+  const result = archiveId
+    ? await service.restore(archiveId, options)
+    : await service.importArchive(await fs.readFile(file!), options);
+
+  const { counts } = result;
+  console.log(`Restored session ${result.sourceSessionId} as ${result.sessionId}${result.replaced ? ' (replaced)' : ''} from archive ${result.archiveId}`);
+  console.log(`${counts.interactions} interactions, ${counts.screenshots} screenshots, ${counts.psychologyProfile} psychology profile, ${counts.contextEnhancement} context enhancement, ${counts.trainingData} training data`);
+}
+
+main()
+  .catch(error => {
+    console.error('Failed to restore archive:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
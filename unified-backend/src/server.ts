@@ -9,10 +9,23 @@ import { createServer } from "http";
 import { prisma } from "./lib/database";
 
 import { UnifiedWebSocketServer } from "./services/websocket-server";
+import { PrismaSequenceStore } from "./services/websocket/session-sequencer";
+import { ApiKeyManagerImpl } from "./services/auth/api-key-manager";
+import { CacheManagerServiceImpl } from "./services/cache/cache-manager";
+import { createRetentionScheduler } from "./services/retention";
+import { createDataSubjectRequestService, createPIIRedactionEngine } from "./services/privacy";
+import { getObjectStore } from "./services/storage";
+import { getMetricsRegistry } from "./services/metrics/openmetrics";
+import { registerRuntimeCollectors } from "./services/metrics/collectors";
+import { getMonitoringAnalyticsService } from "./services/monitoring-analytics";
 import { DataProcessingPipeline } from "./services/data-processing-pipeline";
 import { StorageManager } from "./services/storage-manager-clean";
 import { OpenAIIntegrationService } from "./services/openai-integration-clean";
+import { FineTuningManagerImpl } from "./services/training/fine-tuning-manager";
+import { DatasetBuilderImpl } from "./services/training/dataset-builder";
+import { ModelEvaluatorImpl } from "./services/training/model-evaluator";
 import { QualityControlService } from "./services/quality-control-clean";
+import { WorldModelService } from "./services/world-model/database/service";
 
 import { sessionRoutes } from "./routes/sessions";
 import { interactionRoutes } from "./routes/interactions";
@@ -22,10 +35,14 @@ import { adminRoutes } from "./routes/admin";
 import { analyticsRoutes } from "./routes/analytics";
 import testRoutes from "./routes/test";
 import taskRoutes from "./routes/tasks";
+import { worldModelRoutes } from "./routes/world-model";
+import { metricsRoutes } from "./routes/metrics";
+import { privacyRoutes, privacyVerificationRoutes } from "./routes/privacy";
 
 import { errorHandler, notFoundHandler } from "./middleware/error-handler";
-import { authMiddleware, authRateLimit, authBruteForceProtection } from "./middleware/auth";
+import { authMiddleware, authRateLimit, authBruteForceProtection, requireRole } from "./middleware/auth";
 import { validationMiddleware, sanitizeInput, validateRequestSize, validateContentType } from "./middleware/validation";
+import { requestMetrics } from "./middleware/request-metrics";
 import { Logger } from "./utils/logger";
 import { validateEnvironment, getConfig } from "./utils/env-validator";
 
@@ -60,6 +77,16 @@ const dataProcessingPipeline = new DataProcessingPipeline(
   openaiService,
   qualityControl
 );
+const fineTuningManager = new FineTuningManagerImpl(prisma, openaiService);
+const datasetBuilder = new DatasetBuilderImpl(prisma, openaiService);
+const modelEvaluator = new ModelEvaluatorImpl(prisma, openaiService);
+const apiKeyManager = new ApiKeyManagerImpl(prisma);
+const cacheManager = new CacheManagerServiceImpl(prisma);
+const retentionScheduler = createRetentionScheduler(prisma, {
+  storageManager,
+  objectStore: getObjectStore(),
+  cacheManager
+});
 
 // Make services available to routes via app.locals
 app.locals.prisma = prisma;
@@ -67,6 +94,33 @@ app.locals.storageManager = storageManager;
 app.locals.openaiService = openaiService;
 app.locals.qualityControl = qualityControl;
 app.locals.dataProcessingPipeline = dataProcessingPipeline;
+app.locals.fineTuningManager = fineTuningManager;
+app.locals.apiKeyManager = apiKeyManager;
+app.locals.retentionScheduler = retentionScheduler;
+app.locals.datasetBuilder = datasetBuilder;
+app.locals.modelEvaluator = modelEvaluator;
+
+// World model (MongoDB) is optional; the query API answers 503 until it connects
+const appConfig = getConfig();
+let worldModelService: WorldModelService | null = null;
+if (appConfig.mongodbConnectionString) {
+  worldModelService = new WorldModelService(appConfig.mongodbConnectionString, appConfig.mongodbDatabaseName);
+  worldModelService.connect()
+    .then(() => {
+      app.locals.worldModelService = worldModelService;
+      logger.info("✅ World model connected", { database: appConfig.mongodbDatabaseName });
+    })
+    .catch((error) => {
+      logger.error("❌ Failed to connect world model", error);
+    });
+}
+
+// Erasure requests fail (and can be retried) while a configured world model is not connected
+app.locals.dataSubjectRequests = createDataSubjectRequestService(prisma, {
+  worldModel: appConfig.mongodbConnectionString ? () => app.locals.worldModelService : undefined
+});
+// Reverses PII tokens for admins; stream data is redacted by the pipeline's own engine with the same key
+app.locals.piiRedaction = createPIIRedactionEngine(prisma);
 
 // Security middleware
 app.use(
@@ -156,6 +210,9 @@ app.use(
   })
 );
 
+// Per-route latency and status, rolled up for /api/analytics/performance
+app.use(requestMetrics(getMonitoringAnalyticsService()));
+
 // Enhanced validation middleware  
 app.use(validateRequestSize(50 * 1024 * 1024)); // 50MB limit
 
@@ -405,21 +462,27 @@ app.get("/api/config", (req, res) => {
   });
 });
 
-// API Routes with middleware
-app.use("/api/sessions", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, validationMiddleware as any, sessionRoutes);
+// API Routes with middleware; each group is limited to the key roles that need it
+app.use("/api/sessions", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, requireRole("extension", "worker", "analyst", "admin") as any, validationMiddleware as any, sessionRoutes);
 app.use(
   "/api/interactions",
   authRateLimit as any,
   authBruteForceProtection as any,
   authMiddleware as any,
+  requireRole("extension", "worker", "admin") as any,
   validationMiddleware as any,
   interactionRoutes
 );
-app.use("/api/training", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, validationMiddleware as any, trainingRoutes);
-app.use("/api/archives", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, validationMiddleware as any, archiveRoutes);
-app.use("/api/admin", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, adminRoutes);
-app.use("/api/analytics", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, analyticsRoutes);
-app.use("/api/tasks", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, validationMiddleware as any, taskRoutes);
+app.use("/api/training", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, requireRole("analyst", "admin") as any, validationMiddleware as any, trainingRoutes);
+app.use("/api/archives", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, requireRole("analyst", "admin") as any, validationMiddleware as any, archiveRoutes);
+app.use("/api/admin", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, requireRole("admin") as any, adminRoutes);
+app.use("/api/analytics", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, requireRole("analyst", "admin") as any, analyticsRoutes);
+app.use("/api/tasks", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, requireRole("extension", "worker", "admin") as any, validationMiddleware as any, taskRoutes);
+app.use("/metrics", authMiddleware as any, requireRole("analyst", "admin") as any, metricsRoutes);
+app.use("/api/world-model", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, requireRole("worker", "analyst", "admin") as any, validationMiddleware as any, worldModelRoutes);
+// Subjects confirm their own requests without an API key; everything else is admin-only
+app.use("/api/privacy/verify", authRateLimit as any, privacyVerificationRoutes);
+app.use("/api/privacy", authRateLimit as any, authBruteForceProtection as any, authMiddleware as any, requireRole("admin") as any, validationMiddleware as any, privacyRoutes);
 
 // Legacy compatibility endpoints (for gradual migration)
 app.use("/api/workers", authMiddleware as any, (req, res) => {
@@ -454,6 +517,17 @@ const gracefulShutdown = async (signal: string) => {
 
     // Stop processing pipeline
     await dataProcessingPipeline.stop();
+    fineTuningManager.stop();
+    modelEvaluator.stop();
+    retentionScheduler.stop();
+
+    // Flush buffered request and system metrics
+    await getMonitoringAnalyticsService().cleanup();
+
+    // Close world model connection
+    if (worldModelService) {
+      await worldModelService.disconnect();
+    }
 
     // Close database connections
     await prisma.$disconnect();
@@ -475,6 +549,13 @@ const server = createServer(app);
 // Initialize WebSocket server
 let websocketServer: UnifiedWebSocketServer;
 
+// Live gauges for /metrics; the WebSocket server is picked up once it exists
+registerRuntimeCollectors(getMetricsRegistry(), {
+  pipeline: dataProcessingPipeline,
+  cacheManager,
+  getWebSocketServer: () => websocketServer
+});
+
 // Start server
 server.listen(PORT, () => {
   logger.info("🚀 Unified CodeSight Server started", {
@@ -488,12 +569,29 @@ server.listen(PORT, () => {
 
   // Initialize WebSocket server after HTTP server is listening
   try {
-    websocketServer = new UnifiedWebSocketServer(server, dataProcessingPipeline);
+    websocketServer = new UnifiedWebSocketServer(server, dataProcessingPipeline, {
+      sequenceStore: new PrismaSequenceStore(prisma),
+      apiKeyManager
+    });
+    websocketServer.attachAlertSource(getMonitoringAnalyticsService());
     logger.info("✅ WebSocket server initialized");
   } catch (error) {
     logger.error("❌ Failed to initialize WebSocket server", error);
     process.exit(1);
   }
+
+  // Keep FineTuningJob rows in step with the provider
+  fineTuningManager.start(appConfig.fineTunePollIntervalMs);
+
+  // Run model tests queued through the training API
+  modelEvaluator.start(appConfig.modelEvaluationPollIntervalMs);
+
+  // Archive, purge and prune on the configured retention schedules
+  if (appConfig.retention.enabled) {
+    retentionScheduler.start().catch(error => {
+      logger.error("Failed to start retention scheduler", error);
+    });
+  }
 });
 
 // Handle uncaught exceptions
@@ -0,0 +1,234 @@
+/**
+ * Alert Manager Tests
+ *
+ * Tests deduplication of repeat triggers, per-channel severity routing,
+ * escalation of unacknowledged alerts, acknowledge/resolve transitions and
+ * the webhook signature and Slack payload formats
+ */
+
+import { AlertManagerImpl, AlertNotFoundError, AlertStateError } from '../alert-manager';
+import {
+  AlertNotification,
+  AlertNotificationChannel,
+  AlertSeverity,
+  WebhookChannel,
+  formatSlackMessage,
+  signWebhookPayload
+} from '../notification-channels';
+
+class RecordingChannel implements AlertNotificationChannel {
+  sent: AlertNotification[] = [];
+
+  constructor(readonly name: AlertNotificationChannel['name'], readonly minSeverity: AlertSeverity, private fail = false) {}
+
+  async send(notification: AlertNotification): Promise<void> {
+    if (this.fail) throw new Error('connection refused');
+    this.sent.push(notification);
+  }
+}
+
+function createMockPrisma() {
+  const alerts: any[] = [];
+  const configs = new Map<string, any>();
+  let nextId = 1;
+
+  const matches = (alert: any, where: any = {}) =>
+    (!where.id || alert.id === where.id) &&
+    (!where.configId || alert.configId === where.configId) &&
+    (!where.status || (typeof where.status === 'string' ? alert.status === where.status : where.status.in.includes(alert.status))) &&
+    (!where.severity || (typeof where.severity === 'string' ? alert.severity === where.severity : alert.severity !== where.severity.not)) &&
+    (!where.OR || where.OR.some((clause: any) => clause.escalatedAt === null
+      ? alert.escalatedAt === null && alert.triggeredAt < clause.triggeredAt.lt
+      : alert.escalatedAt !== null && alert.escalatedAt < clause.escalatedAt.lt));
+
+  const prisma = {
+    alertConfig: {
+      findUnique: jest.fn(async ({ where }: any) => configs.get(where.id) || null),
+      findMany: jest.fn(async () => Array.from(configs.values())),
+      create: jest.fn(async ({ data }: any) => {
+        configs.set(data.id, { ...data });
+        return configs.get(data.id);
+      })
+    },
+    alert: {
+      findUnique: jest.fn(async ({ where }: any) => alerts.find(alert => alert.id === where.id) || null),
+      findFirst: jest.fn(async ({ where }: any) => alerts.find(alert => matches(alert, where)) || null),
+      findMany: jest.fn(async ({ where, include }: any) => alerts
+        .filter(alert => matches(alert, where))
+        .map(alert => include?.config ? { ...alert, config: configs.get(alert.configId) } : alert)),
+      create: jest.fn(async ({ data }: any) => {
+        const now = new Date();
+        const alert = {
+          id: `alert-${nextId++}`,
+          status: 'ACTIVE',
+          occurrences: 1,
+          notifications: [],
+          triggeredAt: now,
+          lastTriggeredAt: now,
+          escalatedAt: null,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          resolvedAt: null,
+          resolvedBy: null,
+          ...data
+        };
+        alerts.push(alert);
+        return { ...alert };
+      }),
+      update: jest.fn(async ({ where, data }: any) => {
+        const alert = alerts.find(candidate => candidate.id === where.id);
+        for (const [key, value] of Object.entries<any>(data)) {
+          alert[key] = value?.increment !== undefined ? alert[key] + value.increment : value;
+        }
+        return { ...alert };
+      })
+    }
+  };
+
+  return { prisma, alerts, configs };
+}
+
+describe('AlertManager', () => {
+  let mock: ReturnType<typeof createMockPrisma>;
+  let log: RecordingChannel;
+  let slack: RecordingChannel;
+  let email: RecordingChannel;
+  let manager: AlertManagerImpl;
+
+  beforeEach(async () => {
+    mock = createMockPrisma();
+    log = new RecordingChannel('log', 'low');
+    slack = new RecordingChannel('slack', 'medium');
+    email = new RecordingChannel('email', 'high');
+    manager = new AlertManagerImpl(mock.prisma as any, [log, slack, email], { escalationMinutes: 30 });
+
+    await manager.createConfig({
+      id: 'high_cpu_usage',
+      name: 'High CPU Usage',
+      type: 'threshold',
+      metric: 'cpu.usage',
+      condition: 'greater_than',
+      threshold: 80,
+      enabled: true,
+      channels: ['log', 'slack', 'email']
+    });
+  });
+
+  describe('🔔 Triggering', () => {
+    it('should notify once per open alert and count repeat triggers', async () => {
+      const config = mock.configs.get('high_cpu_usage');
+
+      const first = await manager.trigger(config, { severity: 'medium', message: 'CPU at 90%' });
+      const second = await manager.trigger(config, { severity: 'medium', message: 'CPU at 95%' });
+
+      expect(first.deduplicated).toBe(false);
+      expect(second.deduplicated).toBe(true);
+      expect(second.alert.id).toBe(first.alert.id);
+      expect(second.alert.occurrences).toBe(2);
+      expect(mock.alerts).toHaveLength(1);
+      expect(log.sent).toHaveLength(1);
+    });
+
+    it('should only deliver to channels that accept the severity and record failures', async () => {
+      const failingWebhook = new RecordingChannel('webhook', 'low', true);
+      manager = new AlertManagerImpl(mock.prisma as any, [log, slack, email, failingWebhook]);
+      const config = { ...mock.configs.get('high_cpu_usage'), channels: ['log', 'slack', 'email', 'webhook'] };
+
+      const { alert } = await manager.trigger(config, { severity: 'medium', message: 'CPU at 90%' });
+
+      expect(log.sent).toHaveLength(1);
+      expect(slack.sent).toHaveLength(1);
+      expect(email.sent).toHaveLength(0);
+      expect(alert.notifications).toEqual(expect.arrayContaining([
+        expect.objectContaining({ channel: 'slack', event: 'triggered', ok: true }),
+        expect.objectContaining({ channel: 'webhook', ok: false, error: 'connection refused' })
+      ]));
+    });
+  });
+
+  describe('⏫ Escalation', () => {
+    it('should raise stale unacknowledged alerts and reach higher-severity channels', async () => {
+      const config = mock.configs.get('high_cpu_usage');
+      const { alert } = await manager.trigger(config, { severity: 'medium', message: 'CPU at 90%' });
+      const later = new Date(alert.triggeredAt.getTime() + 31 * 60 * 1000);
+
+      expect(await manager.escalateStale(new Date(alert.triggeredAt.getTime() + 10 * 60 * 1000))).toBe(0);
+      expect(await manager.escalateStale(later)).toBe(1);
+
+      expect(mock.alerts[0].severity).toBe('high');
+      expect(email.sent).toEqual([expect.objectContaining({ event: 'escalated' })]);
+      // Escalating again needs another full interval
+      expect(await manager.escalateStale(new Date(later.getTime() + 60 * 1000))).toBe(0);
+    });
+
+    it('should not escalate acknowledged alerts', async () => {
+      const config = mock.configs.get('high_cpu_usage');
+      const { alert } = await manager.trigger(config, { severity: 'medium', message: 'CPU at 90%' });
+      await manager.acknowledge(alert.id, 'user-1');
+
+      expect(await manager.escalateStale(new Date(Date.now() + 60 * 60 * 1000))).toBe(0);
+      expect(mock.alerts[0]).toEqual(expect.objectContaining({ status: 'ACKNOWLEDGED', acknowledgedBy: 'user-1' }));
+    });
+  });
+
+  describe('✅ Acknowledge and resolve', () => {
+    it('should send resolution notices and reject invalid transitions', async () => {
+      const config = mock.configs.get('high_cpu_usage');
+      const { alert } = await manager.trigger(config, { severity: 'high', message: 'CPU at 99%' });
+
+      const resolved = await manager.resolve(alert.id, 'user-1');
+
+      expect(resolved.status).toBe('RESOLVED');
+      expect(email.sent.map(notification => notification.event)).toEqual(['triggered', 'resolved']);
+      await expect(manager.resolve(alert.id)).rejects.toThrow('already resolved');
+      await expect(manager.acknowledge(alert.id)).rejects.toBeInstanceOf(AlertStateError);
+      await expect(manager.acknowledge('missing')).rejects.toBeInstanceOf(AlertNotFoundError);
+      await expect(manager.sendTest('webhook')).rejects.toThrow('not found or not configured');
+    });
+  });
+
+  describe('📨 Payload formats', () => {
+    const notification: AlertNotification = {
+      event: 'triggered',
+      alert: {
+        id: 'alert-1',
+        configId: 'high_cpu_usage',
+        name: 'High CPU Usage',
+        severity: 'critical',
+        status: 'ACTIVE',
+        message: 'CPU at 99%',
+        occurrences: 3,
+        triggeredAt: new Date('2026-10-19T12:00:00Z')
+      }
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should sign webhook bodies with the timestamp', async () => {
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+
+      await new WebhookChannel('https://hooks.example.com/alerts', 's3cret').send(notification);
+
+      const [, init] = fetchMock.mock.calls[0];
+      const headers = init!.headers as Record<string, string>;
+      const expected = signWebhookPayload('s3cret', headers['X-CodeSight-Timestamp'], init!.body as string);
+      expect(headers['X-CodeSight-Signature']).toBe(`sha256=${expected}`);
+      expect(JSON.parse(init!.body as string)).toEqual(expect.objectContaining({ event: 'alert.triggered' }));
+    });
+
+    it('should format Slack attachments by severity', () => {
+      const message = formatSlackMessage(notification);
+
+      expect(message.text).toBe('[CRITICAL] High CPU Usage');
+      expect(message.attachments[0]).toEqual(expect.objectContaining({
+        color: '#d00000',
+        text: 'CPU at 99%',
+        ts: 1792411200
+      }));
+      expect(message.attachments[0].fields).toContainEqual({ title: 'Occurrences', value: '3', short: true });
+      expect(formatSlackMessage({ ...notification, event: 'resolved' }).text).toBe('[RESOLVED] High CPU Usage');
+    });
+  });
+});
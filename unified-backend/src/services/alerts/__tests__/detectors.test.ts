@@ -0,0 +1,178 @@
+/**
+ * Alert Detector Tests
+ *
+ * Tests the built-in threshold rules, EWMA anomaly scoring over metric
+ * rollups and the pattern detectors for interaction-rate drops, processing
+ * failure spikes and per-domain selector reliability collapse
+ */
+
+import { AlertConfig } from '@prisma/client';
+import { MetricPoint } from '../../metrics/metrics-store';
+import { bucketAverages, detectAnomaly, evaluateAnomalyAlert } from '../anomaly-detection';
+import { evaluatePatternAlert } from '../pattern-detectors';
+import { DEFAULT_THRESHOLD_ALERTS, ThresholdMetrics, evaluateThresholdAlert } from '../threshold-rules';
+
+function config(overrides: Partial<AlertConfig>): AlertConfig {
+  return {
+    id: 'rule',
+    name: 'Rule',
+    type: 'anomaly',
+    metric: 'http_request_duration_ms',
+    condition: 'greater_than',
+    threshold: 3,
+    parameters: {},
+    enabled: true,
+    channels: ['log'],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+function minutePoints(values: number[], start: Date): MetricPoint[] {
+  return values.map((value, index) => ({
+    name: 'http_request_duration_ms',
+    series: '',
+    labels: {},
+    resolution: 'MINUTE',
+    bucketStart: new Date(start.getTime() + index * 60 * 1000),
+    count: 2,
+    sum: value * 2,
+    min: value,
+    max: value,
+    histogram: []
+  }));
+}
+
+function healthyMetrics(): ThresholdMetrics {
+  return {
+    business: { totalSessions: 40, completedSessions: 30, averageQualityScore: 82 },
+    system: { cpu: { usage: 35, loadAverage: [0.5] }, memory: { usage: 60, used: 6, free: 4, total: 10 } },
+    requests: { errorRate: 0.4 }
+  };
+}
+
+describe('Alert detectors', () => {
+  const now = new Date('2026-10-19T12:00:30Z');
+
+  describe('🎚️ Threshold rules', () => {
+    const rule = (id: string) => DEFAULT_THRESHOLD_ALERTS.find(alert => alert.id === id)!;
+
+    it('should keep every default rule quiet on healthy metrics', () => {
+      for (const alert of DEFAULT_THRESHOLD_ALERTS) {
+        expect(evaluateThresholdAlert(alert, healthyMetrics())).toBeNull();
+      }
+    });
+
+    it('should fire the defaults on the metrics they name', () => {
+      const metrics = healthyMetrics();
+      metrics.system = { cpu: { usage: 99 }, memory: { usage: 90 } };
+      metrics.business = { averageQualityScore: 40 };
+      metrics.requests = { errorRate: 12 };
+
+      expect(evaluateThresholdAlert(rule('high_cpu_usage'), metrics)).toEqual(expect.objectContaining({ severity: 'high' }));
+      expect(evaluateThresholdAlert(rule('high_memory_usage'), metrics)).toEqual(expect.objectContaining({ severity: 'medium' }));
+      expect(evaluateThresholdAlert(rule('low_quality_sessions'), metrics)).not.toBeNull();
+      expect(evaluateThresholdAlert(rule('high_error_rate'), metrics)).not.toBeNull();
+    });
+
+    it('should not read missing values as 0', () => {
+      const metrics: ThresholdMetrics = { business: {}, system: {}, requests: {} };
+
+      for (const alert of DEFAULT_THRESHOLD_ALERTS) {
+        expect(evaluateThresholdAlert(alert, metrics)).toBeNull();
+      }
+      expect(evaluateThresholdAlert({ ...rule('low_quality_sessions'), metric: 'quality.average' }, healthyMetrics())).toBeNull();
+    });
+  });
+
+  describe('📈 Anomaly detection', () => {
+    it('should score the latest bucket against the EWMA baseline', () => {
+      const steady = Array.from({ length: 40 }, (_, index) => 100 + (index % 2 === 0 ? 5 : -5));
+
+      expect(detectAnomaly([...steady, 102], { alpha: 0.3, minSamples: 30 })!.zScore).toBeLessThan(1);
+      expect(detectAnomaly([...steady, 160], { alpha: 0.3, minSamples: 30 })!.zScore).toBeGreaterThan(5);
+      expect(detectAnomaly(steady.slice(0, 10), { alpha: 0.3, minSamples: 30 })).toBeNull();
+    });
+
+    it('should average all series per bucket', () => {
+      const start = new Date('2026-10-19T11:00:00Z');
+      const points = [
+        ...minutePoints([10, 20], start),
+        { ...minutePoints([40], start)[0], series: 'route=/a', count: 6, sum: 240 }
+      ];
+
+      expect(bucketAverages(points)).toEqual([(20 + 240) / 8, 20]);
+    });
+
+    it('should trigger in the configured direction and respect rule parameters', async () => {
+      const values = [...Array.from({ length: 40 }, (_, index) => 100 + (index % 3)), 20];
+      const store = { query: jest.fn().mockResolvedValue(minutePoints(values, new Date(now.getTime() - 41 * 60 * 1000))) };
+
+      expect(await evaluateAnomalyAlert(store, config({ condition: 'greater_than' }), now)).toBeNull();
+
+      const drop = await evaluateAnomalyAlert(store, config({ condition: 'less_than', parameters: { baselineMinutes: 60 } }), now);
+      expect(drop).toEqual(expect.objectContaining({ severity: 'high', message: expect.stringContaining('below its baseline') }));
+      expect(store.query).toHaveBeenLastCalledWith('http_request_duration_ms', {
+        from: new Date(now.getTime() - 60 * 60 * 1000),
+        to: new Date('2026-10-19T12:00:00Z'),
+        resolution: 'MINUTE'
+      });
+    });
+  });
+
+  describe('🧩 Pattern detection', () => {
+    const prismaReturning = (rows: any[]) => ({ $queryRaw: jest.fn().mockResolvedValue(rows) }) as any;
+
+    it('should flag a drop in interactions per live session-minute', async () => {
+      const rule = config({ type: 'pattern', metric: 'interaction_rate_drop', threshold: 60 });
+      const baseline = { baselineInteractions: 14400, baselineSessionMinutes: 7200 };
+
+      const healthy = await evaluatePatternAlert(prismaReturning([{ ...baseline, recentInteractions: 150, recentSessionMinutes: 90 }]), rule, now);
+      const broken = await evaluatePatternAlert(prismaReturning([{ ...baseline, recentInteractions: 45, recentSessionMinutes: 90 }]), rule, now);
+
+      expect(healthy).toBeNull();
+      expect(broken).toEqual(expect.objectContaining({ severity: 'medium', message: expect.stringContaining('fell 75%') }));
+    });
+
+    it('should require a failure spike relative to the baseline', async () => {
+      const rule = config({ type: 'pattern', metric: 'processing_failure_spike', threshold: 25, parameters: { minSamples: 10 } });
+
+      const chronic = await evaluatePatternAlert(prismaReturning([{ recentFailed: 4, recentFinished: 12, baselineFailed: 90, baselineFinished: 300 }]), rule, now);
+      const spike = await evaluatePatternAlert(prismaReturning([{ recentFailed: 8, recentFinished: 12, baselineFailed: 6, baselineFinished: 300 }]), rule, now);
+      const tooFew = await evaluatePatternAlert(prismaReturning([{ recentFailed: 3, recentFinished: 3, baselineFailed: 0, baselineFinished: 300 }]), rule, now);
+
+      expect(chronic).toBeNull();
+      expect(spike).toEqual(expect.objectContaining({ severity: 'high' }));
+      expect(spike!.details.failureRate).toBeCloseTo(66.7, 1);
+      expect(tooFew).toBeNull();
+    });
+
+    it('should report each domain whose selector reliability collapsed', async () => {
+      const rule = config({ type: 'pattern', metric: 'selector_reliability_collapse', threshold: 40, parameters: { minSamples: 5 } });
+      const prisma = prismaReturning([
+        { domain: 'shop.example.com', recentCount: 40, recentReliability: 0.2, baselineCount: 900, baselineReliability: 0.9 },
+        { domain: 'stable.example.com', recentCount: 40, recentReliability: 0.85, baselineCount: 900, baselineReliability: 0.9 },
+        { domain: 'quiet.example.com', recentCount: 2, recentReliability: 0, baselineCount: 900, baselineReliability: 0.9 }
+      ]);
+
+      const result = await evaluatePatternAlert(prisma, rule, now);
+
+      expect(result!.severity).toBe('high');
+      expect(result!.details.domains.map((row: any) => row.domain)).toEqual(['shop.example.com']);
+      await expect(evaluatePatternAlert(prisma, config({ type: 'pattern', metric: 'unknown' }), now)).rejects.toThrow('Unknown pattern detector');
+      expect(prisma.$queryRaw.mock.calls[0][0].sql).toContain(`COALESCE("payload"->'context'->>'url', "payload"->'context'->>'pageUrl')`);
+    });
+
+    it('should window interactions on their capture timestamp so backfilled rows do not count as recent', async () => {
+      const prisma = prismaReturning([]);
+
+      await evaluatePatternAlert(prisma, config({ type: 'pattern', metric: 'selector_reliability_collapse', threshold: 40 }), now);
+
+      const query = prisma.$queryRaw.mock.calls[0][0];
+      expect(query.sql).not.toContain('createdAt');
+      expect(query.values).toContain(BigInt(now.getTime()));
+      expect(query.values.every((value: unknown) => typeof value === 'bigint')).toBe(true);
+    });
+  });
+});
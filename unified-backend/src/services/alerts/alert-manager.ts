@@ -0,0 +1,360 @@
+import { EventEmitter } from 'events';
+import { Alert, AlertConfig, AlertStatus, Prisma, PrismaClient } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+import {
+  AlertNotificationChannel,
+  AlertNotificationEvent,
+  AlertSeverity,
+  escalateSeverity,
+  severityRank
+} from './notification-channels';
+
+export interface AlertConfigInput {
+  id?: string;
+  name: string;
+  type: 'threshold' | 'anomaly' | 'pattern';
+  metric: string;
+  condition: string;
+  threshold: number;
+  /** Detector tuning for anomaly and pattern rules */
+  parameters?: Record<string, number>;
+  enabled: boolean;
+  channels: string[];
+}
+
+export interface AlertTrigger {
+  severity: AlertSeverity;
+  message: string;
+  details?: any;
+}
+
+export interface AlertFilters {
+  status?: AlertStatus;
+  severity?: AlertSeverity;
+  configId?: string;
+  limit?: number;
+}
+
+export interface DeliveryRecord {
+  channel: string;
+  event: AlertNotificationEvent;
+  severity: string;
+  ok: boolean;
+  error?: string;
+  at: string;
+}
+
+export interface AlertManagerOptions {
+  /** Unacknowledged alerts are raised one severity level after this long; 0 disables escalation */
+  escalationMinutes: number;
+}
+
+/** No alert, alert config or configured channel with this id */
+export class AlertNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertNotFoundError';
+  }
+}
+
+/** The alert is already acknowledged or resolved */
+export class AlertStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertStateError';
+  }
+}
+
+export interface AlertManager extends EventEmitter {
+  listConfigs(): Promise<AlertConfig[]>;
+  createConfig(input: AlertConfigInput): Promise<AlertConfig>;
+  updateConfig(id: string, updates: Partial<AlertConfigInput>): Promise<AlertConfig>;
+  deleteConfig(id: string): Promise<void>;
+  ensureConfigs(defaults: AlertConfigInput[]): Promise<void>;
+  trigger(config: AlertConfig, trigger: AlertTrigger): Promise<{ alert: Alert; deduplicated: boolean }>;
+  getOpenAlert(configId: string): Promise<Alert | null>;
+  acknowledge(alertId: string, acknowledgedBy?: string): Promise<Alert>;
+  resolve(alertId: string, resolvedBy?: string): Promise<Alert>;
+  listAlerts(filters?: AlertFilters): Promise<Alert[]>;
+  escalateStale(now?: Date): Promise<number>;
+  sendTest(channel?: string): Promise<DeliveryRecord[]>;
+}
+
+const OPEN_STATUSES: AlertStatus[] = ['ACTIVE', 'ACKNOWLEDGED'];
+
+/**
+ * Persists alert rules and incidents and fans notifications out to the
+ * configured channels. A rule has at most one open alert: repeat triggers
+ * bump its occurrence count instead of notifying again. Unacknowledged
+ * alerts escalate one severity level per interval, which lets them reach
+ * channels (e.g. email) that only accept higher severities.
+ *
+ * Emits alertTriggered, alertEscalated, alertAcknowledged and alertResolved.
+ */
+export class AlertManagerImpl extends EventEmitter implements AlertManager {
+  private channels: Map<string, AlertNotificationChannel>;
+  private logger: Logger;
+
+  constructor(
+    private prisma: PrismaClient,
+    channels: AlertNotificationChannel[],
+    private options: AlertManagerOptions = { escalationMinutes: 30 }
+  ) {
+    super();
+    this.channels = new Map(channels.map(channel => [channel.name, channel]));
+    this.logger = new Logger('AlertManager');
+  }
+
+  async listConfigs(): Promise<AlertConfig[]> {
+    return this.prisma.alertConfig.findMany({ orderBy: { createdAt: 'asc' } });
+  }
+
+  async createConfig(input: AlertConfigInput): Promise<AlertConfig> {
+    const config = await this.prisma.alertConfig.create({
+      data: { ...input, id: input.id || uuidv4() }
+    });
+    this.logger.info('Alert config created', { configId: config.id, name: config.name });
+    return config;
+  }
+
+  async updateConfig(id: string, updates: Partial<AlertConfigInput>): Promise<AlertConfig> {
+    try {
+      // The id is the rule's identity and cannot be changed
+      const data = { ...updates };
+      delete data.id;
+      const config = await this.prisma.alertConfig.update({ where: { id }, data });
+      this.logger.info('Alert config updated', { configId: id, updates: Object.keys(data) });
+      return config;
+    } catch (error: any) {
+      if (error?.code === 'P2025') {
+        throw new AlertNotFoundError(`Alert config ${id} not found`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteConfig(id: string): Promise<void> {
+    try {
+      await this.prisma.alertConfig.delete({ where: { id } });
+      this.logger.info('Alert config deleted', { configId: id });
+    } catch (error: any) {
+      if (error?.code === 'P2025') {
+        throw new AlertNotFoundError(`Alert config ${id} not found`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Insert built-in rules that do not exist yet; edits made through the API are kept
+   */
+  async ensureConfigs(defaults: AlertConfigInput[]): Promise<void> {
+    await this.prisma.alertConfig.createMany({
+      data: defaults.map(config => ({ ...config, id: config.id || uuidv4() })),
+      skipDuplicates: true
+    });
+  }
+
+  async trigger(config: AlertConfig, trigger: AlertTrigger): Promise<{ alert: Alert; deduplicated: boolean }> {
+    const open = await this.getOpenAlert(config.id);
+    if (open) {
+      const alert = await this.prisma.alert.update({
+        where: { id: open.id },
+        data: {
+          occurrences: { increment: 1 },
+          lastTriggeredAt: new Date(),
+          details: this.toJson(trigger.details)
+        }
+      });
+      return { alert, deduplicated: true };
+    }
+
+    const created = await this.prisma.alert.create({
+      data: {
+        configId: config.id,
+        severity: trigger.severity,
+        message: trigger.message,
+        details: this.toJson(trigger.details)
+      }
+    });
+
+    this.logger.warn('Alert triggered', { alertId: created.id, configId: config.id, severity: created.severity });
+    const alert = await this.notify(created, config, 'triggered');
+    this.emit('alertTriggered', alert);
+    return { alert, deduplicated: false };
+  }
+
+  async getOpenAlert(configId: string): Promise<Alert | null> {
+    return this.prisma.alert.findFirst({
+      where: { configId, status: { in: OPEN_STATUSES } },
+      orderBy: { triggeredAt: 'desc' }
+    });
+  }
+
+  async acknowledge(alertId: string, acknowledgedBy?: string): Promise<Alert> {
+    const alert = await this.findAlert(alertId);
+    if (alert.status === 'RESOLVED') {
+      throw new AlertStateError(`Alert ${alertId} is already resolved`);
+    }
+    if (alert.status === 'ACKNOWLEDGED') {
+      throw new AlertStateError(`Alert ${alertId} is already acknowledged`);
+    }
+
+    const acknowledged = await this.prisma.alert.update({
+      where: { id: alertId },
+      data: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date(), acknowledgedBy: acknowledgedBy || null }
+    });
+
+    this.logger.info('Alert acknowledged', { alertId, acknowledgedBy });
+    this.emit('alertAcknowledged', acknowledged);
+    return acknowledged;
+  }
+
+  async resolve(alertId: string, resolvedBy?: string): Promise<Alert> {
+    const alert = await this.findAlert(alertId);
+    if (alert.status === 'RESOLVED') {
+      throw new AlertStateError(`Alert ${alertId} is already resolved`);
+    }
+
+    const resolved = await this.prisma.alert.update({
+      where: { id: alertId },
+      data: { status: 'RESOLVED', resolvedAt: new Date(), resolvedBy: resolvedBy || null }
+    });
+
+    this.logger.info('Alert resolved', { alertId, resolvedBy: resolvedBy || 'auto' });
+    const config = await this.prisma.alertConfig.findUnique({ where: { id: resolved.configId } });
+    const notified = config ? await this.notify(resolved, config, 'resolved') : resolved;
+    this.emit('alertResolved', notified);
+    return notified;
+  }
+
+  async listAlerts(filters: AlertFilters = {}): Promise<Alert[]> {
+    return this.prisma.alert.findMany({
+      where: {
+        ...(filters.status ? { status: filters.status } : {}),
+        ...(filters.severity ? { severity: filters.severity } : {}),
+        ...(filters.configId ? { configId: filters.configId } : {})
+      },
+      orderBy: { triggeredAt: 'desc' },
+      take: Math.min(filters.limit || 50, 500)
+    });
+  }
+
+  /**
+   * Raise unacknowledged alerts whose last trigger or escalation is older
+   * than the escalation interval, and notify at the new severity
+   * @returns Number of alerts escalated
+   */
+  async escalateStale(now: Date = new Date()): Promise<number> {
+    if (!this.options.escalationMinutes) return 0;
+
+    const cutoff = new Date(now.getTime() - this.options.escalationMinutes * 60 * 1000);
+    const stale = await this.prisma.alert.findMany({
+      where: {
+        status: 'ACTIVE',
+        severity: { not: 'critical' },
+        OR: [
+          { escalatedAt: null, triggeredAt: { lt: cutoff } },
+          { escalatedAt: { lt: cutoff } }
+        ]
+      },
+      include: { config: true }
+    });
+
+    for (const { config, ...alert } of stale) {
+      const escalated = await this.prisma.alert.update({
+        where: { id: alert.id },
+        data: { severity: escalateSeverity(alert.severity), escalatedAt: now }
+      });
+      this.logger.warn('Alert escalated', { alertId: alert.id, from: alert.severity, to: escalated.severity });
+      this.emit('alertEscalated', await this.notify(escalated, config, 'escalated'));
+    }
+
+    return stale.length;
+  }
+
+  /**
+   * Send a test notification through one channel (or all configured ones)
+   */
+  async sendTest(channel?: string): Promise<DeliveryRecord[]> {
+    const targets = channel ? [this.channels.get(channel)] : Array.from(this.channels.values());
+    if (channel && !targets[0]) {
+      throw new AlertNotFoundError(`Alert channel ${channel} not found or not configured`);
+    }
+
+    const now = new Date();
+    return Promise.all(targets.map(target => this.deliver(target!, {
+      event: 'test',
+      alert: {
+        id: 'test',
+        configId: 'test',
+        name: 'Test notification',
+        severity: 'low',
+        status: 'ACTIVE',
+        message: 'Alert channel test from CodeSight',
+        occurrences: 1,
+        triggeredAt: now
+      }
+    })));
+  }
+
+  private async findAlert(alertId: string): Promise<Alert> {
+    const alert = await this.prisma.alert.findUnique({ where: { id: alertId } });
+    if (!alert) {
+      throw new AlertNotFoundError(`Alert ${alertId} not found`);
+    }
+    return alert;
+  }
+
+  /**
+   * Deliver to the rule's channels that accept this severity and append the
+   * outcome to the alert's delivery log. Delivery failures never throw.
+   */
+  private async notify(alert: Alert, config: AlertConfig, event: AlertNotificationEvent): Promise<Alert> {
+    const targets = config.channels
+      .map(name => this.channels.get(name))
+      .filter((channel): channel is AlertNotificationChannel => !!channel)
+      .filter(channel => severityRank(alert.severity) >= severityRank(channel.minSeverity));
+
+    if (targets.length === 0) return alert;
+
+    const records = await Promise.all(targets.map(channel => this.deliver(channel, {
+      event,
+      alert: {
+        id: alert.id,
+        configId: alert.configId,
+        name: config.name,
+        severity: alert.severity,
+        status: alert.status,
+        message: alert.message,
+        occurrences: alert.occurrences,
+        triggeredAt: alert.triggeredAt,
+        resolvedAt: alert.resolvedAt,
+        details: alert.details
+      }
+    })));
+
+    const history = Array.isArray(alert.notifications) ? alert.notifications : [];
+    return this.prisma.alert.update({
+      where: { id: alert.id },
+      data: { notifications: [...history, ...records] as unknown as Prisma.InputJsonValue }
+    });
+  }
+
+  private async deliver(channel: AlertNotificationChannel, notification: Parameters<AlertNotificationChannel['send']>[0]): Promise<DeliveryRecord> {
+    const record = { channel: channel.name, event: notification.event, severity: notification.alert.severity, at: new Date().toISOString() };
+    try {
+      await channel.send(notification);
+      return { ...record, ok: true };
+    } catch (error) {
+      this.logger.error('Alert notification failed', { channel: channel.name, alertId: notification.alert.id, error: getErrorMessage(error) });
+      return { ...record, ok: false, error: getErrorMessage(error) };
+    }
+  }
+
+  private toJson(value: any): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value ?? {}));
+  }
+}
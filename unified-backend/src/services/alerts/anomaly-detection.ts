@@ -0,0 +1,139 @@
+import { AlertConfig } from '@prisma/client';
+import { MetricPoint, MetricsStore, bucketStart } from '../metrics/metrics-store';
+import { AlertSeverity } from './notification-channels';
+import { AlertTrigger } from './alert-manager';
+
+export interface AnomalyParameters {
+  /** EWMA smoothing factor; higher values follow recent buckets more closely */
+  alpha: number;
+  /** How far back the baseline series reaches */
+  baselineMinutes: number;
+  /** Buckets required before the baseline is trusted */
+  minSamples: number;
+}
+
+export const DEFAULT_ANOMALY_PARAMETERS: AnomalyParameters = {
+  alpha: 0.3,
+  baselineMinutes: 120,
+  minSamples: 30
+};
+
+export interface AnomalyResult {
+  value: number;
+  baseline: number;
+  stdDev: number;
+  zScore: number;
+  samples: number;
+}
+
+/**
+ * Exponentially weighted mean and standard deviation of a series
+ */
+export function ewmaBaseline(values: number[], alpha: number): { mean: number; stdDev: number } {
+  if (values.length === 0) return { mean: 0, stdDev: 0 };
+
+  let mean = values[0];
+  let variance = 0;
+  for (const value of values.slice(1)) {
+    const diff = value - mean;
+    mean += alpha * diff;
+    variance = (1 - alpha) * (variance + alpha * diff * diff);
+  }
+
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * Score the last value of a series against the EWMA baseline of the values
+ * before it. Returns null until there are enough samples to trust the baseline.
+ */
+export function detectAnomaly(values: number[], { alpha, minSamples }: Pick<AnomalyParameters, 'alpha' | 'minSamples'>): AnomalyResult | null {
+  if (values.length < minSamples + 1) return null;
+
+  const history = values.slice(0, -1);
+  const value = values[values.length - 1];
+  const { mean, stdDev } = ewmaBaseline(history, alpha);
+  // A perfectly flat baseline would turn any wobble into an infinite score
+  const floor = Math.max(Math.abs(mean) * 0.01, 1e-9);
+  const zScore = (value - mean) / Math.max(stdDev, floor);
+
+  return { value, baseline: mean, stdDev, zScore, samples: history.length };
+}
+
+/**
+ * Collapse all series of a metric into one average per bucket, oldest first
+ */
+export function bucketAverages(points: MetricPoint[]): number[] {
+  const buckets = new Map<number, { count: number; sum: number }>();
+  for (const point of points) {
+    const key = point.bucketStart.getTime();
+    const bucket = buckets.get(key) || { count: 0, sum: 0 };
+    bucket.count += point.count;
+    bucket.sum += point.sum;
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .filter(([, bucket]) => bucket.count > 0)
+    .map(([, bucket]) => bucket.sum / bucket.count);
+}
+
+export function readParameters<T extends object>(config: Pick<AlertConfig, 'parameters'>, defaults: T): T {
+  const overrides = (config.parameters && typeof config.parameters === 'object' && !Array.isArray(config.parameters))
+    ? config.parameters as Record<string, unknown>
+    : {};
+  const merged = { ...defaults } as Record<string, unknown>;
+  for (const key of Object.keys(defaults)) {
+    if (typeof overrides[key] === 'number' && Number.isFinite(overrides[key])) {
+      merged[key] = overrides[key];
+    }
+  }
+  return merged as T;
+}
+
+/** One level above medium once the excess reaches half the threshold again */
+export function severityForExcess(excess: number, threshold: number): AlertSeverity {
+  return excess >= threshold * 1.5 ? 'high' : 'medium';
+}
+
+/**
+ * Evaluate an anomaly rule against the minute rollups of `config.metric`.
+ * `threshold` is the z-score; `condition` picks the direction
+ * (greater_than for spikes, less_than for drops, outside for either).
+ */
+export async function evaluateAnomalyAlert(
+  metricsStore: Pick<MetricsStore, 'query'>,
+  config: AlertConfig,
+  now: Date = new Date()
+): Promise<AlertTrigger | null> {
+  const parameters = readParameters(config, DEFAULT_ANOMALY_PARAMETERS);
+  const points = await metricsStore.query(config.metric, {
+    from: new Date(now.getTime() - parameters.baselineMinutes * 60 * 1000),
+    // The current minute is still filling up
+    to: bucketStart(now, 'MINUTE'),
+    resolution: 'MINUTE'
+  });
+
+  const result = detectAnomaly(bucketAverages(points), parameters);
+  if (!result) return null;
+
+  const triggered = config.condition === 'less_than'
+    ? result.zScore <= -config.threshold
+    : config.condition === 'outside'
+      ? Math.abs(result.zScore) >= config.threshold
+      : result.zScore >= config.threshold;
+  if (!triggered) return null;
+
+  const direction = result.zScore > 0 ? 'above' : 'below';
+  return {
+    severity: severityForExcess(Math.abs(result.zScore), config.threshold),
+    message: `${config.name}: ${config.metric} is ${Math.abs(result.zScore).toFixed(1)} standard deviations ${direction} its baseline`
+      + ` (${round(result.value)} vs ${round(result.baseline)})`,
+    details: { ...result, parameters }
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
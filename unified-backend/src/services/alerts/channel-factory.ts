@@ -0,0 +1,60 @@
+import nodemailer from 'nodemailer';
+import { getConfig } from '../../utils/env-validator';
+import { Logger } from '../../utils/logger';
+import {
+  AlertNotificationChannel,
+  AlertSeverity,
+  EmailChannel,
+  LogChannel,
+  SlackChannel,
+  WebhookChannel
+} from './notification-channels';
+
+export interface AlertChannelsConfig {
+  webhook: { url?: string; secret?: string; minSeverity: AlertSeverity };
+  slack: { url?: string; minSeverity: AlertSeverity };
+  email: {
+    smtpHost?: string;
+    smtpPort: number;
+    smtpSecure: boolean;
+    smtpUser?: string;
+    smtpPassword?: string;
+    from?: string;
+    to: string[];
+    minSeverity: AlertSeverity;
+  };
+}
+
+const logger = new Logger('AlertChannelFactory');
+
+/**
+ * Build every channel that has enough configuration to deliver; the log
+ * channel is always present
+ */
+export function createAlertChannels(config: AlertChannelsConfig = getConfig().alerts.channels): AlertNotificationChannel[] {
+  const channels: AlertNotificationChannel[] = [new LogChannel()];
+
+  if (config.webhook.url) {
+    channels.push(new WebhookChannel(config.webhook.url, config.webhook.secret, config.webhook.minSeverity));
+  }
+
+  if (config.slack.url) {
+    channels.push(new SlackChannel(config.slack.url, config.slack.minSeverity));
+  }
+
+  const { email } = config;
+  if (email.smtpHost && email.from && email.to.length > 0) {
+    const transport = nodemailer.createTransport({
+      host: email.smtpHost,
+      port: email.smtpPort,
+      secure: email.smtpSecure,
+      auth: email.smtpUser ? { user: email.smtpUser, pass: email.smtpPassword } : undefined
+    });
+    channels.push(new EmailChannel(transport, { from: email.from, to: email.to }, email.minSeverity));
+  } else if (email.smtpHost) {
+    logger.warn('SMTP_HOST is set but ALERT_EMAIL_FROM or ALERT_EMAIL_TO is missing; email alerts disabled');
+  }
+
+  logger.info('Alert channels configured', { channels: channels.map(channel => channel.name) });
+  return channels;
+}
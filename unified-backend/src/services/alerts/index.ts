@@ -0,0 +1,16 @@
+/**
+ * Alerting - Main Export
+ *
+ * Alert rules and incidents are persisted by the AlertManager, which
+ * delivers through log, signed webhook, Slack-compatible and SMTP channels.
+ * Threshold rules compare current metrics by dotted path; anomaly rules
+ * score metric rollups against an EWMA baseline; pattern rules run named
+ * detectors over sessions and interactions.
+ */
+
+export * from './notification-channels';
+export * from './alert-manager';
+export * from './anomaly-detection';
+export * from './pattern-detectors';
+export * from './threshold-rules';
+export { createAlertChannels, AlertChannelsConfig } from './channel-factory';
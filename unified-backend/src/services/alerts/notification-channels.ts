@@ -0,0 +1,193 @@
+import { createHmac } from 'crypto';
+import { Transporter } from 'nodemailer';
+import { Logger } from '../../utils/logger';
+
+export const ALERT_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+
+export const ALERT_CHANNELS = ['log', 'webhook', 'slack', 'email'] as const;
+
+export type AlertChannelName = typeof ALERT_CHANNELS[number];
+
+export type AlertNotificationEvent = 'triggered' | 'escalated' | 'resolved' | 'test';
+
+export function severityRank(severity: string): number {
+  const rank = (ALERT_SEVERITIES as readonly string[]).indexOf(severity);
+  return rank === -1 ? 0 : rank;
+}
+
+/** Next severity up, capped at critical */
+export function escalateSeverity(severity: string): AlertSeverity {
+  return ALERT_SEVERITIES[Math.min(severityRank(severity) + 1, ALERT_SEVERITIES.length - 1)];
+}
+
+export interface AlertNotification {
+  event: AlertNotificationEvent;
+  alert: {
+    id: string;
+    configId: string;
+    name: string;
+    severity: string;
+    status: string;
+    message: string;
+    occurrences: number;
+    triggeredAt: Date;
+    resolvedAt?: Date | null;
+    details?: any;
+  };
+}
+
+export interface AlertNotificationChannel {
+  readonly name: AlertChannelName;
+  /** Notifications below this severity are not sent on this channel */
+  readonly minSeverity: AlertSeverity;
+  send(notification: AlertNotification): Promise<void>;
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${new URL(url).host}`);
+  }
+}
+
+function title(notification: AlertNotification): string {
+  const prefix = notification.event === 'resolved' ? 'RESOLVED' : notification.alert.severity.toUpperCase();
+  return `[${prefix}] ${notification.alert.name}`;
+}
+
+/**
+ * Writes alerts to the application log; always available
+ */
+export class LogChannel implements AlertNotificationChannel {
+  readonly name = 'log';
+  readonly minSeverity: AlertSeverity = 'low';
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger('AlertLog');
+  }
+
+  async send(notification: AlertNotification): Promise<void> {
+    const { alert } = notification;
+    const meta = { alertId: alert.id, configId: alert.configId, event: notification.event, severity: alert.severity };
+    if (notification.event === 'resolved') {
+      this.logger.info(`ALERT RESOLVED: ${alert.message}`, meta);
+    } else {
+      this.logger.warn(`ALERT: ${alert.message}`, meta);
+    }
+  }
+}
+
+/**
+ * Generic JSON webhook. Receivers verify `X-CodeSight-Signature`, an
+ * HMAC-SHA256 of `<timestamp>.<body>` keyed with the shared secret, and
+ * should reject stale `X-CodeSight-Timestamp` values to stop replays.
+ */
+export class WebhookChannel implements AlertNotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(
+    private url: string,
+    private secret: string | undefined,
+    readonly minSeverity: AlertSeverity = 'medium'
+  ) {}
+
+  async send(notification: AlertNotification): Promise<void> {
+    const body = JSON.stringify({ event: `alert.${notification.event}`, alert: notification.alert });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = { 'X-CodeSight-Timestamp': timestamp };
+    if (this.secret) {
+      headers['X-CodeSight-Signature'] = `sha256=${signWebhookPayload(this.secret, timestamp, body)}`;
+    }
+    await postJson(this.url, body, headers);
+  }
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+const SLACK_COLORS: Record<AlertSeverity, string> = {
+  low: '#439fe0',
+  medium: '#daa038',
+  high: '#e8590c',
+  critical: '#d00000'
+};
+
+/**
+ * Slack incoming-webhook message; Mattermost and Rocket.Chat accept the same payload
+ */
+export class SlackChannel implements AlertNotificationChannel {
+  readonly name = 'slack';
+
+  constructor(private url: string, readonly minSeverity: AlertSeverity = 'medium') {}
+
+  async send(notification: AlertNotification): Promise<void> {
+    await postJson(this.url, JSON.stringify(formatSlackMessage(notification)));
+  }
+}
+
+export function formatSlackMessage(notification: AlertNotification): Record<string, any> {
+  const { alert } = notification;
+  const fields = [
+    { title: 'Severity', value: alert.severity, short: true },
+    { title: 'Status', value: alert.status.toLowerCase(), short: true }
+  ];
+  if (alert.occurrences > 1) {
+    fields.push({ title: 'Occurrences', value: String(alert.occurrences), short: true });
+  }
+
+  return {
+    text: title(notification),
+    attachments: [{
+      fallback: `${title(notification)}: ${alert.message}`,
+      color: notification.event === 'resolved' ? '#2eb886' : SLACK_COLORS[alert.severity as AlertSeverity] || SLACK_COLORS.medium,
+      title: title(notification),
+      text: alert.message,
+      fields,
+      footer: `alert ${alert.id}`,
+      ts: Math.floor(new Date(notification.event === 'resolved' && alert.resolvedAt ? alert.resolvedAt : alert.triggeredAt).getTime() / 1000)
+    }]
+  };
+}
+
+/**
+ * Plain-text email through an SMTP transport
+ */
+export class EmailChannel implements AlertNotificationChannel {
+  readonly name = 'email';
+
+  constructor(
+    private transport: Pick<Transporter, 'sendMail'>,
+    private options: { from: string; to: string[] },
+    readonly minSeverity: AlertSeverity = 'high'
+  ) {}
+
+  async send(notification: AlertNotification): Promise<void> {
+    const { alert } = notification;
+    await this.transport.sendMail({
+      from: this.options.from,
+      to: this.options.to,
+      subject: title(notification),
+      text: [
+        alert.message,
+        '',
+        `Severity: ${alert.severity}`,
+        `Status: ${alert.status.toLowerCase()}`,
+        `Occurrences: ${alert.occurrences}`,
+        `Triggered: ${new Date(alert.triggeredAt).toISOString()}`,
+        ...(alert.resolvedAt ? [`Resolved: ${new Date(alert.resolvedAt).toISOString()}`] : []),
+        `Alert ID: ${alert.id}`
+      ].join('\n')
+    });
+  }
+}
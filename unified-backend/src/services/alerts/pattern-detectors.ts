@@ -0,0 +1,224 @@
+import { AlertConfig, Prisma, PrismaClient } from '@prisma/client';
+import { AlertTrigger } from './alert-manager';
+import { readParameters, severityForExcess } from './anomaly-detection';
+
+export interface PatternParameters {
+  /** The recent window compared against the baseline */
+  windowMinutes: number;
+  /** The baseline window immediately before the recent one */
+  baselineMinutes: number;
+  /** Events required in the recent window (and baseline) before judging */
+  minSamples: number;
+}
+
+export const DEFAULT_PATTERN_PARAMETERS: PatternParameters = {
+  windowMinutes: 15,
+  baselineMinutes: 24 * 60,
+  minSamples: 20
+};
+
+/** Sessions with no end time stop counting as live this long after their last interaction */
+const SESSION_IDLE_MINUTES = 30;
+
+interface PatternWindow {
+  now: Date;
+  recentStart: Date;
+  baselineStart: Date;
+}
+
+/**
+ * Interaction windows are matched on the capture `timestamp` (epoch ms), not
+ * `createdAt`: the legacy migration and archive restores insert historical
+ * interactions with createdAt set to the insert time, which would read as a
+ * burst of recent traffic followed by an apparent drop.
+ */
+function epochMs(date: Date): bigint {
+  return BigInt(date.getTime());
+}
+
+/**
+ * A named detector over domain events. `threshold` on the rule is always a
+ * percentage; each detector documents what it measures.
+ */
+export interface PatternDetector {
+  description: string;
+  evaluate(prisma: PrismaClient, config: AlertConfig, window: PatternWindow, parameters: PatternParameters): Promise<AlertTrigger | null>;
+}
+
+/**
+ * Interactions per live session-minute in the recent window against the
+ * baseline. A retailer redesign that breaks capture shows up here first:
+ * sessions keep running but stop producing interactions.
+ * threshold: percent drop (50 = rate halved).
+ */
+const interactionRateDrop: PatternDetector = {
+  description: 'Drop in interactions per active session',
+  async evaluate(prisma, config, { now, recentStart, baselineStart }, parameters) {
+    const [nowMs, recentMs, baselineMs] = [now, recentStart, baselineStart].map(epochMs);
+    const [row] = await prisma.$queryRaw<Array<{
+      recentInteractions: number;
+      baselineInteractions: number;
+      recentSessionMinutes: number;
+      baselineSessionMinutes: number;
+    }>>(Prisma.sql`
+      WITH live AS (
+        SELECT "startTime" AS started,
+               COALESCE("endTime", LEAST(${now}, COALESCE("lastInteractionTime", "startTime") + ${SESSION_IDLE_MINUTES} * INTERVAL '1 minute')) AS ended
+        FROM "unified_sessions"
+        WHERE "startTime" < ${now} AND COALESCE("endTime", ${now}) > ${baselineStart}
+      )
+      SELECT
+        (SELECT COUNT(*)::int FROM "enhanced_interactions" WHERE "timestamp" >= ${recentMs} AND "timestamp" < ${nowMs}) AS "recentInteractions",
+        (SELECT COUNT(*)::int FROM "enhanced_interactions" WHERE "timestamp" >= ${baselineMs} AND "timestamp" < ${recentMs}) AS "baselineInteractions",
+        COALESCE((SELECT SUM(GREATEST(0, EXTRACT(EPOCH FROM LEAST(ended, ${now}) - GREATEST(started, ${recentStart})))) FROM live), 0)::float / 60 AS "recentSessionMinutes",
+        COALESCE((SELECT SUM(GREATEST(0, EXTRACT(EPOCH FROM LEAST(ended, ${recentStart}) - GREATEST(started, ${baselineStart})))) FROM live), 0)::float / 60 AS "baselineSessionMinutes"
+    `);
+
+    if (!row || row.baselineInteractions < parameters.minSamples || row.recentSessionMinutes < parameters.windowMinutes) {
+      return null;
+    }
+
+    const baselineRate = row.baselineSessionMinutes > 0 ? row.baselineInteractions / row.baselineSessionMinutes : 0;
+    const recentRate = row.recentInteractions / row.recentSessionMinutes;
+    if (baselineRate === 0) return null;
+
+    const dropPercent = (1 - recentRate / baselineRate) * 100;
+    if (dropPercent < config.threshold) return null;
+
+    return {
+      severity: severityForExcess(dropPercent, config.threshold),
+      message: `${config.name}: interactions per session-minute fell ${dropPercent.toFixed(0)}%`
+        + ` (${recentRate.toFixed(2)} vs ${baselineRate.toFixed(2)} baseline)`,
+      details: { ...row, recentRate, baselineRate, dropPercent }
+    };
+  }
+};
+
+/**
+ * Share of sessions finishing processing as FAILED in the recent window.
+ * threshold: failure rate in percent. The rate must also be at least double
+ * the baseline rate so a chronically flaky step does not page continuously.
+ */
+const processingFailureSpike: PatternDetector = {
+  description: 'Spike in sessions ending with FAILED processing status',
+  async evaluate(prisma, config, { now, recentStart, baselineStart }, parameters) {
+    const [row] = await prisma.$queryRaw<Array<{
+      recentFailed: number;
+      recentFinished: number;
+      baselineFailed: number;
+      baselineFinished: number;
+    }>>(Prisma.sql`
+      SELECT
+        COUNT(*) FILTER (WHERE "updatedAt" >= ${recentStart} AND "processingStatus" = 'FAILED')::int AS "recentFailed",
+        COUNT(*) FILTER (WHERE "updatedAt" >= ${recentStart})::int AS "recentFinished",
+        COUNT(*) FILTER (WHERE "updatedAt" < ${recentStart} AND "processingStatus" = 'FAILED')::int AS "baselineFailed",
+        COUNT(*) FILTER (WHERE "updatedAt" < ${recentStart})::int AS "baselineFinished"
+      FROM "unified_sessions"
+      WHERE "processingStatus" IN ('COMPLETED', 'FAILED')
+        AND "updatedAt" >= ${baselineStart} AND "updatedAt" < ${now}
+    `);
+
+    if (!row || row.recentFinished < parameters.minSamples) return null;
+
+    const failureRate = (row.recentFailed / row.recentFinished) * 100;
+    const baselineRate = row.baselineFinished > 0 ? (row.baselineFailed / row.baselineFinished) * 100 : 0;
+    if (failureRate < config.threshold || failureRate < baselineRate * 2) return null;
+
+    return {
+      severity: severityForExcess(failureRate, config.threshold),
+      message: `${config.name}: ${failureRate.toFixed(0)}% of sessions failed processing in the last ${parameters.windowMinutes} minutes`
+        + ` (baseline ${baselineRate.toFixed(0)}%)`,
+      details: { ...row, failureRate, baselineRate }
+    };
+  }
+};
+
+/**
+ * Average best-selector reliability per page domain, from the extension's
+ * selector scores. A redesign invalidates learned selectors on one retailer
+ * while others stay healthy, so each domain is compared with its own baseline.
+ * The domain comes from context.url, as the pipeline stores it, falling back
+ * to pageUrl. threshold: percent drop in average reliability.
+ */
+const selectorReliabilityCollapse: PatternDetector = {
+  description: 'Per-domain collapse in selector reliability',
+  async evaluate(prisma, config, { now, recentStart, baselineStart }, parameters) {
+    const [nowMs, recentMs, baselineMs] = [now, recentStart, baselineStart].map(epochMs);
+    const rows = await prisma.$queryRaw<Array<{
+      domain: string;
+      recentCount: number;
+      recentReliability: number | null;
+      baselineCount: number;
+      baselineReliability: number | null;
+    }>>(Prisma.sql`
+      WITH scored AS (
+        SELECT
+          substring(COALESCE("payload"->'context'->>'url', "payload"->'context'->>'pageUrl') FROM '^[a-zA-Z]+://([^/:?#]+)') AS domain,
+          "timestamp",
+          COALESCE((
+            SELECT MAX((score.value #>> '{}')::float)
+            FROM jsonb_each(CASE WHEN jsonb_typeof("payload"->'selectors'->'reliability') = 'object'
+                                 THEN "payload"->'selectors'->'reliability' ELSE '{}'::jsonb END) AS score
+            WHERE jsonb_typeof(score.value) = 'number'
+          ), 0) AS reliability
+        FROM "enhanced_interactions"
+        WHERE "timestamp" >= ${baselineMs} AND "timestamp" < ${nowMs}
+      )
+      SELECT
+        domain,
+        COUNT(*) FILTER (WHERE "timestamp" >= ${recentMs})::int AS "recentCount",
+        AVG(reliability) FILTER (WHERE "timestamp" >= ${recentMs}) AS "recentReliability",
+        COUNT(*) FILTER (WHERE "timestamp" < ${recentMs})::int AS "baselineCount",
+        AVG(reliability) FILTER (WHERE "timestamp" < ${recentMs}) AS "baselineReliability"
+      FROM scored
+      WHERE domain IS NOT NULL
+      GROUP BY domain
+    `);
+
+    const collapsed = rows
+      .filter(row => row.recentCount >= parameters.minSamples && row.baselineCount >= parameters.minSamples && row.baselineReliability)
+      .map(row => ({
+        domain: row.domain,
+        recentReliability: Number(row.recentReliability || 0),
+        baselineReliability: Number(row.baselineReliability),
+        dropPercent: (1 - Number(row.recentReliability || 0) / Number(row.baselineReliability)) * 100,
+        recentCount: row.recentCount
+      }))
+      .filter(row => row.dropPercent >= config.threshold)
+      .sort((a, b) => b.dropPercent - a.dropPercent);
+
+    if (collapsed.length === 0) return null;
+
+    return {
+      severity: severityForExcess(collapsed[0].dropPercent, config.threshold),
+      message: `${config.name}: selector reliability dropped on ${collapsed.map(row => `${row.domain} (-${row.dropPercent.toFixed(0)}%)`).join(', ')}`,
+      details: { domains: collapsed }
+    };
+  }
+};
+
+export const PATTERN_DETECTORS: Record<string, PatternDetector> = {
+  interaction_rate_drop: interactionRateDrop,
+  processing_failure_spike: processingFailureSpike,
+  selector_reliability_collapse: selectorReliabilityCollapse
+};
+
+/**
+ * Evaluate a pattern rule; `config.metric` names the detector
+ */
+export async function evaluatePatternAlert(
+  prisma: PrismaClient,
+  config: AlertConfig,
+  now: Date = new Date()
+): Promise<AlertTrigger | null> {
+  const detector = PATTERN_DETECTORS[config.metric];
+  if (!detector) {
+    throw new Error(`Unknown pattern detector ${config.metric}`);
+  }
+
+  const parameters = readParameters(config, DEFAULT_PATTERN_PARAMETERS);
+  const recentStart = new Date(now.getTime() - parameters.windowMinutes * 60 * 1000);
+  const baselineStart = new Date(recentStart.getTime() - parameters.baselineMinutes * 60 * 1000);
+
+  return detector.evaluate(prisma, config, { now, recentStart, baselineStart }, parameters);
+}
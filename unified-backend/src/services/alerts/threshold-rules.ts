@@ -0,0 +1,107 @@
+import { AlertConfig } from '@prisma/client';
+import { AlertConfigInput, AlertTrigger } from './alert-manager';
+import { AlertSeverity } from './notification-channels';
+
+/**
+ * What threshold rules are evaluated against: `business` and `system` as
+ * reported by MonitoringAnalyticsService, plus recent request stats
+ */
+export interface ThresholdMetrics {
+  business: object;
+  system: object;
+  requests: { errorRate?: number };
+}
+
+/** Built-in threshold rules; `metric` is a dotted path into ThresholdMetrics */
+export const DEFAULT_THRESHOLD_ALERTS: AlertConfigInput[] = [
+  {
+    id: 'high_cpu_usage',
+    name: 'High CPU Usage',
+    type: 'threshold',
+    metric: 'system.cpu.usage',
+    condition: 'greater_than',
+    threshold: 80,
+    enabled: true,
+    channels: ['log', 'webhook', 'slack', 'email']
+  },
+  {
+    id: 'high_memory_usage',
+    name: 'High Memory Usage',
+    type: 'threshold',
+    metric: 'system.memory.usage',
+    condition: 'greater_than',
+    threshold: 85,
+    enabled: true,
+    channels: ['log', 'webhook', 'slack', 'email']
+  },
+  {
+    id: 'low_quality_sessions',
+    name: 'Low Quality Sessions',
+    type: 'threshold',
+    metric: 'business.averageQualityScore',
+    condition: 'less_than',
+    threshold: 60,
+    enabled: true,
+    channels: ['log', 'webhook', 'slack']
+  },
+  {
+    id: 'high_error_rate',
+    name: 'High Error Rate',
+    type: 'threshold',
+    metric: 'requests.errorRate',
+    condition: 'greater_than',
+    threshold: 5,
+    enabled: true,
+    channels: ['log', 'webhook', 'slack', 'email']
+  }
+];
+
+/** Number at a dotted path such as system.cpu.usage, or null when there is none */
+export function readMetricPath(metricPath: string, metrics: unknown): number | null {
+  let value: any = metrics;
+  for (const part of metricPath.split('.')) {
+    value = value?.[part];
+  }
+  return typeof value === 'number' ? value : null;
+}
+
+function isBreached(condition: string, value: number, threshold: number): boolean {
+  switch (condition) {
+    case 'greater_than':
+      return value > threshold;
+    case 'less_than':
+      return value < threshold;
+    case 'equals':
+      return value === threshold;
+    default:
+      return false;
+  }
+}
+
+function thresholdSeverity(metric: string, value: number, threshold: number): AlertSeverity {
+  if (metric.includes('cpu') || metric.includes('memory')) {
+    if (value > threshold * 1.5) return 'critical';
+    if (value > threshold * 1.2) return 'high';
+  }
+  return 'medium';
+}
+
+/**
+ * Evaluate a threshold rule. A path with no value (unknown, or no data yet)
+ * never fires in either direction, rather than reading as 0.
+ */
+export function evaluateThresholdAlert(
+  config: Pick<AlertConfig, 'name' | 'metric' | 'condition' | 'threshold'>,
+  metrics: ThresholdMetrics
+): AlertTrigger | null {
+  const value = readMetricPath(config.metric, metrics);
+  if (value === null) return null;
+
+  if (!isBreached(config.condition, value, config.threshold)) return null;
+
+  return {
+    severity: thresholdSeverity(config.metric, value, config.threshold),
+    message: `${config.name}: ${config.metric} ${config.condition} ${config.threshold}`,
+    details: metrics
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Archive Restore Tests
+ *
+ * Tests reading archiver zips, manifest checksum verification, and
+ * rebuilding a session from an archive or an imported bundle
+ */
+
+import archiver from 'archiver';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { ArchiveChecksumError, ArchiveConflictError, InvalidArchiveError } from '../archive-errors';
+import { ArchiveRestoreServiceImpl, verifyArchiveEntries } from '../archive-restore';
+import { readZipEntries } from '../zip-reader';
+
+const SOURCE_ID = '11111111-1111-4111-8111-111111111111';
+const NEW_ID = '22222222-2222-4222-8222-222222222222';
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+async function zip(files: Record<string, string>, store = false): Promise<Buffer> {
+  const archive = archiver('zip', { zlib: { level: 9 }, store });
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  const done = new Promise(resolve => output.on('end', resolve));
+
+  archive.pipe(output);
+  for (const [name, content] of Object.entries(files)) archive.append(content, { name });
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+}
+
+const files: Record<string, string> = {
+  'interactions.json': JSON.stringify([
+    { id: 'click-1', sessionId: SOURCE_ID, type: 'click', timestamp: 1760868000000, sequence: 1 },
+    { id: 'input-2', sessionId: SOURCE_ID, type: 'input', timestamp: 1760868005000, sequence: 2 }
+  ]),
+  'metadata.json': JSON.stringify({
+    session: { id: SOURCE_ID, type: 'HUMAN', status: 'COMPLETED', qualityScore: 82, trainingMetrics: null, workerId: 'w1', notAColumn: true },
+    trainingData: { id: 'td1', sessionId: SOURCE_ID, status: 'COMPLETED', fileSize: 12 }
+  }),
+  'psychology-profile.json': JSON.stringify({ id: 'pp1', sessionId: SOURCE_ID, dominantPersonality: 'ANALYTICAL', emotionalState: 'CALM', decisionMakingStyle: 'DELIBERATE' }),
+  'training-data.jsonl': '{"messages":[]}\n',
+  'screenshots.json': JSON.stringify([
+    { id: 'shot-1', sessionId: SOURCE_ID, interactionId: 'legacy-1', timestamp: '1760868000000', eventType: 'click', viewport: {}, visionAnalysis: null },
+    { id: 'shot-2', sessionId: SOURCE_ID, interactionId: null, timestamp: '1760868005000', eventType: 'input', viewport: {}, duplicateOfId: 'shot-1' }
+  ])
+};
+
+function manifestFor(contents: Record<string, string>) {
+  return {
+    version: '1.1',
+    sessionId: SOURCE_ID,
+    checksums: Object.fromEntries(Object.entries(contents).map(([name, content]) => [name, sha256(content)])),
+    compression: { algorithm: 'zip', level: 9, ratio: 0.3, method: 'deflate' }
+  };
+}
+
+function mockPrisma(archive: Record<string, any> | null = null, existingSession: Record<string, any> | null = null) {
+  const prisma: any = {
+    sessionArchive: {
+      findUnique: jest.fn().mockResolvedValue(archive),
+      create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'imported-archive', ...data }))
+    },
+    unifiedSession: {
+      findUnique: jest.fn().mockResolvedValue(existingSession),
+      create: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({})
+    },
+    enhancedInteraction: { createMany: jest.fn().mockResolvedValue({}), deleteMany: jest.fn().mockResolvedValue({}) },
+    screenshot: { createMany: jest.fn().mockResolvedValue({}), deleteMany: jest.fn().mockResolvedValue({}) },
+    interaction: { findMany: jest.fn().mockResolvedValue([{ id: 'legacy-1' }]) },
+    psychologyProfile: { create: jest.fn().mockResolvedValue({}), deleteMany: jest.fn().mockResolvedValue({}) },
+    contextEnhancement: { create: jest.fn().mockResolvedValue({}), deleteMany: jest.fn().mockResolvedValue({}) },
+    trainingData: { create: jest.fn().mockResolvedValue({}), deleteMany: jest.fn().mockResolvedValue({}) }
+  };
+  prisma.$transaction = jest.fn().mockImplementation(fn => fn(prisma));
+  return prisma;
+}
+
+describe('Archive restore', () => {
+  let archiveDir: string;
+
+  beforeEach(async () => {
+    archiveDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-restore-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(archiveDir, { recursive: true, force: true });
+  });
+
+  describe('📦 Zip reading', () => {
+    it('should read deflated and stored entries written by archiver', async () => {
+      const deflated = readZipEntries(await zip(files));
+      const stored = readZipEntries(await zip({ 'a.txt': 'plain' }, true));
+
+      expect(Array.from(deflated.keys()).sort()).toEqual(Object.keys(files).sort());
+      expect(deflated.get('training-data.jsonl')!.toString()).toBe(files['training-data.jsonl']);
+      expect(stored.get('a.txt')!.toString()).toBe('plain');
+      expect(() => readZipEntries(Buffer.from('not a zip at all, just some text'))).toThrow(InvalidArchiveError);
+    });
+
+    it('should stop inflating once the contents pass the size limit', async () => {
+      const bomb = await zip({ 'a.txt': 'a'.repeat(4096), 'b.txt': 'b'.repeat(4096) });
+
+      expect(() => readZipEntries(bomb, 1000)).toThrow('Invalid archive: contents exceed the 1000 byte limit');
+      expect(() => readZipEntries(bomb, 6000)).toThrow('contents exceed the 6000 byte limit');
+      expect(readZipEntries(bomb, 8192).size).toBe(2);
+    });
+
+        it('should report missing and modified files against the manifest', async () => {
+      const entries = readZipEntries(await zip({ ...files, 'metadata.json': '{}' }));
+      entries.delete('screenshots.json');
+
+      const verification = verifyArchiveEntries(entries, manifestFor(files) as any);
+
+      expect(verification.valid).toBe(false);
+      expect(verification.missing).toEqual(['screenshots.json']);
+      expect(verification.mismatched).toEqual(['metadata.json']);
+      expect(verification.verified).toHaveLength(3);
+    });
+  });
+
+  describe('♻️ Restore', () => {
+    async function storedArchive(contents: Record<string, string> = files) {
+      const buffer = await zip(contents);
+      await fs.writeFile(path.join(archiveDir, `session-${SOURCE_ID}.zip`), buffer);
+      return { id: 'archive-1', sessionId: SOURCE_ID, status: 'COMPLETED', checksum: sha256(buffer), manifest: manifestFor(files), s3Key: '' };
+    }
+
+    it('should rebuild the session under a new id with rewritten interaction and screenshot ids', async () => {
+      const prisma = mockPrisma(await storedArchive());
+      const service = new ArchiveRestoreServiceImpl(prisma, { archiveDir });
+
+      const result = await service.restore('archive-1', { sessionId: NEW_ID });
+
+      expect(result).toEqual(expect.objectContaining({ sourceSessionId: SOURCE_ID, sessionId: NEW_ID, replaced: false }));
+      expect(result.counts).toEqual({ interactions: 2, screenshots: 2, psychologyProfile: 1, contextEnhancement: 0, trainingData: 1, images: 0 });
+
+      const session = prisma.unifiedSession.create.mock.calls[0][0].data;
+      expect(session).toEqual(expect.objectContaining({ id: NEW_ID, qualityScore: 82, workerId: 'w1', interactionCount: 2, enhancedInteractions: [] }));
+      expect(session).not.toHaveProperty('notAColumn');
+
+      const rows = prisma.enhancedInteraction.createMany.mock.calls[0][0].data;
+      expect(rows.map((row: any) => row.id)).toEqual([`${NEW_ID}:1`, `${NEW_ID}:2`]);
+      expect(rows[1]).toEqual(expect.objectContaining({ sessionId: NEW_ID, sequence: 2, clientSequence: 2, timestamp: BigInt(1760868005000) }));
+      expect(rows[1].payload).toEqual(expect.objectContaining({ id: `${NEW_ID}:2`, sessionId: NEW_ID }));
+
+      const screenshots = prisma.screenshot.createMany.mock.calls[0][0].data;
+      expect(screenshots[0].id).not.toBe('shot-1');
+      expect(screenshots[0].interactionId).toBeNull();
+      expect(screenshots[1].duplicateOfId).toBe(screenshots[0].id);
+      expect(screenshots[0].timestamp).toBe(BigInt(1760868000000));
+
+      expect(prisma.trainingData.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sessionId: NEW_ID, status: 'COMPLETED', jsonlData: files['training-data.jsonl'], fileSize: 12 })
+      });
+      expect(prisma.trainingData.create.mock.calls[0][0].data).not.toHaveProperty('id');
+    });
+
+    it('should refuse to overwrite an existing session unless asked to replace it', async () => {
+      const prisma = mockPrisma(await storedArchive(), { id: SOURCE_ID });
+      const service = new ArchiveRestoreServiceImpl(prisma, { archiveDir });
+
+      await expect(service.restore('archive-1')).rejects.toThrow(`Session ${SOURCE_ID} already exists`);
+      await expect(service.restore('archive-1')).rejects.toBeInstanceOf(ArchiveConflictError);
+
+      const result = await service.restore('archive-1', { replace: true });
+      expect(result.replaced).toBe(true);
+      expect(prisma.enhancedInteraction.deleteMany).toHaveBeenCalledWith({ where: { sessionId: SOURCE_ID } });
+      expect(prisma.unifiedSession.update).toHaveBeenCalled();
+      expect(prisma.enhancedInteraction.createMany.mock.calls[0][0].data[0].id).toBe('click-1');
+      expect(prisma.screenshot.createMany.mock.calls[0][0].data[0]).toEqual(expect.objectContaining({ id: 'shot-1', interactionId: 'legacy-1' }));
+    });
+
+    it('should reject archives that fail checksum verification before writing anything', async () => {
+      const archive = await storedArchive({ ...files, 'metadata.json': JSON.stringify({ session: { id: SOURCE_ID, qualityScore: 100 } }) });
+      const tampered = mockPrisma(archive);
+      await expect(new ArchiveRestoreServiceImpl(tampered, { archiveDir }).restore('archive-1')).rejects.toThrow('metadata.json checksum mismatch');
+      await expect(new ArchiveRestoreServiceImpl(tampered, { archiveDir }).restore('archive-1')).rejects.toBeInstanceOf(ArchiveChecksumError);
+
+      const replaced = mockPrisma({ ...archive, checksum: 'other', s3Key: 'archives/x.zip' });
+      const fetchRemote = jest.fn().mockResolvedValue(Buffer.from('remote'));
+      await expect(new ArchiveRestoreServiceImpl(replaced, { archiveDir, fetchRemote }).restore('archive-1')).rejects.toThrow('Archive archive-1 checksum mismatch');
+      expect(fetchRemote).toHaveBeenCalled();
+
+      expect(tampered.$transaction).not.toHaveBeenCalled();
+      expect(replaced.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('🚚 Import', () => {
+    it('should verify the embedded manifest and keep the bundle as a local archive', async () => {
+      const buffer = await zip({ ...files, 'manifest.json': JSON.stringify(manifestFor(files)) });
+      const prisma = mockPrisma();
+
+      const result = await new ArchiveRestoreServiceImpl(prisma, { archiveDir }).importArchive(buffer);
+
+      expect(result).toEqual(expect.objectContaining({ archiveId: 'imported-archive', sessionId: SOURCE_ID, manifestVersion: '1.1' }));
+      expect(prisma.sessionArchive.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sessionId: SOURCE_ID, status: 'COMPLETED', checksum: sha256(buffer), fileSize: BigInt(buffer.length) })
+      });
+      expect(await fs.readFile(path.join(archiveDir, `session-${SOURCE_ID}.zip`))).toEqual(buffer);
+    });
+
+    it('should reject a session id from the bundle that is not a UUID before writing anything', async () => {
+      const contents = { ...files, 'metadata.json': JSON.stringify({ session: { id: '../../escaped', type: 'HUMAN' } }) };
+      const buffer = await zip({ ...contents, 'manifest.json': JSON.stringify(manifestFor(contents)) });
+      const prisma = mockPrisma();
+      const service = new ArchiveRestoreServiceImpl(prisma, { archiveDir });
+
+      await expect(service.importArchive(buffer)).rejects.toThrow('metadata.json session id is not a UUID');
+      expect(prisma.unifiedSession.create).not.toHaveBeenCalled();
+      expect(await fs.readdir(archiveDir)).toEqual([]);
+
+      const imported = await service.importArchive(buffer, { sessionId: SOURCE_ID });
+      expect(imported.sessionId).toBe(SOURCE_ID);
+    });
+
+        it('should reject bundles without an embedded manifest', async () => {
+      const service = new ArchiveRestoreServiceImpl(mockPrisma(), { archiveDir });
+
+      await expect(service.importArchive(await zip(files))).rejects.toThrow('manifest.json is missing');
+      await expect(service.importArchive(await zip(files))).rejects.toBeInstanceOf(InvalidArchiveError);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Archive Writer Tests
+ *
+ * Tests streaming zip and tar.zst archives with real per-entry sizes, and
+ * importing a format 2.0 archive with its screenshot images
+ */
+
+import { spawnSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ArchiveRestoreServiceImpl } from '../archive-restore';
+import { detectArchiveFormat, readArchiveEntries } from '../archive-reader';
+import { ArchiveEntry, writeArchive } from '../archive-writer';
+import { readZipDirectory } from '../zip-reader';
+import { zstdDecompress } from '../zstd';
+
+const SOURCE_ID = '11111111-1111-4111-8111-111111111111';
+const NEW_ID = '22222222-2222-4222-8222-222222222222';
+
+const zstdAvailable = 'createZstdCompress' in zlib || spawnSync('zstd', ['--version']).status === 0;
+
+const image = crypto.randomBytes(2048);
+const inlineImage = Buffer.from('inline-png-bytes');
+
+function entry(name: string, content: string | Buffer | null, mimeType = 'application/json'): ArchiveEntry {
+  return { name, mimeType, load: async () => (content === null ? null : Buffer.from(content)) };
+}
+
+function sessionEntries(): ArchiveEntry[] {
+  return [
+    entry('interactions.json', JSON.stringify([{ id: 'click-1', type: 'click', timestamp: 1760868000000 }])),
+    entry('metadata.json', JSON.stringify({ session: { id: SOURCE_ID, type: 'HUMAN', status: 'COMPLETED' } })),
+    entry(`screenshots/shot-1.webp`, image, 'image/webp'),
+    entry(`screenshots/shot-2.png`, inlineImage, 'image/png'),
+    entry('screenshots/missing.webp', null, 'image/webp'),
+    entry('screenshots.json', JSON.stringify([
+      { id: 'shot-1', timestamp: '1760868000000', eventType: 'click', viewport: {}, s3Key: `screenshots/${SOURCE_ID}/a-click.webp`, imageFile: 'screenshots/shot-1.webp' },
+      { id: 'shot-2', timestamp: '1760868001000', eventType: 'input', viewport: {}, s3Key: null, dataUrl: null, imageFile: 'screenshots/shot-2.png' }
+    ]))
+  ];
+}
+
+describe('Archive writer', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-writer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('🗜️ Formats', () => {
+    it('should write a zip with real compressed sizes and skip entries that could not be loaded', async () => {
+      const archivePath = path.join(dir, 'session.zip');
+
+      const { manifest, checksum, fileSize } = await writeArchive(sessionEntries(), archivePath, { sessionId: SOURCE_ID, format: 'zip' });
+      const bytes = await fs.readFile(archivePath);
+      const directory = new Map((await readZipDirectory(archivePath)).map(item => [item.name, item.compressedSize]));
+
+      expect(checksum).toBe(crypto.createHash('sha256').update(bytes).digest('hex'));
+      expect(fileSize).toBe(bytes.length);
+      expect(manifest).toEqual(expect.objectContaining({ version: '2.0', format: 'zip', compressedSize: bytes.length }));
+      expect(manifest.files.map(file => file.filename)).not.toContain('screenshots/missing.webp');
+      for (const file of manifest.files) {
+        expect(file.compressedSize).toBe(directory.get(file.filename));
+      }
+
+      const entries = await readArchiveEntries(bytes);
+      expect(entries.get('screenshots/shot-1.webp')).toEqual(image);
+      expect(JSON.parse(entries.get('manifest.json')!.toString()).files[0].compressedSize).toBeNull();
+    });
+
+    (zstdAvailable ? it : it.skip)('should write and read back tar.zst', async () => {
+      const archivePath = path.join(dir, 'session.tar.zst');
+
+      const { manifest } = await writeArchive(sessionEntries(), archivePath, { sessionId: SOURCE_ID, format: 'tar.zst', level: 3 });
+      const bytes = await fs.readFile(archivePath);
+      const entries = await readArchiveEntries(bytes);
+
+      expect(detectArchiveFormat(bytes)).toBe('tar.zst');
+      expect(manifest.compression).toEqual(expect.objectContaining({ algorithm: 'zstd', level: 3 }));
+      expect(manifest.files.every(file => file.compressedSize === null)).toBe(true);
+      expect(entries.get('screenshots/shot-1.webp')).toEqual(image);
+      expect(entries.get('interactions.json')!.toString()).toContain('click-1');
+    });
+
+    (zstdAvailable ? it : it.skip)('should stop decompressing tar.zst once the output passes the limit', async () => {
+      const archivePath = path.join(dir, 'session.tar.zst');
+      await writeArchive(sessionEntries(), archivePath, { sessionId: SOURCE_ID, format: 'tar.zst', level: 3 });
+      const bytes = await fs.readFile(archivePath);
+
+      await expect(zstdDecompress(bytes, 1024)).rejects.toThrow('Invalid archive: contents exceed the 1024 byte limit');
+      expect((await zstdDecompress(bytes)).length).toBeGreaterThan(1024);
+    });
+  });
+
+  describe('🖼️ Images', () => {
+    it('should put images back under the new session on import and rebuild inline data URLs', async () => {
+      const archivePath = path.join(dir, 'session.zip');
+      await writeArchive(sessionEntries(), archivePath, { sessionId: SOURCE_ID, format: 'zip' });
+
+      const objectStore = {
+        exists: jest.fn().mockResolvedValue(false),
+        put: jest.fn().mockResolvedValue({})
+      } as any;
+      const prisma: any = {
+        sessionArchive: { create: jest.fn().mockImplementation(({ data }) => Promise.resolve({ id: 'imported', ...data })) },
+        unifiedSession: { findUnique: jest.fn().mockResolvedValue(null), create: jest.fn() },
+        enhancedInteraction: { createMany: jest.fn() },
+        screenshot: { createMany: jest.fn() }
+      };
+      prisma.$transaction = jest.fn().mockImplementation(fn => fn(prisma));
+
+      const service = new ArchiveRestoreServiceImpl(prisma, { archiveDir: path.join(dir, 'archives'), objectStore });
+      const result = await service.importArchive(await fs.readFile(archivePath), { sessionId: NEW_ID });
+
+      expect(result.counts.images).toBe(1);
+      expect(objectStore.put).toHaveBeenCalledWith(`screenshots/${NEW_ID}/a-click.webp`, image, { contentType: 'image/webp' });
+
+      const [restored, inline] = prisma.screenshot.createMany.mock.calls[0][0].data;
+      expect(restored.s3Key).toBe(`screenshots/${NEW_ID}/a-click.webp`);
+      expect(inline.dataUrl).toBe(`data:image/png;base64,${inlineImage.toString('base64')}`);
+      expect(prisma.sessionArchive.create).toHaveBeenCalledWith({ data: expect.objectContaining({ format: 'zip', version: '2.0' }) });
+    });
+  });
+});
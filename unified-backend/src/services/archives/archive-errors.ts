@@ -0,0 +1,31 @@
+/** An archive record, its stored file or the session it belongs to does not exist */
+export class ArchiveNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveNotFoundError';
+  }
+}
+
+/** The target already exists: an archive of the session, or a session to restore over */
+export class ArchiveConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveConflictError';
+  }
+}
+
+/** The archive's files do not match the checksums recorded for them, or there are none to check */
+export class ArchiveChecksumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveChecksumError';
+  }
+}
+
+/** The archive cannot be read or restored as it is: malformed, oversized or not finished */
+export class InvalidArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArchiveError';
+  }
+}
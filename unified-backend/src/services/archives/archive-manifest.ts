@@ -0,0 +1,70 @@
+/**
+ * 1.1 embeds manifest.json in the archive and the full session row in
+ * metadata.json; 2.0 adds the screenshot images, real per-entry compressed
+ * sizes and the tar.zst format
+ */
+export const ARCHIVE_MANIFEST_VERSION = '2.0';
+
+/**
+ * Versions whose archives hold the screenshot images themselves. Earlier
+ * archives only have screenshots.json, so the originals are the only copy.
+ */
+export const ARCHIVE_VERSIONS_WITH_IMAGES = ['2.0'];
+
+export type ArchiveFormat = 'zip' | 'tar.zst';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar.zst'];
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  'tar.zst': 'application/zstd'
+};
+
+/**
+ * Most an archive may expand to when read back. Archives are extracted in
+ * memory, and a small upload can otherwise inflate without bound.
+ */
+export const MAX_EXTRACTED_ARCHIVE_BYTES = 1024 * 1024 * 1024;
+
+/** Local and S3 file name of a session's archive */
+export function archiveFileName(sessionId: string, format: string = 'zip'): string {
+  return `session-${sessionId}.${format}`;
+}
+
+/** Name of the manifest copy stored inside the zip, so archives can be imported elsewhere */
+export const ARCHIVE_MANIFEST_FILENAME = 'manifest.json';
+
+/** JSON.stringify replacer for rows with BigInt columns (screenshot timestamps) */
+export function archiveJsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+export interface ArchiveManifest {
+  version: string;
+  /** Absent before 2.0, when every archive was a zip */
+  format?: ArchiveFormat;
+  sessionId: string;
+  createdAt: Date;
+  files: FileManifestEntry[];
+  checksums: Record<string, string>;
+  compression: CompressionInfo;
+  totalSize: number;
+  compressedSize: number;
+}
+
+export interface FileManifestEntry {
+  filename: string;
+  originalSize: number;
+  /** Read back from the zip; null inside the archive itself and for tar.zst, which compresses the stream as a whole */
+  compressedSize: number | null;
+  checksum: string;
+  mimeType: string;
+  lastModified: Date;
+}
+
+export interface CompressionInfo {
+  algorithm: string;
+  level: number;
+  ratio: number;
+  method: string;
+}
@@ -0,0 +1,71 @@
+import { InvalidArchiveError } from './archive-errors';
+import { ArchiveFormat } from './archive-manifest';
+import { readZipEntries } from './zip-reader';
+import { zstdDecompress } from './zstd';
+
+const BLOCK_SIZE = 512;
+const ZIP_MAGIC = 0x04034b50;
+const ZSTD_MAGIC = 0xfd2fb528;
+
+export function detectArchiveFormat(buffer: Buffer): ArchiveFormat {
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_MAGIC) return 'zip';
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZSTD_MAGIC) return 'tar.zst';
+  throw new InvalidArchiveError('Invalid archive: expected a zip or tar.zst file');
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end >= 0 ? end : field.length);
+}
+
+function paxPath(data: Buffer): string | undefined {
+  // Records are "<length> <key>=<value>\n"
+  for (const record of data.toString('utf8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Read the regular files of an uncompressed ustar archive, following pax
+ * headers for long names as written by archiver's tar format
+ */
+export function readTarEntries(buffer: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+  let nextName: string | undefined;
+
+  while (offset + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = readString(header, 345, 155);
+    const name = nextName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+    const data = buffer.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    if (data.length < size) {
+      throw new InvalidArchiveError(`Invalid archive: ${name} is truncated`);
+    }
+
+    nextName = undefined;
+    if (type === 'x') {
+      nextName = paxPath(data);
+    } else if (type === '0') {
+      entries.set(name, Buffer.from(data));
+    }
+
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+}
+
+/** Files of a zip or tar.zst archive, by name */
+export async function readArchiveEntries(buffer: Buffer): Promise<Map<string, Buffer>> {
+  return detectArchiveFormat(buffer) === 'zip'
+    ? readZipEntries(buffer)
+    : readTarEntries(await zstdDecompress(buffer));
+}
@@ -0,0 +1,484 @@
+import { Prisma, PrismaClient, SessionArchive } from '@prisma/client';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { validate as isUuid } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { toTimestamp } from '../interactions/enhanced-interaction-store';
+import { S3StorageService } from '../s3-storage';
+import { ObjectStore, getObjectStore } from '../storage';
+import { ArchiveChecksumError, ArchiveConflictError, ArchiveNotFoundError, InvalidArchiveError } from './archive-errors';
+import { ARCHIVE_MANIFEST_FILENAME, ArchiveManifest, archiveFileName } from './archive-manifest';
+import { detectArchiveFormat, readArchiveEntries } from './archive-reader';
+
+export interface ArchiveVerification {
+  valid: boolean;
+  /** Files whose checksum matched the manifest */
+  verified: string[];
+  missing: string[];
+  mismatched: string[];
+}
+
+/** Archive contents parsed back into rows */
+export interface ArchiveBundle {
+  manifest: ArchiveManifest;
+  sourceSessionId: string;
+  session: Record<string, any>;
+  interactions: any[];
+  screenshots: any[];
+  psychologyProfile: Record<string, any> | null;
+  contextEnhancement: Record<string, any> | null;
+  trainingData: Record<string, any> | null;
+  /** Screenshot images by archive path (format 2.0 and later) */
+  images: Map<string, Buffer>;
+}
+
+export interface RestoreOptions {
+  /** Restore under this id; interaction and screenshot ids are rewritten to match */
+  sessionId?: string;
+  /** Replace the data of a session that already exists under the target id */
+  replace?: boolean;
+}
+
+export interface RestoreResult {
+  archiveId: string;
+  sourceSessionId: string;
+  sessionId: string;
+  manifestVersion: string;
+  replaced: boolean;
+  counts: {
+    interactions: number;
+    screenshots: number;
+    psychologyProfile: number;
+    contextEnhancement: number;
+    trainingData: number;
+    /** Screenshot images written back to the object store */
+    images: number;
+  };
+}
+
+export interface ArchiveRestoreService {
+  verify(archiveId: string): Promise<ArchiveVerification>;
+  restore(archiveId: string, options?: RestoreOptions): Promise<RestoreResult>;
+  /** Restore a zip produced by another deployment and keep it as a local archive */
+  importArchive(buffer: Buffer, options?: RestoreOptions): Promise<RestoreResult>;
+}
+
+export interface ArchiveRestoreOptions {
+  archiveDir: string;
+  /** Fetch the archive from remote storage when there is no matching local copy */
+  fetchRemote?: (archive: SessionArchive) => Promise<Buffer>;
+  /** Where archived screenshot images are restored to; the configured store by default */
+  objectStore?: ObjectStore;
+}
+
+const RESTORE_TRANSACTION_TIMEOUT_MS = 120000;
+
+// Columns that are recomputed or never copied between sessions
+const SESSION_SKIPPED = ['id', 'updatedAt', 'enhancedInteractions', 'interactionCount', 'version'];
+const SESSION_NULLABLE_JSON = ['trainingMetrics', 'modelPerformance', 'contextualInsights'];
+const SCREENSHOT_NULLABLE_JSON = ['visionAnalysis', 'userPsychology'];
+const TRAINING_DATA_NULLABLE_JSON = ['trainingMetrics', 'validationResults'];
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function parseJson<T>(value: Buffer | undefined, filename: string): T | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value.toString('utf8'));
+  } catch {
+    throw new InvalidArchiveError(`Invalid archive: ${filename} is not valid JSON`);
+  }
+}
+
+/**
+ * Accepts the manifest column (stored as an object or a JSON string) or the
+ * embedded manifest.json; null when there are no checksums to verify against
+ */
+export function parseManifest(value: unknown): ArchiveManifest | null {
+  let manifest = value;
+  if (typeof manifest === 'string') {
+    try {
+      manifest = JSON.parse(manifest);
+    } catch {
+      return null;
+    }
+  }
+  if (!manifest || typeof manifest !== 'object') return null;
+
+  const checksums = (manifest as ArchiveManifest).checksums;
+  return checksums && Object.keys(checksums).length > 0 ? manifest as ArchiveManifest : null;
+}
+
+export function verifyArchiveEntries(entries: Map<string, Buffer>, manifest: ArchiveManifest): ArchiveVerification {
+  const result: ArchiveVerification = { valid: false, verified: [], missing: [], mismatched: [] };
+
+  for (const [filename, checksum] of Object.entries(manifest.checksums || {})) {
+    const entry = entries.get(filename);
+    if (!entry) {
+      result.missing.push(filename);
+    } else if (sha256(entry) !== checksum) {
+      result.mismatched.push(filename);
+    } else {
+      result.verified.push(filename);
+    }
+  }
+
+  result.valid = result.verified.length > 0 && result.missing.length === 0 && result.mismatched.length === 0;
+  return result;
+}
+
+export function readArchiveBundle(entries: Map<string, Buffer>, manifest: ArchiveManifest): ArchiveBundle {
+  const metadata = parseJson<any>(entries.get('metadata.json'), 'metadata.json');
+  const session = metadata?.session;
+  if (!session?.id) {
+    throw new InvalidArchiveError('Invalid archive: metadata.json has no session');
+  }
+
+  const jsonl = entries.get('training-data.jsonl');
+  const trainingData = jsonl
+    ? { ...(metadata.trainingData || {}), jsonlData: jsonl.toString('utf8'), fileSize: metadata.trainingData?.fileSize ?? jsonl.length }
+    : null;
+
+  return {
+    manifest,
+    sourceSessionId: session.id,
+    session,
+    interactions: parseJson<any[]>(entries.get('interactions.json'), 'interactions.json') || [],
+    screenshots: parseJson<any[]>(entries.get('screenshots.json'), 'screenshots.json') || [],
+    psychologyProfile: parseJson<Record<string, any>>(entries.get('psychology-profile.json'), 'psychology-profile.json') || null,
+    contextEnhancement: parseJson<Record<string, any>>(entries.get('context-enhancement.json'), 'context-enhancement.json') || null,
+    trainingData,
+    images: new Map(Array.from(entries).filter(([name]) => name.startsWith('screenshots/')))
+  };
+}
+
+/**
+ * Copy the columns the current schema knows about, so archives from a
+ * deployment on another schema version still restore
+ */
+function columns(
+  row: Record<string, any>,
+  fields: Record<string, string>,
+  skipped: string[],
+  nullableJson: string[] = []
+): Record<string, any> {
+  const data: Record<string, any> = {};
+  for (const field of Object.values(fields)) {
+    if (skipped.includes(field) || row[field] === undefined) continue;
+    data[field] = row[field] === null && nullableJson.includes(field) ? Prisma.DbNull : row[field];
+  }
+  return data;
+}
+
+/**
+ * Rebuilds sessions from SessionArchive bundles. The archive checksum and every
+ * per-file checksum in the manifest are verified before anything is written,
+ * and the session is restored in one transaction.
+ */
+export class ArchiveRestoreServiceImpl implements ArchiveRestoreService {
+  private logger: Logger;
+  private fetchRemote: (archive: SessionArchive) => Promise<Buffer>;
+
+  constructor(private prisma: PrismaClient, private options: ArchiveRestoreOptions) {
+    this.logger = new Logger('ArchiveRestore');
+    this.fetchRemote = options.fetchRemote || (archive => this.downloadFromS3(archive));
+  }
+
+  async verify(archiveId: string): Promise<ArchiveVerification> {
+    const archive = await this.findArchive(archiveId);
+    const buffer = await this.loadArchive(archive);
+    const entries = await readArchiveEntries(buffer);
+    return verifyArchiveEntries(entries, this.manifestFor(archive, entries));
+  }
+
+  async restore(archiveId: string, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const archive = await this.findArchive(archiveId);
+    if (archive.status !== 'COMPLETED') {
+      throw new InvalidArchiveError(`Archive ${archiveId} is not ready for restore (status ${archive.status})`);
+    }
+
+    const entries = await readArchiveEntries(await this.loadArchive(archive));
+    const manifest = this.manifestFor(archive, entries);
+    this.assertVerified(archiveId, entries, manifest);
+
+    const bundle = readArchiveBundle(entries, manifest);
+    const result = await this.rehydrate(bundle, options.sessionId || archive.sessionId, options.replace);
+
+    this.logger.info('Archive restored', { archiveId, ...result });
+    return { archiveId, ...result };
+  }
+
+  async importArchive(buffer: Buffer, options: RestoreOptions = {}): Promise<RestoreResult> {
+    const format = detectArchiveFormat(buffer);
+    const entries = await readArchiveEntries(buffer);
+    const manifest = parseManifest(parseJson(entries.get(ARCHIVE_MANIFEST_FILENAME), ARCHIVE_MANIFEST_FILENAME));
+    if (!manifest) {
+      throw new InvalidArchiveError(`Invalid archive: ${ARCHIVE_MANIFEST_FILENAME} is missing, so it cannot be verified`);
+    }
+    this.assertVerified('import', entries, manifest);
+
+    const bundle = readArchiveBundle(entries, manifest);
+    // The id names the local archive file and the session row, so an uploaded one must not be trusted as is
+    const sessionId = options.sessionId || bundle.sourceSessionId;
+    if (!isUuid(sessionId)) {
+      throw new InvalidArchiveError(options.sessionId
+        ? `Session id ${sessionId} is not a UUID`
+        : 'Invalid archive: metadata.json session id is not a UUID; pass a sessionId to import it under');
+    }
+    const result = await this.rehydrate(bundle, sessionId, options.replace);
+
+    // Keep the bundle so the imported session can be restored again from here
+    await fs.mkdir(this.options.archiveDir, { recursive: true });
+    await fs.writeFile(path.join(this.options.archiveDir, archiveFileName(result.sessionId, format)), buffer);
+    const record = await this.prisma.sessionArchive.create({
+      data: {
+        sessionId: result.sessionId,
+        version: manifest.version,
+        format,
+        s3Bucket: '',
+        s3Key: '',
+        fileSize: BigInt(buffer.length),
+        checksum: sha256(buffer),
+        manifest: manifest as unknown as Prisma.InputJsonValue,
+        compressionRatio: manifest.compression?.ratio ?? null,
+        status: 'COMPLETED'
+      }
+    });
+
+    this.logger.info('Archive imported', { archiveId: record.id, ...result });
+    return { archiveId: record.id, ...result };
+  }
+
+  private async findArchive(archiveId: string): Promise<SessionArchive> {
+    const archive = await this.prisma.sessionArchive.findUnique({ where: { id: archiveId } });
+    if (!archive) {
+      throw new ArchiveNotFoundError(`Archive ${archiveId} not found`);
+    }
+    return archive;
+  }
+
+  /**
+   * The local copy is only the latest archive of its session, so it is used
+   * when it matches the record's checksum; otherwise the remote copy is tried
+   */
+  private async loadArchive(archive: SessionArchive): Promise<Buffer> {
+    const matches = (buffer: Buffer) => !archive.checksum || sha256(buffer) === archive.checksum;
+    let mismatched = false;
+
+    try {
+      const local = await fs.readFile(path.join(this.options.archiveDir, archiveFileName(archive.sessionId, archive.format)));
+      if (matches(local)) return local;
+      mismatched = true;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+
+    if (archive.s3Key) {
+      const remote = await this.fetchRemote(archive);
+      if (matches(remote)) return remote;
+      mismatched = true;
+    }
+
+    if (mismatched) throw new ArchiveChecksumError(`Archive ${archive.id} checksum mismatch`);
+    throw new ArchiveNotFoundError(`Archive ${archive.id} file not found`);
+  }
+
+  private async downloadFromS3(archive: SessionArchive): Promise<Buffer> {
+    const downloadPath = path.join(os.tmpdir(), `restore-${archive.id}.${archive.format}`);
+    try {
+      await new S3StorageService(this.prisma).downloadArchive(archive.sessionId, downloadPath);
+      return await fs.readFile(downloadPath);
+    } finally {
+      await fs.rm(downloadPath, { force: true });
+    }
+  }
+
+  /** Placeholder records created by the archive route carry an empty manifest */
+  private manifestFor(archive: SessionArchive, entries: Map<string, Buffer>): ArchiveManifest {
+    const manifest = parseManifest(archive.manifest)
+      || parseManifest(parseJson(entries.get(ARCHIVE_MANIFEST_FILENAME), ARCHIVE_MANIFEST_FILENAME));
+    if (!manifest) {
+      throw new ArchiveChecksumError(`Archive ${archive.id} has no manifest checksums to verify against`);
+    }
+    return manifest;
+  }
+
+  private assertVerified(label: string, entries: Map<string, Buffer>, manifest: ArchiveManifest): void {
+    const verification = verifyArchiveEntries(entries, manifest);
+    if (!verification.valid) {
+      const problems = [
+        ...verification.missing.map(filename => `${filename} missing`),
+        ...verification.mismatched.map(filename => `${filename} checksum mismatch`)
+      ];
+      throw new ArchiveChecksumError(`Archive ${label} failed checksum verification: ${problems.join(', ') || 'no files to verify'}`);
+    }
+  }
+
+  /**
+   * Write archived images back to the object store and point the screenshot
+   * rows at them. Copies under a new id get their own keys, so retention on
+   * one session never deletes the other's images; inline screenshots get
+   * their data URL back.
+   */
+  private async restoreImages(bundle: ArchiveBundle, sessionId: string): Promise<{ screenshots: any[]; images: number }> {
+    if (bundle.images.size === 0) {
+      return { screenshots: bundle.screenshots, images: 0 };
+    }
+
+    const store = this.options.objectStore || getObjectStore();
+    const mimeTypes = new Map((bundle.manifest.files || []).map(file => [file.filename, file.mimeType]));
+    const sourcePrefix = `/${bundle.sourceSessionId}/`;
+    const restored = new Map<string, string>();
+
+    const restore = async (file: string | undefined, key: string | null | undefined): Promise<string | null | undefined> => {
+      const data = file ? bundle.images.get(file) : undefined;
+      if (!key || !data) return key;
+
+      const target = sessionId === bundle.sourceSessionId
+        ? key
+        : key.includes(sourcePrefix) ? key.replace(sourcePrefix, `/${sessionId}/`) : `restored/${sessionId}/${key}`;
+      if (!restored.has(target)) {
+        if (!(await store.exists(target))) {
+          await store.put(target, data, { contentType: mimeTypes.get(file!) });
+        }
+        restored.set(target, file!);
+      }
+      return target;
+    };
+
+    const screenshots = [];
+    for (const screenshot of bundle.screenshots) {
+      const image = screenshot.imageFile ? bundle.images.get(screenshot.imageFile) : undefined;
+      const inline = !screenshot.s3Key && !screenshot.dataUrl && image;
+
+      screenshots.push({
+        ...screenshot,
+        s3Key: await restore(screenshot.imageFile, screenshot.s3Key),
+        thumbnailKey: await restore(screenshot.thumbnailFile, screenshot.thumbnailKey),
+        dataUrl: inline
+          ? `data:${mimeTypes.get(screenshot.imageFile) || 'image/png'};base64,${image.toString('base64')}`
+          : screenshot.dataUrl
+      });
+    }
+
+    return { screenshots, images: restored.size };
+  }
+
+  private async rehydrate(
+    bundle: ArchiveBundle,
+    sessionId: string,
+    replace = false
+  ): Promise<Omit<RestoreResult, 'archiveId'>> {
+    const renamed = sessionId !== bundle.sourceSessionId;
+    const existing = await this.prisma.unifiedSession.findUnique({ where: { id: sessionId }, select: { id: true } });
+    if (existing && !replace) {
+      throw new ArchiveConflictError(`Session ${sessionId} already exists; restore under a new id or replace it`);
+    }
+
+    // Same id scheme migrateSession uses, so renamed copies never collide with the source rows
+    const interactions = bundle.interactions.map((item, index) => {
+      const sequence = index + 1;
+      const id = renamed || !item?.id ? `${sessionId}:${sequence}` : String(item.id);
+      const payload = { ...item, id, ...(item?.sessionId ? { sessionId } : {}) };
+      return {
+        id,
+        sessionId,
+        sequence,
+        clientSequence: Number.isInteger(item?.sequence) ? item.sequence : null,
+        type: String(item?.type || 'unknown'),
+        timestamp: toTimestamp(item?.timestamp),
+        payload: payload as Prisma.InputJsonValue
+      };
+    });
+
+    const screenshotIds = new Map<string, string>(
+      bundle.screenshots.map(screenshot => [screenshot.id, renamed ? crypto.randomUUID() : screenshot.id])
+    );
+
+    // Object store writes cannot join the transaction; they are idempotent, so a retry is safe
+    const { screenshots, images } = await this.restoreImages(bundle, sessionId);
+
+    const session = {
+      ...columns(bundle.session, Prisma.UnifiedSessionScalarFieldEnum, SESSION_SKIPPED, SESSION_NULLABLE_JSON),
+      enhancedInteractions: [],
+      interactionCount: interactions.length
+    };
+
+    await this.prisma.$transaction(async (tx) => {
+      if (existing) {
+        await tx.enhancedInteraction.deleteMany({ where: { sessionId } });
+        await tx.screenshot.deleteMany({ where: { sessionId } });
+        await tx.psychologyProfile.deleteMany({ where: { sessionId } });
+        await tx.contextEnhancement.deleteMany({ where: { sessionId } });
+        await tx.trainingData.deleteMany({ where: { sessionId } });
+        await tx.unifiedSession.update({ where: { id: sessionId }, data: session as Prisma.UnifiedSessionUncheckedUpdateInput });
+      } else {
+        await tx.unifiedSession.create({ data: { ...session, id: sessionId } as Prisma.UnifiedSessionUncheckedCreateInput });
+      }
+
+      if (interactions.length > 0) {
+        await tx.enhancedInteraction.createMany({ data: interactions });
+      }
+
+      if (screenshots.length > 0) {
+        // Legacy interaction rows are not archived; keep links only where they still exist
+        const linked = screenshots.map(screenshot => screenshot.interactionId).filter(Boolean);
+        const legacy = renamed || linked.length === 0
+          ? []
+          : await tx.interaction.findMany({ where: { id: { in: linked } }, select: { id: true } });
+        const legacyIds = new Set(legacy.map(row => row.id));
+
+        await tx.screenshot.createMany({
+          data: screenshots.map(screenshot => ({
+            ...columns(screenshot, Prisma.ScreenshotScalarFieldEnum, ['id', 'sessionId'], SCREENSHOT_NULLABLE_JSON),
+            id: screenshotIds.get(screenshot.id)!,
+            sessionId,
+            interactionId: legacyIds.has(screenshot.interactionId) ? screenshot.interactionId : null,
+            duplicateOfId: screenshot.duplicateOfId ? screenshotIds.get(screenshot.duplicateOfId) ?? null : null,
+            timestamp: BigInt(screenshot.timestamp)
+          }) as Prisma.ScreenshotCreateManyInput)
+        });
+      }
+
+      if (bundle.psychologyProfile) {
+        await tx.psychologyProfile.create({
+          data: { ...columns(bundle.psychologyProfile, Prisma.PsychologyProfileScalarFieldEnum, ['id', 'sessionId']), sessionId } as Prisma.PsychologyProfileUncheckedCreateInput
+        });
+      }
+
+      if (bundle.contextEnhancement) {
+        await tx.contextEnhancement.create({
+          data: { ...columns(bundle.contextEnhancement, Prisma.ContextEnhancementScalarFieldEnum, ['id', 'sessionId']), sessionId } as Prisma.ContextEnhancementUncheckedCreateInput
+        });
+      }
+
+      if (bundle.trainingData) {
+        await tx.trainingData.create({
+          data: {
+            ...columns(bundle.trainingData, Prisma.TrainingDataScalarFieldEnum, ['id', 'sessionId'], TRAINING_DATA_NULLABLE_JSON),
+            sessionId
+          } as Prisma.TrainingDataUncheckedCreateInput
+        });
+      }
+    }, { timeout: RESTORE_TRANSACTION_TIMEOUT_MS });
+
+    return {
+      sourceSessionId: bundle.sourceSessionId,
+      sessionId,
+      manifestVersion: bundle.manifest.version,
+      replaced: !!existing,
+      counts: {
+        interactions: interactions.length,
+        screenshots: bundle.screenshots.length,
+        psychologyProfile: bundle.psychologyProfile ? 1 : 0,
+        contextEnhancement: bundle.contextEnhancement ? 1 : 0,
+        trainingData: bundle.trainingData ? 1 : 0,
+        images
+      }
+    };
+  }
+}
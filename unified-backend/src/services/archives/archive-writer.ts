@@ -0,0 +1,147 @@
+import archiver, { Archiver, EntryData } from 'archiver';
+import * as crypto from 'crypto';
+import { createWriteStream } from 'fs';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  ARCHIVE_MANIFEST_FILENAME,
+  ARCHIVE_MANIFEST_VERSION,
+  ArchiveFormat,
+  ArchiveManifest,
+  FileManifestEntry
+} from './archive-manifest';
+import { readZipDirectory } from './zip-reader';
+import { DEFAULT_ZSTD_LEVEL, createZstdCompressStream } from './zstd';
+
+export interface ArchiveEntry {
+  name: string;
+  mimeType: string;
+  /** Called when the entry is written, so large files are not all held at once; null skips it */
+  load(): Promise<Buffer | null>;
+}
+
+export interface WriteArchiveOptions {
+  sessionId: string;
+  format: ArchiveFormat;
+  /** Deflate level for zip, zstd level for tar.zst */
+  level?: number;
+}
+
+export interface WrittenArchive {
+  manifest: ArchiveManifest;
+  /** SHA-256 of the archive file */
+  checksum: string;
+  fileSize: number;
+}
+
+const ZIP_LEVEL = 9;
+
+/** Resolves once archiver has consumed the entry, which keeps one entry in memory at a time */
+function appendEntry(archive: Archiver, data: Buffer, name: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      archive.off('entry', onEntry);
+      archive.off('error', onError);
+    };
+    const onEntry = (entry: EntryData) => {
+      if (entry.name !== name) return;
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    archive.on('entry', onEntry);
+    archive.on('error', onError);
+    archive.append(data, { name });
+  });
+}
+
+/**
+ * Stream entries into a zip or tar.zst file, hashing the output as it is
+ * written. The manifest inside the archive lists every entry's checksum;
+ * the returned copy also has the real compressed sizes, read back from the
+ * zip's central directory.
+ */
+export async function writeArchive(entries: ArchiveEntry[], archivePath: string, options: WriteArchiveOptions): Promise<WrittenArchive> {
+  const { format, sessionId } = options;
+  const archive = archiver(format === 'zip' ? 'zip' : 'tar', format === 'zip' ? { zlib: { level: options.level ?? ZIP_LEVEL } } : {});
+
+  const hash = crypto.createHash('sha256');
+  let fileSize = 0;
+  const measure = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      fileSize += chunk.length;
+      callback(null, chunk);
+    }
+  });
+
+  const output = createWriteStream(archivePath);
+  const written = format === 'tar.zst'
+    ? pipeline(archive, createZstdCompressStream(options.level ?? DEFAULT_ZSTD_LEVEL), measure, output)
+    : pipeline(archive, measure, output);
+  // Failures surface through the races below or the final await
+  written.catch(() => undefined);
+
+  const files: FileManifestEntry[] = [];
+  try {
+    for (const entry of entries) {
+      const data = await entry.load();
+      if (!data) continue;
+
+      files.push({
+        filename: entry.name,
+        originalSize: data.length,
+        compressedSize: null,
+        checksum: crypto.createHash('sha256').update(data).digest('hex'),
+        mimeType: entry.mimeType,
+        lastModified: new Date()
+      });
+      await Promise.race([appendEntry(archive, data, entry.name), written]);
+    }
+
+    const totalSize = files.reduce((sum, file) => sum + file.originalSize, 0);
+    const manifest: ArchiveManifest = {
+      version: ARCHIVE_MANIFEST_VERSION,
+      format,
+      sessionId,
+      createdAt: new Date(),
+      files,
+      checksums: Object.fromEntries(files.map(file => [file.filename, file.checksum])),
+      compression: {
+        algorithm: format === 'zip' ? 'zip' : 'zstd',
+        level: options.level ?? (format === 'zip' ? ZIP_LEVEL : DEFAULT_ZSTD_LEVEL),
+        ratio: 0,
+        method: format === 'zip' ? 'deflate' : 'zstd'
+      },
+      totalSize,
+      // Size of the archive itself is only known once it is closed
+      compressedSize: 0
+    };
+
+    await Promise.race([appendEntry(archive, Buffer.from(JSON.stringify(manifest, null, 2)), ARCHIVE_MANIFEST_FILENAME), written]);
+    await archive.finalize();
+    await written;
+
+    const compressedSizes = format === 'zip'
+      ? new Map((await readZipDirectory(archivePath)).map(entry => [entry.name, entry.compressedSize]))
+      : new Map<string, number>();
+
+    return {
+      manifest: {
+        ...manifest,
+        files: files.map(file => ({ ...file, compressedSize: compressedSizes.get(file.filename) ?? null })),
+        compression: { ...manifest.compression, ratio: totalSize > 0 ? fileSize / totalSize : 0 },
+        compressedSize: fileSize
+      },
+      checksum: hash.digest('hex'),
+      fileSize
+    };
+  } catch (error) {
+    archive.abort();
+    throw error;
+  }
+}
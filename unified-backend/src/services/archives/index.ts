@@ -0,0 +1,15 @@
+/**
+ * Session Archives - Main Export
+ *
+ * Writes SessionArchive bundles as zip or tar.zst with their screenshot
+ * images, and restores them, either from this deployment's archives or
+ * imported from another one, after verifying the manifest checksums.
+ */
+
+export * from './archive-errors';
+export * from './archive-manifest';
+export * from './archive-reader';
+export * from './archive-restore';
+export * from './archive-writer';
+export * from './zip-reader';
+export * from './zstd';
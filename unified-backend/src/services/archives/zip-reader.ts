@@ -0,0 +1,131 @@
+import * as fs from 'fs/promises';
+import { inflateRawSync } from 'zlib';
+import { InvalidArchiveError } from './archive-errors';
+import { MAX_EXTRACTED_ARCHIVE_BYTES } from './archive-manifest';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipDirectoryEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new InvalidArchiveError('Invalid archive: not a zip file');
+}
+
+function readCentralDirectory(directory: Buffer, entryCount: number): ZipDirectoryEntry[] {
+  const entries: ZipDirectoryEntry[] = [];
+  let offset = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new InvalidArchiveError('Invalid archive: corrupt central directory');
+    }
+
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const entry: ZipDirectoryEntry = {
+      name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localOffset: directory.readUInt32LE(offset + 42)
+    };
+    offset += 46 + nameLength + directory.readUInt16LE(offset + 30) + directory.readUInt16LE(offset + 32);
+
+    if (entry.name.endsWith('/')) continue;
+    if (entry.compressedSize === 0xffffffff || entry.localOffset === 0xffffffff) {
+      throw new InvalidArchiveError(`Invalid archive: ${entry.name} needs ZIP64, which is not supported`);
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+function tooLarge(maxTotalBytes: number): Error {
+  return new InvalidArchiveError(`Invalid archive: contents exceed the ${maxTotalBytes} byte limit`);
+}
+
+/**
+ * Read every file of a zip held in memory. Sizes come from the central
+ * directory because archiver streams entries with data descriptors, which
+ * leave them zero in the local headers. Only stored and deflated entries
+ * without ZIP64 are supported, which covers the archives StorageManager writes.
+ * Everything extracted together may not exceed maxTotalBytes.
+ */
+export function readZipEntries(buffer: Buffer, maxTotalBytes: number = MAX_EXTRACTED_ARCHIVE_BYTES): Map<string, Buffer> {
+  if (buffer.length < 22) {
+    throw new InvalidArchiveError('Invalid archive: not a zip file');
+  }
+
+  const end = findEndOfCentralDirectory(buffer);
+  const directoryOffset = buffer.readUInt32LE(end + 16);
+  const directory = buffer.subarray(directoryOffset, directoryOffset + buffer.readUInt32LE(end + 12));
+
+  const entries = new Map<string, Buffer>();
+  let remaining = maxTotalBytes;
+  for (const { name, method, compressedSize, localOffset } of readCentralDirectory(directory, buffer.readUInt16LE(end + 10))) {
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new InvalidArchiveError(`Invalid archive: corrupt header for ${name}`);
+    }
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === METHOD_STORED) {
+      content = Buffer.from(data);
+    } else if (method === METHOD_DEFLATE) {
+      // Inflating stops at the budget left, so the output is never built past it
+      try {
+        content = inflateRawSync(data, { maxOutputLength: remaining + 1 });
+      } catch (error) {
+        if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge(maxTotalBytes);
+        throw error;
+      }
+    } else {
+      throw new InvalidArchiveError(`Invalid archive: ${name} uses unsupported compression method ${method}`);
+    }
+
+    remaining -= content.length;
+    if (remaining < 0) throw tooLarge(maxTotalBytes);
+    entries.set(name, content);
+  }
+
+  return entries;
+}
+
+/**
+ * List a zip on disk from its central directory without reading the
+ * entries, e.g. to record the compressed size of each one
+ */
+export async function readZipDirectory(filePath: string): Promise<ZipDirectoryEntry[]> {
+  const file = await fs.open(filePath, 'r');
+  try {
+    const { size } = await file.stat();
+    const tailLength = Math.min(size, 22 + 0xffff);
+    const tail = Buffer.alloc(tailLength);
+    await file.read(tail, 0, tailLength, size - tailLength);
+
+    const end = findEndOfCentralDirectory(tail);
+    const directory = Buffer.alloc(tail.readUInt32LE(end + 12));
+    await file.read(directory, 0, directory.length, tail.readUInt32LE(end + 16));
+
+    return readCentralDirectory(directory, tail.readUInt16LE(end + 10));
+  } finally {
+    await file.close();
+  }
+}
@@ -0,0 +1,64 @@
+import { spawn } from 'child_process';
+import { Duplex, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as zlib from 'zlib';
+import { InvalidArchiveError } from './archive-errors';
+import { MAX_EXTRACTED_ARCHIVE_BYTES } from './archive-manifest';
+
+/** Archives are written once and kept, so favour ratio over speed */
+export const DEFAULT_ZSTD_LEVEL = 19;
+
+// zlib gained zstd in Node 22.15; the zstd CLI covers older runtimes
+const nativeZstd = zlib as unknown as {
+  createZstdCompress?: (options?: { params?: Record<number, number> }) => Duplex;
+  createZstdDecompress?: () => Duplex;
+  constants: Record<string, number>;
+};
+
+function spawnZstd(args: string[]): Duplex {
+  const child = spawn('zstd', ['-q', '-c', ...args], { stdio: ['pipe', 'pipe', 'pipe'] });
+  const stream = Duplex.from({ writable: child.stdin, readable: child.stdout });
+
+  let stderr = '';
+  child.stderr.on('data', chunk => { stderr += chunk; });
+  child.on('error', (error: Error & { code?: string }) => {
+    stream.destroy(error.code === 'ENOENT'
+      ? new Error('zstd is not installed; install it or run on Node 22.15+ to use tar.zst archives')
+      : error);
+  });
+  child.on('close', code => {
+    if (code !== 0) stream.destroy(new Error(`zstd exited with code ${code}: ${stderr.trim()}`));
+  });
+
+  return stream;
+}
+
+export function createZstdCompressStream(level: number = DEFAULT_ZSTD_LEVEL): Duplex {
+  if (nativeZstd.createZstdCompress) {
+    return nativeZstd.createZstdCompress({ params: { [nativeZstd.constants.ZSTD_c_compressionLevel]: level } });
+  }
+  return spawnZstd([`-${level}`]);
+}
+
+export function createZstdDecompressStream(): Duplex {
+  if (nativeZstd.createZstdDecompress) {
+    return nativeZstd.createZstdDecompress();
+  }
+  return spawnZstd(['-d']);
+}
+
+/** Decompress in memory, giving up as soon as the output passes maxBytes */
+export async function zstdDecompress(data: Buffer, maxBytes: number = MAX_EXTRACTED_ARCHIVE_BYTES): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  await pipeline(Readable.from([data]), createZstdDecompressStream(), async (source: AsyncIterable<Buffer>) => {
+    for await (const chunk of source) {
+      total += chunk.length;
+      if (total > maxBytes) {
+        throw new InvalidArchiveError(`Invalid archive: contents exceed the ${maxBytes} byte limit`);
+      }
+      chunks.push(chunk);
+    }
+  });
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,149 @@
+/**
+ * API Key Manager Tests
+ *
+ * Tests key issuance, prefix lookup, expiry and revocation, rotation grace
+ * periods and last-used tracking
+ */
+
+import { ApiKeyInactiveError, ApiKeyManagerImpl, ApiKeyNotFoundError, parseApiKey } from '../api-key-manager';
+
+// In-memory stand-in for the api_keys table
+const rows = new Map<string, any>();
+let nextId = 1;
+
+const mockPrisma = {
+  apiKey: {
+    create: jest.fn(({ data }: any) => {
+      const row = {
+        id: `00000000-0000-4000-8000-00000000000${nextId++}`,
+        createdBy: null,
+        expiresAt: null,
+        revokedAt: null,
+        revokedReason: null,
+        rotatedFromId: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...data
+      };
+      rows.set(row.id, row);
+      return Promise.resolve(row);
+    }),
+    findUnique: jest.fn(({ where }: any) => Promise.resolve(
+      where.id ? rows.get(where.id) ?? null : Array.from(rows.values()).find(row => row.prefix === where.prefix) ?? null
+    )),
+    findMany: jest.fn(() => Promise.resolve(Array.from(rows.values()))),
+    update: jest.fn(({ where, data }: any) => {
+      const row = { ...rows.get(where.id), ...data };
+      rows.set(where.id, row);
+      return Promise.resolve(row);
+    })
+  }
+} as any;
+
+describe('ApiKeyManager', () => {
+  let manager: ApiKeyManagerImpl;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    rows.clear();
+    nextId = 1;
+    manager = new ApiKeyManagerImpl(mockPrisma);
+  });
+
+  describe('🔑 Issuing', () => {
+    it('should return the plaintext key once and store only its hash', async () => {
+      const { apiKey, key } = await manager.createKey({ name: 'ci worker', role: 'worker' });
+
+      expect(parseApiKey(apiKey)).toEqual({ prefix: key.prefix });
+      const stored = mockPrisma.apiKey.create.mock.calls[0][0].data;
+      expect(stored.role).toBe('WORKER');
+      expect(stored.keyHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(JSON.stringify(stored)).not.toContain(apiKey.split('_')[2]);
+      expect(key).toEqual(expect.objectContaining({ role: 'worker', active: true }));
+    });
+
+    it('should reject unknown roles', async () => {
+      await expect(manager.createKey({ name: 'x', role: 'superuser' as any })).rejects.toThrow('Invalid API key role');
+    });
+  });
+
+  describe('✅ Validation', () => {
+    it('should resolve a valid key to its role and record usage', async () => {
+      const { apiKey, key } = await manager.createKey({ name: 'analyst', role: 'analyst' });
+
+      const principal = await manager.validateKey(apiKey, { ipAddress: '10.0.0.7' });
+
+      expect(principal).toEqual({ keyId: key.id, name: 'analyst', role: 'analyst' });
+      expect(mockPrisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: key.id },
+        data: { lastUsedAt: expect.any(Date), lastUsedIp: '10.0.0.7' }
+      });
+    });
+
+    it('should not write last-used on every request', async () => {
+      const { apiKey } = await manager.createKey({ name: 'busy', role: 'extension' });
+
+      await manager.validateKey(apiKey);
+      await manager.validateKey(apiKey);
+
+      expect(mockPrisma.apiKey.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject malformed, tampered, expired and revoked keys', async () => {
+      const { apiKey, key } = await manager.createKey({ name: 'k', role: 'worker' });
+      const tampered = apiKey.slice(0, -1) + (apiKey.endsWith('0') ? '1' : '0');
+
+      expect(await manager.validateKey('not-a-key')).toBeNull();
+      expect(await manager.validateKey(tampered)).toBeNull();
+
+      rows.set(key.id, { ...rows.get(key.id), expiresAt: new Date(Date.now() - 1000) });
+      expect(await manager.validateKey(apiKey)).toBeNull();
+
+      rows.set(key.id, { ...rows.get(key.id), expiresAt: null, revokedAt: new Date() });
+      expect(await manager.validateKey(apiKey)).toBeNull();
+    });
+  });
+
+  describe('🔄 Rotation and revocation', () => {
+    it('should keep the old key alive during the grace period', async () => {
+      const original = await manager.createKey({ name: 'extension fleet', role: 'extension' });
+
+      const rotated = await manager.rotateKey(original.key.id, { gracePeriodMs: 60 * 60 * 1000 });
+
+      expect(rotated.key).toEqual(expect.objectContaining({ role: 'extension', name: 'extension fleet', rotatedFromId: original.key.id }));
+      expect(await manager.validateKey(original.apiKey)).not.toBeNull();
+      expect(await manager.validateKey(rotated.apiKey)).not.toBeNull();
+      expect(rotated.previous.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not let the grace period outlive the old key', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 1000);
+      const original = await manager.createKey({ name: 'short lived', role: 'worker', expiresAt });
+
+      const rotated = await manager.rotateKey(original.key.id, { gracePeriodMs: 24 * 60 * 60 * 1000 });
+
+      expect(rotated.previous.expiresAt).toEqual(expiresAt);
+    });
+
+    it('should revoke the old key immediately without a grace period', async () => {
+      const original = await manager.createKey({ name: 'leaked', role: 'admin' });
+
+      const rotated = await manager.rotateKey(original.key.id);
+
+      expect(rotated.previous).toEqual(expect.objectContaining({ active: false, revokedReason: 'rotated' }));
+      expect(await manager.validateKey(original.apiKey)).toBeNull();
+    });
+
+    it('should refuse to revoke twice or touch unknown keys', async () => {
+      const { key } = await manager.createKey({ name: 'k', role: 'worker' });
+
+      await manager.revokeKey(key.id, 'employee left');
+
+      await expect(manager.revokeKey(key.id)).rejects.toThrow('already revoked');
+      await expect(manager.rotateKey(key.id)).rejects.toBeInstanceOf(ApiKeyInactiveError);
+      await expect(manager.revokeKey('missing')).rejects.toBeInstanceOf(ApiKeyNotFoundError);
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { ApiKey as ApiKeyRecord, ApiKeyRole as ApiKeyRoleEnum, PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { Logger } from '../../utils/logger';
+
+export const API_KEY_ROLES = ['extension', 'worker', 'analyst', 'admin'] as const;
+
+export type ApiKeyRole = typeof API_KEY_ROLES[number];
+
+/** Roles allowed per WebSocket client type declared on `authenticate` */
+export const WEBSOCKET_CLIENT_ROLES: Record<'extension' | 'frontend' | 'admin', ApiKeyRole[]> = {
+  extension: ['extension', 'worker', 'admin'],
+  frontend: ['analyst', 'admin'],
+  admin: ['admin']
+};
+
+const KEY_PREFIX = 'cs';
+const PREFIX_BYTES = 6;
+const SECRET_BYTES = 32;
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  role: ApiKeyRole;
+  createdBy: string | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  rotatedFromId: string | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  createdAt: Date;
+  active: boolean;
+}
+
+export interface IssuedApiKey {
+  /** Plaintext key; only ever returned at creation or rotation */
+  apiKey: string;
+  key: ApiKeySummary;
+}
+
+export interface ApiKeyPrincipal {
+  keyId: string;
+  name: string;
+  role: ApiKeyRole;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  role: ApiKeyRole;
+  createdBy?: string;
+  expiresAt?: Date;
+}
+
+/** No key with this id */
+export class ApiKeyNotFoundError extends Error {
+  constructor(keyId: string) {
+    super(`API key ${keyId} not found`);
+    this.name = 'ApiKeyNotFoundError';
+  }
+}
+
+/** The key is already revoked or expired */
+export class ApiKeyInactiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyInactiveError';
+  }
+}
+
+export interface ApiKeyManager {
+  createKey(input: CreateApiKeyInput): Promise<IssuedApiKey>;
+  validateKey(apiKey: string, context?: { ipAddress?: string }): Promise<ApiKeyPrincipal | null>;
+  listKeys(filters?: { role?: ApiKeyRole; includeInactive?: boolean }): Promise<ApiKeySummary[]>;
+  getKey(keyId: string): Promise<ApiKeySummary | null>;
+  rotateKey(keyId: string, options?: { gracePeriodMs?: number; rotatedBy?: string }): Promise<IssuedApiKey & { previous: ApiKeySummary }>;
+  revokeKey(keyId: string, reason?: string): Promise<ApiKeySummary>;
+}
+
+export function isApiKeyRole(value: unknown): value is ApiKeyRole {
+  return typeof value === 'string' && (API_KEY_ROLES as readonly string[]).includes(value);
+}
+
+function toRoleEnum(role: ApiKeyRole): ApiKeyRoleEnum {
+  return role.toUpperCase() as ApiKeyRoleEnum;
+}
+
+function fromRoleEnum(role: ApiKeyRoleEnum): ApiKeyRole {
+  return role.toLowerCase() as ApiKeyRole;
+}
+
+function hashKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+/** Keys look like `cs_<prefix>_<secret>`; the prefix is stored in clear for lookup */
+export function parseApiKey(apiKey: string): { prefix: string } | null {
+  const match = /^(cs_[0-9a-f]{12})_[0-9a-f]{64}$/.exec(apiKey || '');
+  return match ? { prefix: match[1] } : null;
+}
+
+function isActive(record: Pick<ApiKeyRecord, 'revokedAt' | 'expiresAt'>, now: Date = new Date()): boolean {
+  return !record.revokedAt && (!record.expiresAt || record.expiresAt > now);
+}
+
+function toSummary(record: ApiKeyRecord): ApiKeySummary {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    role: fromRoleEnum(record.role),
+    createdBy: record.createdBy,
+    expiresAt: record.expiresAt,
+    revokedAt: record.revokedAt,
+    revokedReason: record.revokedReason,
+    rotatedFromId: record.rotatedFromId,
+    lastUsedAt: record.lastUsedAt,
+    lastUsedIp: record.lastUsedIp,
+    createdAt: record.createdAt,
+    active: isActive(record)
+  };
+}
+
+/**
+ * Issues and checks API keys stored in the api_keys table. Only a sha256
+ * of each key is kept; lookups go through the public prefix so validation
+ * is a single indexed read plus a constant-time hash comparison.
+ */
+export class ApiKeyManagerImpl implements ApiKeyManager {
+  private logger: Logger;
+
+  constructor(private prisma: PrismaClient) {
+    this.logger = new Logger('ApiKeyManager');
+  }
+
+  async createKey(input: CreateApiKeyInput, rotatedFromId?: string): Promise<IssuedApiKey> {
+    if (!isApiKeyRole(input.role)) {
+      throw new Error(`Invalid API key role: ${input.role}`);
+    }
+
+    const prefix = `${KEY_PREFIX}_${crypto.randomBytes(PREFIX_BYTES).toString('hex')}`;
+    const apiKey = `${prefix}_${crypto.randomBytes(SECRET_BYTES).toString('hex')}`;
+
+    const record = await this.prisma.apiKey.create({
+      data: {
+        name: input.name,
+        prefix,
+        keyHash: hashKey(apiKey),
+        role: toRoleEnum(input.role),
+        createdBy: input.createdBy,
+        expiresAt: input.expiresAt,
+        rotatedFromId
+      }
+    });
+
+    this.logger.info('API key created', {
+      keyId: record.id,
+      prefix,
+      role: input.role,
+      createdBy: input.createdBy
+    });
+
+    return { apiKey, key: toSummary(record) };
+  }
+
+  async validateKey(apiKey: string, context: { ipAddress?: string } = {}): Promise<ApiKeyPrincipal | null> {
+    const parsed = parseApiKey(apiKey);
+    if (!parsed) return null;
+
+    const record = await this.prisma.apiKey.findUnique({ where: { prefix: parsed.prefix } });
+    if (!record) return null;
+
+    const expected = Buffer.from(record.keyHash, 'hex');
+    const actual = Buffer.from(hashKey(apiKey), 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const now = new Date();
+    if (!isActive(record, now)) {
+      this.logger.warn('Inactive API key used', {
+        keyId: record.id,
+        prefix: record.prefix,
+        revoked: !!record.revokedAt,
+        expiresAt: record.expiresAt
+      });
+      return null;
+    }
+
+    // Throttle last-used writes so a busy key doesn't cost an UPDATE per request
+    if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+      this.prisma.apiKey.update({
+        where: { id: record.id },
+        data: { lastUsedAt: now, lastUsedIp: context.ipAddress ?? record.lastUsedIp }
+      }).catch(error => {
+        this.logger.warn('Failed to record API key usage', { keyId: record.id, error: error instanceof Error ? error.message : String(error) });
+      });
+    }
+
+    return { keyId: record.id, name: record.name, role: fromRoleEnum(record.role) };
+  }
+
+  async listKeys(filters: { role?: ApiKeyRole; includeInactive?: boolean } = {}): Promise<ApiKeySummary[]> {
+    const now = new Date();
+    const records = await this.prisma.apiKey.findMany({
+      where: {
+        ...(filters.role ? { role: toRoleEnum(filters.role) } : {}),
+        ...(filters.includeInactive ? {} : {
+          revokedAt: null,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+        })
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return records.map(toSummary);
+  }
+
+  async getKey(keyId: string): Promise<ApiKeySummary | null> {
+    const record = await this.prisma.apiKey.findUnique({ where: { id: keyId } });
+    return record ? toSummary(record) : null;
+  }
+
+  async rotateKey(
+    keyId: string,
+    options: { gracePeriodMs?: number; rotatedBy?: string } = {}
+  ): Promise<IssuedApiKey & { previous: ApiKeySummary }> {
+    const existing = await this.prisma.apiKey.findUnique({ where: { id: keyId } });
+    if (!existing) {
+      throw new ApiKeyNotFoundError(keyId);
+    }
+    if (!isActive(existing)) {
+      throw new ApiKeyInactiveError(`API key ${keyId} is already inactive`);
+    }
+
+    const issued = await this.createKey({
+      name: existing.name,
+      role: fromRoleEnum(existing.role),
+      createdBy: options.rotatedBy ?? existing.createdBy ?? undefined,
+      expiresAt: existing.expiresAt ?? undefined
+    }, existing.id);
+
+    // The old key keeps working for the grace period so clients can switch over, but never past its own expiry
+    const gracePeriodMs = Math.max(0, options.gracePeriodMs ?? 0);
+    const graceEndsAt = new Date(Date.now() + gracePeriodMs);
+    const previous = await this.prisma.apiKey.update({
+      where: { id: existing.id },
+      data: gracePeriodMs > 0
+        ? { expiresAt: existing.expiresAt && existing.expiresAt < graceEndsAt ? existing.expiresAt : graceEndsAt }
+        : { revokedAt: new Date(), revokedReason: 'rotated' }
+    });
+
+    this.logger.info('API key rotated', {
+      previousKeyId: existing.id,
+      keyId: issued.key.id,
+      gracePeriodMs
+    });
+
+    return { ...issued, previous: toSummary(previous) };
+  }
+
+  async revokeKey(keyId: string, reason?: string): Promise<ApiKeySummary> {
+    const existing = await this.prisma.apiKey.findUnique({ where: { id: keyId } });
+    if (!existing) {
+      throw new ApiKeyNotFoundError(keyId);
+    }
+    if (existing.revokedAt) {
+      throw new ApiKeyInactiveError(`API key ${keyId} is already revoked`);
+    }
+
+    const record = await this.prisma.apiKey.update({
+      where: { id: keyId },
+      data: { revokedAt: new Date(), revokedReason: reason || null }
+    });
+
+    this.logger.info('API key revoked', { keyId, reason });
+
+    return toSummary(record);
+  }
+}
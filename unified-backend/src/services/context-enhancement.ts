@@ -1,5 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import { Logger } from "../utils/logger";
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from "./interactions/enhanced-interaction-store";
 import { OpenAIIntegrationService } from "./openai-integration-clean";
 
 interface PageStructureAnalysis {
@@ -95,6 +96,7 @@ export class ContextEnhancementService {
   private prisma: PrismaClient;
   private logger: Logger;
   private openaiService: OpenAIIntegrationService;
+  private interactionStore: EnhancedInteractionStore;
 
   // Pattern recognition databases
   private pageTypePatterns: Map<string, RegExp[]> = new Map();
@@ -105,6 +107,7 @@ export class ContextEnhancementService {
     this.prisma = prisma;
     this.logger = new Logger("ContextEnhancement");
     this.openaiService = openaiService;
+    this.interactionStore = new EnhancedInteractionStoreImpl(prisma);
 
     this.initializePatternRecognition();
   }
@@ -210,10 +213,8 @@ export class ContextEnhancementService {
         throw new Error(`Session ${sessionId} not found`);
       }
 
-      // Convert enhanced interactions from JSON to interaction-like objects
-      const enhancedInteractions = Array.isArray(session.enhancedInteractions) 
-        ? session.enhancedInteractions as any[]
-        : [];
+      // Convert enhanced interactions (rows plus any legacy JSON) to interaction-like objects
+      const { enhancedInteractions } = await this.interactionStore.hydrate(session);
       
       // Use only enhanced JSON interactions (legacy interactions table removed)
       const allInteractions = enhancedInteractions
@@ -12,20 +12,25 @@ import { ContextEnhancementService } from './context-enhancement';
 import { PsychologyInsightsService } from './psychology-insights';
 import { NavigationStrategyService } from './navigation-strategy';
 import { ParallelProcessingManager } from './parallel-processing-manager';
-
-interface ProcessingJob {
-  id: string;
-  sessionId: string;
-  type: 'interaction' | 'screenshot' | 'session_complete' | 'quality_check' | 'training_data';
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  data: any;
-  priority: number;
-  createdAt: Date;
-  startedAt?: Date;
-  completedAt?: Date;
-  error?: string;
-  retryCount: number;
-  maxRetries: number;
+import { JobQueueServiceImpl, JobQueueStats, NewProcessingJob, ProcessingJob, ProcessingJobType } from './queue/job-queue';
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from './interactions/enhanced-interaction-store';
+import { TaskCompletionVerifier, TaskCompletionVerifierImpl } from './tasks/completion-verifier';
+import { getConfig } from '../utils/env-validator';
+import { isValidSequence } from './websocket/session-sequencer';
+
+// Model evaluation jobs share the queue table but are run by the ModelEvaluator
+const PIPELINE_JOB_TYPES: ProcessingJobType[] = ['interaction', 'screenshot', 'session_complete', 'quality_check', 'training_data'];
+
+/**
+ * Row id for an interaction: keyed on the protocol v2 seq when the client sent
+ * one, so a replay after a lost ack lands on the row already stored instead of
+ * appending a copy. The content script's own sequence restarts on every page
+ * load, so it cannot identify an interaction within a session.
+ */
+export function interactionRowId(interactionData: { sessionId?: string; seq?: unknown }): string {
+  return interactionData.sessionId && isValidSequence(interactionData.seq)
+    ? `${interactionData.sessionId}:seq:${interactionData.seq}`
+    : uuidv4();
 }
 
 interface ProcessingResult {
@@ -56,15 +61,19 @@ export class DataProcessingPipeline extends EventEmitter {
   private contextEnhancement: ContextEnhancementService;
   private psychologyInsights: PsychologyInsightsService;
   private navigationStrategy: NavigationStrategyService;
+  private interactionStore: EnhancedInteractionStore;
+  private taskVerifier: TaskCompletionVerifier;
   private parallelProcessing: ParallelProcessingManager | null = null;
   private logger: Logger;
   
-  private jobQueue: ProcessingJob[] = [];
+  private jobQueue: JobQueueServiceImpl;
+  private pendingJobCount = 0;
   private activeJobs: Map<string, ProcessingJob> = new Map();
   private processingUpdateCallbacks: Map<string, (update: any) => void> = new Map();
   
   private isProcessing = false;
-  private maxConcurrentJobs = 5;
+  private maxConcurrentJobs: number;
+  private jobTimeoutMs: number;
   private processingInterval: NodeJS.Timeout | null = null;
 
   // Database connection pool throttling - align with actual pool size
@@ -99,9 +108,16 @@ export class DataProcessingPipeline extends EventEmitter {
     this.contextEnhancement = new ContextEnhancementService(prisma, openaiService);
     this.psychologyInsights = new PsychologyInsightsService(prisma, openaiService);
     this.navigationStrategy = new NavigationStrategyService(prisma, openaiService);
+    this.interactionStore = new EnhancedInteractionStoreImpl(prisma);
+    this.taskVerifier = new TaskCompletionVerifierImpl(prisma, this.interactionStore);
     // Disable parallel processing for now to avoid worker thread issues in deployment
     // this.parallelProcessing = new ParallelProcessingManager(prisma);
     this.logger = new Logger('DataProcessingPipeline');
+
+    const config = getConfig();
+    this.maxConcurrentJobs = config.maxConcurrentJobs;
+    this.jobTimeoutMs = config.jobTimeoutMs;
+    this.jobQueue = new JobQueueServiceImpl(prisma, { visibilityTimeoutMs: this.jobTimeoutMs });
     
     this.startProcessing();
     // this.setupParallelProcessingEvents();
@@ -317,7 +333,8 @@ export class DataProcessingPipeline extends EventEmitter {
         sessionId: validation.sessionId,
         dataType,
         isValid: validation.isValid,
-        errorCount: validation.errors.length
+        errorCount: validation.errors.length,
+        redactedFields: validation.redaction.redactedFields
       });
 
       // Emit validation event for real-time monitoring
@@ -349,166 +366,120 @@ export class DataProcessingPipeline extends EventEmitter {
     return hasEnhancedFields;
   }
 
-  // Enhanced interaction processing with optimistic locking
+  // Enhanced interaction processing: one appended row per interaction
   private async processEnhancedInteraction(interactionData: any, jobId: string): Promise<ProcessingResult> {
     console.log(`\n📥 [DATA PIPELINE] Processing enhanced interaction for session ${interactionData.sessionId}`);
     console.log(`🔧 [DATA PIPELINE] Job ID: ${jobId}, Interaction type: ${interactionData.type}`);
-    
-    const maxRetries = 3;
-    let retryCount = 0;
-    
-    while (retryCount < maxRetries) {
-      try {
-        // Get current session with version for optimistic locking
-        const currentSession = await this.executeWithThrottling(() =>
-          this.prisma.unifiedSession.findUnique({
-            where: { id: interactionData.sessionId },
-            select: { 
-              version: true, 
-              enhancedInteractions: true, 
-              interactionCount: true 
-            }
-          })
-        );
 
-        if (!currentSession) {
-          throw new Error(`Session ${interactionData.sessionId} not found`);
-        }
+    // Create enhanced interaction object (stored as the row payload)
+    const enhancedInteraction = {
+      id: interactionRowId(interactionData),
+      type: interactionData.type,
+      timestamp: interactionData.timestamp,
+      sessionTime: interactionData.sessionTime,
+      sequence: interactionData.sequence,
+      
+      // 6-group enhanced data structure
+      selectors: {
+        primary: interactionData.primarySelector,
+        alternatives: interactionData.selectorAlternatives,
+        xpath: interactionData.xpath,
+        cssPath: interactionData.cssPath,
+        reliability: interactionData.selectorReliability
+      },
+      visual: {
+        coordinates: interactionData.coordinates,
+        boundingBox: interactionData.boundingBox,
+        isInViewport: interactionData.isInViewport,
+        percentVisible: interactionData.percentVisible,
+        viewport: interactionData.viewport
+      },
+      element: {
+        tag: interactionData.elementTag,
+        text: interactionData.elementText,
+        value: interactionData.elementValue,
+        attributes: interactionData.elementAttributes,
+        parentElements: interactionData.parentElements,
+        siblingElements: interactionData.siblingElements,
+        nearbyElements: interactionData.nearbyElements
+      },
+      context: {
+        url: interactionData.url,
+        pageTitle: interactionData.pageTitle,
+        pageContext: interactionData.pageContext,
+        pageStructure: interactionData.pageStructure
+      },
+      state: {
+        before: interactionData.stateBefore,
+        after: interactionData.stateAfter,
+        changes: interactionData.stateChanges
+      },
+      interaction: {
+        modifiers: interactionData.modifiers,
+        confidence: interactionData.confidence || 0.5,
+        userIntent: interactionData.userIntent,
+        userReasoning: interactionData.userReasoning,
+        visualCues: interactionData.visualCues,
+        screenshotId: interactionData.screenshotId
+      },
+      
+      // Enhanced training data fields
+      metadata: interactionData.metadata,
+      elementDetails: interactionData.elementDetails,
+      contextData: interactionData.contextData,
+      overlays: interactionData.overlays,
+      action: interactionData.action
+    };
 
-        // Create enhanced interaction object for JSON storage
-        const enhancedInteraction = {
-          id: uuidv4(),
-          type: interactionData.type,
-          timestamp: interactionData.timestamp,
-          sessionTime: interactionData.sessionTime,
-          sequence: interactionData.sequence,
-          
-          // 6-group enhanced data structure
-          selectors: {
-            primary: interactionData.primarySelector,
-            alternatives: interactionData.selectorAlternatives,
-            xpath: interactionData.xpath,
-            cssPath: interactionData.cssPath,
-            reliability: interactionData.selectorReliability
-          },
-          visual: {
-            coordinates: interactionData.coordinates,
-            boundingBox: interactionData.boundingBox,
-            isInViewport: interactionData.isInViewport,
-            percentVisible: interactionData.percentVisible,
-            viewport: interactionData.viewport
-          },
-          element: {
-            tag: interactionData.elementTag,
-            text: interactionData.elementText,
-            value: interactionData.elementValue,
-            attributes: interactionData.elementAttributes,
-            parentElements: interactionData.parentElements,
-            siblingElements: interactionData.siblingElements,
-            nearbyElements: interactionData.nearbyElements
-          },
-          context: {
-            url: interactionData.url,
-            pageTitle: interactionData.pageTitle,
-            pageContext: interactionData.pageContext,
-            pageStructure: interactionData.pageStructure
-          },
-          state: {
-            before: interactionData.stateBefore,
-            after: interactionData.stateAfter,
-            changes: interactionData.stateChanges
-          },
-          interaction: {
-            modifiers: interactionData.modifiers,
-            confidence: interactionData.confidence || 0.5,
-            userIntent: interactionData.userIntent,
-            userReasoning: interactionData.userReasoning,
-            visualCues: interactionData.visualCues,
-            screenshotId: interactionData.screenshotId
-          },
-          
-          // Enhanced training data fields
-          metadata: interactionData.metadata,
-          elementDetails: interactionData.elementDetails,
-          contextData: interactionData.contextData,
-          overlays: interactionData.overlays,
-          action: interactionData.action
-        };
-
-        // Prepare updated interactions array
-        const currentInteractions = Array.isArray(currentSession.enhancedInteractions) 
-          ? currentSession.enhancedInteractions as any[] 
-          : [];
-        const updatedInteractions = [...currentInteractions, enhancedInteraction];
-
-        // Update session with optimistic locking
-        const updatedSession = await this.executeWithThrottling(() =>
-          this.prisma.unifiedSession.update({
-            where: { 
-              id: interactionData.sessionId,
-              version: currentSession.version // Optimistic lock
-            },
-            data: {
-              enhancedInteractions: updatedInteractions,
-              lastInteractionTime: new Date(interactionData.timestamp),
-              interactionCount: currentSession.interactionCount + 1,
-              version: currentSession.version + 1
-            }
-          })
-        );
+    try {
+      const stored = await this.executeWithThrottling(() =>
+        this.interactionStore.append(interactionData.sessionId, enhancedInteraction, {
+          clientSequence: interactionData.sequence,
+          timestamp: interactionData.timestamp
+        })
+      );
 
-        this.logger.info('✅ Enhanced interaction stored in unified session', {
-          jobId,
-          interactionId: enhancedInteraction.id,
-          sessionId: interactionData.sessionId,
-          interactionCount: updatedSession.interactionCount,
-          version: updatedSession.version
-        });
+      this.logger.info(stored.duplicate ? '✅ Enhanced interaction already stored' : '✅ Enhanced interaction appended', {
+        jobId,
+        interactionId: enhancedInteraction.id,
+        sessionId: interactionData.sessionId,
+        sequence: stored.sequence,
+        interactionCount: stored.interactionCount
+      });
 
-        // Calculate quality score for the enhanced interaction
-        const qualityScore = await this.qualityControl.scoreInteraction({
-          ...enhancedInteraction,
-          id: enhancedInteraction.id,
-          sessionId: interactionData.sessionId
-        });
+      // Calculate quality score for the enhanced interaction
+      const qualityScore = await this.qualityControl.scoreInteraction({
+        ...enhancedInteraction,
+        id: enhancedInteraction.id,
+        sessionId: interactionData.sessionId
+      });
 
-        return {
-          id: enhancedInteraction.id,
-          status: 'success',
-          qualityScore,
-          data: {
-            stored: 'unified_session',
-            interactionCount: updatedSession.interactionCount,
-            version: updatedSession.version
-          }
-        };
-
-      } catch (error: any) {
-        // Check for optimistic locking conflict (Prisma error P2025)
-        if (error.code === 'P2025' && retryCount < maxRetries - 1) {
-          retryCount++;
-          this.logger.warn('Optimistic lock conflict, retrying', {
-            jobId,
-            sessionId: interactionData.sessionId,
-            retryCount,
-            maxRetries
-          });
-          // Small delay before retry
-          await new Promise(resolve => setTimeout(resolve, 50 * retryCount));
-          continue;
+      this.emit('qualityScored', {
+        sessionId: interactionData.sessionId,
+        interactionId: enhancedInteraction.id,
+        scope: 'interaction',
+        score: qualityScore
+      });
+
+      return {
+        id: enhancedInteraction.id,
+        status: 'success',
+        qualityScore,
+        data: {
+          stored: 'enhanced_interactions',
+          sequence: stored.sequence,
+          interactionCount: stored.interactionCount
         }
+      };
 
-        this.logger.error('Failed to process enhanced interaction', {
-          jobId,
-          sessionId: interactionData.sessionId,
-          retryCount,
-          error: error.message
-        });
-        throw error;
-      }
+    } catch (error: any) {
+      this.logger.error('Failed to process enhanced interaction', {
+        jobId,
+        sessionId: interactionData.sessionId,
+        error: error.message
+      });
+      throw error;
     }
-
-    throw new Error(`Failed to process enhanced interaction after ${maxRetries} retries`);
   }
 
   async processInteraction(interactionData: any): Promise<ProcessingResult> {
@@ -625,7 +596,8 @@ export class DataProcessingPipeline extends EventEmitter {
       const compressionResult = await this.storageManager.compressAndUploadScreenshot(
         screenshotData.dataUrl,
         screenshotData.sessionId,
-        safeEventType
+        safeEventType,
+        { burstId: screenshotData.burstId }
       );
 
       // Create screenshot record with proper defaults for missing fields
@@ -636,27 +608,23 @@ export class DataProcessingPipeline extends EventEmitter {
             interactionId: screenshotData.interactionId || null,
             timestamp: BigInt(screenshotData.timestamp),
             eventType: safeEventType,
-            s3Key: compressionResult.s3Key,
-            compressed: true,
-            format: compressionResult.format,
-            fileSize: compressionResult.fileSize || 0,
+            ...this.storageManager.toScreenshotFields(compressionResult),
             viewport: JSON.stringify(screenshotData.viewport || {}),
-            quality: compressionResult.quality || 0
+            trigger: screenshotData.trigger,
+            burstId: screenshotData.burstId,
+            burstIndex: screenshotData.burstIndex,
+            burstTotal: screenshotData.burstTotal
           }
         }), 'screenshot_create'
       );
 
       // Queue for vision analysis if high quality
-      if (compressionResult.quality > 0.8) {
-        this.queueJob({
-          id: uuidv4(),
+      if (screenshot.quality > 0.8) {
+        await this.queueJob({
           sessionId: screenshotData.sessionId,
           type: 'screenshot',
-          status: 'pending',
           data: { screenshotId: screenshot.id },
           priority: 3,
-          createdAt: new Date(),
-          retryCount: 0,
           maxRetries: 2
         });
       }
@@ -672,8 +640,10 @@ export class DataProcessingPipeline extends EventEmitter {
         status: 'success',
         data: {
           s3Key: compressionResult.s3Key,
+          thumbnailKey: compressionResult.thumbnailKey,
           compressed: true,
-          fileSize: compressionResult.fileSize
+          fileSize: compressionResult.compressedSize,
+          duplicateOf: compressionResult.duplicateOfId
         }
       };
 
@@ -736,15 +706,12 @@ export class DataProcessingPipeline extends EventEmitter {
         priority: 1
       });
       
-      this.queueJob({
+      await this.queueJob({
         id: processingId,
         sessionId,
         type: 'session_complete',
-        status: 'pending',
-        data: completionData,
+        data: completionData ?? {},
         priority: 1, // High priority
-        createdAt: new Date(),
-        retryCount: 0,
         maxRetries: 3
       });
       
@@ -778,39 +745,84 @@ export class DataProcessingPipeline extends EventEmitter {
   }
 
   // Job Queue Management
-  private queueJob(job: ProcessingJob): void {
+  private async queueJob(job: NewProcessingJob): Promise<ProcessingJob> {
     console.log('📥📥📥 PIPELINE DEBUG: queueJob() CALLED 📥📥📥');
     console.log('📍 Location: DataProcessingPipeline.queueJob()');
     console.log('🆔 JobID:', job.id);
     console.log('📊 Job Type:', job.type);
     console.log('🆔 SessionID:', job.sessionId);
     console.log('🎯 Priority:', job.priority);
-    console.log('📊 Current queue size (before adding):', this.jobQueue.length);
     
-    this.jobQueue.push(job);
-    this.jobQueue.sort((a, b) => a.priority - b.priority); // Higher priority first
+    // Persist before acknowledging so the job survives a restart
+    const queuedJob = await this.jobQueue.enqueue(job);
+    this.pendingJobCount++;
     
-    console.log('✅ PIPELINE DEBUG: Job added to queue successfully');
-    console.log('📊 New queue size:', this.jobQueue.length);
-    console.log('📋 Queue contents after sorting:', this.jobQueue.map(j => `${j.id}(${j.type}, P${j.priority})`).join(', '));
+    console.log('✅ PIPELINE DEBUG: Job persisted to queue successfully');
     
     this.logger.debug('Job queued', {
-      jobId: job.id,
-      type: job.type,
-      priority: job.priority,
-      queueSize: this.jobQueue.length,
-      sessionId: job.sessionId
+      jobId: queuedJob.id,
+      type: queuedJob.type,
+      priority: queuedJob.priority,
+      queueSize: this.pendingJobCount,
+      sessionId: queuedJob.sessionId
     });
+
+    return queuedJob;
   }
 
   private startProcessing(): void {
     if (this.processingInterval) return;
+
+    // Pick up work left behind by a previous process before polling
+    this.resumeInterruptedWork().catch(error => {
+      this.logger.error('Failed to resume interrupted work', error);
+    });
     
     this.processingInterval = setInterval(() => {
       this.processJobs();
     }, 60000); // Check every minute
 
-    this.logger.info('Processing pipeline started');
+    this.logger.info('Processing pipeline started', { workerId: this.jobQueue.workerId });
+  }
+
+  /**
+   * Recover from a crash or deploy: return expired leases to the queue and
+   * re-enqueue sessions that were mid-pipeline without any open job.
+   */
+  private async resumeInterruptedWork(): Promise<void> {
+    await this.jobQueue.reclaimExpiredLeases();
+
+    const stuckSessions = await this.prisma.unifiedSession.findMany({
+      where: {
+        status: 'PROCESSING',
+        processingStatus: {
+          in: ['VALIDATING', 'ENHANCING', 'PSYCHOLOGY_ANALYSIS', 'TRAINING', 'ARCHIVING']
+        }
+      },
+      select: { id: true, processingStatus: true }
+    });
+
+    let resumed = 0;
+    for (const session of stuckSessions) {
+      if (await this.jobQueue.hasOpenJob(session.id, 'session_complete')) {
+        continue;
+      }
+
+      await this.queueJob({
+        sessionId: session.id,
+        type: 'session_complete',
+        data: { resumed: true, previousStatus: session.processingStatus },
+        priority: 1,
+        maxRetries: getConfig().maxRetries
+      });
+      resumed++;
+    }
+
+    if (resumed > 0) {
+      this.logger.warn('Re-queued interrupted sessions', { resumed, candidates: stuckSessions.length });
+    }
+
+    await this.processJobs();
   }
 
   private startBatchProcessing(): void {
@@ -825,38 +837,33 @@ export class DataProcessingPipeline extends EventEmitter {
   }
 
   private async processJobs(): Promise<void> {
-    // Only log if there are jobs to process or active jobs
-    if (this.jobQueue.length > 0 || this.activeJobs.size > 0) {
-      console.log('🔄 PIPELINE DEBUG: processJobs() called, checking queue...');
-      console.log('📊 Queue length:', this.jobQueue.length);
-      console.log('📊 Active jobs:', this.activeJobs.size);
-      console.log('📊 Max concurrent:', this.maxConcurrentJobs);
+    try {
+      await this.jobQueue.reclaimExpiredLeases();
+
+      if (this.activeJobs.size >= this.maxConcurrentJobs) {
+        console.log('⏸️  PIPELINE DEBUG: Max concurrent jobs reached, skipping processing');
+        return;
+      }
       
-      // Enhanced logging for queue contents
-      if (this.jobQueue.length > 0) {
-        console.log('📋 PIPELINE DEBUG: Jobs in queue:');
-        this.jobQueue.forEach((job, index) => {
-          console.log(`   ${index + 1}. Job ${job.id} - Type: ${job.type}, SessionID: ${job.sessionId}, Priority: ${job.priority}, Status: ${job.status}`);
-        });
+      const availableSlots = this.maxConcurrentJobs - this.activeJobs.size;
+      const jobsToProcess = await this.jobQueue.lease(availableSlots, PIPELINE_JOB_TYPES);
+
+      const stats = await this.jobQueue.getStats();
+      this.pendingJobCount = stats.pending;
+
+      if (jobsToProcess.length > 0 || this.activeJobs.size > 0) {
+        console.log('🔄 PIPELINE DEBUG: processJobs() leased', jobsToProcess.length, 'jobs');
+        console.log('📊 Pending in queue:', this.pendingJobCount);
+        console.log('📊 Active jobs:', this.activeJobs.size);
+        console.log('📊 Max concurrent:', this.maxConcurrentJobs);
       }
-    }
-    
-    if (this.activeJobs.size >= this.maxConcurrentJobs) {
-      if (this.jobQueue.length > 0) {
-        console.log('⏸️  PIPELINE DEBUG: Max concurrent jobs reached, skipping processing');
+      
+      for (const job of jobsToProcess) {
+        console.log('🚀 PIPELINE DEBUG: Starting job:', job.id, 'type:', job.type, 'sessionId:', job.sessionId);
+        this.processJob(job);
       }
-      return;
-    }
-    
-    const availableSlots = this.maxConcurrentJobs - this.activeJobs.size;
-    const jobsToProcess = this.jobQueue.splice(0, availableSlots);
-    
-    console.log('🎯 PIPELINE DEBUG: Processing', jobsToProcess.length, 'jobs');
-    console.log('🎯 PIPELINE DEBUG: Available slots:', availableSlots);
-    
-    for (const job of jobsToProcess) {
-      console.log('🚀 PIPELINE DEBUG: Starting job:', job.id, 'type:', job.type, 'sessionId:', job.sessionId);
-      this.processJob(job);
+    } catch (error) {
+      this.logger.error('Failed to poll job queue', error);
     }
   }
 
@@ -869,9 +876,20 @@ export class DataProcessingPipeline extends EventEmitter {
     console.log('⏰ Job created:', job.createdAt);
     
     job.status = 'processing';
-    job.startedAt = new Date();
+    job.startedAt = job.startedAt || new Date();
     this.activeJobs.set(job.id, job);
 
+    // Heartbeat at half the visibility timeout so long-running jobs keep their lease
+    const leaseHeartbeat = setInterval(() => {
+      this.jobQueue.extendLease(job.id).then(held => {
+        if (!held) {
+          this.logger.warn('Lost lease on running job', { jobId: job.id, type: job.type });
+        }
+      }).catch(error => {
+        this.logger.error('Failed to extend job lease', error, { jobId: job.id });
+      });
+    }, Math.max(1000, Math.floor(this.jobTimeoutMs / 2)));
+
     this.logger.info('Processing job started', {
       jobId: job.id,
       type: job.type,
@@ -895,14 +913,14 @@ export class DataProcessingPipeline extends EventEmitter {
         case 'session_complete':
           console.log('🎯 PIPELINE DEBUG: Processing session_complete job - THIS IS THE BIG ONE!');
           console.log('🆔 About to call processCompleteSession for:', job.sessionId);
-          result = await this.processCompleteSession(job.sessionId, job.data);
+          result = await this.processCompleteSession(job.sessionId!, job.data);
           console.log('✅ PIPELINE DEBUG: processCompleteSession completed');
           break;
         case 'quality_check':
-          result = await this.performQualityCheck(job.sessionId);
+          result = await this.performQualityCheck(job.sessionId!);
           break;
         case 'training_data':
-          result = await this.generateTrainingData(job.sessionId);
+          result = await this.generateTrainingData(job.sessionId!);
           break;
         default:
           throw new Error(`Unknown job type: ${job.type}`);
@@ -910,6 +928,7 @@ export class DataProcessingPipeline extends EventEmitter {
 
       job.status = 'completed';
       job.completedAt = new Date();
+      await this.jobQueue.complete(job.id);
 
       this.logger.info('Processing job completed', {
         jobId: job.id,
@@ -920,6 +939,8 @@ export class DataProcessingPipeline extends EventEmitter {
 
       // Notify subscribers
       this.notifyProcessingUpdate(job.id, {
+        sessionId: job.sessionId,
+        type: job.type,
         status: 'completed',
         result
       });
@@ -929,6 +950,15 @@ export class DataProcessingPipeline extends EventEmitter {
       job.error = getErrorMessage(error);
       job.retryCount++;
 
+      let willRetry = false;
+      let retryAt: Date | undefined;
+      try {
+        ({ willRetry, retryAt } = await this.jobQueue.fail(job.id, job.error));
+      } catch (queueError) {
+        // Leave the lease to expire; reclaimExpiredLeases() will pick the job up again
+        this.logger.error('Failed to record job failure', queueError, { jobId: job.id });
+      }
+
       console.error('❌❌❌ PIPELINE DEBUG: PROCESSING JOB FAILED ❌❌❌');
       console.error('📍 Location: DataProcessingPipeline.processJob() - catch block');
       console.error('🆔 JobID:', job.id);
@@ -950,29 +980,28 @@ export class DataProcessingPipeline extends EventEmitter {
         errorStack: error instanceof Error ? error.stack : 'No stack trace'
       });
 
-      // Retry if under limit
-      if (job.retryCount < job.maxRetries) {
+      // Retry scheduling (exponential backoff) is persisted by the job queue
+      if (willRetry) {
         console.log('🔄 PIPELINE DEBUG: Job will be retried', {
           jobId: job.id,
           retryCount: job.retryCount,
           maxRetries: job.maxRetries,
-          backoffDelay: Math.pow(2, job.retryCount) * 1000
+          retryAt
         });
         
         job.status = 'pending';
-        setTimeout(() => {
-          console.log('🔄 PIPELINE DEBUG: Re-queuing failed job for retry:', job.id);
-          this.queueJob(job);
-        }, Math.pow(2, job.retryCount) * 1000); // Exponential backoff
       } else {
         console.error('💀 PIPELINE DEBUG: Job exceeded max retries, marking as permanently failed:', job.id);
         this.notifyProcessingUpdate(job.id, {
+          sessionId: job.sessionId,
+          type: job.type,
           status: 'failed',
           error: getErrorMessage(error)
         });
       }
     } finally {
       console.log('🧹 PIPELINE DEBUG: Cleaning up job from active jobs:', job.id);
+      clearInterval(leaseHeartbeat);
       this.activeJobs.delete(job.id);
     }
   }
@@ -1118,6 +1147,9 @@ export class DataProcessingPipeline extends EventEmitter {
     await this.enhanceSessionContext(sessionId);
     console.log('✅ PIPELINE DEBUG: Context enhancement completed');
 
+    // Check assigned tasks against what the session actually recorded
+    await this.verifyAssignedTasks(sessionId);
+
     // Step 3: Psychology Insights Extraction - SKIPPED FOR NOW
     // await this.updateProcessingStatus(sessionId, 'PSYCHOLOGY_ANALYSIS');
     // await this.extractPsychologyInsights(sessionId);
@@ -1154,6 +1186,12 @@ export class DataProcessingPipeline extends EventEmitter {
       })
     );
 
+    this.emit('qualityScored', {
+      sessionId,
+      scope: 'session',
+      score: qualityReport.overallScore
+    });
+
     return {
       qualityReport,
       trainingData,
@@ -1161,6 +1199,18 @@ export class DataProcessingPipeline extends EventEmitter {
     };
   }
 
+  // A verification failure leaves the assignments as the client reported them
+  private async verifyAssignedTasks(sessionId: string): Promise<void> {
+    try {
+      const verifications = await this.taskVerifier.verifySession(sessionId);
+      for (const verification of verifications) {
+        this.emit('taskVerified', { sessionId, ...verification });
+      }
+    } catch (error) {
+      this.logger.error('Task verification failed', error, { sessionId });
+    }
+  }
+
   private async performQualityCheck(sessionId: string): Promise<any> {
     return await this.qualityControl.assessSession(sessionId);
   }
@@ -1171,7 +1221,7 @@ export class DataProcessingPipeline extends EventEmitter {
     console.log('🆔 SessionID:', sessionId);
     console.log('⏰ Starting at:', new Date().toISOString());
     
-    const session = await this.executeWithThrottling(() => 
+    const storedSession = await this.executeWithThrottling(() => 
       this.prisma.unifiedSession.findUnique({
         where: { id: sessionId },
         include: {
@@ -1180,10 +1230,12 @@ export class DataProcessingPipeline extends EventEmitter {
       })
     );
 
-    if (!session) {
+    if (!storedSession) {
       console.error('❌ TRAINING DATA DEBUG: Session not found in database:', sessionId);
       throw new Error('Session not found');
     }
+
+    const session = await this.executeWithThrottling(() => this.interactionStore.hydrate(storedSession));
     
     console.log('✅ TRAINING DATA DEBUG: Session found, details:', {
       sessionId: session.id,
@@ -1289,6 +1341,14 @@ export class DataProcessingPipeline extends EventEmitter {
       trainingQuality: trainingRecord.trainingQuality
     });
 
+    this.emit('trainingDataCreated', {
+      sessionId,
+      trainingDataId: trainingRecord.id,
+      exampleCount: trainingExamples.length,
+      trainingQuality: trainingRecord.trainingQuality,
+      fileSize: trainingRecord.fileSize
+    });
+
     return trainingRecord;
   }
 
@@ -1369,6 +1429,7 @@ export class DataProcessingPipeline extends EventEmitter {
       );
 
       this.logger.info('Processing status updated', { sessionId, status });
+      this.emit('processingStatusChanged', { sessionId, status });
 
     } catch (error) {
       this.logger.error('Failed to update processing status', error, { sessionId, status });
@@ -1394,20 +1455,33 @@ export class DataProcessingPipeline extends EventEmitter {
   getStatus(): any {
     return {
       isProcessing: this.isProcessing,
-      queueSize: this.jobQueue.length,
+      queueSize: this.pendingJobCount,
       activeJobs: this.activeJobs.size,
       maxConcurrentJobs: this.maxConcurrentJobs
     };
   }
 
   getQueueSize(): number {
-    return this.jobQueue.length;
+    // Refreshed from the database on every poll; use getJobQueueStats() for an exact figure
+    return this.pendingJobCount;
   }
 
   getActiveJobs(): number {
     return this.activeJobs.size;
   }
 
+  getDatabaseThrottleStats(): { active: number; queued: number; limit: number } {
+    return {
+      active: this.activeDatabaseOperations,
+      queued: this.databaseQueue.length,
+      limit: this.MAX_CONCURRENT_DB_OPERATIONS
+    };
+  }
+
+  async getJobQueueStats(): Promise<JobQueueStats> {
+    return await this.jobQueue.getStats();
+  }
+
   async getCompletedToday(): Promise<number> {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -1564,7 +1638,7 @@ export class DataProcessingPipeline extends EventEmitter {
         averageProcessingTime: 0,
         systemLoad: { cpu: 0, memory: 0 },
         traditionalQueue: {
-          size: this.jobQueue.length,
+          size: this.pendingJobCount,
           activeJobs: this.activeJobs.size,
           maxConcurrentJobs: this.maxConcurrentJobs
         }
@@ -1576,7 +1650,7 @@ export class DataProcessingPipeline extends EventEmitter {
     return {
       ...stats,
       traditionalQueue: {
-        size: this.jobQueue.length,
+        size: this.pendingJobCount,
         activeJobs: this.activeJobs.size,
         maxConcurrentJobs: this.maxConcurrentJobs
       }
@@ -1589,18 +1663,14 @@ export class DataProcessingPipeline extends EventEmitter {
     
     if (!this.parallelProcessing) {
       this.logger.warn('Parallel processing disabled, falling back to traditional processing');
-      const job: ProcessingJob = {
+      const job = await this.queueJob({
         id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         sessionId,
         type: 'session_complete',
-        status: 'pending',
         data: { sessionId },
         priority: 1,
-        createdAt: new Date(),
-        retryCount: 0,
         maxRetries: 3
-      };
-      this.queueJob(job);
+      });
       return job.id;
     }
     
@@ -1,6 +1,8 @@
 import { PrismaClient } from "@prisma/client";
 import { Logger } from "../utils/logger";
 import { getErrorMessage } from "../utils/type-helpers";
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from "./interactions/enhanced-interaction-store";
+import { PIIRedactionEngine, RedactionReport, createPIIRedactionEngine } from "./privacy/pii-redaction";
 
 interface ValidationRule {
   id: string;
@@ -75,19 +77,24 @@ interface StreamValidationResult {
   score: number;
   errors: ValidationError[];
   warnings: ValidationWarning[];
+  redaction: RedactionReport;
   timestamp: Date;
 }
 
 export class DataValidationService {
   private prisma: PrismaClient;
   private logger: Logger;
+  private interactionStore: EnhancedInteractionStore;
+  private redaction: PIIRedactionEngine;
   private validationRules: Map<string, ValidationRule> = new Map();
   private businessRules: Map<string, ValidationRule> = new Map();
   private performanceMetrics: Map<string, number> = new Map();
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, redaction?: PIIRedactionEngine) {
     this.prisma = prisma;
     this.logger = new Logger("DataValidation");
+    this.interactionStore = new EnhancedInteractionStoreImpl(prisma);
+    this.redaction = redaction ?? createPIIRedactionEngine(prisma);
     
     this.initializeValidationRules();
     this.initializeBusinessRules();
@@ -774,10 +781,8 @@ export class DataValidationService {
         throw new Error(`Session ${sessionId} not found`);
       }
 
-      // Process only enhanced interactions from JSON field (legacy interactions table no longer used)
-      const enhancedInteractions = Array.isArray(session.enhancedInteractions) 
-        ? session.enhancedInteractions as any[]
-        : [];
+      // Process only enhanced interactions (legacy interactions table no longer used)
+      const { enhancedInteractions } = await this.interactionStore.hydrate(session);
       
       const allInteractions = enhancedInteractions
         .map(this.normalizeEnhancedInteraction)
@@ -850,12 +855,15 @@ export class DataValidationService {
     }
   }
 
-  // Stream data validation for real-time processing
+  // Stream data validation for real-time processing. PII in data is replaced
+  // with tokens in place first, so callers only ever persist redacted data;
+  // if the token vault cannot be written this throws rather than let PII through.
   async validateStreamData(data: any, dataType: 'interaction' | 'screenshot' | 'session_metadata'): Promise<StreamValidationResult> {
     const startTime = Date.now();
 
     try {
       const sessionId = data.sessionId || 'unknown';
+      const redaction = await this.redaction.redact(data, { sessionId });
       
       // Get relevant validation rules for data type
       const relevantRules = this.getRelevantRulesForDataType(dataType);
@@ -890,6 +898,7 @@ export class DataValidationService {
         score: Math.round(averageScore),
         errors,
         warnings,
+        redaction,
         timestamp: new Date()
       };
 
@@ -0,0 +1,258 @@
+/**
+ * Field Encryption Tests
+ *
+ * Tests envelope encryption of single values, key rotation, encryption of
+ * the sensitive columns on write and decryption of results, and the
+ * re-encryption job
+ */
+
+import * as crypto from 'crypto';
+import { FieldCipher } from '../field-cipher';
+import { decryptResult, encryptWriteData } from '../field-encryption';
+import { EncryptionKey, KeyRing, keyIdFor, loadKeyRing } from '../key-ring';
+import { FieldReencryptionJob } from '../reencryption-job';
+
+function createKey(): EncryptionKey {
+  const key = crypto.randomBytes(32);
+  return { id: keyIdFor(key), key };
+}
+
+function interaction(value: string) {
+  return {
+    type: 'input',
+    element: { selector: '#email', value },
+    state: { before: { formData: { email: value } } }
+  };
+}
+
+type Row = { id: string } & Record<string, any>;
+
+// Just enough of findMany/update for the job: id > cursor, not-null and NOT startsWith filters
+function createTable(rows: Row[]) {
+  const matches = (row: Row, where: any): boolean => {
+    if (where.id?.gt && !(row.id > where.id.gt)) return false;
+    if (where.dataUrl?.not === null && row.dataUrl === null) return false;
+    if (where.NOT?.dataUrl?.startsWith && row.dataUrl?.startsWith(where.NOT.dataUrl.startsWith)) return false;
+    return true;
+  };
+  return {
+    rows,
+    findMany: jest.fn(async ({ where, take }: any) => rows
+      .filter(row => matches(row, where))
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .slice(0, take)
+      .map(row => ({ ...row }))),
+    update: jest.fn(async ({ where, data }: any) => {
+      const row = rows.find(candidate => candidate.id === where.id)!;
+      Object.assign(row, data);
+      return row;
+    })
+  };
+}
+
+describe('Field Encryption', () => {
+  let oldKey: EncryptionKey;
+  let newKey: EncryptionKey;
+
+  beforeEach(() => {
+    oldKey = createKey();
+    newKey = createKey();
+  });
+
+  describe('🔐 FieldCipher', () => {
+    it('should round trip with the key id stored alongside the ciphertext', () => {
+      const cipher = new FieldCipher(new KeyRing(newKey));
+
+      const encrypted = cipher.encrypt('203.0.113.7');
+
+      expect(encrypted.startsWith(`enc:v1:${newKey.id}:`)).toBe(true);
+      expect(encrypted).not.toContain('203.0.113.7');
+      expect(cipher.encrypt('203.0.113.7')).not.toBe(encrypted);
+      expect(cipher.keyIdOf(encrypted)).toBe(newKey.id);
+      expect(cipher.decrypt(encrypted)).toBe('203.0.113.7');
+      expect(cipher.decrypt('plain value')).toBe('plain value');
+    });
+
+    it('should reject tampered values', () => {
+      const cipher = new FieldCipher(new KeyRing(newKey));
+      const encrypted = cipher.encrypt('Mozilla/5.0');
+      const data = encrypted.slice(encrypted.lastIndexOf(':') + 1);
+      const raw = Buffer.from(data, 'base64url');
+      raw[raw.length - 1] ^= 1;
+
+      expect(() => cipher.decrypt(encrypted.replace(data, raw.toString('base64url')))).toThrow();
+    });
+
+    it('should rewrap only the data key onto the active key after a rotation', () => {
+      const encrypted = new FieldCipher(new KeyRing(oldKey)).encrypt('secret');
+      const rotated = new FieldCipher(new KeyRing(newKey, [oldKey]));
+
+      expect(rotated.decrypt(encrypted)).toBe('secret');
+
+      const rewrapped = rotated.rewrap(encrypted);
+      expect(rotated.keyIdOf(rewrapped)).toBe(newKey.id);
+      expect(rewrapped.split(':').pop()).toBe(encrypted.split(':').pop());
+      expect(new FieldCipher(new KeyRing(newKey)).decrypt(rewrapped)).toBe('secret');
+      expect(rotated.rewrap(rewrapped)).toBe(rewrapped);
+    });
+
+    it('should name the missing key when a value is under an unknown key', () => {
+      const encrypted = new FieldCipher(new KeyRing(oldKey)).encrypt('secret');
+
+      expect(() => new FieldCipher(new KeyRing(newKey)).decrypt(encrypted)).toThrow(
+        `Value is encrypted with unknown key ${oldKey.id}; add it to ENCRYPTION_PREVIOUS_KEYS`
+      );
+    });
+  });
+
+  describe('🔑 Key ring', () => {
+    it('should refuse to run without a key in production only', () => {
+      expect(() => loadKeyRing({ NODE_ENV: 'production' })).toThrow('ENCRYPTION_KEY must be set in production');
+      expect(loadKeyRing({ NODE_ENV: 'development' })).toBeNull();
+      expect(() => loadKeyRing({ ENCRYPTION_KEY: 'too-short' })).toThrow('ENCRYPTION_KEY must be 64 hex characters');
+    });
+
+    it('should load previous keys for decryption', () => {
+      const keyRing = loadKeyRing({
+        ENCRYPTION_KEY: newKey.key.toString('hex'),
+        ENCRYPTION_PREVIOUS_KEYS: ` ${oldKey.key.toString('hex')} ,`
+      })!;
+
+      expect(keyRing.active.id).toBe(newKey.id);
+      expect(keyRing.ids.sort()).toEqual([oldKey.id, newKey.id].sort());
+    });
+  });
+
+  describe('🗄️ Columns', () => {
+    it('should encrypt session columns and input values on write and decrypt them in results', () => {
+      const cipher = new FieldCipher(new KeyRing(newKey));
+      const data = {
+        id: 'session-1',
+        ipAddress: '203.0.113.7',
+        userAgent: { set: 'Mozilla/5.0' },
+        status: 'ACTIVE',
+        enhancedInteractions: [interaction('jane.doe@example.com')]
+      };
+
+      const encrypted = encryptWriteData('UnifiedSession', data, cipher) as any;
+
+      expect(cipher.isEncrypted(encrypted.ipAddress)).toBe(true);
+      expect(cipher.isEncrypted(encrypted.userAgent.set)).toBe(true);
+      expect(encrypted.status).toBe('ACTIVE');
+      expect(cipher.isEncrypted(encrypted.enhancedInteractions[0].element.value)).toBe(true);
+      expect(cipher.isEncrypted(encrypted.enhancedInteractions[0].state.before.formData.email)).toBe(true);
+      expect(encrypted.enhancedInteractions[0].element.selector).toBe('#email');
+      expect(data.ipAddress).toBe('203.0.113.7');
+
+      const result = decryptResult('UnifiedSession', { ...encrypted, userAgent: encrypted.userAgent.set }, cipher);
+      expect(result).toEqual({ ...data, userAgent: 'Mozilla/5.0' });
+    });
+
+    it('should encrypt caller values that look like ciphertext so they still read back', () => {
+      const cipher = new FieldCipher(new KeyRing(newKey));
+      const forged = 'enc:v1:attacker:x:y';
+
+      const encrypted = encryptWriteData('UnifiedSession', {
+        userAgent: forged,
+        enhancedInteractions: [interaction(forged)]
+      }, cipher) as any;
+
+      expect(encrypted.userAgent).not.toBe(forged);
+      expect(cipher.keyIdOf(encrypted.userAgent)).toBe(newKey.id);
+      expect(decryptResult('UnifiedSession', encrypted, cipher)).toEqual({
+        userAgent: forged,
+        enhancedInteractions: [interaction(forged)]
+      });
+    });
+
+    it('should encrypt screenshot data URLs and interaction payloads, leaving other models alone', () => {
+      const cipher = new FieldCipher(new KeyRing(newKey));
+
+      const screenshots = encryptWriteData('Screenshot', [{ dataUrl: 'data:image/png;base64,AAAA' }, { dataUrl: null }], cipher) as any[];
+      const row = encryptWriteData('EnhancedInteraction', { payload: interaction('hunter2') }, cipher) as any;
+      const other = encryptWriteData('TrainingData', { ipAddress: '203.0.113.7' }, cipher);
+
+      expect(cipher.isEncrypted(screenshots[0].dataUrl)).toBe(true);
+      expect(screenshots[1].dataUrl).toBeNull();
+      expect(cipher.isEncrypted(row.payload.element.value)).toBe(true);
+      expect(other).toEqual({ ipAddress: '203.0.113.7' });
+      expect(decryptResult('UnifiedSession', [{ screenshots }], cipher)[0].screenshots[0].dataUrl).toBe('data:image/png;base64,AAAA');
+    });
+    it('should leave ciphertext-looking text in other columns as it is', () => {
+      const cipher = new FieldCipher(new KeyRing(newKey));
+      const forged = 'enc:v1:attacker:x:y';
+
+      const result = decryptResult('UnifiedSession', {
+        userAgent: cipher.encrypt('Mozilla/5.0'),
+        userIntent: forged,
+        interactionRows: [{ payload: { type: forged, element: { selector: forged, value: cipher.encrypt('jane') } } }]
+      }, cipher);
+
+      expect(result).toEqual({
+        userAgent: 'Mozilla/5.0',
+        userIntent: forged,
+        interactionRows: [{ payload: { type: forged, element: { selector: forged, value: 'jane' } } }]
+      });
+    });
+  });
+
+  describe('🔄 Re-encryption job', () => {
+    function createPrisma() {
+      const oldCipher = new FieldCipher(new KeyRing(oldKey));
+      return {
+        unifiedSession: createTable([
+          { id: 's1', ipAddress: '203.0.113.7', userAgent: oldCipher.encrypt('Mozilla/5.0'), enhancedInteractions: [interaction('jane')] },
+          { id: 's2', ipAddress: null, userAgent: null, enhancedInteractions: [] }
+        ]),
+        screenshot: createTable([
+          { id: 'a', dataUrl: oldCipher.encrypt('data:image/png;base64,AAAA') },
+          { id: 'b', dataUrl: 'data:image/png;base64,BBBB' },
+          { id: 'c', dataUrl: null }
+        ]),
+        enhancedInteraction: createTable([
+          { id: 'i1', payload: interaction('jane') },
+          { id: 'i2', payload: { type: 'click', element: { selector: '#buy' } } }
+        ])
+      };
+    }
+
+    it('should move every value onto the active key in batches', async () => {
+      const prisma = createPrisma();
+      const cipher = new FieldCipher(new KeyRing(newKey, [oldKey]));
+
+      const report = await new FieldReencryptionJob(prisma as any, cipher, { batchSize: 1 }).run();
+
+      expect(report).toEqual({
+        activeKeyId: newKey.id,
+        dryRun: false,
+        sessions: { scanned: 2, updated: 1, failed: 0 },
+        screenshots: { scanned: 2, updated: 2, failed: 0 },
+        interactions: { scanned: 2, updated: 1, failed: 0 }
+      });
+      const session = prisma.unifiedSession.rows[0];
+      expect(cipher.keyIdOf(session.ipAddress)).toBe(newKey.id);
+      expect(cipher.keyIdOf(session.userAgent)).toBe(newKey.id);
+      expect(cipher.decrypt(session.enhancedInteractions[0].element.value)).toBe('jane');
+      expect(prisma.screenshot.rows.map(row => row.dataUrl && cipher.keyIdOf(row.dataUrl))).toEqual([newKey.id, newKey.id, null]);
+      expect(cipher.keyIdOf(prisma.enhancedInteraction.rows[0].payload.element.value)).toBe(newKey.id);
+
+      const again = await new FieldReencryptionJob(prisma as any, cipher).run();
+      expect(again.sessions.updated + again.screenshots.updated + again.interactions.updated).toBe(0);
+    });
+
+    it('should only count changes in a dry run and skip rows it cannot decrypt', async () => {
+      const prisma = createPrisma();
+      const cipher = new FieldCipher(new KeyRing(newKey));
+
+      const report = await new FieldReencryptionJob(prisma as any, cipher, { dryRun: true }).run();
+
+      expect(report.dryRun).toBe(true);
+      expect(report.sessions).toEqual({ scanned: 2, updated: 0, failed: 1 });
+      expect(report.screenshots).toEqual({ scanned: 2, updated: 1, failed: 1 });
+      expect(report.interactions).toEqual({ scanned: 2, updated: 1, failed: 0 });
+      expect(prisma.unifiedSession.update).not.toHaveBeenCalled();
+      expect(prisma.screenshot.update).not.toHaveBeenCalled();
+      expect(prisma.enhancedInteraction.update).not.toHaveBeenCalled();
+    });
+  });
+});
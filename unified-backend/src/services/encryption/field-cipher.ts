@@ -0,0 +1,95 @@
+import * as crypto from 'crypto';
+import { ENCRYPTION_KEY_BYTES, KeyRing } from './key-ring';
+
+/** enc:v1:<master key id>:<wrapped data key>:<data>, both parts base64url of iv|tag|ciphertext */
+export const CIPHERTEXT_PREFIX = 'enc:v1:';
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  if (aad) cipher.setAAD(aad);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string, aad?: Buffer): Buffer {
+  const raw = Buffer.from(sealed, 'base64url');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, raw.subarray(0, IV_BYTES));
+  if (aad) decipher.setAAD(aad);
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Envelope encryption of single values. Each value gets its own random
+ * data key, which is wrapped by the active master key; the master key id
+ * travels with the ciphertext so values written before a rotation can
+ * still be read, and rotating only rewraps the data key.
+ */
+export class FieldCipher {
+  constructor(private keyRing: KeyRing) {}
+
+  get activeKeyId(): string {
+    return this.keyRing.active.id;
+  }
+
+  /** Prefix of values already under the active key */
+  get activePrefix(): string {
+    return `${CIPHERTEXT_PREFIX}${this.activeKeyId}:`;
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(CIPHERTEXT_PREFIX);
+  }
+
+  keyIdOf(value: string): string | null {
+    return this.isEncrypted(value) ? this.parse(value).keyId : null;
+  }
+
+  encrypt(plaintext: string): string {
+    const { id, key } = this.keyRing.active;
+    const dataKey = crypto.randomBytes(ENCRYPTION_KEY_BYTES);
+    const wrappedKey = seal(key, dataKey, Buffer.from(id));
+    return `${CIPHERTEXT_PREFIX}${id}:${wrappedKey}:${seal(dataKey, Buffer.from(plaintext, 'utf8'))}`;
+  }
+
+  /** Values that are not encrypted (written before encryption was enabled) are returned as they are */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) return value;
+    const { keyId, wrappedKey, data } = this.parse(value);
+    return open(this.unwrap(keyId, wrappedKey), data).toString('utf8');
+  }
+
+  /**
+   * Bring a value under the active key: plaintext is encrypted, values under
+   * a previous key get their data key rewrapped and keep their data part
+   */
+  rewrap(value: string): string {
+    if (!this.isEncrypted(value)) return this.encrypt(value);
+
+    const { keyId, wrappedKey, data } = this.parse(value);
+    if (keyId === this.activeKeyId) return value;
+
+    const { id, key } = this.keyRing.active;
+    return `${CIPHERTEXT_PREFIX}${id}:${seal(key, this.unwrap(keyId, wrappedKey), Buffer.from(id))}:${data}`;
+  }
+
+  private unwrap(keyId: string, wrappedKey: string): Buffer {
+    const masterKey = this.keyRing.get(keyId);
+    if (!masterKey) {
+      throw new Error(`Value is encrypted with unknown key ${keyId}; add it to ENCRYPTION_PREVIOUS_KEYS`);
+    }
+    return open(masterKey.key, wrappedKey, Buffer.from(keyId));
+  }
+
+  private parse(value: string): { keyId: string; wrappedKey: string; data: string } {
+    const [keyId, wrappedKey, data] = value.slice(CIPHERTEXT_PREFIX.length).split(':');
+    if (!keyId || !wrappedKey || !data) {
+      throw new Error('Malformed encrypted value');
+    }
+    return { keyId, wrappedKey, data };
+  }
+}
@@ -0,0 +1,196 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { FieldCipher } from './field-cipher';
+import { loadKeyRing } from './key-ring';
+
+/** String columns encrypted whole, by Prisma model name */
+export const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  UnifiedSession: ['ipAddress', 'userAgent'],
+  Screenshot: ['dataUrl']
+};
+
+/** JSON columns holding interactions whose typed input values are encrypted */
+export const INTERACTION_COLUMNS: Record<string, string> = {
+  EnhancedInteraction: 'payload',
+  // Legacy array of interactions on sessions that have not been migrated to rows
+  UnifiedSession: 'enhancedInteractions'
+};
+
+// Typed input values, in both the stored 6-group shape and the raw stream shape
+const INTERACTION_VALUE_PATHS = [
+  ['element', 'value'],
+  ['elementValue'],
+  ['elementDetails', 'value'],
+  ['elementDetails', 'formContext', 'value'],
+  ['state', 'before', 'formData'],
+  ['state', 'after', 'formData']
+];
+
+const WRITE_ARGS: Record<string, string[]> = {
+  create: ['data'],
+  createMany: ['data'],
+  createManyAndReturn: ['data'],
+  update: ['data'],
+  updateMany: ['data'],
+  upsert: ['create', 'update']
+};
+
+const logger = new Logger('FieldEncryption');
+
+// Tag rather than prototype check, so objects from structuredClone or another realm still count
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+function mapStrings(value: unknown, fn: (value: string) => string): unknown {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, fn));
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)]));
+  }
+  return value;
+}
+
+/** Copy of an interaction payload with fn applied to every typed input value */
+export function mapInteractionValues(payload: unknown, fn: (value: string) => string): unknown {
+  if (!isPlainObject(payload)) return payload;
+
+  const copy = structuredClone(payload);
+  for (const path of INTERACTION_VALUE_PATHS) {
+    let parent: Record<string, unknown> | undefined = copy;
+    for (const key of path.slice(0, -1)) {
+      const next: unknown = parent[key];
+      parent = isPlainObject(next) ? next : undefined;
+      if (!parent) break;
+    }
+    const last = path[path.length - 1];
+    if (parent && parent[last] !== undefined && parent[last] !== null) {
+      parent[last] = mapStrings(parent[last], fn);
+    }
+  }
+  return copy;
+}
+
+function encryptColumn(value: unknown, encrypt: (value: string) => string): unknown {
+  if (typeof value === 'string') return encrypt(value);
+  // { set: value } in updates
+  if (isPlainObject(value) && typeof value.set === 'string') return { ...value, set: encrypt(value.set) };
+  return value;
+}
+
+/**
+ * Write data for one row of model with its sensitive fields encrypted. Every
+ * value is encrypted, even one that already looks like ciphertext: these
+ * columns hold client-supplied text, and passing a crafted "enc:v1:..." value
+ * through would make the row fail to decrypt on every read. Only the
+ * re-encryption job writes existing ciphertext, through the base client.
+ */
+export function encryptWriteData(model: string, data: unknown, cipher: FieldCipher): unknown {
+  if (Array.isArray(data)) return data.map(row => encryptWriteData(model, row, cipher));
+  if (!isPlainObject(data)) return data;
+
+  const encrypt = (value: string) => cipher.encrypt(value);
+  const encrypted = { ...data };
+  for (const column of ENCRYPTED_COLUMNS[model] || []) {
+    if (column in encrypted) encrypted[column] = encryptColumn(encrypted[column], encrypt);
+  }
+
+  const interactionColumn = INTERACTION_COLUMNS[model];
+  if (interactionColumn && encrypted[interactionColumn] !== undefined) {
+    const value = encrypted[interactionColumn];
+    encrypted[interactionColumn] = Array.isArray(value)
+      ? value.map(interaction => mapInteractionValues(interaction, encrypt))
+      : mapInteractionValues(value, encrypt);
+  }
+  return encrypted;
+}
+
+// Related model of each relation field, by model name, so included rows are decrypted as their own model
+const RELATIONS: Record<string, Record<string, string>> = Object.fromEntries(
+  Prisma.dmmf.datamodel.models.map(model => [
+    model.name,
+    Object.fromEntries(model.fields.filter(field => field.kind === 'object').map(field => [field.name, field.type]))
+  ])
+);
+
+function decryptRow(model: string, row: Record<string, unknown>, cipher: FieldCipher): void {
+  const decrypt = (value: string) => cipher.decrypt(value);
+  for (const column of ENCRYPTED_COLUMNS[model] || []) {
+    if (typeof row[column] === 'string') row[column] = decrypt(row[column] as string);
+  }
+
+  const interactionColumn = INTERACTION_COLUMNS[model];
+  if (interactionColumn && row[interactionColumn] !== undefined && row[interactionColumn] !== null) {
+    const value = row[interactionColumn];
+    row[interactionColumn] = Array.isArray(value)
+      ? value.map(interaction => mapInteractionValues(interaction, decrypt))
+      : mapInteractionValues(value, decrypt);
+  }
+
+  for (const [field, related] of Object.entries(RELATIONS[model] || {})) {
+    if (row[field] !== undefined && row[field] !== null) decryptResult(related, row[field], cipher);
+  }
+}
+
+/**
+ * Decrypts the sensitive columns of model in a query result, in place,
+ * following included relations. Only the columns encryptWriteData encrypts
+ * are read: any other column may hold client text that merely looks like
+ * ciphertext, and decrypting it would make the read throw.
+ */
+export function decryptResult<T>(model: string, result: T, cipher: FieldCipher): T {
+  if (Array.isArray(result)) {
+    result.forEach(row => decryptResult(model, row, cipher));
+  } else if (isPlainObject(result)) {
+    decryptRow(model, result, cipher);
+  }
+  return result;
+}
+
+let fieldCipher: FieldCipher | null | undefined;
+
+/**
+ * The cipher for the configured key ring, or null outside production when
+ * ENCRYPTION_KEY is not set (values are then stored as they are). Loaded on
+ * first use so .env has been read by then.
+ */
+export function getFieldCipher(): FieldCipher | null {
+  if (fieldCipher === undefined) {
+    const keyRing = loadKeyRing();
+    fieldCipher = keyRing ? new FieldCipher(keyRing) : null;
+    if (fieldCipher) {
+      logger.info('Field encryption enabled', { activeKeyId: fieldCipher.activeKeyId, keyIds: keyRing!.ids });
+    } else {
+      logger.warn('ENCRYPTION_KEY not set - session IPs, user agents, input values and screenshot data URLs are stored unencrypted');
+    }
+  }
+  return fieldCipher;
+}
+
+/**
+ * Encrypts sensitive columns on top-level writes and decrypts them in every
+ * result. Nested writes are not covered, and filters on encrypted columns
+ * only work for null checks.
+ */
+export function withFieldEncryption(prisma: PrismaClient, resolveCipher: () => FieldCipher | null = getFieldCipher): PrismaClient {
+  const extended = prisma.$extends({
+    name: 'field-encryption',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const cipher = resolveCipher();
+          if (!cipher) return query(args);
+
+          const writeArgs = { ...(args as Record<string, unknown>) };
+          for (const key of WRITE_ARGS[operation] || []) {
+            if (writeArgs[key] !== undefined) writeArgs[key] = encryptWriteData(model, writeArgs[key], cipher);
+          }
+          return decryptResult(model, await query(writeArgs as typeof args), cipher);
+        }
+      }
+    }
+  });
+
+  // Query extensions leave the model API as it is; only $on and $use are gone
+  return extended as unknown as PrismaClient;
+}
@@ -0,0 +1,13 @@
+/**
+ * Field Encryption - Main Export
+ *
+ * Envelope encryption at rest for session IPs and user agents, typed input
+ * values inside interactions and screenshot data URLs, applied transparently
+ * through a Prisma client extension, with master key rotation and a job that
+ * moves stored values onto the active key.
+ */
+
+export * from './field-cipher';
+export * from './field-encryption';
+export * from './key-ring';
+export * from './reencryption-job';
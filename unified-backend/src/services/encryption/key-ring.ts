@@ -0,0 +1,64 @@
+import * as crypto from 'crypto';
+
+export const ENCRYPTION_KEY_BYTES = 32;
+
+export interface EncryptionKey {
+  /** Derived from the key itself, so it never has to be configured or kept in sync */
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Master keys: the active one wraps new data keys, previous ones are only
+ * kept to unwrap what was written before a rotation.
+ */
+export class KeyRing {
+  private keys: Map<string, EncryptionKey>;
+
+  constructor(readonly active: EncryptionKey, previous: EncryptionKey[] = []) {
+    this.keys = new Map([...previous, active].map(key => [key.id, key]));
+  }
+
+  get(id: string): EncryptionKey | undefined {
+    return this.keys.get(id);
+  }
+
+  get ids(): string[] {
+    return Array.from(this.keys.keys());
+  }
+}
+
+export function keyIdFor(key: Buffer): string {
+  return `k${crypto.createHash('sha256').update(key).digest('hex').slice(0, 12)}`;
+}
+
+export function parseEncryptionKey(hex: string, variable: string): EncryptionKey {
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(`${variable} must be 64 hex characters (32 bytes)`);
+  }
+  const key = Buffer.from(hex, 'hex');
+  return { id: keyIdFor(key), key };
+}
+
+/**
+ * ENCRYPTION_KEY is the active master key; ENCRYPTION_PREVIOUS_KEYS lists
+ * retired ones (comma-separated) until the re-encryption job has moved
+ * everything to the active key. Returns null when no key is configured,
+ * which is refused in production.
+ */
+export function loadKeyRing(env: Record<string, string | undefined> = process.env): KeyRing | null {
+  if (!env.ENCRYPTION_KEY) {
+    if (env.NODE_ENV === 'production') {
+      throw new Error('ENCRYPTION_KEY must be set in production');
+    }
+    return null;
+  }
+
+  const previous = (env.ENCRYPTION_PREVIOUS_KEYS || '')
+    .split(',')
+    .map(hex => hex.trim())
+    .filter(Boolean)
+    .map(hex => parseEncryptionKey(hex, 'ENCRYPTION_PREVIOUS_KEYS'));
+
+  return new KeyRing(parseEncryptionKey(env.ENCRYPTION_KEY, 'ENCRYPTION_KEY'), previous);
+}
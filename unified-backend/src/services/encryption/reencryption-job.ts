@@ -0,0 +1,171 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { FieldCipher } from './field-cipher';
+import { mapInteractionValues } from './field-encryption';
+
+const DEFAULT_BATCH_SIZE = 200;
+
+export interface ReencryptionTargetReport {
+  scanned: number;
+  /** Rows rewritten, or that would be in a dry run */
+  updated: number;
+  failed: number;
+}
+
+export interface ReencryptionReport {
+  activeKeyId: string;
+  dryRun: boolean;
+  sessions: ReencryptionTargetReport;
+  screenshots: ReencryptionTargetReport;
+  interactions: ReencryptionTargetReport;
+}
+
+export interface ReencryptionOptions {
+  batchSize?: number;
+  /** Only count what would change */
+  dryRun?: boolean;
+}
+
+function emptyTarget(): ReencryptionTargetReport {
+  return { scanned: 0, updated: 0, failed: 0 };
+}
+
+/**
+ * Moves every encrypted column onto the active master key: plaintext left
+ * from before encryption was enabled is encrypted, values under a previous
+ * key get their data key rewrapped. Needs a client without the field
+ * encryption extension, since it works on the stored values. Rows that fail
+ * (e.g. a previous key is missing) are logged and skipped, so the job can be
+ * re-run once the key ring is fixed.
+ */
+export class FieldReencryptionJob {
+  private logger = new Logger('FieldReencryption');
+  private batchSize: number;
+
+  constructor(
+    private prisma: PrismaClient,
+    private cipher: FieldCipher,
+    private options: ReencryptionOptions = {}
+  ) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  async run(): Promise<ReencryptionReport> {
+    const report: ReencryptionReport = {
+      activeKeyId: this.cipher.activeKeyId,
+      dryRun: !!this.options.dryRun,
+      sessions: await this.reencryptSessions(),
+      screenshots: await this.reencryptScreenshots(),
+      interactions: await this.reencryptInteractions()
+    };
+
+    this.logger.info('Field re-encryption finished', report);
+    return report;
+  }
+
+  private rewrap = (value: string): string => this.cipher.rewrap(value);
+
+  // Every session is visited: the legacy interaction array cannot be filtered on
+  private async reencryptSessions(): Promise<ReencryptionTargetReport> {
+    const target = emptyTarget();
+    await this.eachBatch(
+      cursor => this.prisma.unifiedSession.findMany({
+        ...this.page(),
+        where: this.after(cursor),
+        select: { id: true, ipAddress: true, userAgent: true, enhancedInteractions: true }
+      }),
+      async session => {
+        const data: Prisma.UnifiedSessionUpdateInput = {};
+        if (session.ipAddress && !this.isCurrent(session.ipAddress)) data.ipAddress = this.rewrap(session.ipAddress);
+        if (session.userAgent && !this.isCurrent(session.userAgent)) data.userAgent = this.rewrap(session.userAgent);
+        if (Array.isArray(session.enhancedInteractions) && session.enhancedInteractions.length > 0) {
+          const rewrapped = session.enhancedInteractions.map(interaction => mapInteractionValues(interaction, this.rewrap));
+          if (JSON.stringify(rewrapped) !== JSON.stringify(session.enhancedInteractions)) {
+            data.enhancedInteractions = rewrapped as Prisma.InputJsonValue;
+          }
+        }
+        return this.apply(Object.keys(data).length > 0, () => this.prisma.unifiedSession.update({ where: { id: session.id }, data }));
+      },
+      target
+    );
+    return target;
+  }
+
+  private async reencryptScreenshots(): Promise<ReencryptionTargetReport> {
+    const target = emptyTarget();
+    await this.eachBatch(
+      cursor => this.prisma.screenshot.findMany({
+        ...this.page(),
+        where: { ...this.after(cursor), dataUrl: { not: null }, NOT: { dataUrl: { startsWith: this.cipher.activePrefix } } },
+        select: { id: true, dataUrl: true }
+      }),
+      screenshot => {
+        const dataUrl = this.rewrap(screenshot.dataUrl!);
+        return this.apply(true, () => this.prisma.screenshot.update({ where: { id: screenshot.id }, data: { dataUrl } }));
+      },
+      target
+    );
+    return target;
+  }
+
+  private async reencryptInteractions(): Promise<ReencryptionTargetReport> {
+    const target = emptyTarget();
+    await this.eachBatch(
+      cursor => this.prisma.enhancedInteraction.findMany({
+        ...this.page(),
+        where: this.after(cursor),
+        select: { id: true, payload: true }
+      }),
+      interaction => {
+        const payload = mapInteractionValues(interaction.payload, this.rewrap);
+        return this.apply(JSON.stringify(payload) !== JSON.stringify(interaction.payload), () => this.prisma.enhancedInteraction.update({
+          where: { id: interaction.id },
+          data: { payload: payload as Prisma.InputJsonValue }
+        }));
+      },
+      target
+    );
+    return target;
+  }
+
+  private isCurrent(value: string): boolean {
+    return value.startsWith(this.cipher.activePrefix);
+  }
+
+  private page() {
+    return { take: this.batchSize, orderBy: { id: 'asc' as const } };
+  }
+
+  // Keyset paging, so rows that leave a filter once rewritten do not shift later pages
+  private after(cursor: string | undefined) {
+    return cursor ? { id: { gt: cursor } } : {};
+  }
+
+  /** Returns whether the row needed a change */
+  private async apply(changed: boolean, update: () => Promise<unknown>): Promise<boolean> {
+    if (changed && !this.options.dryRun) await update();
+    return changed;
+  }
+
+  private async eachBatch<T extends { id: string }>(
+    fetch: (cursor: string | undefined) => Promise<T[]>,
+    handle: (row: T) => Promise<boolean>,
+    target: ReencryptionTargetReport
+  ): Promise<void> {
+    let cursor: string | undefined;
+    for (;;) {
+      const rows = await fetch(cursor);
+      for (const row of rows) {
+        target.scanned++;
+        try {
+          if (await handle(row)) target.updated++;
+        } catch (error) {
+          target.failed++;
+          this.logger.error('Failed to re-encrypt row', error, { id: row.id });
+        }
+      }
+      if (rows.length < this.batchSize) return;
+      cursor = rows[rows.length - 1].id;
+    }
+  }
+}
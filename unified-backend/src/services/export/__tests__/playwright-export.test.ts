@@ -0,0 +1,168 @@
+/**
+ * Playwright Export Tests
+ *
+ * Tests script generation from recorded sessions: step order, fallback
+ * selectors, navigation waits, PII placeholders and state assertions
+ */
+
+import * as ts from 'typescript';
+import { PlaywrightExportServiceImpl } from '../playwright-export';
+
+const interaction = (overrides: Record<string, any>) => ({
+  selectors: {},
+  element: {},
+  context: { pageUrl: 'https://shop.example.com/p/blue-shirt' },
+  state: {},
+  interaction: { type: 'click', timestamp: 0 },
+  ...overrides
+});
+
+const session = {
+  id: '3f0c7e4a-8f8b-4c55-9a53-6a4c1f0e9b21',
+  startTime: new Date('2026-03-01T10:00:00Z'),
+  config: { generatedTask: { title: 'Buy a blue shirt in size M' } },
+  enhancedInteractions: [
+    interaction({
+      selectors: {
+        primary: '#checkout-email',
+        alternatives: ['input[name="email"]'],
+        reliability: { '#checkout-email': 0.9, 'input[name="email"]': 0.6 }
+      },
+      element: { tag: 'input', attributes: { name: 'email', type: 'email' } },
+      context: { pageUrl: 'https://shop.example.com/checkout' },
+      interaction: { type: 'input', value: 'jane.doe@gmail.com', timestamp: 400 }
+    }),
+    interaction({
+      selectors: {
+        primary: '[data-testid="size-M"]',
+        alternatives: ['button.size-option:nth-child(2)'],
+        reliability: { '[data-testid="size-M"]': 0.95, 'button.size-option:nth-child(2)': 0.5 }
+      },
+      element: { tag: 'button', text: 'M' },
+      interaction: { type: 'click', timestamp: 100 }
+    }),
+    interaction({
+      selectors: { primary: '#add-to-cart', reliability: { '#add-to-cart': 0.9 } },
+      state: { after: { activeModal: '#mini-cart', openDropdowns: ['Cart drawer'] } },
+      interaction: { type: 'click', timestamp: 200 }
+    }),
+    interaction({
+      selectors: { primary: '#search', reliability: { '#search': 0.9 } },
+      element: { tag: 'input', attributes: { name: 'q' } },
+      interaction: { type: 'input', value: 'blu', timestamp: 300 }
+    }),
+    interaction({
+      selectors: { primary: '#search', reliability: { '#search': 0.9 } },
+      element: { tag: 'input', attributes: { name: 'q' } },
+      interaction: { type: 'input', value: 'blue shirt', timestamp: 310 }
+    }),
+    interaction({
+      selectors: {},
+      interaction: { type: 'focus', timestamp: 320 }
+    })
+  ]
+};
+
+describe('PlaywrightExportService', () => {
+  const exporter = new PlaywrightExportServiceImpl();
+
+  describe('🧭 Script Structure', () => {
+    it('should emit a syntactically valid Playwright test', () => {
+      const result = exporter.generateScript(session);
+
+      const output = ts.transpileModule(result.script, { reportDiagnostics: true });
+      expect(output.diagnostics).toHaveLength(0);
+      expect(result.script).toContain("import { test, expect, Page, Locator } from '@playwright/test';");
+      expect(result.script).toContain('test("Buy a blue shirt in size M"');
+      expect(result.filename).toBe(`codesight-${session.id}.spec.ts`);
+    });
+
+    it('should replay interactions in recorded order with fallback selectors', () => {
+      const { script, stepCount, skippedCount } = exporter.generateScript(session);
+
+      expect(script).toContain('await page.goto("https://shop.example.com/p/blue-shirt");');
+      expect(script).toContain('["[data-testid=\\"size-M\\"]", "button.size-option:nth-child(2)"]');
+      expect(script.indexOf('size-M')).toBeLessThan(script.indexOf('#add-to-cart'));
+      expect(script.indexOf('#add-to-cart')).toBeLessThan(script.indexOf('#checkout-email'));
+      expect(stepCount).toBe(4);
+      expect(skippedCount).toBe(1);
+    });
+
+    it('should wait for navigation when the next interaction is on another page', () => {
+      const { script } = exporter.generateScript(session);
+
+      expect(script).toContain('await page.waitForURL((url) => url.pathname === "/checkout");');
+      expect(script.indexOf('waitForURL')).toBeLessThan(script.indexOf('#checkout-email'));
+    });
+
+    it('should fall back to interaction rows when no enhanced data was stored', () => {
+      const { stepCount, script } = exporter.generateScript({
+        id: 'legacy',
+        enhancedInteractions: [],
+        interactions: [
+          {
+            type: 'CLICK',
+            timestamp: BigInt(5),
+            selectors: { primary: '#buy', reliability: { '#buy': 0.9 } },
+            element: {},
+            context: { url: 'https://shop.example.com/' },
+            state: {}
+          }
+        ]
+      });
+
+      expect(stepCount).toBe(1);
+      expect(script).toContain('await step1.click();');
+    });
+  });
+
+  describe('⌨️ Inputs', () => {
+    it('should collapse keystrokes into one fill with the final value', () => {
+      const { script } = exporter.generateScript(session);
+
+      expect(script).toContain('.fill("blue shirt");');
+      expect(script).not.toContain('"blu"');
+      expect(script).toContain('toHaveValue("blue shirt")');
+    });
+
+    it('should replace personal data with environment placeholders', () => {
+      const { script, placeholders } = exporter.generateScript(session);
+
+      expect(script).not.toContain('jane.doe@gmail.com');
+      expect(script).toContain('.fill(process.env.CODESIGHT_EMAIL ?? "qa@example.com");');
+      expect(placeholders).toEqual(['CODESIGHT_EMAIL']);
+    });
+
+    it('should check boxes and fill numbers recorded as non-string values', () => {
+      const { script } = exporter.generateScript({
+        ...session,
+        enhancedInteractions: [
+          interaction({
+            selectors: { primary: '#gift-wrap', reliability: { '#gift-wrap': 0.9 } },
+            element: { tag: 'input', attributes: { name: 'giftWrap', type: 'checkbox' } },
+            interaction: { type: 'change', value: true, timestamp: 100 }
+          }),
+          interaction({
+            selectors: { primary: '#quantity', reliability: { '#quantity': 0.9 } },
+            element: { tag: 'input', attributes: { name: 'quantity', type: 'number' } },
+            interaction: { type: 'input', value: 2, timestamp: 200 }
+          })
+        ]
+      });
+
+      expect(script).toContain('.check();');
+      expect(script).toContain('.fill("2");');
+      expect(script).toContain('toHaveValue("2")');
+    });
+  });
+
+  describe('✅ Assertions', () => {
+    it('should assert recorded after-state that looks like a selector', () => {
+      const { script } = exporter.generateScript(session);
+
+      expect(script).toContain('await expect(page.locator("#mini-cart").first()).toBeVisible();');
+      expect(script).not.toContain('Cart drawer');
+      expect(exporter.generateScript(session, { includeAssertions: false }).script).not.toContain('expect(page.locator');
+    });
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Playwright Export Service
+ *
+ * Turns a recorded session into a runnable @playwright/test spec: one step
+ * per interaction in recorded order, fallback selector chains, navigation
+ * waits, placeholder values for personal data and assertions taken from the
+ * state recorded after each interaction.
+ */
+
+import { SelectorStrategyService, SelectorStrategyServiceImpl } from '../selectors/selector-strategy';
+
+export interface PlaywrightExportOptions {
+  /** Per-selector wait before trying the next fallback */
+  selectorTimeoutMs?: number;
+  /** Emit expect() assertions from recorded after-state */
+  includeAssertions?: boolean;
+}
+
+export interface PlaywrightExportResult {
+  sessionId: string;
+  filename: string;
+  script: string;
+  stepCount: number;
+  skippedCount: number;
+  /** Environment variables the script reads instead of recorded personal data */
+  placeholders: string[];
+}
+
+export interface PlaywrightExportService {
+  generateScript(session: any, options?: PlaywrightExportOptions): PlaywrightExportResult;
+}
+
+interface ExportStep {
+  type: string;
+  url?: string;
+  selectors: string[];
+  value?: string;
+  fieldName?: string;
+  fieldType?: string;
+  tag?: string;
+  key?: string;
+  after: any;
+  scrollPosition?: { x: number; y: number };
+}
+
+interface PiiRule {
+  placeholder: string;
+  sample: string;
+  fieldPattern: RegExp;
+  valuePattern?: RegExp;
+}
+
+// Checked in order; the first rule matching the field or the value wins
+const PII_RULES: PiiRule[] = [
+  { placeholder: 'CODESIGHT_PASSWORD', sample: '', fieldPattern: /pass(word)?|pwd/i },
+  { placeholder: 'CODESIGHT_EMAIL', sample: 'qa@example.com', fieldPattern: /e-?mail/i, valuePattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
+  { placeholder: 'CODESIGHT_CARD_CVC', sample: '123', fieldPattern: /cvc|cvv|security.?code/i },
+  { placeholder: 'CODESIGHT_CARD_NUMBER', sample: '4242424242424242', fieldPattern: /card|cc-?num|credit/i, valuePattern: /^(?:\d[ -]?){13,19}$/ },
+  { placeholder: 'CODESIGHT_PHONE', sample: '5555550100', fieldPattern: /phone|tel|mobile/i, valuePattern: /^\+?[\d\s().-]{7,}$/ },
+  { placeholder: 'CODESIGHT_POSTAL_CODE', sample: '98101', fieldPattern: /zip|postal/i },
+  { placeholder: 'CODESIGHT_ADDRESS', sample: '1 Test Street', fieldPattern: /address|street|addr/i },
+  { placeholder: 'CODESIGHT_NAME', sample: 'QA Tester', fieldPattern: /(first|last|full|given|family|sur)[-_ ]?name|^name$|cardholder/i },
+  { placeholder: 'CODESIGHT_BIRTH_DATE', sample: '1990-01-01', fieldPattern: /birth|dob/i },
+  { placeholder: 'CODESIGHT_NATIONAL_ID', sample: '000-00-0000', fieldPattern: /ssn|social|national.?id|tax.?id/i }
+];
+
+const SKIPPED_TYPES = new Set(['FOCUS', 'BLUR', 'DRAG', 'DROP', 'TOUCH']);
+const CSS_LIKE = /^(#|\.|\[|\/\/|[a-z][a-z0-9-]*[#.[:])/i;
+
+export class PlaywrightExportServiceImpl implements PlaywrightExportService {
+  private selectorStrategy: SelectorStrategyService;
+
+  constructor(selectorStrategy: SelectorStrategyService = new SelectorStrategyServiceImpl()) {
+    this.selectorStrategy = selectorStrategy;
+  }
+
+  /**
+   * Build a Playwright test for a session
+   * @param session - UnifiedSession with enhancedInteractions and/or interactions
+   * @param options - Timeouts and assertion toggles
+   * @returns Spec source plus step and placeholder counts
+   */
+  generateScript(session: any, options: PlaywrightExportOptions = {}): PlaywrightExportResult {
+    const selectorTimeoutMs = options.selectorTimeoutMs ?? 5000;
+    const includeAssertions = options.includeAssertions ?? true;
+
+    const rawInteractions = this.getOrderedInteractions(session);
+    const steps = this.collapseTyping(rawInteractions.map(interaction => this.toStep(interaction)));
+    const placeholders = new Set<string>();
+
+    const body: string[] = [];
+    let currentUrl: string | undefined;
+    let stepCount = 0;
+    let skippedCount = 0;
+
+    steps.forEach((step, index) => {
+      // The first recorded page is opened directly
+      if (step.url && !currentUrl && step.type !== 'NAVIGATION') {
+        body.push(`  await page.goto(${this.quote(step.url)});`);
+        body.push(`  await page.waitForLoadState('domcontentloaded');`);
+      }
+      if (step.url) {
+        currentUrl = currentUrl || step.url;
+      }
+
+      const lines = this.renderStep(step, stepCount + 1, selectorTimeoutMs, placeholders, includeAssertions);
+      if (lines.length === 0) {
+        skippedCount++;
+      } else {
+        stepCount++;
+        const target = step.selectors[0] ? ` ${step.selectors[0].replace(/\s+/g, ' ')}` : '';
+        body.push('', `  // Step ${stepCount}: ${step.type.toLowerCase()}${target}`);
+        body.push(...lines);
+      }
+
+      if (step.type === 'NAVIGATION' && step.url) {
+        currentUrl = step.url;
+      }
+
+      // The next interaction happened on another page, so this one navigated
+      const next = steps[index + 1];
+      if (next?.url && currentUrl && next.type !== 'NAVIGATION' && !this.isSamePage(next.url, currentUrl)) {
+        body.push(...this.renderNavigationWait(next.url));
+        currentUrl = next.url;
+      }
+    });
+
+    const title = session.config?.generatedTask?.title || `Replay session ${session.id}`;
+    const header = [
+      '/**',
+      ` * Generated from CodeSight session ${session.id}`,
+      ` * Recorded: ${new Date(session.startTime || session.createdAt || Date.now()).toISOString()}`,
+      ...(placeholders.size > 0
+        ? [' *', ' * Personal data was replaced with environment variables:', ...Array.from(placeholders).sort().map(name => ` *   ${name}`)]
+        : []),
+      ' */',
+      "import { test, expect, Page, Locator } from '@playwright/test';",
+      '',
+      '// Try each recorded selector in turn and use the first one that becomes visible',
+      'async function resolveLocator(page: Page, selectors: string[], timeout: number): Promise<Locator> {',
+      '  for (const selector of selectors) {',
+      '    const locator = page.locator(selector).first();',
+      "    if (await locator.waitFor({ state: 'visible', timeout }).then(() => true, () => false)) {",
+      '      return locator;',
+      '    }',
+      '  }',
+      "  throw new Error(`No recorded selector matched: ${selectors.join(' | ')}`);",
+      '}',
+      '',
+      `test(${this.quote(title)}, async ({ page }) => {`
+    ];
+
+    const script = [...header, ...body, '});', ''].join('\n');
+
+    return {
+      sessionId: session.id,
+      filename: `codesight-${session.id}.spec.ts`,
+      script,
+      stepCount,
+      skippedCount,
+      placeholders: Array.from(placeholders).sort()
+    };
+  }
+
+  private renderStep(
+    step: ExportStep,
+    stepNumber: number,
+    timeout: number,
+    placeholders: Set<string>,
+    includeAssertions: boolean
+  ): string[] {
+    const lines: string[] = [];
+
+    if (step.type === 'NAVIGATION') {
+      return step.url ? [`  await page.goto(${this.quote(step.url)});`, `  await page.waitForLoadState('domcontentloaded');`] : [];
+    }
+
+    if (step.type === 'SCROLL') {
+      const position = step.scrollPosition;
+      return position ? [`  await page.evaluate(() => window.scrollTo(${position.x || 0}, ${position.y || 0}));`] : [];
+    }
+
+    if (SKIPPED_TYPES.has(step.type) || step.selectors.length === 0) {
+      return [];
+    }
+
+    const locator = `step${stepNumber}`;
+    lines.push(`  const ${locator} = await resolveLocator(page, ${this.quoteList(step.selectors)}, ${timeout});`);
+
+    switch (step.type) {
+      case 'INPUT': {
+        const value = this.renderValue(step, placeholders);
+        if (step.tag === 'select') {
+          lines.push(`  await ${locator}.selectOption(${value});`);
+        } else if (step.fieldType === 'checkbox' || step.fieldType === 'radio') {
+          lines.push(`  await ${locator}.check();`);
+        } else {
+          lines.push(`  await ${locator}.fill(${value});`);
+          if (includeAssertions && step.value !== undefined && step.fieldType !== 'password') {
+            lines.push(`  await expect(${locator}).toHaveValue(${value});`);
+          }
+        }
+        break;
+      }
+      case 'HOVER':
+        lines.push(`  await ${locator}.hover();`);
+        break;
+      case 'KEY_PRESS':
+        lines.push(`  await ${locator}.press(${this.quote(step.key || 'Enter')});`);
+        break;
+      case 'FORM_SUBMIT':
+        lines.push(`  await ${locator}.press('Enter');`);
+        break;
+      default:
+        lines.push(`  await ${locator}.click();`);
+    }
+
+    if (includeAssertions) {
+      lines.push(...this.renderStateAssertions(step.after));
+    }
+
+    return lines;
+  }
+
+  private renderNavigationWait(url: string): string[] {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      return [];
+    }
+    return [`  await page.waitForURL((url) => url.pathname === ${this.quote(pathname)});`];
+  }
+
+  /**
+   * Assertions for UI that the recording saw open after the interaction
+   */
+  private renderStateAssertions(after: any): string[] {
+    if (!after || typeof after !== 'object') return [];
+
+    const visible = [
+      after.activeModal,
+      ...(Array.isArray(after.openDropdowns) ? after.openDropdowns : []),
+      ...(Array.isArray(after.expandedAccordions) ? after.expandedAccordions : [])
+    ].filter((selector): selector is string => typeof selector === 'string' && CSS_LIKE.test(selector));
+
+    const lines = Array.from(new Set(visible)).map(selector =>
+      `  await expect(page.locator(${this.quote(selector)}).first()).toBeVisible();`
+    );
+
+    const errors = after.validationErrors && typeof after.validationErrors === 'object'
+      ? Object.keys(after.validationErrors)
+      : [];
+    if (errors.length > 0) {
+      lines.push(`  // Recorded validation errors after this step: ${errors.join(', ')}`);
+    }
+
+    return lines;
+  }
+
+  private renderValue(step: ExportStep, placeholders: Set<string>): string {
+    const value = step.value ?? '';
+    const field = `${step.fieldName || ''} ${step.fieldType || ''}`;
+    const rule = PII_RULES.find(candidate =>
+      candidate.fieldPattern.test(field) || (candidate.valuePattern?.test(value.trim()) ?? false)
+    );
+
+    if (!rule) return this.quote(value);
+
+    placeholders.add(rule.placeholder);
+    return `process.env.${rule.placeholder} ?? ${this.quote(rule.sample)}`;
+  }
+
+  /**
+   * Keystroke-level input events on one field collapse into a single fill
+   */
+  private collapseTyping(steps: ExportStep[]): ExportStep[] {
+    const collapsed: ExportStep[] = [];
+    for (const step of steps) {
+      const previous = collapsed[collapsed.length - 1];
+      if (
+        previous &&
+        step.type === 'INPUT' &&
+        previous.type === 'INPUT' &&
+        previous.selectors[0] === step.selectors[0]
+      ) {
+        collapsed[collapsed.length - 1] = step;
+        continue;
+      }
+      collapsed.push(step);
+    }
+    return collapsed;
+  }
+
+  private toStep(interaction: any): ExportStep {
+    const selectorData = interaction.selectors || {};
+    const best = this.selectorStrategy.getBestSelector(selectorData);
+    const selectors = best === 'element'
+      ? (interaction.interaction?.selector ? [interaction.interaction.selector] : [])
+      : [best, ...this.selectorStrategy.getBackupSelectors(selectorData, best)];
+
+    const element = interaction.element || {};
+    const attributes = element.attributes || {};
+    const after = interaction.state?.after || interaction.stateAfter || {};
+    const fieldName = element.formContext?.fieldName || attributes.name || attributes.id || attributes.autocomplete;
+    const recordedValue = interaction.interaction?.value
+      ?? (fieldName && after.formData ? after.formData[fieldName] : undefined)
+      ?? element.formContext?.value;
+    // Checkboxes record true/false and number inputs numbers
+    const recordedKey = interaction.interaction?.input?.keyboard?.keys?.[0] || interaction.interaction?.value;
+
+    return {
+      type: this.normalizeType(interaction.interaction?.type || interaction.type),
+      url: interaction.context?.pageUrl || interaction.context?.url,
+      selectors: Array.from(new Set(selectors)),
+      value: recordedValue == null ? undefined : String(recordedValue),
+      fieldName: [fieldName, attributes.autocomplete, attributes.placeholder].filter(Boolean).join(' ') || undefined,
+      fieldType: (element.formContext?.fieldType || attributes.type || '').toLowerCase() || undefined,
+      tag: element.tag?.toLowerCase(),
+      key: recordedKey == null ? undefined : String(recordedKey),
+      after,
+      scrollPosition: after.scrollPosition
+    };
+  }
+
+  private normalizeType(type: string | undefined): string {
+    const key = (type || 'click').toLowerCase();
+    const aliases: Record<string, string> = {
+      change: 'INPUT',
+      type: 'INPUT',
+      fill: 'INPUT',
+      select: 'INPUT',
+      navigate: 'NAVIGATION',
+      submit: 'FORM_SUBMIT',
+      keydown: 'KEY_PRESS',
+      keypress: 'KEY_PRESS',
+      mouseover: 'HOVER',
+      dblclick: 'CLICK'
+    };
+    return aliases[key] || key.toUpperCase();
+  }
+
+  private getOrderedInteractions(session: any): any[] {
+    const enhanced = Array.isArray(session.enhancedInteractions) ? session.enhancedInteractions : [];
+    const interactions = enhanced.length > 0 ? enhanced : (session.interactions || []);
+
+    const timestampOf = (interaction: any) => Number(interaction.interaction?.timestamp ?? interaction.timestamp ?? 0);
+    return interactions
+      .map((interaction: any, index: number) => ({ interaction, index }))
+      .sort((a: any, b: any) => (timestampOf(a.interaction) - timestampOf(b.interaction)) || (a.index - b.index))
+      .map((entry: any) => entry.interaction);
+  }
+
+  private isSamePage(a: string, b: string): boolean {
+    try {
+      const left = new URL(a);
+      const right = new URL(b);
+      return left.origin === right.origin && left.pathname === right.pathname;
+    } catch {
+      return a === b;
+    }
+  }
+
+  private quote(value: string): string {
+    return JSON.stringify(value);
+  }
+
+  private quoteList(values: string[]): string {
+    return `[${values.map(value => this.quote(value)).join(', ')}]`;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Enhanced Interaction Store Tests
+ *
+ * Tests atomic sequence assignment on append, hydration that merges legacy
+ * JSON with appended rows, and idempotent migration of legacy sessions
+ */
+
+import { EnhancedInteractionStoreImpl } from '../enhanced-interaction-store';
+
+// In-memory stand-ins for unified_sessions and enhanced_interactions
+const sessions = new Map<string, any>();
+const rows: any[] = [];
+
+const mockPrisma: any = {
+  unifiedSession: {
+    update: jest.fn(({ where, data, select }: any) => {
+      const session = sessions.get(where.id);
+      if (!session) {
+        return Promise.reject(Object.assign(new Error('Record to update not found'), { code: 'P2025' }));
+      }
+      if (data.interactionCount?.increment) {
+        session.interactionCount += data.interactionCount.increment;
+      } else if (data.interactionCount !== undefined) {
+        session.interactionCount = data.interactionCount;
+      }
+      if (data.enhancedInteractions) session.enhancedInteractions = data.enhancedInteractions;
+      return Promise.resolve(select ? { interactionCount: session.interactionCount } : session);
+    }),
+    findUnique: jest.fn(({ where }: any) => Promise.resolve(sessions.get(where.id) ?? null)),
+    findMany: jest.fn(({ where }: any) => Promise.resolve(
+      where.id.in.filter((id: string) => sessions.has(id)).map((id: string) => ({
+        id,
+        enhancedInteractions: sessions.get(id).enhancedInteractions
+      }))
+    ))
+  },
+  enhancedInteraction: {
+    create: jest.fn(({ data }: any) => {
+      if (rows.some(row => row.id === data.id || (row.sessionId === data.sessionId && row.sequence === data.sequence))) {
+        return Promise.reject(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+      }
+      rows.push(data);
+      return Promise.resolve(data);
+    }),
+    findUnique: jest.fn(({ where }: any) => Promise.resolve(rows.find(row => row.id === where.id) ?? null)),
+    createMany: jest.fn(({ data }: any) => {
+      data.forEach((row: any) => rows.push(row));
+      return Promise.resolve({ count: data.length });
+    }),
+    findMany: jest.fn(({ where }: any) => Promise.resolve(
+      rows
+        .filter(row => (where.sessionId.in ? where.sessionId.in.includes(row.sessionId) : row.sessionId === where.sessionId))
+        .sort((a, b) => a.sequence - b.sequence)
+    ))
+  },
+  $transaction: jest.fn((work: (tx: any) => Promise<any>) => work(mockPrisma))
+};
+
+describe('EnhancedInteractionStore', () => {
+  let store: EnhancedInteractionStoreImpl;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sessions.clear();
+    rows.length = 0;
+    store = new EnhancedInteractionStoreImpl(mockPrisma);
+  });
+
+  describe('➕ Appending', () => {
+    it('should take the next sequence from the session counter and never rewrite the JSON column', async () => {
+      sessions.set('s1', { id: 's1', interactionCount: 0, enhancedInteractions: [] });
+
+      const first = await store.append('s1', { id: 'i1', type: 'click', timestamp: 1000 }, { clientSequence: 7 });
+      const second = await store.append('s1', { id: 'i2', type: 'input', timestamp: 2000 });
+
+      expect(first).toEqual({ id: 'i1', sequence: 1, interactionCount: 1 });
+      expect(second.sequence).toBe(2);
+      expect(rows[0]).toEqual(expect.objectContaining({ sessionId: 's1', clientSequence: 7, type: 'click', timestamp: BigInt(1000) }));
+      expect(sessions.get('s1').enhancedInteractions).toEqual([]);
+      expect(mockPrisma.unifiedSession.update.mock.calls[0][0].data.interactionCount).toEqual({ increment: 1 });
+    });
+
+    it('should report an interaction appended again under the same id as already stored', async () => {
+      sessions.set('s1', { id: 's1', interactionCount: 0, enhancedInteractions: [] });
+
+      await store.append('s1', { id: 's1:seq:1', type: 'click', timestamp: 1000 });
+      const replay = await store.append('s1', { id: 's1:seq:1', type: 'click', timestamp: 1000 });
+
+      expect(replay).toEqual(expect.objectContaining({ id: 's1:seq:1', sequence: 1, duplicate: true }));
+      expect(rows).toHaveLength(1);
+      sessions.set('s2', { id: 's2', interactionCount: 0, enhancedInteractions: [] });
+      await expect(store.append('s2', { id: 's1:seq:1', type: 'click', timestamp: 1000 })).rejects.toMatchObject({ code: 'P2002' });
+    });
+
+    it('should report a missing session as not found', async () => {
+      await expect(store.append('missing', { id: 'i1', type: 'click' })).rejects.toThrow('Session missing not found');
+      expect(rows).toHaveLength(0);
+    });
+  });
+
+  describe('💧 Hydration', () => {
+    it('should return legacy JSON first, then appended rows in sequence order', async () => {
+      sessions.set('s1', { id: 's1', interactionCount: 1, enhancedInteractions: [{ id: 'legacy-1', type: 'click' }] });
+      await store.append('s1', { id: 'i2', type: 'input' });
+
+      const hydrated = await store.hydrate({ id: 's1', status: 'ACTIVE' });
+
+      expect(hydrated.status).toBe('ACTIVE');
+      expect(hydrated.enhancedInteractions.map(interaction => interaction.id)).toEqual(['legacy-1', 'i2']);
+    });
+
+    it('should not duplicate interactions that were migrated without clearing the JSON', async () => {
+      const legacy = [{ id: 'a', type: 'click' }, { id: 'b', type: 'click' }];
+      sessions.set('s1', { id: 's1', interactionCount: 2, enhancedInteractions: legacy });
+      await store.migrateSession('s1');
+
+      const [hydrated] = await store.hydrateMany([{ id: 's1', enhancedInteractions: legacy }]);
+
+      expect(hydrated.enhancedInteractions.map(interaction => interaction.id)).toEqual(['a', 'b']);
+      expect(mockPrisma.unifiedSession.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('🚚 Migration', () => {
+    it('should be idempotent and keep new appends after the legacy sequences', async () => {
+      sessions.set('s1', { id: 's1', interactionCount: 2, enhancedInteractions: [{ id: 'a' }, { id: 'b' }] });
+
+      const first = await store.migrateSession('s1', { clearLegacy: true });
+      sessions.get('s1').enhancedInteractions = [{ id: 'a' }, { id: 'b' }]; // simulate a re-run before the clear landed
+      const second = await store.migrateSession('s1');
+      const appended = await store.append('s1', { id: 'c', type: 'click' });
+
+      expect(first).toEqual(expect.objectContaining({ migrated: 2, alreadyPresent: 0, clearedLegacy: true }));
+      expect(second).toEqual(expect.objectContaining({ migrated: 0, alreadyPresent: 2 }));
+      expect(rows.map(row => [row.id, row.sequence])).toEqual([['a', 1], ['b', 2], ['c', 3]]);
+      expect(appended.sequence).toBe(3);
+    });
+
+    it('should refuse sessions whose rows overlap legacy sequences', async () => {
+      sessions.set('s1', { id: 's1', interactionCount: 0, enhancedInteractions: [] });
+      await store.append('s1', { id: 'new', type: 'click' });
+      sessions.get('s1').enhancedInteractions = [{ id: 'old' }];
+
+      await expect(store.migrateSession('s1')).rejects.toThrow('overlap legacy sequences');
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+
+export interface AppendResult {
+  id: string;
+  sequence: number;
+  interactionCount: number;
+  /** The row was already stored by an earlier attempt; nothing was appended */
+  duplicate?: boolean;
+}
+
+export interface MigrationResult {
+  sessionId: string;
+  legacyCount: number;
+  migrated: number;
+  alreadyPresent: number;
+  clearedLegacy: boolean;
+}
+
+export interface EnhancedInteractionStore {
+  append(sessionId: string, interaction: { id: string; [key: string]: any }, options?: { clientSequence?: number; timestamp?: number }): Promise<AppendResult>;
+  list(sessionId: string): Promise<any[]>;
+  hydrate<T extends { id: string }>(session: T): Promise<T & { enhancedInteractions: any[] }>;
+  hydrateMany<T extends { id: string }>(sessions: T[]): Promise<Array<T & { enhancedInteractions: any[] }>>;
+  migrateSession(sessionId: string, options?: { clearLegacy?: boolean }): Promise<MigrationResult>;
+}
+
+type InteractionRow = { sessionId: string; payload: Prisma.JsonValue };
+
+function asArray(value: unknown): any[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+export function toTimestamp(value: unknown): bigint {
+  const numeric = typeof value === 'string' && isNaN(Number(value)) ? Date.parse(value) : Number(value);
+  return BigInt(Number.isFinite(numeric) && numeric > 0 ? Math.floor(numeric) : Date.now());
+}
+
+/**
+ * Legacy JSON items come first (they predate every row), then rows in
+ * sequence order. Items already copied into rows are only returned once.
+ */
+function merge(legacy: any[], rows: InteractionRow[]): any[] {
+  const payloads = rows.map(row => row.payload as any);
+  const rowIds = new Set(payloads.map(payload => payload?.id).filter(Boolean));
+  return [...legacy.filter(item => !item?.id || !rowIds.has(item.id)), ...payloads];
+}
+
+/**
+ * Append-only storage for enhanced 6-group interactions. Each interaction
+ * is one row keyed by (sessionId, sequence); the sequence comes from an
+ * atomic increment of UnifiedSession.interactionCount, so concurrent
+ * appends never conflict and cost the same regardless of session length.
+ *
+ * Readers get the familiar `enhancedInteractions` array back through
+ * hydrate(), which also folds in anything still sitting in the legacy JSON
+ * column for sessions that have not been migrated yet.
+ */
+export class EnhancedInteractionStoreImpl implements EnhancedInteractionStore {
+  private logger: Logger;
+
+  constructor(private prisma: PrismaClient) {
+    this.logger = new Logger('EnhancedInteractionStore');
+  }
+
+  async append(
+    sessionId: string,
+    interaction: { id: string; [key: string]: any },
+    options: { clientSequence?: number; timestamp?: number } = {}
+  ): Promise<AppendResult> {
+    const timestamp = toTimestamp(options.timestamp ?? interaction.timestamp);
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const session = await tx.unifiedSession.update({
+          where: { id: sessionId },
+          data: {
+            interactionCount: { increment: 1 },
+            lastInteractionTime: new Date(Number(timestamp))
+          },
+          select: { interactionCount: true }
+        });
+
+        await tx.enhancedInteraction.create({
+          data: {
+            id: interaction.id,
+            sessionId,
+            sequence: session.interactionCount,
+            clientSequence: Number.isInteger(options.clientSequence) ? options.clientSequence : null,
+            type: String(interaction.type || 'unknown'),
+            timestamp,
+            payload: interaction as Prisma.InputJsonValue
+          }
+        });
+
+        return { id: interaction.id, sequence: session.interactionCount, interactionCount: session.interactionCount };
+      });
+    } catch (error: any) {
+      if (error?.code === 'P2025') {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+      if (error?.code === 'P2002') {
+        const existing = await this.findExisting(sessionId, interaction.id);
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * A retried or replayed append whose row is already stored under the same
+   * id; the transaction rolled back, so the session counter is unchanged
+   */
+  private async findExisting(sessionId: string, id: string): Promise<AppendResult | null> {
+    const row = await this.prisma.enhancedInteraction.findUnique({ where: { id }, select: { sessionId: true, sequence: true } });
+    if (!row || row.sessionId !== sessionId) return null;
+
+    const session = await this.prisma.unifiedSession.findUnique({ where: { id: sessionId }, select: { interactionCount: true } });
+    this.logger.info('Interaction already stored', { sessionId, id, sequence: row.sequence });
+    return { id, sequence: row.sequence, interactionCount: session?.interactionCount ?? row.sequence, duplicate: true };
+  }
+
+  async list(sessionId: string): Promise<any[]> {
+    const { enhancedInteractions } = await this.hydrate({ id: sessionId });
+    return enhancedInteractions;
+  }
+
+  async hydrate<T extends { id: string }>(session: T): Promise<T & { enhancedInteractions: any[] }> {
+    const [hydrated] = await this.hydrateMany([session]);
+    return hydrated;
+  }
+
+  async hydrateMany<T extends { id: string }>(sessions: T[]): Promise<Array<T & { enhancedInteractions: any[] }>> {
+    if (sessions.length === 0) return [];
+
+    const ids = sessions.map(session => session.id);
+
+    // Callers that selected only some columns still need the legacy JSON for unmigrated sessions
+    const missingLegacy = sessions.filter(session => !('enhancedInteractions' in session)).map(session => session.id);
+    const [rows, legacyRows] = await Promise.all([
+      this.prisma.enhancedInteraction.findMany({
+        where: { sessionId: { in: ids } },
+        orderBy: [{ sessionId: 'asc' }, { sequence: 'asc' }],
+        select: { sessionId: true, payload: true }
+      }),
+      missingLegacy.length > 0
+        ? this.prisma.unifiedSession.findMany({
+          where: { id: { in: missingLegacy } },
+          select: { id: true, enhancedInteractions: true }
+        })
+        : Promise.resolve([])
+    ]);
+
+    const rowsBySession = new Map<string, InteractionRow[]>();
+    for (const row of rows) {
+      if (!rowsBySession.has(row.sessionId)) rowsBySession.set(row.sessionId, []);
+      rowsBySession.get(row.sessionId)!.push(row);
+    }
+    const legacyBySession = new Map(legacyRows.map(row => [row.id, row.enhancedInteractions]));
+
+    return sessions.map(session => {
+      const legacy = 'enhancedInteractions' in session
+        ? asArray((session as any).enhancedInteractions)
+        : asArray(legacyBySession.get(session.id));
+
+      return {
+        ...session,
+        enhancedInteractions: merge(legacy, rowsBySession.get(session.id) || [])
+      };
+    });
+  }
+
+  async migrateSession(sessionId: string, options: { clearLegacy?: boolean } = {}): Promise<MigrationResult> {
+    return this.prisma.$transaction(async (tx) => {
+      const session = await tx.unifiedSession.findUnique({
+        where: { id: sessionId },
+        select: { id: true, enhancedInteractions: true, interactionCount: true }
+      });
+      if (!session) {
+        throw new Error(`Session ${sessionId} not found`);
+      }
+
+      const legacy = asArray(session.enhancedInteractions);
+      const existing = await tx.enhancedInteraction.findMany({
+        where: { sessionId },
+        select: { id: true, sequence: true }
+      });
+      const existingIds = new Set(existing.map(row => row.id));
+      const lowestExistingSequence = existing.reduce((lowest, row) => Math.min(lowest, row.sequence), Infinity);
+
+      // Legacy items take sequences 1..n; rows appended since deploy started after interactionCount
+      const pending = legacy
+        .map((item, index) => ({ item, sequence: index + 1 }))
+        .filter(({ item }) => !item?.id || !existingIds.has(item.id));
+
+      if (pending.some(({ sequence }) => sequence >= lowestExistingSequence)) {
+        throw new Error(`Session ${sessionId} has rows that overlap legacy sequences; migrate it manually`);
+      }
+
+      if (pending.length > 0) {
+        await tx.enhancedInteraction.createMany({
+          data: pending.map(({ item, sequence }) => ({
+            id: item?.id || `${sessionId}:${sequence}`,
+            sessionId,
+            sequence,
+            clientSequence: Number.isInteger(item?.sequence) ? item.sequence : null,
+            type: String(item?.type || 'unknown'),
+            timestamp: toTimestamp(item?.timestamp),
+            payload: item as Prisma.InputJsonValue
+          })),
+          skipDuplicates: true
+        });
+      }
+
+      const highestSequence = Math.max(legacy.length, ...existing.map(row => row.sequence), 0);
+      await tx.unifiedSession.update({
+        where: { id: sessionId },
+        data: {
+          interactionCount: Math.max(session.interactionCount, highestSequence),
+          ...(options.clearLegacy ? { enhancedInteractions: [] } : {})
+        }
+      });
+
+      this.logger.info('Migrated legacy enhanced interactions', {
+        sessionId,
+        legacyCount: legacy.length,
+        migrated: pending.length,
+        clearedLegacy: !!options.clearLegacy
+      });
+
+      return {
+        sessionId,
+        legacyCount: legacy.length,
+        migrated: pending.length,
+        alreadyPresent: legacy.length - pending.length,
+        clearedLegacy: !!options.clearLegacy
+      };
+    });
+  }
+}
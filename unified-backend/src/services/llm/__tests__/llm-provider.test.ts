@@ -0,0 +1,153 @@
+/**
+ * LLM Provider Tests
+ *
+ * Tests the deterministic fake provider, OpenAI request mapping and
+ * config-driven provider selection
+ */
+
+import {
+  FakeLLMProvider,
+  OpenAIProvider,
+  OpenAICompatibleProvider,
+  LLMProviderError,
+  createLLMProvider
+} from '..';
+
+describe('LLM Provider Layer', () => {
+  describe('🧪 Fake Provider', () => {
+    it('should return identical replies for identical requests', async () => {
+      const provider = new FakeLLMProvider();
+      const request = { messages: [{ role: 'user' as const, content: 'Describe this page' }] };
+
+      const first = await provider.chat(request);
+      const second = await provider.chat(request);
+
+      expect(first.content).toBe(second.content);
+      expect(first.usage!.totalTokens).toBeGreaterThan(0);
+      expect(provider.requests).toHaveLength(2);
+    });
+
+    it('should return valid JSON in json_object mode', async () => {
+      const provider = new FakeLLMProvider();
+
+      const result = await provider.chat({
+        messages: [{ role: 'user', content: 'Generate a shopping task' }],
+        responseFormat: 'json_object'
+      });
+
+      const parsed = JSON.parse(result.content);
+      expect(parsed.title).toBeDefined();
+      expect(Array.isArray(parsed.steps)).toBe(true);
+    });
+
+    it('should use canned responses matched against the last user message', async () => {
+      const provider = new FakeLLMProvider({
+        responses: [{ match: /screenshot/i, content: 'Impulsive shopper with limited time' }]
+      });
+
+      const result = await provider.analyzeImage({
+        prompt: 'Analyze this screenshot',
+        imageUrl: 'data:image/png;base64,AAAA'
+      });
+
+      expect(result.content).toBe('Impulsive shopper with limited time');
+    });
+
+    it('should walk fine-tuning jobs through their lifecycle', async () => {
+      const provider = new FakeLLMProvider();
+      const file = await provider.uploadFile('{"messages":[]}\n', 'training.jsonl', 'fine-tune');
+
+      const job = await provider.createFineTuneJob({
+        trainingFileId: file.id,
+        model: 'gpt-4o-mini-2024-07-18',
+        suffix: 'codesight'
+      });
+      expect(job.status).toBe('queued');
+
+      expect((await provider.retrieveFineTuneJob(job.id)).status).toBe('running');
+
+      const finished = await provider.retrieveFineTuneJob(job.id);
+      expect(finished.status).toBe('succeeded');
+      expect(finished.fineTunedModel).toContain('codesight');
+
+      const cancelled = await provider.cancelFineTuneJob(job.id);
+      expect(cancelled.status).toBe('succeeded');
+    });
+
+    it('should reject jobs for unknown training files', async () => {
+      const provider = new FakeLLMProvider();
+
+      await expect(provider.createFineTuneJob({ trainingFileId: 'missing', model: 'gpt-4o-mini' }))
+        .rejects.toBeInstanceOf(LLMProviderError);
+    });
+  });
+
+  describe('🔌 OpenAI Providers', () => {
+    it('should map chat requests onto the SDK and prefer configured models', async () => {
+      const client = {
+        chat: {
+          completions: {
+            create: jest.fn().mockResolvedValue({
+              model: 'llama3',
+              choices: [{ message: { content: '{"ok":true}' } }],
+              usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 }
+            })
+          }
+        }
+      } as any;
+
+      const provider = new OpenAIProvider({ client, chatModel: 'llama3' });
+      const result = await provider.chat({
+        model: 'gpt-3.5-turbo',
+        messages: [{ role: 'user', content: 'hi' }],
+        maxTokens: 10,
+        responseFormat: 'json_object'
+      });
+
+      expect(client.chat.completions.create).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'llama3',
+        max_tokens: 10,
+        response_format: { type: 'json_object' }
+      }));
+      expect(result).toEqual({
+        content: '{"ok":true}',
+        model: 'llama3',
+        usage: { promptTokens: 3, completionTokens: 4, totalTokens: 7 }
+      });
+    });
+
+    it('should keep image requests on the vision model when a chat model is also configured', async () => {
+      const create = jest.fn().mockResolvedValue({ choices: [{ message: { content: 'a checkout page' } }] });
+      const provider = new OpenAIProvider({ client: { chat: { completions: { create } } } as any, chatModel: 'llama3', visionModel: 'llava' });
+
+      const result = await provider.analyzeImage({ prompt: 'What is this?', imageUrl: 'data:image/png;base64,AAAA', model: 'gpt-4o' });
+
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ model: 'llava' }));
+      expect(result.model).toBe('llava');
+    });
+
+    it('should refuse fine-tuning on OpenAI-compatible endpoints', async () => {
+      const provider = new OpenAICompatibleProvider({ baseURL: 'http://localhost:11434/v1' });
+
+      await expect(provider.createFineTuneJob()).rejects.toBeInstanceOf(LLMProviderError);
+      await expect(provider.listFineTuneJobs()).resolves.toEqual([]);
+    });
+  });
+
+  describe('⚙️ Provider Selection', () => {
+    it('should build the provider named in config', () => {
+      expect(createLLMProvider({ provider: 'fake', timeoutMs: 1000 }).name).toBe('fake');
+      expect(createLLMProvider({
+        provider: 'openai-compatible',
+        baseUrl: 'http://localhost:8000/v1',
+        timeoutMs: 1000
+      }).name).toBe('openai-compatible');
+      expect(createLLMProvider({ provider: 'openai', apiKey: 'sk-test', timeoutMs: 1000 }).name).toBe('openai');
+    });
+
+    it('should fail fast on incomplete config', () => {
+      expect(() => createLLMProvider({ provider: 'openai', timeoutMs: 1000 })).toThrow('OPENAI_API_KEY');
+      expect(() => createLLMProvider({ provider: 'openai-compatible', timeoutMs: 1000 })).toThrow('LLM_BASE_URL');
+    });
+  });
+});
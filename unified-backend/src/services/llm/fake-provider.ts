@@ -0,0 +1,201 @@
+import { createHash } from 'crypto';
+import {
+  ChatRequest,
+  ChatResult,
+  FineTuneJob,
+  FineTuneJobRequest,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderName,
+  UploadedFile,
+  VisionRequest
+} from './llm-provider';
+
+export interface FakeLLMProviderOptions {
+  /** Canned replies, checked in order against the last user message */
+  responses?: Array<{ match: string | RegExp; content: string }>;
+  /** Reply for text requests that match nothing */
+  defaultContent?: string;
+  /** Reply for json_object requests that match nothing */
+  defaultJson?: Record<string, any>;
+}
+
+const FAKE_MODEL = 'fake-llm';
+
+/**
+ * Deterministic in-process provider for tests and offline runs.
+ * The same request always yields the same reply, and fine-tuning jobs
+ * advance one state per retrieve (queued → running → succeeded).
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'fake';
+  readonly requests: ChatRequest[] = [];
+
+  private options: FakeLLMProviderOptions;
+  private files: Map<string, UploadedFile & { content: string }> = new Map();
+  private jobs: Map<string, FineTuneJob> = new Map();
+  private jobSuffixes: Map<string, string> = new Map();
+
+  constructor(options: FakeLLMProviderOptions = {}) {
+    this.options = options;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    this.requests.push(request);
+
+    const prompt = this.getLastUserText(request);
+    const digest = this.digest(JSON.stringify(request.messages));
+    const canned = this.options.responses?.find(response =>
+      typeof response.match === 'string' ? prompt.includes(response.match) : response.match.test(prompt)
+    );
+
+    let content: string;
+    if (canned) {
+      content = canned.content;
+    } else if (request.responseFormat === 'json_object') {
+      content = JSON.stringify(this.options.defaultJson || this.buildDefaultJson(digest));
+    } else {
+      content = this.options.defaultContent ||
+        `Offline analysis ${digest.slice(0, 8)}: the user shows careful, analytical behavior, ` +
+        'compares products and checks reviews before deciding.';
+    }
+
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: request.model || FAKE_MODEL,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+
+  async analyzeImage(request: VisionRequest): Promise<ChatResult> {
+    return this.chat({
+      model: request.model,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: request.prompt },
+            { type: 'image_url', image_url: { url: request.imageUrl, detail: request.detail } }
+          ]
+        }
+      ],
+      maxTokens: request.maxTokens,
+      temperature: request.temperature
+    });
+  }
+
+  async uploadFile(content: string, filename: string, purpose: 'fine-tune' | 'assistants'): Promise<UploadedFile> {
+    const uploaded: UploadedFile = {
+      id: `file-fake-${this.digest(content).slice(0, 24)}`,
+      filename,
+      bytes: Buffer.byteLength(content),
+      purpose
+    };
+    this.files.set(uploaded.id, { ...uploaded, content });
+
+    return uploaded;
+  }
+
+  async createFineTuneJob(request: FineTuneJobRequest): Promise<FineTuneJob> {
+    if (!this.files.has(request.trainingFileId)) {
+      throw new LLMProviderError(this.name, 'createFineTuneJob', `Unknown training file ${request.trainingFileId}`);
+    }
+
+    const id = `ftjob-fake-${this.digest(`${request.trainingFileId}:${request.model}:${this.jobs.size}`).slice(0, 24)}`;
+    const job: FineTuneJob = {
+      id,
+      status: 'queued',
+      model: request.model,
+      fineTunedModel: null,
+      trainingFileId: request.trainingFileId,
+      trainedTokens: null,
+      createdAt: Math.floor(Date.now() / 1000),
+      finishedAt: null,
+      estimatedFinish: null,
+      error: null,
+      hyperparameters: request.hyperparameters || {},
+      resultFiles: []
+    };
+
+    this.jobs.set(id, job);
+    if (request.suffix) {
+      this.jobSuffixes.set(id, request.suffix);
+    }
+    return { ...job };
+  }
+
+  async retrieveFineTuneJob(jobId: string): Promise<FineTuneJob> {
+    const job = this.getJob(jobId);
+
+    if (job.status === 'queued') {
+      job.status = 'running';
+    } else if (job.status === 'running') {
+      const suffix = this.jobSuffixes.get(job.id) || 'model';
+      const file = this.files.get(job.trainingFileId);
+
+      job.status = 'succeeded';
+      job.fineTunedModel = `ft:${job.model}:fake:${suffix}:${job.id.slice(-8)}`;
+      job.trainedTokens = Math.ceil((file?.bytes || 0) / 4);
+      job.finishedAt = Math.floor(Date.now() / 1000);
+    }
+
+    return { ...job };
+  }
+
+  async listFineTuneJobs(): Promise<FineTuneJob[]> {
+    return Array.from(this.jobs.values()).map(job => ({ ...job }));
+  }
+
+  async cancelFineTuneJob(jobId: string): Promise<FineTuneJob> {
+    const job = this.getJob(jobId);
+
+    if (job.status !== 'succeeded' && job.status !== 'failed') {
+      job.status = 'cancelled';
+      job.finishedAt = Math.floor(Date.now() / 1000);
+    }
+
+    return { ...job };
+  }
+
+  private getJob(jobId: string): FineTuneJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new LLMProviderError(this.name, 'retrieveFineTuneJob', `Unknown fine-tuning job ${jobId}`);
+    }
+    return job;
+  }
+
+  private getLastUserText(request: ChatRequest): string {
+    const userMessages = request.messages.filter(message => message.role === 'user');
+    const last = userMessages[userMessages.length - 1];
+    if (!last) return '';
+
+    if (typeof last.content === 'string') return last.content;
+    return last.content
+      .map(part => (part.type === 'text' ? part.text : ''))
+      .join(' ');
+  }
+
+  private buildDefaultJson(digest: string): Record<string, any> {
+    return {
+      title: `Offline task ${digest.slice(0, 6)}`,
+      description: 'Find a product, choose a variant and add it to the cart.',
+      steps: ['Open the store homepage', 'Search for the product', 'Select a variant', 'Add the product to the cart'],
+      successCriteria: ['Product is in the cart with the chosen variant'],
+      estimatedTime: 5,
+      tags: ['offline', 'fake'],
+      difficulty: 'beginner'
+    };
+  }
+
+  private digest(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * LLM Provider Layer - Main Export
+ *
+ * Services depend on the LLMProvider interface; the concrete vendor is
+ * chosen by LLM_PROVIDER (openai | openai-compatible | fake).
+ */
+
+export * from './llm-provider';
+export { OpenAIProvider, OpenAICompatibleProvider, OpenAIProviderOptions } from './openai-provider';
+export { FakeLLMProvider, FakeLLMProviderOptions } from './fake-provider';
+export { InstrumentedLLMProvider } from './instrumented-provider';
+export { createLLMProvider, getLLMProvider, setLLMProvider, LLMProviderConfig } from './provider-factory';
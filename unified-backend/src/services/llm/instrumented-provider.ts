@@ -0,0 +1,86 @@
+import { Counter, Histogram, MetricsRegistry, getMetricsRegistry } from '../metrics/openmetrics';
+import {
+  ChatRequest,
+  ChatResult,
+  FineTuneJob,
+  FineTuneJobRequest,
+  LLMProvider,
+  LLMProviderName,
+  UploadedFile,
+  VisionRequest
+} from './llm-provider';
+
+const DURATION_BUCKETS_SECONDS = [0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+
+/**
+ * Wraps a provider to count calls, time them and tally token usage for
+ * /metrics. Behaviour and errors pass through unchanged.
+ */
+export class InstrumentedLLMProvider implements LLMProvider {
+  private requests: Counter;
+  private duration: Histogram;
+  private tokens: Counter;
+
+  constructor(private inner: LLMProvider, registry: MetricsRegistry = getMetricsRegistry()) {
+    this.requests = registry.counter('llm_requests', 'LLM provider calls by operation and outcome');
+    this.duration = registry.histogram('llm_request_duration_seconds', 'LLM provider call latency', DURATION_BUCKETS_SECONDS);
+    this.tokens = registry.counter('llm_tokens', 'Tokens reported by the LLM provider, by model and token type');
+  }
+
+  get name(): LLMProviderName {
+    return this.inner.name;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    return this.recordUsage(await this.track('chat', () => this.inner.chat(request)));
+  }
+
+  async analyzeImage(request: VisionRequest): Promise<ChatResult> {
+    return this.recordUsage(await this.track('analyze_image', () => this.inner.analyzeImage(request)));
+  }
+
+  uploadFile(content: string, filename: string, purpose: 'fine-tune' | 'assistants'): Promise<UploadedFile> {
+    return this.track('upload_file', () => this.inner.uploadFile(content, filename, purpose));
+  }
+
+  createFineTuneJob(request: FineTuneJobRequest): Promise<FineTuneJob> {
+    return this.track('create_fine_tune_job', () => this.inner.createFineTuneJob(request));
+  }
+
+  retrieveFineTuneJob(jobId: string): Promise<FineTuneJob> {
+    return this.track('retrieve_fine_tune_job', () => this.inner.retrieveFineTuneJob(jobId));
+  }
+
+  listFineTuneJobs(): Promise<FineTuneJob[]> {
+    return this.track('list_fine_tune_jobs', () => this.inner.listFineTuneJobs());
+  }
+
+  cancelFineTuneJob(jobId: string): Promise<FineTuneJob> {
+    return this.track('cancel_fine_tune_job', () => this.inner.cancelFineTuneJob(jobId));
+  }
+
+  private async track<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    const labels = { provider: this.inner.name, operation };
+    const startedAt = process.hrtime.bigint();
+    let outcome = 'success';
+
+    try {
+      return await call();
+    } catch (error) {
+      outcome = 'error';
+      throw error;
+    } finally {
+      this.requests.inc({ ...labels, outcome });
+      this.duration.observe(labels, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    }
+  }
+
+  private recordUsage(result: ChatResult): ChatResult {
+    if (result.usage) {
+      const labels = { provider: this.inner.name, model: result.model };
+      this.tokens.inc({ ...labels, type: 'prompt' }, result.usage.promptTokens);
+      this.tokens.inc({ ...labels, type: 'completion' }, result.usage.completionTokens);
+    }
+    return result;
+  }
+}
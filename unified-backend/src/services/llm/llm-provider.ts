@@ -0,0 +1,104 @@
+// LLM provider abstraction shared by every service that talks to a model vendor
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'fake';
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string | LLMContentPart[];
+}
+
+export interface ChatRequest {
+  /** Preferred model; providers may override it via config */
+  model?: string;
+  /** Use `model` exactly, ignoring config overrides (e.g. fine-tuned models) */
+  pinModel?: boolean;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'text' | 'json_object';
+}
+
+export interface VisionRequest {
+  model?: string;
+  prompt: string;
+  imageUrl: string;
+  detail?: 'low' | 'high' | 'auto';
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+export interface UploadedFile {
+  id: string;
+  filename: string;
+  bytes: number;
+  purpose: string;
+}
+
+export interface FineTuneJobRequest {
+  trainingFileId: string;
+  validationFileId?: string;
+  model: string;
+  hyperparameters?: {
+    n_epochs?: number;
+    batch_size?: number;
+    learning_rate_multiplier?: number;
+  };
+  suffix?: string;
+}
+
+export type FineTuneJobStatus = 'validating_files' | 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface FineTuneJob {
+  id: string;
+  status: FineTuneJobStatus;
+  model: string;
+  fineTunedModel: string | null;
+  trainingFileId: string;
+  trainedTokens: number | null;
+  /** Unix seconds, matching the OpenAI API */
+  createdAt: number;
+  finishedAt: number | null;
+  estimatedFinish: number | null;
+  error: { code?: string; message: string } | null;
+  hyperparameters: any;
+  resultFiles: string[];
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  analyzeImage(request: VisionRequest): Promise<ChatResult>;
+  uploadFile(content: string, filename: string, purpose: 'fine-tune' | 'assistants'): Promise<UploadedFile>;
+  createFineTuneJob(request: FineTuneJobRequest): Promise<FineTuneJob>;
+  retrieveFineTuneJob(jobId: string): Promise<FineTuneJob>;
+  listFineTuneJobs(): Promise<FineTuneJob[]>;
+  cancelFineTuneJob(jobId: string): Promise<FineTuneJob>;
+}
+
+export class LLMProviderError extends Error {
+  readonly provider: LLMProviderName;
+  readonly operation: string;
+
+  constructor(provider: LLMProviderName, operation: string, message: string) {
+    super(`[${provider}] ${operation}: ${message}`);
+    this.name = 'LLMProviderError';
+    this.provider = provider;
+    this.operation = operation;
+  }
+}
@@ -0,0 +1,202 @@
+import OpenAI from 'openai';
+import { Logger } from '../../utils/logger';
+import {
+  ChatRequest,
+  ChatResult,
+  FineTuneJob,
+  FineTuneJobRequest,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderName,
+  UploadedFile,
+  VisionRequest
+} from './llm-provider';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  timeoutMs?: number;
+  /** Forces every chat call onto this model when set */
+  chatModel?: string;
+  /** Forces every vision call onto this model when set */
+  visionModel?: string;
+  /** Pre-built client, mainly for tests */
+  client?: OpenAI;
+}
+
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+const DEFAULT_VISION_MODEL = 'gpt-4o';
+
+/**
+ * LLM provider backed by the official OpenAI SDK
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai';
+  protected client: OpenAI;
+  protected options: OpenAIProviderOptions;
+  protected logger: Logger;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.options = options;
+    this.logger = new Logger('OpenAIProvider');
+    this.client = options.client || new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      timeout: options.timeoutMs
+    });
+  }
+
+  /**
+   * Send a chat completion request
+   * @param request - Messages and generation settings
+   * @returns Text content of the first choice
+   */
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const model = request.pinModel && request.model
+      ? request.model
+      : this.options.chatModel || request.model || DEFAULT_CHAT_MODEL;
+
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: request.messages as any,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.responseFormat ? { response_format: { type: request.responseFormat } } : {})
+    });
+
+    return {
+      content: response.choices?.[0]?.message?.content || '',
+      model: response.model || model,
+      usage: response.usage ? {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+        totalTokens: response.usage.total_tokens
+      } : undefined
+    };
+  }
+
+  /**
+   * Ask a vision-capable model about a single image
+   * @param request - Prompt plus image URL (https or data URL)
+   */
+  async analyzeImage(request: VisionRequest): Promise<ChatResult> {
+    return this.chat({
+      model: this.options.visionModel || request.model || DEFAULT_VISION_MODEL,
+      // The configured chat model may not take images
+      pinModel: true,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: request.prompt },
+            { type: 'image_url', image_url: { url: request.imageUrl, detail: request.detail || 'high' } }
+          ]
+        }
+      ],
+      maxTokens: request.maxTokens,
+      temperature: request.temperature
+    });
+  }
+
+  async uploadFile(content: string, filename: string, purpose: 'fine-tune' | 'assistants'): Promise<UploadedFile> {
+    const blob = new Blob([content], { type: 'application/jsonl' });
+    const fileObject = Object.assign(blob, {
+      name: filename,
+      lastModified: Date.now()
+    });
+
+    const file = await this.client.files.create({
+      file: fileObject as any,
+      purpose
+    });
+
+    return {
+      id: file.id,
+      filename: file.filename || filename,
+      bytes: file.bytes ?? content.length,
+      purpose: file.purpose || purpose
+    };
+  }
+
+  async createFineTuneJob(request: FineTuneJobRequest): Promise<FineTuneJob> {
+    const job = await this.client.fineTuning.jobs.create({
+      training_file: request.trainingFileId,
+      validation_file: request.validationFileId,
+      model: request.model,
+      hyperparameters: request.hyperparameters,
+      suffix: request.suffix
+    });
+
+    return this.toFineTuneJob(job);
+  }
+
+  async retrieveFineTuneJob(jobId: string): Promise<FineTuneJob> {
+    const job = await this.client.fineTuning.jobs.retrieve(jobId);
+    return this.toFineTuneJob(job);
+  }
+
+  async listFineTuneJobs(): Promise<FineTuneJob[]> {
+    const jobs = await this.client.fineTuning.jobs.list();
+    return jobs.data.map(job => this.toFineTuneJob(job));
+  }
+
+  async cancelFineTuneJob(jobId: string): Promise<FineTuneJob> {
+    const job = await this.client.fineTuning.jobs.cancel(jobId);
+    return this.toFineTuneJob(job);
+  }
+
+  protected toFineTuneJob(job: any): FineTuneJob {
+    return {
+      id: job.id,
+      status: job.status,
+      model: job.model,
+      fineTunedModel: job.fine_tuned_model ?? null,
+      trainingFileId: job.training_file,
+      trainedTokens: job.trained_tokens ?? null,
+      createdAt: job.created_at,
+      finishedAt: job.finished_at ?? null,
+      estimatedFinish: job.estimated_finish ?? null,
+      error: job.error && job.error.message ? { code: job.error.code, message: job.error.message } : null,
+      hyperparameters: job.hyperparameters,
+      resultFiles: job.result_files || []
+    };
+  }
+}
+
+/**
+ * Provider for self-hosted servers that speak the OpenAI chat API
+ * (vLLM, Ollama, LM Studio, llama.cpp). Fine-tuning is not part of that
+ * surface, so job control fails fast instead of hitting a 404.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = 'openai-compatible';
+
+  constructor(options: OpenAIProviderOptions & { baseURL: string }) {
+    super({
+      ...options,
+      // Most local servers ignore the key but the SDK refuses to start without one
+      apiKey: options.apiKey || 'not-needed'
+    });
+    this.logger = new Logger('OpenAICompatibleProvider');
+  }
+
+  async uploadFile(): Promise<UploadedFile> {
+    throw new LLMProviderError(this.name, 'uploadFile', 'File uploads are not supported by OpenAI-compatible endpoints');
+  }
+
+  async createFineTuneJob(): Promise<FineTuneJob> {
+    throw new LLMProviderError(this.name, 'createFineTuneJob', 'Fine-tuning is not supported by OpenAI-compatible endpoints');
+  }
+
+  async retrieveFineTuneJob(): Promise<FineTuneJob> {
+    throw new LLMProviderError(this.name, 'retrieveFineTuneJob', 'Fine-tuning is not supported by OpenAI-compatible endpoints');
+  }
+
+  async listFineTuneJobs(): Promise<FineTuneJob[]> {
+    return [];
+  }
+
+  async cancelFineTuneJob(): Promise<FineTuneJob> {
+    throw new LLMProviderError(this.name, 'cancelFineTuneJob', 'Fine-tuning is not supported by OpenAI-compatible endpoints');
+  }
+}
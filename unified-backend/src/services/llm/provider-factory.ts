@@ -0,0 +1,74 @@
+import { getConfig } from '../../utils/env-validator';
+import { Logger } from '../../utils/logger';
+import { LLMProvider, LLMProviderName } from './llm-provider';
+import { OpenAIProvider, OpenAICompatibleProvider } from './openai-provider';
+import { FakeLLMProvider } from './fake-provider';
+import { InstrumentedLLMProvider } from './instrumented-provider';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  chatModel?: string;
+  visionModel?: string;
+  timeoutMs: number;
+}
+
+const logger = new Logger('LLMProviderFactory');
+
+let sharedProvider: LLMProvider | null = null;
+
+/**
+ * Build a provider from config (defaults to the LLM_* environment settings)
+ */
+export function createLLMProvider(config: LLMProviderConfig = getConfig().llm): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      if (!config.apiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required for the openai LLM provider');
+      }
+      return new OpenAIProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseUrl,
+        timeoutMs: config.timeoutMs,
+        chatModel: config.chatModel,
+        visionModel: config.visionModel
+      });
+
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('LLM_BASE_URL environment variable is required for the openai-compatible LLM provider');
+      }
+      return new OpenAICompatibleProvider({
+        apiKey: config.apiKey,
+        baseURL: config.baseUrl,
+        timeoutMs: config.timeoutMs,
+        chatModel: config.chatModel,
+        visionModel: config.visionModel
+      });
+
+    case 'fake':
+      return new FakeLLMProvider();
+
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+/**
+ * Process-wide provider so services share one client; calls are counted for /metrics
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!sharedProvider) {
+    sharedProvider = new InstrumentedLLMProvider(createLLMProvider());
+    logger.info('LLM provider initialized', { provider: sharedProvider.name });
+  }
+  return sharedProvider;
+}
+
+/**
+ * Replace the shared provider (tests, offline scripts)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  sharedProvider = provider;
+}
@@ -0,0 +1,128 @@
+/**
+ * Metrics Store Tests
+ *
+ * Tests minute aggregation and hour/day rollup on flush, histogram
+ * percentile estimates, and reading rollups back
+ */
+
+import { LATENCY_BUCKETS_MS, MetricsStoreImpl, estimatePercentile, seriesKey, summarize } from '../metrics-store';
+
+const COLUMNS = 11;
+
+const mockPrisma = {
+  $executeRaw: jest.fn(() => Promise.resolve(1)),
+  metricRollup: {
+    findMany: jest.fn()
+  }
+} as any;
+
+// Unpack the VALUES tuples of the upsert statement
+const writtenRows = () => {
+  const values = (mockPrisma.$executeRaw.mock.calls[0] as any[])[0].values as any[];
+  const rows = [];
+  for (let i = 0; i < values.length; i += COLUMNS) {
+    const [, name, series, , resolution, bucketStart, count, sum, min, max, histogram] = values.slice(i, i + COLUMNS);
+    rows.push({ name, series, resolution, bucketStart, count, sum, min, max, histogram });
+  }
+  return rows;
+};
+
+describe('MetricsStore', () => {
+  let store: MetricsStoreImpl;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new MetricsStoreImpl(mockPrisma);
+  });
+
+  describe('📈 Rollups', () => {
+    it('should fold minute aggregates into hour and day rows on flush', async () => {
+      const labels = { route: '/api/sessions', method: 'GET', status: '200' };
+      store.observe('http_request_duration_ms', 20, labels, new Date('2026-10-19T10:00:05Z'));
+      store.observe('http_request_duration_ms', 40, labels, new Date('2026-10-19T10:00:50Z'));
+      store.observe('http_request_duration_ms', 3000, labels, new Date('2026-10-19T10:01:10Z'));
+
+      const written = await store.flush();
+
+      expect(written).toBe(4);
+      const rows = writtenRows();
+      expect(rows.map(row => row.resolution)).toEqual(['MINUTE', 'HOUR', 'DAY', 'MINUTE']);
+      expect(rows.every(row => row.series === 'method=GET,route=/api/sessions,status=200')).toBe(true);
+
+      const hour = rows.find(row => row.resolution === 'HOUR')!;
+      expect(hour).toEqual(expect.objectContaining({ count: 3, sum: 3060, min: 20, max: 3000 }));
+      expect(hour.bucketStart).toEqual(new Date('2026-10-19T10:00:00Z'));
+      expect(hour.histogram[LATENCY_BUCKETS_MS.indexOf(25)]).toBe(1);
+      expect(hour.histogram[LATENCY_BUCKETS_MS.indexOf(50)]).toBe(1);
+      expect(hour.histogram[LATENCY_BUCKETS_MS.indexOf(5000)]).toBe(1);
+
+      const firstMinute = rows[0];
+      expect(firstMinute).toEqual(expect.objectContaining({ count: 2, sum: 60 }));
+    });
+
+    it('should keep gauges without a histogram and write nothing when idle', async () => {
+      store.gauge('system_cpu_usage_percent', 35, {}, new Date('2026-10-19T10:00:00Z'));
+      store.gauge('system_cpu_usage_percent', 55, {}, new Date('2026-10-19T10:00:30Z'));
+
+      await store.flush();
+      const rows = writtenRows();
+
+      expect(rows[0]).toEqual(expect.objectContaining({ series: '', count: 2, min: 35, max: 55, histogram: [] }));
+      expect(await store.flush()).toBe(0);
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop the interval when a flush fails', async () => {
+      mockPrisma.$executeRaw.mockRejectedValueOnce(new Error('connection lost'));
+      store.observe('http_request_duration_ms', 12);
+
+      expect(await store.flush()).toBe(0);
+      expect(await store.flush()).toBe(0);
+    });
+  });
+
+  describe('📊 Summaries', () => {
+    it('should estimate percentiles from merged histograms', () => {
+      const histogram = new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+      histogram[LATENCY_BUCKETS_MS.indexOf(100)] = 90;
+      histogram[LATENCY_BUCKETS_MS.indexOf(1000)] = 10;
+      const half = histogram.map(count => count / 2);
+
+      const summary = summarize([
+        { count: 50, sum: 5000, min: 60, max: 900, histogram: half },
+        { count: 50, sum: 5000, min: 55, max: 800, histogram: half }
+      ]);
+
+      expect(summary).toEqual(expect.objectContaining({ count: 100, min: 55, max: 900, average: 100 }));
+      expect(estimatePercentile(summary, 50)).toBeGreaterThan(50);
+      expect(estimatePercentile(summary, 50)).toBeLessThanOrEqual(100);
+      expect(estimatePercentile(summary, 95)).toBeGreaterThan(500);
+      expect(estimatePercentile(summary, 95)).toBeLessThanOrEqual(900);
+      expect(estimatePercentile(summarize([]), 95)).toBe(0);
+    });
+
+    it('should read rollups from the aligned bucket start', async () => {
+      mockPrisma.metricRollup.findMany.mockResolvedValue([{
+        name: 'http_request_duration_ms',
+        series: seriesKey({ method: 'GET', route: '/health', status: '200' }),
+        labels: { method: 'GET', route: '/health', status: '200' },
+        resolution: 'DAY',
+        bucketStart: new Date('2026-10-18T00:00:00Z'),
+        count: 4,
+        sum: 40,
+        min: 5,
+        max: 15,
+        histogram: [0, 2, 2]
+      }]);
+
+      const points = await store.query('http_request_duration_ms', { from: new Date('2026-10-18T13:20:00Z'), resolution: 'DAY' });
+
+      expect(mockPrisma.metricRollup.findMany.mock.calls[0][0].where).toEqual({
+        name: 'http_request_duration_ms',
+        resolution: 'DAY',
+        bucketStart: { gte: new Date('2026-10-18T00:00:00Z') }
+      });
+      expect(points[0].labels.route).toBe('/health');
+    });
+  });
+});
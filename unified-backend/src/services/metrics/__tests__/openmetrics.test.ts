@@ -0,0 +1,102 @@
+/**
+ * OpenMetrics Exposition Tests
+ *
+ * Tests the text format for counters, gauges and histograms, scrape-time
+ * collectors for pipeline/WebSocket/cache state, and LLM call instrumentation
+ */
+
+import { MetricsRegistry } from '../openmetrics';
+import { registerRuntimeCollectors } from '../collectors';
+import { FakeLLMProvider, InstrumentedLLMProvider } from '../../llm';
+
+describe('OpenMetrics', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  describe('📝 Exposition format', () => {
+    it('should render counters, gauges and cumulative histogram buckets', async () => {
+      registry.counter('jobs_processed', 'Jobs processed').inc({ type: 'session' }, 2);
+      registry.gauge('queue_depth', 'Queue depth').set({}, 7);
+      const latency = registry.histogram('request_seconds', 'Latency', [0.1, 1]);
+      latency.observe({ route: '/a' }, 0.05);
+      latency.observe({ route: '/a' }, 0.5);
+      latency.observe({ route: '/a' }, 3);
+
+      const text = await registry.render();
+
+      expect(text).toContain('# TYPE jobs_processed counter\n# HELP jobs_processed Jobs processed\njobs_processed_total{type="session"} 2');
+      expect(text).toContain('queue_depth 7');
+      expect(text).toContain('request_seconds_bucket{le="0.1",route="/a"} 1');
+      expect(text).toContain('request_seconds_bucket{le="1",route="/a"} 2');
+      expect(text).toContain('request_seconds_bucket{le="+Inf",route="/a"} 3');
+      expect(text).toContain('request_seconds_count{route="/a"} 3');
+      expect(text).toContain('request_seconds_sum{route="/a"} 3.55');
+      expect(text.endsWith('# EOF\n')).toBe(true);
+    });
+
+    it('should escape label values and refuse conflicting metric types', async () => {
+      registry.gauge('labelled', 'Labels').set({ path: 'a"b\\c\nd' }, 1);
+
+      expect(await registry.render()).toContain('labelled{path="a\\"b\\\\c\\nd"} 1');
+      expect(() => registry.counter('labelled', 'Labels')).toThrow('already registered as a gauge');
+    });
+  });
+
+  describe('📡 Collectors', () => {
+    it('should read live service state on every scrape and survive a failing source', async () => {
+      let queueSize = 3;
+      let websocketServer: any;
+      registerRuntimeCollectors(registry, {
+        pipeline: {
+          getQueueSize: () => queueSize,
+          getActiveJobs: () => 1,
+          getDatabaseThrottleStats: () => ({ active: 9, queued: 2, limit: 18 })
+        },
+        cacheManager: { getPerformanceMetrics: () => Promise.reject(new Error('db down')) },
+        getWebSocketServer: () => websocketServer
+      });
+
+      let text = await registry.render();
+      expect(text).toContain('pipeline_queue_size 3');
+      expect(text).toContain('pipeline_db_throttle_saturation_ratio 0.5');
+      expect(text).not.toContain('websocket_clients{');
+
+      queueSize = 0;
+      websocketServer = {
+        getStats: () => ({
+          totalClients: 3,
+          authenticatedClients: 2,
+          activeSessions: 1,
+          clientTypes: { extension: 2, dashboard: 1 },
+          messageQueue: { size: 4, maxSize: 1000 }
+        })
+      };
+      text = await registry.render();
+
+      expect(text).toContain('pipeline_queue_size 0');
+      expect(text).toContain('websocket_clients{type="extension"} 2');
+      expect(text).toContain('websocket_message_queue_size 4');
+      expect(text).not.toMatch(/^vision_cache_hit_ratio /m);
+    });
+  });
+
+  describe('🤖 LLM instrumentation', () => {
+    it('should count calls, outcomes and token usage', async () => {
+      const provider = new InstrumentedLLMProvider(new FakeLLMProvider({ defaultContent: 'ok' }), registry);
+
+      await provider.chat({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'hello there' }] });
+      await expect(provider.retrieveFineTuneJob('missing')).rejects.toThrow();
+
+      const text = await registry.render();
+      expect(provider.name).toBe('fake');
+      expect(text).toContain('llm_requests_total{operation="chat",outcome="success",provider="fake"} 1');
+      expect(text).toContain('llm_requests_total{operation="retrieve_fine_tune_job",outcome="error",provider="fake"} 1');
+      expect(text).toContain('llm_tokens_total{model="gpt-4o-mini",provider="fake",type="prompt"} 3');
+      expect(text).toContain('llm_tokens_total{model="gpt-4o-mini",provider="fake",type="completion"} 1');
+      expect(text).toContain('llm_request_duration_seconds_count{operation="chat",provider="fake"} 1');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { MetricsRegistry } from './openmetrics';
+
+/** The parts of each service the collectors read; kept narrow so tests can pass plain objects */
+export interface PipelineMetricsSource {
+  getQueueSize(): number;
+  getActiveJobs(): number;
+  getDatabaseThrottleStats(): { active: number; queued: number; limit: number };
+}
+
+export interface WebSocketMetricsSource {
+  getStats(): {
+    totalClients: number;
+    authenticatedClients: number;
+    activeSessions: number;
+    clientTypes: Record<string, number>;
+    messageQueue: { size: number; maxSize: number };
+  };
+}
+
+export interface CacheMetricsSource {
+  getPerformanceMetrics(): Promise<{ hitRate: number; missRate: number; averageHits: number }>;
+}
+
+export interface RuntimeMetricsSources {
+  pipeline: PipelineMetricsSource;
+  cacheManager: CacheMetricsSource;
+  /** The WebSocket server only exists once the HTTP server is listening */
+  getWebSocketServer: () => WebSocketMetricsSource | undefined;
+}
+
+/**
+ * Gauges refreshed on every scrape from live pipeline, WebSocket and cache state
+ */
+export function registerRuntimeCollectors(registry: MetricsRegistry, sources: RuntimeMetricsSources): void {
+  const queueSize = registry.gauge('pipeline_queue_size', 'Processing jobs waiting to run');
+  const activeJobs = registry.gauge('pipeline_active_jobs', 'Processing jobs currently running in this process');
+  const dbActive = registry.gauge('pipeline_db_operations_active', 'Throttled database operations in flight');
+  const dbQueued = registry.gauge('pipeline_db_operations_queued', 'Database operations waiting for a throttle slot');
+  const dbSaturation = registry.gauge('pipeline_db_throttle_saturation_ratio', 'In-flight database operations as a fraction of the throttle limit');
+
+  registry.registerCollector(() => {
+    const throttle = sources.pipeline.getDatabaseThrottleStats();
+    queueSize.set({}, sources.pipeline.getQueueSize());
+    activeJobs.set({}, sources.pipeline.getActiveJobs());
+    dbActive.set({}, throttle.active);
+    dbQueued.set({}, throttle.queued);
+    dbSaturation.set({}, throttle.limit > 0 ? throttle.active / throttle.limit : 0);
+  });
+
+  const clients = registry.gauge('websocket_clients', 'Connected WebSocket clients by client type');
+  const authenticatedClients = registry.gauge('websocket_authenticated_clients', 'Authenticated WebSocket clients');
+  const activeSessions = registry.gauge('websocket_active_sessions', 'Sessions with at least one connected WebSocket client');
+  const messageQueueSize = registry.gauge('websocket_message_queue_size', 'Outbound WebSocket messages waiting to be sent');
+  const messageQueueCapacity = registry.gauge('websocket_message_queue_capacity', 'Maximum outbound WebSocket queue size before messages are dropped');
+
+  registry.registerCollector(() => {
+    const websocketServer = sources.getWebSocketServer();
+    if (!websocketServer) return;
+
+    const stats = websocketServer.getStats();
+    clients.reset();
+    Object.entries(stats.clientTypes).forEach(([type, count]) => clients.set({ type }, count));
+    authenticatedClients.set({}, stats.authenticatedClients);
+    activeSessions.set({}, stats.activeSessions);
+    messageQueueSize.set({}, stats.messageQueue.size);
+    messageQueueCapacity.set({}, stats.messageQueue.maxSize);
+  });
+
+  const cacheHitRatio = registry.gauge('vision_cache_hit_ratio', 'Vision analysis cache hit rate');
+  const cacheAverageHits = registry.gauge('vision_cache_average_hits', 'Average hits per active vision analysis cache entry');
+
+  registry.registerCollector(async () => {
+    const cache = await sources.cacheManager.getPerformanceMetrics();
+    cacheHitRatio.set({}, cache.hitRate);
+    cacheAverageHits.set({}, cache.averageHits);
+  });
+}
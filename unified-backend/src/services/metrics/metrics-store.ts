@@ -0,0 +1,269 @@
+import { MetricResolution, Prisma, PrismaClient } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+
+/** Upper bounds (ms) of the latency histogram buckets; a final bucket catches everything slower */
+export const LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export const RESOLUTION_MS: Record<MetricResolution, number> = {
+  MINUTE: 60 * 1000,
+  HOUR: 60 * 60 * 1000,
+  DAY: 24 * 60 * 60 * 1000
+};
+
+const RESOLUTIONS: MetricResolution[] = ['MINUTE', 'HOUR', 'DAY'];
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricPoint {
+  name: string;
+  series: string;
+  labels: MetricLabels;
+  resolution: MetricResolution;
+  bucketStart: Date;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  histogram: number[];
+}
+
+export interface MetricSummary {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  average: number;
+  histogram: number[];
+}
+
+export interface MetricQuery {
+  from: Date;
+  to?: Date;
+  resolution: MetricResolution;
+}
+
+export interface MetricsStore {
+  /** Record a latency-style sample; kept as a histogram so percentiles survive rollup */
+  observe(name: string, value: number, labels?: MetricLabels, at?: Date): void;
+  /** Record a gauge reading; only count/sum/min/max are kept */
+  gauge(name: string, value: number, labels?: MetricLabels, at?: Date): void;
+  flush(): Promise<number>;
+  query(name: string, query: MetricQuery): Promise<MetricPoint[]>;
+  start(flushIntervalMs?: number): void;
+  stop(): Promise<void>;
+}
+
+/** Canonical series key so the same labels always land in the same row */
+export function seriesKey(labels: MetricLabels = {}): string {
+  return Object.keys(labels)
+    .sort()
+    .map(key => `${key}=${labels[key]}`)
+    .join(',');
+}
+
+export function bucketStart(at: Date, resolution: MetricResolution): Date {
+  const size = RESOLUTION_MS[resolution];
+  return new Date(Math.floor(at.getTime() / size) * size);
+}
+
+/**
+ * Merge points (any resolution, any series) into one summary
+ */
+export function summarize(points: Array<Pick<MetricPoint, 'count' | 'sum' | 'min' | 'max' | 'histogram'>>): MetricSummary {
+  const summary = points.reduce((acc, point) => {
+    if (point.count === 0) return acc;
+    acc.count += point.count;
+    acc.sum += point.sum;
+    acc.min = Math.min(acc.min, point.min);
+    acc.max = Math.max(acc.max, point.max);
+    point.histogram.forEach((bucketCount, index) => {
+      acc.histogram[index] = (acc.histogram[index] || 0) + bucketCount;
+    });
+    return acc;
+  }, { count: 0, sum: 0, min: Infinity, max: -Infinity, histogram: [] as number[] });
+
+  return summary.count === 0
+    ? { count: 0, sum: 0, min: 0, max: 0, average: 0, histogram: [] }
+    : { ...summary, average: summary.sum / summary.count };
+}
+
+/**
+ * Estimate a percentile from histogram counts by interpolating inside the
+ * bucket that contains it, clamped to the observed min and max
+ */
+export function estimatePercentile(summary: MetricSummary, percentile: number): number {
+  if (summary.count === 0) return 0;
+  if (summary.histogram.length === 0) return summary.max;
+
+  const rank = (percentile / 100) * summary.count;
+  let cumulative = 0;
+
+  for (let index = 0; index < summary.histogram.length; index++) {
+    const bucketCount = summary.histogram[index] || 0;
+    if (bucketCount > 0 && cumulative + bucketCount >= rank) {
+      if (index >= LATENCY_BUCKETS_MS.length) return summary.max;
+
+      const lower = index === 0 ? 0 : LATENCY_BUCKETS_MS[index - 1];
+      const upper = LATENCY_BUCKETS_MS[index];
+      const estimate = lower + ((rank - cumulative) / bucketCount) * (upper - lower);
+      return Math.min(Math.max(estimate, summary.min), summary.max);
+    }
+    cumulative += bucketCount;
+  }
+
+  return summary.max;
+}
+
+function histogramFor(value: number): number[] {
+  const histogram = new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  const index = LATENCY_BUCKETS_MS.findIndex(bound => value <= bound);
+  histogram[index === -1 ? LATENCY_BUCKETS_MS.length : index] = 1;
+  return histogram;
+}
+
+function mergeInto(target: MetricPoint, source: Pick<MetricPoint, 'count' | 'sum' | 'min' | 'max' | 'histogram'>): void {
+  target.count += source.count;
+  target.sum += source.sum;
+  target.min = Math.min(target.min, source.min);
+  target.max = Math.max(target.max, source.max);
+  source.histogram.forEach((bucketCount, index) => {
+    target.histogram[index] = (target.histogram[index] || 0) + bucketCount;
+  });
+}
+
+/**
+ * Time-series metrics backed by metric_rollups. Samples are aggregated in
+ * memory per minute and flushed as upserts into the minute, hour and day
+ * buckets at once, so a 30-day query reads ~30 rows per series instead of
+ * every sample. Upserts add to existing buckets, which keeps several
+ * server instances writing the same series consistent.
+ */
+export class MetricsStoreImpl implements MetricsStore {
+  private pending: Map<string, MetricPoint> = new Map();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private logger: Logger;
+
+  constructor(private prisma: PrismaClient) {
+    this.logger = new Logger('MetricsStore');
+  }
+
+  observe(name: string, value: number, labels: MetricLabels = {}, at: Date = new Date()): void {
+    this.record(name, value, labels, at, histogramFor(value));
+  }
+
+  gauge(name: string, value: number, labels: MetricLabels = {}, at: Date = new Date()): void {
+    this.record(name, value, labels, at, []);
+  }
+
+  /**
+   * Write pending minute aggregates and their hour/day rollups
+   * @returns Number of rollup rows written
+   */
+  async flush(): Promise<number> {
+    if (this.pending.size === 0) return 0;
+
+    const minutes = Array.from(this.pending.values());
+    this.pending = new Map();
+
+    // Several minutes fold into one hour/day row; ON CONFLICT may touch each row only once per statement
+    const rows = new Map<string, MetricPoint>();
+    for (const minute of minutes) {
+      for (const resolution of RESOLUTIONS) {
+        const start = bucketStart(minute.bucketStart, resolution);
+        const key = `${minute.name}|${minute.series}|${resolution}|${start.getTime()}`;
+        const existing = rows.get(key);
+        if (existing) {
+          mergeInto(existing, minute);
+        } else {
+          rows.set(key, { ...minute, resolution, bucketStart: start, histogram: [...minute.histogram] });
+        }
+      }
+    }
+
+    try {
+      await this.prisma.$executeRaw(Prisma.sql`
+        INSERT INTO "metric_rollups" ("id", "name", "series", "labels", "resolution", "bucketStart", "count", "sum", "min", "max", "histogram")
+        VALUES ${Prisma.join(Array.from(rows.values()).map(row => Prisma.sql`(
+          ${uuidv4()}, ${row.name}, ${row.series}, ${JSON.stringify(row.labels)}::jsonb,
+          ${row.resolution}::"MetricResolution", ${row.bucketStart}, ${row.count}, ${row.sum},
+          ${row.min}, ${row.max}, ${row.histogram}::integer[]
+        )`))}
+        ON CONFLICT ("name", "series", "resolution", "bucketStart") DO UPDATE SET
+          "count" = "metric_rollups"."count" + EXCLUDED."count",
+          "sum" = "metric_rollups"."sum" + EXCLUDED."sum",
+          "min" = LEAST("metric_rollups"."min", EXCLUDED."min"),
+          "max" = GREATEST("metric_rollups"."max", EXCLUDED."max"),
+          "histogram" = ARRAY(
+            SELECT COALESCE(existing, 0) + COALESCE(added, 0)
+            FROM unnest("metric_rollups"."histogram", EXCLUDED."histogram") AS buckets(existing, added)
+          )
+      `);
+    } catch (error) {
+      // Metrics are best-effort; a failed flush drops one interval rather than growing without bound
+      this.logger.error('Failed to flush metrics', { rows: rows.size, error: getErrorMessage(error) });
+      return 0;
+    }
+
+    this.logger.debug('Flushed metric rollups', { minutes: minutes.length, rows: rows.size });
+    return rows.size;
+  }
+
+  async query(name: string, { from, to, resolution }: MetricQuery): Promise<MetricPoint[]> {
+    const rows = await this.prisma.metricRollup.findMany({
+      where: {
+        name,
+        resolution,
+        bucketStart: { gte: bucketStart(from, resolution), ...(to ? { lt: to } : {}) }
+      },
+      orderBy: { bucketStart: 'asc' }
+    });
+
+    return rows.map(row => ({
+      name: row.name,
+      series: row.series,
+      labels: (row.labels || {}) as MetricLabels,
+      resolution: row.resolution,
+      bucketStart: row.bucketStart,
+      count: row.count,
+      sum: row.sum,
+      min: row.min,
+      max: row.max,
+      histogram: row.histogram
+    }));
+  }
+
+  start(flushIntervalMs: number = RESOLUTION_MS.MINUTE): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setInterval(() => {
+      this.flush().catch(error => {
+        this.logger.error('Metrics flush failed', error);
+      });
+    }, flushIntervalMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  private record(name: string, value: number, labels: MetricLabels, at: Date, histogram: number[]): void {
+    if (!Number.isFinite(value)) return;
+
+    const series = seriesKey(labels);
+    const minute = bucketStart(at, 'MINUTE');
+    const key = `${name}|${series}|${minute.getTime()}`;
+    const sample = { count: 1, sum: value, min: value, max: value, histogram };
+
+    const existing = this.pending.get(key);
+    if (existing) {
+      mergeInto(existing, sample);
+    } else {
+      this.pending.set(key, { name, series, labels, resolution: 'MINUTE', bucketStart: minute, ...sample });
+    }
+  }
+}
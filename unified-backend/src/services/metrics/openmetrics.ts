@@ -0,0 +1,199 @@
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export type MetricLabelValues = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabelValues): string {
+  const keys = Object.keys(labels).sort();
+  if (keys.length === 0) return '';
+  return `{${keys.map(key => `${key}="${escapeLabelValue(String(labels[key]))}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: MetricType) {}
+
+  render(): string {
+    return [
+      `# TYPE ${this.name} ${this.type}`,
+      `# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+      ...this.samples()
+    ].join('\n');
+  }
+
+  protected abstract samples(): string[];
+}
+
+export class Counter extends Metric {
+  private values: Map<string, { labels: MetricLabelValues; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: MetricLabelValues = {}, value: number = 1): void {
+    if (!(value >= 0)) return;
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values())
+      .map(({ labels, value }) => `${this.name}_total${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, { labels: MetricLabelValues; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: MetricLabelValues, value: number): void {
+    this.values.set(formatLabels(labels), { labels, value });
+  }
+
+  /** Drop every series; collectors call this before re-reading label sets that can disappear */
+  reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    return Array.from(this.values.values())
+      .map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, { labels: MetricLabelValues; buckets: number[]; count: number; sum: number }> = new Map();
+  private readonly bounds: number[];
+
+  constructor(name: string, help: string, bounds: number[]) {
+    super(name, help, 'histogram');
+    this.bounds = [...bounds].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabelValues, value: number): void {
+    if (!Number.isFinite(value)) return;
+
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) || { labels, buckets: new Array(this.bounds.length).fill(0), count: 0, sum: 0 };
+    const index = this.bounds.findIndex(bound => value <= bound);
+    if (index !== -1) entry.buckets[index]++;
+    entry.count++;
+    entry.sum += value;
+    this.series.set(key, entry);
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    this.series.forEach(({ labels, buckets, count, sum }) => {
+      // Buckets are cumulative in the exposition format
+      let cumulative = 0;
+      this.bounds.forEach((bound, index) => {
+        cumulative += buckets[index];
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+    });
+    return lines;
+  }
+}
+
+export type MetricsCollector = () => void | Promise<void>;
+
+/**
+ * In-process metric families rendered in the OpenMetrics text format for
+ * Prometheus. Counters and histograms are updated as things happen;
+ * collectors refresh gauges from live service state on every scrape.
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: MetricsCollector[] = [];
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger('MetricsRegistry');
+  }
+
+  counter(name: string, help: string): Counter {
+    return this.getOrCreate(name, () => new Counter(name, help), Counter);
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.getOrCreate(name, () => new Gauge(name, help), Gauge);
+  }
+
+  histogram(name: string, help: string, bounds: number[]): Histogram {
+    return this.getOrCreate(name, () => new Histogram(name, help, bounds), Histogram);
+  }
+
+  registerCollector(collector: MetricsCollector): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    // One slow or broken source must not take the whole scrape down
+    await Promise.all(this.collectors.map(async collector => {
+      try {
+        await collector();
+      } catch (error) {
+        this.logger.warn('Metrics collector failed', { error: getErrorMessage(error) });
+      }
+    }));
+
+    const families = Array.from(this.metrics.values()).map(metric => metric.render());
+    return `${[...families, '# EOF'].join('\n')}\n`;
+  }
+
+  private getOrCreate<T extends Metric>(name: string, create: () => T, type: new (...args: any[]) => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+let sharedRegistry: MetricsRegistry | null = null;
+
+/**
+ * Process-wide registry scraped at /metrics
+ */
+export function getMetricsRegistry(): MetricsRegistry {
+  if (!sharedRegistry) {
+    sharedRegistry = new MetricsRegistry();
+  }
+  return sharedRegistry;
+}
+
+/**
+ * Replace the shared registry (tests)
+ */
+export function setMetricsRegistry(registry: MetricsRegistry | null): void {
+  sharedRegistry = registry;
+}
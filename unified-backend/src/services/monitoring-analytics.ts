@@ -1,6 +1,28 @@
-import { PrismaClient } from "@prisma/client";
+import { AlertConfig, PrismaClient } from "@prisma/client";
+import { EventEmitter } from "events";
 import { prisma } from "../lib/database";
 import { Logger } from "../utils/logger";
+import { getConfig } from "../utils/env-validator";
+import {
+  AlertConfigInput,
+  AlertManager,
+  AlertManagerImpl,
+  AlertTrigger,
+  DEFAULT_THRESHOLD_ALERTS,
+  ThresholdMetrics,
+  createAlertChannels,
+  evaluateAnomalyAlert,
+  evaluatePatternAlert,
+  evaluateThresholdAlert
+} from "./alerts";
+import {
+  MetricPoint,
+  MetricsStore,
+  MetricsStoreImpl,
+  RESOLUTION_MS,
+  estimatePercentile,
+  summarize
+} from "./metrics/metrics-store";
 import * as os from 'os';
 import * as process from 'process';
 
@@ -28,7 +50,7 @@ interface SystemMetrics {
   };
 }
 
-interface PerformanceMetrics {
+export interface PerformanceMetrics {
   endpoint: string;
   method: string;
   responseTime: number;
@@ -49,94 +71,89 @@ interface BusinessMetrics {
   trainingDataGenerated: number;
 }
 
-interface AlertConfig {
-  id: string;
-  name: string;
-  type: 'threshold' | 'anomaly' | 'pattern';
-  metric: string;
-  condition: string;
-  threshold: number;
-  enabled: boolean;
-  channels: string[];
-}
+export const REQUEST_DURATION_METRIC = 'http_request_duration_ms';
+export const CPU_USAGE_METRIC = 'system_cpu_usage_percent';
+export const MEMORY_USAGE_METRIC = 'system_memory_usage_percent';
 
-interface Alert {
-  id: string;
-  configId: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  message: string;
-  details: any;
-  timestamp: Date;
-  acknowledged: boolean;
-  resolvedAt?: Date;
-}
+const ERROR_RATE_WINDOW_MS = 5 * 60 * 1000;
 
-export class MonitoringAnalyticsService {
+export class MonitoringAnalyticsService extends EventEmitter {
   private prisma: PrismaClient;
   private logger: Logger;
-  private metricsBuffer: PerformanceMetrics[];
-  private alertConfigs: Map<string, AlertConfig>;
-  private activeAlerts: Map<string, Alert>;
+  private metricsStore: MetricsStore;
+  private activeRequests: number;
+  private alertManager: AlertManager;
   private metricsInterval: NodeJS.Timeout | null;
 
-  constructor() {
+  constructor(metricsStore?: MetricsStore, alertManager?: AlertManager) {
+    super();
     this.prisma = prisma;
     this.logger = new Logger("MonitoringAnalytics");
-    this.metricsBuffer = [];
-    this.alertConfigs = new Map();
-    this.activeAlerts = new Map();
+    this.metricsStore = metricsStore || new MetricsStoreImpl(prisma);
+    this.activeRequests = 0;
+    this.alertManager = alertManager || new AlertManagerImpl(prisma, createAlertChannels(), {
+      escalationMinutes: getConfig().alerts.escalationMinutes
+    });
     this.metricsInterval = null;
 
+    // Re-emit so existing subscribers (e.g. the WebSocket hub) keep listening here
+    for (const event of ['alertTriggered', 'alertEscalated', 'alertAcknowledged', 'alertResolved']) {
+      this.alertManager.on(event, alert => this.emit(event, alert));
+    }
+
     this.initializeDefaultAlerts();
     this.startMetricsCollection();
   }
 
   private initializeDefaultAlerts(): void {
-    const defaultAlerts: AlertConfig[] = [
+    const defaultAlerts: AlertConfigInput[] = [
+      ...DEFAULT_THRESHOLD_ALERTS,
       {
-        id: 'high_cpu_usage',
-        name: 'High CPU Usage',
-        type: 'threshold',
-        metric: 'cpu.usage',
+        id: 'request_latency_anomaly',
+        name: 'Request Latency Anomaly',
+        type: 'anomaly',
+        metric: REQUEST_DURATION_METRIC,
         condition: 'greater_than',
-        threshold: 80,
+        threshold: 4,
         enabled: true,
-        channels: ['log', 'email']
+        channels: ['log', 'webhook', 'slack']
       },
       {
-        id: 'high_memory_usage',
-        name: 'High Memory Usage',
-        type: 'threshold',
-        metric: 'memory.usage',
+        id: 'interaction_rate_drop',
+        name: 'Interaction Rate Drop',
+        type: 'pattern',
+        metric: 'interaction_rate_drop',
         condition: 'greater_than',
-        threshold: 85,
+        threshold: 60,
         enabled: true,
-        channels: ['log', 'email']
+        channels: ['log', 'webhook', 'slack', 'email']
       },
       {
-        id: 'low_quality_sessions',
-        name: 'Low Quality Sessions',
-        type: 'threshold',
-        metric: 'quality.average',
-        condition: 'less_than',
-        threshold: 60,
+        id: 'processing_failure_spike',
+        name: 'Processing Failure Spike',
+        type: 'pattern',
+        metric: 'processing_failure_spike',
+        condition: 'greater_than',
+        threshold: 25,
+        parameters: { windowMinutes: 30, minSamples: 10 },
         enabled: true,
-        channels: ['log']
+        channels: ['log', 'webhook', 'slack', 'email']
       },
       {
-        id: 'high_error_rate',
-        name: 'High Error Rate',
-        type: 'threshold',
-        metric: 'errors.rate',
+        id: 'selector_reliability_collapse',
+        name: 'Selector Reliability Collapse',
+        type: 'pattern',
+        metric: 'selector_reliability_collapse',
         condition: 'greater_than',
-        threshold: 5,
+        threshold: 40,
+        parameters: { windowMinutes: 60, minSamples: 30 },
         enabled: true,
-        channels: ['log', 'email']
+        channels: ['log', 'webhook', 'slack', 'email']
       }
     ];
 
-    defaultAlerts.forEach(alert => {
-      this.alertConfigs.set(alert.id, alert);
+    this.alertManager.ensureConfigs(defaultAlerts).catch(error => {
+      this.logger.error("Failed to seed default alert configs", error);
     });
   }
 
@@ -146,10 +163,8 @@ export class MonitoringAnalyticsService {
       this.collectSystemMetrics();
     }, 30000);
 
-    // Flush performance metrics every 5 minutes
-    setInterval(() => {
-      this.flushPerformanceMetrics();
-    }, 300000);
+    // Flush minute aggregates into the rollup table
+    this.metricsStore.start();
 
     // Check alerts every minute
     setInterval(() => {
@@ -170,7 +185,7 @@ export class MonitoringAnalyticsService {
         disk: await this.getDiskMetrics(),
         network: {
           connections: 0, // Would need to implement actual network monitoring
-          activeRequests: this.metricsBuffer.length
+          activeRequests: this.activeRequests
         }
       };
 
@@ -223,57 +238,21 @@ export class MonitoringAnalyticsService {
   }
 
   private async storeSystemMetrics(metrics: SystemMetrics): Promise<void> {
-    try {
-      await this.prisma.systemConfig.create({
-        data: {
-          key: `system_metrics_${Date.now()}`,
-          value: metrics as any,
-          description: 'System performance metrics',
-          category: 'metrics'
-        }
-      });
-    } catch (error) {
-      this.logger.error("Failed to store system metrics", error);
-    }
+    this.metricsStore.gauge(CPU_USAGE_METRIC, metrics.cpu.usage, {}, metrics.timestamp);
+    this.metricsStore.gauge(MEMORY_USAGE_METRIC, metrics.memory.usage, {}, metrics.timestamp);
   }
 
   // Performance Metrics
   recordPerformanceMetric(metric: PerformanceMetrics): void {
-    this.metricsBuffer.push(metric);
-    
-    // If buffer is getting too large, flush immediately
-    if (this.metricsBuffer.length > 1000) {
-      this.flushPerformanceMetrics();
-    }
+    this.metricsStore.observe(REQUEST_DURATION_METRIC, metric.responseTime, {
+      method: metric.method,
+      route: metric.endpoint,
+      status: String(metric.statusCode)
+    }, metric.timestamp);
   }
 
-  private async flushPerformanceMetrics(): Promise<void> {
-    if (this.metricsBuffer.length === 0) return;
-
-    try {
-      const metrics = [...this.metricsBuffer];
-      this.metricsBuffer = [];
-
-      // Store metrics in batches
-      const batchSize = 100;
-      for (let i = 0; i < metrics.length; i += batchSize) {
-        const batch = metrics.slice(i, i + batchSize);
-        
-        await this.prisma.systemConfig.create({
-          data: {
-            key: `performance_metrics_${Date.now()}_${i}`,
-            value: batch as any,
-            description: 'Performance metrics batch',
-            category: 'performance'
-          }
-        });
-      }
-
-      this.logger.debug(`Flushed ${metrics.length} performance metrics`);
-
-    } catch (error) {
-      this.logger.error("Failed to flush performance metrics", error);
-    }
+  trackActiveRequest(delta: 1 | -1): void {
+    this.activeRequests = Math.max(0, this.activeRequests + delta);
   }
 
   // Business Metrics
@@ -337,35 +316,23 @@ export class MonitoringAnalyticsService {
   async getPerformanceAnalytics(timeRange: string = '24h'): Promise<any> {
     try {
       const startTime = this.getTimeRangeStart(timeRange);
-      
-      const performanceData = await this.prisma.systemConfig.findMany({
-        where: {
-          category: 'performance',
-          createdAt: { gte: startTime }
-        },
-        orderBy: { createdAt: 'desc' }
-      });
+      const resolution = this.getRollupResolution(timeRange);
+      const points = await this.metricsStore.query(REQUEST_DURATION_METRIC, { from: startTime, resolution });
 
-      // Aggregate performance metrics
-      const allMetrics: PerformanceMetrics[] = [];
-      performanceData.forEach((record: any) => {
-        const metrics = record.value as unknown as PerformanceMetrics[];
-        allMetrics.push(...metrics);
-      });
+      const overall = summarize(points);
+      const errors = summarize(points.filter(point => Number(point.labels.status) >= 400));
 
-      // Calculate analytics
-      const analytics = {
-        totalRequests: allMetrics.length,
-        averageResponseTime: this.calculateAverage(allMetrics.map(m => m.responseTime)),
-        p95ResponseTime: this.calculatePercentile(allMetrics.map(m => m.responseTime), 95),
-        p99ResponseTime: this.calculatePercentile(allMetrics.map(m => m.responseTime), 99),
-        errorRate: this.calculateErrorRate(allMetrics),
-        endpointBreakdown: this.analyzeEndpoints(allMetrics),
-        timeSeriesData: this.generateTimeSeries(allMetrics, timeRange)
+      return {
+        totalRequests: overall.count,
+        averageResponseTime: overall.average,
+        p95ResponseTime: estimatePercentile(overall, 95),
+        p99ResponseTime: estimatePercentile(overall, 99),
+        errorRate: overall.count > 0 ? (errors.count / overall.count) * 100 : 0,
+        endpointBreakdown: this.analyzeEndpoints(points),
+        timeSeriesData: this.generateTimeSeries(points, timeRange),
+        resolution
       };
 
-      return analytics;
-
     } catch (error) {
       this.logger.error("Failed to get performance analytics", error);
       throw error;
@@ -375,24 +342,26 @@ export class MonitoringAnalyticsService {
   async getSystemAnalytics(timeRange: string = '24h'): Promise<any> {
     try {
       const startTime = this.getTimeRangeStart(timeRange);
-      
-      const systemData = await this.prisma.systemConfig.findMany({
-        where: {
-          category: 'metrics',
-          createdAt: { gte: startTime }
-        },
-        orderBy: { createdAt: 'desc' }
-      });
+      const resolution = this.getRollupResolution(timeRange);
+      const [cpuPoints, memoryPoints] = await Promise.all([
+        this.metricsStore.query(CPU_USAGE_METRIC, { from: startTime, resolution }),
+        this.metricsStore.query(MEMORY_USAGE_METRIC, { from: startTime, resolution })
+      ]);
 
-      const metrics = systemData.map((record: any) => record.value as unknown as SystemMetrics);
+      const cpu = summarize(cpuPoints);
+      const memory = summarize(memoryPoints);
 
       return {
-        averageCpuUsage: this.calculateAverage(metrics.map((m: any) => m.cpu.usage)),
-        averageMemoryUsage: this.calculateAverage(metrics.map((m: any) => m.memory.usage)),
-        peakCpuUsage: Math.max(...metrics.map((m: any) => m.cpu.usage)),
-        peakMemoryUsage: Math.max(...metrics.map((m: any) => m.memory.usage)),
-        systemHealth: this.calculateSystemHealth(metrics),
-        trends: this.calculateTrends(metrics)
+        averageCpuUsage: cpu.average,
+        averageMemoryUsage: memory.average,
+        peakCpuUsage: cpu.max,
+        peakMemoryUsage: memory.max,
+        systemHealth: this.calculateSystemHealth(cpu.count > 0 || memory.count > 0, cpu.average, memory.average),
+        trends: {
+          cpu: this.calculateTrend(cpuPoints),
+          memory: this.calculateTrend(memoryPoints)
+        },
+        resolution
       };
 
     } catch (error) {
@@ -402,57 +371,21 @@ export class MonitoringAnalyticsService {
   }
 
   // Alert Management
-  async createAlert(config: Omit<AlertConfig, 'id'>): Promise<string> {
-    const alertId = `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const alertConfig: AlertConfig = {
-      id: alertId,
-      ...config
-    };
-
-    this.alertConfigs.set(alertId, alertConfig);
-
-    // Store in database
-    await this.prisma.systemConfig.create({
-      data: {
-        key: `alert_config_${alertId}`,
-        value: alertConfig as any,
-        description: `Alert configuration: ${config.name}`,
-        category: 'alerts'
-      }
-    });
-
-    this.logger.info("Alert created", { alertId, name: config.name });
-    return alertId;
+  getAlertManager(): AlertManager {
+    return this.alertManager;
   }
 
-  async updateAlert(alertId: string, updates: Partial<AlertConfig>): Promise<void> {
-    const existing = this.alertConfigs.get(alertId);
-    if (!existing) {
-      throw new Error(`Alert ${alertId} not found`);
-    }
-
-    const updated = { ...existing, ...updates };
-    this.alertConfigs.set(alertId, updated);
-
-    // Update in database
-    await this.prisma.systemConfig.updateMany({
-      where: { key: `alert_config_${alertId}` },
-      data: { value: updated as any }
-    });
+  async createAlert(config: Omit<AlertConfigInput, 'id'>): Promise<string> {
+    const created = await this.alertManager.createConfig(config);
+    return created.id;
+  }
 
-    this.logger.info("Alert updated", { alertId, updates });
+  async updateAlert(alertId: string, updates: Partial<AlertConfigInput>): Promise<void> {
+    await this.alertManager.updateConfig(alertId, updates);
   }
 
   async deleteAlert(alertId: string): Promise<void> {
-    this.alertConfigs.delete(alertId);
-    this.activeAlerts.delete(alertId);
-
-    // Remove from database
-    await this.prisma.systemConfig.deleteMany({
-      where: { key: `alert_config_${alertId}` }
-    });
-
-    this.logger.info("Alert deleted", { alertId });
+    await this.alertManager.deleteConfig(alertId);
   }
 
   private async checkAlerts(): Promise<void> {
@@ -460,137 +393,62 @@ export class MonitoringAnalyticsService {
       // Get current metrics
       const businessMetrics = await this.getBusinessMetrics();
       const systemMetrics = await this.getCurrentSystemMetrics();
+      const metrics: ThresholdMetrics = {
+        // With nothing completed yet there is no quality average to judge, rather than an average of 0
+        business: businessMetrics.completedSessions > 0
+          ? businessMetrics
+          : { ...businessMetrics, averageQualityScore: undefined },
+        system: systemMetrics,
+        requests: await this.getRecentRequestMetrics()
+      };
 
-      // Check each alert configuration
-      for (const [alertId, config] of this.alertConfigs) {
+      // Check each alert configuration; an open alert is re-triggered (deduplicated) or resolved
+      for (const config of await this.alertManager.listConfigs()) {
         if (!config.enabled) continue;
 
-        const shouldAlert = await this.evaluateAlert(config, {
-          business: businessMetrics,
-          system: systemMetrics
-        });
-
-        if (shouldAlert && !this.activeAlerts.has(alertId)) {
-          await this.triggerAlert(config, { business: businessMetrics, system: systemMetrics });
-        } else if (!shouldAlert && this.activeAlerts.has(alertId)) {
-          await this.resolveAlert(alertId);
+        try {
+          const trigger = await this.evaluateAlert(config, metrics);
+          if (trigger) {
+            await this.alertManager.trigger(config, trigger);
+          } else {
+            const open = await this.alertManager.getOpenAlert(config.id);
+            if (open) {
+              await this.alertManager.resolve(open.id);
+            }
+          }
+        } catch (error) {
+          this.logger.error("Alert evaluation failed", { configId: config.id, error });
         }
       }
 
+      await this.alertManager.escalateStale();
     } catch (error) {
       this.logger.error("Alert checking failed", error);
     }
   }
 
-  private async evaluateAlert(config: AlertConfig, metrics: any): Promise<boolean> {
-    const value = this.getMetricValue(config.metric, metrics);
-    
-    switch (config.condition) {
-      case 'greater_than':
-        return value > config.threshold;
-      case 'less_than':
-        return value < config.threshold;
-      case 'equals':
-        return value === config.threshold;
+  private async evaluateAlert(config: AlertConfig, metrics: ThresholdMetrics): Promise<AlertTrigger | null> {
+    switch (config.type) {
+      case 'anomaly':
+        return evaluateAnomalyAlert(this.metricsStore, config);
+      case 'pattern':
+        return evaluatePatternAlert(this.prisma, config);
       default:
-        return false;
+        return evaluateThresholdAlert(config, metrics);
     }
   }
 
-  private getMetricValue(metricPath: string, metrics: any): number {
-    const parts = metricPath.split('.');
-    let value = metrics;
-    
-    for (const part of parts) {
-      value = value?.[part];
-    }
-    
-    return typeof value === 'number' ? value : 0;
-  }
-
-  private async triggerAlert(config: AlertConfig, metrics: any): Promise<void> {
-    const alert: Alert = {
-      id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      configId: config.id,
-      severity: this.determineSeverity(config, metrics),
-      message: `${config.name}: ${config.metric} ${config.condition} ${config.threshold}`,
-      details: metrics,
-      timestamp: new Date(),
-      acknowledged: false
-    };
-
-    this.activeAlerts.set(config.id, alert);
-
-    // Send notifications
-    await this.sendAlertNotifications(alert, config);
-
-    // Store alert
-    await this.prisma.systemConfig.create({
-      data: {
-        key: `active_alert_${alert.id}`,
-        value: alert as any,
-        description: `Active alert: ${config.name}`,
-        category: 'active_alerts'
-      }
+  /** Error rate (percent of 4xx/5xx) over the last few minutes; absent while there is no traffic */
+  private async getRecentRequestMetrics(): Promise<{ errorRate?: number }> {
+    const points = await this.metricsStore.query(REQUEST_DURATION_METRIC, {
+      from: new Date(Date.now() - ERROR_RATE_WINDOW_MS),
+      resolution: 'MINUTE'
     });
+    const overall = summarize(points);
+    if (overall.count === 0) return {};
 
-    this.logger.warn("Alert triggered", {
-      alertId: alert.id,
-      configId: config.id,
-      severity: alert.severity,
-      message: alert.message
-    });
-  }
-
-  private async resolveAlert(alertId: string): Promise<void> {
-    const alert = this.activeAlerts.get(alertId);
-    if (!alert) return;
-
-    alert.resolvedAt = new Date();
-    this.activeAlerts.delete(alertId);
-
-    // Update in database
-    await this.prisma.systemConfig.updateMany({
-      where: { key: `active_alert_${alert.id}` },
-      data: { value: alert as any }
-    });
-
-    this.logger.info("Alert resolved", { alertId: alert.id });
-  }
-
-  private determineSeverity(config: AlertConfig, metrics: any): Alert['severity'] {
-    const value = this.getMetricValue(config.metric, metrics);
-    const threshold = config.threshold;
-    
-    if (config.metric.includes('cpu') || config.metric.includes('memory')) {
-      if (value > threshold * 1.5) return 'critical';
-      if (value > threshold * 1.2) return 'high';
-      return 'medium';
-    }
-    
-    return 'medium';
-  }
-
-  private async sendAlertNotifications(alert: Alert, config: AlertConfig): Promise<void> {
-    for (const channel of config.channels) {
-      try {
-        switch (channel) {
-          case 'log':
-            this.logger.warn(`ALERT: ${alert.message}`, alert.details);
-            break;
-          case 'email':
-            // Implement email notification
-            this.logger.info("Email alert sent", { alertId: alert.id });
-            break;
-          case 'webhook':
-            // Implement webhook notification
-            this.logger.info("Webhook alert sent", { alertId: alert.id });
-            break;
-        }
-      } catch (error) {
-        this.logger.error(`Failed to send alert via ${channel}`, error);
-      }
-    }
+    const errors = summarize(points.filter(point => Number(point.labels.status) >= 400));
+    return { errorRate: (errors.count / overall.count) * 100 };
   }
 
   // Utility methods
@@ -611,83 +469,65 @@ export class MonitoringAnalyticsService {
     }
   }
 
-  private calculateAverage(values: number[]): number {
-    if (values.length === 0) return 0;
-    return values.reduce((sum, val) => sum + val, 0) / values.length;
-  }
-
-  private calculatePercentile(values: number[], percentile: number): number {
-    if (values.length === 0) return 0;
-    
-    const sorted = values.sort((a, b) => a - b);
-    const index = Math.ceil((percentile / 100) * sorted.length) - 1;
-    return sorted[index] || 0;
-  }
+  private analyzeEndpoints(points: MetricPoint[]): any {
+    const endpointPoints = new Map<string, MetricPoint[]>();
 
-  private calculateErrorRate(metrics: PerformanceMetrics[]): number {
-    if (metrics.length === 0) return 0;
-    
-    const errors = metrics.filter(m => m.statusCode >= 400).length;
-    return (errors / metrics.length) * 100;
-  }
-
-  private analyzeEndpoints(metrics: PerformanceMetrics[]): any {
-    const endpointStats = new Map();
-    
-    metrics.forEach(metric => {
-      const key = `${metric.method} ${metric.endpoint}`;
-      if (!endpointStats.has(key)) {
-        endpointStats.set(key, {
-          count: 0,
-          totalTime: 0,
-          errors: 0
-        });
+    points.forEach(point => {
+      const key = `${point.labels.method} ${point.labels.route}`;
+      if (!endpointPoints.has(key)) {
+        endpointPoints.set(key, []);
       }
-      
-      const stats = endpointStats.get(key);
-      stats.count++;
-      stats.totalTime += metric.responseTime;
-      if (metric.statusCode >= 400) stats.errors++;
+      endpointPoints.get(key)!.push(point);
     });
 
     const result: any = {};
-    endpointStats.forEach((stats, endpoint) => {
-      result[endpoint] = {
+    endpointPoints.forEach((endpoint, key) => {
+      const stats = summarize(endpoint);
+      const errors = summarize(endpoint.filter(point => Number(point.labels.status) >= 400));
+      result[key] = {
         requests: stats.count,
-        averageResponseTime: stats.totalTime / stats.count,
-        errorRate: (stats.errors / stats.count) * 100
+        averageResponseTime: stats.average,
+        p95ResponseTime: estimatePercentile(stats, 95),
+        errorRate: (errors.count / stats.count) * 100
       };
     });
 
     return result;
   }
 
-  private generateTimeSeries(metrics: PerformanceMetrics[], timeRange: string): any {
-    // Simplified time series generation
-    const buckets = new Map();
+  private generateTimeSeries(points: MetricPoint[], timeRange: string): any {
+    const buckets = new Map<number, MetricPoint[]>();
     const bucketSize = this.getBucketSize(timeRange);
-    
-    metrics.forEach(metric => {
-      const bucket = Math.floor(metric.timestamp.getTime() / bucketSize) * bucketSize;
+
+    points.forEach(point => {
+      const bucket = Math.floor(point.bucketStart.getTime() / bucketSize) * bucketSize;
       if (!buckets.has(bucket)) {
-        buckets.set(bucket, { count: 0, totalTime: 0 });
+        buckets.set(bucket, []);
       }
-      
-      const stats = buckets.get(bucket);
-      stats.count++;
-      stats.totalTime += metric.responseTime;
+      buckets.get(bucket)!.push(point);
     });
 
-    const result: any[] = [];
-    buckets.forEach((stats, timestamp) => {
-      result.push({
-        timestamp: new Date(timestamp),
-        requests: stats.count,
-        averageResponseTime: stats.totalTime / stats.count
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([timestamp, bucketPoints]) => {
+        const stats = summarize(bucketPoints);
+        return {
+          timestamp: new Date(timestamp),
+          requests: stats.count,
+          averageResponseTime: stats.average
+        };
       });
-    });
+  }
 
-    return result.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  /**
+   * Finest rollup that keeps the row count bounded for the range: minutes
+   * for an hour, hours up to a week, days beyond
+   */
+  private getRollupResolution(timeRange: string): MetricPoint['resolution'] {
+    const rangeMs = Date.now() - this.getTimeRangeStart(timeRange).getTime();
+    if (rangeMs <= 6 * RESOLUTION_MS.HOUR) return 'MINUTE';
+    if (rangeMs <= 7 * RESOLUTION_MS.DAY) return 'HOUR';
+    return 'DAY';
   }
 
   private getBucketSize(timeRange: string): number {
@@ -716,7 +556,7 @@ export class MonitoringAnalyticsService {
       disk: await this.getDiskMetrics(),
       network: {
         connections: 0,
-        activeRequests: this.metricsBuffer.length
+        activeRequests: this.activeRequests
       }
     };
   }
@@ -733,33 +573,23 @@ export class MonitoringAnalyticsService {
     }
   }
 
-  private calculateSystemHealth(metrics: SystemMetrics[]): string {
-    if (metrics.length === 0) return 'unknown';
-
-    const avgCpu = this.calculateAverage(metrics.map(m => m.cpu.usage));
-    const avgMemory = this.calculateAverage(metrics.map(m => m.memory.usage));
+  private calculateSystemHealth(hasData: boolean, avgCpu: number, avgMemory: number): string {
+    if (!hasData) return 'unknown';
 
     if (avgCpu > 80 || avgMemory > 85) return 'critical';
     if (avgCpu > 60 || avgMemory > 70) return 'warning';
     return 'healthy';
   }
 
-  private calculateTrends(metrics: SystemMetrics[]): any {
-    if (metrics.length < 2) return { cpu: 'stable', memory: 'stable' };
-
-    const recent = metrics.slice(-10);
-    const older = metrics.slice(-20, -10);
+  // Compares the last ten buckets with the ten before them
+  private calculateTrend(points: MetricPoint[]): string {
+    if (points.length < 2) return 'stable';
 
-    const recentCpu = this.calculateAverage(recent.map(m => m.cpu.usage));
-    const olderCpu = this.calculateAverage(older.map(m => m.cpu.usage));
-    
-    const recentMemory = this.calculateAverage(recent.map(m => m.memory.usage));
-    const olderMemory = this.calculateAverage(older.map(m => m.memory.usage));
+    const recent = summarize(points.slice(-10)).average;
+    const older = summarize(points.slice(-20, -10)).average;
+    if (older === 0) return 'stable';
 
-    return {
-      cpu: recentCpu > olderCpu * 1.1 ? 'increasing' : recentCpu < olderCpu * 0.9 ? 'decreasing' : 'stable',
-      memory: recentMemory > olderMemory * 1.1 ? 'increasing' : recentMemory < olderMemory * 0.9 ? 'decreasing' : 'stable'
-    };
+    return recent > older * 1.1 ? 'increasing' : recent < older * 0.9 ? 'decreasing' : 'stable';
   }
 
   // Health check and cleanup
@@ -779,8 +609,17 @@ export class MonitoringAnalyticsService {
     }
     
     // Flush any remaining metrics
-    await this.flushPerformanceMetrics();
+    await this.metricsStore.stop();
     
     this.logger.info("Monitoring service cleaned up");
   }
-}
\ No newline at end of file
+}
+let sharedMonitoringService: MonitoringAnalyticsService | null = null;
+
+// One instance per process so routes and alert subscribers see the same active alerts
+export function getMonitoringAnalyticsService(): MonitoringAnalyticsService {
+  if (!sharedMonitoringService) {
+    sharedMonitoringService = new MonitoringAnalyticsService();
+  }
+  return sharedMonitoringService;
+}
@@ -1,4 +1,3 @@
-import OpenAI from 'openai';
 import { Logger } from '../utils/logger';
 import { PrismaClient } from '@prisma/client';
 import { prisma } from '../lib/database';
@@ -8,6 +7,7 @@ import { SelectorStrategyServiceImpl } from './selectors/selector-strategy';
 import { TrainingDataTransformerImpl } from './training/training-data-transformer';
 import { VisionAnalysisServiceImpl } from './vision/vision-analysis';
 import { CacheManagerServiceImpl } from './cache/cache-manager';
+import { FineTuneJob, LLMProvider, getLLMProvider } from './llm';
 
 // Re-export interfaces for backward compatibility
 export interface VisionAnalysisResult {
@@ -49,6 +49,36 @@ export interface TrainingConfig {
     learning_rate_multiplier: number;
   };
   suffix?: string;
+  /** Held-out file the provider reports validation loss against */
+  validationFileId?: string;
+}
+
+// System prompt baked into every fine-tuning example; reuse it when prompting the trained model
+export const TRAINING_SYSTEM_PROMPT = "You are a helpful AI agent that writes Playwright code to navigate e-commerce websites based on user tasks and DOM context. You understand semantic journey context, shopping flows, product configuration states, and can generate reliable selectors for automated interactions.";
+
+/**
+ * Convert a training example into OpenAI chat fine-tuning format
+ * @param example - Example in messages format or prompt/completion format
+ * @returns Chat example, or null if the example is malformed
+ */
+export function toFineTuningExample(example: any): { messages: any[] } | null {
+  // If already in messages format, return as-is
+  if (example.messages && Array.isArray(example.messages)) {
+    return example;
+  }
+
+  // Convert prompt/completion format to messages format
+  if (example.prompt && example.completion) {
+    return {
+      messages: [
+        { role: "system", content: TRAINING_SYSTEM_PROMPT },
+        { role: "user", content: example.prompt },
+        { role: "assistant", content: example.completion }
+      ]
+    };
+  }
+
+  return null;
 }
 
 /**
@@ -62,10 +92,10 @@ export interface TrainingConfig {
  * - Delegates vision analysis to VisionAnalysisService  
  * - Delegates caching to CacheManagerService
  * - Delegates selector logic to SelectorStrategyService
- * - Keeps fine-tuning methods directly (no delegation needed)
+ * - Fine-tuning goes straight to the configured LLMProvider
  */
 export class OpenAIIntegrationService {
-  private openai: OpenAI;
+  private provider: LLMProvider;
   private logger: Logger;
   private prisma: PrismaClient;
   
@@ -75,23 +105,18 @@ export class OpenAIIntegrationService {
   private visionAnalysis: VisionAnalysisServiceImpl;
   private cacheManager: CacheManagerServiceImpl;
 
-  constructor() {
+  /**
+   * @param provider - LLM provider; defaults to the one selected by LLM_PROVIDER
+   */
+  constructor(provider: LLMProvider = getLLMProvider()) {
     this.logger = new Logger("OpenAIIntegration");
-    
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is required");
-    }
-
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-
+    this.provider = provider;
     this.prisma = prisma;
     
     // Initialize modular services
     this.selectorStrategy = new SelectorStrategyServiceImpl();
     this.trainingTransformer = new TrainingDataTransformerImpl(this.selectorStrategy);
-    this.visionAnalysis = new VisionAnalysisServiceImpl(this.openai, this.prisma);
+    this.visionAnalysis = new VisionAnalysisServiceImpl(this.provider, this.prisma);
     this.cacheManager = new CacheManagerServiceImpl(this.prisma);
   }
 
@@ -258,37 +283,13 @@ export class OpenAIIntegrationService {
       // Handle array of examples, convert to proper OpenAI format
       const examples = Array.isArray(data) ? data : (data.messages || []);
       
-      const systemMessage = {
-        role: "system",
-        content: "You are a helpful AI agent that writes Playwright code to navigate e-commerce websites based on user tasks and DOM context. You understand semantic journey context, shopping flows, product configuration states, and can generate reliable selectors for automated interactions."
-      };
-      
       const fineTuningExamples = examples.map((example: any) => {
-        // If already in messages format, return as-is
-        if (example.messages && Array.isArray(example.messages)) {
-          return example;
+        const converted = toFineTuningExample(example);
+        if (!converted) {
+          // Skip malformed examples
+          this.logger.warn("Skipping malformed training example", { example: Object.keys(example) });
         }
-        
-        // Convert prompt/completion format to messages format
-        if (example.prompt && example.completion) {
-          return {
-            messages: [
-              systemMessage,
-              {
-                role: "user",
-                content: example.prompt
-              },
-              {
-                role: "assistant", 
-                content: example.completion
-              }
-            ]
-          };
-        }
-        
-        // Skip malformed examples
-        this.logger.warn("Skipping malformed training example", { example: Object.keys(example) });
-        return null;
+        return converted;
       }).filter(Boolean); // Remove null entries
       
       const jsonlContent = fineTuningExamples.map((example: any) => JSON.stringify(example)).join('\n');
@@ -317,16 +318,7 @@ export class OpenAIIntegrationService {
         }
       }
       
-      const blob = new Blob([jsonlContent], { type: 'application/jsonl' });
-      const fileObject = Object.assign(blob, {
-        name: 'training-data.jsonl',
-        lastModified: Date.now()
-      });
-      
-      const file = await this.openai.files.create({
-        file: fileObject,
-        purpose: 'fine-tune'
-      });
+      const file = await this.provider.uploadFile(jsonlContent, 'training-data.jsonl', 'fine-tune');
 
       this.logger.info("Training file uploaded", { fileId: file.id, size: jsonlContent.length });
       return file.id;
@@ -344,8 +336,9 @@ export class OpenAIIntegrationService {
    */
   async createFineTuningJob(fileId: string, config: TrainingConfig): Promise<string> {
     try {
-      const job = await this.openai.fineTuning.jobs.create({
-        training_file: fileId,
+      const job = await this.provider.createFineTuneJob({
+        trainingFileId: fileId,
+        validationFileId: config.validationFileId,
         model: config.model || 'gpt-4o-mini-2024-07-18',
         hyperparameters: config.hyperparameters,
         suffix: config.suffix
@@ -366,23 +359,24 @@ export class OpenAIIntegrationService {
    */
   async monitorTraining(jobId: string): Promise<any> {
     try {
-      const job = await this.openai.fineTuning.jobs.retrieve(jobId);
+      const job = await this.provider.retrieveFineTuneJob(jobId);
       
       this.logger.info("Training job status", {
         jobId,
         status: job.status,
-        trainedTokens: job.trained_tokens,
-        createdAt: job.created_at
+        trainedTokens: job.trainedTokens,
+        createdAt: job.createdAt
       });
 
       return {
         status: job.status,
         progress: this.calculateTrainingProgress(job),
-        trainedTokens: job.trained_tokens,
-        estimatedFinish: job.estimated_finish,
+        trainedTokens: job.trainedTokens,
+        estimatedFinish: job.estimatedFinish,
         error: job.error,
         hyperparameters: job.hyperparameters,
-        resultFiles: job.result_files
+        resultFiles: job.resultFiles,
+        fineTunedModel: job.fineTunedModel
       };
     } catch (error) {
       this.logger.error("Training monitoring failed", error);
@@ -396,14 +390,15 @@ export class OpenAIIntegrationService {
    */
   async listFineTuningJobs(): Promise<any[]> {
     try {
-      const jobs = await this.openai.fineTuning.jobs.list();
-      return jobs.data.map(job => ({
+      const jobs = await this.provider.listFineTuneJobs();
+      return jobs.map(job => ({
         id: job.id,
         status: job.status,
         model: job.model,
-        createdAt: job.created_at,
-        finishedAt: job.finished_at,
-        trainedTokens: job.trained_tokens
+        fineTunedModel: job.fineTunedModel,
+        createdAt: job.createdAt,
+        finishedAt: job.finishedAt,
+        trainedTokens: job.trainedTokens
       }));
     } catch (error) {
       this.logger.error("Failed to list fine-tuning jobs", error);
@@ -417,7 +412,7 @@ export class OpenAIIntegrationService {
    */
   async cancelFineTuningJob(jobId: string): Promise<void> {
     try {
-      await this.openai.fineTuning.jobs.cancel(jobId);
+      await this.provider.cancelFineTuneJob(jobId);
       this.logger.info("Fine-tuning job cancelled", { jobId });
     } catch (error) {
       this.logger.error("Failed to cancel fine-tuning job", error);
@@ -446,12 +441,12 @@ export class OpenAIIntegrationService {
     return Math.max(0, Math.min(100, complexity));
   }
 
-  private calculateTrainingProgress(job: any): number {
+  private calculateTrainingProgress(job: FineTuneJob): number {
     if (job.status === 'succeeded') return 100;
     if (job.status === 'failed' || job.status === 'cancelled') return 0;
-    if (job.status === 'running' && job.trained_tokens) {
+    if (job.status === 'running' && job.trainedTokens) {
       // Rough estimate based on trained tokens
-      return Math.min(90, (job.trained_tokens / 10000) * 100);
+      return Math.min(90, (job.trainedTokens / 10000) * 100);
     }
     if (job.status === 'validating_files') return 10;
     if (job.status === 'queued') return 5;
@@ -470,7 +465,8 @@ export class OpenAIIntegrationService {
       selectorStrategy: this.selectorStrategy,
       trainingTransformer: this.trainingTransformer,
       visionAnalysis: this.visionAnalysis,
-      cacheManager: this.cacheManager
+      cacheManager: this.cacheManager,
+      llmProvider: this.provider
     };
   }
 
@@ -485,6 +481,7 @@ export class OpenAIIntegrationService {
         status: 'healthy',
         services: {
           openai: 'connected',
+          llmProvider: this.provider.name,
           cache: `${cacheStats.activeEntries} active entries`,
           modules: {
             selectorStrategy: 'loaded',
@@ -1,5 +1,5 @@
-import OpenAI from 'openai';
 import { Logger } from '../utils/logger';
+import { LLMProvider, getLLMProvider } from './llm';
 
 export interface GeneratedTaskResponse {
   title: string;
@@ -12,30 +12,23 @@ export interface GeneratedTaskResponse {
 }
 
 export class OpenAITaskService {
-  private openai: OpenAI;
+  private provider: LLMProvider;
   private logger: Logger;
 
-  constructor() {
+  constructor(provider: LLMProvider = getLLMProvider()) {
     this.logger = new Logger("OpenAITaskService");
-    
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is required");
-    }
-
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: 30000, // 30 second timeout for task generation
-    });
+    this.provider = provider;
   }
 
   async generateTask(prompt: string): Promise<string> {
     try {
-      this.logger.info("Generating task with OpenAI", { 
+      this.logger.info("Generating task with LLM provider", { 
+        provider: this.provider.name,
         promptLength: prompt.length,
         timestamp: new Date().toISOString()
       });
 
-      const response = await this.openai.chat.completions.create({
+      const response = await this.provider.chat({
         model: "gpt-3.5-turbo", // More reliable for JSON generation than gpt-4o-mini
         messages: [
           {
@@ -47,14 +40,14 @@ export class OpenAITaskService {
             content: prompt
           }
         ],
-        max_tokens: 400,
+        maxTokens: 400,
         temperature: 0.7,
-        response_format: { type: "json_object" }
+        responseFormat: "json_object"
       });
 
-      const content = response.choices[0]?.message?.content;
+      const content = response.content;
       if (!content) {
-        throw new Error("No content returned from OpenAI");
+        throw new Error("No content returned from LLM provider");
       }
 
       // Validate it's proper JSON
@@ -83,12 +76,12 @@ export class OpenAITaskService {
   async healthCheck(): Promise<boolean> {
     try {
       this.logger.info("Starting OpenAI health check", { timestamp: new Date().toISOString() });
-      const response = await this.openai.chat.completions.create({
+      const response = await this.provider.chat({
         model: "gpt-3.5-turbo",
         messages: [{ role: "user", content: "Hello" }],
-        max_tokens: 5
+        maxTokens: 5
       });
-      const result = !!response.choices[0]?.message?.content;
+      const result = !!response.content;
       this.logger.info("OpenAI health check completed", { result, hasResponse: !!response });
       return result;
     } catch (error) {
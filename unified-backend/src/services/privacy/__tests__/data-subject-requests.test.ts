@@ -0,0 +1,227 @@
+/**
+ * Data Subject Request Tests
+ *
+ * Tests intake and identity verification, export bundles for access
+ * requests, and cascading erasure with retries of what could not be deleted
+ */
+
+import * as crypto from 'crypto';
+import { readZipEntries } from '../../archives/zip-reader';
+import {
+  DataSubjectRequestServiceImpl,
+  DataSubjectRequestStateError,
+  InvalidVerificationTokenError,
+  exportObjectKey
+} from '../data-subject-requests';
+
+const SUBJECT = 'worker-42';
+const SESSION_ID = '11111111-1111-4111-8111-111111111111';
+const image = Buffer.from('webp-bytes');
+
+function matches(row: any, where: any = {}): boolean {
+  return Object.entries(where).every(([key, condition]: [string, any]) => {
+    if (key === 'OR') return condition.some((branch: any) => matches(row, branch));
+    if (condition && typeof condition === 'object' && 'in' in condition) return condition.in.includes(row[key]);
+    if (condition && typeof condition === 'object' && 'not' in condition) return row[key] !== condition.not;
+    if (condition && typeof condition === 'object' && 'lt' in condition) return row[key] < condition.lt;
+    return row[key] === condition;
+  });
+}
+
+function mockPrisma() {
+  const requests = new Map<string, any>();
+  let nextId = 1;
+  const rowsFor = (rows: any[]) => ({
+    findMany: jest.fn(({ where }: any = {}) => Promise.resolve(rows.filter(row => matches(row, where)))),
+    deleteMany: jest.fn(({ where }: any = {}) => Promise.resolve({ count: rows.filter(row => matches(row, where)).length })),
+    count: jest.fn(({ where }: any = {}) => Promise.resolve(rows.filter(row => matches(row, where)).length))
+  });
+
+  const prisma: any = {
+    auditActions: [] as string[],
+    dataSubjectRequest: {
+      create: jest.fn(({ data }: any) => {
+        const row = { id: `req-${nextId++}`, status: 'PENDING_VERIFICATION', result: {}, exportKey: null, exportChecksum: null, verifiedAt: null, completedAt: null, error: null, ...data };
+        requests.set(row.id, row);
+        return Promise.resolve(row);
+      }),
+      findFirst: jest.fn(({ where }: any) => Promise.resolve(Array.from(requests.values()).find(row => matches(row, where)) ?? null)),
+      findUnique: jest.fn(({ where }: any) => Promise.resolve(requests.get(where.id) ?? null)),
+      findUniqueOrThrow: jest.fn(({ where }: any) => Promise.resolve(requests.get(where.id))),
+      findMany: jest.fn(({ where }: any) => Promise.resolve(Array.from(requests.values()).filter(row => matches(row, where)))),
+      update: jest.fn(({ where, data }: any) => {
+        requests.set(where.id, { ...requests.get(where.id), ...data });
+        return Promise.resolve(requests.get(where.id));
+      }),
+      updateMany: jest.fn(({ where, data }: any) => {
+        const rows = Array.from(requests.values()).filter(row => matches(row, where));
+        rows.forEach(row => requests.set(row.id, { ...row, ...data }));
+        return Promise.resolve({ count: rows.length });
+      })
+    },
+    unifiedSession: {
+      ...rowsFor([{ id: SESSION_ID, workerId: SUBJECT, enhancedInteractions: [{ id: 'click-1', type: 'click' }], startTime: new Date() }])
+    },
+    taskAssignment: rowsFor([{ id: 'assignment-1', userId: SUBJECT, sessionId: SESSION_ID }]),
+    screenshot: rowsFor([
+      { id: 'shot-1', sessionId: SESSION_ID, s3Key: `screenshots/${SESSION_ID}/a.webp`, thumbnailKey: `screenshots/${SESSION_ID}/a.thumb.webp`, format: 'webp', timestamp: BigInt(1) },
+      { id: 'shot-2', sessionId: SESSION_ID, s3Key: null, thumbnailKey: null, dataUrl: 'data:image/png;base64,AA==', format: 'png', timestamp: BigInt(2) }
+    ]),
+    sessionArchive: rowsFor([{ sessionId: SESSION_ID, s3Key: `archives/session-${SESSION_ID}.zip`, format: 'zip' }]),
+    enhancedInteraction: rowsFor([]),
+    interaction: rowsFor([]),
+    psychologyProfile: rowsFor([{ sessionId: SESSION_ID, dominantPersonality: 'ANALYTICAL' }]),
+    contextEnhancement: rowsFor([]),
+    trainingData: rowsFor([]),
+    qualityReport: rowsFor([]),
+    visionAnalysisCache: rowsFor([]),
+    agent2Interaction: rowsFor([]),
+    agentPerformanceLog: rowsFor([]),
+    piiToken: rowsFor([{ sessionId: SESSION_ID, token: '[EMAIL:3f9a1c2b7d4e8a60]' }]),
+    processingJob: rowsFor([])
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+  return { prisma, requests };
+}
+
+function setup(overrides: Record<string, any> = {}) {
+  const { prisma, requests } = mockPrisma();
+  const objects = new Map<string, Buffer>([[`screenshots/${SESSION_ID}/a.webp`, image]]);
+  const objectStore: any = {
+    put: jest.fn((key: string, body: Buffer) => {
+      objects.set(key, body);
+      return Promise.resolve({ key, size: body.length });
+    }),
+    get: jest.fn((key: string) => objects.has(key) ? Promise.resolve(objects.get(key)) : Promise.reject(new Error('NoSuchKey'))),
+    delete: jest.fn(() => Promise.resolve())
+  };
+  const auditLog: any = {
+    append: jest.fn((entry: any) => {
+      prisma.auditActions.push(entry.action);
+      return Promise.resolve(entry);
+    }),
+    list: jest.fn().mockResolvedValue([])
+  };
+  const options = {
+    objectStore,
+    archiveDir: '/tmp/dsr-test-archives',
+    deleteRemoteArchive: jest.fn().mockResolvedValue(undefined),
+    auditLog,
+    ...overrides
+  };
+  return { prisma, requests, objectStore, objects, auditLog, options, service: new DataSubjectRequestServiceImpl(prisma, options) };
+}
+
+describe('DataSubjectRequestService', () => {
+  describe('🪪 Intake and verification', () => {
+    it('should store only a hash of the token and set the deadline from the regulation', async () => {
+      const { service, requests } = setup();
+
+      const { request, verificationToken } = await service.createRequest({ type: 'erasure', regulation: 'ccpa', subjectId: SUBJECT, requestedBy: 'key-1' });
+      const stored = requests.get(request.id);
+
+      expect(request).not.toHaveProperty('verificationHash');
+      expect(stored.verificationHash).toBe(crypto.createHash('sha256').update(verificationToken).digest('hex'));
+      expect(stored.type).toBe('ERASURE');
+      expect(Math.round((stored.dueAt.getTime() - Date.now()) / 86_400_000)).toBe(45);
+      await expect(service.createRequest({ type: 'erasure', subjectId: SUBJECT })).rejects.toBeInstanceOf(DataSubjectRequestStateError);
+    });
+
+    it('should refuse to process until the subject confirms with the right token', async () => {
+      const { service, prisma } = setup();
+      const { request, verificationToken } = await service.createRequest({ type: 'access', subjectId: SUBJECT });
+
+      await expect(service.processRequest(request.id)).rejects.toBeInstanceOf(DataSubjectRequestStateError);
+      await expect(service.verifyIdentity(request.id, 'wrong')).rejects.toThrow('Invalid or expired verification token');
+      await expect(service.verifyIdentity('unknown', verificationToken)).rejects.toBeInstanceOf(InvalidVerificationTokenError);
+
+      const verified = await service.verifyIdentity(request.id, verificationToken);
+
+      expect(verified.status).toBe('VERIFIED');
+      await expect(service.verifyIdentity(request.id, verificationToken)).rejects.toThrow('Invalid or expired verification token');
+      expect(prisma.auditActions).toEqual(['request.created', 'identity.verification_failed', 'identity.verified', 'identity.verification_failed']);
+    });
+
+    it('should reject expired tokens', async () => {
+      const { service } = setup({ verificationTtlMs: -1 });
+      const { request, verificationToken } = await service.createRequest({ type: 'access', subjectId: SUBJECT });
+
+      await expect(service.verifyIdentity(request.id, verificationToken)).rejects.toThrow('Invalid or expired verification token');
+    });
+  });
+
+  async function verifiedRequest(service: DataSubjectRequestServiceImpl, type: 'access' | 'erasure') {
+    const { request, verificationToken } = await service.createRequest({ type, subjectId: SUBJECT });
+    await service.verifyIdentity(request.id, verificationToken);
+    return request.id;
+  }
+
+  describe('📦 Access', () => {
+    it('should store an export bundle with the session, interactions and screenshot images', async () => {
+      const { service, objects, prisma } = setup();
+      const requestId = await verifiedRequest(service, 'access');
+
+      const completed = await service.processRequest(requestId, 'key-1');
+
+      expect(completed.status).toBe('COMPLETED');
+      expect(completed.exportKey).toBe(exportObjectKey(requestId));
+      expect(completed.result).toEqual(expect.objectContaining({ counts: expect.objectContaining({ sessions: 1, interactions: 1, screenshots: 2, images: 1 }) }));
+
+      const entries = readZipEntries(objects.get(exportObjectKey(requestId))!);
+      expect(entries.get(`sessions/${SESSION_ID}/screenshots/shot-1.webp`)).toEqual(image);
+      expect(JSON.parse(entries.get(`sessions/${SESSION_ID}/session.json`)!.toString()).psychologyProfile.dominantPersonality).toBe('ANALYTICAL');
+      expect(JSON.parse(entries.get('manifest.json')!.toString()).subjectId).toBe(SUBJECT);
+
+      const download = await service.getExport(requestId, 'key-1');
+      expect(download.checksum).toBe(crypto.createHash('sha256').update(download.bundle).digest('hex'));
+      expect(prisma.auditActions.slice(-3)).toEqual(['request.processing', 'export.completed', 'export.downloaded']);
+    });
+  });
+
+  describe('🧹 Erasure', () => {
+    it('should delete rows, objects, archives and world model contexts', async () => {
+      const worldModel = { eraseSessionData: jest.fn().mockResolvedValue({ categoriesUpdated: 0, categoriesDeleted: 0, productsUpdated: 2, productsDeleted: 1 }) };
+      const { service, prisma, objectStore, options } = setup({ worldModel: () => worldModel });
+      const requestId = await verifiedRequest(service, 'erasure');
+
+      const completed = await service.processRequest(requestId);
+
+      expect(completed.status).toBe('COMPLETED');
+      expect(prisma.unifiedSession.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [SESSION_ID] } } });
+      expect(prisma.taskAssignment.deleteMany).toHaveBeenCalledWith({ where: { OR: [{ userId: SUBJECT }, { sessionId: { in: [SESSION_ID] } }] } });
+      expect(prisma.psychologyProfile.deleteMany).toHaveBeenCalled();
+      expect(objectStore.delete).toHaveBeenCalledWith(`screenshots/${SESSION_ID}/a.thumb.webp`);
+      expect(options.deleteRemoteArchive).toHaveBeenCalledWith(`archives/session-${SESSION_ID}.zip`);
+      expect(worldModel.eraseSessionData).toHaveBeenCalledWith([SESSION_ID]);
+      expect(completed.result).toEqual(expect.objectContaining({
+        deleted: expect.objectContaining({ sessions: 1, screenshots: 2, psychologyProfiles: 1, taskAssignments: 1, piiTokens: 1 }),
+        targetsDeleted: 4
+      }));
+    });
+
+    it('should record what could not be deleted and retry it on the next run', async () => {
+      const { service, objectStore, prisma, options } = setup({ worldModel: () => null });
+      objectStore.delete.mockRejectedValueOnce(new Error('AccessDenied'));
+      const requestId = await verifiedRequest(service, 'erasure');
+
+      const failed = await service.processRequest(requestId);
+
+      expect(failed.status).toBe('FAILED');
+      expect(failed.error).toBe('Erasure incomplete: 1 stored objects could not be deleted; the world model was unavailable');
+      expect((failed.result as any).failedTargets).toEqual([{ kind: 'object', key: `screenshots/${SESSION_ID}/a.webp` }]);
+
+      // Rows are gone by now; the retry has to rely on the recorded sessions and targets
+      prisma.unifiedSession.findMany.mockResolvedValue([]);
+      prisma.taskAssignment.findMany.mockResolvedValue([]);
+      prisma.screenshot.findMany.mockResolvedValue([]);
+      prisma.sessionArchive.findMany.mockResolvedValue([]);
+      const retried = await new DataSubjectRequestServiceImpl(prisma, { ...options, worldModel: undefined }).processRequest(requestId);
+
+      expect(retried.status).toBe('COMPLETED');
+      expect(objectStore.delete).toHaveBeenLastCalledWith(`screenshots/${SESSION_ID}/a.webp`);
+      expect((retried.result as any).sessionIds).toEqual([SESSION_ID]);
+      expect(prisma.auditActions).toContain('erasure.incomplete');
+      expect(prisma.auditActions[prisma.auditActions.length - 1]).toBe('erasure.completed');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * PII Redaction Tests
+ *
+ * Tests the typed detectors, per-group allow/deny policies, session-scoped
+ * tokens and their reversal, and redaction inside validateStreamData
+ */
+
+import * as crypto from 'crypto';
+import { DataValidationService } from '../../data-validation';
+import { detectPII, luhnCheck } from '../pii-detectors';
+import { PIIRedactionEngineImpl, PIITokenVault, PIITokenizer, TokenVaultEntry, getTokenizationKey } from '../pii-redaction';
+
+const SESSION_ID = 'session-1';
+
+class MemoryVault implements PIITokenVault {
+  rows = new Map<string, TokenVaultEntry>();
+  store = jest.fn(async (sessionId: string, entries: TokenVaultEntry[]) => {
+    entries.forEach(entry => {
+      if (!this.rows.has(`${sessionId}|${entry.token}`)) this.rows.set(`${sessionId}|${entry.token}`, entry);
+    });
+  });
+  async find(sessionId: string, tokens: string[]): Promise<TokenVaultEntry[]> {
+    return tokens.map(token => this.rows.get(`${sessionId}|${token}`)).filter((entry): entry is TokenVaultEntry => !!entry);
+  }
+}
+
+function interaction(overrides: Record<string, unknown> = {}) {
+  return {
+    sessionId: SESSION_ID,
+    type: 'input',
+    primarySelector: '#email',
+    elementValue: 'jane.doe@example.com',
+    elementAttributes: { placeholder: 'Email address', type: 'email' },
+    pageTitle: 'Checkout - Card 4111 1111 1111 1111',
+    elementDetails: {
+      productName: 'Widget Pro',
+      cardTitle: 'Summer sale',
+      formContext: { fieldName: 'Full name', value: 'Jane Doe' }
+    },
+    contextData: { note: 'Ship to 42 Baker Street, call +44 20 7946 0958' },
+    stateBefore: { formData: { q: 'running shoes' } },
+    visual: { caption: 'jane.doe@example.com' },
+    ...overrides
+  };
+}
+
+describe('PII Redaction', () => {
+  let vault: MemoryVault;
+  let engine: PIIRedactionEngineImpl;
+
+  beforeEach(() => {
+    vault = new MemoryVault();
+    engine = new PIIRedactionEngineImpl(new PIITokenizer(crypto.randomBytes(32)), vault);
+  });
+
+  describe('🔍 Detectors', () => {
+    it('should only take Luhn-valid digit runs for cards, before phone numbers', () => {
+      expect(luhnCheck('4111111111111111')).toBe(true);
+      expect(luhnCheck('4111111111111112')).toBe(false);
+
+      const matches = detectPII('Paid with 4111-1111-1111-1111, order 4111 1111 1111 1112, call (555) 987-6543', { path: 'note' });
+
+      expect(matches.map(match => [match.type, match.value])).toEqual([
+        ['card', '4111-1111-1111-1111'],
+        ['phone', '(555) 987-6543']
+      ]);
+    });
+
+    it('should find names from form labels or inline labels but not from product fields', () => {
+      expect(detectPII('Jane Doe', { path: 'value', key: 'value', label: 'given-name' })[0]).toEqual(
+        expect.objectContaining({ type: 'name', value: 'Jane Doe' })
+      );
+      expect(detectPII('Name: Jane Doe', { path: 'note' })[0].value).toBe('Jane Doe');
+      expect(detectPII('Widget Pro', { path: 'productName', key: 'productName' })).toEqual([]);
+      expect(detectPII('Widget Pro', { path: 'name', key: 'name' })).toEqual([]);
+      expect(detectPII('Product name: Widget Pro', { path: 'note' })).toEqual([]);
+    });
+
+    it('should find street addresses and postcodes', () => {
+      const matches = detectPII('Deliver to 1600 Pennsylvania Avenue, Washington, DC 20500 or SW1A 1AA', { path: 'note' });
+
+      expect(matches.map(match => match.value)).toEqual(['1600 Pennsylvania Avenue, Washington, DC 20500', 'SW1A 1AA']);
+      expect(detectPII('192.168.0.1', { path: 'ipAddress', key: 'ipAddress' })).toEqual([]);
+    });
+  });
+
+  describe('🧹 Redaction', () => {
+    it('should replace detected spans and denied fields in place and skip allowed groups', async () => {
+      const data = interaction();
+
+      const report = await engine.redact(data, { sessionId: SESSION_ID });
+
+      expect(data.elementValue).toMatch(/^\[EMAIL:[0-9a-f]{16}\]$/);
+      expect(data.pageTitle).toMatch(/^Checkout - Card \[CARD:[0-9a-f]{16}\]$/);
+      expect(data.elementDetails.formContext.value).toMatch(/^\[NAME:[0-9a-f]{16}\]$/);
+      expect(data.contextData.note).toMatch(/^Ship to \[ADDRESS:[0-9a-f]{16}\], call \[PHONE:[0-9a-f]{16}\]$/);
+      expect(data.stateBefore.formData.q).toMatch(/^\[FIELD:[0-9a-f]{16}\]$/);
+      expect(data.elementDetails.productName).toBe('Widget Pro');
+      expect(data.elementDetails.cardTitle).toBe('Summer sale');
+      expect(data.primarySelector).toBe('#email');
+      expect(data.visual.caption).toBe('jane.doe@example.com');
+
+      expect(report.tokens).toBe(6);
+      expect(report.byType).toEqual({ email: 1, card: 1, name: 1, address: 1, phone: 1, field: 1 });
+      expect(report.paths).toEqual(expect.arrayContaining(['elementValue', 'elementDetails.formContext.value', 'stateBefore.formData.q']));
+      expect(vault.rows.size).toBe(6);
+    });
+
+    it('should tokenize password inputs whole', async () => {
+      const data = interaction({ elementValue: 'hunter2', elementAttributes: { type: 'password', autocomplete: 'current-password' } });
+
+      await engine.redact(data, { sessionId: SESSION_ID });
+
+      expect(data.elementValue).toMatch(/^\[FIELD:[0-9a-f]{16}\]$/);
+    });
+
+    it('should give a value the same token within a session and a different one in another session', async () => {
+      const first = { sessionId: SESSION_ID, contextData: { a: 'Jane.Doe@example.com', b: 'mail jane.doe@example.com' } };
+      const other = { sessionId: 'session-2', contextData: { a: 'jane.doe@example.com' } };
+
+      await engine.redact(first, { sessionId: SESSION_ID });
+      await engine.redact(other, { sessionId: 'session-2' });
+
+      expect(first.contextData.b).toBe(`mail ${first.contextData.a}`);
+      expect(other.contextData.a).not.toBe(first.contextData.a);
+      expect(vault.rows.size).toBe(2);
+    });
+
+    it('should leave already redacted data unchanged', async () => {
+      const data = interaction();
+      await engine.redact(data, { sessionId: SESSION_ID });
+      const redacted = JSON.parse(JSON.stringify(data));
+
+      const report = await engine.redact(data, { sessionId: SESSION_ID });
+
+      expect(data).toEqual(redacted);
+      expect(report.tokens).toBe(0);
+      expect(vault.store).toHaveBeenLastCalledWith(SESSION_ID, []);
+    });
+  });
+
+  describe('🔓 Detokenize', () => {
+    it('should restore originals from the vault of the same session only', async () => {
+      const data = interaction();
+      await engine.redact(data, { sessionId: SESSION_ID });
+
+      const restored = await engine.detokenize(SESSION_ID, `${data.contextData.note} / ${data.elementValue}`);
+      const elsewhere = await engine.detokenize('session-2', data.elementValue);
+
+      expect(restored).toEqual({
+        text: 'Ship to 42 Baker Street, call +44 20 7946 0958 / jane.doe@example.com',
+        resolved: 3,
+        unresolved: []
+      });
+      expect(elsewhere).toEqual({ text: data.elementValue, resolved: 0, unresolved: [data.elementValue] });
+    });
+  });
+
+  describe('🔑 Tokenization key', () => {
+    it('should refuse to fall back to a temporary key in production', () => {
+      const env = { ...process.env };
+      process.env.NODE_ENV = 'production';
+      delete process.env.PII_TOKENIZATION_KEY;
+
+      try {
+        expect(() => getTokenizationKey()).toThrow('PII_TOKENIZATION_KEY must be set in production');
+      } finally {
+        process.env = env;
+      }
+    });
+  });
+
+  describe('✅ validateStreamData', () => {
+    it('should redact the payload before rules run and report it', async () => {
+      const validation = new DataValidationService({} as any, engine);
+      const data = interaction();
+
+      const result = await validation.validateStreamData(data, 'interaction');
+
+      expect(data.elementValue).toMatch(/^\[EMAIL:/);
+      expect(result.redaction).toEqual(expect.objectContaining({ redactedFields: 5, tokens: 6 }));
+    });
+
+    it('should throw rather than pass PII through when the vault cannot be written', async () => {
+      vault.store.mockRejectedValueOnce(new Error('database unavailable'));
+      const validation = new DataValidationService({} as any, engine);
+
+      await expect(validation.validateStreamData(interaction(), 'interaction')).rejects.toThrow('database unavailable');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Privacy Audit Log Tests
+ *
+ * Tests the hash chain written by append() and how verifyChain() reports
+ * edited, removed and reordered events
+ */
+
+import { GENESIS_HASH, PrivacyAuditLogImpl, canonicalJson } from '../privacy-audit-log';
+
+function mockPrisma() {
+  const events: any[] = [];
+  const prisma: any = {
+    events,
+    $executeRaw: jest.fn().mockResolvedValue(0),
+    privacyAuditEvent: {
+      findFirst: jest.fn(() => Promise.resolve(events[events.length - 1] ?? null)),
+      create: jest.fn(({ data }: any) => {
+        const row = { id: `event-${events.length + 1}`, ...data };
+        events.push(row);
+        return Promise.resolve(row);
+      }),
+      findMany: jest.fn(({ where }: any) => Promise.resolve(
+        events.filter(event => event.sequence > (where.sequence?.gt ?? 0)).sort((a, b) => a.sequence - b.sequence)
+      ))
+    }
+  };
+  prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+  return prisma;
+}
+
+describe('PrivacyAuditLog', () => {
+  let prisma: any;
+  let auditLog: PrivacyAuditLogImpl;
+
+  beforeEach(async () => {
+    prisma = mockPrisma();
+    auditLog = new PrivacyAuditLogImpl(prisma);
+
+    await auditLog.append({ requestId: 'r1', action: 'request.created', actor: 'key-1', details: { type: 'ERASURE', dueAt: new Date('2026-11-18T00:00:00Z') } });
+    await auditLog.append({ requestId: 'r1', action: 'identity.verified', actor: 'subject' });
+    await auditLog.append({ requestId: 'r1', action: 'erasure.completed', details: { deleted: { sessions: 2, screenshots: 5 } } });
+  });
+
+  describe('🔗 Chain', () => {
+    it('should link each event to the previous one under an advisory lock', () => {
+      const [first, second, third] = prisma.events;
+
+      expect(prisma.events.map((event: any) => event.sequence)).toEqual([1, 2, 3]);
+      expect(first.previousHash).toBe(GENESIS_HASH);
+      expect(second.previousHash).toBe(first.hash);
+      expect(third.previousHash).toBe(second.hash);
+      expect(first.details.dueAt).toBe('2026-11-18T00:00:00.000Z');
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(3);
+    });
+
+    it('should verify an untouched chain even after JSONB reorders keys', async () => {
+      prisma.events[2].details = { deleted: { screenshots: 5, sessions: 2 } };
+
+      const verification = await auditLog.verifyChain();
+
+      expect(verification).toEqual({ valid: true, checked: 3, lastSequence: 3, lastHash: prisma.events[2].hash });
+      expect(canonicalJson({ b: 1, a: [{ d: 2, c: undefined }] })).toBe('{"a":[{"d":2}],"b":1}');
+    });
+  });
+
+  describe('🚨 Tampering', () => {
+    it('should report an edited event', async () => {
+      prisma.events[1].actor = 'someone-else';
+
+      const verification = await auditLog.verifyChain();
+
+      expect(verification.valid).toBe(false);
+      expect(verification.brokenAt).toEqual({ sequence: 2, reason: 'hash does not match the event content' });
+      expect(verification.checked).toBe(1);
+    });
+
+    it('should report a removed event and a rewritten link', async () => {
+      const removed = prisma.events.splice(1, 1);
+      expect((await auditLog.verifyChain()).brokenAt).toEqual({ sequence: 3, reason: 'expected sequence 2' });
+
+      prisma.events.splice(1, 0, { ...removed[0], previousHash: 'f'.repeat(64) });
+      expect((await auditLog.verifyChain()).brokenAt).toEqual({ sequence: 2, reason: 'previousHash does not match the preceding event' });
+    });
+  });
+});
@@ -0,0 +1,426 @@
+import {
+  DataSubjectRequest,
+  DataSubjectRequestStatus,
+  DataSubjectRequestType,
+  Prisma,
+  PrismaClient,
+  PrivacyAuditEvent
+} from '@prisma/client';
+import * as crypto from 'crypto';
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+import { S3StorageService } from '../s3-storage';
+import { getObjectStore } from '../storage';
+import { PIITokenizer, getTokenizationKey } from './pii-redaction';
+import { PrivacyAuditLog, PrivacyAuditLogImpl } from './privacy-audit-log';
+import { ErasureOutcome, SubjectDataEraser, SubjectEraserOptions } from './subject-erasure';
+import { buildSubjectExport } from './subject-export';
+
+export const DSR_TYPES = ['access', 'erasure'] as const;
+export type DsrType = typeof DSR_TYPES[number];
+
+export const DSR_REGULATIONS = ['gdpr', 'ccpa'] as const;
+export type DsrRegulation = typeof DSR_REGULATIONS[number];
+
+/** Days to answer a request: one month under GDPR Art. 12(3), 45 days under CCPA 1798.130 */
+export const DSR_RESPONSE_DAYS: Record<DsrRegulation, number> = { gdpr: 30, ccpa: 45 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOKEN_BYTES = 32;
+const DEFAULT_VERIFICATION_TTL_MS = 72 * 60 * 60 * 1000;
+const OPEN_STATUSES: DataSubjectRequestStatus[] = ['PENDING_VERIFICATION', 'VERIFIED', 'PROCESSING', 'FAILED'];
+
+/** No request (or no downloadable export) with this id */
+export class DataSubjectRequestNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataSubjectRequestNotFoundError';
+  }
+}
+
+/** The request's status does not allow the operation, or an equivalent request is already open */
+export class DataSubjectRequestStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataSubjectRequestStateError';
+  }
+}
+
+/** Wrong, expired or already used token; unknown request ids get the same error */
+export class InvalidVerificationTokenError extends Error {
+  constructor() {
+    super('Invalid or expired verification token');
+    this.name = 'InvalidVerificationTokenError';
+  }
+}
+
+/** A request as returned by the API; the verification hash never leaves the service */
+export type DataSubjectRequestSummary = Omit<DataSubjectRequest, 'verificationHash'>;
+
+export interface IssuedVerification {
+  request: DataSubjectRequestSummary;
+  /** Plaintext token for the subject's contact on record; only ever returned here */
+  verificationToken: string;
+}
+
+export interface CreateDataSubjectRequestInput {
+  type: DsrType;
+  regulation?: DsrRegulation;
+  subjectId: string;
+  contactEmail?: string;
+  notes?: string;
+  requestedBy?: string;
+}
+
+export interface DataSubjectRequestFilters {
+  status?: DataSubjectRequestStatus;
+  type?: DsrType;
+  subjectId?: string;
+  /** Open requests past their due date */
+  overdue?: boolean;
+  limit?: number;
+}
+
+export interface DataSubjectExport {
+  bundle: Buffer;
+  checksum: string;
+  fileName: string;
+}
+
+export interface DataSubjectRequestService {
+  createRequest(input: CreateDataSubjectRequestInput): Promise<IssuedVerification>;
+  reissueVerification(requestId: string, actor?: string): Promise<IssuedVerification>;
+  verifyIdentity(requestId: string, token: string): Promise<DataSubjectRequestSummary>;
+  processRequest(requestId: string, actor?: string): Promise<DataSubjectRequestSummary>;
+  cancelRequest(requestId: string, options?: { actor?: string; reason?: string }): Promise<DataSubjectRequestSummary>;
+  getRequest(requestId: string): Promise<(DataSubjectRequestSummary & { events: PrivacyAuditEvent[] }) | null>;
+  listRequests(filters?: DataSubjectRequestFilters): Promise<DataSubjectRequestSummary[]>;
+  getExport(requestId: string, actor?: string): Promise<DataSubjectExport>;
+}
+
+export interface DataSubjectRequestOptions extends SubjectEraserOptions {
+  verificationTtlMs?: number;
+  auditLog?: PrivacyAuditLog;
+  /** Opens PII token vault entries so exports contain the original values */
+  tokenizer?: PIITokenizer;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toTypeEnum(type: DsrType): DataSubjectRequestType {
+  return type.toUpperCase() as DataSubjectRequestType;
+}
+
+function toSummary(request: DataSubjectRequest): DataSubjectRequestSummary {
+  const summary: Partial<DataSubjectRequest> = { ...request };
+  delete summary.verificationHash;
+  return summary as DataSubjectRequestSummary;
+}
+
+export function exportObjectKey(requestId: string): string {
+  return `privacy/exports/${requestId}.zip`;
+}
+
+/**
+ * Handles GDPR / CCPA data subject requests from intake to completion.
+ * Nothing is exported or erased until the subject confirms the request
+ * with the one-time token issued at intake, and every step is written to
+ * the hash-chained privacy audit log in the same transaction as the change.
+ */
+export class DataSubjectRequestServiceImpl implements DataSubjectRequestService {
+  private logger: Logger;
+  private auditLog: PrivacyAuditLog;
+  private eraser: SubjectDataEraser;
+
+  constructor(private prisma: PrismaClient, private options: DataSubjectRequestOptions) {
+    this.logger = new Logger('DataSubjectRequests');
+    this.auditLog = options.auditLog || new PrivacyAuditLogImpl(prisma);
+    this.eraser = new SubjectDataEraser(prisma, options);
+  }
+
+  async createRequest(input: CreateDataSubjectRequestInput): Promise<IssuedVerification> {
+    const regulation = input.regulation || 'gdpr';
+    const type = toTypeEnum(input.type);
+
+    const open = await this.prisma.dataSubjectRequest.findFirst({
+      where: { subjectId: input.subjectId, type, status: { in: OPEN_STATUSES } }
+    });
+    if (open) {
+      throw new DataSubjectRequestStateError(`An ${input.type} request for this subject is already open (${open.id})`);
+    }
+
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    const now = new Date();
+
+    const request = await this.prisma.$transaction(async tx => {
+      const created = await tx.dataSubjectRequest.create({
+        data: {
+          type,
+          regulation,
+          subjectId: input.subjectId,
+          contactEmail: input.contactEmail,
+          notes: input.notes,
+          requestedBy: input.requestedBy,
+          verificationHash: hashToken(token),
+          verificationExpiresAt: new Date(now.getTime() + this.verificationTtlMs),
+          dueAt: new Date(now.getTime() + DSR_RESPONSE_DAYS[regulation] * DAY_MS)
+        }
+      });
+      await this.auditLog.append({
+        requestId: created.id,
+        action: 'request.created',
+        actor: input.requestedBy,
+        details: { type, regulation, subjectId: input.subjectId, dueAt: created.dueAt }
+      }, tx);
+      return created;
+    });
+
+    this.logger.info('Data subject request created', { requestId: request.id, type, regulation });
+    return { request: toSummary(request), verificationToken: token };
+  }
+
+  async reissueVerification(requestId: string, actor?: string): Promise<IssuedVerification> {
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    const expiresAt = new Date(Date.now() + this.verificationTtlMs);
+
+    const request = await this.prisma.$transaction(async tx => {
+      const { count } = await tx.dataSubjectRequest.updateMany({
+        where: { id: requestId, status: 'PENDING_VERIFICATION' },
+        data: { verificationHash: hashToken(token), verificationExpiresAt: expiresAt }
+      });
+      if (count === 0) {
+        const existing = await tx.dataSubjectRequest.findUnique({ where: { id: requestId } });
+        throw existing
+          ? new DataSubjectRequestStateError(`Request ${requestId} is not awaiting verification (status ${existing.status})`)
+          : new DataSubjectRequestNotFoundError(`Request ${requestId} not found`);
+      }
+      await this.auditLog.append({ requestId, action: 'identity.token_reissued', actor, details: { expiresAt } }, tx);
+      return tx.dataSubjectRequest.findUniqueOrThrow({ where: { id: requestId } });
+    });
+
+    return { request: toSummary(request), verificationToken: token };
+  }
+
+  async verifyIdentity(requestId: string, token: string): Promise<DataSubjectRequestSummary> {
+    const request = await this.prisma.dataSubjectRequest.findUnique({ where: { id: requestId } });
+    // Unknown ids get the same answer as wrong tokens so requests cannot be probed
+    if (!request) {
+      throw new InvalidVerificationTokenError();
+    }
+
+    const reason = this.tokenProblem(request, token);
+    if (reason) {
+      await this.auditLog.append({ requestId, action: 'identity.verification_failed', actor: 'subject', details: { reason } });
+      throw new InvalidVerificationTokenError();
+    }
+
+    const verified = await this.prisma.$transaction(async tx => {
+      const { count } = await tx.dataSubjectRequest.updateMany({
+        where: { id: requestId, status: 'PENDING_VERIFICATION', verificationHash: request.verificationHash },
+        data: { status: 'VERIFIED', verifiedAt: new Date(), verificationHash: null, verificationExpiresAt: null }
+      });
+      if (count === 0) {
+        throw new InvalidVerificationTokenError();
+      }
+      await this.auditLog.append({ requestId, action: 'identity.verified', actor: 'subject' }, tx);
+      return tx.dataSubjectRequest.findUniqueOrThrow({ where: { id: requestId } });
+    });
+
+    this.logger.info('Data subject request verified', { requestId });
+    return toSummary(verified);
+  }
+
+  /**
+   * Run a verified (or previously failed) request. Failures are recorded
+   * on the returned request rather than thrown, and a failed erasure can be
+   * processed again to retry what was left.
+   */
+  async processRequest(requestId: string, actor?: string): Promise<DataSubjectRequestSummary> {
+    const request = await this.findRequest(requestId);
+
+    await this.prisma.$transaction(async tx => {
+      const { count } = await tx.dataSubjectRequest.updateMany({
+        where: { id: requestId, status: { in: ['VERIFIED', 'FAILED'] } },
+        data: { status: 'PROCESSING', error: null }
+      });
+      if (count === 0) {
+        throw new DataSubjectRequestStateError(request.status === 'PROCESSING'
+          ? `Request ${requestId} is already processing`
+          : `Request ${requestId} cannot be processed (status ${request.status})`);
+      }
+      await this.auditLog.append({ requestId, action: 'request.processing', actor }, tx);
+    });
+
+    try {
+      return toSummary(request.type === 'ACCESS'
+        ? await this.completeExport(request, actor)
+        : await this.completeErasure(request, actor));
+
+    } catch (error) {
+      const message = getErrorMessage(error);
+      this.logger.error('Data subject request failed', { requestId, type: request.type, error: message });
+
+      return toSummary(await this.prisma.$transaction(async tx => {
+        await this.auditLog.append({ requestId, action: 'request.failed', actor, details: { error: message } }, tx);
+        return tx.dataSubjectRequest.update({
+          where: { id: requestId },
+          data: { status: 'FAILED', error: message }
+        });
+      }));
+    }
+  }
+
+  async cancelRequest(requestId: string, options: { actor?: string; reason?: string } = {}): Promise<DataSubjectRequestSummary> {
+    const request = await this.findRequest(requestId);
+
+    return toSummary(await this.prisma.$transaction(async tx => {
+      const { count } = await tx.dataSubjectRequest.updateMany({
+        where: { id: requestId, status: { in: ['PENDING_VERIFICATION', 'VERIFIED', 'FAILED'] } },
+        data: { status: 'CANCELLED', verificationHash: null, verificationExpiresAt: null, completedAt: new Date() }
+      });
+      if (count === 0) {
+        throw new DataSubjectRequestStateError(`Request ${requestId} cannot be cancelled (status ${request.status})`);
+      }
+      await this.auditLog.append({ requestId, action: 'request.cancelled', actor: options.actor, details: { reason: options.reason } }, tx);
+      return tx.dataSubjectRequest.findUniqueOrThrow({ where: { id: requestId } });
+    }));
+  }
+
+  async getRequest(requestId: string): Promise<(DataSubjectRequestSummary & { events: PrivacyAuditEvent[] }) | null> {
+    const request = await this.prisma.dataSubjectRequest.findUnique({ where: { id: requestId } });
+    if (!request) return null;
+
+    return { ...toSummary(request), events: await this.auditLog.list({ requestId, limit: 1000 }) };
+  }
+
+  async listRequests(filters: DataSubjectRequestFilters = {}): Promise<DataSubjectRequestSummary[]> {
+    const where: Prisma.DataSubjectRequestWhereInput = {
+      ...(filters.type ? { type: toTypeEnum(filters.type) } : {}),
+      ...(filters.subjectId ? { subjectId: filters.subjectId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.overdue ? { dueAt: { lt: new Date() }, status: { in: OPEN_STATUSES } } : {})
+    };
+
+    const requests = await this.prisma.dataSubjectRequest.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(filters.limit || 50, 500)
+    });
+    return requests.map(toSummary);
+  }
+
+  async getExport(requestId: string, actor?: string): Promise<DataSubjectExport> {
+    const request = await this.findRequest(requestId);
+    if (request.type !== 'ACCESS' || request.status !== 'COMPLETED' || !request.exportKey || !request.exportChecksum) {
+      throw new DataSubjectRequestNotFoundError(`Export for request ${requestId} not found`);
+    }
+
+    const bundle = await this.options.objectStore.get(request.exportKey);
+    await this.auditLog.append({ requestId, action: 'export.downloaded', actor, details: { checksum: request.exportChecksum } });
+
+    return { bundle, checksum: request.exportChecksum, fileName: `data-export-${requestId}.zip` };
+  }
+
+  private async completeExport(request: DataSubjectRequest, actor?: string): Promise<DataSubjectRequest> {
+    const exported = await buildSubjectExport(this.prisma, this.options.objectStore, request.subjectId, {
+      requestId: request.id,
+      tokenizer: this.options.tokenizer
+    });
+    const exportKey = exportObjectKey(request.id);
+    await this.options.objectStore.put(exportKey, exported.bundle, { contentType: 'application/zip' });
+
+    const result = {
+      counts: exported.counts,
+      files: exported.files.length,
+      size: exported.bundle.length,
+      missingImages: exported.missingImages.length
+    };
+
+    return this.prisma.$transaction(async tx => {
+      await this.auditLog.append({ requestId: request.id, action: 'export.completed', actor, details: { ...result, checksum: exported.checksum } }, tx);
+      return tx.dataSubjectRequest.update({
+        where: { id: request.id },
+        data: { status: 'COMPLETED', exportKey, exportChecksum: exported.checksum, result, completedAt: new Date() }
+      });
+    });
+  }
+
+  private async completeErasure(request: DataSubjectRequest, actor?: string): Promise<DataSubjectRequest> {
+    const previous = request.result as Partial<ErasureOutcome> | null;
+    const outcome = await this.eraser.erase(request.subjectId, {
+      sessionIds: previous?.sessionIds || [],
+      failedTargets: previous?.failedTargets || []
+    });
+
+    const problems = [
+      outcome.failedTargets.length > 0 ? `${outcome.failedTargets.length} stored objects could not be deleted` : null,
+      outcome.worldModel === 'unavailable' ? 'the world model was unavailable' : null
+    ].filter(Boolean);
+
+    return this.prisma.$transaction(async tx => {
+      await this.auditLog.append({
+        requestId: request.id,
+        action: outcome.complete ? 'erasure.completed' : 'erasure.incomplete',
+        actor,
+        details: {
+          sessions: outcome.sessionIds.length,
+          deleted: outcome.deleted,
+          targetsDeleted: outcome.targetsDeleted,
+          failedTargets: outcome.failedTargets.length,
+          worldModel: outcome.worldModel
+        }
+      }, tx);
+      return tx.dataSubjectRequest.update({
+        where: { id: request.id },
+        data: {
+          status: outcome.complete ? 'COMPLETED' : 'FAILED',
+          result: JSON.parse(JSON.stringify(outcome)),
+          error: outcome.complete ? null : `Erasure incomplete: ${problems.join('; ')}`,
+          completedAt: outcome.complete ? new Date() : null
+        }
+      });
+    });
+  }
+
+  private tokenProblem(request: DataSubjectRequest, token: string): string | undefined {
+    if (request.status !== 'PENDING_VERIFICATION' || !request.verificationHash) return `status ${request.status}`;
+    if (request.verificationExpiresAt && request.verificationExpiresAt < new Date()) return 'token expired';
+
+    const expected = Buffer.from(request.verificationHash, 'hex');
+    const actual = Buffer.from(hashToken(token || ''), 'hex');
+    return crypto.timingSafeEqual(expected, actual) ? undefined : 'token mismatch';
+  }
+
+  private async findRequest(requestId: string): Promise<DataSubjectRequest> {
+    const request = await this.prisma.dataSubjectRequest.findUnique({ where: { id: requestId } });
+    if (!request) {
+      throw new DataSubjectRequestNotFoundError(`Request ${requestId} not found`);
+    }
+    return request;
+  }
+
+  private get verificationTtlMs(): number {
+    return this.options.verificationTtlMs ?? DEFAULT_VERIFICATION_TTL_MS;
+  }
+}
+
+/**
+ * Build the service with the shared object store, the local archive
+ * directory and S3 archive deletion
+ */
+export function createDataSubjectRequestService(
+  prisma: PrismaClient,
+  dependencies: Pick<DataSubjectRequestOptions, 'worldModel'> = {}
+): DataSubjectRequestService {
+  const s3Storage = new S3StorageService(prisma);
+
+  return new DataSubjectRequestServiceImpl(prisma, {
+    objectStore: getObjectStore(),
+    archiveDir: process.env.ARCHIVE_DIR || '/tmp/codesight/archives',
+    deleteRemoteArchive: s3Key => s3Storage.deleteArchiveObject(s3Key),
+    worldModel: dependencies.worldModel,
+    tokenizer: new PIITokenizer(getTokenizationKey())
+  });
+}
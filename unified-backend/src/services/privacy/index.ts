@@ -0,0 +1,16 @@
+/**
+ * Privacy - Main Export
+ *
+ * GDPR / CCPA access and erasure requests: intake with a one-time identity
+ * verification token, export bundles, cascading erasure across Postgres,
+ * object storage and the world model, and a hash-chained audit trail.
+ * PII redaction: typed detectors and per-group field policies that replace
+ * personal data in incoming stream data with reversible, session-scoped tokens.
+ */
+
+export * from './data-subject-requests';
+export * from './pii-detectors';
+export * from './pii-redaction';
+export * from './privacy-audit-log';
+export * from './subject-erasure';
+export * from './subject-export';
@@ -0,0 +1,173 @@
+export type PIIType = 'email' | 'phone' | 'card' | 'address' | 'name' | 'ssn';
+
+export interface PIIMatch {
+  type: PIIType;
+  /** Offsets of the match in the scanned text */
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface DetectionContext {
+  /** Dotted path of the value in the payload, without array indices */
+  path: string;
+  /** Key the value is stored under */
+  key?: string;
+  /** Form label of the field the value was typed into: <label>, aria-label, placeholder or autocomplete */
+  label?: string;
+}
+
+/**
+ * Finds one kind of personal data in a string. Detectors are tried in order
+ * and a span claimed by an earlier detector is not offered to later ones.
+ */
+export interface PIIDetector {
+  type: PIIType;
+  detect(text: string, context: DetectionContext): PIIMatch[];
+}
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g;
+// Needs a separator, parentheses or a country code, so bare ids and timestamps are left alone
+const PHONE_PATTERN = /(?<![\w+]|\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}(?![\w]|[\s.-]\d)/g;
+const CARD_PATTERN = /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g;
+const SSN_PATTERN = /(?<![\d-])(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}(?![\d-])/g;
+const STREET_SUFFIXES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Ter|Circle|Cir|Parkway|Pkwy|Highway|Hwy|Square|Sq';
+const STREET_PATTERN = new RegExp(
+  `\\b\\d{1,6}[A-Za-z]?\\s+(?:[A-Z][A-Za-z'.-]*\\s+){1,4}(?:${STREET_SUFFIXES})\\b\\.?` +
+  `(?:,?\\s+(?:Apt|Suite|Ste|Unit|#)\\.?\\s*[\\w-]+)?` +
+  `(?:,\\s*[A-Z][A-Za-z .'-]+,\\s*[A-Z]{2}\\s+\\d{5}(?:-\\d{4})?)?`,
+  'g'
+);
+const CITY_STATE_ZIP_PATTERN = /\b[A-Z][A-Za-z .'-]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g;
+const UK_POSTCODE_PATTERN = /\b[A-Z]{1,2}\d[A-Z\d]?\s+\d[A-Z]{2}\b/g;
+// "Name: Jane Doe" but not "Product name: Widget Pro"
+const INLINE_NAME_PATTERN = /(?<![A-Za-z] )\b(?:[Ff]ull [Nn]ame|[Ff]irst [Nn]ame|[Ll]ast [Nn]ame|[Nn]ame)\s*[:=]\s*([A-Z][a-z'-]+(?:\s+[A-Z][a-z'-]+){0,3})/g;
+
+// Matched against normalized labels and keys ("firstName" -> "first name")
+const NAME_LABEL = /^(?:your )?(?:full )?name$|^(?:fname|lname|surname|cc name)$|\b(?:first|last|given|family|full|middle|sur|maiden|contact|billing|shipping|recipient|cardholder|card holder|account holder) ?name\b|\bname on (?:the )?card\b/;
+// A bare "name" key is usually a product or element name, so keys must be qualified
+const NAME_KEY = /\b(?:first|last|given|family|full|middle|maiden|cardholder|card holder|account holder|recipient|billing|shipping|contact) ?name\b|^(?:fname|lname|surname)$/;
+const ADDRESS_LABEL = /(?<!\b(?:ip|mac|email|e mail|web|wallet) )\baddress\b|\bstreet\b|\bpost ?code\b|\bpostal code\b|\bzip(?: code)?\b/;
+
+/** "billingFirstName" / "billing-first_name:" -> "billing first name" */
+export function normalizeLabel(label: string): string {
+  return label
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z\d]+/g, ' ')
+    .trim();
+}
+
+export function luhnCheck(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function regexMatches(pattern: RegExp, text: string, type: PIIType, accept: (value: string) => boolean = () => true): PIIMatch[] {
+  const matches: PIIMatch[] = [];
+  for (const match of text.matchAll(pattern)) {
+    if (accept(match[0])) {
+      matches.push({ type, start: match.index!, end: match.index! + match[0].length, value: match[0] });
+    }
+  }
+  return matches;
+}
+
+/** The whole value, trimmed, when the field's label or key says what it holds */
+function wholeValue(text: string, type: PIIType): PIIMatch[] {
+  const value = text.trim();
+  if (!/[A-Za-z\d]/.test(value)) return [];
+  const start = text.indexOf(value);
+  return [{ type, start, end: start + value.length, value }];
+}
+
+function describes(pattern: RegExp, context: DetectionContext, keyPattern: RegExp = pattern): boolean {
+  return (!!context.label && pattern.test(normalizeLabel(context.label)))
+    || (!!context.key && keyPattern.test(normalizeLabel(context.key)));
+}
+
+export const emailDetector: PIIDetector = {
+  type: 'email',
+  detect: text => regexMatches(EMAIL_PATTERN, text, 'email')
+};
+
+export const phoneDetector: PIIDetector = {
+  type: 'phone',
+  detect: text => regexMatches(PHONE_PATTERN, text, 'phone', value => {
+    const digits = value.replace(/\D/g, '').length;
+    return digits >= 10 && digits <= 15;
+  })
+};
+
+export const cardDetector: PIIDetector = {
+  type: 'card',
+  detect: text => regexMatches(CARD_PATTERN, text, 'card', value => {
+    const digits = value.replace(/\D/g, '');
+    return digits.length >= 13 && digits.length <= 19 && luhnCheck(digits);
+  })
+};
+
+export const ssnDetector: PIIDetector = {
+  type: 'ssn',
+  detect: text => regexMatches(SSN_PATTERN, text, 'ssn')
+};
+
+export const addressDetector: PIIDetector = {
+  type: 'address',
+  detect: (text, context) => {
+    if (describes(ADDRESS_LABEL, context)) return wholeValue(text, 'address');
+    return [
+      ...regexMatches(STREET_PATTERN, text, 'address'),
+      ...regexMatches(CITY_STATE_ZIP_PATTERN, text, 'address'),
+      ...regexMatches(UK_POSTCODE_PATTERN, text, 'address')
+    ];
+  }
+};
+
+export const nameDetector: PIIDetector = {
+  type: 'name',
+  detect: (text, context) => {
+    if (describes(NAME_LABEL, context, NAME_KEY)) return wholeValue(text, 'name');
+
+    const matches: PIIMatch[] = [];
+    for (const match of text.matchAll(INLINE_NAME_PATTERN)) {
+      const end = match.index! + match[0].length;
+      matches.push({ type: 'name', start: end - match[1].length, end, value: match[1] });
+    }
+    return matches;
+  }
+};
+
+/** Cards and SSNs go first so their digit runs are not taken for phone numbers */
+export const DEFAULT_PII_DETECTORS: PIIDetector[] = [
+  cardDetector,
+  ssnDetector,
+  emailDetector,
+  phoneDetector,
+  addressDetector,
+  nameDetector
+];
+
+/**
+ * Runs detectors over text and drops matches that overlap a span an earlier
+ * detector already claimed. Returned matches are sorted by position.
+ */
+export function detectPII(text: string, context: DetectionContext, detectors: PIIDetector[] = DEFAULT_PII_DETECTORS): PIIMatch[] {
+  const claimed: PIIMatch[] = [];
+  for (const detector of detectors) {
+    for (const match of detector.detect(text, context)) {
+      if (!claimed.some(other => match.start < other.end && other.start < match.end)) {
+        claimed.push(match);
+      }
+    }
+  }
+  return claimed.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,395 @@
+import { PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { Logger } from '../../utils/logger';
+import { DEFAULT_PII_DETECTORS, DetectionContext, PIIDetector, PIIType, detectPII } from './pii-detectors';
+
+/** What a token stands for: a detected kind of PII, or a whole field the policy denies */
+export type TokenKind = PIIType | 'field';
+
+/** e.g. [EMAIL:3f9a1c2b7d4e8a60] */
+export const TOKEN_PATTERN = /\[(EMAIL|PHONE|CARD|ADDRESS|NAME|SSN|FIELD):([0-9a-f]{16})\]/g;
+
+const TOKEN_KEY_BYTES = 32;
+const RECENT_SESSION_LIMIT = 500;
+
+/**
+ * Field path patterns are dot-separated keys without array indices;
+ * "*" matches one key and "**" any number of keys.
+ */
+export interface FieldPolicy {
+  /** Fields that are never scanned: identifiers, geometry, selectors, encoded images */
+  allow?: string[];
+  /** Fields whose whole value is tokenized without running detectors; wins over allow */
+  deny?: string[];
+}
+
+export interface RedactionPolicy {
+  /** Matched against the full path of every field */
+  defaults: FieldPolicy;
+  /**
+   * Per interaction group (metadata, elementDetails, contextData, ...), matched
+   * against the path inside the group. Top-level fields that are not objects
+   * (elementValue, url, ...) belong to the "root" group.
+   */
+  groups: Record<string, FieldPolicy>;
+}
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  defaults: {
+    allow: [
+      '**.id', '**.sessionId', '**.interactionId', '**.screenshotId', '**.burstId',
+      '**.timestamp', '**.sessionTime', '**.sequence',
+      '**.boundingBox', '**.coordinates', '**.viewport', '**.computedStyles',
+      '**.xpath', '**.cssPath', '**.dataUrl'
+    ],
+    deny: ['**.password', '**.cvv', '**.cvc', '**.cookies', '**.localStorage', '**.sessionStorage', '**.authorization']
+  },
+  groups: {
+    root: { allow: ['type', 'eventType', 'trigger', 'elementTag', 'primarySelector', 'selectorAlternatives'] },
+    selectors: { allow: ['reliability', 'selectorPerformance'] },
+    visual: { allow: ['**'] },
+    metadata: { allow: ['userAgent', 'extensionVersion', 'platform', 'language'] },
+    elementDetails: { allow: ['tag', 'tagName', 'classList', 'isVisible', 'isInteractable'] },
+    overlays: { allow: ['**.type', '**.zIndex', '**.selector'] },
+    action: { allow: ['type', 'button', 'modifiers'] },
+    // Snapshots of whole forms; their keys are often generated, so labels cannot be trusted
+    stateBefore: { deny: ['formData'] },
+    stateAfter: { deny: ['formData'] },
+    state: { deny: ['*.formData'] }
+  }
+};
+
+export interface RedactionScope {
+  /** Tokens are consistent within a session and unlinkable across sessions */
+  sessionId: string;
+}
+
+export interface RedactionReport {
+  /** Values with at least one span replaced */
+  redactedFields: number;
+  tokens: number;
+  byType: Partial<Record<TokenKind, number>>;
+  /** Paths of redacted values, without array indices; never the values */
+  paths: string[];
+}
+
+export interface TokenVaultEntry {
+  token: string;
+  piiType: TokenKind;
+  ciphertext: string;
+}
+
+export interface PIITokenVault {
+  /** Entries for tokens the session already has are left as they are */
+  store(sessionId: string, entries: TokenVaultEntry[]): Promise<void>;
+  find(sessionId: string, tokens: string[]): Promise<TokenVaultEntry[]>;
+}
+
+export interface DetokenizeResult {
+  text: string;
+  resolved: number;
+  /** Tokens with no vault entry, e.g. after the session was erased */
+  unresolved: string[];
+}
+
+export interface PIIRedactionEngine {
+  /** Replaces personal data in string values of data, in place, and stores the originals in the vault */
+  redact(data: unknown, scope: RedactionScope): Promise<RedactionReport>;
+  detokenize(sessionId: string, text: string): Promise<DetokenizeResult>;
+  registerDetector(detector: PIIDetector): void;
+}
+
+/**
+ * Keyed tokens: an HMAC of the value scoped to the session, so the same value
+ * always gets the same token within a session, plus AES-256-GCM sealing of
+ * the original for the vault. Both keys are derived from one secret.
+ */
+export class PIITokenizer {
+  private readonly hmacKey: Buffer;
+  private readonly sealKey: Buffer;
+
+  constructor(secret: Buffer) {
+    if (secret.length < TOKEN_KEY_BYTES) {
+      throw new Error(`PII tokenization key must be at least ${TOKEN_KEY_BYTES} bytes`);
+    }
+    this.hmacKey = Buffer.from(crypto.hkdfSync('sha256', secret, Buffer.alloc(0), 'pii-token-hmac', 32));
+    this.sealKey = Buffer.from(crypto.hkdfSync('sha256', secret, Buffer.alloc(0), 'pii-token-seal', 32));
+  }
+
+  token(sessionId: string, kind: TokenKind, value: string): string {
+    const digest = crypto.createHmac('sha256', this.hmacKey)
+      .update(`${sessionId}\0${kind}\0${normalizeForToken(kind, value)}`)
+      .digest('hex');
+    return `[${kind.toUpperCase()}:${digest.slice(0, 16)}]`;
+  }
+
+  /** The token is bound in as associated data, so a ciphertext cannot be moved to another token */
+  seal(sessionId: string, token: string, value: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.sealKey, iv);
+    cipher.setAAD(Buffer.from(`${sessionId}\0${token}`));
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64');
+  }
+
+  open(sessionId: string, token: string, ciphertext: string): string {
+    const raw = Buffer.from(ciphertext, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.sealKey, raw.subarray(0, 12));
+    decipher.setAAD(Buffer.from(`${sessionId}\0${token}`));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]).toString('utf8');
+  }
+}
+
+function normalizeForToken(kind: TokenKind, value: string): string {
+  switch (kind) {
+    case 'phone':
+    case 'card':
+    case 'ssn':
+      return value.replace(/\D/g, '');
+    case 'field':
+      return value;
+    default:
+      return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+}
+
+export class PIITokenVaultImpl implements PIITokenVault {
+  constructor(private prisma: PrismaClient) {}
+
+  async store(sessionId: string, entries: TokenVaultEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.prisma.piiToken.createMany({
+      data: entries.map(entry => ({ sessionId, ...entry })),
+      skipDuplicates: true
+    });
+  }
+
+  async find(sessionId: string, tokens: string[]): Promise<TokenVaultEntry[]> {
+    if (tokens.length === 0) return [];
+    return this.prisma.piiToken.findMany({
+      where: { sessionId, token: { in: tokens } },
+      select: { token: true, piiType: true, ciphertext: true }
+    }) as Promise<TokenVaultEntry[]>;
+  }
+}
+
+// Keys under which a form field's typed value is stored, and where its label can be found
+const VALUE_KEYS = new Set(['value', 'elementValue', 'inputValue', 'defaultValue', 'text', 'elementText']);
+const LABEL_KEYS = ['autocomplete', 'label', 'labelText', 'ariaLabel', 'aria-label', 'placeholder', 'fieldName', 'name'];
+const SECRET_AUTOCOMPLETE = /password|one-time-code|cc-csc/;
+
+interface FieldInfo {
+  label?: string;
+  /** Password, CVC and one-time-code inputs: the typed value is tokenized whole */
+  secret: boolean;
+}
+
+function describeField(container: Record<string, unknown>): FieldInfo {
+  const sources = [container, container.attributes, container.elementAttributes, container.formContext]
+    .filter((source): source is Record<string, unknown> => !!source && typeof source === 'object');
+
+  let label: string | undefined;
+  let secret = false;
+  for (const source of sources) {
+    for (const key of LABEL_KEYS) {
+      const value = source[key];
+      // A bare "name" on the element itself is usually the element's name, not a label
+      if (typeof value !== 'string' || !value.trim() || (key === 'name' && source === container)) continue;
+      label = label ?? value;
+      if (key === 'autocomplete' && SECRET_AUTOCOMPLETE.test(value)) secret = true;
+    }
+    const type = source.type ?? source.fieldType;
+    if (typeof type === 'string' && type.toLowerCase() === 'password') secret = true;
+  }
+  return { label, secret };
+}
+
+function matchesPattern(pattern: string[], path: string[]): boolean {
+  if (pattern.length === 0) return path.length === 0;
+  const [head, ...rest] = pattern;
+  if (head === '**') {
+    return path.some((_, index) => matchesPattern(rest, path.slice(index))) || matchesPattern(rest, []);
+  }
+  return path.length > 0 && (head === '*' || head === path[0]) && matchesPattern(rest, path.slice(1));
+}
+
+function matchesAny(patterns: string[] | undefined, path: string[]): boolean {
+  return !!patterns && patterns.some(pattern => matchesPattern(pattern.split('.'), path));
+}
+
+interface WalkState {
+  scope: RedactionScope;
+  report: RedactionReport;
+  entries: Map<string, TokenVaultEntry>;
+}
+
+export class PIIRedactionEngineImpl implements PIIRedactionEngine {
+  private detectors: PIIDetector[];
+  private policy: RedactionPolicy;
+  // Tokens already in the vault, per recent session, to skip redundant writes
+  private storedTokens = new Map<string, Set<string>>();
+
+  constructor(
+    private tokenizer: PIITokenizer,
+    private vault: PIITokenVault,
+    options: { detectors?: PIIDetector[]; policy?: RedactionPolicy } = {}
+  ) {
+    this.detectors = [...(options.detectors ?? DEFAULT_PII_DETECTORS)];
+    this.policy = options.policy ?? DEFAULT_REDACTION_POLICY;
+  }
+
+  /** Custom detectors run after the built-in ones */
+  registerDetector(detector: PIIDetector): void {
+    this.detectors.push(detector);
+  }
+
+  async redact(data: unknown, scope: RedactionScope): Promise<RedactionReport> {
+    const state: WalkState = {
+      scope,
+      report: { redactedFields: 0, tokens: 0, byType: {}, paths: [] },
+      entries: new Map()
+    };
+
+    if (data && typeof data === 'object') {
+      this.redactContainer(data as Record<string, unknown>, [], undefined, false, state);
+    }
+
+    // Originals are stored before the caller persists the redacted data
+    const known = this.storedTokens.get(scope.sessionId) ?? new Set<string>();
+    const fresh = Array.from(state.entries.values()).filter(entry => !known.has(entry.token));
+    await this.vault.store(scope.sessionId, fresh);
+    this.rememberTokens(scope.sessionId, known, fresh);
+
+    return state.report;
+  }
+
+  async detokenize(sessionId: string, text: string): Promise<DetokenizeResult> {
+    const tokens = Array.from(new Set(Array.from(text.matchAll(TOKEN_PATTERN), match => match[0])));
+    const entries = await this.vault.find(sessionId, tokens);
+    const originals = new Map(entries.map(entry => [entry.token, this.tokenizer.open(sessionId, entry.token, entry.ciphertext)]));
+
+    return {
+      text: text.replace(TOKEN_PATTERN, token => originals.get(token) ?? token),
+      resolved: originals.size,
+      unresolved: tokens.filter(token => !originals.has(token))
+    };
+  }
+
+  private redactContainer(container: Record<string, unknown> | unknown[], path: string[], group: string | undefined, denied: boolean, state: WalkState): void {
+    const field = Array.isArray(container) ? { secret: false } : describeField(container);
+    const entries: Array<[string, unknown]> = Array.isArray(container)
+      ? container.map((value, index) => [String(index), value])
+      : Object.entries(container);
+
+    for (const [key, value] of entries) {
+      const isObject = !!value && typeof value === 'object';
+      const fieldPath = Array.isArray(container) ? path : [...path, key];
+      const fieldGroup = group ?? (isObject ? key : 'root');
+      const decision = denied ? 'deny' : this.decide(fieldGroup, fieldPath);
+      if (decision === 'allow') continue;
+
+      if (isObject) {
+        this.redactContainer(value as Record<string, unknown>, fieldPath, fieldGroup, decision === 'deny', state);
+        continue;
+      }
+      if (typeof value !== 'string' || !value) continue;
+
+      const isTypedValue = VALUE_KEYS.has(key);
+      const redacted = decision === 'deny' || (isTypedValue && field.secret)
+        ? this.replaceWhole(value, state)
+        : this.replaceMatches(value, {
+          path: fieldPath.join('.'),
+          key: Array.isArray(container) ? path[path.length - 1] : key,
+          label: isTypedValue ? field.label : undefined
+        }, state);
+
+      if (redacted !== value) {
+        (container as Record<string, unknown>)[key] = redacted;
+        state.report.redactedFields++;
+        const reportedPath = fieldPath.join('.');
+        if (!state.report.paths.includes(reportedPath)) state.report.paths.push(reportedPath);
+      }
+    }
+  }
+
+  private decide(group: string, path: string[]): 'allow' | 'deny' | 'scan' {
+    const groupPolicy = this.policy.groups[group];
+    const groupPath = group === 'root' ? path : path.slice(1);
+
+    if (matchesAny(this.policy.defaults.deny, path) || matchesAny(groupPolicy?.deny, groupPath)) return 'deny';
+    if (matchesAny(this.policy.defaults.allow, path) || matchesAny(groupPolicy?.allow, groupPath)) return 'allow';
+    return 'scan';
+  }
+
+  /** Runs detectors on the text between existing tokens, so redacting twice changes nothing */
+  private replaceMatches(text: string, context: DetectionContext, state: WalkState): string {
+    let result = '';
+    let offset = 0;
+    for (const existing of [...text.matchAll(TOKEN_PATTERN), null]) {
+      const end = existing ? existing.index! : text.length;
+      const piece = text.slice(offset, end);
+
+      let cursor = 0;
+      for (const match of detectPII(piece, context, this.detectors)) {
+        result += piece.slice(cursor, match.start) + this.tokenFor(match.type, match.value, state);
+        cursor = match.end;
+      }
+      result += piece.slice(cursor) + (existing ? existing[0] : '');
+      offset = end + (existing ? existing[0].length : 0);
+    }
+    return result;
+  }
+
+  private replaceWhole(value: string, state: WalkState): string {
+    const existing = value.match(TOKEN_PATTERN);
+    if (existing && existing[0] === value) return value;
+    return this.tokenFor('field', value, state);
+  }
+
+  private tokenFor(kind: TokenKind, value: string, state: WalkState): string {
+    const { sessionId } = state.scope;
+    const token = this.tokenizer.token(sessionId, kind, value);
+    if (!state.entries.has(token)) {
+      state.entries.set(token, { token, piiType: kind, ciphertext: this.tokenizer.seal(sessionId, token, value) });
+    }
+    state.report.tokens++;
+    state.report.byType[kind] = (state.report.byType[kind] ?? 0) + 1;
+    return token;
+  }
+
+  private rememberTokens(sessionId: string, known: Set<string>, fresh: TokenVaultEntry[]): void {
+    fresh.forEach(entry => known.add(entry.token));
+    this.storedTokens.delete(sessionId);
+    this.storedTokens.set(sessionId, known);
+    if (this.storedTokens.size > RECENT_SESSION_LIMIT) {
+      this.storedTokens.delete(this.storedTokens.keys().next().value as string);
+    }
+  }
+}
+
+let processTokenKey: Buffer | undefined;
+
+/**
+ * PII_TOKENIZATION_KEY (64 hex chars), required in production. Elsewhere a
+ * random key is used for the life of the process: tokens stop matching
+ * across restarts and vault entries from earlier runs can no longer be opened.
+ */
+export function getTokenizationKey(): Buffer {
+  if (!processTokenKey) {
+    const configured = process.env.PII_TOKENIZATION_KEY;
+    if (configured) {
+      processTokenKey = Buffer.from(configured, 'hex');
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('PII_TOKENIZATION_KEY must be set in production');
+    } else {
+      new Logger('PIIRedaction').warn('PII_TOKENIZATION_KEY not set, using a temporary key; tokens will not be reversible after a restart');
+      processTokenKey = crypto.randomBytes(TOKEN_KEY_BYTES);
+    }
+  }
+  return processTokenKey;
+}
+
+export function createPIIRedactionEngine(prisma: PrismaClient, options: { detectors?: PIIDetector[]; policy?: RedactionPolicy } = {}): PIIRedactionEngine {
+  return new PIIRedactionEngineImpl(new PIITokenizer(getTokenizationKey()), new PIITokenVaultImpl(prisma), options);
+}
@@ -0,0 +1,166 @@
+import { Prisma, PrismaClient, PrivacyAuditEvent } from '@prisma/client';
+import * as crypto from 'crypto';
+
+/** previousHash of the first event in the chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** pg_advisory_xact_lock key that serializes appends, so two events never claim the same sequence */
+const AUDIT_CHAIN_LOCK_KEY = 0x5052_4956;
+const VERIFY_PAGE_SIZE = 500;
+
+export interface PrivacyAuditEntry {
+  requestId?: string | null;
+  action: string;
+  actor?: string | null;
+  /** Counts, ids and reasons; never the personal data a request is about */
+  details?: Record<string, unknown>;
+}
+
+export interface PrivacyAuditFilters {
+  requestId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  /** Only events after this sequence, for paging through the chain */
+  afterSequence?: number;
+  limit?: number;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  /** Events checked */
+  checked: number;
+  lastSequence: number;
+  lastHash: string;
+  /** First event that does not match the chain */
+  brokenAt?: { sequence: number; reason: string };
+}
+
+export interface PrivacyAuditLog {
+  /** Append an event; pass a transaction client to commit it with the change it records */
+  append(entry: PrivacyAuditEntry, client?: Prisma.TransactionClient): Promise<PrivacyAuditEvent>;
+  list(filters?: PrivacyAuditFilters): Promise<PrivacyAuditEvent[]>;
+  verifyChain(): Promise<AuditChainVerification>;
+}
+
+/** JSON with object keys sorted at every level, so hashes survive JSONB key reordering */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function hashAuditEvent(
+  event: Pick<PrivacyAuditEvent, 'sequence' | 'requestId' | 'action' | 'actor' | 'previousHash' | 'createdAt'> & { details: unknown }
+): string {
+  const content = canonicalJson({
+    sequence: event.sequence,
+    requestId: event.requestId,
+    action: event.action,
+    actor: event.actor,
+    details: event.details,
+    createdAt: event.createdAt.toISOString()
+  });
+  return crypto.createHash('sha256').update(`${event.previousHash}\n${content}`).digest('hex');
+}
+
+function chainBreak(event: PrivacyAuditEvent, lastSequence: number, previousHash: string): string | undefined {
+  if (event.sequence !== lastSequence + 1) return `expected sequence ${lastSequence + 1}`;
+  if (event.previousHash !== previousHash) return 'previousHash does not match the preceding event';
+  if (event.hash !== hashAuditEvent(event)) return 'hash does not match the event content';
+  return undefined;
+}
+
+/**
+ * Hash-chained audit trail in privacy_audit_events. Each event's hash
+ * covers its content and the previous event's hash, so editing, removing
+ * or reordering any event breaks every hash after it; verifyChain()
+ * recomputes the chain from the start. Dropping events off the end is only
+ * caught by comparing lastHash with a value recorded earlier.
+ */
+export class PrivacyAuditLogImpl implements PrivacyAuditLog {
+  constructor(private prisma: PrismaClient) {}
+
+  async append(entry: PrivacyAuditEntry, client?: Prisma.TransactionClient): Promise<PrivacyAuditEvent> {
+    if (client) {
+      return this.appendWith(client, entry);
+    }
+    return this.prisma.$transaction(tx => this.appendWith(tx, entry));
+  }
+
+  async list(filters: PrivacyAuditFilters = {}): Promise<PrivacyAuditEvent[]> {
+    const where: Prisma.PrivacyAuditEventWhereInput = {
+      ...(filters.requestId ? { requestId: filters.requestId } : {}),
+      ...(filters.action ? { action: filters.action } : {}),
+      ...(filters.afterSequence !== undefined ? { sequence: { gt: filters.afterSequence } } : {}),
+      ...(filters.from || filters.to ? { createdAt: { gte: filters.from, lte: filters.to } } : {})
+    };
+
+    return this.prisma.privacyAuditEvent.findMany({
+      where,
+      orderBy: { sequence: 'asc' },
+      take: Math.min(filters.limit || 100, 1000)
+    });
+  }
+
+  async verifyChain(): Promise<AuditChainVerification> {
+    let previousHash = GENESIS_HASH;
+    let lastSequence = 0;
+    let checked = 0;
+
+    for (;;) {
+      const events = await this.prisma.privacyAuditEvent.findMany({
+        where: { sequence: { gt: lastSequence } },
+        orderBy: { sequence: 'asc' },
+        take: VERIFY_PAGE_SIZE
+      });
+
+      for (const event of events) {
+        const reason = chainBreak(event, lastSequence, previousHash);
+        if (reason) {
+          return { valid: false, checked, lastSequence, lastHash: previousHash, brokenAt: { sequence: event.sequence, reason } };
+        }
+
+        checked++;
+        lastSequence = event.sequence;
+        previousHash = event.hash;
+      }
+
+      if (events.length < VERIFY_PAGE_SIZE) {
+        return { valid: true, checked, lastSequence, lastHash: previousHash };
+      }
+    }
+  }
+
+  private async appendWith(tx: Prisma.TransactionClient, entry: PrivacyAuditEntry): Promise<PrivacyAuditEvent> {
+    await tx.$executeRaw(Prisma.sql`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_KEY})`);
+
+    const last = await tx.privacyAuditEvent.findFirst({
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true }
+    });
+
+    const event = {
+      sequence: (last?.sequence ?? 0) + 1,
+      requestId: entry.requestId ?? null,
+      action: entry.action,
+      actor: entry.actor ?? null,
+      // Round-trip through JSON so the hashed content is exactly what JSONB stores
+      details: JSON.parse(JSON.stringify(entry.details || {})) as Prisma.InputJsonObject,
+      previousHash: last?.hash ?? GENESIS_HASH,
+      createdAt: new Date()
+    };
+
+    return tx.privacyAuditEvent.create({
+      data: { ...event, hash: hashAuditEvent(event) }
+    });
+  }
+}
@@ -0,0 +1,177 @@
+import { PrismaClient } from '@prisma/client';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+import { archiveFileName } from '../archives/archive-manifest';
+import { ObjectStore } from '../storage';
+import type { WorldModelErasureResult, WorldModelService } from '../world-model/database/service';
+import { findSubjectSessionIds } from './subject-export';
+
+/** Something outside Postgres that has to be deleted: an object store key, an S3 archive or a local archive file */
+export interface ErasureTarget {
+  kind: 'object' | 'archive' | 'file';
+  key: string;
+}
+
+export interface ErasureOutcome {
+  sessionIds: string[];
+  /** Rows deleted per table; rows removed by ON DELETE CASCADE are counted under their own table */
+  deleted: Record<string, number>;
+  targetsDeleted: number;
+  /** Targets that could not be deleted; pass them back to erase() to retry */
+  failedTargets: ErasureTarget[];
+  /** 'skipped' when no world model is configured, 'unavailable' when it is configured but not connected */
+  worldModel: WorldModelErasureResult | 'skipped' | 'unavailable';
+  complete: boolean;
+}
+
+export interface SubjectEraserOptions {
+  objectStore: ObjectStore;
+  archiveDir: string;
+  deleteRemoteArchive: (s3Key: string) => Promise<void>;
+  /** Omit when no world model is configured; return null while it is not connected */
+  worldModel?: () => Pick<WorldModelService, 'eraseSessionData'> | null | undefined;
+}
+
+const ERASURE_TRANSACTION_TIMEOUT_MS = 120_000;
+
+/**
+ * Deletes everything held about a data subject: their sessions and every
+ * row keyed on them in Postgres (in one transaction), then screenshot and
+ * thumbnail objects, session archives in S3 and on disk, earlier export
+ * bundles, and their discovery contexts in the world model.
+ */
+export class SubjectDataEraser {
+  private logger: Logger;
+
+  constructor(private prisma: PrismaClient, private options: SubjectEraserOptions) {
+    this.logger = new Logger('SubjectDataEraser');
+  }
+
+  /**
+   * Erase a subject. A retry after a partial failure passes the previous
+   * outcome, whose sessions and failed targets are no longer findable
+   * through the deleted rows.
+   */
+  async erase(subjectId: string, previous?: Pick<ErasureOutcome, 'sessionIds' | 'failedTargets'>): Promise<ErasureOutcome> {
+    const sessionIds = Array.from(new Set([...(previous?.sessionIds || []), ...await findSubjectSessionIds(this.prisma, subjectId)]));
+    const targets = [...(previous?.failedTargets || []), ...await this.collectTargets(subjectId, sessionIds)];
+
+    const deleted = await this.deleteRows(subjectId, sessionIds);
+
+    const failedTargets: ErasureTarget[] = [];
+    const seen = new Set<string>();
+    for (const target of targets) {
+      const id = `${target.kind}:${target.key}`;
+      if (seen.has(id)) continue;
+      seen.add(id);
+
+      try {
+        await this.deleteTarget(target);
+      } catch (error) {
+        failedTargets.push(target);
+        this.logger.warn('Failed to delete erasure target', { ...target, error: getErrorMessage(error) });
+      }
+    }
+
+    const worldModel = await this.eraseWorldModel(sessionIds);
+
+    return {
+      sessionIds,
+      deleted,
+      targetsDeleted: seen.size - failedTargets.length,
+      failedTargets,
+      worldModel,
+      complete: failedTargets.length === 0 && worldModel !== 'unavailable'
+    };
+  }
+
+  private async collectTargets(subjectId: string, sessionIds: string[]): Promise<ErasureTarget[]> {
+    const [screenshots, archives, exports] = await Promise.all([
+      this.prisma.screenshot.findMany({
+        where: { sessionId: { in: sessionIds } },
+        select: { s3Key: true, thumbnailKey: true }
+      }),
+      this.prisma.sessionArchive.findMany({
+        where: { sessionId: { in: sessionIds } },
+        select: { sessionId: true, s3Key: true, format: true }
+      }),
+      this.prisma.dataSubjectRequest.findMany({
+        where: { subjectId, exportKey: { not: null } },
+        select: { exportKey: true }
+      })
+    ]);
+
+    const objectKeys = [
+      ...screenshots.flatMap(screenshot => [screenshot.s3Key, screenshot.thumbnailKey]),
+      ...exports.map(request => request.exportKey)
+    ].filter((key): key is string => !!key);
+
+    return [
+      ...objectKeys.map(key => ({ kind: 'object' as const, key })),
+      ...archives.filter(archive => archive.s3Key).map(archive => ({ kind: 'archive' as const, key: archive.s3Key })),
+      ...archives.map(archive => ({ kind: 'file' as const, key: path.join(this.options.archiveDir, archiveFileName(archive.sessionId, archive.format)) }))
+    ];
+  }
+
+  private async deleteRows(subjectId: string, sessionIds: string[]): Promise<Record<string, number>> {
+    const where = { sessionId: { in: sessionIds } };
+
+    return this.prisma.$transaction(async tx => {
+      const screenshotIds = (await tx.screenshot.findMany({ where, select: { id: true } })).map(screenshot => screenshot.id);
+
+      // Tables without a foreign key to the session go first; the session delete cascades the rest
+      const counts: Record<string, number> = {
+        visionAnalysisCache: (await tx.visionAnalysisCache.deleteMany({ where: { screenshotId: { in: screenshotIds } } })).count,
+        psychologyProfiles: (await tx.psychologyProfile.deleteMany({ where })).count,
+        contextEnhancements: (await tx.contextEnhancement.deleteMany({ where })).count,
+        trainingData: (await tx.trainingData.deleteMany({ where })).count,
+        qualityReports: (await tx.qualityReport.deleteMany({ where })).count,
+        taskAssignments: (await tx.taskAssignment.deleteMany({ where: { OR: [{ userId: subjectId }, where] } })).count,
+        agentInteractions: (await tx.agent2Interaction.deleteMany({ where })).count,
+        agentPerformanceLogs: (await tx.agentPerformanceLog.deleteMany({ where })).count,
+        piiTokens: (await tx.piiToken.deleteMany({ where })).count,
+        screenshots: screenshotIds.length,
+        interactions: await tx.interaction.count({ where }),
+        enhancedInteractions: await tx.enhancedInteraction.count({ where }),
+        sessionArchives: await tx.sessionArchive.count({ where }),
+        processingJobs: await tx.processingJob.count({ where }),
+        sessions: (await tx.unifiedSession.deleteMany({ where: { id: { in: sessionIds } } })).count
+      };
+
+      // The bundles themselves are deleted with the other objects
+      await tx.dataSubjectRequest.updateMany({
+        where: { subjectId, exportKey: { not: null } },
+        data: { exportKey: null, exportChecksum: null }
+      });
+
+      return counts;
+    }, { timeout: ERASURE_TRANSACTION_TIMEOUT_MS });
+  }
+
+  private async deleteTarget(target: ErasureTarget): Promise<void> {
+    switch (target.kind) {
+      case 'object':
+        return this.options.objectStore.delete(target.key);
+      case 'archive':
+        return this.options.deleteRemoteArchive(target.key);
+      case 'file':
+        return fs.rm(target.key, { force: true });
+    }
+  }
+
+  private async eraseWorldModel(sessionIds: string[]): Promise<ErasureOutcome['worldModel']> {
+    if (!this.options.worldModel) return 'skipped';
+
+    const worldModel = this.options.worldModel();
+    if (!worldModel) return 'unavailable';
+
+    try {
+      return await worldModel.eraseSessionData(sessionIds);
+    } catch (error) {
+      this.logger.warn('World model erasure failed', { sessions: sessionIds.length, error: getErrorMessage(error) });
+      return 'unavailable';
+    }
+  }
+}
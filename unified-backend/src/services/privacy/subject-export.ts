@@ -0,0 +1,197 @@
+import { PrismaClient } from '@prisma/client';
+import archiver from 'archiver';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+import { archiveJsonReplacer } from '../archives/archive-manifest';
+import { EnhancedInteractionStoreImpl } from '../interactions/enhanced-interaction-store';
+import { ObjectStore } from '../storage';
+import { PIITokenizer } from './pii-redaction';
+
+export interface SubjectExportFile {
+  filename: string;
+  size: number;
+  checksum: string;
+}
+
+export interface SubjectExport {
+  /** Zip bundle; manifest.json inside lists every other file with its sha256 */
+  bundle: Buffer;
+  checksum: string;
+  files: SubjectExportFile[];
+  counts: {
+    sessions: number;
+    interactions: number;
+    screenshots: number;
+    images: number;
+    taskAssignments: number;
+    piiTokens: number;
+  };
+  /** Screenshot objects that could not be read; their rows are still exported */
+  missingImages: string[];
+}
+
+const logger = new Logger('SubjectExport');
+
+/**
+ * Sessions belonging to a data subject: those they worked on, plus any
+ * linked from their task assignments
+ */
+export async function findSubjectSessionIds(prisma: PrismaClient, subjectId: string): Promise<string[]> {
+  const [sessions, assignments] = await Promise.all([
+    prisma.unifiedSession.findMany({ where: { workerId: subjectId }, select: { id: true } }),
+    prisma.taskAssignment.findMany({ where: { userId: subjectId }, select: { sessionId: true } })
+  ]);
+  return Array.from(new Set([...sessions.map(session => session.id), ...assignments.map(assignment => assignment.sessionId)]));
+}
+
+function groupBySession<T extends { sessionId: string | null }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    if (!row.sessionId) continue;
+    grouped.set(row.sessionId, [...(grouped.get(row.sessionId) || []), row]);
+  }
+  return grouped;
+}
+
+/**
+ * Build the access-request bundle for one subject: every session row with
+ * its interactions, screenshots (and their images), psychology and context
+ * analysis, training data, quality reports and task assignments. With a
+ * tokenizer, the original values behind PII tokens in that data are included.
+ */
+export async function buildSubjectExport(
+  prisma: PrismaClient,
+  objectStore: ObjectStore,
+  subjectId: string,
+  options: { requestId: string; sessionIds?: string[]; tokenizer?: PIITokenizer }
+): Promise<SubjectExport> {
+  const sessionIds = options.sessionIds || await findSubjectSessionIds(prisma, subjectId);
+  const where = { sessionId: { in: sessionIds } };
+
+  const [sessionRows, legacyInteractions, screenshots, psychologyProfiles, contextEnhancements, trainingData, qualityReports, taskAssignments] = await Promise.all([
+    prisma.unifiedSession.findMany({ where: { id: { in: sessionIds } }, orderBy: { startTime: 'asc' } }),
+    prisma.interaction.findMany({ where, orderBy: { timestamp: 'asc' } }),
+    prisma.screenshot.findMany({ where, orderBy: { timestamp: 'asc' } }),
+    prisma.psychologyProfile.findMany({ where }),
+    prisma.contextEnhancement.findMany({ where }),
+    prisma.trainingData.findMany({ where }),
+    prisma.qualityReport.findMany({ where }),
+    prisma.taskAssignment.findMany({
+      where: { OR: [{ userId: subjectId }, where] },
+      include: { task: { select: { title: true, website: true, type: true, difficulty: true } } }
+    })
+  ]);
+  const piiTokens = options.tokenizer ? await prisma.piiToken.findMany({ where, orderBy: { createdAt: 'asc' } }) : [];
+  const sessions = await new EnhancedInteractionStoreImpl(prisma).hydrateMany(sessionRows);
+
+  const files: SubjectExportFile[] = [];
+  const contents: Array<{ name: string; data: Buffer }> = [];
+  const add = (name: string, data: Buffer) => {
+    contents.push({ name, data });
+    files.push({ filename: name, size: data.length, checksum: crypto.createHash('sha256').update(data).digest('hex') });
+  };
+  const addJson = (name: string, value: unknown) => add(name, Buffer.from(JSON.stringify(value, archiveJsonReplacer, 2)));
+
+  const byId = <T extends { sessionId: string }>(rows: T[]) => new Map(rows.map(row => [row.sessionId, row]));
+  const profiles = byId(psychologyProfiles);
+  const enhancements = byId(contextEnhancements);
+  const training = groupBySession(trainingData);
+  const reports = groupBySession(qualityReports);
+  const legacy = groupBySession(legacyInteractions);
+  const shots = groupBySession(screenshots);
+  const tokens = groupBySession(piiTokens);
+
+  const missingImages: string[] = [];
+  let images = 0;
+  let interactions = 0;
+
+  for (const { enhancedInteractions, ...session } of sessions) {
+    const dir = `sessions/${session.id}`;
+    interactions += enhancedInteractions.length + (legacy.get(session.id)?.length || 0);
+
+    addJson(`${dir}/session.json`, {
+      session,
+      psychologyProfile: profiles.get(session.id) || null,
+      contextEnhancement: enhancements.get(session.id) || null,
+      trainingData: training.get(session.id) || [],
+      qualityReports: reports.get(session.id) || []
+    });
+    addJson(`${dir}/interactions.json`, enhancedInteractions);
+    if (legacy.has(session.id)) {
+      addJson(`${dir}/legacy-interactions.json`, legacy.get(session.id));
+    }
+    if (tokens.has(session.id)) {
+      addJson(`${dir}/pii-tokens.json`, tokens.get(session.id)!.map(({ token, piiType, ciphertext }) => ({
+        token,
+        type: piiType,
+        value: options.tokenizer!.open(session.id, token, ciphertext)
+      })));
+    }
+
+    const sessionShots = shots.get(session.id) || [];
+    const imageFiles = new Map<string, string>();
+    for (const screenshot of sessionShots) {
+      if (!screenshot.s3Key || imageFiles.has(screenshot.s3Key)) continue;
+      try {
+        const name = `${dir}/screenshots/${screenshot.id}${path.extname(screenshot.s3Key) || `.${screenshot.format}`}`;
+        add(name, await objectStore.get(screenshot.s3Key));
+        imageFiles.set(screenshot.s3Key, name);
+        images++;
+      } catch (error) {
+        missingImages.push(screenshot.s3Key);
+        logger.warn('Screenshot missing from export', { requestId: options.requestId, key: screenshot.s3Key, error: getErrorMessage(error) });
+      }
+    }
+    if (sessionShots.length > 0) {
+      addJson(`${dir}/screenshots.json`, sessionShots.map(screenshot => ({
+        ...screenshot,
+        imageFile: screenshot.s3Key ? imageFiles.get(screenshot.s3Key) ?? null : null
+      })));
+    }
+  }
+
+  if (taskAssignments.length > 0) {
+    addJson('task-assignments.json', taskAssignments);
+  }
+
+  const counts = { sessions: sessions.length, interactions, screenshots: screenshots.length, images, taskAssignments: taskAssignments.length, piiTokens: piiTokens.length };
+  addJson('manifest.json', {
+    requestId: options.requestId,
+    subjectId,
+    generatedAt: new Date(),
+    counts,
+    missingImages,
+    files: [...files]
+  });
+
+  const bundle = await zip(contents);
+  return {
+    bundle,
+    checksum: crypto.createHash('sha256').update(bundle).digest('hex'),
+    files,
+    counts,
+    missingImages
+  };
+}
+
+async function zip(contents: Array<{ name: string; data: Buffer }>): Promise<Buffer> {
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', chunk => chunks.push(chunk));
+  const done = new Promise((resolve, reject) => {
+    output.on('end', resolve);
+    archive.on('error', reject);
+  });
+
+  archive.pipe(output);
+  for (const { name, data } of contents) {
+    archive.append(data, { name });
+  }
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+}
@@ -1,6 +1,7 @@
 import { PrismaClient } from "@prisma/client";
 import { prisma } from "../lib/database";
 import { Logger } from "../utils/logger";
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from "./interactions/enhanced-interaction-store";
 
 interface QualityMetrics {
   completeness: number;
@@ -47,11 +48,13 @@ interface QualityReport {
 export class QualityControlService {
   private prisma: PrismaClient;
   private logger: Logger;
+  private interactionStore: EnhancedInteractionStore;
   private thresholds: QualityThresholds;
 
   constructor() {
     this.prisma = prisma;
     this.logger = new Logger("QualityControl");
+    this.interactionStore = new EnhancedInteractionStoreImpl(prisma);
     
     // Default quality thresholds
     this.thresholds = {
@@ -129,10 +132,8 @@ export class QualityControlService {
 
     if (!session) return null;
 
-    // Convert enhanced interactions from JSON to interaction-like objects
-    const enhancedInteractions = Array.isArray(session.enhancedInteractions) 
-      ? session.enhancedInteractions as any[]
-      : [];
+    // Convert enhanced interactions (rows plus any legacy JSON) to interaction-like objects
+    const { enhancedInteractions } = await this.interactionStore.hydrate(session);
     
     // Use only enhanced JSON interactions (legacy interactions table removed)
     const allInteractions = enhancedInteractions
@@ -0,0 +1,193 @@
+/**
+ * Job Queue Service Tests
+ *
+ * Tests persisted job leasing, retry backoff and lease reclamation
+ */
+
+import { JobQueueServiceImpl } from '../job-queue';
+
+// Mock Prisma Client
+const mockPrisma = {
+  processingJob: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    count: jest.fn(),
+    groupBy: jest.fn()
+  },
+  $queryRaw: jest.fn(),
+  $executeRaw: jest.fn()
+} as any;
+
+const buildRecord = (overrides: Record<string, any> = {}) => ({
+  id: 'job-1',
+  sessionId: 'session-1',
+  type: 'session_complete',
+  status: 'PENDING',
+  data: {},
+  priority: 1,
+  retryCount: 0,
+  maxRetries: 3,
+  availableAt: new Date(),
+  leaseOwner: null,
+  leaseExpiresAt: null,
+  error: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  startedAt: null,
+  completedAt: null,
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('Job Queue Service', () => {
+  let jobQueue: JobQueueServiceImpl;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jobQueue = new JobQueueServiceImpl(mockPrisma, { visibilityTimeoutMs: 60000, retryBaseDelayMs: 1000 }, 'worker-a');
+  });
+
+  describe('📥 Enqueue and Lease', () => {
+    it('should persist new jobs as pending', async () => {
+      mockPrisma.processingJob.create.mockResolvedValue(buildRecord());
+
+      const job = await jobQueue.enqueue({ sessionId: 'session-1', type: 'session_complete', priority: 1 });
+
+      expect(mockPrisma.processingJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          sessionId: 'session-1',
+          type: 'session_complete',
+          priority: 1,
+          maxRetries: 3,
+          status: 'PENDING'
+        })
+      });
+      expect(job.status).toBe('pending');
+    });
+
+    it('should return leased jobs ordered by priority', async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        buildRecord({ id: 'low', priority: 5, status: 'PROCESSING', leaseOwner: 'worker-a' }),
+        buildRecord({ id: 'high', priority: 1, status: 'PROCESSING', leaseOwner: 'worker-a' })
+      ]);
+
+      const jobs = await jobQueue.lease(2);
+
+      expect(jobs.map(job => job.id)).toEqual(['high', 'low']);
+      expect(jobs[0].status).toBe('processing');
+    });
+
+    it('should queue jobs without a session and lease only the requested types', async () => {
+      mockPrisma.processingJob.create.mockResolvedValue(buildRecord({ sessionId: null, type: 'model_evaluation' }));
+      mockPrisma.$queryRaw.mockResolvedValue([]);
+
+      const job = await jobQueue.enqueue({ type: 'model_evaluation', data: { evaluationId: 'evaluation-1' } });
+      await jobQueue.lease(1, ['model_evaluation']);
+
+      expect(mockPrisma.processingJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sessionId: null, type: 'model_evaluation' })
+      });
+      expect(job.sessionId).toBeNull();
+      const query = mockPrisma.$queryRaw.mock.calls[0][0];
+      expect(query.sql).toContain('AND "type" IN');
+      expect(query.values).toContain('model_evaluation');
+    });
+
+    it('should not query when no slots are available', async () => {
+      const jobs = await jobQueue.lease(0);
+
+      expect(jobs).toEqual([]);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('🔄 Retry Backoff', () => {
+    it('should reschedule failed jobs with exponential backoff', async () => {
+      mockPrisma.processingJob.findFirst.mockResolvedValue(buildRecord({ retryCount: 1, leaseOwner: 'worker-a' }));
+
+      const before = Date.now();
+      const result = await jobQueue.fail('job-1', 'boom');
+
+      expect(result.willRetry).toBe(true);
+      expect(result.retryAt!.getTime()).toBeGreaterThanOrEqual(before + 4000);
+      expect(mockPrisma.processingJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'PENDING', retryCount: 2, leaseOwner: null })
+      });
+    });
+
+    it('should mark jobs failed once maxRetries is reached', async () => {
+      mockPrisma.processingJob.findFirst.mockResolvedValue(buildRecord({ retryCount: 2, leaseOwner: 'worker-a' }));
+
+      const result = await jobQueue.fail('job-1', 'boom');
+
+      expect(result.willRetry).toBe(false);
+      expect(mockPrisma.processingJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'FAILED', retryCount: 3 })
+      });
+    });
+
+    it('should mark jobs failed without retrying when asked to', async () => {
+      mockPrisma.processingJob.findFirst.mockResolvedValue(buildRecord({ retryCount: 0, leaseOwner: 'worker-a' }));
+
+      const result = await jobQueue.fail('job-1', 'nothing to evaluate', { retry: false });
+
+      expect(result.willRetry).toBe(false);
+      expect(mockPrisma.processingJob.update).toHaveBeenCalledWith({
+        where: { id: 'job-1' },
+        data: expect.objectContaining({ status: 'FAILED', retryCount: 1, error: 'nothing to evaluate' })
+      });
+    });
+
+    it('should ignore failures for jobs no longer leased by this worker', async () => {
+      mockPrisma.processingJob.findFirst.mockResolvedValue(null);
+
+      const result = await jobQueue.fail('job-1', 'boom');
+
+      expect(result.willRetry).toBe(false);
+      expect(mockPrisma.processingJob.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('⏱️ Leases', () => {
+    it('should only complete jobs held by this worker', async () => {
+      mockPrisma.processingJob.updateMany.mockResolvedValue({ count: 1 });
+
+      await jobQueue.complete('job-1');
+
+      expect(mockPrisma.processingJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-1', leaseOwner: 'worker-a' },
+        data: expect.objectContaining({ status: 'COMPLETED', leaseOwner: null })
+      });
+    });
+
+    it('should report a lost lease when extending', async () => {
+      mockPrisma.processingJob.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(jobQueue.extendLease('job-1')).resolves.toBe(false);
+    });
+
+    it('should reclaim expired leases', async () => {
+      mockPrisma.$executeRaw.mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+      const result = await jobQueue.reclaimExpiredLeases();
+
+      expect(result).toEqual({ requeued: 2, failed: 1 });
+    });
+  });
+
+  describe('📊 Stats', () => {
+    it('should aggregate counts by status', async () => {
+      mockPrisma.processingJob.groupBy.mockResolvedValue([
+        { status: 'PENDING', _count: 4 },
+        { status: 'FAILED', _count: 1 }
+      ]);
+
+      const stats = await jobQueue.getStats();
+
+      expect(stats).toEqual({ pending: 4, processing: 0, completed: 0, failed: 1 });
+    });
+  });
+});
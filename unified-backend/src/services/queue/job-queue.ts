@@ -0,0 +1,312 @@
+import { Prisma, PrismaClient, ProcessingJob as ProcessingJobRecord } from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+
+export type ProcessingJobType = 'interaction' | 'screenshot' | 'session_complete' | 'quality_check' | 'training_data' | 'model_evaluation';
+
+export type ProcessingJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ProcessingJob {
+  id: string;
+  /** Null for jobs that are not about one session */
+  sessionId: string | null;
+  type: ProcessingJobType;
+  status: ProcessingJobStatus;
+  data: any;
+  priority: number;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+  retryCount: number;
+  maxRetries: number;
+}
+
+export interface NewProcessingJob {
+  id?: string;
+  sessionId?: string;
+  type: ProcessingJobType;
+  data?: any;
+  priority?: number;
+  maxRetries?: number;
+}
+
+export interface JobQueueOptions {
+  /** How long a leased job stays invisible to other workers (ms) */
+  visibilityTimeoutMs: number;
+  /** Base delay for exponential retry backoff (ms) */
+  retryBaseDelayMs: number;
+  /** Upper bound for a single retry delay (ms) */
+  maxRetryDelayMs: number;
+}
+
+export interface JobQueueStats {
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+}
+
+export interface JobQueueService {
+  enqueue(job: NewProcessingJob): Promise<ProcessingJob>;
+  lease(limit: number, types?: ProcessingJobType[]): Promise<ProcessingJob[]>;
+  extendLease(jobId: string): Promise<boolean>;
+  complete(jobId: string): Promise<void>;
+  fail(jobId: string, error: string, options?: { retry?: boolean }): Promise<{ willRetry: boolean; retryAt?: Date }>;
+  reclaimExpiredLeases(): Promise<{ requeued: number; failed: number }>;
+  hasOpenJob(sessionId: string, type: ProcessingJobType): Promise<boolean>;
+  getStats(): Promise<JobQueueStats>;
+}
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  visibilityTimeoutMs: 5 * 60 * 1000,
+  retryBaseDelayMs: 1000,
+  maxRetryDelayMs: 10 * 60 * 1000
+};
+
+/**
+ * Postgres-backed job queue for the processing pipeline.
+ *
+ * Jobs are leased with FOR UPDATE SKIP LOCKED so several server instances can
+ * share the table. A lease hides the job until leaseExpiresAt; if the holder
+ * dies, the job is reclaimed and counted as a failed attempt.
+ */
+export class JobQueueServiceImpl implements JobQueueService {
+  private prisma: PrismaClient;
+  private logger: Logger;
+  private options: JobQueueOptions;
+  readonly workerId: string;
+
+  constructor(prisma: PrismaClient, options: Partial<JobQueueOptions> = {}, workerId?: string) {
+    this.prisma = prisma;
+    this.logger = new Logger('JobQueue');
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.workerId = workerId || `worker_${process.pid}_${uuidv4().slice(0, 8)}`;
+  }
+
+  /**
+   * Persist a new job; it becomes leasable immediately
+   */
+  async enqueue(job: NewProcessingJob): Promise<ProcessingJob> {
+    const record = await this.prisma.processingJob.create({
+      data: {
+        id: job.id || uuidv4(),
+        sessionId: job.sessionId ?? null,
+        type: job.type,
+        data: job.data ?? {},
+        priority: job.priority ?? 5,
+        maxRetries: job.maxRetries ?? 3,
+        status: 'PENDING'
+      }
+    });
+
+    this.logger.debug('Job enqueued', {
+      jobId: record.id,
+      type: record.type,
+      sessionId: record.sessionId,
+      priority: record.priority
+    });
+
+    return this.toProcessingJob(record);
+  }
+
+  /**
+   * Atomically claim up to `limit` runnable jobs for this worker
+   * @param types - Only lease jobs of these types; workers sharing the table each lease their own
+   * @returns Leased jobs ordered by priority, oldest first within a priority
+   */
+  async lease(limit: number, types?: ProcessingJobType[]): Promise<ProcessingJob[]> {
+    if (limit <= 0) return [];
+
+    const leaseExpiresAt = new Date(Date.now() + this.options.visibilityTimeoutMs);
+
+    const rows = await this.prisma.$queryRaw<ProcessingJobRecord[]>(Prisma.sql`
+      UPDATE "processing_jobs"
+      SET "status" = 'PROCESSING',
+          "leaseOwner" = ${this.workerId},
+          "leaseExpiresAt" = ${leaseExpiresAt},
+          "startedAt" = NOW(),
+          "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "processing_jobs"
+        WHERE "status" = 'PENDING' AND "availableAt" <= NOW()
+          ${types?.length ? Prisma.sql`AND "type" IN (${Prisma.join(types)})` : Prisma.empty}
+        ORDER BY "priority" ASC, "createdAt" ASC
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `);
+
+    return rows
+      .map(row => this.toProcessingJob(row))
+      .sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Push the visibility timeout forward for a job this worker still holds
+   * @returns false if the lease was lost (reclaimed by another worker)
+   */
+  async extendLease(jobId: string): Promise<boolean> {
+    const result = await this.prisma.processingJob.updateMany({
+      where: { id: jobId, leaseOwner: this.workerId, status: 'PROCESSING' },
+      data: { leaseExpiresAt: new Date(Date.now() + this.options.visibilityTimeoutMs) }
+    });
+
+    return result.count > 0;
+  }
+
+  async complete(jobId: string): Promise<void> {
+    const result = await this.prisma.processingJob.updateMany({
+      where: { id: jobId, leaseOwner: this.workerId },
+      data: {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        error: null
+      }
+    });
+
+    if (result.count === 0) {
+      this.logger.warn('Completed job was no longer leased by this worker', { jobId, workerId: this.workerId });
+    }
+  }
+
+  /**
+   * Record a failed attempt. Jobs under maxRetries go back to PENDING with an
+   * exponential backoff on availableAt; the rest are marked FAILED, as are
+   * jobs failed with retry: false because another attempt would fail the same way.
+   */
+  async fail(jobId: string, error: string, options: { retry?: boolean } = {}): Promise<{ willRetry: boolean; retryAt?: Date }> {
+    const job = await this.prisma.processingJob.findFirst({
+      where: { id: jobId, leaseOwner: this.workerId }
+    });
+
+    if (!job) {
+      this.logger.warn('Failed job was no longer leased by this worker', { jobId, workerId: this.workerId });
+      return { willRetry: false };
+    }
+
+    const retryCount = job.retryCount + 1;
+
+    if (options.retry !== false && retryCount < job.maxRetries) {
+      const retryAt = new Date(Date.now() + this.getRetryDelay(retryCount));
+
+      await this.prisma.processingJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'PENDING',
+          retryCount,
+          error,
+          availableAt: retryAt,
+          leaseOwner: null,
+          leaseExpiresAt: null
+        }
+      });
+
+      return { willRetry: true, retryAt };
+    }
+
+    await this.prisma.processingJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'FAILED',
+        retryCount,
+        error,
+        completedAt: new Date(),
+        leaseOwner: null,
+        leaseExpiresAt: null
+      }
+    });
+
+    return { willRetry: false };
+  }
+
+  /**
+   * Return jobs whose lease expired (worker crashed or was redeployed) to the
+   * queue. The interrupted run counts as an attempt so a job that keeps
+   * killing its worker eventually lands in FAILED.
+   */
+  async reclaimExpiredLeases(): Promise<{ requeued: number; failed: number }> {
+    const failed = await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE "processing_jobs"
+      SET "status" = 'FAILED',
+          "retryCount" = "retryCount" + 1,
+          "error" = 'Lease expired before job completed',
+          "completedAt" = NOW(),
+          "leaseOwner" = NULL,
+          "leaseExpiresAt" = NULL,
+          "updatedAt" = NOW()
+      WHERE "status" = 'PROCESSING'
+        AND "leaseExpiresAt" < NOW()
+        AND "retryCount" + 1 >= "maxRetries"
+    `);
+
+    const requeued = await this.prisma.$executeRaw(Prisma.sql`
+      UPDATE "processing_jobs"
+      SET "status" = 'PENDING',
+          "retryCount" = "retryCount" + 1,
+          "error" = 'Lease expired before job completed',
+          "availableAt" = NOW(),
+          "leaseOwner" = NULL,
+          "leaseExpiresAt" = NULL,
+          "updatedAt" = NOW()
+      WHERE "status" = 'PROCESSING'
+        AND "leaseExpiresAt" < NOW()
+    `);
+
+    if (requeued > 0 || failed > 0) {
+      this.logger.warn('Reclaimed expired job leases', { requeued, failed });
+    }
+
+    return { requeued, failed };
+  }
+
+  async hasOpenJob(sessionId: string, type: ProcessingJobType): Promise<boolean> {
+    const count = await this.prisma.processingJob.count({
+      where: {
+        sessionId,
+        type,
+        status: { in: ['PENDING', 'PROCESSING'] }
+      }
+    });
+
+    return count > 0;
+  }
+
+  async getStats(): Promise<JobQueueStats> {
+    const groups = await this.prisma.processingJob.groupBy({
+      by: ['status'],
+      _count: true
+    });
+
+    const stats: JobQueueStats = { pending: 0, processing: 0, completed: 0, failed: 0 };
+    for (const group of groups) {
+      stats[group.status.toLowerCase() as keyof JobQueueStats] = group._count;
+    }
+
+    return stats;
+  }
+
+  private getRetryDelay(retryCount: number): number {
+    return Math.min(Math.pow(2, retryCount) * this.options.retryBaseDelayMs, this.options.maxRetryDelayMs);
+  }
+
+  private toProcessingJob(record: ProcessingJobRecord): ProcessingJob {
+    return {
+      id: record.id,
+      sessionId: record.sessionId,
+      type: record.type as ProcessingJobType,
+      status: record.status.toLowerCase() as ProcessingJobStatus,
+      data: record.data,
+      priority: record.priority,
+      createdAt: new Date(record.createdAt),
+      startedAt: record.startedAt ? new Date(record.startedAt) : undefined,
+      completedAt: record.completedAt ? new Date(record.completedAt) : undefined,
+      error: record.error ?? undefined,
+      retryCount: record.retryCount,
+      maxRetries: record.maxRetries
+    };
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Retention Scheduler Tests
+ *
+ * Tests run history and dry-run handling, overlap protection, recovery of
+ * interrupted runs, and the archive and screenshot purge policies
+ */
+
+import { RetentionPolicyNotFoundError, RetentionPolicyRunningError, RetentionSchedulerImpl } from '../retention-scheduler';
+import { ArchiveSessionsPolicy, PurgeArchivedScreenshotsPolicy, RetentionPolicy, hoursToCron } from '../retention-policies';
+
+// In-memory stand-in for the retention_runs table
+const runs = new Map<string, any>();
+let nextId = 1;
+
+const mockPrisma = {
+  retentionRun: {
+    create: jest.fn(({ data }: any) => {
+      const row = { id: `run-${nextId++}`, status: 'RUNNING', affected: 0, details: {}, error: null, startedAt: new Date(), finishedAt: null, ...data };
+      runs.set(row.id, row);
+      return Promise.resolve(row);
+    }),
+    update: jest.fn(({ where, data }: any) => {
+      const row = { ...runs.get(where.id), ...data };
+      runs.set(where.id, row);
+      return Promise.resolve(row);
+    }),
+    updateMany: jest.fn(() => Promise.resolve({ count: 0 })),
+    findFirst: jest.fn(({ where }: any) => Promise.resolve(
+      Array.from(runs.values()).filter(row => row.policy === where.policy).pop() ?? null
+    )),
+    findMany: jest.fn(() => Promise.resolve(Array.from(runs.values()).reverse()))
+  },
+  unifiedSession: {
+    findMany: jest.fn(),
+    update: jest.fn(() => Promise.resolve({}))
+  },
+  screenshot: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+    updateMany: jest.fn(({ where }: any) => Promise.resolve({ count: where.id.in.length }))
+  }
+} as any;
+
+const policy = (name: string, run: RetentionPolicy['run']): RetentionPolicy => ({
+  name,
+  description: `${name} policy`,
+  schedule: '0 3 * * *',
+  run
+});
+
+describe('RetentionScheduler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runs.clear();
+    nextId = 1;
+  });
+
+  describe('📜 Run history', () => {
+    it('should record completed runs with their outcome', async () => {
+      const run = jest.fn(() => Promise.resolve({ affected: 3, details: { ids: ['a', 'b', 'c'] } }));
+      const scheduler = new RetentionSchedulerImpl(mockPrisma, [policy('prune', run)]);
+
+      const result = await scheduler.runPolicy('prune');
+
+      expect(run).toHaveBeenCalledWith(expect.objectContaining({ dryRun: false }));
+      expect(result).toEqual(expect.objectContaining({
+        policy: 'prune',
+        trigger: 'manual',
+        status: 'COMPLETED',
+        affected: 3,
+        details: { ids: ['a', 'b', 'c'] }
+      }));
+
+      const [status] = await scheduler.listPolicies();
+      expect(status.lastRun?.id).toBe(result.id);
+    });
+
+    it('should record failures on the run instead of throwing', async () => {
+      const scheduler = new RetentionSchedulerImpl(mockPrisma, [
+        policy('prune', () => Promise.reject(new Error('disk full')))
+      ]);
+
+      const result = await scheduler.runPolicy('prune');
+
+      expect(result).toEqual(expect.objectContaining({ status: 'FAILED', error: 'disk full' }));
+      expect(result.finishedAt).toBeInstanceOf(Date);
+    });
+
+    it('should mark runs left RUNNING by a previous process as failed on start', async () => {
+      const scheduler = new RetentionSchedulerImpl(mockPrisma, []);
+
+      await scheduler.start();
+      scheduler.stop();
+
+      expect(mockPrisma.retentionRun.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'RUNNING' },
+        data: expect.objectContaining({ status: 'FAILED' })
+      }));
+    });
+  });
+
+  describe('🧪 Dry runs and overlap', () => {
+    it('should use the configured dry-run mode unless overridden', async () => {
+      const run = jest.fn(() => Promise.resolve({ affected: 0 }));
+      const scheduler = new RetentionSchedulerImpl(mockPrisma, [policy('prune', run), policy('purge', run)], {
+        dryRunPolicies: ['purge']
+      });
+
+      await scheduler.runPolicy('purge');
+      await scheduler.runPolicy('purge', { dryRun: false });
+      await scheduler.runPolicy('prune');
+
+      expect(run.mock.calls.map((call: any[]) => call[0].dryRun)).toEqual([true, false, false]);
+      expect(Array.from(runs.values()).map(row => row.dryRun)).toEqual([true, false, false]);
+    });
+
+    it('should reject unknown policies and runs that would overlap', async () => {
+      let finish!: () => void;
+      const scheduler = new RetentionSchedulerImpl(mockPrisma, [
+        policy('slow', () => new Promise(resolve => { finish = () => resolve({ affected: 1 }); }))
+      ]);
+
+      await expect(scheduler.runPolicy('missing')).rejects.toThrow(new RetentionPolicyNotFoundError('missing'));
+
+      const first = scheduler.runPolicy('slow');
+      await expect(scheduler.runPolicy('slow')).rejects.toBeInstanceOf(RetentionPolicyRunningError);
+
+      await new Promise(resolve => setImmediate(resolve));
+      finish();
+      await expect(first).resolves.toEqual(expect.objectContaining({ status: 'COMPLETED' }));
+    });
+  });
+
+  describe('🗄️ Policies', () => {
+    it('should archive old sessions and keep going past failures', async () => {
+      mockPrisma.unifiedSession.findMany.mockResolvedValue([{ id: 's1' }, { id: 's2' }]);
+      const storageManager = {
+        createSessionArchive: jest.fn((id: string) => id === 's1' ? Promise.reject(new Error('boom')) : Promise.resolve({} as any))
+      };
+      const archive = new ArchiveSessionsPolicy(mockPrisma, storageManager, { retentionDays: 90, batchSize: 10, schedule: hoursToCron(24) });
+
+      const preview = await archive.run({ dryRun: true, now: new Date() });
+      expect(preview).toEqual(expect.objectContaining({ affected: 2 }));
+      expect(storageManager.createSessionArchive).not.toHaveBeenCalled();
+
+      const outcome = await archive.run({ dryRun: false, now: new Date() });
+
+      expect(outcome.affected).toBe(1);
+      expect(outcome.details).toEqual(expect.objectContaining({ archived: ['s2'], failed: [{ sessionId: 's1', error: 'boom' }] }));
+      expect(mockPrisma.unifiedSession.update).toHaveBeenCalledWith({ where: { id: 's2' }, data: { status: 'ARCHIVED' } });
+      expect(archive.schedule).toBe('0 3 * * *');
+    });
+
+    it('should delete shared screenshot objects once and skip rows whose object could not be deleted', async () => {
+      mockPrisma.screenshot.findMany.mockResolvedValue([
+        { id: 'a', s3Key: 'screenshots/s1/a.webp' },
+        { id: 'b', s3Key: 'screenshots/s1/a.webp' },
+        { id: 'c', s3Key: 'screenshots/s1/c.webp' },
+        { id: 'd', s3Key: null }
+      ]);
+      const objectStore = {
+        backend: 'local' as const,
+        put: jest.fn(),
+        get: jest.fn(),
+        exists: jest.fn(),
+        delete: jest.fn((key: string) => key.endsWith('c.webp') ? Promise.reject(new Error('denied')) : Promise.resolve()),
+        getUrl: jest.fn()
+      };
+      const purge = new PurgeArchivedScreenshotsPolicy(mockPrisma, objectStore, { graceDays: 7, batchSize: 10, schedule: hoursToCron(6, 30) });
+
+      const outcome = await purge.run({ dryRun: false, now: new Date() });
+
+      expect(objectStore.delete).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.screenshot.updateMany.mock.calls[0][0].where.id.in).toEqual(['a', 'b', 'd']);
+      expect(outcome).toEqual(expect.objectContaining({ affected: 3 }));
+      expect(outcome.details?.failedKeys).toEqual(['screenshots/s1/c.webp']);
+      expect(purge.schedule).toBe('30 */6 * * *');
+    });
+
+    it('should only purge sessions archived with their images', async () => {
+      mockPrisma.screenshot.count.mockResolvedValue(0);
+      const objectStore = { backend: 'local' as const, put: jest.fn(), get: jest.fn(), exists: jest.fn(), delete: jest.fn(), getUrl: jest.fn() };
+      const purge = new PurgeArchivedScreenshotsPolicy(mockPrisma, objectStore, { graceDays: 7, batchSize: 10, schedule: hoursToCron(6, 30) });
+
+      await purge.run({ dryRun: true, now: new Date() });
+
+      const { where } = mockPrisma.screenshot.count.mock.calls[0][0];
+      expect(where.session.archives.some).toEqual(expect.objectContaining({ status: 'COMPLETED', version: { in: ['2.0'] } }));
+    });
+  });
+});
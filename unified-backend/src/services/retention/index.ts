@@ -0,0 +1,10 @@
+/**
+ * Data Retention - Main Export
+ *
+ * Policies archive, purge and prune data on cron schedules; every run is
+ * recorded in retention_runs and can be inspected or triggered from the
+ * admin API.
+ */
+
+export * from './retention-policies';
+export * from './retention-scheduler';
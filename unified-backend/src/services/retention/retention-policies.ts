@@ -0,0 +1,249 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+import { ARCHIVE_VERSIONS_WITH_IMAGES } from '../archives/archive-manifest';
+import { CacheManagerService } from '../cache/cache-manager';
+import { ObjectStore } from '../storage';
+import { StorageManager } from '../storage-manager-clean';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Minute rollups only back the 1h view; hour and day rollups serve longer ranges */
+const MINUTE_ROLLUP_RETENTION_DAYS = 2;
+
+export interface RetentionContext {
+  dryRun: boolean;
+  now: Date;
+}
+
+export interface RetentionOutcome {
+  /** Rows or objects changed, or that would change on a dry run */
+  affected: number;
+  details?: Record<string, any>;
+}
+
+export interface RetentionPolicy {
+  readonly name: string;
+  readonly description: string;
+  /** node-cron expression */
+  readonly schedule: string;
+  run(context: RetentionContext): Promise<RetentionOutcome>;
+}
+
+/**
+ * Cron expression for "every N hours"; intervals of a day or more run once
+ * a day at the given minute past 03:00 so they stay off peak
+ */
+export function hoursToCron(hours: number, minute: number = 0): string {
+  if (!Number.isFinite(hours) || hours >= 24) return `${minute} 3 * * *`;
+  return `${minute} */${Math.max(1, Math.floor(hours))} * * *`;
+}
+
+function daysBefore(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Archives completed sessions older than the retention window through
+ * StorageManager.createSessionArchive and marks them ARCHIVED
+ */
+export class ArchiveSessionsPolicy implements RetentionPolicy {
+  readonly name = 'archive-sessions';
+  readonly description = 'Archive completed sessions older than DATA_RETENTION_DAYS';
+  private logger: Logger;
+
+  constructor(
+    private prisma: PrismaClient,
+    private storageManager: Pick<StorageManager, 'createSessionArchive'>,
+    private options: { retentionDays: number; batchSize: number; schedule: string }
+  ) {
+    this.logger = new Logger('ArchiveSessionsPolicy');
+  }
+
+  get schedule(): string {
+    return this.options.schedule;
+  }
+
+  async run({ dryRun, now }: RetentionContext): Promise<RetentionOutcome> {
+    const cutoff = daysBefore(now, this.options.retentionDays);
+    const candidates = await this.prisma.unifiedSession.findMany({
+      where: {
+        status: 'COMPLETED',
+        OR: [
+          { endTime: { lt: cutoff } },
+          { endTime: null, createdAt: { lt: cutoff } }
+        ],
+        archives: { none: { status: 'COMPLETED' } }
+      },
+      orderBy: { createdAt: 'asc' },
+      take: this.options.batchSize,
+      select: { id: true }
+    });
+    const sessionIds = candidates.map(session => session.id);
+
+    if (dryRun) {
+      return { affected: sessionIds.length, details: { cutoff, sessionIds } };
+    }
+
+    const archived: string[] = [];
+    const failed: Array<{ sessionId: string; error: string }> = [];
+
+    for (const sessionId of sessionIds) {
+      try {
+        await this.storageManager.createSessionArchive(sessionId);
+        await this.prisma.unifiedSession.update({
+          where: { id: sessionId },
+          data: { status: 'ARCHIVED' }
+        });
+        archived.push(sessionId);
+      } catch (error) {
+        // One bad session must not block the rest of the batch
+        failed.push({ sessionId, error: getErrorMessage(error) });
+        this.logger.warn('Failed to archive session', { sessionId, error: getErrorMessage(error) });
+      }
+    }
+
+    return { affected: archived.length, details: { cutoff, archived, failed } };
+  }
+}
+
+/**
+ * Deletes full-size screenshot images (object store and inline data URLs)
+ * once their session has a completed archive older than the grace period
+ * that embeds the images (see ARCHIVE_VERSIONS_WITH_IMAGES); sessions only
+ * covered by older archives keep theirs. Rows and thumbnails are kept for
+ * dashboards.
+ */
+export class PurgeArchivedScreenshotsPolicy implements RetentionPolicy {
+  readonly name = 'purge-screenshots';
+  readonly description = 'Purge raw screenshots of archived sessions after SCREENSHOT_PURGE_GRACE_DAYS';
+  private logger: Logger;
+
+  constructor(
+    private prisma: PrismaClient,
+    private objectStore: ObjectStore,
+    private options: { graceDays: number; batchSize: number; schedule: string }
+  ) {
+    this.logger = new Logger('PurgeArchivedScreenshotsPolicy');
+  }
+
+  get schedule(): string {
+    return this.options.schedule;
+  }
+
+  async run({ dryRun, now }: RetentionContext): Promise<RetentionOutcome> {
+    const cutoff = daysBefore(now, this.options.graceDays);
+    const where: Prisma.ScreenshotWhereInput = {
+      purgedAt: null,
+      OR: [{ s3Key: { not: null } }, { dataUrl: { not: null } }],
+      session: {
+        archives: { some: { status: 'COMPLETED', createdAt: { lt: cutoff }, version: { in: ARCHIVE_VERSIONS_WITH_IMAGES } } }
+      }
+    };
+
+    if (dryRun) {
+      return { affected: await this.prisma.screenshot.count({ where }), details: { cutoff } };
+    }
+
+    const screenshots = await this.prisma.screenshot.findMany({
+      where,
+      take: this.options.batchSize,
+      select: { id: true, s3Key: true }
+    });
+
+    // Duplicate burst frames share their owner's key; delete each object once
+    const failedKeys = new Set<string>();
+    const keys = Array.from(new Set(screenshots.map(screenshot => screenshot.s3Key).filter((key): key is string => !!key)));
+    for (const key of keys) {
+      try {
+        await this.objectStore.delete(key);
+      } catch (error) {
+        failedKeys.add(key);
+        this.logger.warn('Failed to delete screenshot object', { key, error: getErrorMessage(error) });
+      }
+    }
+
+    const purgedIds = screenshots
+      .filter(screenshot => !screenshot.s3Key || !failedKeys.has(screenshot.s3Key))
+      .map(screenshot => screenshot.id);
+
+    const { count } = await this.prisma.screenshot.updateMany({
+      where: { id: { in: purgedIds } },
+      data: { s3Key: null, dataUrl: null, purgedAt: now }
+    });
+
+    return {
+      affected: count,
+      details: { cutoff, objectsDeleted: keys.length - failedKeys.size, failedKeys: Array.from(failedKeys) }
+    };
+  }
+}
+
+/**
+ * Removes expired VisionAnalysisCache rows
+ */
+export class ExpireVisionCachePolicy implements RetentionPolicy {
+  readonly name = 'expire-vision-cache';
+  readonly description = 'Delete expired vision analysis cache entries';
+
+  constructor(
+    private prisma: PrismaClient,
+    private cacheManager: Pick<CacheManagerService, 'clearExpiredEntries'>,
+    readonly schedule: string
+  ) {}
+
+  async run({ dryRun, now }: RetentionContext): Promise<RetentionOutcome> {
+    if (dryRun) {
+      return { affected: await this.prisma.visionAnalysisCache.count({ where: { expiresAt: { lt: now } } }) };
+    }
+    return { affected: await this.cacheManager.clearExpiredEntries() };
+  }
+}
+
+/**
+ * Prunes agent performance logs, hourly metric rollups and finished
+ * retention run history older than METRICS_RETENTION_DAYS. Minute rollups
+ * are kept for two days; daily rollups are small and kept indefinitely.
+ */
+export class PruneMetricsPolicy implements RetentionPolicy {
+  readonly name = 'prune-metrics';
+  readonly description = 'Delete metric rows older than METRICS_RETENTION_DAYS';
+
+  constructor(
+    private prisma: PrismaClient,
+    private options: { retentionDays: number; schedule: string }
+  ) {}
+
+  get schedule(): string {
+    return this.options.schedule;
+  }
+
+  async run({ dryRun, now }: RetentionContext): Promise<RetentionOutcome> {
+    const cutoff = daysBefore(now, this.options.retentionDays);
+    const performanceWhere = { executedAt: { lt: cutoff } };
+    const runsWhere: Prisma.RetentionRunWhereInput = { startedAt: { lt: cutoff }, status: { not: 'RUNNING' } };
+    const rollupsWhere: Prisma.MetricRollupWhereInput = {
+      OR: [
+        { resolution: 'MINUTE', bucketStart: { lt: daysBefore(now, MINUTE_ROLLUP_RETENTION_DAYS) } },
+        { resolution: 'HOUR', bucketStart: { lt: cutoff } }
+      ]
+    };
+
+    const [performanceLogs, retentionRuns, metricRollups] = dryRun
+      ? await Promise.all([
+        this.prisma.agentPerformanceLog.count({ where: performanceWhere }),
+        this.prisma.retentionRun.count({ where: runsWhere }),
+        this.prisma.metricRollup.count({ where: rollupsWhere })
+      ])
+      : await Promise.all([
+        this.prisma.agentPerformanceLog.deleteMany({ where: performanceWhere }).then(result => result.count),
+        this.prisma.retentionRun.deleteMany({ where: runsWhere }).then(result => result.count),
+        this.prisma.metricRollup.deleteMany({ where: rollupsWhere }).then(result => result.count)
+      ]);
+
+    return {
+      affected: performanceLogs + retentionRuns + metricRollups,
+      details: { cutoff, performanceLogs, retentionRuns, metricRollups }
+    };
+  }
+}
@@ -0,0 +1,237 @@
+import * as cron from 'node-cron';
+import { PrismaClient, RetentionRun } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { getConfig } from '../../utils/env-validator';
+import { getErrorMessage } from '../../utils/type-helpers';
+import { CacheManagerService } from '../cache/cache-manager';
+import { ObjectStore } from '../storage';
+import { StorageManager } from '../storage-manager-clean';
+import {
+  ArchiveSessionsPolicy,
+  ExpireVisionCachePolicy,
+  PruneMetricsPolicy,
+  PurgeArchivedScreenshotsPolicy,
+  RetentionPolicy,
+  hoursToCron
+} from './retention-policies';
+
+export type RetentionTrigger = 'schedule' | 'manual';
+
+export interface RetentionSchedulerOptions {
+  /** Policies whose scheduled runs only report what they would do; 'all' for every policy */
+  dryRunPolicies: string[] | 'all';
+  timezone?: string;
+}
+
+export interface RetentionPolicyStatus {
+  name: string;
+  description: string;
+  schedule: string;
+  /** Whether scheduled runs of this policy are dry runs */
+  dryRun: boolean;
+  scheduled: boolean;
+  running: boolean;
+  lastRun: RetentionRun | null;
+}
+
+/** No policy is registered under this name */
+export class RetentionPolicyNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Retention policy ${name} not found`);
+    this.name = 'RetentionPolicyNotFoundError';
+  }
+}
+
+/** A run of this policy is still in progress */
+export class RetentionPolicyRunningError extends Error {
+  constructor(name: string) {
+    super(`Retention policy ${name} is already running`);
+    this.name = 'RetentionPolicyRunningError';
+  }
+}
+
+export interface RetentionScheduler {
+  start(): Promise<void>;
+  stop(): void;
+  listPolicies(): Promise<RetentionPolicyStatus[]>;
+  runPolicy(name: string, options?: { dryRun?: boolean; trigger?: RetentionTrigger }): Promise<RetentionRun>;
+  listRuns(filters?: { policy?: string; limit?: number }): Promise<RetentionRun[]>;
+}
+
+/**
+ * Runs retention policies on their cron schedules and records every run in
+ * retention_runs. A policy never overlaps with itself; a run that is still
+ * going when the next tick fires is skipped rather than queued.
+ */
+export class RetentionSchedulerImpl implements RetentionScheduler {
+  private policies: Map<string, RetentionPolicy>;
+  private tasks: cron.ScheduledTask[] = [];
+  private running: Set<string> = new Set();
+  private logger: Logger;
+
+  constructor(
+    private prisma: PrismaClient,
+    policies: RetentionPolicy[],
+    private options: RetentionSchedulerOptions = { dryRunPolicies: [] }
+  ) {
+    this.policies = new Map(policies.map(policy => [policy.name, policy]));
+    this.logger = new Logger('RetentionScheduler');
+  }
+
+  async start(): Promise<void> {
+    if (this.tasks.length > 0) return;
+
+    // Runs left RUNNING by a previous process will never finish
+    const { count } = await this.prisma.retentionRun.updateMany({
+      where: { status: 'RUNNING' },
+      data: { status: 'FAILED', error: 'Interrupted by restart', finishedAt: new Date() }
+    });
+    if (count > 0) {
+      this.logger.warn('Marked interrupted retention runs as failed', { count });
+    }
+
+    this.policies.forEach(policy => {
+      if (!cron.validate(policy.schedule)) {
+        this.logger.error('Invalid retention schedule, policy not scheduled', { policy: policy.name, schedule: policy.schedule });
+        return;
+      }
+
+      this.tasks.push(cron.schedule(policy.schedule, () => {
+        if (this.running.has(policy.name)) {
+          this.logger.warn('Previous retention run still active, skipping tick', { policy: policy.name });
+          return;
+        }
+        this.runPolicy(policy.name, { trigger: 'schedule' }).catch(error => {
+          this.logger.error('Scheduled retention run failed', { policy: policy.name, error: getErrorMessage(error) });
+        });
+      }, { timezone: this.options.timezone }));
+    });
+
+    this.logger.info('Retention scheduler started', {
+      policies: Array.from(this.policies.values()).map(policy => ({
+        name: policy.name,
+        schedule: policy.schedule,
+        dryRun: this.isDryRunPolicy(policy.name)
+      }))
+    });
+  }
+
+  stop(): void {
+    this.tasks.forEach(task => task.stop());
+    this.tasks = [];
+  }
+
+  async listPolicies(): Promise<RetentionPolicyStatus[]> {
+    const policies = Array.from(this.policies.values());
+    const lastRuns = await Promise.all(policies.map(policy => this.prisma.retentionRun.findFirst({
+      where: { policy: policy.name },
+      orderBy: { startedAt: 'desc' }
+    })));
+
+    return policies.map((policy, index) => ({
+      name: policy.name,
+      description: policy.description,
+      schedule: policy.schedule,
+      dryRun: this.isDryRunPolicy(policy.name),
+      scheduled: this.tasks.length > 0,
+      running: this.running.has(policy.name),
+      lastRun: lastRuns[index]
+    }));
+  }
+
+  /**
+   * Run a policy now and record the outcome. Failures are recorded on the
+   * returned run rather than thrown; unknown and already-running policies throw.
+   */
+  async runPolicy(name: string, options: { dryRun?: boolean; trigger?: RetentionTrigger } = {}): Promise<RetentionRun> {
+    const policy = this.policies.get(name);
+    if (!policy) {
+      throw new RetentionPolicyNotFoundError(name);
+    }
+    if (this.running.has(name)) {
+      throw new RetentionPolicyRunningError(name);
+    }
+
+    const trigger = options.trigger || 'manual';
+    const dryRun = options.dryRun ?? this.isDryRunPolicy(name);
+
+    this.running.add(name);
+    try {
+      const run = await this.prisma.retentionRun.create({
+        data: { policy: name, trigger, dryRun }
+      });
+
+      try {
+        const outcome = await policy.run({ dryRun, now: new Date() });
+        const completed = await this.prisma.retentionRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'COMPLETED',
+            affected: outcome.affected,
+            details: JSON.parse(JSON.stringify(outcome.details || {})),
+            finishedAt: new Date()
+          }
+        });
+
+        this.logger.info('Retention run completed', { policy: name, trigger, dryRun, affected: outcome.affected });
+        return completed;
+
+      } catch (error) {
+        this.logger.error('Retention run failed', { policy: name, trigger, dryRun, error: getErrorMessage(error) });
+        return this.prisma.retentionRun.update({
+          where: { id: run.id },
+          data: { status: 'FAILED', error: getErrorMessage(error), finishedAt: new Date() }
+        });
+      }
+    } finally {
+      this.running.delete(name);
+    }
+  }
+
+  async listRuns(filters: { policy?: string; limit?: number } = {}): Promise<RetentionRun[]> {
+    return this.prisma.retentionRun.findMany({
+      where: filters.policy ? { policy: filters.policy } : {},
+      orderBy: { startedAt: 'desc' },
+      take: Math.min(filters.limit || 50, 500)
+    });
+  }
+
+  private isDryRunPolicy(name: string): boolean {
+    return this.options.dryRunPolicies === 'all' || this.options.dryRunPolicies.includes(name);
+  }
+}
+
+export interface RetentionDependencies {
+  storageManager: Pick<StorageManager, 'createSessionArchive'>;
+  objectStore: ObjectStore;
+  cacheManager: Pick<CacheManagerService, 'clearExpiredEntries'>;
+}
+
+/**
+ * Build the scheduler with the standard policy set from configuration
+ */
+export function createRetentionScheduler(
+  prisma: PrismaClient,
+  dependencies: RetentionDependencies,
+  config: ReturnType<typeof getConfig> = getConfig()
+): RetentionScheduler {
+  const { retention } = config;
+
+  return new RetentionSchedulerImpl(prisma, [
+    new ArchiveSessionsPolicy(prisma, dependencies.storageManager, {
+      retentionDays: config.dataRetentionDays,
+      batchSize: retention.batchSize,
+      schedule: hoursToCron(config.archiveCleanupIntervalHours)
+    }),
+    new PurgeArchivedScreenshotsPolicy(prisma, dependencies.objectStore, {
+      graceDays: retention.screenshotPurgeGraceDays,
+      batchSize: retention.batchSize,
+      schedule: hoursToCron(config.archiveCleanupIntervalHours, 30)
+    }),
+    new ExpireVisionCachePolicy(prisma, dependencies.cacheManager, '15 * * * *'),
+    new PruneMetricsPolicy(prisma, {
+      retentionDays: retention.metricsRetentionDays,
+      schedule: '45 4 * * *'
+    })
+  ], { dryRunPolicies: retention.dryRunPolicies });
+}
@@ -8,6 +8,7 @@ import { Logger } from "../utils/logger";
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { createReadStream } from 'fs';
+import { Readable } from 'stream';
 
 interface S3Config {
   region: string;
@@ -101,11 +102,11 @@ export class S3StorageService {
       const useMultipart = options.useMultipart ?? (fileSize > 100 * 1024 * 1024); // 100MB threshold
       
       // Generate S3 key with intelligent organization
-      const s3Key = this.generateArchiveKey(sessionId);
+      const s3Key = this.generateArchiveKey(path.basename(archivePath));
       
       // Set up upload options with intelligent defaults
       const uploadOptions: UploadOptions = {
-        contentType: 'application/zip',
+        contentType: archivePath.endsWith('.tar.zst') ? 'application/zstd' : 'application/zip',
         storageClass: this.determineStorageClass(fileSize),
         serverSideEncryption: 'AES256',
         metadata: {
@@ -377,14 +378,14 @@ export class S3StorageService {
   }
 
   // Generate intelligent S3 key structure
-  private generateArchiveKey(sessionId: string): string {
+  private generateArchiveKey(fileName: string): string {
     const date = new Date();
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
     const day = String(date.getDate()).padStart(2, '0');
     
     // Organize by date for efficient lifecycle management
-    return `archives/${year}/${month}/${day}/session-${sessionId}.zip`;
+    return `archives/${year}/${month}/${day}/${fileName}`;
   }
 
   // Determine optimal storage class based on file size and access patterns
@@ -491,7 +492,7 @@ export class S3StorageService {
       }
 
       // Determine download path
-      const outputPath = downloadPath || `/tmp/session-${sessionId}.zip`;
+      const outputPath = downloadPath || path.join('/tmp', path.basename(archive.s3Key));
       
       // Stream the response to file
       const chunks: Uint8Array[] = [];
@@ -519,6 +520,20 @@ export class S3StorageService {
     }
   }
 
+  // Stream an archive object to a caller without staging it on disk
+  async streamArchive(s3Key: string): Promise<{ body: Readable; contentLength?: number }> {
+    const response = await this.s3Client.send(new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: s3Key
+    }));
+
+    if (!response.Body) {
+      throw new Error('Empty response body');
+    }
+
+    return { body: response.Body as Readable, contentLength: response.ContentLength };
+  }
+
   // Generate presigned URL for direct download
   async generateDownloadUrl(sessionId: string, expiresIn: number = 3600): Promise<string> {
     try {
@@ -588,6 +603,16 @@ export class S3StorageService {
     }
   }
 
+  // Delete one archive object by key, e.g. when its session is erased and the record is already gone
+  async deleteArchiveObject(s3Key: string): Promise<void> {
+    await this.s3Client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: s3Key
+    }));
+
+    this.logger.info("Archive object deleted", { s3Key });
+  }
+
   // Get object metadata
   async getArchiveMetadata(sessionId: string): Promise<any> {
     try {
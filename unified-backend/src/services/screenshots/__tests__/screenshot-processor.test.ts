@@ -0,0 +1,131 @@
+/**
+ * Screenshot Processor Tests
+ *
+ * Tests transcoding and thumbnail upload, perceptual-hash deduplication
+ * within a burst, and the local object store backend
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ScreenshotProcessorImpl, hammingDistance, parseImageDataUrl } from '../screenshot-processor';
+import { LocalObjectStore, ObjectStore } from '../../storage';
+
+// Encoding is sharp's job; the fake keeps the pipeline observable without the native binary.
+// "Images" are byte arrays whose first 72 bytes double as the 9x8 greyscale thumbnail.
+jest.mock('sharp', () => {
+  const fakeSharp = (input: Buffer) => {
+    const state = { resized: false, format: 'png' };
+    const chain: any = {
+      metadata: () => Promise.resolve({ width: 1280, height: 720 }),
+      greyscale: () => chain,
+      raw: () => chain,
+      resize: (width: any) => {
+        state.resized = typeof width === 'object';
+        return chain;
+      },
+      webp: () => {
+        state.format = 'webp';
+        return chain;
+      },
+      avif: () => {
+        state.format = 'avif';
+        return chain;
+      },
+      toBuffer: () => Promise.resolve(
+        state.format === 'png'
+          ? input.subarray(0, 72)
+          : Buffer.from(`${state.format}:${state.resized ? 'thumb' : 'full'}:${input.length}`)
+      )
+    };
+    return chain;
+  };
+  return { __esModule: true, default: fakeSharp };
+});
+
+const image = (seed: number) => Buffer.from(Array.from({ length: 200 }, (_, i) => (i * seed) % 251));
+const inverted = (buffer: Buffer) => Buffer.from(buffer.map(byte => 255 - byte));
+const toDataUrl = (buffer: Buffer) => `data:image/png;base64,${buffer.toString('base64')}`;
+
+describe('ScreenshotProcessor', () => {
+  let puts: Array<{ key: string; body: Buffer; contentType?: string }>;
+  let store: ObjectStore;
+  let processor: ScreenshotProcessorImpl;
+
+  beforeEach(() => {
+    puts = [];
+    store = {
+      backend: 'local',
+      put: jest.fn((key: string, body: Buffer, options: any = {}) => {
+        puts.push({ key, body, contentType: options.contentType });
+        return Promise.resolve({ key, size: body.length });
+      }),
+      get: jest.fn(),
+      exists: jest.fn(),
+      delete: jest.fn(),
+      getUrl: jest.fn()
+    };
+    processor = new ScreenshotProcessorImpl(store, { format: 'webp', quality: 80, thumbnailWidth: 320, dedupMaxDistance: 4 });
+  });
+
+  describe('🖼️ Transcoding', () => {
+    it('should upload the transcoded image and a thumbnail', async () => {
+      const result = await processor.process({ dataUrl: toDataUrl(image(7)), sessionId: 's1', eventType: 'click' });
+
+      expect(puts.map(put => put.body.toString())).toEqual(['webp:full:200', 'webp:thumb:200']);
+      expect(puts.every(put => put.contentType === 'image/webp')).toBe(true);
+      expect(result.s3Key).toMatch(/^screenshots\/s1\/.+-click\.webp$/);
+      expect(result.thumbnailKey).toMatch(/^screenshots\/s1\/thumbnails\/.+\.webp$/);
+      expect(result).toEqual(expect.objectContaining({ width: 1280, height: 720, originalSize: 200, compressedSize: 13 }));
+      expect(result.perceptualHash).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should reject malformed data URLs', async () => {
+      await expect(processor.process({ dataUrl: 'not-an-image', sessionId: 's1', eventType: 'click' }))
+        .rejects.toThrow('Invalid data URL format');
+      expect(parseImageDataUrl('data:image/png;base64,AAAA').imageType).toBe('png');
+    });
+  });
+
+  describe('🔁 Burst deduplication', () => {
+    it('should reuse the predecessor objects for a near-identical frame', async () => {
+      const first = await processor.process({ dataUrl: toDataUrl(image(7)), sessionId: 's1', eventType: 'burst' });
+      const predecessor = { id: 'shot-1', s3Key: first.s3Key, thumbnailKey: first.thumbnailKey, perceptualHash: first.perceptualHash, format: 'webp' };
+
+      const repeat = await processor.process({ dataUrl: toDataUrl(image(7)), sessionId: 's1', eventType: 'burst' }, predecessor);
+
+      expect(puts).toHaveLength(2);
+      expect(repeat).toEqual(expect.objectContaining({ s3Key: first.s3Key, duplicateOfId: 'shot-1', compressedSize: 0 }));
+    });
+
+    it('should upload frames that changed beyond the threshold', async () => {
+      const first = await processor.process({ dataUrl: toDataUrl(image(7)), sessionId: 's1', eventType: 'burst' });
+      const predecessor = { id: 'shot-1', s3Key: first.s3Key, thumbnailKey: first.thumbnailKey, perceptualHash: first.perceptualHash, format: 'webp' };
+
+      const changed = await processor.process({ dataUrl: toDataUrl(inverted(image(7))), sessionId: 's1', eventType: 'burst' }, predecessor);
+
+      expect(hammingDistance(first.perceptualHash, changed.perceptualHash)).toBeGreaterThan(4);
+      expect(changed.duplicateOfId).toBeUndefined();
+      expect(puts).toHaveLength(4);
+    });
+  });
+
+  describe('💾 Local object store', () => {
+    it('should round-trip objects and refuse keys outside its root', async () => {
+      const root = await fs.mkdtemp(path.join(os.tmpdir(), 'object-store-'));
+      const local = new LocalObjectStore(root);
+
+      try {
+        await local.put('screenshots/s1/a.webp', Buffer.from('img'));
+
+        expect((await local.get('screenshots/s1/a.webp')).toString()).toBe('img');
+        expect(await local.getUrl('screenshots/s1/a.webp')).toBe(`data:image/webp;base64,${Buffer.from('img').toString('base64')}`);
+        await local.delete('screenshots/s1/a.webp');
+        expect(await local.exists('screenshots/s1/a.webp')).toBe(false);
+        await expect(local.put('../escape.webp', Buffer.from('x'))).rejects.toThrow('Invalid object key');
+      } finally {
+        await fs.rm(root, { recursive: true, force: true });
+      }
+    });
+  });
+});
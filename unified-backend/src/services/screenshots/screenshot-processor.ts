@@ -0,0 +1,168 @@
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+import { ObjectStore } from '../storage';
+
+export type ScreenshotFormat = 'webp' | 'avif';
+
+export interface ScreenshotProcessorOptions {
+  format: ScreenshotFormat;
+  /** Encoder quality, 1-100 */
+  quality: number;
+  thumbnailWidth: number;
+  /** Frames in the same burst within this many differing hash bits are treated as duplicates */
+  dedupMaxDistance: number;
+}
+
+export interface ScreenshotInput {
+  dataUrl: string;
+  sessionId: string;
+  eventType: string;
+}
+
+/** The last stored frame of the same burst, used for deduplication */
+export interface BurstPredecessor {
+  id: string;
+  s3Key: string;
+  thumbnailKey: string | null;
+  perceptualHash: string;
+  format: string;
+}
+
+export interface ScreenshotProcessingResult {
+  s3Key: string;
+  thumbnailKey: string | null;
+  format: string;
+  width?: number;
+  height?: number;
+  perceptualHash: string;
+  originalSize: number;
+  /** Bytes written to the object store (0 for duplicates) */
+  compressedSize: number;
+  compressionRatio: number;
+  /** Set when the frame matched its burst predecessor and nothing was uploaded */
+  duplicateOfId?: string;
+}
+
+export interface ScreenshotProcessor {
+  process(input: ScreenshotInput, predecessor?: BurstPredecessor | null): Promise<ScreenshotProcessingResult>;
+}
+
+const CONTENT_TYPES: Record<ScreenshotFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif'
+};
+
+export function parseImageDataUrl(dataUrl: string): { imageType: string; buffer: Buffer } {
+  const matches = /^data:image\/([a-zA-Z+]*);base64,(.+)$/.exec(dataUrl || '');
+  if (!matches) {
+    throw new Error('Invalid data URL format');
+  }
+  return { imageType: matches[1], buffer: Buffer.from(matches[2], 'base64') };
+}
+
+/**
+ * Difference hash: shrink to 9x8 greyscale and record whether each pixel is
+ * brighter than its right neighbour. Visually identical frames (re-renders,
+ * cursor blinks, recompression) land within a few bits of each other.
+ */
+export async function computePerceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = BigInt(0);
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      hash = (hash << BigInt(1)) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? BigInt(1) : BigInt(0));
+    }
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > BigInt(0)) {
+    distance += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return distance;
+}
+
+/**
+ * Turns extension data URLs into stored images: transcodes to WebP/AVIF,
+ * renders a thumbnail and uploads both. Consecutive frames of a burst that
+ * look the same reuse the predecessor's objects instead of uploading again.
+ */
+export class ScreenshotProcessorImpl implements ScreenshotProcessor {
+  private logger: Logger;
+
+  constructor(private store: ObjectStore, private options: ScreenshotProcessorOptions) {
+    this.logger = new Logger('ScreenshotProcessor');
+  }
+
+  async process(input: ScreenshotInput, predecessor?: BurstPredecessor | null): Promise<ScreenshotProcessingResult> {
+    const { buffer } = parseImageDataUrl(input.dataUrl);
+    const [metadata, perceptualHash] = await Promise.all([
+      sharp(buffer).metadata(),
+      computePerceptualHash(buffer)
+    ]);
+
+    if (predecessor && hammingDistance(perceptualHash, predecessor.perceptualHash) <= this.options.dedupMaxDistance) {
+      this.logger.debug('Duplicate burst frame skipped', {
+        sessionId: input.sessionId,
+        duplicateOfId: predecessor.id
+      });
+
+      return {
+        s3Key: predecessor.s3Key,
+        thumbnailKey: predecessor.thumbnailKey,
+        format: predecessor.format,
+        width: metadata.width,
+        height: metadata.height,
+        perceptualHash,
+        originalSize: buffer.length,
+        compressedSize: 0,
+        compressionRatio: 0,
+        duplicateOfId: predecessor.id
+      };
+    }
+
+    const { format, quality, thumbnailWidth } = this.options;
+    const encode = (image: sharp.Sharp) => format === 'avif' ? image.avif({ quality }) : image.webp({ quality });
+
+    const [compressed, thumbnail] = await Promise.all([
+      encode(sharp(buffer)).toBuffer(),
+      encode(sharp(buffer).resize({ width: thumbnailWidth, withoutEnlargement: true })).toBuffer()
+    ]);
+
+    const objectId = `${Date.now()}-${uuidv4()}`;
+    const safeEventType = (input.eventType || 'auto-capture').replace(/[^a-zA-Z0-9_-]/g, '_');
+    const s3Key = `screenshots/${input.sessionId}/${objectId}-${safeEventType}.${format}`;
+    const thumbnailKey = `screenshots/${input.sessionId}/thumbnails/${objectId}.${format}`;
+    const uploadOptions = {
+      contentType: CONTENT_TYPES[format],
+      metadata: { sessionId: input.sessionId, perceptualHash }
+    };
+
+    await Promise.all([
+      this.store.put(s3Key, compressed, uploadOptions),
+      this.store.put(thumbnailKey, thumbnail, uploadOptions)
+    ]);
+
+    return {
+      s3Key,
+      thumbnailKey,
+      format,
+      width: metadata.width,
+      height: metadata.height,
+      perceptualHash,
+      originalSize: buffer.length,
+      compressedSize: compressed.length,
+      compressionRatio: buffer.length > 0 ? compressed.length / buffer.length : 0
+    };
+  }
+}
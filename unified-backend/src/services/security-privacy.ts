@@ -1,8 +1,10 @@
 import { PrismaClient } from "@prisma/client";
 import { prisma } from "../lib/database";
 import { Logger } from "../utils/logger";
+import { ApiKeyManager, ApiKeyManagerImpl, isApiKeyRole } from "./auth/api-key-manager";
 import * as crypto from 'crypto';
-import * as bcrypt from 'bcryptjs';
+import { PIIType, detectPII } from "./privacy/pii-detectors";
+import { ENCRYPTION_KEY_BYTES, FieldCipher, KeyRing, getFieldCipher, keyIdFor } from "./encryption";
 
 interface PIIDetectionResult {
   hasPII: boolean;
@@ -11,12 +13,6 @@ interface PIIDetectionResult {
   confidence: number;
 }
 
-interface EncryptionConfig {
-  algorithm: string;
-  keyLength: number;
-  ivLength: number;
-}
-
 interface AccessControlConfig {
   requireAuth: boolean;
   allowedRoles: string[];
@@ -38,28 +34,43 @@ interface PrivacyAuditLog {
   details: any;
 }
 
+const PII_FIELD_NAMES = new Set([
+  'email', 'emailaddress', 'phone', 'phonenumber', 'mobile', 'telephone',
+  'ssn', 'socialsecuritynumber', 'creditcard', 'creditcardnumber', 'cardnumber', 'ccnumber',
+  'name', 'fullname', 'firstname', 'lastname', 'givenname', 'familyname', 'surname',
+  'address', 'streetaddress', 'addressline1', 'addressline2', 'street', 'city',
+  'zip', 'zipcode', 'postalcode', 'postcode', 'birthdate', 'dateofbirth', 'dob', 'age'
+]);
+
+// Detector types under the names detectAndMaskPII has always reported
+const LEGACY_PII_TYPES: Record<PIIType, string> = {
+  email: 'email',
+  phone: 'phone',
+  card: 'creditCard',
+  address: 'address',
+  name: 'name',
+  ssn: 'ssn'
+};
+
 export class SecurityPrivacyService {
   private prisma: PrismaClient;
   private logger: Logger;
-  private encryptionConfig: EncryptionConfig;
-  private encryptionKey: Buffer;
+  private cipher: FieldCipher;
+  private apiKeyManager: ApiKeyManager;
 
   constructor() {
     this.prisma = prisma;
+    this.apiKeyManager = new ApiKeyManagerImpl(prisma);
     this.logger = new Logger("SecurityPrivacy");
-    
-    this.encryptionConfig = {
-      algorithm: 'aes-256-gcm',
-      keyLength: 32,
-      ivLength: 16
-    };
-
-    // Initialize encryption key from environment or generate
-    const keyString = process.env.ENCRYPTION_KEY;
-    if (keyString) {
-      this.encryptionKey = Buffer.from(keyString, 'hex');
+
+
+    // Same key ring as the encrypted columns; only outside production can it be missing
+    const fieldCipher = getFieldCipher();
+    if (fieldCipher) {
+      this.cipher = fieldCipher;
     } else {
-      this.encryptionKey = crypto.randomBytes(this.encryptionConfig.keyLength);
+      const key = crypto.randomBytes(ENCRYPTION_KEY_BYTES);
+      this.cipher = new FieldCipher(new KeyRing({ id: keyIdFor(key), key }));
       this.logger.warn("No encryption key provided, generated temporary key");
     }
   }
@@ -75,7 +86,7 @@ export class SecurityPrivacyService {
       };
 
       // Recursively scan and mask data
-      this.scanForPII(result.maskedData, result);
+      result.maskedData = this.scanForPII(result.maskedData, result);
 
       this.logger.debug("PII detection completed", {
         hasPII: result.hasPII,
@@ -96,66 +107,58 @@ export class SecurityPrivacyService {
     }
   }
 
-  private scanForPII(obj: any, result: PIIDetectionResult, path: string = ''): void {
-    if (typeof obj === 'string') {
-      this.detectPIIInString(obj, result, path);
-    } else if (Array.isArray(obj)) {
-      obj.forEach((item, index) => {
-        this.scanForPII(item, result, `${path}[${index}]`);
-      });
-    } else if (obj && typeof obj === 'object') {
-      Object.keys(obj).forEach(key => {
+  private scanForPII(value: any, result: PIIDetectionResult, path: string = ''): any {
+    if (typeof value === 'string') {
+      return this.maskPIIInString(value, result, path);
+    } else if (Array.isArray(value)) {
+      return value.map((item, index) => this.scanForPII(item, result, `${path}[${index}]`));
+    } else if (value && typeof value === 'object') {
+      Object.keys(value).forEach(key => {
         const newPath = path ? `${path}.${key}` : key;
         
         // Check key names for PII indicators
         if (this.isPIIField(key)) {
-          const maskedValue = this.maskPIIValue(obj[key], this.getPIIType(key));
-          if (maskedValue !== obj[key]) {
-            obj[key] = maskedValue;
-            result.hasPII = true;
-            const piiType = this.getPIIType(key);
-            if (!result.detectedTypes.includes(piiType)) {
-              result.detectedTypes.push(piiType);
-            }
+          const piiType = this.getPIIType(key);
+          const maskedValue = this.maskPIIValue(value[key], piiType);
+          if (maskedValue !== value[key]) {
+            value[key] = maskedValue;
+            this.recordPII(result, piiType, 0.9);
+            return;
           }
         }
         
-        this.scanForPII(obj[key], result, newPath);
+        value[key] = this.scanForPII(value[key], result, newPath);
       });
     }
+    return value;
   }
 
-  private detectPIIInString(text: string, result: PIIDetectionResult, path: string): void {
-    if (!text || typeof text !== 'string') return;
-
-    const patterns = {
-      email: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g,
-      phone: /(\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})/g,
-      ssn: /\b\d{3}-?\d{2}-?\d{4}\b/g,
-      creditCard: /\b(?:\d{4}[-\s]?){3}\d{4}\b/g,
-      ipAddress: /\b(?:[0-9]{1,3}\.){3}[0-9]{1,3}\b/g
-    };
-
-    Object.entries(patterns).forEach(([type, pattern]) => {
-      if (pattern.test(text)) {
-        result.hasPII = true;
-        if (!result.detectedTypes.includes(type)) {
-          result.detectedTypes.push(type);
-        }
-        result.confidence = Math.max(result.confidence, 0.8);
-      }
-    });
+  // Masks each detected span of free text, e.g. the address in "Call me at (555) 987-6543"
+  private maskPIIInString(text: string, result: PIIDetectionResult, path: string): string {
+    if (!text) return text;
+
+    let masked = '';
+    let cursor = 0;
+    for (const match of detectPII(text, { path })) {
+      const piiType = LEGACY_PII_TYPES[match.type];
+      masked += text.slice(cursor, match.start) + this.maskPIIValue(match.value, piiType);
+      cursor = match.end;
+      this.recordPII(result, piiType, 0.8);
+    }
+    return masked + text.slice(cursor);
   }
 
-  private isPIIField(fieldName: string): boolean {
-    const piiFields = [
-      'email', 'phone', 'ssn', 'social', 'credit', 'card',
-      'name', 'firstname', 'lastname', 'address', 'street',
-      'city', 'zip', 'postal', 'birth', 'age', 'dob'
-    ];
+  private recordPII(result: PIIDetectionResult, piiType: string, confidence: number): void {
+    result.hasPII = true;
+    if (!result.detectedTypes.includes(piiType)) {
+      result.detectedTypes.push(piiType);
+    }
+    result.confidence = Math.max(result.confidence, confidence);
+  }
 
-    const lowerField = fieldName.toLowerCase();
-    return piiFields.some(pii => lowerField.includes(pii));
+  // Whole key names only, so productName or cardTitle are not taken for personal data
+  private isPIIField(fieldName: string): boolean {
+    return PII_FIELD_NAMES.has(fieldName.toLowerCase().replace(/[^a-z0-9]/g, ''));
   }
 
   private getPIIType(fieldName: string): string {
@@ -240,18 +243,7 @@ export class SecurityPrivacyService {
   // Data Encryption
   async encryptData(data: any): Promise<string> {
     try {
-      const jsonString = JSON.stringify(data);
-      const iv = crypto.randomBytes(this.encryptionConfig.ivLength);
-      
-      const cipher = crypto.createCipheriv(this.encryptionConfig.algorithm, this.encryptionKey, iv);
-      
-      let encrypted = cipher.update(jsonString, 'utf8', 'hex');
-      encrypted += cipher.final('hex');
-      
-      // Combine IV and encrypted data
-      const result = iv.toString('hex') + ':' + encrypted;
-      
-      return result;
+      return this.cipher.encrypt(JSON.stringify(data));
 
     } catch (error) {
       this.logger.error("Data encryption failed", error);
@@ -261,20 +253,11 @@ export class SecurityPrivacyService {
 
   async decryptData(encryptedData: string): Promise<any> {
     try {
-      const parts = encryptedData.split(':');
-      if (parts.length !== 2) {
+      if (!this.cipher.isEncrypted(encryptedData)) {
         throw new Error("Invalid encrypted data format");
       }
 
-      const iv = Buffer.from(parts[0], 'hex');
-      const encrypted = parts[1];
-
-      const decipher = crypto.createDecipheriv(this.encryptionConfig.algorithm, this.encryptionKey, iv);
-
-      let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-      decrypted += decipher.final('utf8');
-
-      return JSON.parse(decrypted);
+      return JSON.parse(this.cipher.decrypt(encryptedData));
 
     } catch (error) {
       this.logger.error("Data decryption failed", error);
@@ -282,28 +265,20 @@ export class SecurityPrivacyService {
     }
   }
 
-  // Access Control
+  // Access Control (keys live in the api_keys table, see ApiKeyManager)
   async validateApiKey(apiKey: string): Promise<{ isValid: boolean; userId?: string; roles?: string[] }> {
     try {
       if (!apiKey) {
         return { isValid: false };
       }
 
-      // Hash the API key for comparison
-      const hashedKey = await bcrypt.hash(apiKey, 10);
-
-      // In a real implementation, you'd check against a database
-      // For now, we'll use environment variables
-      const validKeys = process.env.VALID_API_KEYS?.split(',') || [];
-      
-      for (const validKey of validKeys) {
-        if (await bcrypt.compare(apiKey, validKey)) {
-          return {
-            isValid: true,
-            userId: 'system',
-            roles: ['user']
-          };
-        }
+      const principal = await this.apiKeyManager.validateKey(apiKey);
+      if (principal) {
+        return {
+          isValid: true,
+          userId: `api-key:${principal.keyId}`,
+          roles: [principal.role]
+        };
       }
 
       // Log failed authentication attempt
@@ -320,34 +295,20 @@ export class SecurityPrivacyService {
     }
   }
 
-  async generateApiKey(userId: string, roles: string[] = ['user']): Promise<string> {
+  async generateApiKey(userId: string, roles: string[] = ['extension']): Promise<string> {
     try {
-      // Generate a secure random API key
-      const keyBytes = crypto.randomBytes(32);
-      const apiKey = keyBytes.toString('hex');
+      // Keys carry a single role; fall back to the least privileged one
+      const role = roles.find(isApiKeyRole) ?? 'extension';
 
-      // Hash for storage
-      const hashedKey = await bcrypt.hash(apiKey, 12);
-
-      // Store in database (in a real implementation)
-      await this.prisma.systemConfig.create({
-        data: {
-          key: `api_key_${userId}`,
-          value: {
-            hashedKey,
-            userId,
-            roles,
-            createdAt: new Date(),
-            lastUsed: null
-          } as any,
-          description: `API key for user ${userId}`,
-          category: 'security'
-        }
+      const { apiKey } = await this.apiKeyManager.createKey({
+        name: `API key for user ${userId}`,
+        role,
+        createdBy: userId
       });
 
       await this.logSecurityEvent('api_key_generated', {
         userId,
-        roles,
+        roles: [role],
         timestamp: new Date()
       });
 
@@ -360,6 +321,10 @@ export class SecurityPrivacyService {
   }
 
   // Privacy Compliance
+  /**
+   * @deprecated Only covers sessions keyed on workerId and skips analysis rows,
+   * object storage and the world model; use DataSubjectRequestService (services/privacy)
+   */
   async processDataDeletionRequest(userId: string, dataTypes: string[] = ['all']): Promise<void> {
     try {
       this.logger.info("Processing data deletion request", { userId, dataTypes });
@@ -424,6 +389,7 @@ export class SecurityPrivacyService {
     }
   }
 
+  /** @deprecated Use DataSubjectRequestService (services/privacy), which builds a full export bundle */
   async generateDataExport(userId: string): Promise<any> {
     try {
       this.logger.info("Generating data export", { userId });
@@ -1,10 +1,17 @@
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, SessionArchive } from "@prisma/client";
 import { Logger } from "../utils/logger";
 import { S3StorageService } from "./s3-storage";
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from "./interactions/enhanced-interaction-store";
+import { BurstPredecessor, ScreenshotProcessingResult, ScreenshotProcessor, ScreenshotProcessorImpl } from "./screenshots/screenshot-processor";
+import { getObjectStore } from "./storage";
+import { getConfig } from "../utils/env-validator";
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import * as crypto from 'crypto';
-import archiver from 'archiver';
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import { ArchiveNotFoundError } from './archives/archive-errors';
+import { ArchiveFormat, ArchiveManifest, archiveFileName, archiveJsonReplacer } from './archives/archive-manifest';
+import { ArchiveEntry, writeArchive } from './archives/archive-writer';
 
 export interface SessionArchiveData {
   sessionId: string;
@@ -16,32 +23,31 @@ export interface SessionArchiveData {
   trainingData?: any;
 }
 
-export interface ArchiveManifest {
-  version: string;
-  sessionId: string;
-  createdAt: Date;
-  files: FileManifestEntry[];
-  checksums: Record<string, string>;
-  compression: CompressionInfo;
-  totalSize: number;
-  compressedSize: number;
-}
-
-export interface FileManifestEntry {
-  filename: string;
-  originalSize: number;
-  compressedSize: number;
-  checksum: string;
-  mimeType: string;
-  lastModified: Date;
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/webp': '.webp',
+  'image/avif': '.avif'
+};
+
+function decodeDataUrl(dataUrl: string): Buffer {
+  const comma = dataUrl.indexOf(',');
+  if (comma < 0) {
+    throw new Error('Malformed data URL');
+  }
+  const data = dataUrl.slice(comma + 1);
+  return dataUrl.slice(0, comma).endsWith(';base64') ? Buffer.from(data, 'base64') : Buffer.from(decodeURIComponent(data));
 }
 
-export interface CompressionInfo {
-  algorithm: string;
-  level: number;
-  ratio: number;
-  method: string;
-}
+export {
+  ARCHIVE_MANIFEST_FILENAME,
+  ARCHIVE_MANIFEST_VERSION,
+  ArchiveFormat,
+  ArchiveManifest,
+  CompressionInfo,
+  FileManifestEntry,
+  archiveJsonReplacer
+} from './archives/archive-manifest';
 
 export interface ArchiveResult {
   archiveId: string;
@@ -58,19 +64,36 @@ export class StorageManager {
   private prisma: PrismaClient;
   private logger: Logger;
   private s3Storage: S3StorageService;
+  private interactionStore: EnhancedInteractionStore;
+  private screenshotProcessor: ScreenshotProcessor;
   private tempDir: string;
   private archiveDir: string;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, screenshotProcessor?: ScreenshotProcessor) {
     this.prisma = prisma;
     this.logger = new Logger("StorageManager");
     this.s3Storage = new S3StorageService(prisma);
+    this.interactionStore = new EnhancedInteractionStoreImpl(prisma);
+    this.screenshotProcessor = screenshotProcessor || StorageManager.createScreenshotProcessor();
     this.tempDir = process.env.TEMP_DIR || '/tmp/codesight';
     this.archiveDir = process.env.ARCHIVE_DIR || '/tmp/codesight/archives';
     
     this.ensureDirectories();
   }
 
+  private static createScreenshotProcessor(): ScreenshotProcessor {
+    const config = getConfig();
+    const quality = config.screenshotCompressionQuality;
+
+    return new ScreenshotProcessorImpl(getObjectStore(), {
+      format: config.screenshotFormat,
+      // SCREENSHOT_COMPRESSION_QUALITY has always been documented as a 0-1 fraction
+      quality: Math.round(quality <= 1 ? quality * 100 : quality),
+      thumbnailWidth: config.screenshotThumbnailWidth,
+      dedupMaxDistance: config.screenshotDedupMaxDistance
+    });
+  }
+
   private async ensureDirectories(): Promise<void> {
     try {
       await fs.mkdir(this.tempDir, { recursive: true });
@@ -81,59 +104,46 @@ export class StorageManager {
   }
 
   // Main method to create session archive
-  async createSessionArchive(sessionId: string): Promise<ArchiveResult> {
+  async createSessionArchive(sessionId: string, options: { format?: ArchiveFormat } = {}): Promise<ArchiveResult> {
+    const format = options.format || getConfig().archiveFormat;
+
     try {
-      this.logger.info("Starting session archive creation", { sessionId });
+      this.logger.info("Starting session archive creation", { sessionId, format });
 
       // Get session data
       const sessionData = await this.gatherSessionData(sessionId);
-      
-      // Create temporary directory for this archive
-      const tempArchiveDir = path.join(this.tempDir, `archive-${sessionId}-${Date.now()}`);
-      await fs.mkdir(tempArchiveDir, { recursive: true });
-
-      // Prepare files for archiving
-      const preparedFiles = await this.prepareArchiveFiles(sessionData, tempArchiveDir);
-
-      // Create archive
-      const archivePath = path.join(this.archiveDir, `session-${sessionId}.zip`);
-      const manifest = await this.createZipArchive(preparedFiles, archivePath, sessionData);
-
-      // Calculate checksum
-      const checksum = await this.calculateFileChecksum(archivePath);
 
-      // Get file stats
-      const stats = await fs.stat(archivePath);
-      const compressionRatio = manifest.compressedSize / manifest.totalSize;
+      // Stream entries straight into the archive; images are fetched one at a time
+      await fs.mkdir(this.archiveDir, { recursive: true });
+      const archivePath = path.join(this.archiveDir, archiveFileName(sessionId, format));
+      const { manifest, checksum, fileSize } = await writeArchive(this.buildArchiveEntries(sessionData), archivePath, { sessionId, format });
+      const compressionRatio = manifest.compression.ratio;
 
       // Save archive record to database
-      const archiveRecord = await this.saveArchiveRecord(sessionId, manifest, archivePath, checksum);
+      const archiveRecord = await this.saveArchiveRecord(sessionId, manifest, fileSize, checksum);
 
       // Upload to S3 if configured
       let s3Key: string | undefined;
       if (process.env.AWS_S3_BUCKET) {
         try {
           s3Key = await this.s3Storage.uploadArchive(archivePath, sessionId);
-          
-          // Update archive record with S3 key
-          await this.prisma.sessionArchive.update({
-            where: { id: archiveRecord.id },
-            data: { s3Key }
-          });
         } catch (s3Error) {
           this.logger.warn("S3 upload failed, archive saved locally", { sessionId, error: s3Error });
         }
       }
 
-      // Cleanup temp directory
-      await this.cleanupTempDirectory(tempArchiveDir);
+      // Archive is usable from here on; retention relies on COMPLETED before purging raw data
+      await this.prisma.sessionArchive.update({
+        where: { id: archiveRecord.id },
+        data: { status: 'COMPLETED', ...(s3Key ? { s3Key } : {}) }
+      });
 
       const result: ArchiveResult = {
         archiveId: archiveRecord.id,
         sessionId,
         archivePath,
         s3Key,
-        fileSize: stats.size,
+        fileSize,
         compressionRatio,
         manifest,
         checksum
@@ -142,6 +152,7 @@ export class StorageManager {
       this.logger.info("Session archive created successfully", {
         sessionId,
         archiveId: result.archiveId,
+        format,
         fileSize: result.fileSize,
         compressionRatio: result.compressionRatio
       });
@@ -163,7 +174,7 @@ export class StorageManager {
     });
 
     if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
+      throw new ArchiveNotFoundError(`Session ${sessionId} not found`);
     }
 
     // Get additional data
@@ -173,27 +184,19 @@ export class StorageManager {
       this.prisma.trainingData.findFirst({ where: { sessionId } })
     ]);
 
-    // Use enhanced interactions from JSON field for archiving
-    const enhancedInteractions = Array.isArray(session.enhancedInteractions) 
-      ? session.enhancedInteractions as any[]
-      : [];
+    // Use enhanced interactions (rows plus any legacy JSON) for archiving
+    const { enhancedInteractions } = await this.interactionStore.hydrate(session);
+
+    const { screenshots, ...sessionRow } = session;
 
     return {
       sessionId,
       interactions: enhancedInteractions, // Use enhanced JSON interactions
-      screenshots: session.screenshots,
+      screenshots,
       metadata: {
-        session: {
-          id: session.id,
-          type: session.type,
-          status: session.status,
-          startTime: session.startTime,
-          endTime: session.endTime,
-          duration: session.duration,
-          qualityScore: session.qualityScore,
-          completeness: session.completeness,
-          reliability: session.reliability
-        }
+        // Every column, so a restore can rebuild the session; interactions live in interactions.json
+        session: { ...sessionRow, enhancedInteractions: undefined },
+        trainingData: trainingData ? { ...trainingData, jsonlData: undefined } : null
       },
       psychologyProfile,
       contextEnhancement,
@@ -201,116 +204,109 @@ export class StorageManager {
     };
   }
 
-  private async prepareArchiveFiles(sessionData: SessionArchiveData, tempDir: string): Promise<FileManifestEntry[]> {
-    const files: FileManifestEntry[] = [];
-
-    // Save interactions data
-    const interactionsPath = path.join(tempDir, 'interactions.json');
-    const interactionsData = JSON.stringify(sessionData.interactions, null, 2);
-    await fs.writeFile(interactionsPath, interactionsData);
-    files.push(await this.createFileManifestEntry(interactionsPath, 'interactions.json'));
+  private buildArchiveEntries(sessionData: SessionArchiveData): ArchiveEntry[] {
+    const json = (name: string, value: unknown): ArchiveEntry => ({
+      name,
+      mimeType: this.getMimeType(name),
+      load: async () => Buffer.from(JSON.stringify(value, archiveJsonReplacer, 2))
+    });
 
-    // Save metadata
-    const metadataPath = path.join(tempDir, 'metadata.json');
-    const metadataData = JSON.stringify(sessionData.metadata, null, 2);
-    await fs.writeFile(metadataPath, metadataData);
-    files.push(await this.createFileManifestEntry(metadataPath, 'metadata.json'));
+    const entries = [
+      json('interactions.json', sessionData.interactions),
+      json('metadata.json', sessionData.metadata)
+    ];
 
-    // Save psychology profile if available
     if (sessionData.psychologyProfile) {
-      const psychologyPath = path.join(tempDir, 'psychology-profile.json');
-      const psychologyData = JSON.stringify(sessionData.psychologyProfile, null, 2);
-      await fs.writeFile(psychologyPath, psychologyData);
-      files.push(await this.createFileManifestEntry(psychologyPath, 'psychology-profile.json'));
+      entries.push(json('psychology-profile.json', sessionData.psychologyProfile));
     }
 
-    // Save context enhancement if available
     if (sessionData.contextEnhancement) {
-      const contextPath = path.join(tempDir, 'context-enhancement.json');
-      const contextData = JSON.stringify(sessionData.contextEnhancement, null, 2);
-      await fs.writeFile(contextPath, contextData);
-      files.push(await this.createFileManifestEntry(contextPath, 'context-enhancement.json'));
+      entries.push(json('context-enhancement.json', sessionData.contextEnhancement));
     }
 
-    // Save training data if available
     if (sessionData.trainingData) {
-      const trainingPath = path.join(tempDir, 'training-data.jsonl');
-      await fs.writeFile(trainingPath, sessionData.trainingData.jsonlData || '');
-      files.push(await this.createFileManifestEntry(trainingPath, 'training-data.jsonl'));
+      entries.push({
+        name: 'training-data.jsonl',
+        mimeType: this.getMimeType('training-data.jsonl'),
+        load: async () => Buffer.from(sessionData.trainingData.jsonlData || '')
+      });
     }
 
-    // Handle screenshots (save references, actual images handled separately)
     if (sessionData.screenshots.length > 0) {
-      const screenshotsPath = path.join(tempDir, 'screenshots.json');
-      const screenshotsData = JSON.stringify(sessionData.screenshots, null, 2);
-      await fs.writeFile(screenshotsPath, screenshotsData);
-      files.push(await this.createFileManifestEntry(screenshotsPath, 'screenshots.json'));
+      entries.push(...this.buildScreenshotEntries(sessionData.screenshots));
     }
 
-    return files;
+    return entries;
   }
 
-  private async createFileManifestEntry(filePath: string, filename: string): Promise<FileManifestEntry> {
-    const stats = await fs.stat(filePath);
-    const checksum = await this.calculateFileChecksum(filePath);
-
-    return {
-      filename,
-      originalSize: stats.size,
-      compressedSize: stats.size, // Will be updated after compression
-      checksum,
-      mimeType: this.getMimeType(filename),
-      lastModified: stats.mtime
+  /**
+   * One entry per stored image (burst duplicates share theirs), then
+   * screenshots.json with each row pointing at its imageFile and
+   * thumbnailFile. Rows are written last so they only reference images that
+   * could be fetched; inline data URLs travel as files instead of twice.
+   */
+  private buildScreenshotEntries(screenshots: any[]): ArchiveEntry[] {
+    const images = new Map<string, ArchiveEntry>();
+    const written = new Set<string>();
+    const files = new Map<string, { imageFile?: string; thumbnailFile?: string }>();
+
+    const addImage = (source: string, name: string, load: () => Promise<Buffer>): string => {
+      if (!images.has(source)) {
+        images.set(source, {
+          name,
+          mimeType: this.getMimeType(name),
+          load: async () => {
+            try {
+              const data = await load();
+              written.add(name);
+              return data;
+            } catch (error) {
+              this.logger.warn("Screenshot image left out of archive", { name, error });
+              return null;
+            }
+          }
+        });
+      }
+      return images.get(source)!.name;
     };
-  }
-
-  private async createZipArchive(files: FileManifestEntry[], archivePath: string, sessionData: SessionArchiveData): Promise<ArchiveManifest> {
-    return new Promise((resolve, reject) => {
-      const output = require('fs').createWriteStream(archivePath);
-      const archive = archiver('zip', { zlib: { level: 9 } });
-
-      let totalOriginalSize = 0;
-      let totalCompressedSize = 0;
-
-      output.on('close', () => {
-        const manifest: ArchiveManifest = {
-          version: '1.0',
-          sessionId: sessionData.sessionId,
-          createdAt: new Date(),
-          files: files.map(f => ({ ...f, compressedSize: f.originalSize * 0.7 })), // Estimate compression
-          checksums: files.reduce((acc, f) => ({ ...acc, [f.filename]: f.checksum }), {}),
-          compression: {
-            algorithm: 'zip',
-            level: 9,
-            ratio: totalCompressedSize / totalOriginalSize || 0.7,
-            method: 'deflate'
-          },
-          totalSize: totalOriginalSize,
-          compressedSize: archive.pointer()
-        };
 
-        resolve(manifest);
-      });
+    for (const screenshot of screenshots) {
+      const refs: { imageFile?: string; thumbnailFile?: string } = {};
+      const extension = `.${screenshot.format || 'png'}`;
+
+      if (screenshot.s3Key) {
+        refs.imageFile = addImage(screenshot.s3Key, `screenshots/${screenshot.id}${path.extname(screenshot.s3Key) || extension}`,
+          () => getObjectStore().get(screenshot.s3Key));
+      } else if (screenshot.dataUrl) {
+        const mimeType = /^data:([^;,]+)/.exec(screenshot.dataUrl)?.[1];
+        refs.imageFile = addImage(`inline:${screenshot.id}`, `screenshots/${screenshot.id}${IMAGE_EXTENSIONS[mimeType || ''] || extension}`,
+          async () => decodeDataUrl(screenshot.dataUrl));
+      }
 
-      archive.on('error', reject);
-      archive.pipe(output);
+      if (screenshot.thumbnailKey) {
+        refs.thumbnailFile = addImage(screenshot.thumbnailKey, `screenshots/${screenshot.id}.thumbnail${path.extname(screenshot.thumbnailKey) || extension}`,
+          () => getObjectStore().get(screenshot.thumbnailKey));
+      }
 
-      // Add files to archive
-      files.forEach(file => {
-        const filePath = path.join(path.dirname(archivePath), '..', 'temp', file.filename);
-        archive.file(filePath, { name: file.filename });
-        totalOriginalSize += file.originalSize;
-      });
+      files.set(screenshot.id, refs);
+    }
 
-      archive.finalize();
-    });
-  }
+    const rows: ArchiveEntry = {
+      name: 'screenshots.json',
+      mimeType: 'application/json',
+      load: async () => Buffer.from(JSON.stringify(screenshots.map(screenshot => {
+        const { imageFile, thumbnailFile } = files.get(screenshot.id)!;
+        const hasImage = !!imageFile && written.has(imageFile);
+        return {
+          ...screenshot,
+          dataUrl: hasImage && !screenshot.s3Key ? undefined : screenshot.dataUrl,
+          imageFile: hasImage ? imageFile : undefined,
+          thumbnailFile: thumbnailFile && written.has(thumbnailFile) ? thumbnailFile : undefined
+        };
+      }), archiveJsonReplacer, 2))
+    };
 
-  private async calculateFileChecksum(filePath: string): Promise<string> {
-    const hash = crypto.createHash('sha256');
-    const data = await fs.readFile(filePath);
-    hash.update(data);
-    return hash.digest('hex');
+    return [...images.values(), rows];
   }
 
   private getMimeType(filename: string): string {
@@ -322,30 +318,21 @@ export class StorageManager {
       '.png': 'image/png',
       '.jpg': 'image/jpeg',
       '.jpeg': 'image/jpeg',
-      '.webp': 'image/webp'
+      '.webp': 'image/webp',
+      '.avif': 'image/avif'
     };
     return mimeTypes[ext] || 'application/octet-stream';
   }
 
-  private async cleanupTempDirectory(tempDir: string): Promise<void> {
-    try {
-      await fs.rm(tempDir, { recursive: true, force: true });
-    } catch (error) {
-      this.logger.error("Failed to cleanup temp directory", { tempDir, error });
-    }
-  }
-
-  private async saveArchiveRecord(sessionId: string, manifest: ArchiveManifest, archivePath: string, checksum: string): Promise<any> {
-    const stats = await fs.stat(archivePath);
-
+  private async saveArchiveRecord(sessionId: string, manifest: ArchiveManifest, fileSize: number, checksum: string): Promise<any> {
     return await this.prisma.sessionArchive.create({
       data: {
         sessionId,
         version: manifest.version,
-        format: 'zip',
+        format: manifest.format || 'zip',
         s3Bucket: process.env.AWS_S3_BUCKET || '',
         s3Key: '', // Will be updated after S3 upload
-        fileSize: BigInt(stats.size),
+        fileSize: BigInt(fileSize),
         checksum,
         manifest: manifest as any,
         compressionRatio: manifest.compression.ratio,
@@ -355,30 +342,31 @@ export class StorageManager {
   }
 
   // Screenshot compression and upload
-  async compressAndUploadScreenshot(dataUrl: string, sessionId: string, eventType: string): Promise<any> {
+  /**
+   * Transcode a data-URL screenshot, upload it with a thumbnail and return
+   * the stored keys. Frames that repeat the previous frame of their burst
+   * reuse its objects.
+   */
+  async compressAndUploadScreenshot(
+    dataUrl: string,
+    sessionId: string,
+    eventType: string,
+    options: { burstId?: string | null } = {}
+  ): Promise<ScreenshotProcessingResult> {
     try {
-      // Extract image data from data URL
-      const matches = dataUrl.match(/^data:image\/([a-zA-Z]*);base64,(.+)$/);
-      if (!matches) {
-        throw new Error('Invalid data URL format');
-      }
+      const predecessor = options.burstId ? await this.findBurstPredecessor(sessionId, options.burstId) : null;
 
-      const [, imageType, base64Data] = matches;
-      const imageBuffer = Buffer.from(base64Data, 'base64');
+      const result = await this.screenshotProcessor.process({ dataUrl, sessionId, eventType }, predecessor);
 
-      // For now, we'll simulate compression (in real implementation, use Sharp or similar)
-      // const compressedBuffer = await sharp(imageBuffer).webp({ quality: 80 }).toBuffer();
-      const compressedSize = Math.round(imageBuffer.length * 0.7); // Simulate 30% compression
-      const safeEventType = eventType || 'auto-capture';
-      const s3Key = `screenshots/${sessionId}/${Date.now()}-${safeEventType}.webp`;
+      this.logger.info("Screenshot stored", {
+        sessionId,
+        s3Key: result.s3Key,
+        originalSize: result.originalSize,
+        compressedSize: result.compressedSize,
+        duplicateOfId: result.duplicateOfId
+      });
 
-      return {
-        s3Key,
-        originalSize: imageBuffer.length,
-        compressedSize,
-        format: 'webp',
-        compressionRatio: compressedSize / imageBuffer.length
-      };
+      return result;
 
     } catch (error) {
       this.logger.error("Screenshot compression failed", { sessionId, eventType, error });
@@ -386,6 +374,83 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Move screenshots still stored inline as data URLs into object storage
+   * and clear the data URL once the object key is recorded
+   * @param limit - Maximum screenshots to process in this pass
+   */
+  async offloadInlineScreenshots(limit: number = 100): Promise<{ offloaded: number; cleared: number; failed: number }> {
+    // Rows that already have an object key only need the inline copy dropped
+    const { count: cleared } = await this.prisma.screenshot.updateMany({
+      where: { s3Key: { not: null }, dataUrl: { not: null } },
+      data: { dataUrl: null }
+    });
+
+    const pending = await this.prisma.screenshot.findMany({
+      where: { s3Key: null, dataUrl: { not: null } },
+      orderBy: [{ sessionId: 'asc' }, { timestamp: 'asc' }],
+      take: limit,
+      select: { id: true, sessionId: true, eventType: true, burstId: true, dataUrl: true }
+    });
+
+    let offloaded = 0;
+    let failed = 0;
+
+    for (const screenshot of pending) {
+      try {
+        const result = await this.compressAndUploadScreenshot(screenshot.dataUrl!, screenshot.sessionId, screenshot.eventType, {
+          burstId: screenshot.burstId
+        });
+        await this.prisma.screenshot.update({
+          where: { id: screenshot.id },
+          data: this.toScreenshotFields(result)
+        });
+        offloaded++;
+      } catch (error) {
+        failed++;
+        this.logger.warn("Failed to offload inline screenshot", { screenshotId: screenshot.id, error });
+      }
+    }
+
+    return { offloaded, cleared, failed };
+  }
+
+  /**
+   * Screenshot columns to write for a processing result; the inline data URL
+   * is always cleared because the image now lives in object storage
+   */
+  toScreenshotFields(result: ScreenshotProcessingResult) {
+    return {
+      s3Key: result.s3Key,
+      thumbnailKey: result.thumbnailKey,
+      perceptualHash: result.perceptualHash,
+      duplicateOfId: result.duplicateOfId ?? null,
+      dataUrl: null,
+      compressed: true,
+      format: result.format,
+      fileSize: result.duplicateOfId ? 0 : result.compressedSize,
+      compressionRatio: result.compressionRatio
+    };
+  }
+
+  private async findBurstPredecessor(sessionId: string, burstId: string): Promise<BurstPredecessor | null> {
+    const previous = await this.prisma.screenshot.findFirst({
+      where: { sessionId, burstId, s3Key: { not: null }, perceptualHash: { not: null } },
+      orderBy: [{ burstIndex: 'desc' }, { timestamp: 'desc' }],
+      select: { id: true, s3Key: true, thumbnailKey: true, perceptualHash: true, format: true, duplicateOfId: true }
+    });
+    if (!previous) return null;
+
+    return {
+      // Point duplicates at the frame that owns the objects, not at another duplicate
+      id: previous.duplicateOfId || previous.id,
+      s3Key: previous.s3Key!,
+      thumbnailKey: previous.thumbnailKey,
+      perceptualHash: previous.perceptualHash!,
+      format: previous.format
+    };
+  }
+
   // Archive retrieval methods
   async getArchiveInfo(sessionId: string): Promise<any> {
     const archive = await this.prisma.sessionArchive.findFirst({
@@ -469,6 +534,25 @@ export class StorageManager {
     return await this.s3Storage.downloadArchive(sessionId, downloadPath);
   }
 
+  /**
+   * Open a stored archive for streaming: the local copy when it is this
+   * archive (the local file only holds a session's latest one), else S3
+   */
+  async openArchiveStream(archive: SessionArchive): Promise<{ stream: Readable; size?: number }> {
+    const localPath = path.join(this.archiveDir, archiveFileName(archive.sessionId, archive.format));
+    const stats = await fs.stat(localPath).catch(() => null);
+    if (stats && BigInt(stats.size) === archive.fileSize) {
+      return { stream: createReadStream(localPath), size: stats.size };
+    }
+
+    if (archive.s3Key) {
+      const { body, contentLength } = await this.s3Storage.streamArchive(archive.s3Key);
+      return { stream: body, size: contentLength };
+    }
+
+    throw new ArchiveNotFoundError(`Archive ${archive.id} file not found`);
+  }
+
   async generateArchiveDownloadUrl(sessionId: string, expiresIn: number = 3600): Promise<string> {
     return await this.s3Storage.generateDownloadUrl(sessionId, expiresIn);
   }
@@ -0,0 +1,11 @@
+/**
+ * Object Storage Layer - Main Export
+ *
+ * Services depend on the ObjectStore interface; the backend is chosen by
+ * OBJECT_STORE_BACKEND (s3 | local).
+ */
+
+export * from './object-store';
+export { S3ObjectStore, S3ObjectStoreOptions } from './s3-object-store';
+export { LocalObjectStore } from './local-object-store';
+export { createObjectStore, getObjectStore, setObjectStore, ObjectStoreConfig } from './store-factory';
@@ -0,0 +1,62 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ObjectStore, StoredObject } from './object-store';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg'
+};
+
+/**
+ * Filesystem-backed store for development and tests. Keys map to paths
+ * under the root directory; URLs are data URLs so consumers that expect a
+ * fetchable URL (vision models, the dashboard) work without S3.
+ */
+export class LocalObjectStore implements ObjectStore {
+  readonly backend = 'local' as const;
+
+  constructor(private rootDir: string) {}
+
+  // Content type and metadata only matter to S3; local files are typed by extension in getUrl
+  async put(key: string, body: Buffer): Promise<StoredObject> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    return { key, size: body.length };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async getUrl(key: string): Promise<string> {
+    const contentType = CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+    return `data:${contentType};base64,${(await this.get(key)).toString('base64')}`;
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    // Keys come from our own code, but never let one escape the root
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid object key: ${key}`);
+    }
+    return filePath;
+  }
+}
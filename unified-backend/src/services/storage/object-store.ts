@@ -0,0 +1,24 @@
+// Object storage abstraction for uploaded media (screenshots, thumbnails)
+
+export type ObjectStoreBackend = 's3' | 'local';
+
+export interface PutObjectOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  etag?: string;
+}
+
+export interface ObjectStore {
+  readonly backend: ObjectStoreBackend;
+  put(key: string, body: Buffer, options?: PutObjectOptions): Promise<StoredObject>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /** Time-limited URL a browser or vision model can fetch the object from */
+  getUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
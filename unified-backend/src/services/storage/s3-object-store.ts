@@ -0,0 +1,76 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { ObjectStore, PutObjectOptions, StoredObject } from './object-store';
+
+export interface S3ObjectStoreOptions {
+  bucket: string;
+  region: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  endpoint?: string;
+}
+
+export class S3ObjectStore implements ObjectStore {
+  readonly backend = 's3' as const;
+  private client: S3Client;
+
+  constructor(private options: S3ObjectStoreOptions, client?: S3Client) {
+    this.client = client || new S3Client({
+      region: options.region,
+      // Fall back to the default credential chain (instance roles) when keys are not configured
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+      endpoint: options.endpoint,
+      forcePathStyle: !!options.endpoint
+    });
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions = {}): Promise<StoredObject> {
+    const response = await this.client.send(new PutObjectCommand({
+      Bucket: this.options.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      Metadata: options.metadata
+    }));
+
+    return { key, size: body.length, etag: response.ETag };
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.options.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Object ${key} has no body`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.options.bucket, Key: key }));
+      return true;
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }));
+  }
+
+  async getUrl(key: string, expiresInSeconds: number = 3600): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.options.bucket, Key: key }), {
+      expiresIn: expiresInSeconds
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { getConfig } from '../../utils/env-validator';
+import { Logger } from '../../utils/logger';
+import { ObjectStore, ObjectStoreBackend } from './object-store';
+import { S3ObjectStore } from './s3-object-store';
+import { LocalObjectStore } from './local-object-store';
+
+export interface ObjectStoreConfig {
+  backend: ObjectStoreBackend;
+  localDir: string;
+  bucket: string;
+  region: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  endpoint?: string;
+}
+
+const logger = new Logger('ObjectStoreFactory');
+
+let sharedStore: ObjectStore | null = null;
+
+/**
+ * Build a store from config (defaults to the OBJECT_STORE_* environment settings)
+ */
+export function createObjectStore(config: ObjectStoreConfig = getConfig().objectStore): ObjectStore {
+  switch (config.backend) {
+    case 's3':
+      return new S3ObjectStore({
+        bucket: config.bucket,
+        region: config.region,
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+        endpoint: config.endpoint
+      });
+
+    case 'local':
+      return new LocalObjectStore(config.localDir);
+
+    default:
+      throw new Error(`Unknown object store backend: ${config.backend}`);
+  }
+}
+
+/**
+ * Process-wide store so services share one client
+ */
+export function getObjectStore(): ObjectStore {
+  if (!sharedStore) {
+    sharedStore = createObjectStore();
+    logger.info('Object store initialized', { backend: sharedStore.backend });
+  }
+  return sharedStore;
+}
+
+/**
+ * Replace the shared store (tests, offline scripts)
+ */
+export function setObjectStore(store: ObjectStore | null): void {
+  sharedStore = store;
+}
@@ -0,0 +1,176 @@
+/**
+ * Task Assignment Engine Tests
+ *
+ * Tests worker skill profiles and the success band that moves difficulty,
+ * coverage gap scoring, and choosing a site and task type for a worker
+ */
+
+import { TaskAssignmentStatus, TaskDifficulty } from '@prisma/client';
+import { TaskAssignmentEngineImpl, coverageGap, rankCandidates, siteUrl } from '../assignment-engine';
+import { AssignmentOutcome, buildSkillProfile } from '../worker-profiles';
+
+const { COMPLETED, FAILED, IN_PROGRESS } = TaskAssignmentStatus;
+
+function outcomes(difficulty: TaskDifficulty, statuses: TaskAssignmentStatus[], overrides: Partial<AssignmentOutcome> = {}): AssignmentOutcome[] {
+  return statuses.map((status, index) => ({
+    status,
+    difficulty,
+    type: 'SIMPLE',
+    website: 'https://www.rei.com',
+    assignedAt: new Date(Date.parse('2026-10-19T10:00:00Z') - index * 60 * 60 * 1000),
+    qualityScore: 80,
+    ...overrides
+  }));
+}
+
+describe('Task assignment engine', () => {
+  describe('🎯 Skill profiles', () => {
+    it('should start new workers at beginner', () => {
+      const profile = buildSkillProfile('w1', []);
+
+      expect(profile.currentDifficulty).toBe(TaskDifficulty.BEGINNER);
+      expect(profile.recommendedDifficulty).toBe(TaskDifficulty.BEGINNER);
+      expect(profile.recentSuccessRate).toBeNull();
+    });
+
+    it('should step up when recent work is too easy and down when too hard', () => {
+      const easy = buildSkillProfile('w1', outcomes(TaskDifficulty.INTERMEDIATE, Array(6).fill(COMPLETED)));
+      const hard = buildSkillProfile('w2', outcomes(TaskDifficulty.INTERMEDIATE, [COMPLETED, FAILED, FAILED, FAILED, COMPLETED, FAILED]));
+      const inBand = buildSkillProfile('w3', outcomes(TaskDifficulty.INTERMEDIATE, [COMPLETED, COMPLETED, FAILED, COMPLETED, COMPLETED, COMPLETED, FAILED]));
+
+      expect(easy.recommendedDifficulty).toBe(TaskDifficulty.ADVANCED);
+      expect(hard.recommendedDifficulty).toBe(TaskDifficulty.BEGINNER);
+      expect(inBand.recommendedDifficulty).toBe(TaskDifficulty.INTERMEDIATE);
+    });
+
+    it('should wait for enough finished tasks and count low-quality sessions as failures', () => {
+      const tooFew = buildSkillProfile('w1', [
+        ...outcomes(TaskDifficulty.BEGINNER, Array(4).fill(COMPLETED)),
+        ...outcomes(TaskDifficulty.BEGINNER, Array(3).fill(IN_PROGRESS))
+      ]);
+      const sloppy = buildSkillProfile('w2', outcomes(TaskDifficulty.BEGINNER, Array(6).fill(COMPLETED), { qualityScore: 20 }));
+
+      expect(tooFew.finished).toBe(4);
+      expect(tooFew.recommendedDifficulty).toBe(TaskDifficulty.BEGINNER);
+      expect(sloppy.successRate).toBe(0);
+      expect(sloppy.averageQualityScore).toBe(20);
+    });
+  });
+
+  describe('🗺️ Coverage', () => {
+    it('should score missing keys highest and average keys at one half', () => {
+      const counts = { 'rei.com': 100, 'nike.com': 300 };
+
+      expect(coverageGap(counts, ['target.com'])).toBe(1);
+      expect(coverageGap(counts, ['rei.com'])).toBeCloseTo(2 / 3);
+      expect(coverageGap(counts, ['nike.com'])).toBeLessThan(coverageGap(counts, ['rei.com']));
+    });
+
+    it('should rank thin domains and page types first and respect worker fit', () => {
+      const coverage = {
+        total: 1000,
+        domains: { 'rei.com': 900, 'nike.com': 100 },
+        pageTypes: { product: 600, search: 300, cart: 10, checkout: 0, category: 90 },
+        interactionTypes: { click: 800, input: 150, submit: 50 }
+      };
+      const profile = buildSkillProfile('w1', outcomes(TaskDifficulty.ADVANCED, Array(6).fill(FAILED), { type: 'WORKFLOW', website: 'https://www.target.com' }));
+
+      const ranked = rankCandidates(['rei.com', 'nike.com'], ['complex', 'workflow'], coverage, buildSkillProfile('w0', []));
+      expect(ranked[0]).toEqual(expect.objectContaining({ hostname: 'nike.com', taskType: 'workflow' }));
+
+      const struggling = rankCandidates(['nike.com', 'target.com'], ['complex', 'workflow'], coverage, profile);
+      expect(struggling[0]).toEqual(expect.objectContaining({ hostname: 'nike.com', taskType: 'complex', workerFit: 1 }));
+      expect(struggling.find(candidate => candidate.hostname === 'target.com' && candidate.taskType === 'workflow')!.workerFit).toBeCloseTo(0.35);
+    });
+  });
+
+  describe('🧭 Recommendations', () => {
+    it('should combine the profile difficulty with catalog sites', async () => {
+      const prisma = {
+        taskAssignment: {
+          findMany: jest.fn().mockResolvedValue(Array.from({ length: 6 }, (_, index) => ({
+            status: COMPLETED,
+            sessionId: `s${index}`,
+            assignedAt: new Date(Date.parse('2026-10-19T10:00:00Z') - index * 1000),
+            task: { difficulty: TaskDifficulty.BEGINNER, type: 'SIMPLE', website: 'https://www.rei.com' }
+          })))
+        },
+        unifiedSession: { findMany: jest.fn().mockResolvedValue([{ id: 's0', qualityScore: 90 }]) },
+        $queryRaw: jest.fn().mockResolvedValue([
+          { domain: 'rei.com', url: 'https://www.rei.com/product/123', interactionType: 'click', count: 50 },
+          { domain: null, url: null, interactionType: 'scroll', count: 5 }
+        ])
+      } as any;
+      const catalog = { listSites: jest.fn().mockResolvedValue([{ hostname: 'rei.com' }, { hostname: 'filson.com' }]) } as any;
+      const engine = new TaskAssignmentEngineImpl(prisma, catalog);
+
+      expect(await engine.getCoverage()).toEqual({
+        total: 55,
+        domains: { 'rei.com': 50 },
+        pageTypes: { product: 50, unknown: 5 },
+        interactionTypes: { click: 50, scroll: 5 }
+      });
+
+      const recommendation = await engine.recommend('w1', { random: () => 0 });
+      expect(prisma.taskAssignment.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 'w1' } }));
+      expect(recommendation).toEqual(expect.objectContaining({
+        difficulty: TaskDifficulty.INTERMEDIATE,
+        userLevel: 'intermediate',
+        website: 'https://www.filson.com'
+      }));
+      expect(['simple', 'comparison']).toContain(recommendation.taskType);
+
+      const pinned = await engine.recommend('w1', { website: 'https://www.rei.com/c/tents', difficulty: TaskDifficulty.BEGINNER, random: () => 0 });
+      expect(pinned).toEqual(expect.objectContaining({ website: 'https://www.rei.com/c/tents', taskType: 'simple' }));
+    });
+
+    it('should count coverage from the context.url the pipeline stores', async () => {
+      // Payloads as processEnhancedInteraction writes them: the page URL is context.url, with no pageUrl or pageType
+      const payloads = [
+        { type: 'click', context: { url: 'https://www.rei.com/product/123', pageTitle: 'Tent' } },
+        { type: 'click', context: { url: 'https://www.rei.com/search?q=tent', pageTitle: 'Search' } },
+        { type: 'input', context: { url: 'https://www.rei.com/checkout/payment', pageTitle: 'Checkout' } }
+      ];
+      const prisma = {
+        $queryRaw: jest.fn().mockResolvedValue(payloads.map(payload => ({
+          domain: 'rei.com',
+          url: payload.context.url,
+          interactionType: payload.type,
+          count: 1
+        })))
+      } as any;
+      const engine = new TaskAssignmentEngineImpl(prisma, {} as any);
+
+      expect(await engine.getCoverage()).toEqual({
+        total: 3,
+        domains: { 'rei.com': 3 },
+        pageTypes: { product: 1, search: 1, checkout: 1 },
+        interactionTypes: { click: 2, input: 1 }
+      });
+      const query = prisma.$queryRaw.mock.calls[0][0];
+      expect(query.sql).toContain(`COALESCE(ei."payload"->'context'->>'pageUrl', ei."payload"->'context'->>'url')`);
+      expect(query.sql).not.toContain(`'pageType'`);
+    });
+
+    it('should fall back to popular sites before the catalog is filled in', async () => {
+      const prisma = {
+        taskAssignment: { findMany: jest.fn().mockResolvedValue([]) },
+        unifiedSession: { findMany: jest.fn().mockResolvedValue([]) },
+        $queryRaw: jest.fn().mockResolvedValue([])
+      } as any;
+      const engine = new TaskAssignmentEngineImpl(prisma, { listSites: jest.fn().mockResolvedValue([]) } as any);
+
+      const recommendation = await engine.recommend('new-worker', { random: () => 0 });
+
+      expect(recommendation.website).toBe('https://www.amazon.com');
+      expect(recommendation.candidate.score).toBeCloseTo((0.5 + 0.25 + 0.25) * 1);
+    });
+
+    it('should only add www. to catalog hostnames without a subdomain', () => {
+      expect(siteUrl('rei.com')).toBe('https://www.rei.com');
+      expect(siteUrl('argos.co.uk')).toBe('https://www.argos.co.uk');
+      expect(siteUrl('www2.hm.com')).toBe('https://www2.hm.com');
+      expect(siteUrl('shop.lego.com')).toBe('https://shop.lego.com');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Task Completion Verifier Tests
+ *
+ * Tests mapping success criteria to checks, per-criterion evidence from
+ * recorded interactions, and automatic COMPLETED/FAILED status updates
+ */
+
+import { TaskAssignmentStatus } from '@prisma/client';
+import { TaskCompletionVerifierImpl, classifyCriterion, evaluateTaskOutcome, extractBudget } from '../completion-verifier';
+
+const start = Date.parse('2026-10-19T10:00:00Z');
+
+function interaction(id: string, offsetSeconds: number, pageUrl: string, extra: Record<string, any> = {}) {
+  return {
+    id,
+    interaction: { type: 'click', timestamp: start + offsetSeconds * 1000 },
+    context: { pageUrl },
+    ...extra
+  };
+}
+
+const shoppingTrip = [
+  interaction('i1', 5, 'https://www.amazon.com/s?k=headphones'),
+  interaction('i2', 20, 'https://www.amazon.com/s?k=headphones&rh=p_36%3A5000-10000'),
+  interaction('i3', 40, 'https://www.amazon.com/Sony-WH1000XM4/dp/B0863TXGM3', {
+    business: { ecommerce: { productId: 'B0863TXGM3', productPrice: '$89.99', cartValue: 0 } }
+  }),
+  interaction('i4', 55, 'https://www.amazon.com/Sony-WH1000XM4/dp/B0863TXGM3', {
+    element: { text: 'Add to Cart' },
+    state: { changes: { domMutations: [{ type: 'modified', selector: '#nav-cart-count', change: '0 -> 1' }] } }
+  }),
+  interaction('i5', 70, 'https://www.other-shop.com/product/123/p/1')
+];
+
+describe('Task completion verifier', () => {
+  describe('🔎 Criteria', () => {
+    it('should map template criteria to checks', () => {
+      expect(classifyCriterion('Product found')).toBe('product_page');
+      expect(classifyCriterion('Price within budget')).toBe('price_within_budget');
+      expect(classifyCriterion('Cart icon shows item count')).toBe('cart_increased');
+      expect(classifyCriterion('Cart page displayed')).toBe('cart_page');
+      expect(classifyCriterion('3 products compared')).toBe('products_compared');
+      expect(classifyCriterion('Decision made')).toBe('unverifiable');
+    });
+
+    it('should read the budget from the task description', () => {
+      expect(extractBudget('Search for and locate a daypack under $100')).toBe(100);
+      expect(extractBudget('Create a camping setup with a budget of $1,250')).toBe(1250);
+      expect(extractBudget('Find a rain jacket')).toBeUndefined();
+    });
+  });
+
+  describe('🧾 Evidence', () => {
+    const task = {
+      description: 'Search for and locate a headphones under $100',
+      website: 'https://www.amazon.com',
+      successCriteria: ['Product found', 'Price within budget', 'Item added to cart', 'Filter by price applied', 'Best value identified']
+    };
+
+    it('should complete a task whose verifiable criteria all have evidence', () => {
+      const analysis = evaluateTaskOutcome(task, shoppingTrip);
+
+      expect(analysis.verdict).toBe('completed');
+      expect(analysis.summary).toEqual({ met: 4, unmet: 0, unknown: 1 });
+      expect(analysis.interactionCount).toBe(4);
+      expect(analysis.criteria[1].evidence[0]).toEqual(expect.objectContaining({
+        interactionId: 'i3',
+        detail: 'Selected product costs 89.99 against a budget of 100'
+      }));
+      expect(analysis.criteria[2].evidence[0].detail).toContain('#nav-cart-count');
+    });
+
+    it('should fail when a criterion is contradicted and ignore other sites', () => {
+      const analysis = evaluateTaskOutcome({ ...task, description: 'Find headphones under $50' }, shoppingTrip.slice(0, 3));
+
+      expect(analysis.verdict).toBe('failed');
+      expect(analysis.criteria.map(criterion => criterion.status)).toEqual(['met', 'unmet', 'unmet', 'met', 'unknown']);
+      expect(evaluateTaskOutcome({ ...task, website: 'https://other-shop.com' }, shoppingTrip.slice(0, 4)).interactionCount).toBe(0);
+    });
+
+    it('should stay inconclusive when nothing could be checked', () => {
+      const analysis = evaluateTaskOutcome({ ...task, successCriteria: ['Decision made'] }, shoppingTrip);
+
+      expect(analysis.verdict).toBe('inconclusive');
+    });
+  });
+
+  describe('✅ Assignments', () => {
+    it('should record the analysis and update status from the session interactions', async () => {
+      const assignments = [
+        {
+          id: 'a1',
+          taskId: 't1',
+          sessionId: 's1',
+          assignedAt: new Date(start),
+          status: TaskAssignmentStatus.IN_PROGRESS,
+          completionTime: null,
+          task: { description: 'Find headphones under $100', website: 'https://www.amazon.com', successCriteria: JSON.stringify(['Product found', 'Item added to cart']) }
+        },
+        {
+          id: 'a2',
+          taskId: 't2',
+          sessionId: 's1',
+          assignedAt: new Date(start),
+          status: TaskAssignmentStatus.COMPLETED,
+          completionTime: null,
+          task: { description: 'Go to your shopping cart', website: 'https://www.amazon.com', successCriteria: JSON.stringify(['Cart page displayed']) }
+        }
+      ];
+      const prisma = {
+        taskAssignment: {
+          findMany: jest.fn().mockResolvedValue(assignments),
+          update: jest.fn().mockResolvedValue({})
+        }
+      } as any;
+      const store = { list: jest.fn().mockResolvedValue(shoppingTrip) } as any;
+
+      const results = await new TaskCompletionVerifierImpl(prisma, store).verifySession('s1');
+
+      expect(prisma.taskAssignment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { sessionId: 's1', status: { not: TaskAssignmentStatus.ABANDONED } }
+      }));
+      expect(results.map(result => [result.assignmentId, result.status])).toEqual([
+        ['a1', TaskAssignmentStatus.COMPLETED],
+        ['a2', TaskAssignmentStatus.FAILED]
+      ]);
+      expect(prisma.taskAssignment.update).toHaveBeenCalledWith({
+        where: { id: 'a1' },
+        // i5 at 70s is on another site, so the task took until i4
+        data: expect.objectContaining({ status: TaskAssignmentStatus.COMPLETED, completionTime: 55 })
+      });
+      expect(JSON.parse(prisma.taskAssignment.update.mock.calls[1][0].data.outcomeAnalysis).verdict).toBe('failed');
+    });
+  });
+});
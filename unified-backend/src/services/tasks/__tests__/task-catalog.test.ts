@@ -0,0 +1,186 @@
+/**
+ * Task Catalog Tests
+ *
+ * Tests template variable validation and generation, site-first template
+ * selection, versioned template updates and deriving site profiles from the
+ * world model
+ */
+
+import { TaskTemplate } from '@prisma/client';
+import { InvalidTaskTemplateError, TaskCatalogImpl, WorldModelCatalogSource, WorldModelUnavailableError, normalizeHostname } from '../task-catalog';
+import { generateVariableValue, renderTemplateText, validateTemplateVariables } from '../template-variables';
+
+function template(overrides: Partial<TaskTemplate>): TaskTemplate {
+  return {
+    id: overrides.key || 'template',
+    key: 'template',
+    version: 1,
+    hostname: null,
+    taskType: 'simple',
+    category: 'shopping',
+    title: 'Title',
+    description: 'Description',
+    steps: [],
+    successCriteria: [],
+    variables: {},
+    active: true,
+    createdBy: null,
+    createdAt: new Date(),
+    ...overrides
+  };
+}
+
+function sequence(...values: number[]): () => number {
+  let index = 0;
+  return () => values[index++ % values.length];
+}
+
+describe('Task catalog', () => {
+  describe('🔤 Template variables', () => {
+    it('should reject malformed schemas and undeclared placeholders', () => {
+      const errors = validateTemplateVariables(
+        { sport: { type: 'choice', options: [] }, size: { type: 'integer', min: 5, max: 1 }, odd: { type: 'colour' } as any },
+        ['Find {sport} gear in size {size} under {price}', 'Pick a {flavour}']
+      );
+
+      expect(errors).toEqual([
+        expect.stringContaining('sport'),
+        expect.stringContaining('size'),
+        expect.stringContaining('odd has unknown type'),
+        'Placeholder {flavour} has no variable schema'
+      ]);
+      expect(validateTemplateVariables({ sport: { type: 'choice', options: ['hiking'] } }, ['{sport} under {price}'])).toEqual([]);
+    });
+
+    it('should generate typed values from the site context', () => {
+      const site = { products: ['rain jacket', 'daypack'], productCategories: [] };
+
+      expect(generateVariableValue({ type: 'price', min: 50, max: 200, step: 25 }, site, () => 0.99)).toBe('$200');
+      expect(generateVariableValue({ type: 'integer', min: 2, max: 5 }, site, () => 0)).toBe('2');
+      expect(generateVariableValue({ type: 'site_product' }, site, () => 0.6)).toBe('daypack');
+      expect(generateVariableValue({ type: 'site_category' }, site, () => 0)).toBe('featured items');
+    });
+
+    it('should use one value per placeholder across all fields', () => {
+      const { rendered, values } = renderTemplateText(
+        { description: 'Find {sport} {gear}', steps: ['Go to {sport} section', 'Filter by {gear}'] },
+        { sport: { type: 'choice', options: ['hiking', 'cycling'] } },
+        { products: ['boots', 'helmet'], productCategories: [] },
+        sequence(0.9, 0.1)
+      );
+
+      expect(values).toEqual({ sport: 'cycling', gear: 'boots' });
+      expect(rendered).toEqual({ description: 'Find cycling boots', steps: ['Go to cycling section', 'Filter by boots'] });
+    });
+  });
+
+  describe('📚 Templates', () => {
+    it('should prefer the site\'s own templates, then task type, then category', async () => {
+      const candidates = [
+        template({ key: 'generic_simple', taskType: 'simple' }),
+        template({ key: 'rei_outdoor', hostname: 'rei.com', taskType: 'simple', category: 'outdoor' }),
+        template({ key: 'rei_complex', hostname: 'rei.com', taskType: 'complex', category: 'shopping' })
+      ];
+      const prisma = { taskTemplate: { findMany: jest.fn().mockResolvedValue(candidates) } } as any;
+      const catalog = new TaskCatalogImpl(prisma);
+
+      expect((await catalog.pickTemplate('https://www.rei.com/c/camping', 'simple'))!.key).toBe('rei_outdoor');
+      expect((await catalog.pickTemplate('rei.com', 'comparison', 'shopping'))!.key).toBe('rei_complex');
+      expect(prisma.taskTemplate.findMany).toHaveBeenCalledWith({
+        where: { active: true, OR: [{ hostname: 'rei.com' }, { hostname: null }] }
+      });
+
+      prisma.taskTemplate.findMany.mockResolvedValue(candidates.filter(candidate => !candidate.hostname));
+      expect((await catalog.pickTemplate('nike.com', 'complex'))!.key).toBe('generic_simple');
+    });
+
+    it('should publish updates as a new version and retire the old one', async () => {
+      const current = template({ id: 'v2', key: 'nike_find_sport_gear', version: 2, hostname: 'nike.com', description: 'Find {gear}' });
+      const prisma = {
+        taskTemplate: {
+          findFirst: jest.fn().mockResolvedValue(current),
+          update: jest.fn().mockImplementation(args => args),
+          create: jest.fn().mockImplementation(args => ({ ...args.data, id: 'v3' }))
+        },
+        $transaction: jest.fn().mockImplementation(operations => Promise.all(operations))
+      } as any;
+      const catalog = new TaskCatalogImpl(prisma);
+
+      const updated = await catalog.updateTemplate('nike_find_sport_gear', { title: 'Find {product} in your size' }, 'admin-1');
+
+      expect(prisma.taskTemplate.update).toHaveBeenCalledWith({ where: { id: 'v2' }, data: { active: false } });
+      expect(updated).toEqual(expect.objectContaining({
+        key: 'nike_find_sport_gear',
+        version: 3,
+        hostname: 'nike.com',
+        title: 'Find {product} in your size',
+        description: 'Find {gear}',
+        createdBy: 'admin-1'
+      }));
+    });
+
+    it('should refuse templates whose placeholders cannot be filled', async () => {
+      const prisma = { taskTemplate: { findFirst: jest.fn().mockResolvedValue(null), create: jest.fn() } } as any;
+      const catalog = new TaskCatalogImpl(prisma);
+
+      const created = catalog.createTemplate({
+        taskType: 'simple',
+        category: 'coffee',
+        title: 'Order a {drink}',
+        description: 'Order a {drink}',
+        steps: ['Open the menu'],
+        successCriteria: ['Drink ordered']
+      });
+      await expect(created).rejects.toBeInstanceOf(InvalidTaskTemplateError);
+      await expect(created).rejects.toThrow('Invalid template: Placeholder {drink} has no variable schema');
+      expect(prisma.taskTemplate.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('🌍 Site profiles', () => {
+    it('should normalise hostnames and URLs to one key', () => {
+      expect(normalizeHostname('https://WWW.REI.com/product/123')).toBe('rei.com');
+      expect(normalizeHostname('www2.hm.com')).toBe('www2.hm.com');
+    });
+
+    it('should derive products and categories from the world model', async () => {
+      const worldModel: WorldModelCatalogSource = {
+        getDomain: jest.fn().mockImplementation(async (domain: string) =>
+          domain === 'www.shop.example' ? { _id: 'd1', domain, siteName: 'Example Shop', siteType: 'ecommerce' } : null),
+        getCategoriesForDomain: jest.fn().mockResolvedValue([
+          { categoryPath: '/tents', categoryName: 'Tents', reliability: { totalAttempts: 3 } },
+          { categoryPath: '/old', categoryName: 'Clearance', isActive: false },
+          { categoryPath: '/boots', categoryName: 'Boots', reliability: { totalAttempts: 40 } }
+        ]),
+        getProductsForCategory: jest.fn().mockImplementation(async (_domain: string, path: string) =>
+          path === '/boots' ? [{ productType: 'Hiking Boots' }, { productType: 'hiking boots' }] : [{ productType: 'tent' }])
+      };
+      const prisma = {
+        siteProfile: {
+          findUnique: jest.fn().mockResolvedValue(null),
+          create: jest.fn().mockImplementation(args => args.data)
+        }
+      } as any;
+
+      const profile = await new TaskCatalogImpl(prisma, worldModel).deriveSite('shop.example');
+
+      expect(worldModel.getCategoriesForDomain).toHaveBeenCalledWith('d1');
+      expect(profile).toEqual(expect.objectContaining({
+        hostname: 'shop.example',
+        name: 'Example Shop',
+        productCategories: ['Boots', 'Tents'],
+        products: ['hiking boots', 'tent'],
+        deriveFromWorldModel: true
+      }));
+      await expect(new TaskCatalogImpl(prisma).deriveSite('shop.example')).rejects.toBeInstanceOf(WorldModelUnavailableError);
+    });
+
+    it('should fall back to generic defaults for unknown sites', async () => {
+      const prisma = { siteProfile: { findUnique: jest.fn().mockResolvedValue(null) } } as any;
+
+      const context = await new TaskCatalogImpl(prisma).getSiteContext('https://www.unknown.example');
+
+      expect(context).toEqual(expect.objectContaining({ hostname: 'unknown.example', known: false, products: ['various products'] }));
+    });
+  });
+});
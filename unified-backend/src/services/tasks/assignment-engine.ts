@@ -0,0 +1,290 @@
+import { Prisma, PrismaClient, TaskDifficulty } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { TaskCatalog, TemplateTaskType, normalizeHostname } from './task-catalog';
+import {
+  AssignmentOutcome,
+  DEFAULT_SKILL_PROFILE_OPTIONS,
+  SkillProfileOptions,
+  WorkerSkillProfile,
+  buildSkillProfile
+} from './worker-profiles';
+
+/** Task types suited to each difficulty level */
+export const TASK_TYPES_BY_DIFFICULTY: Record<TaskDifficulty, TemplateTaskType[]> = {
+  BEGINNER: ['simple'],
+  INTERMEDIATE: ['simple', 'comparison'],
+  ADVANCED: ['comparison', 'complex', 'workflow']
+};
+
+/** Page types and interaction types a task type tends to produce */
+export const TASK_TYPE_COVERAGE: Record<TemplateTaskType, { pageTypes: string[]; interactionTypes: string[] }> = {
+  simple: { pageTypes: ['search', 'product'], interactionTypes: ['click', 'input'] },
+  comparison: { pageTypes: ['search', 'category', 'product'], interactionTypes: ['click', 'scroll', 'hover'] },
+  complex: { pageTypes: ['category', 'product', 'cart'], interactionTypes: ['click', 'input', 'select'] },
+  workflow: { pageTypes: ['product', 'cart', 'checkout'], interactionTypes: ['click', 'input', 'submit'] }
+};
+
+/** Second-level labels under a country code that still belong to the registrable domain (argos.co.uk) */
+const COUNTRY_SECOND_LEVELS = new Set(['ac', 'co', 'com', 'gov', 'net', 'org']);
+
+/**
+ * Start URL for a catalog hostname. Profiles store hostnames without "www.",
+ * so it is put back for bare domains only; hosts that already carry a
+ * subdomain (www2.hm.com, shop.lego.com) are used as they are.
+ */
+export function siteUrl(hostname: string): string {
+  const labels = hostname.split('.');
+  const registrableLabels = labels.length === 3 && labels[2].length === 2 && COUNTRY_SECOND_LEVELS.has(labels[1]) ? 3 : 2;
+  return labels.length <= registrableLabels ? `https://www.${hostname}` : `https://${hostname}`;
+}
+
+// Checked in order, so /checkout/cart counts as checkout rather than cart
+const PAGE_TYPE_PATTERNS: Array<[string, RegExp]> = [
+  ['checkout', /\/checkout|\/payment|\/billing|\/shipping/i],
+  ['cart', /\/cart|\/basket|\/bag\b/i],
+  ['search', /\/search|\/results|[?&](q|query|search)=/i],
+  ['product', /\/products?\/|\/items?\/|\/p\/|\/dp\//i],
+  ['category', /\/categor(y|ies)\/|\/browse\/|\/shop\/|\/c\//i]
+];
+
+/** Page type of an interaction's URL, named as in TASK_TYPE_COVERAGE */
+export function pageTypeOf(url: string | null): string {
+  if (!url) return 'unknown';
+  return PAGE_TYPE_PATTERNS.find(([, pattern]) => pattern.test(url))?.[0] || 'unknown';
+}
+
+/** Used when no site profiles exist yet */
+export const FALLBACK_SITES = ['amazon.com', 'nike.com', 'uniqlo.com', 'nordstrom.com', 'target.com', 'bestbuy.com'];
+
+/** Interactions behind existing training data, by what they cover */
+export interface TrainingCoverage {
+  total: number;
+  domains: Record<string, number>;
+  pageTypes: Record<string, number>;
+  interactionTypes: Record<string, number>;
+}
+
+export interface CandidateScore {
+  hostname: string;
+  taskType: TemplateTaskType;
+  score: number;
+  domainGap: number;
+  pageTypeGap: number;
+  interactionTypeGap: number;
+  /** Below 1 when the worker struggles with this type or just did this site */
+  workerFit: number;
+}
+
+export interface TaskRecommendation {
+  workerId: string;
+  website: string;
+  difficulty: TaskDifficulty;
+  userLevel: string;
+  taskType: TemplateTaskType;
+  candidate: CandidateScore;
+  profile: WorkerSkillProfile;
+}
+
+export interface RecommendOptions {
+  /** Only consider this site */
+  website?: string;
+  /** Skip the skill profile's recommendation */
+  difficulty?: TaskDifficulty;
+  random?: () => number;
+}
+
+export interface TaskAssignmentEngine {
+  getWorkerProfile(workerId: string): Promise<WorkerSkillProfile>;
+  getCoverage(): Promise<TrainingCoverage>;
+  recommend(workerId: string, options?: RecommendOptions): Promise<TaskRecommendation>;
+}
+
+export interface AssignmentEngineOptions extends SkillProfileOptions {
+  /** Past assignments read per worker */
+  historyLimit: number;
+  /** Training data older than this does not count towards coverage */
+  coverageDays: number;
+  /** Candidates sampled from when choosing, so workers do not all get the same site */
+  topCandidates: number;
+}
+
+export const DEFAULT_ASSIGNMENT_ENGINE_OPTIONS: AssignmentEngineOptions = {
+  ...DEFAULT_SKILL_PROFILE_OPTIONS,
+  historyLimit: 100,
+  coverageDays: 90,
+  topCandidates: 3
+};
+
+const GAP_WEIGHTS = { domain: 0.5, pageType: 0.25, interactionType: 0.25 };
+
+/**
+ * How under-represented a key is: 1 with no data, 0.5 at the average count,
+ * approaching 0 for keys far above average
+ */
+export function coverageGap(counts: Record<string, number>, keys: string[]): number {
+  if (keys.length === 0) return 0;
+  const values = Object.values(counts);
+  const mean = values.length > 0 ? Math.max(1, values.reduce((sum, value) => sum + value, 0) / values.length) : 1;
+  return keys.reduce((sum, key) => sum + 1 / (1 + (counts[key] || 0) / mean), 0) / keys.length;
+}
+
+/**
+ * Score every site × task type the worker could be given, highest first
+ */
+export function rankCandidates(
+  hostnames: string[],
+  taskTypes: TemplateTaskType[],
+  coverage: TrainingCoverage,
+  profile: WorkerSkillProfile,
+  options: Pick<SkillProfileOptions, 'band' | 'minAttempts'> = DEFAULT_SKILL_PROFILE_OPTIONS
+): CandidateScore[] {
+  const candidates: CandidateScore[] = [];
+  const justVisited = new Set(profile.recentSites.slice(0, 3));
+
+  for (const hostname of hostnames) {
+    const domainGap = coverageGap(coverage.domains, [hostname]);
+    for (const taskType of taskTypes) {
+      const { pageTypes, interactionTypes } = TASK_TYPE_COVERAGE[taskType];
+      const pageTypeGap = coverageGap(coverage.pageTypes, pageTypes);
+      const interactionTypeGap = coverageGap(coverage.interactionTypes, interactionTypes);
+
+      const typeStats = profile.byType[taskType.toUpperCase()];
+      let workerFit = 1;
+      if (typeStats && typeStats.attempts >= options.minAttempts && typeStats.successRate < options.band.min) workerFit *= 0.5;
+      if (justVisited.has(hostname)) workerFit *= 0.7;
+
+      candidates.push({
+        hostname,
+        taskType,
+        domainGap,
+        pageTypeGap,
+        interactionTypeGap,
+        workerFit,
+        score: (GAP_WEIGHTS.domain * domainGap + GAP_WEIGHTS.pageType * pageTypeGap + GAP_WEIGHTS.interactionType * interactionTypeGap) * workerFit
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Chooses what a worker should do next: the difficulty comes from their
+ * skill profile, the site and task type from where training data is thinnest
+ */
+export class TaskAssignmentEngineImpl implements TaskAssignmentEngine {
+  private logger: Logger;
+  private options: AssignmentEngineOptions;
+
+  constructor(private prisma: PrismaClient, private catalog: TaskCatalog, options: Partial<AssignmentEngineOptions> = {}) {
+    this.logger = new Logger('TaskAssignmentEngine');
+    this.options = { ...DEFAULT_ASSIGNMENT_ENGINE_OPTIONS, ...options };
+  }
+
+  async getWorkerProfile(workerId: string): Promise<WorkerSkillProfile> {
+    const assignments = await this.prisma.taskAssignment.findMany({
+      where: { userId: workerId },
+      include: { task: { select: { difficulty: true, type: true, website: true } } },
+      orderBy: { assignedAt: 'desc' },
+      take: this.options.historyLimit
+    });
+
+    const sessions = await this.prisma.unifiedSession.findMany({
+      where: { id: { in: Array.from(new Set(assignments.map(assignment => assignment.sessionId))) } },
+      select: { id: true, qualityScore: true }
+    });
+    const quality = new Map(sessions.map(session => [session.id, session.qualityScore]));
+
+    const outcomes: AssignmentOutcome[] = assignments.map(assignment => ({
+      status: assignment.status,
+      difficulty: assignment.task.difficulty,
+      type: assignment.task.type,
+      website: assignment.task.website,
+      assignedAt: assignment.assignedAt,
+      qualityScore: quality.get(assignment.sessionId) ?? null
+    }));
+
+    return buildSkillProfile(workerId, outcomes, this.options);
+  }
+
+  /**
+   * Count the interactions of sessions that produced training data by domain,
+   * page type (read from the page URL) and interaction type
+   */
+  async getCoverage(): Promise<TrainingCoverage> {
+    const since = new Date(Date.now() - this.options.coverageDays * 24 * 60 * 60 * 1000);
+    // The pipeline stores context.url; pageUrl is read first for rows written in the training shape
+    const rows = await this.prisma.$queryRaw<Array<{ domain: string | null; url: string | null; interactionType: string; count: number }>>(Prisma.sql`
+      SELECT
+        regexp_replace(lower(substring(COALESCE(ei."payload"->'context'->>'pageUrl', ei."payload"->'context'->>'url') FROM '^[a-zA-Z]+://([^/:?#]+)')), '^www\\.', '') AS domain,
+        COALESCE(ei."payload"->'context'->>'pageUrl', ei."payload"->'context'->>'url') AS "url",
+        lower(ei."type") AS "interactionType",
+        COUNT(*)::int AS count
+      FROM "enhanced_interactions" ei
+      WHERE ei."sessionId" IN (
+        SELECT DISTINCT "sessionId" FROM "training_data" WHERE "status" <> 'FAILED' AND "createdAt" >= ${since}
+      )
+      GROUP BY 1, 2, 3
+    `);
+
+    const coverage: TrainingCoverage = { total: 0, domains: {}, pageTypes: {}, interactionTypes: {} };
+    for (const row of rows) {
+      const pageType = pageTypeOf(row.url);
+      coverage.total += row.count;
+      if (row.domain) coverage.domains[row.domain] = (coverage.domains[row.domain] || 0) + row.count;
+      coverage.pageTypes[pageType] = (coverage.pageTypes[pageType] || 0) + row.count;
+      coverage.interactionTypes[row.interactionType] = (coverage.interactionTypes[row.interactionType] || 0) + row.count;
+    }
+    return coverage;
+  }
+
+  async recommend(workerId: string, options: RecommendOptions = {}): Promise<TaskRecommendation> {
+    const random = options.random || Math.random;
+    const [profile, coverage] = await Promise.all([this.getWorkerProfile(workerId), this.getCoverage()]);
+    const difficulty = options.difficulty || profile.recommendedDifficulty;
+
+    const hostnames = options.website
+      ? [normalizeHostname(options.website)]
+      : await this.candidateSites();
+
+    const ranked = rankCandidates(hostnames, TASK_TYPES_BY_DIFFICULTY[difficulty], coverage, profile, this.options);
+    const top = ranked.slice(0, this.options.topCandidates);
+    const candidate = weightedPick(top, random);
+
+    this.logger.info('Task recommended', {
+      workerId,
+      difficulty,
+      hostname: candidate.hostname,
+      taskType: candidate.taskType,
+      score: candidate.score,
+      workerSuccessRate: profile.recentSuccessRate
+    });
+
+    return {
+      workerId,
+      website: options.website || siteUrl(candidate.hostname),
+      difficulty,
+      userLevel: difficulty.toLowerCase(),
+      taskType: candidate.taskType,
+      candidate,
+      profile
+    };
+  }
+
+  private async candidateSites(): Promise<string[]> {
+    const sites = await this.catalog.listSites();
+    return sites.length > 0 ? sites.map(site => site.hostname) : FALLBACK_SITES;
+  }
+}
+
+function weightedPick(candidates: CandidateScore[], random: () => number): CandidateScore {
+  const total = candidates.reduce((sum, candidate) => sum + candidate.score, 0);
+  if (total <= 0) return candidates[0];
+
+  let threshold = random() * total;
+  for (const candidate of candidates) {
+    threshold -= candidate.score;
+    if (threshold < 0) return candidate;
+  }
+  return candidates[candidates.length - 1];
+}
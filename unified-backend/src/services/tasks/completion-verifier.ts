@@ -0,0 +1,370 @@
+import { PrismaClient, TaskAssignmentStatus } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from '../interactions/enhanced-interaction-store';
+import { normalizeHostname } from './task-catalog';
+
+export const VERIFIER_VERSION = 'rules-v1';
+
+/** What a success criterion was mapped to; `unverifiable` criteria never decide the outcome */
+export type CriterionCheck =
+  | 'product_page'
+  | 'cart_increased'
+  | 'cart_page'
+  | 'checkout_reached'
+  | 'filter_applied'
+  | 'search_performed'
+  | 'price_within_budget'
+  | 'products_compared'
+  | 'unverifiable';
+
+export type CriterionStatus = 'met' | 'unmet' | 'unknown';
+
+export interface CriterionEvidence {
+  interactionId?: string;
+  timestamp?: number;
+  pageUrl?: string;
+  detail: string;
+}
+
+export interface CriterionResult {
+  criterion: string;
+  check: CriterionCheck;
+  status: CriterionStatus;
+  evidence: CriterionEvidence[];
+}
+
+export type VerificationVerdict = 'completed' | 'failed' | 'inconclusive';
+
+/** Stored as TaskAssignment.outcomeAnalysis */
+export interface OutcomeAnalysis {
+  verifier: string;
+  verifiedAt: string;
+  verdict: VerificationVerdict;
+  criteria: CriterionResult[];
+  summary: { met: number; unmet: number; unknown: number };
+  interactionCount: number;
+  budget?: number;
+}
+
+export interface VerifiableTask {
+  description: string;
+  website: string;
+  successCriteria: string[];
+}
+
+export interface AssignmentVerification {
+  assignmentId: string;
+  taskId: string;
+  previousStatus: TaskAssignmentStatus;
+  status: TaskAssignmentStatus;
+  analysis: OutcomeAnalysis;
+}
+
+export interface TaskCompletionVerifier {
+  verifySession(sessionId: string): Promise<AssignmentVerification[]>;
+}
+
+/**
+ * Keyword rules mapping free-text criteria to checks, first match wins.
+ * Criteria come from templates and the LLM, so they are matched loosely.
+ */
+const CRITERION_RULES: Array<{ check: CriterionCheck; pattern: RegExp }> = [
+  { check: 'price_within_budget', pattern: /budget|price within|under \$|affordable/i },
+  { check: 'checkout_reached', pattern: /(reach|proceed|go|went|start)\w* (to )?check ?out|check ?out (page|reached|started)/i },
+  { check: 'cart_page', pattern: /cart page|cart contents|view(ing)? (the )?cart|items visible in cart/i },
+  { check: 'cart_increased', pattern: /(added|add|added to|item count|items?) .*(cart|bag|basket)|(cart|bag|basket) .*(updated|count|shows|icon)/i },
+  { check: 'products_compared', pattern: /compar|\b\d+ (different )?products\b|options? (reviewed|considered)/i },
+  { check: 'filter_applied', pattern: /filter|sort(ed)?|refine|narrow/i },
+  { check: 'search_performed', pattern: /search/i },
+  { check: 'product_page', pattern: /product|item (found|selected|page)|page viewed/i }
+];
+
+const PRODUCT_URL = /\/(dp|gp\/product|product|products|p|ip|pd|item|t)\/|[?&](pid|productid|sku)=/i;
+const CART_URL = /\/(cart|basket|bag|shopping-?bag)(\/|\?|$)/i;
+const CHECKOUT_URL = /\/(checkout|buy\/spc|payment)(\/|\?|$)/i;
+const SEARCH_URL = /[?&](q|k|query|search|keyword|searchterm|ntt)=/i;
+const FILTER_PARAM = /^(filter|refine|facet|rh|f|sort|sortby|price|minprice|maxprice|size|color|colour|brand|category|n)$|^(filter|facet|refinement|prefn)/i;
+const ADD_TO_CART_TEXT = /add(ed)? to (cart|bag|basket)/i;
+const CART_SELECTOR = /cart|bag|basket|minicart/i;
+
+function urlOf(interaction: any): string | undefined {
+  return interaction?.context?.pageUrl || interaction?.context?.url || interaction?.url;
+}
+
+function timestampOf(interaction: any): number | undefined {
+  const value = Number(interaction?.interaction?.timestamp ?? interaction?.timestamp);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function evidence(interaction: any, detail: string): CriterionEvidence {
+  return { interactionId: interaction?.id, timestamp: timestampOf(interaction), pageUrl: urlOf(interaction), detail };
+}
+
+function onSite(url: string | undefined, site: string): boolean {
+  if (!url) return false;
+  try {
+    const host = normalizeHostname(url);
+    return host === site || host.endsWith(`.${site}`);
+  } catch {
+    return false;
+  }
+}
+
+function parsePrice(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/\$\s?(\d[\d,]*(?:\.\d{1,2})?)/);
+  return match ? Number(match[1].replace(/,/g, '')) : undefined;
+}
+
+/**
+ * The spending limit a task description sets, e.g. "under $200" or "a budget of $150"
+ */
+export function extractBudget(description: string): number | undefined {
+  const match = description.match(/(?:under|below|less than|within|at most|max(?:imum)?|budget of|up to)\s*\$\s?(\d[\d,]*(?:\.\d{1,2})?)/i);
+  return match ? Number(match[1].replace(/,/g, '')) : undefined;
+}
+
+export function classifyCriterion(criterion: string): CriterionCheck {
+  return CRITERION_RULES.find(rule => rule.pattern.test(criterion))?.check ?? 'unverifiable';
+}
+
+function isProductPage(interaction: any): boolean {
+  const url = urlOf(interaction) || '';
+  return PRODUCT_URL.test(url)
+    || /product/i.test(interaction?.context?.pageType || '')
+    || Boolean(interaction?.business?.ecommerce?.productId);
+}
+
+function productKey(interaction: any): string | undefined {
+  const productId = interaction?.business?.ecommerce?.productId;
+  if (productId) return String(productId);
+  const url = urlOf(interaction);
+  if (!url) return undefined;
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+function filterParams(url: string | undefined): string[] {
+  if (!url) return [];
+  try {
+    return Array.from(new URL(url).searchParams.keys()).filter(key => FILTER_PARAM.test(key));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Cart count changes the extension saw: cart value going up, or a
+ * cart/bag badge mutating to a larger number
+ */
+function cartIncreases(interactions: any[]): CriterionEvidence[] {
+  const found: CriterionEvidence[] = [];
+  let lastCartValue: number | undefined;
+
+  for (const interaction of interactions) {
+    const cartValue = interaction?.business?.ecommerce?.cartValue;
+    if (typeof cartValue === 'number' && Number.isFinite(cartValue)) {
+      if (lastCartValue !== undefined && cartValue > lastCartValue) {
+        found.push(evidence(interaction, `Cart value rose from ${lastCartValue} to ${cartValue}`));
+      }
+      lastCartValue = cartValue;
+    }
+
+    for (const mutation of interaction?.state?.changes?.domMutations || []) {
+      if (!CART_SELECTOR.test(mutation?.selector || '')) continue;
+      const numbers = String(mutation?.change || '').match(/\d+/g)?.map(Number) || [];
+      if (numbers.length >= 2 && numbers[numbers.length - 1] > numbers[0]) {
+        found.push(evidence(interaction, `Cart indicator ${mutation.selector} changed: ${mutation.change}`));
+      }
+    }
+  }
+
+  return found;
+}
+
+function checkCriterion(check: CriterionCheck, criterion: string, interactions: any[], budget: number | undefined): CriterionResult {
+  const result = (status: CriterionStatus, found: CriterionEvidence[] = []): CriterionResult =>
+    ({ criterion, check, status, evidence: found.slice(0, 5) });
+  const matching = (predicate: (interaction: any) => boolean, detail: (interaction: any) => string) =>
+    interactions.filter(predicate).map(interaction => evidence(interaction, detail(interaction)));
+
+  switch (check) {
+    case 'product_page': {
+      const found = matching(isProductPage, interaction => `Product page reached${interaction?.business?.ecommerce?.productName ? `: ${interaction.business.ecommerce.productName}` : ''}`);
+      return result(found.length > 0 ? 'met' : 'unmet', found);
+    }
+
+    case 'cart_increased': {
+      const found = cartIncreases(interactions);
+      if (found.length > 0) return result('met', found);
+      // A click on "Add to cart" without a visible cart change is not proof on its own
+      const clicks = matching(
+        interaction => ADD_TO_CART_TEXT.test(interaction?.element?.text || '') || ADD_TO_CART_TEXT.test(interaction?.element?.attributes?.['aria-label'] || ''),
+        () => 'Add to cart clicked, no cart change observed'
+      );
+      return result(clicks.length > 0 ? 'unknown' : 'unmet', clicks);
+    }
+
+    case 'cart_page': {
+      const found = matching(interaction => CART_URL.test(urlOf(interaction) || '') || /cart/i.test(interaction?.context?.pageType || ''), () => 'Cart page reached');
+      return result(found.length > 0 ? 'met' : 'unmet', found);
+    }
+
+    case 'checkout_reached': {
+      const found = matching(interaction => CHECKOUT_URL.test(urlOf(interaction) || '') || /checkout/i.test(interaction?.context?.pageType || ''), () => 'Checkout page reached');
+      return result(found.length > 0 ? 'met' : 'unmet', found);
+    }
+
+    case 'filter_applied': {
+      const found = matching(
+        interaction => filterParams(urlOf(interaction)).length > 0,
+        interaction => `Filter parameters in URL: ${filterParams(urlOf(interaction)).join(', ')}`
+      );
+      return result(found.length > 0 ? 'met' : 'unmet', found);
+    }
+
+    case 'search_performed': {
+      const found = matching(
+        interaction => SEARCH_URL.test(urlOf(interaction) || '') || /search/i.test(interaction?.context?.pageType || ''),
+        () => 'Search results page reached'
+      );
+      return result(found.length > 0 ? 'met' : 'unmet', found);
+    }
+
+    case 'price_within_budget': {
+      if (budget === undefined) return result('unknown');
+      const priced = interactions
+        .filter(isProductPage)
+        .map(interaction => ({ interaction, price: parsePrice(interaction?.business?.ecommerce?.productPrice) }))
+        .filter((entry): entry is { interaction: any; price: number } => entry.price !== undefined);
+      if (priced.length === 0) return result('unknown');
+      // The last product looked at is the one the worker settled on
+      const { interaction, price } = priced[priced.length - 1];
+      return result(price <= budget ? 'met' : 'unmet', [evidence(interaction, `Selected product costs ${price} against a budget of ${budget}`)]);
+    }
+
+    case 'products_compared': {
+      const wanted = Number(criterion.match(/\b(\d+)\b/)?.[1]) || 2;
+      const seen = new Map<string, CriterionEvidence>();
+      for (const interaction of interactions.filter(isProductPage)) {
+        const key = productKey(interaction);
+        if (key && !seen.has(key)) seen.set(key, evidence(interaction, `Viewed product ${key}`));
+      }
+      return result(seen.size >= wanted ? 'met' : 'unmet', Array.from(seen.values()));
+    }
+
+    case 'unverifiable':
+      return result('unknown');
+  }
+}
+
+/**
+ * Evaluate a task's success criteria against what the session recorded.
+ * Only interactions on the task's website count. A task is completed when
+ * every verifiable criterion is met, failed when any is unmet, and
+ * inconclusive when none of its criteria could be checked.
+ */
+export function evaluateTaskOutcome(task: VerifiableTask, interactions: any[], now: Date = new Date()): OutcomeAnalysis {
+  const site = normalizeHostname(task.website);
+  const relevant = interactions
+    .filter(interaction => onSite(urlOf(interaction), site))
+    .sort((a, b) => (timestampOf(a) || 0) - (timestampOf(b) || 0));
+  const budget = extractBudget(task.description);
+
+  const criteria = task.successCriteria.map(criterion => checkCriterion(classifyCriterion(criterion), criterion, relevant, budget));
+  const summary = {
+    met: criteria.filter(criterion => criterion.status === 'met').length,
+    unmet: criteria.filter(criterion => criterion.status === 'unmet').length,
+    unknown: criteria.filter(criterion => criterion.status === 'unknown').length
+  };
+
+  return {
+    verifier: VERIFIER_VERSION,
+    verifiedAt: now.toISOString(),
+    verdict: summary.unmet > 0 ? 'failed' : summary.met > 0 ? 'completed' : 'inconclusive',
+    criteria,
+    summary,
+    interactionCount: relevant.length,
+    ...(budget !== undefined ? { budget } : {})
+  };
+}
+
+/**
+ * Checks assignments against the recorded session when it completes, so
+ * task status no longer depends on what the client reports
+ */
+export class TaskCompletionVerifierImpl implements TaskCompletionVerifier {
+  private logger: Logger;
+
+  constructor(private prisma: PrismaClient, private interactionStore: EnhancedInteractionStore = new EnhancedInteractionStoreImpl(prisma)) {
+    this.logger = new Logger('TaskCompletionVerifier');
+  }
+
+  /**
+   * Verify every assignment on the session the worker has not abandoned.
+   * Inconclusive results keep the current status but still record the analysis.
+   */
+  async verifySession(sessionId: string): Promise<AssignmentVerification[]> {
+    const assignments = await this.prisma.taskAssignment.findMany({
+      where: { sessionId, status: { not: TaskAssignmentStatus.ABANDONED } },
+      include: { task: true }
+    });
+    if (assignments.length === 0) return [];
+
+    const interactions = await this.interactionStore.list(sessionId);
+    const results: AssignmentVerification[] = [];
+
+    for (const assignment of assignments) {
+      const assignedAt = assignment.assignedAt.getTime();
+      const site = normalizeHostname(assignment.task.website);
+      const assigned = interactions.filter(interaction => (timestampOf(interaction) ?? assignedAt) >= assignedAt);
+      const analysis = evaluateTaskOutcome({
+        description: assignment.task.description,
+        website: assignment.task.website,
+        successCriteria: parseList(assignment.task.successCriteria)
+      }, assigned);
+
+      const status = analysis.verdict === 'completed'
+        ? TaskAssignmentStatus.COMPLETED
+        : analysis.verdict === 'failed' ? TaskAssignmentStatus.FAILED : assignment.status;
+
+      // Timed on the interactions the verdict was based on, not later browsing elsewhere in the session
+      const relevant = assigned.filter(interaction => onSite(urlOf(interaction), site));
+      const lastTimestamp = Math.max(0, ...relevant.map(interaction => timestampOf(interaction) || 0));
+      const completionTime = assignment.completionTime
+        ?? (status === TaskAssignmentStatus.COMPLETED && lastTimestamp > assignedAt ? Math.round((lastTimestamp - assignedAt) / 1000) : undefined);
+
+      await this.prisma.taskAssignment.update({
+        where: { id: assignment.id },
+        data: { status, outcomeAnalysis: JSON.stringify(analysis), completionTime }
+      });
+
+      this.logger.info('Task assignment verified', {
+        sessionId,
+        assignmentId: assignment.id,
+        verdict: analysis.verdict,
+        previousStatus: assignment.status,
+        status,
+        ...analysis.summary
+      });
+
+      results.push({ assignmentId: assignment.id, taskId: assignment.taskId, previousStatus: assignment.status, status, analysis });
+    }
+
+    return results;
+  }
+}
+
+function parseList(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
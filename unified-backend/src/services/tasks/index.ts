@@ -0,0 +1,16 @@
+/**
+ * Task Catalog - Main Export
+ *
+ * Site profiles and versioned, parameterized task templates live in the
+ * database so new retailers and tasks can be added through the API; site
+ * profiles can be filled in from the world model. Completed sessions are
+ * checked against their task's success criteria, and the assignment engine
+ * picks each worker's next task from their skill profile and the gaps in
+ * training data coverage.
+ */
+
+export * from './template-variables';
+export * from './task-catalog';
+export * from './completion-verifier';
+export * from './worker-profiles';
+export * from './assignment-engine';
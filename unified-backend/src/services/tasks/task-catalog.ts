@@ -0,0 +1,405 @@
+import { Prisma, PrismaClient, SiteProfile, TaskTemplate } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+import { TemplateVariables, validateTemplateVariables } from './template-variables';
+
+export const TEMPLATE_TASK_TYPES = ['simple', 'comparison', 'complex', 'workflow'] as const;
+
+export type TemplateTaskType = typeof TEMPLATE_TASK_TYPES[number];
+
+export interface SiteProfileInput {
+  name?: string | null;
+  description: string;
+  storeType: string;
+  categories: string[];
+  features?: string[];
+  complexity?: string[];
+  products?: string[];
+  productCategories?: string[];
+  localContext?: string | null;
+  deriveFromWorldModel?: boolean;
+}
+
+/** What task generation needs about a site; unknown sites get generic defaults */
+export interface SiteContext {
+  hostname: string;
+  known: boolean;
+  name?: string | null;
+  description: string;
+  storeType: string;
+  categories: string[];
+  features: string[];
+  complexity: string[];
+  products: string[];
+  productCategories: string[];
+  localContext?: string | null;
+}
+
+export interface TaskTemplateInput {
+  key?: string;
+  hostname?: string | null;
+  taskType: TemplateTaskType;
+  category: string;
+  title: string;
+  description: string;
+  steps: string[];
+  successCriteria: string[];
+  variables?: TemplateVariables;
+}
+
+export interface TaskTemplateFilters {
+  hostname?: string;
+  taskType?: string;
+  category?: string;
+}
+
+/**
+ * The world model calls used to derive a site profile; WorldModelService
+ * satisfies this, tests can pass plain objects
+ */
+export interface WorldModelCatalogSource {
+  getDomain(domain: string): Promise<{ _id?: unknown; domain: string; siteName?: string; siteType?: string } | null>;
+  getCategoriesForDomain(domainId: string): Promise<Array<{
+    categoryPath: string;
+    categoryName: string;
+    isActive?: boolean;
+    reliability?: { totalAttempts: number };
+  }>>;
+  getProductsForCategory(domain: string, categoryPath: string): Promise<Array<{ productType: string }>>;
+}
+
+/** No site profile, template or world model domain under the requested key */
+export class TaskCatalogNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskCatalogNotFoundError';
+  }
+}
+
+/** A template with this key already exists */
+export class TaskTemplateConflictError extends Error {
+  constructor(key: string) {
+    super(`Task template ${key} already exists`);
+    this.name = 'TaskTemplateConflictError';
+  }
+}
+
+/** Template text uses placeholders that its variables do not define */
+export class InvalidTaskTemplateError extends Error {
+  constructor(errors: string[]) {
+    super(`Invalid template: ${errors.join('; ')}`);
+    this.name = 'InvalidTaskTemplateError';
+  }
+}
+
+/** Profiles can only be derived when the catalog was given a world model */
+export class WorldModelUnavailableError extends Error {
+  constructor() {
+    super('World model is not available');
+    this.name = 'WorldModelUnavailableError';
+  }
+}
+
+export interface TaskCatalog {
+  listSites(): Promise<SiteProfile[]>;
+  getSite(hostname: string): Promise<SiteProfile | null>;
+  getSiteContext(hostname: string): Promise<SiteContext>;
+  upsertSite(hostname: string, input: SiteProfileInput): Promise<SiteProfile>;
+  deleteSite(hostname: string): Promise<void>;
+  deriveSite(hostname: string): Promise<SiteProfile>;
+  listTemplates(filters?: TaskTemplateFilters): Promise<TaskTemplate[]>;
+  getTemplate(key: string, version?: number): Promise<TaskTemplate | null>;
+  listTemplateVersions(key: string): Promise<TaskTemplate[]>;
+  createTemplate(input: TaskTemplateInput, createdBy?: string): Promise<TaskTemplate>;
+  updateTemplate(key: string, changes: Partial<TaskTemplateInput>, createdBy?: string): Promise<TaskTemplate>;
+  deleteTemplate(key: string): Promise<void>;
+  pickTemplate(hostname: string, taskType: string, category?: string, random?: () => number): Promise<TaskTemplate | null>;
+}
+
+const DEFAULT_SITE: Omit<SiteContext, 'hostname' | 'known'> = {
+  description: 'E-commerce website',
+  storeType: 'Online Retail Store',
+  categories: ['general', 'shopping', 'navigation'],
+  features: ['browse', 'search', 'interact'],
+  complexity: ['basic_navigation', 'simple_interaction'],
+  products: ['various products'],
+  productCategories: []
+};
+
+/** Derived profiles older than this are refreshed on next use */
+const DERIVE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const DERIVED_CATEGORY_LIMIT = 12;
+const DERIVED_PRODUCT_CATEGORY_SCAN = 5;
+const DERIVED_PRODUCT_LIMIT = 12;
+
+/** Profiles are keyed without "www." so www.rei.com and rei.com share one */
+export function normalizeHostname(hostnameOrUrl: string): string {
+  const hostname = hostnameOrUrl.includes('://') ? new URL(hostnameOrUrl).hostname : hostnameOrUrl;
+  return hostname.trim().toLowerCase().replace(/^www\./, '');
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64);
+}
+
+/**
+ * Site profiles and versioned task templates used by TaskGenerationService.
+ * Templates are immutable once written: an update inserts the next version
+ * and retires the previous one, so generated tasks can always be traced to
+ * the exact text they were built from.
+ */
+export class TaskCatalogImpl implements TaskCatalog {
+  private logger: Logger;
+
+  constructor(private prisma: PrismaClient, private worldModel?: WorldModelCatalogSource | null) {
+    this.logger = new Logger('TaskCatalog');
+  }
+
+  async listSites(): Promise<SiteProfile[]> {
+    return this.prisma.siteProfile.findMany({ orderBy: { hostname: 'asc' } });
+  }
+
+  async getSite(hostname: string): Promise<SiteProfile | null> {
+    return this.prisma.siteProfile.findUnique({ where: { hostname: normalizeHostname(hostname) } });
+  }
+
+  /**
+   * Resolved profile for task generation. Sites marked for world model
+   * derivation are refreshed when stale; a failed refresh keeps the stored data.
+   */
+  async getSiteContext(hostname: string): Promise<SiteContext> {
+    const normalized = normalizeHostname(hostname);
+    let profile = await this.getSite(normalized);
+
+    if (profile?.deriveFromWorldModel && this.worldModel &&
+        (!profile.derivedAt || Date.now() - profile.derivedAt.getTime() > DERIVE_MAX_AGE_MS)) {
+      try {
+        profile = await this.deriveSite(normalized);
+      } catch (error) {
+        this.logger.warn('Site profile derivation failed, using stored profile', { hostname: normalized, error: getErrorMessage(error) });
+      }
+    }
+
+    if (!profile) {
+      return { hostname: normalized, known: false, ...DEFAULT_SITE };
+    }
+
+    return {
+      hostname: profile.hostname,
+      known: true,
+      name: profile.name,
+      description: profile.description,
+      storeType: profile.storeType,
+      categories: profile.categories.length > 0 ? profile.categories : DEFAULT_SITE.categories,
+      features: profile.features,
+      complexity: profile.complexity,
+      products: profile.products.length > 0 ? profile.products : DEFAULT_SITE.products,
+      productCategories: profile.productCategories,
+      localContext: profile.localContext
+    };
+  }
+
+  async upsertSite(hostname: string, input: SiteProfileInput): Promise<SiteProfile> {
+    const normalized = normalizeHostname(hostname);
+    const profile = await this.prisma.siteProfile.upsert({
+      where: { hostname: normalized },
+      create: { ...input, hostname: normalized },
+      update: input
+    });
+    this.logger.info('Site profile saved', { hostname: normalized });
+    return profile;
+  }
+
+  async deleteSite(hostname: string): Promise<void> {
+    try {
+      await this.prisma.siteProfile.delete({ where: { hostname: normalizeHostname(hostname) } });
+    } catch (error: any) {
+      if (error?.code === 'P2025') {
+        throw new TaskCatalogNotFoundError(`Site profile ${hostname} not found`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a profile's product types and catalog sections with what the
+   * world model has learned about the domain, creating the profile if needed
+   */
+  async deriveSite(hostname: string): Promise<SiteProfile> {
+    if (!this.worldModel) {
+      throw new WorldModelUnavailableError();
+    }
+
+    const normalized = normalizeHostname(hostname);
+    const domain = await this.worldModel.getDomain(normalized) || await this.worldModel.getDomain(`www.${normalized}`);
+    if (!domain) {
+      throw new TaskCatalogNotFoundError(`World model has no domain ${normalized}`);
+    }
+
+    const categories = (await this.worldModel.getCategoriesForDomain(String(domain._id)))
+      .filter(category => category.isActive !== false)
+      .sort((a, b) => (b.reliability?.totalAttempts || 0) - (a.reliability?.totalAttempts || 0));
+
+    const productCategories = Array.from(new Set(categories.map(category => category.categoryName))).slice(0, DERIVED_CATEGORY_LIMIT);
+    const productTypes = new Set<string>();
+    for (const category of categories.slice(0, DERIVED_PRODUCT_CATEGORY_SCAN)) {
+      for (const product of await this.worldModel.getProductsForCategory(domain.domain, category.categoryPath)) {
+        if (product.productType) productTypes.add(product.productType.trim().toLowerCase());
+      }
+    }
+    const products = Array.from(productTypes).slice(0, DERIVED_PRODUCT_LIMIT);
+
+    const existing = await this.prisma.siteProfile.findUnique({ where: { hostname: normalized } });
+    const derived = {
+      ...(products.length > 0 ? { products } : {}),
+      ...(productCategories.length > 0 ? { productCategories } : {}),
+      derivedAt: new Date()
+    };
+
+    const profile = existing
+      ? await this.prisma.siteProfile.update({ where: { hostname: normalized }, data: { ...derived, name: existing.name ?? domain.siteName } })
+      : await this.prisma.siteProfile.create({
+          data: {
+            hostname: normalized,
+            name: domain.siteName,
+            description: `${domain.siteName || normalized} online store`,
+            storeType: domain.siteType || DEFAULT_SITE.storeType,
+            categories: ['shopping'],
+            deriveFromWorldModel: true,
+            ...derived
+          }
+        });
+
+    this.logger.info('Site profile derived from world model', { hostname: normalized, products: products.length, productCategories: productCategories.length });
+    return profile;
+  }
+
+  async listTemplates(filters: TaskTemplateFilters = {}): Promise<TaskTemplate[]> {
+    return this.prisma.taskTemplate.findMany({
+      where: {
+        active: true,
+        ...(filters.hostname !== undefined ? { hostname: filters.hostname ? normalizeHostname(filters.hostname) : null } : {}),
+        ...(filters.taskType ? { taskType: filters.taskType } : {}),
+        ...(filters.category ? { category: filters.category } : {})
+      },
+      orderBy: [{ hostname: 'asc' }, { key: 'asc' }]
+    });
+  }
+
+  async getTemplate(key: string, version?: number): Promise<TaskTemplate | null> {
+    return this.prisma.taskTemplate.findFirst({
+      where: { key, ...(version ? { version } : {}) },
+      orderBy: { version: 'desc' }
+    });
+  }
+
+  async listTemplateVersions(key: string): Promise<TaskTemplate[]> {
+    return this.prisma.taskTemplate.findMany({ where: { key }, orderBy: { version: 'desc' } });
+  }
+
+  async createTemplate(input: TaskTemplateInput, createdBy?: string): Promise<TaskTemplate> {
+    const hostname = input.hostname ? normalizeHostname(input.hostname) : null;
+    const key = input.key || slugify(`${hostname || 'any'} ${input.title}`);
+    this.validate(input);
+
+    if (await this.prisma.taskTemplate.findFirst({ where: { key } })) {
+      throw new TaskTemplateConflictError(key);
+    }
+
+    const template = await this.prisma.taskTemplate.create({
+      data: this.toData({ ...input, hostname }, key, 1, createdBy)
+    });
+    this.logger.info('Task template created', { key, hostname });
+    return template;
+  }
+
+  async updateTemplate(key: string, changes: Partial<TaskTemplateInput>, createdBy?: string): Promise<TaskTemplate> {
+    const current = await this.prisma.taskTemplate.findFirst({ where: { key, active: true }, orderBy: { version: 'desc' } });
+    if (!current) {
+      throw new TaskCatalogNotFoundError(`Task template ${key} not found`);
+    }
+
+    const merged: TaskTemplateInput = {
+      hostname: changes.hostname !== undefined ? (changes.hostname ? normalizeHostname(changes.hostname) : null) : current.hostname,
+      taskType: changes.taskType ?? current.taskType as TemplateTaskType,
+      category: changes.category ?? current.category,
+      title: changes.title ?? current.title,
+      description: changes.description ?? current.description,
+      steps: changes.steps ?? current.steps,
+      successCriteria: changes.successCriteria ?? current.successCriteria,
+      variables: changes.variables ?? current.variables as unknown as TemplateVariables
+    };
+    this.validate(merged);
+
+    const [, template] = await this.prisma.$transaction([
+      this.prisma.taskTemplate.update({ where: { id: current.id }, data: { active: false } }),
+      this.prisma.taskTemplate.create({ data: this.toData(merged, key, current.version + 1, createdBy) })
+    ]);
+
+    this.logger.info('Task template updated', { key, version: template.version });
+    return template;
+  }
+
+  /**
+   * Retire every version; old versions stay readable for tasks that used them
+   */
+  async deleteTemplate(key: string): Promise<void> {
+    const { count } = await this.prisma.taskTemplate.updateMany({ where: { key, active: true }, data: { active: false } });
+    if (count === 0) {
+      throw new TaskCatalogNotFoundError(`Task template ${key} not found`);
+    }
+    this.logger.info('Task template retired', { key });
+  }
+
+  /**
+   * Choose a template for a site, preferring the site's own templates over
+   * generic ones, then an exact task type, then an exact category
+   */
+  async pickTemplate(hostname: string, taskType: string, category?: string, random: () => number = Math.random): Promise<TaskTemplate | null> {
+    const normalized = normalizeHostname(hostname);
+    const candidates = await this.prisma.taskTemplate.findMany({
+      where: { active: true, OR: [{ hostname: normalized }, { hostname: null }] }
+    });
+
+    const tiers: Array<(template: TaskTemplate) => boolean> = [];
+    for (const site of [normalized, null]) {
+      tiers.push(
+        template => template.hostname === site && template.taskType === taskType && template.category === category,
+        template => template.hostname === site && template.taskType === taskType,
+        template => template.hostname === site && template.category === category,
+        template => template.hostname === site
+      );
+    }
+
+    for (const matches of tiers) {
+      const tier = candidates.filter(matches);
+      if (tier.length > 0) {
+        return tier[Math.floor(random() * tier.length)];
+      }
+    }
+    return null;
+  }
+
+  private validate(input: TaskTemplateInput): void {
+    const errors = validateTemplateVariables(input.variables || {}, [input.title, input.description, ...input.steps, ...input.successCriteria]);
+    if (errors.length > 0) {
+      throw new InvalidTaskTemplateError(errors);
+    }
+  }
+
+  private toData(input: TaskTemplateInput, key: string, version: number, createdBy?: string): Prisma.TaskTemplateCreateInput {
+    return {
+      key,
+      version,
+      hostname: input.hostname || null,
+      taskType: input.taskType,
+      category: input.category,
+      title: input.title,
+      description: input.description,
+      steps: input.steps,
+      successCriteria: input.successCriteria,
+      variables: (input.variables || {}) as Prisma.InputJsonValue,
+      createdBy: createdBy || null
+    };
+  }
+}
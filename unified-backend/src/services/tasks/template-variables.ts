@@ -0,0 +1,139 @@
+/**
+ * Typed generators for `{placeholder}` variables in task templates
+ */
+
+export type TemplateVariable =
+  | { type: 'choice'; options: string[] }
+  | { type: 'integer'; min: number; max: number }
+  | { type: 'price'; min: number; max: number; step?: number; currency?: string }
+  /** A product type the site sells (from its profile, possibly derived from the world model) */
+  | { type: 'site_product' }
+  /** One of the site's catalog sections */
+  | { type: 'site_category' };
+
+export type TemplateVariableType = TemplateVariable['type'];
+
+export const TEMPLATE_VARIABLE_TYPES: TemplateVariableType[] = ['choice', 'integer', 'price', 'site_product', 'site_category'];
+
+export type TemplateVariables = Record<string, TemplateVariable>;
+
+/** Used for placeholders a template does not declare */
+export const DEFAULT_TEMPLATE_VARIABLES: TemplateVariables = {
+  product: { type: 'site_product' },
+  products: { type: 'site_product' },
+  gear: { type: 'site_product' },
+  category: { type: 'site_category' },
+  price: { type: 'price', min: 50, max: 200, step: 25 },
+  budget: { type: 'price', min: 150, max: 500, step: 50 },
+  number: { type: 'integer', min: 2, max: 5 }
+};
+
+export interface VariableSiteContext {
+  products: string[];
+  productCategories: string[];
+}
+
+const PLACEHOLDER = /\{([a-zA-Z0-9_]+)\}/g;
+
+/**
+ * Distinct placeholder names used anywhere in the given strings
+ */
+export function extractPlaceholders(texts: string[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Problems with a template's variable schemas; an empty list means it is usable
+ */
+export function validateTemplateVariables(variables: TemplateVariables, texts: string[]): string[] {
+  const errors: string[] = [];
+
+  for (const [name, variable] of Object.entries(variables)) {
+    switch (variable?.type) {
+      case 'choice':
+        if (!Array.isArray(variable.options) || variable.options.length === 0 || variable.options.some(option => typeof option !== 'string')) {
+          errors.push(`Variable ${name} needs a non-empty list of string options`);
+        }
+        break;
+      case 'integer':
+      case 'price':
+        if (!Number.isFinite(variable.min) || !Number.isFinite(variable.max) || variable.min > variable.max) {
+          errors.push(`Variable ${name} needs numeric min <= max`);
+        }
+        if (variable.type === 'price' && variable.step !== undefined && !(variable.step > 0)) {
+          errors.push(`Variable ${name} step must be positive`);
+        }
+        break;
+      case 'site_product':
+      case 'site_category':
+        break;
+      default:
+        errors.push(`Variable ${name} has unknown type; expected one of ${TEMPLATE_VARIABLE_TYPES.join(', ')}`);
+    }
+  }
+
+  for (const placeholder of extractPlaceholders(texts)) {
+    if (!variables[placeholder] && !DEFAULT_TEMPLATE_VARIABLES[placeholder]) {
+      errors.push(`Placeholder {${placeholder}} has no variable schema`);
+    }
+  }
+
+  return errors;
+}
+
+export function generateVariableValue(
+  variable: TemplateVariable,
+  site: VariableSiteContext,
+  random: () => number = Math.random
+): string {
+  const pick = (options: string[], fallback: string) => options.length > 0 ? options[Math.floor(random() * options.length)] : fallback;
+
+  switch (variable.type) {
+    case 'choice':
+      return pick(variable.options, '');
+    case 'integer':
+      return String(variable.min + Math.floor(random() * (variable.max - variable.min + 1)));
+    case 'price': {
+      const step = variable.step || 1;
+      const steps = Math.floor((variable.max - variable.min) / step);
+      return `${variable.currency ?? '$'}${variable.min + Math.floor(random() * (steps + 1)) * step}`;
+    }
+    case 'site_product':
+      return pick(site.products, 'product');
+    case 'site_category':
+      return pick(site.productCategories, 'featured items');
+  }
+}
+
+/**
+ * Fill every placeholder in the given strings; undeclared placeholders fall
+ * back to DEFAULT_TEMPLATE_VARIABLES, unknown ones are left as the bare name
+ * @returns The filled strings and the values chosen for each placeholder
+ */
+export function renderTemplateText<T extends Record<string, string | string[]>>(
+  texts: T,
+  variables: TemplateVariables,
+  site: VariableSiteContext,
+  random: () => number = Math.random
+): { rendered: T; values: Record<string, string> } {
+  const all = Object.values(texts).flat();
+  const values: Record<string, string> = {};
+  for (const name of extractPlaceholders(all)) {
+    const variable = variables[name] || DEFAULT_TEMPLATE_VARIABLES[name];
+    values[name] = variable ? generateVariableValue(variable, site, random) : name;
+  }
+
+  const fill = (text: string) => text.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match);
+  const rendered: Record<string, string | string[]> = {};
+  for (const [key, value] of Object.entries(texts)) {
+    rendered[key] = Array.isArray(value) ? value.map(fill) : fill(value);
+  }
+
+  return { rendered: rendered as T, values };
+}
@@ -0,0 +1,143 @@
+import { TaskAssignmentStatus, TaskDifficulty } from '@prisma/client';
+
+export const DIFFICULTY_LEVELS: TaskDifficulty[] = [TaskDifficulty.BEGINNER, TaskDifficulty.INTERMEDIATE, TaskDifficulty.ADVANCED];
+
+/** Success rate a worker should land in; outside it their difficulty moves one level */
+export interface SuccessBand {
+  min: number;
+  max: number;
+}
+
+export const DEFAULT_SUCCESS_BAND: SuccessBand = { min: 0.6, max: 0.85 };
+
+export interface SkillProfileOptions {
+  band: SuccessBand;
+  /** Finished tasks at the current level before the difficulty may move */
+  minAttempts: number;
+  /** How many of the latest finished tasks describe the worker's current level */
+  recentWindow: number;
+  /** Completed tasks from sessions scored below this count as failures */
+  minQualityScore: number;
+}
+
+export const DEFAULT_SKILL_PROFILE_OPTIONS: SkillProfileOptions = {
+  band: DEFAULT_SUCCESS_BAND,
+  minAttempts: 5,
+  recentWindow: 10,
+  minQualityScore: 50
+};
+
+/** One past assignment with the task and session data a profile needs */
+export interface AssignmentOutcome {
+  status: TaskAssignmentStatus;
+  difficulty: TaskDifficulty;
+  type: string;
+  website: string;
+  assignedAt: Date;
+  /** Session quality score; 0 or null while the session is unscored */
+  qualityScore: number | null;
+}
+
+export interface OutcomeStats {
+  attempts: number;
+  succeeded: number;
+  successRate: number;
+}
+
+export interface WorkerSkillProfile {
+  workerId: string;
+  totalAssignments: number;
+  finished: number;
+  successRate: number;
+  averageQualityScore: number | null;
+  byDifficulty: Record<TaskDifficulty, OutcomeStats>;
+  byType: Record<string, OutcomeStats>;
+  currentDifficulty: TaskDifficulty;
+  recentSuccessRate: number | null;
+  recommendedDifficulty: TaskDifficulty;
+  /** Hostnames of the latest assignments, newest first */
+  recentSites: string[];
+}
+
+const FINISHED_STATUSES: TaskAssignmentStatus[] = [TaskAssignmentStatus.COMPLETED, TaskAssignmentStatus.FAILED, TaskAssignmentStatus.ABANDONED];
+
+function stats(outcomes: AssignmentOutcome[], succeeded: (outcome: AssignmentOutcome) => boolean): OutcomeStats {
+  const wins = outcomes.filter(succeeded).length;
+  return { attempts: outcomes.length, succeeded: wins, successRate: outcomes.length > 0 ? wins / outcomes.length : 0 };
+}
+
+function hostnameOf(website: string): string {
+  try {
+    return new URL(website).hostname.replace(/^www\./, '');
+  } catch {
+    return website;
+  }
+}
+
+/**
+ * Summarise a worker's finished assignments and pick the difficulty that
+ * keeps their success rate inside the band: a level up when recent work at
+ * the current level is too easy, a level down when it is too hard
+ */
+export function buildSkillProfile(
+  workerId: string,
+  outcomes: AssignmentOutcome[],
+  options: Partial<SkillProfileOptions> = {}
+): WorkerSkillProfile {
+  const { band, minAttempts, recentWindow, minQualityScore } = { ...DEFAULT_SKILL_PROFILE_OPTIONS, ...options };
+  const newestFirst = [...outcomes].sort((a, b) => b.assignedAt.getTime() - a.assignedAt.getTime());
+  const finished = newestFirst.filter(outcome => FINISHED_STATUSES.includes(outcome.status));
+
+  // Unusable data is not a success for training purposes
+  const succeeded = (outcome: AssignmentOutcome) => outcome.status === TaskAssignmentStatus.COMPLETED
+    && !(outcome.qualityScore && outcome.qualityScore < minQualityScore);
+
+  const byDifficulty = Object.fromEntries(
+    DIFFICULTY_LEVELS.map(level => [level, stats(finished.filter(outcome => outcome.difficulty === level), succeeded)])
+  ) as Record<TaskDifficulty, OutcomeStats>;
+
+  const byType: Record<string, OutcomeStats> = {};
+  for (const type of new Set(finished.map(outcome => outcome.type))) {
+    byType[type] = stats(finished.filter(outcome => outcome.type === type), succeeded);
+  }
+
+  const scored = finished.map(outcome => outcome.qualityScore).filter((score): score is number => !!score);
+
+  const recent = finished.slice(0, recentWindow);
+  const currentDifficulty = mostCommon(recent.map(outcome => outcome.difficulty)) ?? TaskDifficulty.BEGINNER;
+  const recentAtLevel = stats(recent.filter(outcome => outcome.difficulty === currentDifficulty), succeeded);
+
+  let recommendedDifficulty = currentDifficulty;
+  if (recentAtLevel.attempts >= minAttempts) {
+    const index = DIFFICULTY_LEVELS.indexOf(currentDifficulty);
+    if (recentAtLevel.successRate > band.max && index < DIFFICULTY_LEVELS.length - 1) {
+      recommendedDifficulty = DIFFICULTY_LEVELS[index + 1];
+    } else if (recentAtLevel.successRate < band.min && index > 0) {
+      recommendedDifficulty = DIFFICULTY_LEVELS[index - 1];
+    }
+  }
+
+  return {
+    workerId,
+    totalAssignments: outcomes.length,
+    finished: finished.length,
+    successRate: stats(finished, succeeded).successRate,
+    averageQualityScore: scored.length > 0 ? scored.reduce((sum, score) => sum + score, 0) / scored.length : null,
+    byDifficulty,
+    byType,
+    currentDifficulty,
+    recentSuccessRate: recentAtLevel.attempts > 0 ? recentAtLevel.successRate : null,
+    recommendedDifficulty,
+    recentSites: newestFirst.slice(0, recentWindow).map(outcome => hostnameOf(outcome.website))
+  };
+}
+
+function mostCommon<T>(values: T[]): T | undefined {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  let best: T | undefined;
+  for (const [value, count] of counts) {
+    if (best === undefined || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
@@ -0,0 +1,225 @@
+/**
+ * Dataset Builder Tests
+ *
+ * Tests example selection, near-duplicate removal, per-domain splits and
+ * snapshot checksums
+ */
+
+import { DatasetBuilderImpl, EmptyDatasetError } from '../dataset-builder';
+import { FakeLLMProvider } from '../../llm';
+
+// Mock Prisma Client
+const mockPrisma = {
+  unifiedSession: {
+    findMany: jest.fn()
+  },
+  enhancedInteraction: {
+    findMany: jest.fn(() => Promise.resolve([]))
+  },
+  trainingDataset: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn()
+  }
+} as any;
+
+const buildSession = (id: string, url: string) => ({
+  id,
+  qualityScore: 80,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  enhancedInteractions: [{ context: { url } }],
+  interactions: []
+});
+
+const buildExample = (prompt: string, overrides: Record<string, any> = {}) => ({
+  prompt,
+  completion: `await page.click('#${prompt.replace(/\W+/g, '-')}')`,
+  exampleType: 'fine_tuning',
+  context: {},
+  quality: { score: 0.8, factors: {} },
+  ...overrides
+});
+
+// Prefixes must differ in letters, not digits, or examples collapse as near-duplicates
+const examplesFor = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, i) => buildExample(`${prefix} step ${String.fromCharCode(97 + i)}`));
+
+describe('DatasetBuilder', () => {
+  let provider: FakeLLMProvider;
+  let openaiService: any;
+  let builder: DatasetBuilderImpl;
+  let stored: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new FakeLLMProvider();
+    openaiService = {
+      generateTrainingData: jest.fn(),
+      services: { llmProvider: provider }
+    };
+    builder = new DatasetBuilderImpl(mockPrisma, openaiService);
+
+    stored = null;
+    mockPrisma.trainingDataset.findFirst.mockResolvedValue(null);
+    mockPrisma.trainingDataset.create.mockImplementation(({ data }: any) => {
+      stored = { id: 'dataset-1', createdAt: new Date(), ...data };
+      return Promise.resolve(stored);
+    });
+    // Hand the manifest back with its keys reordered, like JSONB does
+    mockPrisma.trainingDataset.findUnique.mockImplementation(() => Promise.resolve(stored && {
+      ...stored,
+      manifest: Object.fromEntries(Object.entries(stored.manifest).reverse())
+    }));
+  });
+
+  describe('🔎 Selection', () => {
+    it('should filter by example type, example quality and domain', async () => {
+      mockPrisma.unifiedSession.findMany.mockResolvedValue([
+        buildSession('s1', 'https://www.nordstrom.com/s/shirt'),
+        buildSession('s2', 'https://www.target.com/p/lamp')
+      ]);
+      openaiService.generateTrainingData.mockImplementation((session: any) => Promise.resolve({
+        examples: session.id === 's1'
+          ? [
+            buildExample('open product'),
+            buildExample('checkout flow', { exampleType: 'sequence' }),
+            buildExample('weak example', { quality: { score: 0.2, factors: {} } })
+          ]
+          : [buildExample('target lamp')]
+      }));
+
+      const dataset = await builder.buildDataset({
+        name: 'nordstrom',
+        selection: { domains: ['nordstrom.com'], exampleTypes: ['fine_tuning'], minExampleQuality: 0.5 },
+        split: { validationRatio: 0 }
+      });
+
+      expect(openaiService.generateTrainingData).toHaveBeenCalledTimes(1);
+      expect(dataset.trainCount).toBe(1);
+      expect(dataset.sessionCount).toBe(1);
+      expect(stored.trainJsonl).toContain('open product');
+      expect(stored.manifest).toEqual(expect.objectContaining({
+        sessionIds: ['s1'],
+        candidates: 2,
+        belowQuality: 1
+      }));
+    });
+
+    it('should drop near-duplicates and keep the better-scored copy', async () => {
+      mockPrisma.unifiedSession.findMany.mockResolvedValue([buildSession('s1', 'https://shop.example.com')]);
+      openaiService.generateTrainingData.mockResolvedValue({
+        examples: [
+          buildExample('Add item 123 to cart', { completion: 'click #add-123', quality: { score: 0.6, factors: {} } }),
+          buildExample('add  item 456 to CART', { completion: 'click #add-456', quality: { score: 0.9, factors: {} } })
+        ]
+      });
+
+      await builder.buildDataset({ name: 'dedup', selection: {}, split: { validationRatio: 0 } });
+
+      expect(stored.trainCount).toBe(1);
+      expect(stored.manifest.duplicatesRemoved).toBe(1);
+      expect(stored.trainJsonl).toContain('#add-456');
+    });
+
+    it('should list the session whose copy won the dedup, not the one it replaced', async () => {
+      mockPrisma.unifiedSession.findMany.mockResolvedValue([
+        buildSession('s1', 'https://shop.example.com'),
+        buildSession('s2', 'https://shop.example.com')
+      ]);
+      openaiService.generateTrainingData.mockImplementation((session: any) => Promise.resolve({
+        examples: session.id === 's1'
+          ? [buildExample('Add item 123 to cart', { completion: 'click #add-123', quality: { score: 0.6, factors: {} } })]
+          : [buildExample('add item 456 to cart', { completion: 'click #add-456', quality: { score: 0.9, factors: {} } })]
+      }));
+
+      const dataset = await builder.buildDataset({ name: 'dedup', selection: {}, split: { validationRatio: 0 } });
+
+      expect(stored.trainJsonl).toContain('#add-456');
+      expect(stored.manifest.sessionIds).toEqual(['s2']);
+      expect(dataset.sessionCount).toBe(1);
+    });
+
+    it('should refuse to store an empty snapshot', async () => {
+      mockPrisma.unifiedSession.findMany.mockResolvedValue([]);
+
+      await expect(builder.buildDataset({ name: 'empty', selection: {} }))
+        .rejects.toBeInstanceOf(EmptyDatasetError);
+      expect(mockPrisma.trainingDataset.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('✂️ Splitting', () => {
+    beforeEach(() => {
+      mockPrisma.unifiedSession.findMany.mockResolvedValue([
+        buildSession('alpha', 'https://a.example.com'),
+        buildSession('beta', 'https://b.example.com'),
+        buildSession('gamma', 'https://c.example.com')
+      ]);
+      openaiService.generateTrainingData.mockImplementation((session: any) => Promise.resolve({
+        examples: session.id === 'gamma' ? examplesFor(session.id, 1) : examplesFor(session.id, 10)
+      }));
+    });
+
+    it('should hold out validation examples from every multi-example domain', async () => {
+      await builder.buildDataset({ name: 'split', selection: {}, split: { validationRatio: 0.2, seed: 'a' } });
+
+      expect(stored.manifest.domains).toEqual({
+        'a.example.com': { train: 8, validation: 2 },
+        'b.example.com': { train: 8, validation: 2 },
+        'c.example.com': { train: 1, validation: 0 }
+      });
+      expect(stored.validationCount).toBe(4);
+    });
+
+    it('should produce identical snapshots for the same seed', async () => {
+      await builder.buildDataset({ name: 'split', selection: {}, split: { validationRatio: 0.2, seed: 'a' } });
+      const first = stored;
+      await builder.buildDataset({ name: 'split', selection: {}, split: { validationRatio: 0.2, seed: 'a' } });
+
+      expect(stored.trainChecksum).toBe(first.trainChecksum);
+      expect(stored.validationChecksum).toBe(first.validationChecksum);
+    });
+  });
+
+  describe('📦 Snapshots', () => {
+    beforeEach(() => {
+      mockPrisma.unifiedSession.findMany.mockResolvedValue([buildSession('s1', 'https://shop.example.com')]);
+      openaiService.generateTrainingData.mockResolvedValue({ examples: examplesFor('shop', 5) });
+    });
+
+    it('should version snapshots per dataset name', async () => {
+      mockPrisma.trainingDataset.findFirst.mockResolvedValue({ version: 3 });
+
+      const dataset = await builder.buildDataset({ name: 'shop', selection: {} });
+
+      expect(dataset.version).toBe(4);
+    });
+
+    it('should verify checksums and detect tampering', async () => {
+      await builder.buildDataset({ name: 'shop', selection: {} });
+
+      expect((await builder.verifyDataset('dataset-1')).valid).toBe(true);
+
+      stored.trainJsonl += '\n{"messages":[]}';
+      const verification = await builder.verifyDataset('dataset-1');
+      expect(verification.valid).toBe(false);
+      expect(verification.mismatches).toEqual(['train']);
+    });
+
+    it('should upload both splits to the provider', async () => {
+      await builder.buildDataset({ name: 'shop', selection: {}, split: { validationRatio: 0.2 } });
+
+      const files = await builder.uploadDataset('dataset-1');
+
+      expect(files.trainingFileId).toBeDefined();
+      expect(files.validationFileId).toBeDefined();
+      const job = await provider.createFineTuneJob({
+        trainingFileId: files.trainingFileId,
+        validationFileId: files.validationFileId,
+        model: 'gpt-4o-mini-2024-07-18'
+      });
+      expect(job.trainingFileId).toBe(files.trainingFileId);
+    });
+  });
+});
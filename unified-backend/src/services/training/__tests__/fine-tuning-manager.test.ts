@@ -0,0 +1,190 @@
+/**
+ * Fine-Tuning Manager Tests
+ *
+ * Tests job recording, status sync into TrainingData, cancellation and
+ * model testing against the fake LLM provider
+ */
+
+import { FineTuningJobStateError, FineTuningManagerImpl, FineTuningNotFoundError } from '../fine-tuning-manager';
+import { OpenAIIntegrationService } from '../../openai-integration-clean';
+import { FakeLLMProvider } from '../../llm';
+
+// Mock Prisma Client
+const mockPrisma = {
+  fineTuningJob: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn()
+  },
+  trainingData: {
+    updateMany: jest.fn(),
+    groupBy: jest.fn()
+  }
+} as any;
+
+const buildJob = (overrides: Record<string, any> = {}) => ({
+  id: 'record-1',
+  jobId: 'ftjob-1',
+  fileId: 'file-1',
+  trainingDataId: null,
+  model: 'gpt-4o-mini-2024-07-18',
+  suffix: 'codesight',
+  hyperparameters: { n_epochs: 3 },
+  status: 'validating_files',
+  trainedTokens: 0,
+  estimatedFinish: null,
+  fineTunedModel: null,
+  resultFiles: [],
+  error: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+describe('FineTuningManager', () => {
+  let provider: FakeLLMProvider;
+  let manager: FineTuningManagerImpl;
+  let stored: any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new FakeLLMProvider();
+    manager = new FineTuningManagerImpl(mockPrisma, new OpenAIIntegrationService(provider));
+
+    // Keep a single in-memory row so create/update/find stay consistent
+    stored = null;
+    mockPrisma.fineTuningJob.create.mockImplementation(({ data }: any) => {
+      stored = buildJob(data);
+      return Promise.resolve(stored);
+    });
+    mockPrisma.fineTuningJob.findUnique.mockImplementation(() => Promise.resolve(stored));
+    mockPrisma.fineTuningJob.update.mockImplementation(({ data }: any) => {
+      stored = { ...stored, ...data, updatedAt: new Date() };
+      return Promise.resolve(stored);
+    });
+  });
+
+  const createTrackedJob = async (trainingDataIds: string[] = ['td-1', 'td-2']) => {
+    const file = await provider.uploadFile('{"messages":[]}\n', 'training.jsonl', 'fine-tune');
+    return manager.createJob({
+      fileId: file.id,
+      config: { model: 'gpt-4o-mini-2024-07-18', hyperparameters: { n_epochs: 3, batch_size: 1, learning_rate_multiplier: 0.1 }, suffix: 'codesight' },
+      trainingDataIds
+    });
+  };
+
+  describe('📝 Job Creation', () => {
+    it('should record the provider job and link training data', async () => {
+      const job = await createTrackedJob();
+
+      expect(job.jobId).toMatch(/^ftjob-/);
+      expect(mockPrisma.fineTuningJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          jobId: job.jobId,
+          trainingDataId: null,
+          suffix: 'codesight',
+          status: 'validating_files'
+        })
+      });
+      expect(mockPrisma.trainingData.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['td-1', 'td-2'] } },
+        data: expect.objectContaining({ trainingJobId: job.jobId, status: 'TRAINING' })
+      });
+    });
+  });
+
+  describe('🔄 Status Sync', () => {
+    it('should return null for untracked jobs', async () => {
+      expect(await manager.syncJob('ftjob-unknown')).toBeNull();
+    });
+
+    it('should mark training data completed with the fine-tuned model', async () => {
+      const job = await createTrackedJob(['td-1']);
+
+      expect((await manager.syncJob(job.jobId))!.status).toBe('running');
+      const finished = await manager.syncJob(job.jobId);
+
+      expect(finished!.status).toBe('succeeded');
+      expect(finished!.fineTunedModel).toContain('codesight');
+      expect(mockPrisma.trainingData.updateMany).toHaveBeenLastCalledWith({
+        where: { OR: [{ trainingJobId: job.jobId }, { id: 'td-1' }] },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          modelId: finished!.fineTunedModel,
+          completedAt: expect.any(Date)
+        })
+      });
+    });
+
+    it('should keep polling when one job fails to sync', async () => {
+      const job = await createTrackedJob();
+      mockPrisma.fineTuningJob.findMany.mockResolvedValue([
+        buildJob({ jobId: 'ftjob-gone' }),
+        stored
+      ]);
+      mockPrisma.fineTuningJob.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(where.jobId === job.jobId ? stored : buildJob({ jobId: 'ftjob-gone' }))
+      );
+
+      expect(await manager.pollActiveJobs()).toBe(1);
+    });
+  });
+
+  describe('🛑 Cancellation', () => {
+    it('should cancel active jobs and fail linked training data', async () => {
+      const job = await createTrackedJob();
+
+      const cancelled = await manager.cancelJob(job.jobId);
+
+      expect(cancelled.status).toBe('cancelled');
+      expect(mockPrisma.trainingData.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: 'FAILED' })
+      }));
+    });
+
+    it('should refuse to cancel finished jobs', async () => {
+      stored = buildJob({ status: 'succeeded' });
+
+      await expect(manager.cancelJob('ftjob-1')).rejects.toThrow(new FineTuningJobStateError('ftjob-1', 'succeeded'));
+    });
+  });
+
+  describe('🤖 Models', () => {
+    it('should list models from succeeded jobs', async () => {
+      mockPrisma.fineTuningJob.findMany.mockResolvedValue([
+        buildJob({ status: 'succeeded', fineTunedModel: 'ft:gpt-4o-mini:codesight:1', trainedTokens: 1200 })
+      ]);
+      mockPrisma.trainingData.groupBy.mockResolvedValue([{ trainingJobId: 'ftjob-1', _count: 4 }]);
+
+      const models = await manager.listModels();
+
+      expect(models).toEqual([expect.objectContaining({
+        modelId: 'ft:gpt-4o-mini:codesight:1',
+        jobId: 'ftjob-1',
+        trainedTokens: 1200,
+        trainingDataCount: 4
+      })]);
+    });
+
+    it('should send prompts to the fine-tuned model itself', async () => {
+      mockPrisma.fineTuningJob.findFirst.mockResolvedValue(
+        buildJob({ status: 'succeeded', fineTunedModel: 'ft:gpt-4o-mini:codesight:1' })
+      );
+
+      const result = await manager.testModel('ft:gpt-4o-mini:codesight:1', 'Add the blue shirt to cart');
+
+      expect(result.response).toBeTruthy();
+      const request = provider.requests[provider.requests.length - 1];
+      expect(request.model).toBe('ft:gpt-4o-mini:codesight:1');
+      expect(request.pinModel).toBe(true);
+    });
+
+    it('should reject unknown models', async () => {
+      mockPrisma.fineTuningJob.findFirst.mockResolvedValue(null);
+
+      await expect(manager.testModel('ft:unknown', 'hi')).rejects.toBeInstanceOf(FineTuningNotFoundError);
+    });
+  });
+});
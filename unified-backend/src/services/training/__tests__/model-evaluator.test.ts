@@ -0,0 +1,251 @@
+/**
+ * Model Evaluator Tests
+ *
+ * Tests prediction scoring against recorded interactions, held-out session
+ * selection, scorecard aggregation and queued evaluation runs
+ */
+
+import { ModelEvaluatorImpl, NoEvaluableCasesError, scorePrediction, normalizeActionType } from '../model-evaluator';
+import { FineTuningNotFoundError } from '../fine-tuning-manager';
+import { FakeLLMProvider } from '../../llm';
+
+// Mock Prisma Client
+const mockPrisma = {
+  fineTuningJob: {
+    findFirst: jest.fn()
+  },
+  trainingData: {
+    findMany: jest.fn()
+  },
+  trainingDataset: {
+    findUnique: jest.fn()
+  },
+  unifiedSession: {
+    findMany: jest.fn(),
+    findUnique: jest.fn()
+  },
+  enhancedInteraction: {
+    findMany: jest.fn(() => Promise.resolve([]))
+  },
+  modelEvaluation: {
+    create: jest.fn(),
+    update: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    findFirst: jest.fn()
+  }
+} as any;
+
+const recorded = {
+  selectors: {
+    primary: '[data-testid="add-to-cart"]',
+    alternatives: ['#add-to-cart', 'button.add-cart'],
+    xpath: '//button[@id="add-to-cart"]'
+  },
+  interactionType: 'click'
+};
+
+const completion = (action: string, selector: string) =>
+  `[ACTION]\n${action}\n\n[SELECTOR]\n${selector}\n\n[REASONING]\nUser wants the item`;
+
+describe('ModelEvaluator', () => {
+  describe('🎯 Prediction Scoring', () => {
+    it('should count an exact primary selector match', () => {
+      const score = scorePrediction(completion('Add product to cart', '[data-testid="add-to-cart"]'), recorded);
+
+      expect(score.exactSelectorMatch).toBe(true);
+      expect(score.equivalentSelectorMatch).toBe(true);
+      expect(score.actionTypeMatch).toBe(true);
+      expect(score.parseFailure).toBe(false);
+    });
+
+    it('should accept recorded alternatives as equivalent selectors', () => {
+      const score = scorePrediction(completion('Click add to cart', "await page.click('#add-to-cart')"), recorded);
+
+      expect(score.predictedSelector).toBe('#add-to-cart');
+      expect(score.exactSelectorMatch).toBe(false);
+      expect(score.equivalentSelectorMatch).toBe(true);
+    });
+
+    it('should detect wrong action types and unknown selectors', () => {
+      const score = scorePrediction(completion('Type "shirt" into search', 'input[name="q"]'), recorded);
+
+      expect(score.predictedAction).toBe('INPUT');
+      expect(score.actionTypeMatch).toBe(false);
+      expect(score.equivalentSelectorMatch).toBe(false);
+    });
+
+    it('should flag responses without the expected sections', () => {
+      const score = scorePrediction('I would click the add to cart button.', recorded);
+
+      expect(score.parseFailure).toBe(true);
+      expect(score.predictedSelector).toBeNull();
+    });
+
+    it('should normalize recorded event names onto interaction types', () => {
+      expect(normalizeActionType('change')).toBe('INPUT');
+      expect(normalizeActionType('FORM_SUBMIT')).toBe('FORM_SUBMIT');
+      expect(normalizeActionType(undefined)).toBe('UNKNOWN');
+    });
+  });
+
+  describe('📊 Evaluation Runs', () => {
+    let provider: FakeLLMProvider;
+    let openaiService: any;
+    let jobQueue: any;
+    let scorecards: Map<string, any>;
+    let evaluator: ModelEvaluatorImpl;
+
+    const buildExample = (id: string, prompt: string, overrides: Record<string, any> = {}) => ({
+      prompt,
+      completion: '',
+      exampleType: 'fine_tuning',
+      context: {},
+      quality: { score: 0.9, factors: {} },
+      rawData: {
+        originalInteraction: { id, selectors: recorded.selectors, interaction: { type: 'click' } },
+        processingTime: 1,
+        dataCompletion: 1,
+        enhancementFlags: []
+      },
+      ...overrides
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      provider = new FakeLLMProvider({
+        responses: [
+          { match: 'exact case', content: completion('Add product to cart', '[data-testid="add-to-cart"]') },
+          { match: 'alternative case', content: completion('Select the button', 'button.add-cart') },
+          { match: 'wrong case', content: completion('Scroll down the page', 'footer') }
+        ]
+      });
+      openaiService = { generateTrainingData: jest.fn() };
+      jobQueue = {
+        enqueue: jest.fn().mockImplementation(job => Promise.resolve({ id: 'job-1', ...job })),
+        lease: jest.fn().mockResolvedValue([]),
+        extendLease: jest.fn().mockResolvedValue(true),
+        complete: jest.fn(),
+        fail: jest.fn().mockResolvedValue({ willRetry: false })
+      };
+      evaluator = new ModelEvaluatorImpl(mockPrisma, openaiService, provider, jobQueue);
+
+      mockPrisma.fineTuningJob.findFirst.mockResolvedValue({
+        jobId: 'ftjob-1',
+        datasetId: 'dataset-1',
+        fineTunedModel: 'ft:gpt-4o-mini:codesight:1',
+        status: 'succeeded'
+      });
+      mockPrisma.trainingData.findMany.mockResolvedValue([{ sessionId: 'trained-a' }]);
+      mockPrisma.trainingDataset.findUnique.mockResolvedValue({ manifest: { sessionIds: ['trained-b'] } });
+      mockPrisma.unifiedSession.findMany.mockResolvedValue([{ id: 'held-out-1' }]);
+      mockPrisma.unifiedSession.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve({ id: where.id, interactions: [] })
+      );
+      scorecards = new Map();
+      mockPrisma.modelEvaluation.create.mockImplementation(({ data }: any) => {
+        const scorecard = { id: `evaluation-${scorecards.size + 1}`, status: 'PENDING', createdAt: new Date(), ...data };
+        scorecards.set(scorecard.id, scorecard);
+        return Promise.resolve({ ...scorecard });
+      });
+      mockPrisma.modelEvaluation.findUnique.mockImplementation(({ where }: any) =>
+        Promise.resolve(scorecards.has(where.id) ? { ...scorecards.get(where.id) } : null)
+      );
+      mockPrisma.modelEvaluation.update.mockImplementation(({ where, data }: any) => {
+        Object.assign(scorecards.get(where.id), data);
+        return Promise.resolve({ ...scorecards.get(where.id) });
+      });
+      openaiService.generateTrainingData.mockResolvedValue({
+        examples: [
+          buildExample('i1', 'exact case'),
+          buildExample('i2', 'alternative case'),
+          buildExample('i3', 'wrong case'),
+          buildExample('seq', 'sequence case', { exampleType: 'sequence' })
+        ]
+      });
+    });
+
+    it('should replay only sessions the model was not trained on', async () => {
+      await evaluator.evaluateModel({ modelId: 'ft:gpt-4o-mini:codesight:1' });
+
+      expect(mockPrisma.unifiedSession.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'COMPLETED', id: { notIn: ['trained-a', 'trained-b'] } }
+      }));
+      expect(mockPrisma.unifiedSession.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'held-out-1' }
+      }));
+    });
+
+    it('should aggregate per-case outcomes into a scorecard', async () => {
+      const scorecard = await evaluator.evaluateModel({ modelId: 'ft:gpt-4o-mini:codesight:1', sessionIds: ['s1'] });
+
+      expect(scorecard.caseCount).toBe(3);
+      expect(scorecard.exactSelectorAccuracy).toBeCloseTo(1 / 3);
+      expect(scorecard.equivalentSelectorAccuracy).toBeCloseTo(2 / 3);
+      expect(scorecard.actionTypeAccuracy).toBeCloseTo(2 / 3);
+      expect(scorecard.parseFailureRate).toBe(0);
+      expect(provider.requests.every(request => request.pinModel && request.model === 'ft:gpt-4o-mini:codesight:1')).toBe(true);
+    });
+
+    it('should respect maxCases', async () => {
+      const scorecard = await evaluator.evaluateModel({ modelId: 'ft:gpt-4o-mini:codesight:1', sessionIds: ['s1'], maxCases: 1 });
+
+      expect(scorecard.caseCount).toBe(1);
+      expect(provider.requests).toHaveLength(1);
+    });
+
+    it('should reject models that were not produced by a succeeded job', async () => {
+      mockPrisma.fineTuningJob.findFirst.mockResolvedValue(null);
+
+      await expect(evaluator.evaluateModel({ modelId: 'ft:unknown' })).rejects.toBeInstanceOf(FineTuningNotFoundError);
+      expect(mockPrisma.modelEvaluation.create).not.toHaveBeenCalled();
+    });
+
+    it('should store a pending scorecard and queue a job without calling the model', async () => {
+      const scorecard = await evaluator.queueEvaluation({ modelId: 'ft:gpt-4o-mini:codesight:1', maxCases: 2 });
+
+      expect(scorecard).toEqual(expect.objectContaining({ status: 'PENDING', jobId: 'ftjob-1', sessionIds: [], maxCases: 2 }));
+      expect(jobQueue.enqueue).toHaveBeenCalledWith({ type: 'model_evaluation', data: { evaluationId: scorecard.id }, maxRetries: 2 });
+      expect(provider.requests).toHaveLength(0);
+    });
+
+    it('should fill in the scorecard when the worker runs the job', async () => {
+      const { id } = await evaluator.queueEvaluation({ modelId: 'ft:gpt-4o-mini:codesight:1', maxCases: 2 });
+      jobQueue.lease.mockResolvedValueOnce([{ id: 'job-1', type: 'model_evaluation', data: { evaluationId: id } }]);
+
+      expect(await evaluator.runQueuedEvaluations()).toBe(1);
+
+      expect(jobQueue.lease).toHaveBeenCalledWith(1, ['model_evaluation']);
+      expect(jobQueue.complete).toHaveBeenCalledWith('job-1');
+      expect(await evaluator.getScorecard(id)).toEqual(expect.objectContaining({
+        status: 'COMPLETED',
+        caseCount: 2,
+        sessionIds: ['held-out-1'],
+        exactSelectorAccuracy: 0.5
+      }));
+    });
+
+    it('should mark the scorecard failed and fail the job without retrying when nothing can be replayed', async () => {
+      openaiService.generateTrainingData.mockResolvedValue({ examples: [] });
+      const { id } = await evaluator.queueEvaluation({ modelId: 'ft:gpt-4o-mini:codesight:1' });
+      jobQueue.lease.mockResolvedValueOnce([{ id: 'job-1', type: 'model_evaluation', data: { evaluationId: id } }]);
+
+      await evaluator.runQueuedEvaluations();
+
+      expect(scorecards.get(id)).toEqual(expect.objectContaining({ status: 'FAILED', error: new NoEvaluableCasesError().message }));
+      expect(jobQueue.fail).toHaveBeenCalledWith('job-1', new NoEvaluableCasesError().message, { retry: false });
+      expect(jobQueue.complete).not.toHaveBeenCalled();
+    });
+
+    it('should leave transient failures to the queue retries', async () => {
+      mockPrisma.unifiedSession.findUnique.mockRejectedValueOnce(new Error('Connection reset'));
+      const { id } = await evaluator.queueEvaluation({ modelId: 'ft:gpt-4o-mini:codesight:1' });
+      jobQueue.lease.mockResolvedValueOnce([{ id: 'job-1', type: 'model_evaluation', data: { evaluationId: id } }]);
+
+      await evaluator.runQueuedEvaluations();
+
+      expect(scorecards.get(id)).toEqual(expect.objectContaining({ status: 'FAILED' }));
+      expect(jobQueue.fail).toHaveBeenCalledWith('job-1', expect.stringContaining('Connection reset'), { retry: true });
+    });
+  });
+});
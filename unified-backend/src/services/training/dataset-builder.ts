@@ -0,0 +1,464 @@
+/**
+ * Dataset Builder Service
+ *
+ * Turns sessions into immutable, versioned training set snapshots: selects
+ * sessions and examples, removes near-duplicate examples, splits train and
+ * validation per domain and stores the result with checksums so a fine-tune
+ * run can always be traced back to the exact data it saw.
+ */
+
+import { createHash } from 'crypto';
+import { PrismaClient, TrainingDataset } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from '../interactions/enhanced-interaction-store';
+import { OpenAIIntegrationService, toFineTuningExample } from '../openai-integration-clean';
+import { ExampleType, TrainingExample } from '../../types/training-types';
+
+export interface DatasetSelection {
+  /** Restrict to these sessions; other filters still apply */
+  sessionIds?: string[];
+  /** Minimum UnifiedSession.qualityScore (0-100) */
+  minSessionQuality?: number;
+  /** Minimum TrainingExample quality score (0-1) */
+  minExampleQuality?: number;
+  /** Hostnames, matched without a leading www. */
+  domains?: string[];
+  exampleTypes?: ExampleType[];
+  from?: Date;
+  to?: Date;
+  maxSessions?: number;
+}
+
+export interface DatasetSplitConfig {
+  /** Share of each domain held out for validation */
+  validationRatio: number;
+  /** Shuffle seed; the same seed and data always give the same split */
+  seed: string;
+}
+
+export interface BuildDatasetRequest {
+  name: string;
+  description?: string;
+  selection: DatasetSelection;
+  split?: Partial<DatasetSplitConfig>;
+}
+
+export interface SplitCounts {
+  train: number;
+  validation: number;
+}
+
+export interface DatasetManifest {
+  formatVersion: number;
+  sessionIds: string[];
+  domains: Record<string, SplitCounts>;
+  exampleTypes: Record<string, SplitCounts>;
+  candidates: number;
+  belowQuality: number;
+  duplicatesRemoved: number;
+  failedSessions: string[];
+}
+
+export type DatasetSummary = Omit<TrainingDataset, 'trainJsonl' | 'validationJsonl'>;
+
+export type DatasetSplit = 'train' | 'validation';
+
+export interface DatasetVerification {
+  datasetId: string;
+  valid: boolean;
+  mismatches: string[];
+}
+
+export interface UploadedDataset {
+  trainingFileId: string;
+  validationFileId?: string;
+}
+
+/** No stored snapshot with this id */
+export class DatasetNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Training dataset not found: ${id}`);
+    this.name = 'DatasetNotFoundError';
+  }
+}
+
+/** The selection matched no usable examples, so there is nothing to snapshot */
+export class EmptyDatasetError extends Error {
+  constructor() {
+    super('No training examples matched the dataset selection');
+    this.name = 'EmptyDatasetError';
+  }
+}
+
+export interface DatasetBuilder {
+  buildDataset(request: BuildDatasetRequest): Promise<DatasetSummary>;
+  listDatasets(name?: string): Promise<DatasetSummary[]>;
+  getDataset(id: string): Promise<DatasetSummary | null>;
+  getDatasetFile(id: string, split: DatasetSplit): Promise<string | null>;
+  verifyDataset(id: string): Promise<DatasetVerification>;
+  uploadDataset(id: string): Promise<UploadedDataset>;
+}
+
+const MANIFEST_FORMAT_VERSION = 1;
+const DEFAULT_SPLIT: DatasetSplitConfig = { validationRatio: 0.1, seed: 'codesight' };
+const DEFAULT_MAX_SESSIONS = 500;
+
+const SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  version: true,
+  description: true,
+  selection: true,
+  splitConfig: true,
+  manifest: true,
+  trainChecksum: true,
+  validationChecksum: true,
+  manifestChecksum: true,
+  trainCount: true,
+  validationCount: true,
+  sessionCount: true,
+  createdAt: true
+} as const;
+
+interface CandidateExample {
+  example: TrainingExample;
+  exampleType: ExampleType;
+  domain: string;
+  key: string;
+  sessionId: string;
+}
+
+export class DatasetBuilderImpl implements DatasetBuilder {
+  private prisma: PrismaClient;
+  private openaiService: OpenAIIntegrationService;
+  private interactionStore: EnhancedInteractionStore;
+  private logger: Logger;
+
+  constructor(prisma: PrismaClient, openaiService: OpenAIIntegrationService) {
+    this.prisma = prisma;
+    this.openaiService = openaiService;
+    this.interactionStore = new EnhancedInteractionStoreImpl(prisma);
+    this.logger = new Logger('DatasetBuilder');
+  }
+
+  /**
+   * Build and store the next version of a named dataset
+   * @param request - Dataset name, selection filters and split settings
+   * @returns Stored snapshot without the JSONL bodies
+   */
+  async buildDataset(request: BuildDatasetRequest): Promise<DatasetSummary> {
+    const selection = request.selection;
+    const split: DatasetSplitConfig = { ...DEFAULT_SPLIT, ...request.split };
+
+    if (split.validationRatio < 0 || split.validationRatio >= 1) {
+      throw new Error('validationRatio must be between 0 and 1');
+    }
+
+    const storedSessions = await this.prisma.unifiedSession.findMany({
+      where: {
+        ...(selection.sessionIds ? { id: { in: selection.sessionIds } } : {}),
+        ...(selection.minSessionQuality !== undefined ? { qualityScore: { gte: selection.minSessionQuality } } : {}),
+        ...(selection.from || selection.to ? {
+          createdAt: {
+            ...(selection.from ? { gte: selection.from } : {}),
+            ...(selection.to ? { lte: selection.to } : {})
+          }
+        } : {})
+      },
+      include: { interactions: true },
+      // Stable order so duplicate resolution does not depend on query plans
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: selection.maxSessions || DEFAULT_MAX_SESSIONS
+    });
+    const sessions = await this.interactionStore.hydrateMany(storedSessions);
+
+    const wantedDomains = selection.domains?.map(domain => this.normalizeDomain(domain));
+    const wantedTypes = selection.exampleTypes;
+
+    const failedSessions: string[] = [];
+    const unique = new Map<string, CandidateExample>();
+    let candidates = 0;
+    let belowQuality = 0;
+    let duplicatesRemoved = 0;
+
+    for (const session of sessions) {
+      const domain = this.getSessionDomain(session);
+      if (wantedDomains && !wantedDomains.includes(domain)) continue;
+
+      let examples: TrainingExample[];
+      try {
+        const result = await this.openaiService.generateTrainingData(session);
+        examples = result.examples || [];
+      } catch (error) {
+        this.logger.warn('Failed to generate examples for session', { sessionId: session.id, error });
+        failedSessions.push(session.id);
+        continue;
+      }
+
+      for (const example of examples) {
+        const exampleType = example.exampleType || 'fine_tuning';
+        if (wantedTypes && !wantedTypes.includes(exampleType)) continue;
+        if (!toFineTuningExample(example)) continue;
+
+        candidates++;
+        if (selection.minExampleQuality !== undefined && (example.quality?.score ?? 0) < selection.minExampleQuality) {
+          belowQuality++;
+          continue;
+        }
+
+        const key = this.dedupKey(example);
+        const existing = unique.get(key);
+        if (existing) {
+          duplicatesRemoved++;
+          // Keep the better-scored copy of a near-duplicate
+          if ((example.quality?.score ?? 0) > (existing.example.quality?.score ?? 0)) {
+            unique.set(key, { example, exampleType, domain, key, sessionId: session.id });
+          }
+          continue;
+        }
+
+        unique.set(key, { example, exampleType, domain, key, sessionId: session.id });
+      }
+    }
+
+    // From the examples that survived dedup, so a session whose copies were all replaced is not listed
+    const sessionIds = Array.from(new Set(Array.from(unique.values(), candidate => candidate.sessionId)));
+
+    if (unique.size === 0) {
+      throw new EmptyDatasetError();
+    }
+
+    const { train, validation } = this.stratifiedSplit(Array.from(unique.values()), split);
+
+    const manifest: DatasetManifest = {
+      formatVersion: MANIFEST_FORMAT_VERSION,
+      sessionIds: [...sessionIds].sort(),
+      domains: this.countBy(train, validation, candidate => candidate.domain),
+      exampleTypes: this.countBy(train, validation, candidate => candidate.exampleType),
+      candidates,
+      belowQuality,
+      duplicatesRemoved,
+      failedSessions
+    };
+
+    const trainJsonl = this.toJsonl(train);
+    const validationJsonl = this.toJsonl(validation);
+
+    const latest = await this.prisma.trainingDataset.findFirst({
+      where: { name: request.name },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    });
+
+    const dataset = await this.prisma.trainingDataset.create({
+      data: {
+        name: request.name,
+        version: (latest?.version || 0) + 1,
+        description: request.description,
+        selection: this.toJson(selection),
+        splitConfig: this.toJson(split),
+        trainJsonl,
+        validationJsonl,
+        manifest: this.toJson(manifest),
+        trainChecksum: this.sha256(trainJsonl),
+        validationChecksum: this.sha256(validationJsonl),
+        manifestChecksum: this.sha256(this.canonicalJson(manifest)),
+        trainCount: train.length,
+        validationCount: validation.length,
+        sessionCount: sessionIds.length
+      },
+      select: SUMMARY_SELECT
+    });
+
+    this.logger.info('Training dataset snapshot created', {
+      datasetId: dataset.id,
+      name: dataset.name,
+      version: dataset.version,
+      trainCount: dataset.trainCount,
+      validationCount: dataset.validationCount,
+      duplicatesRemoved
+    });
+
+    return dataset;
+  }
+
+  async listDatasets(name?: string): Promise<DatasetSummary[]> {
+    return this.prisma.trainingDataset.findMany({
+      where: name ? { name } : {},
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+      select: SUMMARY_SELECT
+    });
+  }
+
+  async getDataset(id: string): Promise<DatasetSummary | null> {
+    return this.prisma.trainingDataset.findUnique({
+      where: { id },
+      select: SUMMARY_SELECT
+    });
+  }
+
+  async getDatasetFile(id: string, split: DatasetSplit): Promise<string | null> {
+    const dataset = await this.prisma.trainingDataset.findUnique({
+      where: { id },
+      select: { trainJsonl: true, validationJsonl: true }
+    });
+    if (!dataset) return null;
+
+    return split === 'train' ? dataset.trainJsonl : dataset.validationJsonl;
+  }
+
+  /**
+   * Recompute checksums and compare them with the stored ones
+   */
+  async verifyDataset(id: string): Promise<DatasetVerification> {
+    const dataset = await this.prisma.trainingDataset.findUnique({ where: { id } });
+    if (!dataset) {
+      throw new DatasetNotFoundError(id);
+    }
+
+    const mismatches: string[] = [];
+    if (this.sha256(dataset.trainJsonl) !== dataset.trainChecksum) mismatches.push('train');
+    if (this.sha256(dataset.validationJsonl) !== dataset.validationChecksum) mismatches.push('validation');
+    if (this.sha256(this.canonicalJson(dataset.manifest)) !== dataset.manifestChecksum) mismatches.push('manifest');
+
+    return { datasetId: id, valid: mismatches.length === 0, mismatches };
+  }
+
+  /**
+   * Upload both splits to the LLM provider after checking their integrity
+   */
+  async uploadDataset(id: string): Promise<UploadedDataset> {
+    const verification = await this.verifyDataset(id);
+    if (!verification.valid) {
+      throw new Error(`Training dataset ${id} failed checksum verification: ${verification.mismatches.join(', ')}`);
+    }
+
+    const dataset = (await this.prisma.trainingDataset.findUnique({ where: { id } }))!;
+    const provider = this.openaiService.services.llmProvider;
+    const baseName = `${dataset.name}-v${dataset.version}`;
+
+    const trainingFile = await provider.uploadFile(dataset.trainJsonl, `${baseName}-train.jsonl`, 'fine-tune');
+    const validationFile = dataset.validationCount > 0
+      ? await provider.uploadFile(dataset.validationJsonl, `${baseName}-validation.jsonl`, 'fine-tune')
+      : undefined;
+
+    this.logger.info('Training dataset uploaded', {
+      datasetId: id,
+      trainingFileId: trainingFile.id,
+      validationFileId: validationFile?.id
+    });
+
+    return { trainingFileId: trainingFile.id, validationFileId: validationFile?.id };
+  }
+
+  /**
+   * Split each domain separately so validation mirrors the domain mix of train
+   */
+  private stratifiedSplit(examples: CandidateExample[], split: DatasetSplitConfig): { train: CandidateExample[]; validation: CandidateExample[] } {
+    const byDomain = new Map<string, CandidateExample[]>();
+    for (const example of examples) {
+      const group = byDomain.get(example.domain) || [];
+      group.push(example);
+      byDomain.set(example.domain, group);
+    }
+
+    const train: CandidateExample[] = [];
+    const validation: CandidateExample[] = [];
+
+    for (const domain of Array.from(byDomain.keys()).sort()) {
+      const shuffled = byDomain.get(domain)!
+        .map(example => ({ example, rank: this.sha256(`${split.seed}:${example.key}`) }))
+        .sort((a, b) => a.rank.localeCompare(b.rank))
+        .map(entry => entry.example);
+
+      // Single-example domains stay in train; every other domain gets at least one validation example
+      const holdOut = split.validationRatio > 0 && shuffled.length > 1
+        ? Math.min(shuffled.length - 1, Math.max(1, Math.round(shuffled.length * split.validationRatio)))
+        : 0;
+
+      validation.push(...shuffled.slice(0, holdOut));
+      train.push(...shuffled.slice(holdOut));
+    }
+
+    return { train, validation };
+  }
+
+  private countBy(
+    train: CandidateExample[],
+    validation: CandidateExample[],
+    keyOf: (example: CandidateExample) => string
+  ): Record<string, SplitCounts> {
+    const counts: Record<string, SplitCounts> = {};
+    for (const example of train) {
+      const key = keyOf(example);
+      counts[key] = counts[key] || { train: 0, validation: 0 };
+      counts[key].train++;
+    }
+    for (const example of validation) {
+      const key = keyOf(example);
+      counts[key] = counts[key] || { train: 0, validation: 0 };
+      counts[key].validation++;
+    }
+    return counts;
+  }
+
+  /**
+   * Examples that differ only in case, whitespace or numbers (ids, prices,
+   * timestamps) share a key
+   */
+  private dedupKey(example: TrainingExample): string {
+    const normalize = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+    return this.sha256(`${normalize(example.prompt)}\u0000${normalize(example.completion)}`);
+  }
+
+  private getSessionDomain(session: any): string {
+    const interactions = [
+      ...(Array.isArray(session.enhancedInteractions) ? session.enhancedInteractions : []),
+      ...(session.interactions || [])
+    ];
+
+    for (const interaction of interactions) {
+      const url = interaction?.context?.url || interaction?.context?.pageUrl;
+      if (!url) continue;
+      try {
+        return this.normalizeDomain(new URL(url).hostname);
+      } catch {
+        continue;
+      }
+    }
+
+    return 'unknown';
+  }
+
+  private normalizeDomain(domain: string): string {
+    return domain.trim().toLowerCase().replace(/^www\./, '');
+  }
+
+  private toJsonl(examples: CandidateExample[]): string {
+    return examples.map(candidate => JSON.stringify(toFineTuningExample(candidate.example))).join('\n');
+  }
+
+  private toJson(value: unknown): any {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * JSON with sorted keys; Postgres JSONB does not preserve key order
+   */
+  private canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalJson(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => `${JSON.stringify(key)}:${this.canonicalJson((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  private sha256(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Fine-Tuning Manager Service
+ *
+ * Owns the lifecycle of fine-tuning jobs: records every job in FineTuningJob,
+ * polls the provider until the job is terminal, and links the resulting
+ * model back to the TrainingData rows it was trained on.
+ */
+
+import { FineTuningJob, PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { OpenAIIntegrationService, TrainingConfig, TRAINING_SYSTEM_PROMPT } from '../openai-integration-clean';
+import { LLMProvider } from '../llm';
+
+export interface CreateFineTuningJobParams {
+  fileId: string;
+  config: TrainingConfig;
+  /** TrainingData rows included in the uploaded file */
+  trainingDataIds?: string[];
+  /** TrainingDataset snapshot the file was built from */
+  datasetId?: string;
+}
+
+export interface FineTunedModelSummary {
+  modelId: string;
+  baseModel: string;
+  suffix: string | null;
+  jobId: string;
+  datasetId: string | null;
+  trainedTokens: number;
+  trainingDataCount: number;
+  createdAt: Date;
+  completedAt: Date;
+}
+
+export interface ModelTestResult {
+  modelId: string;
+  prompt: string;
+  response: string;
+  usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+  latencyMs: number;
+  timestamp: Date;
+}
+
+export interface FineTuningManager {
+  createJob(params: CreateFineTuningJobParams): Promise<FineTuningJob>;
+  syncJob(jobId: string): Promise<FineTuningJob | null>;
+  pollActiveJobs(): Promise<number>;
+  cancelJob(jobId: string): Promise<FineTuningJob>;
+  listModels(): Promise<FineTunedModelSummary[]>;
+  testModel(modelId: string, prompt: string, options?: { systemPrompt?: string; maxTokens?: number; temperature?: number }): Promise<ModelTestResult>;
+  start(intervalMs: number): void;
+  stop(): void;
+}
+
+const ACTIVE_STATUSES = ['validating_files', 'queued', 'running'];
+
+/** No job with this id, or no succeeded job produced this model */
+export class FineTuningNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FineTuningNotFoundError';
+  }
+}
+
+/** The job has already finished, so it can no longer be cancelled */
+export class FineTuningJobStateError extends Error {
+  readonly status: string;
+
+  constructor(jobId: string, status: string) {
+    super(`Fine-tuning job ${jobId} is already ${status}`);
+    this.name = 'FineTuningJobStateError';
+    this.status = status;
+  }
+}
+
+export class FineTuningManagerImpl implements FineTuningManager {
+  private prisma: PrismaClient;
+  private openaiService: OpenAIIntegrationService;
+  private provider: LLMProvider;
+  private logger: Logger;
+  private pollInterval?: ReturnType<typeof setInterval>;
+  private isPolling = false;
+
+  constructor(prisma: PrismaClient, openaiService: OpenAIIntegrationService, provider?: LLMProvider) {
+    this.prisma = prisma;
+    this.openaiService = openaiService;
+    this.provider = provider || openaiService.services.llmProvider;
+    this.logger = new Logger('FineTuningManager');
+  }
+
+  /**
+   * Create a provider job and record it, marking linked TrainingData as TRAINING
+   * @param params - Uploaded file, training config and source TrainingData ids
+   * @returns The persisted FineTuningJob row
+   */
+  async createJob(params: CreateFineTuningJobParams): Promise<FineTuningJob> {
+    const { fileId, config, trainingDataIds = [], datasetId } = params;
+    const model = config.model || 'gpt-4o-mini-2024-07-18';
+
+    const jobId = await this.openaiService.createFineTuningJob(fileId, { ...config, model });
+
+    const record = await this.prisma.fineTuningJob.create({
+      data: {
+        jobId,
+        fileId,
+        // The column holds a single link; multi-session jobs are linked via TrainingData.trainingJobId
+        trainingDataId: trainingDataIds.length === 1 ? trainingDataIds[0] : null,
+        datasetId,
+        model,
+        suffix: config.suffix,
+        hyperparameters: config.hyperparameters as any,
+        status: 'validating_files'
+      }
+    });
+
+    if (trainingDataIds.length > 0) {
+      await this.prisma.trainingData.updateMany({
+        where: { id: { in: trainingDataIds } },
+        data: {
+          openaiFileId: fileId,
+          trainingJobId: jobId,
+          hyperparameters: config.hyperparameters as any,
+          status: 'TRAINING'
+        }
+      });
+    }
+
+    this.logger.info('Fine-tuning job recorded', {
+      jobId,
+      fileId,
+      model,
+      datasetId,
+      trainingDataCount: trainingDataIds.length
+    });
+
+    return record;
+  }
+
+  /**
+   * Pull the latest provider status into FineTuningJob and propagate terminal
+   * states to the linked TrainingData rows
+   * @returns Updated record, or null if the job was never recorded
+   */
+  async syncJob(jobId: string): Promise<FineTuningJob | null> {
+    const existing = await this.prisma.fineTuningJob.findUnique({ where: { jobId } });
+    if (!existing) return null;
+
+    const status = await this.openaiService.monitorTraining(jobId);
+
+    const updated = await this.prisma.fineTuningJob.update({
+      where: { jobId },
+      data: {
+        status: status.status,
+        trainedTokens: status.trainedTokens ?? existing.trainedTokens,
+        estimatedFinish: status.estimatedFinish ? new Date(status.estimatedFinish * 1000) : null,
+        fineTunedModel: status.fineTunedModel ?? existing.fineTunedModel,
+        resultFiles: status.resultFiles ?? [],
+        error: status.error ?? undefined
+      }
+    });
+
+    if (existing.status !== updated.status) {
+      this.logger.info('Fine-tuning job status changed', {
+        jobId,
+        from: existing.status,
+        to: updated.status,
+        fineTunedModel: updated.fineTunedModel
+      });
+      await this.propagateToTrainingData(updated);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Sync every non-terminal job once
+   * @returns Number of jobs synced successfully
+   */
+  async pollActiveJobs(): Promise<number> {
+    if (this.isPolling) return 0;
+    this.isPolling = true;
+
+    try {
+      const activeJobs = await this.prisma.fineTuningJob.findMany({
+        where: { status: { in: ACTIVE_STATUSES } },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      let synced = 0;
+      for (const job of activeJobs) {
+        try {
+          await this.syncJob(job.jobId);
+          synced++;
+        } catch (error) {
+          this.logger.warn('Failed to sync fine-tuning job', { jobId: job.jobId, error });
+        }
+      }
+
+      return synced;
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  async cancelJob(jobId: string): Promise<FineTuningJob> {
+    const existing = await this.prisma.fineTuningJob.findUnique({ where: { jobId } });
+    if (!existing) {
+      throw new FineTuningNotFoundError(`Fine-tuning job not found: ${jobId}`);
+    }
+
+    if (!ACTIVE_STATUSES.includes(existing.status)) {
+      throw new FineTuningJobStateError(jobId, existing.status);
+    }
+
+    await this.openaiService.cancelFineTuningJob(jobId);
+
+    // Re-read so the row reflects what the provider actually did
+    const synced = await this.syncJob(jobId);
+    return synced || existing;
+  }
+
+  /**
+   * Models produced by succeeded jobs, newest first
+   */
+  async listModels(): Promise<FineTunedModelSummary[]> {
+    const jobs = await this.prisma.fineTuningJob.findMany({
+      where: {
+        status: 'succeeded',
+        fineTunedModel: { not: null }
+      },
+      orderBy: { updatedAt: 'desc' }
+    });
+
+    const counts = await this.prisma.trainingData.groupBy({
+      by: ['trainingJobId'],
+      where: { trainingJobId: { in: jobs.map(job => job.jobId) } },
+      _count: true
+    });
+    const countByJob = new Map(counts.map(count => [count.trainingJobId, count._count]));
+
+    return jobs.map(job => ({
+      modelId: job.fineTunedModel!,
+      baseModel: job.model,
+      suffix: job.suffix,
+      jobId: job.jobId,
+      datasetId: job.datasetId,
+      trainedTokens: job.trainedTokens,
+      trainingDataCount: countByJob.get(job.jobId) || (job.trainingDataId ? 1 : 0),
+      createdAt: job.createdAt,
+      completedAt: job.updatedAt
+    }));
+  }
+
+  /**
+   * Send a prompt to a fine-tuned model produced by one of our jobs
+   */
+  async testModel(
+    modelId: string,
+    prompt: string,
+    options: { systemPrompt?: string; maxTokens?: number; temperature?: number } = {}
+  ): Promise<ModelTestResult> {
+    const job = await this.prisma.fineTuningJob.findFirst({
+      where: { fineTunedModel: modelId, status: 'succeeded' }
+    });
+
+    if (!job) {
+      throw new FineTuningNotFoundError(`Fine-tuned model not found: ${modelId}`);
+    }
+
+    const startTime = Date.now();
+    const result = await this.provider.chat({
+      model: modelId,
+      pinModel: true,
+      messages: [
+        { role: 'system', content: options.systemPrompt || TRAINING_SYSTEM_PROMPT },
+        { role: 'user', content: prompt }
+      ],
+      maxTokens: options.maxTokens ?? 1000,
+      temperature: options.temperature ?? 0
+    });
+
+    return {
+      modelId,
+      prompt,
+      response: result.content,
+      usage: result.usage,
+      latencyMs: Date.now() - startTime,
+      timestamp: new Date()
+    };
+  }
+
+  start(intervalMs: number): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.pollActiveJobs().catch(error => {
+        this.logger.error('Fine-tuning poll failed', error);
+      });
+    }, intervalMs);
+
+    this.logger.info('Fine-tuning job polling started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  private async propagateToTrainingData(job: FineTuningJob): Promise<void> {
+    const linkedRows = {
+      OR: [
+        { trainingJobId: job.jobId },
+        ...(job.trainingDataId ? [{ id: job.trainingDataId }] : [])
+      ]
+    };
+
+    if (job.status === 'succeeded') {
+      await this.prisma.trainingData.updateMany({
+        where: linkedRows,
+        data: {
+          status: 'COMPLETED',
+          modelId: job.fineTunedModel,
+          trainingMetrics: { trainedTokens: job.trainedTokens, resultFiles: job.resultFiles as any },
+          completedAt: new Date()
+        }
+      });
+    } else if (job.status === 'failed' || job.status === 'cancelled') {
+      await this.prisma.trainingData.updateMany({
+        where: linkedRows,
+        data: {
+          status: 'FAILED',
+          trainingMetrics: { finalStatus: job.status, error: job.error as any }
+        }
+      });
+    }
+  }
+}
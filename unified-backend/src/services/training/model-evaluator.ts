@@ -0,0 +1,545 @@
+/**
+ * Model Evaluator Service
+ *
+ * Offline evaluation harness for fine-tuned navigation models. Replays
+ * interactions from held-out sessions as training-format prompts, scores the
+ * predicted selector and action against what the user actually did, and
+ * stores a scorecard per run so models can be compared over time. Runs make
+ * hundreds of model calls, so the API queues them as model_evaluation jobs
+ * and a worker loop here fills in the scorecard.
+ */
+
+import { FineTuningJob, ModelEvaluation, Prisma, PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+import { getErrorMessage } from '../../utils/type-helpers';
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from '../interactions/enhanced-interaction-store';
+import { OpenAIIntegrationService, TRAINING_SYSTEM_PROMPT } from '../openai-integration-clean';
+import { LLMProvider } from '../llm';
+import { JobQueueService, JobQueueServiceImpl, ProcessingJob } from '../queue/job-queue';
+import { TrainingExample } from '../../types/training-types';
+import { FineTuningNotFoundError } from './fine-tuning-manager';
+
+export interface EvaluationRequest {
+  modelId: string;
+  /** Sessions to replay; defaults to recent sessions the model was not trained on */
+  sessionIds?: string[];
+  maxCases?: number;
+}
+
+export interface RecordedAction {
+  selectors: {
+    primary?: string;
+    alternatives?: string[];
+    xpath?: string;
+    cssPath?: string;
+  };
+  interactionType: string;
+}
+
+export interface PredictionScore {
+  predictedSelector: string | null;
+  predictedAction: string | null;
+  exactSelectorMatch: boolean;
+  equivalentSelectorMatch: boolean;
+  actionTypeMatch: boolean;
+  parseFailure: boolean;
+}
+
+export interface EvaluationCaseResult extends PredictionScore {
+  sessionId: string;
+  interactionId?: string;
+  expectedSelector: string | null;
+  expectedAction: string;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ModelEvaluator {
+  queueEvaluation(request: EvaluationRequest): Promise<ModelEvaluation>;
+  runEvaluation(evaluationId: string): Promise<ModelEvaluation>;
+  evaluateModel(request: EvaluationRequest): Promise<ModelEvaluation>;
+  runQueuedEvaluations(): Promise<number>;
+  getScorecard(evaluationId: string): Promise<ModelEvaluation | null>;
+  listScorecards(modelId: string, limit?: number): Promise<ModelEvaluation[]>;
+  getLatestScorecard(modelId: string): Promise<ModelEvaluation | null>;
+  start(intervalMs: number): void;
+  stop(): void;
+}
+
+/** None of the held-out sessions produced a single-interaction example to replay */
+export class NoEvaluableCasesError extends Error {
+  constructor() {
+    super('No evaluable interactions found in the held-out sessions');
+    this.name = 'NoEvaluableCasesError';
+  }
+}
+
+const DEFAULT_MAX_CASES = 50;
+const HELD_OUT_SESSION_LIMIT = 20;
+// One retry covers a worker that died mid-run; the retry starts the scorecard over
+const EVALUATION_JOB_ATTEMPTS = 2;
+const EVALUATION_LEASE_MS = 5 * 60 * 1000;
+
+// Recorded browser event names mapped onto InteractionType
+const EVENT_TO_ACTION: Record<string, string> = {
+  click: 'CLICK',
+  dblclick: 'CLICK',
+  tap: 'CLICK',
+  touch: 'TOUCH',
+  input: 'INPUT',
+  change: 'INPUT',
+  type: 'INPUT',
+  fill: 'INPUT',
+  select: 'INPUT',
+  scroll: 'SCROLL',
+  navigation: 'NAVIGATION',
+  navigate: 'NAVIGATION',
+  goto: 'NAVIGATION',
+  hover: 'HOVER',
+  mouseover: 'HOVER',
+  focus: 'FOCUS',
+  blur: 'BLUR',
+  submit: 'FORM_SUBMIT',
+  form_submit: 'FORM_SUBMIT',
+  keydown: 'KEY_PRESS',
+  keypress: 'KEY_PRESS',
+  key_press: 'KEY_PRESS',
+  press: 'KEY_PRESS',
+  drag: 'DRAG',
+  drop: 'DROP'
+};
+
+// Verbs in the free-text [ACTION] section, checked in order
+const ACTION_PATTERNS: Array<[RegExp, string]> = [
+  [/\.(fill|type)\(|\b(type|enter|fill|input|search for)\b/i, 'INPUT'],
+  [/\.selectOption\(/i, 'INPUT'],
+  [/\.goto\(|\b(navigate|go to|visit|open url)\b/i, 'NAVIGATION'],
+  [/\.hover\(|\bhover\b/i, 'HOVER'],
+  [/\.press\(|\bpress (enter|tab|escape|key)\b/i, 'KEY_PRESS'],
+  [/\bsubmit\b/i, 'FORM_SUBMIT'],
+  [/\bscroll\b/i, 'SCROLL'],
+  [/\.click\(|\b(click|tap|add|select|choose|open|toggle|press|view|proceed|apply)\b/i, 'CLICK']
+];
+
+/**
+ * Normalize a recorded event name or InteractionType to InteractionType
+ */
+export function normalizeActionType(type: string | undefined | null): string {
+  if (!type) return 'UNKNOWN';
+  const key = type.trim().toLowerCase();
+  return EVENT_TO_ACTION[key] || key.toUpperCase();
+}
+
+/**
+ * Pull the labelled section body out of a model response
+ */
+function extractSection(output: string, section: string): string | null {
+  const match = output.match(new RegExp(`\\[${section}\\]\\s*\\n([\\s\\S]*?)(?=\\n\\s*\\[[A-Z ]+\\]|$)`));
+  const body = match?.[1]?.trim();
+  return body ? body : null;
+}
+
+function normalizeSelector(selector: string): string {
+  let normalized = selector.trim();
+
+  // Unwrap Playwright calls such as page.click('#buy') or page.locator("#buy")
+  const call = normalized.match(/\(\s*(['"`])([\s\S]+?)\1/);
+  if (/^(await\s+)?page\./.test(normalized) && call) {
+    normalized = call[2];
+  }
+
+  return normalized
+    .replace(/^(['"`])([\s\S]*)\1$/, '$2')
+    .replace(/"/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Score a model response against the recorded interaction
+ * @param output - Raw model response in the training completion format
+ * @param recorded - Selectors and interaction type captured for the element
+ */
+export function scorePrediction(output: string, recorded: RecordedAction): PredictionScore {
+  const selectorSection = extractSection(output, 'SELECTOR');
+  const actionSection = extractSection(output, 'ACTION');
+
+  const predictedSelector = selectorSection ? normalizeSelector(selectorSection.split('\n')[0]) : null;
+  const pattern = actionSection ? ACTION_PATTERNS.find(([regex]) => regex.test(actionSection)) : undefined;
+  const predictedAction = pattern ? pattern[1] : null;
+
+  const primary = recorded.selectors.primary ? normalizeSelector(recorded.selectors.primary) : null;
+  const equivalents = new Set(
+    [
+      recorded.selectors.primary,
+      recorded.selectors.xpath,
+      recorded.selectors.cssPath,
+      ...(recorded.selectors.alternatives || [])
+    ]
+      .filter((selector): selector is string => Boolean(selector))
+      .map(normalizeSelector)
+  );
+
+  return {
+    predictedSelector,
+    predictedAction,
+    exactSelectorMatch: Boolean(predictedSelector && primary && predictedSelector === primary),
+    equivalentSelectorMatch: Boolean(predictedSelector && equivalents.has(predictedSelector)),
+    actionTypeMatch: predictedAction !== null && predictedAction === normalizeActionType(recorded.interactionType),
+    parseFailure: !selectorSection || !actionSection
+  };
+}
+
+interface EvaluationCase {
+  sessionId: string;
+  prompt: string;
+  recorded: RecordedAction;
+  interactionId?: string;
+}
+
+export class ModelEvaluatorImpl implements ModelEvaluator {
+  private prisma: PrismaClient;
+  private openaiService: OpenAIIntegrationService;
+  private provider: LLMProvider;
+  private interactionStore: EnhancedInteractionStore;
+  private jobQueue: JobQueueService;
+  private logger: Logger;
+  private pollInterval?: ReturnType<typeof setInterval>;
+  private isRunning = false;
+
+  constructor(prisma: PrismaClient, openaiService: OpenAIIntegrationService, provider?: LLMProvider, jobQueue?: JobQueueService) {
+    this.prisma = prisma;
+    this.openaiService = openaiService;
+    this.provider = provider || openaiService.services.llmProvider;
+    this.interactionStore = new EnhancedInteractionStoreImpl(prisma);
+    this.jobQueue = jobQueue || new JobQueueServiceImpl(prisma, { visibilityTimeoutMs: EVALUATION_LEASE_MS });
+    this.logger = new Logger('ModelEvaluator');
+  }
+
+  /**
+   * Store a pending scorecard and queue the run
+   * @returns The pending scorecard; poll getScorecard until it is COMPLETED or FAILED
+   */
+  async queueEvaluation(request: EvaluationRequest): Promise<ModelEvaluation> {
+    const scorecard = await this.createScorecard(request);
+    await this.jobQueue.enqueue({
+      type: 'model_evaluation',
+      data: { evaluationId: scorecard.id },
+      maxRetries: EVALUATION_JOB_ATTEMPTS
+    });
+
+    this.logger.info('Model evaluation queued', { evaluationId: scorecard.id, modelId: scorecard.modelId });
+    return scorecard;
+  }
+
+  /**
+   * Evaluate in the calling process instead of through the queue
+   */
+  async evaluateModel(request: EvaluationRequest): Promise<ModelEvaluation> {
+    const scorecard = await this.createScorecard(request);
+    return this.runEvaluation(scorecard.id);
+  }
+
+  /**
+   * Replay held-out interactions against the scorecard's model and fill in
+   * its metrics. The scorecard is marked FAILED (and the error rethrown) if
+   * the run cannot finish.
+   */
+  async runEvaluation(evaluationId: string): Promise<ModelEvaluation> {
+    const pending = await this.prisma.modelEvaluation.findUnique({ where: { id: evaluationId } });
+    if (!pending) {
+      throw new Error(`Model evaluation not found: ${evaluationId}`);
+    }
+
+    const { modelId } = pending;
+    await this.prisma.modelEvaluation.update({
+      where: { id: evaluationId },
+      data: { status: 'RUNNING', startedAt: new Date(), completedAt: null, error: null }
+    });
+
+    try {
+      const job = await this.findModelJob(modelId);
+      const requested = pending.sessionIds as string[];
+      const sessionIds = requested.length > 0
+        ? requested
+        : await this.selectHeldOutSessions(job.jobId, job.datasetId);
+
+      const cases = await this.buildCases(sessionIds, pending.maxCases || DEFAULT_MAX_CASES);
+      if (cases.length === 0) {
+        throw new NoEvaluableCasesError();
+      }
+
+      this.logger.info('Evaluating model', { evaluationId, modelId, sessionCount: sessionIds.length, caseCount: cases.length });
+
+      const results: EvaluationCaseResult[] = [];
+      let totalTokens = 0;
+
+      // Sequential on purpose: keeps provider rate limits and latency numbers honest
+      for (const evaluationCase of cases) {
+        const startTime = Date.now();
+        const expected = {
+          sessionId: evaluationCase.sessionId,
+          interactionId: evaluationCase.interactionId,
+          expectedSelector: evaluationCase.recorded.selectors.primary || null,
+          expectedAction: normalizeActionType(evaluationCase.recorded.interactionType)
+        };
+
+        try {
+          const response = await this.provider.chat({
+            model: modelId,
+            pinModel: true,
+            messages: [
+              { role: 'system', content: TRAINING_SYSTEM_PROMPT },
+              { role: 'user', content: evaluationCase.prompt }
+            ],
+            maxTokens: 600,
+            temperature: 0
+          });
+
+          totalTokens += response.usage?.totalTokens || 0;
+          results.push({
+            ...expected,
+            ...scorePrediction(response.content, evaluationCase.recorded),
+            latencyMs: Date.now() - startTime
+          });
+        } catch (error) {
+          results.push({
+            ...expected,
+            predictedSelector: null,
+            predictedAction: null,
+            exactSelectorMatch: false,
+            equivalentSelectorMatch: false,
+            actionTypeMatch: false,
+            parseFailure: true,
+            latencyMs: Date.now() - startTime,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      const rate = (predicate: (result: EvaluationCaseResult) => boolean) =>
+        results.filter(predicate).length / results.length;
+
+      const scorecard = await this.prisma.modelEvaluation.update({
+        where: { id: evaluationId },
+        data: {
+          status: 'COMPLETED',
+          sessionIds,
+          caseCount: results.length,
+          exactSelectorAccuracy: rate(result => result.exactSelectorMatch),
+          equivalentSelectorAccuracy: rate(result => result.equivalentSelectorMatch),
+          actionTypeAccuracy: rate(result => result.actionTypeMatch),
+          parseFailureRate: rate(result => result.parseFailure),
+          averageLatencyMs: results.reduce((sum, result) => sum + result.latencyMs, 0) / results.length,
+          totalTokens,
+          results: results as unknown as Prisma.InputJsonValue,
+          completedAt: new Date()
+        }
+      });
+
+      this.logger.info('Model evaluation stored', {
+        evaluationId,
+        modelId,
+        exactSelectorAccuracy: scorecard.exactSelectorAccuracy,
+        equivalentSelectorAccuracy: scorecard.equivalentSelectorAccuracy,
+        actionTypeAccuracy: scorecard.actionTypeAccuracy
+      });
+
+      return scorecard;
+
+    } catch (error) {
+      await this.prisma.modelEvaluation.update({
+        where: { id: evaluationId },
+        data: { status: 'FAILED', error: getErrorMessage(error), completedAt: new Date() }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lease one queued evaluation and run it
+   * @returns Number of evaluations run
+   */
+  async runQueuedEvaluations(): Promise<number> {
+    if (this.isRunning) return 0;
+    this.isRunning = true;
+
+    try {
+      const jobs = await this.jobQueue.lease(1, ['model_evaluation']);
+      for (const job of jobs) {
+        await this.runQueuedJob(job);
+      }
+      return jobs.length;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async getScorecard(evaluationId: string): Promise<ModelEvaluation | null> {
+    return this.prisma.modelEvaluation.findUnique({ where: { id: evaluationId } });
+  }
+
+  async listScorecards(modelId: string, limit: number = 20): Promise<ModelEvaluation[]> {
+    return this.prisma.modelEvaluation.findMany({
+      where: { modelId },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+  }
+
+  /**
+   * Most recent completed scorecard; queued and failed runs have no metrics to compare
+   */
+  async getLatestScorecard(modelId: string): Promise<ModelEvaluation | null> {
+    return this.prisma.modelEvaluation.findFirst({
+      where: { modelId, status: 'COMPLETED' },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  start(intervalMs: number): void {
+    if (this.pollInterval) return;
+
+    this.pollInterval = setInterval(() => {
+      this.runQueuedEvaluations().catch(error => {
+        this.logger.error('Model evaluation poll failed', error);
+      });
+    }, intervalMs);
+
+    this.logger.info('Model evaluation worker started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  private async createScorecard(request: EvaluationRequest): Promise<ModelEvaluation> {
+    const job = await this.findModelJob(request.modelId);
+
+    return this.prisma.modelEvaluation.create({
+      data: {
+        modelId: request.modelId,
+        jobId: job.jobId,
+        sessionIds: request.sessionIds || [],
+        maxCases: request.maxCases ?? null
+      }
+    });
+  }
+
+  private async findModelJob(modelId: string): Promise<FineTuningJob> {
+    const job = await this.prisma.fineTuningJob.findFirst({
+      where: { fineTunedModel: modelId, status: 'succeeded' }
+    });
+    if (!job) {
+      throw new FineTuningNotFoundError(`Fine-tuned model not found: ${modelId}`);
+    }
+    return job;
+  }
+
+  private async runQueuedJob(job: ProcessingJob): Promise<void> {
+    // Heartbeat at half the visibility timeout so a long run keeps its lease
+    const leaseHeartbeat = setInterval(() => {
+      this.jobQueue.extendLease(job.id).catch(error => {
+        this.logger.error('Failed to extend model evaluation lease', error, { jobId: job.id });
+      });
+    }, EVALUATION_LEASE_MS / 2);
+
+    try {
+      await this.runEvaluation(job.data.evaluationId);
+      await this.jobQueue.complete(job.id);
+    } catch (error) {
+      this.logger.error('Queued model evaluation failed', error, { jobId: job.id, evaluationId: job.data.evaluationId });
+      // runEvaluation has marked the scorecard FAILED; only transient errors are worth another attempt
+      const retry = !(error instanceof NoEvaluableCasesError || error instanceof FineTuningNotFoundError);
+      await this.jobQueue.fail(job.id, getErrorMessage(error), { retry });
+    } finally {
+      clearInterval(leaseHeartbeat);
+    }
+  }
+
+  /**
+   * Recent completed sessions that did not feed the model's training file
+   */
+  private async selectHeldOutSessions(jobId: string, datasetId: string | null): Promise<string[]> {
+    const trainedOn = new Set<string>();
+
+    const trainingRows = await this.prisma.trainingData.findMany({
+      where: { trainingJobId: jobId },
+      select: { sessionId: true }
+    });
+    trainingRows.forEach(row => trainedOn.add(row.sessionId));
+
+    if (datasetId) {
+      const dataset = await this.prisma.trainingDataset.findUnique({
+        where: { id: datasetId },
+        select: { manifest: true }
+      });
+      const manifestSessions = (dataset?.manifest as any)?.sessionIds;
+      if (Array.isArray(manifestSessions)) {
+        manifestSessions.forEach((sessionId: string) => trainedOn.add(sessionId));
+      }
+    }
+
+    const sessions = await this.prisma.unifiedSession.findMany({
+      where: {
+        status: 'COMPLETED',
+        ...(trainedOn.size > 0 ? { id: { notIn: Array.from(trainedOn) } } : {})
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      take: HELD_OUT_SESSION_LIMIT,
+      select: { id: true }
+    });
+
+    return sessions.map(session => session.id);
+  }
+
+  /**
+   * Generate training-format prompts for each session and pair them with the
+   * recorded interaction they were built from
+   */
+  private async buildCases(sessionIds: string[], maxCases: number): Promise<EvaluationCase[]> {
+    const cases: EvaluationCase[] = [];
+
+    for (const sessionId of sessionIds) {
+      if (cases.length >= maxCases) break;
+
+      const session = await this.prisma.unifiedSession.findUnique({
+        where: { id: sessionId },
+        include: { interactions: true }
+      });
+      if (!session) continue;
+
+      let examples: TrainingExample[];
+      try {
+        const result = await this.openaiService.generateTrainingData(await this.interactionStore.hydrate(session));
+        examples = result.examples || [];
+      } catch (error) {
+        this.logger.warn('Failed to build evaluation prompts for session', { sessionId, error });
+        continue;
+      }
+
+      for (const example of examples) {
+        if (cases.length >= maxCases) break;
+
+        // Only single-interaction examples map cleanly onto one recorded action
+        const original = example.rawData?.originalInteraction;
+        if ((example.exampleType || 'fine_tuning') !== 'fine_tuning' || !original?.selectors) continue;
+
+        cases.push({
+          sessionId,
+          interactionId: original.id,
+          prompt: example.prompt,
+          recorded: {
+            selectors: original.selectors,
+            interactionType: original.interaction?.type || original.type
+          }
+        });
+      }
+    }
+
+    return cases;
+  }
+}
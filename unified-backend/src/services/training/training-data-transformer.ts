@@ -108,7 +108,7 @@ export class TrainingDataTransformerImpl implements TrainingDataTransformerServi
       try {
         // Generate examples using the new OpenAI-recommended structure with REAL journey context
         const structuredExamples = this.createOpenAIStructuredExamples(interaction, i);
-        allExamples.push(...structuredExamples);
+        allExamples.push(...this.tagExampleType(structuredExamples, 'fine_tuning'));
         
         if (interaction.selectors?.reliability) {
           selectorEnhancements++;
@@ -127,13 +127,13 @@ export class TrainingDataTransformerImpl implements TrainingDataTransformerServi
     console.log(`\n🛤️ [SEQUENCE EXAMPLES] Creating sequence-aware training examples for complete shopping flows...`);
     const sequenceExamples = this.sequenceAwareTrainer.generateSequenceTrainingExamples(enhancedInteractions);
     console.log(`✅ [SEQUENCE EXAMPLES] Generated ${sequenceExamples.length} sequence examples`);
-    allExamples.push(...sequenceExamples);
+    allExamples.push(...this.tagExampleType(sequenceExamples, 'sequence'));
     
     console.log(`🎯 [TASK EXAMPLES] Creating enhanced task-driven examples...`);
     const taskExamples = this.createTaskDrivenExamples(enhancedInteractions);
     console.log(`✅ [TASK EXAMPLES] Generated ${taskExamples.length} task examples`);
     
-    allExamples.push(...taskExamples);
+    allExamples.push(...this.tagExampleType(taskExamples, 'task_driven'));
     console.log(`📈 [TOTAL EXAMPLES] OpenAI structured examples only: ${allExamples.length} training examples`);
 
     // 🎯 JOURNEY-PRIORITIZED QUALITY FILTERING
@@ -2268,6 +2268,10 @@ ${backupSelectors.slice(0, 2).map((sel, i) => `${i + 1}. ${sel}`).join('\n')}
     return uniqueBundles;
   }
 
+  private tagExampleType(examples: TrainingExample[], exampleType: ExampleType): TrainingExample[] {
+    return examples.map(example => ({ ...example, exampleType: example.exampleType || exampleType }));
+  }
+
   private calculateMetadata(examples: TrainingExample[]): TrainingDataResult['metadata'] {
     const qualityDistribution = {
       high: examples.filter(ex => ex.quality.score >= 0.8).length,
@@ -6,7 +6,7 @@
 
 import { VisionAnalysisServiceImpl } from '../vision-analysis';
 import { PrismaClient } from '@prisma/client';
-import OpenAI from 'openai';
+import { OpenAIProvider } from '../../llm';
 
 // Mock OpenAI
 const mockOpenAI = {
@@ -31,7 +31,7 @@ describe('Vision Analysis Service', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    visionService = new VisionAnalysisServiceImpl(mockOpenAI, mockPrisma);
+    visionService = new VisionAnalysisServiceImpl(new OpenAIProvider({ client: mockOpenAI }), mockPrisma);
   });
 
   describe('📸 Screenshot Analysis', () => {
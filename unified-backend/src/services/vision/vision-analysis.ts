@@ -1,6 +1,6 @@
-import OpenAI from 'openai';
 import { Logger } from '../../utils/logger';
 import { PrismaClient } from '@prisma/client';
+import { LLMProvider } from '../llm';
 
 // Vision Analysis interfaces
 export interface VisionAnalysisResult {
@@ -30,12 +30,12 @@ export interface VisionAnalysisService {
 }
 
 export class VisionAnalysisServiceImpl implements VisionAnalysisService {
-  private openai: OpenAI;
+  private provider: LLMProvider;
   private logger: Logger;
   private prisma: PrismaClient;
 
-  constructor(openai: OpenAI, prisma: PrismaClient) {
-    this.openai = openai;
+  constructor(provider: LLMProvider, prisma: PrismaClient) {
+    this.provider = provider;
     this.prisma = prisma;
     this.logger = new Logger("VisionAnalysis");
   }
@@ -113,7 +113,7 @@ export class VisionAnalysisServiceImpl implements VisionAnalysisService {
     return this.analyzeScreenshots(screenshots);
   }
 
-  // Core OpenAI Vision API call
+  // Core vision model call via the configured LLM provider
   private async analyzeScreenshotWithVision(screenshot: any): Promise<string> {
     const prompt = `Analyze this e-commerce screenshot and provide insights about:
 1. User's shopping behavior and intent
@@ -124,28 +124,16 @@ export class VisionAnalysisServiceImpl implements VisionAnalysisService {
 
 Focus on psychological insights that would help understand the user's shopping mindset.`;
 
-    const response = await this.openai.chat.completions.create({
+    const response = await this.provider.analyzeImage({
       model: "gpt-4o",
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: prompt },
-            {
-              type: "image_url",
-              image_url: {
-                url: screenshot.dataUrl || screenshot.s3Url,
-                detail: "high"
-              }
-            }
-          ]
-        }
-      ],
-      max_tokens: 1000,
+      prompt,
+      imageUrl: screenshot.dataUrl || screenshot.s3Url,
+      detail: "high",
+      maxTokens: 1000,
       temperature: 0.3
     });
 
-    return response.choices[0]?.message?.content || "No analysis available";
+    return response.content || "No analysis available";
   }
 
   // Extract psychology insights from analysis text
@@ -1,8 +1,28 @@
 import { Server as HttpServer } from 'http';
+import { EventEmitter } from 'events';
 import { WebSocketServer, WebSocket } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
 import { Logger } from '../utils/logger';
 import { DataProcessingPipeline } from './data-processing-pipeline';
+import {
+  MAX_SEQUENCE_WINDOW,
+  SEQUENCED_MESSAGE_TYPES,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  ProtocolVersion,
+  SequenceStore,
+  SessionSequencer,
+  SessionSequencerImpl,
+  isValidSequence,
+  negotiateProtocolVersion
+} from './websocket/session-sequencer';
+import {
+  SUBSCRIPTION_TOPICS,
+  SubscriptionHub,
+  SubscriptionHubImpl,
+  isSubscriptionTopic,
+  subscriptionFilterErrors
+} from './websocket/subscription-hub';
+import { ApiKeyManager, ApiKeyRole, WEBSOCKET_CLIENT_ROLES } from './auth/api-key-manager';
 
 interface WebSocketClient {
   id: string;
@@ -10,6 +30,8 @@ interface WebSocketClient {
   sessionId?: string;
   type: 'extension' | 'frontend' | 'admin';
   authenticated: boolean;
+  role?: ApiKeyRole;
+  protocolVersion: ProtocolVersion;
   lastActivity: Date;
   metadata: {
     userAgent?: string;
@@ -18,12 +40,18 @@ interface WebSocketClient {
   };
 }
 
+interface WebSocketServerOptions {
+  sequenceStore?: SequenceStore;
+  apiKeyManager?: ApiKeyManager;
+}
+
 interface WebSocketMessage {
   type: string;
   sessionId?: string;
   data?: any;
   timestamp: number;
   clientId?: string;
+  seq?: number; // Per-session sequence number (protocol v2)
 }
 
 export class UnifiedWebSocketServer {
@@ -32,6 +60,10 @@ export class UnifiedWebSocketServer {
   private sessionClients: Map<string, Set<string>> = new Map();
   private logger: Logger;
   private dataProcessingPipeline: DataProcessingPipeline;
+  private sequencer: SessionSequencer;
+  private sequencedMessages: WeakSet<WebSocketMessage> = new WeakSet();
+  private subscriptionHub: SubscriptionHub;
+  private apiKeyManager?: ApiKeyManager;
   private heartbeatInterval?: ReturnType<typeof setInterval>;
   private cleanupInterval?: ReturnType<typeof setInterval>;
   private maxConnections: number = 100;
@@ -50,9 +82,16 @@ export class UnifiedWebSocketServer {
   private readonly MAX_RETRIES = 3;
   private queueProcessingInterval?: ReturnType<typeof setInterval>;
 
-  constructor(server: HttpServer, dataProcessingPipeline: DataProcessingPipeline) {
+  constructor(server: HttpServer, dataProcessingPipeline: DataProcessingPipeline, options: WebSocketServerOptions = {}) {
     this.logger = new Logger('WebSocketServer');
     this.dataProcessingPipeline = dataProcessingPipeline;
+    this.apiKeyManager = options.apiKeyManager;
+    this.sequencer = new SessionSequencerImpl(options.sequenceStore);
+    this.subscriptionHub = new SubscriptionHubImpl({
+      send: (clientId, message) => this.sendToClient(clientId, message),
+      getBufferedAmount: (clientId) => this.clients.get(clientId)?.socket.bufferedAmount ?? 0
+    });
+    this.subscriptionHub.attachPipeline(dataProcessingPipeline);
 
     // Create WebSocket server
     this.wss = new WebSocketServer({ 
@@ -79,7 +118,8 @@ export class UnifiedWebSocketServer {
       maxConnections: this.maxConnections,
       connectionTimeout: this.connectionTimeout,
       messageQueueEnabled: true,
-      maxQueueSize: this.MAX_QUEUE_SIZE
+      maxQueueSize: this.MAX_QUEUE_SIZE,
+      protocolVersions: SUPPORTED_PROTOCOL_VERSIONS
     });
   }
 
@@ -113,6 +153,7 @@ export class UnifiedWebSocketServer {
       socket,
       type: 'extension', // Default, will be updated on authentication
       authenticated: false,
+      protocolVersion: 1, // Negotiated on authentication
       lastActivity: new Date(),
       metadata: {
         userAgent,
@@ -143,6 +184,7 @@ export class UnifiedWebSocketServer {
       data: {
         clientId,
         serverVersion: '2.0.0',
+        protocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
         supportedFeatures: [
           'real-time-processing',
           'quality-scoring',
@@ -183,6 +225,7 @@ export class UnifiedWebSocketServer {
       data: {
         clientId,
         serverVersion: '2.0.0',
+        protocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
         supportedFeatures: [
           'real-time-processing',
           'quality-scoring',
@@ -245,6 +288,12 @@ export class UnifiedWebSocketServer {
         return;
       }
 
+      // Protocol v2: drop replays of already-persisted sequences and report gaps before queuing
+      if (client.protocolVersion >= 2 && SEQUENCED_MESSAGE_TYPES.includes(message.type)) {
+        const accepted = await this.receiveSequenced(clientId, client, message);
+        if (!accepted) return;
+      }
+
       // Queue database-intensive messages to prevent overload
       if (this.shouldQueueMessage(message.type)) {
         this.queueMessage(clientId, message);
@@ -275,15 +324,73 @@ export class UnifiedWebSocketServer {
     return queuedTypes.includes(messageType);
   }
 
+  // Check a v2 sequence number; returns false when the message should not be processed
+  private async receiveSequenced(clientId: string, client: WebSocketClient, message: WebSocketMessage): Promise<boolean> {
+    if (!client.sessionId) {
+      this.sendError(clientId, 'No active session');
+      return false;
+    }
+
+    if (!isValidSequence(message.seq)) {
+      this.sendError(clientId, 'Sequence number required', `protocol v2 ${message.type} needs a positive integer seq`);
+      return false;
+    }
+
+    const { duplicate, missing, outOfWindow } = await this.sequencer.receive(client.sessionId, message.seq);
+
+    if (outOfWindow) {
+      this.sendError(
+        clientId,
+        'Sequence out of window',
+        `seq may be at most ${MAX_SEQUENCE_WINDOW} past the acked watermark ${this.sequencer.getAck(client.sessionId).ackedThrough}`
+      );
+      return false;
+    }
+
+    if (duplicate) {
+      // Already persisted or in flight: re-ack so the client can drop it from its buffer
+      this.sendAck(clientId, client.sessionId, message.seq);
+      return false;
+    }
+
+    if (missing.length > 0) {
+      this.logger.warn('Sequence gap detected', {
+        clientId,
+        sessionId: client.sessionId,
+        seq: message.seq,
+        missing
+      });
+      this.sendToClient(clientId, {
+        type: 'sequence_gap',
+        sessionId: client.sessionId,
+        data: {
+          seq: message.seq,
+          missing,
+          ...this.sequencer.getAck(client.sessionId)
+        },
+        timestamp: Date.now()
+      });
+    }
+
+    // Stamp the session so the ack still lands on the right state if the client moves on
+    message.sessionId = client.sessionId;
+    this.sequencedMessages.add(message);
+    return true;
+  }
+
   // Queue a message for processing
   private queueMessage(clientId: string, message: WebSocketMessage): void {
     if (this.messageQueue.length >= this.MAX_QUEUE_SIZE) {
+      const dropped = this.messageQueue.shift(); // Remove oldest message
       this.logger.warn('Message queue full, dropping oldest message', {
         queueSize: this.messageQueue.length,
         maxSize: this.MAX_QUEUE_SIZE,
-        droppedMessageType: this.messageQueue[0]?.message.type
+        droppedMessageType: dropped?.message.type,
+        droppedSeq: dropped?.message.seq
       });
-      this.messageQueue.shift(); // Remove oldest message
+      if (dropped) {
+        this.settleSequence(dropped.clientId, dropped.message, false, 'queue_full');
+      }
     }
 
     this.messageQueue.push({
@@ -390,6 +497,10 @@ export class UnifiedWebSocketServer {
         await this.handleSubscribeUpdates(clientId, message);
         break;
 
+      case 'unsubscribe_updates':
+        this.handleUnsubscribeUpdates(clientId, message);
+        break;
+
       default:
         this.logger.warn('Unknown message type', {
           clientId,
@@ -403,14 +514,25 @@ export class UnifiedWebSocketServer {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    const { apiKey, clientType, extensionVersion } = message.data || {};
+    const { apiKey, clientType, extensionVersion, protocolVersion, protocolVersions } = message.data || {};
 
-    // Validate API key (implement your authentication logic)
-    const isValid = await this.validateApiKey(apiKey);
-    
-    if (isValid) {
+    const requestedType: WebSocketClient['type'] = Object.prototype.hasOwnProperty.call(WEBSOCKET_CLIENT_ROLES, clientType)
+      ? clientType
+      : 'extension';
+    const role = await this.validateApiKey(apiKey, client.metadata.ipAddress);
+
+    if (role && !WEBSOCKET_CLIENT_ROLES[requestedType].includes(role)) {
+      this.logger.warn('WebSocket client type not allowed for key role', { clientId, role, clientType: requestedType });
+      this.sendError(clientId, 'Authentication failed', `A ${role} key cannot connect as a ${requestedType} client`);
+      client.socket.close(1008, 'Authentication failed');
+      return;
+    }
+
+    if (role) {
       client.authenticated = true;
-      client.type = clientType || 'extension';
+      client.role = role;
+      client.type = requestedType;
+      client.protocolVersion = negotiateProtocolVersion(protocolVersions ?? protocolVersion);
       if (extensionVersion) {
         client.metadata.extensionVersion = extensionVersion;
       }
@@ -419,7 +541,10 @@ export class UnifiedWebSocketServer {
         type: 'authentication_success',
         data: {
           clientType: client.type,
-          features: this.getClientFeatures(client.type)
+          role: client.role,
+          features: this.getClientFeatures(client.type),
+          protocolVersion: client.protocolVersion,
+          supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS
         },
         timestamp: Date.now()
       });
@@ -427,7 +552,9 @@ export class UnifiedWebSocketServer {
       this.logger.info('Client authenticated', {
         clientId,
         type: client.type,
-        extensionVersion
+        role: client.role,
+        extensionVersion,
+        protocolVersion: client.protocolVersion
       });
     } else {
       this.sendError(clientId, 'Authentication failed', 'Invalid API key');
@@ -475,12 +602,18 @@ export class UnifiedWebSocketServer {
       }
       this.sessionClients.get(sessionId)!.add(clientId);
 
+      // A reconnecting v2 client replays everything after the last acked sequence
+      const resume = client.protocolVersion >= 2
+        ? { lastAckedSeq: await this.sequencer.resume(sessionId) }
+        : {};
+
       this.sendToClient(clientId, {
         type: 'session_started',
         sessionId,
         data: {
           status: 'active',
-          processingEnabled: true
+          processingEnabled: true,
+          ...resume
         },
         timestamp: Date.now()
       });
@@ -550,6 +683,7 @@ export class UnifiedWebSocketServer {
       }
 
       client.sessionId = undefined;
+      this.sequencer.release(sessionId);
       
       console.log('🔄 AUTO-TRIGGERING SESSION COMPLETION PROCESSING');
       console.log('📊 About to call completeSession() for sessionId:', sessionId);
@@ -601,6 +735,7 @@ export class UnifiedWebSocketServer {
     const client = this.clients.get(clientId);
     if (!client || !client.authenticated || !client.sessionId) {
       console.log(`❌ [WEBSOCKET] Client authentication failed`);
+      await this.settleSequence(clientId, message, false, 'no_active_session');
       this.sendError(clientId, 'No active session');
       return;
     }
@@ -611,6 +746,8 @@ export class UnifiedWebSocketServer {
       const interactionData = {
         sessionId: client.sessionId,
         ...message.data,
+        // Protocol v2 sequence; the pipeline keys the stored row on it so replays are not stored twice
+        seq: message.seq,
         timestamp: message.timestamp || Date.now(),
         clientId
       };
@@ -623,6 +760,8 @@ export class UnifiedWebSocketServer {
       
       console.log(`✅ [WEBSOCKET] Pipeline processing completed with status: ${result.status}`);
 
+      await this.settleSequence(clientId, message, result.status === 'success', result.error);
+
       // Send processing result back to client
       this.sendToClient(clientId, {
         type: 'interaction_processed',
@@ -654,6 +793,7 @@ export class UnifiedWebSocketServer {
         clientId,
         error: errorMessage
       });
+      await this.settleSequence(clientId, message, false, errorMessage);
       this.sendError(clientId, 'Failed to process interaction', errorMessage);
     }
   }
@@ -661,6 +801,7 @@ export class UnifiedWebSocketServer {
   private async handleScreenshotData(clientId: string, message: WebSocketMessage): Promise<void> {
     const client = this.clients.get(clientId);
     if (!client || !client.authenticated || !client.sessionId) {
+      await this.settleSequence(clientId, message, false, 'no_active_session');
       this.sendError(clientId, 'No active session');
       return;
     }
@@ -674,6 +815,7 @@ export class UnifiedWebSocketServer {
 
       // Process screenshot through pipeline
       const result = await this.dataProcessingPipeline.processScreenshot(screenshotData);
+      await this.settleSequence(clientId, message, result.status === 'success', result.error);
 
       this.sendToClient(clientId, {
         type: 'screenshot_processed',
@@ -694,6 +836,7 @@ export class UnifiedWebSocketServer {
         clientId,
         error: errorMessage
       });
+      await this.settleSequence(clientId, message, false, errorMessage);
       this.sendError(clientId, 'Failed to process screenshot', errorMessage);
     }
   }
@@ -760,19 +903,74 @@ export class UnifiedWebSocketServer {
       return;
     }
 
-    const { sessionId, updateTypes } = message.data || {};
-    
-    // Subscribe client to specific update types for a session
-    // Implementation depends on your specific requirements
-    
+    if (client.type === 'extension') {
+      this.sendError(clientId, 'Subscriptions are only available to frontend and admin clients');
+      return;
+    }
+
+    const { sessionId, updateTypes, topics, filters } = message.data || {};
+    const requested: unknown[] = Array.isArray(topics ?? updateTypes) ? (topics ?? updateTypes) : [];
+    const invalid = requested.filter(topic => !isSubscriptionTopic(topic));
+
+    if (requested.length === 0 || invalid.length > 0) {
+      this.sendError(
+        clientId,
+        'Invalid subscription topics',
+        `Expected one or more of: ${SUBSCRIPTION_TOPICS.join(', ')}`
+      );
+      return;
+    }
+
+    const filterErrors = subscriptionFilterErrors(filters);
+    if (filterErrors.length > 0) {
+      this.sendError(clientId, 'Invalid subscription filters', filterErrors.join('; '));
+      return;
+    }
+
+    const subscription = this.subscriptionHub.subscribe(clientId, {
+      sessionId: sessionId || message.sessionId,
+      topics: requested.filter(isSubscriptionTopic),
+      filters: filters || undefined
+    });
+
     this.sendToClient(clientId, {
       type: 'subscription_confirmed',
+      sessionId: subscription.sessionId,
       data: {
-        sessionId,
-        updateTypes
+        subscriptionId: subscription.id,
+        sessionId: subscription.sessionId,
+        topics: subscription.topics,
+        updateTypes: subscription.topics,
+        filters: subscription.filters
       },
       timestamp: Date.now()
     });
+
+    this.logger.info('Client subscribed to updates', {
+      clientId,
+      subscriptionId: subscription.id,
+      sessionId: subscription.sessionId,
+      topics: subscription.topics
+    });
+  }
+
+  private handleUnsubscribeUpdates(clientId: string, message: WebSocketMessage): void {
+    const subscriptionId = message.data?.subscriptionId;
+    const removed = this.subscriptionHub.unsubscribe(clientId, subscriptionId);
+
+    this.sendToClient(clientId, {
+      type: 'unsubscribe_confirmed',
+      data: {
+        subscriptionId,
+        removed
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  // Alerts come from the monitoring service, which is created outside the WebSocket server
+  public attachAlertSource(monitoring: EventEmitter): void {
+    this.subscriptionHub.attachAlerts(monitoring);
   }
 
   private handleDisconnection(clientId: string, code: number, reason: Buffer | string): void {
@@ -792,6 +990,7 @@ export class UnifiedWebSocketServer {
 
     // Remove client
     this.clients.delete(clientId);
+    this.subscriptionHub.removeClient(clientId);
 
     this.logger.info('WebSocket client disconnected', {
       clientId,
@@ -817,6 +1016,43 @@ export class UnifiedWebSocketServer {
     }
   }
 
+  // Ack or nack a v2 sequenced message once its outcome is known
+  private async settleSequence(clientId: string, message: WebSocketMessage, persisted: boolean, reason?: string): Promise<void> {
+    const sessionId = message.sessionId;
+    if (!this.sequencedMessages.has(message) || !sessionId || !isValidSequence(message.seq)) return;
+    this.sequencedMessages.delete(message);
+
+    if (persisted) {
+      await this.sequencer.markPersisted(sessionId, message.seq);
+      this.sendAck(clientId, sessionId, message.seq);
+      return;
+    }
+
+    const ack = this.sequencer.markFailed(sessionId, message.seq);
+    this.sendToClient(clientId, {
+      type: 'nack',
+      sessionId,
+      data: {
+        seq: message.seq,
+        reason: reason || 'processing_failed',
+        ...ack
+      },
+      timestamp: Date.now()
+    });
+  }
+
+  private sendAck(clientId: string, sessionId: string, seq: number): void {
+    this.sendToClient(clientId, {
+      type: 'ack',
+      sessionId,
+      data: {
+        seq,
+        ...this.sequencer.getAck(sessionId)
+      },
+      timestamp: Date.now()
+    });
+  }
+
   private sendError(clientId: string, message: string, details?: string): void {
     this.sendToClient(clientId, {
       type: 'error',
@@ -839,10 +1075,24 @@ export class UnifiedWebSocketServer {
     });
   }
 
-  private async validateApiKey(apiKey: string): Promise<boolean> {
-    // Implement your API key validation logic
-    // For now, accept any non-empty key
-    return !!apiKey && apiKey.length > 0;
+  // Resolves the role behind an API key, or null when the key is not accepted
+  private async validateApiKey(apiKey: unknown, ipAddress?: string): Promise<ApiKeyRole | null> {
+    if (typeof apiKey !== 'string' || apiKey.length === 0) return null;
+
+    // Shared key from the public /config endpoint: extension access only
+    if (process.env.X_API_KEY && apiKey === process.env.X_API_KEY) {
+      return 'extension';
+    }
+
+    if (!this.apiKeyManager) return null;
+
+    try {
+      const principal = await this.apiKeyManager.validateKey(apiKey, { ipAddress });
+      return principal?.role ?? null;
+    } catch (error) {
+      this.logger.error('API key validation failed', { error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
   }
 
   private getClientFeatures(clientType: string): string[] {
@@ -852,9 +1102,9 @@ export class UnifiedWebSocketServer {
       case 'extension':
         return [...baseFeatures, 'screenshot-processing', 'interaction-tracking'];
       case 'frontend':
-        return [...baseFeatures, 'session-monitoring', 'analytics'];
+        return [...baseFeatures, 'session-monitoring', 'analytics', 'live-subscriptions'];
       case 'admin':
-        return [...baseFeatures, 'system-monitoring', 'training-pipeline'];
+        return [...baseFeatures, 'system-monitoring', 'training-pipeline', 'live-subscriptions'];
       default:
         return baseFeatures;
     }
@@ -946,7 +1196,9 @@ export class UnifiedWebSocketServer {
         maxSize: this.MAX_QUEUE_SIZE,
         isProcessing: this.isProcessingQueue,
         processInterval: this.QUEUE_PROCESS_INTERVAL
-      }
+      },
+      sequencing: this.sequencer.getStats(),
+      subscriptions: this.subscriptionHub.getStats()
     };
   }
 
@@ -963,6 +1215,8 @@ export class UnifiedWebSocketServer {
       clearInterval(this.queueProcessingInterval);
     }
 
+    this.subscriptionHub.close();
+
     // Process any remaining messages in queue before shutdown
     if (this.messageQueue.length > 0) {
       this.logger.info('Processing remaining messages before shutdown', {
@@ -0,0 +1,128 @@
+/**
+ * Session Sequencer Tests
+ *
+ * Tests protocol negotiation, duplicate and gap detection, contiguous
+ * acks and resume from the stored watermark
+ */
+
+import {
+  MAX_SEQUENCE_WINDOW,
+  SessionSequencerImpl,
+  SequenceStore,
+  negotiateProtocolVersion
+} from '../session-sequencer';
+
+class MemorySequenceStore implements SequenceStore {
+  watermarks: Map<string, number> = new Map();
+  saves: Array<[string, number]> = [];
+
+  async load(sessionId: string): Promise<number> {
+    return this.watermarks.get(sessionId) ?? 0;
+  }
+
+  async save(sessionId: string, ackedThrough: number): Promise<void> {
+    this.saves.push([sessionId, ackedThrough]);
+    this.watermarks.set(sessionId, ackedThrough);
+  }
+}
+
+describe('SessionSequencer', () => {
+  let store: MemorySequenceStore;
+  let sequencer: SessionSequencerImpl;
+
+  beforeEach(() => {
+    store = new MemorySequenceStore();
+    sequencer = new SessionSequencerImpl(store);
+  });
+
+  describe('🤝 Negotiation', () => {
+    it('should pick the highest shared version', () => {
+      expect(negotiateProtocolVersion([1, 2, 3])).toBe(2);
+      expect(negotiateProtocolVersion(2)).toBe(2);
+      expect(negotiateProtocolVersion('1')).toBe(1);
+    });
+
+    it('should fall back to v1 for clients that do not advertise a version', () => {
+      expect(negotiateProtocolVersion(undefined)).toBe(1);
+      expect(negotiateProtocolVersion([7])).toBe(1);
+    });
+  });
+
+  describe('🔢 Sequencing', () => {
+    it('should only advance the ack watermark over contiguous persisted sequences', async () => {
+      for (const seq of [1, 2, 3]) {
+        await sequencer.receive('s1', seq);
+      }
+
+      await sequencer.markPersisted('s1', 1);
+      const outOfOrder = await sequencer.markPersisted('s1', 3);
+      expect(outOfOrder).toEqual({ ackedThrough: 1, ranges: [[1, 1], [3, 3]] });
+
+      const caughtUp = await sequencer.markPersisted('s1', 2);
+      expect(caughtUp).toEqual({ ackedThrough: 3, ranges: [[1, 3]] });
+      expect(store.saves).toEqual([['s1', 1], ['s1', 3]]);
+    });
+
+    it('should report skipped sequences as a gap', async () => {
+      await sequencer.receive('s1', 1);
+
+      const result = await sequencer.receive('s1', 5);
+
+      expect(result).toEqual({ duplicate: false, missing: [[2, 4]] });
+      expect((await sequencer.receive('s1', 3)).missing).toEqual([]);
+    });
+
+    it('should refuse sequences beyond the window without tracking them', async () => {
+      await sequencer.receive('s1', 1);
+
+      const huge = await sequencer.receive('s1', Number.MAX_SAFE_INTEGER);
+      const edge = await sequencer.receive('s1', MAX_SEQUENCE_WINDOW);
+
+      expect(huge).toEqual({ duplicate: false, missing: [], outOfWindow: true });
+      expect(edge).toEqual({ duplicate: false, missing: [[2, MAX_SEQUENCE_WINDOW - 1]] });
+      expect(sequencer.getStats()).toEqual({ trackedSessions: 1, inFlight: 2 });
+    });
+
+    it('should flag replays of in-flight and persisted sequences as duplicates', async () => {
+      await sequencer.receive('s1', 1);
+      expect((await sequencer.receive('s1', 1)).duplicate).toBe(true);
+
+      await sequencer.markPersisted('s1', 1);
+      expect((await sequencer.receive('s1', 1)).duplicate).toBe(true);
+    });
+
+    it('should accept a replay after a failed attempt', async () => {
+      await sequencer.receive('s1', 1);
+      sequencer.markFailed('s1', 1);
+
+      expect((await sequencer.receive('s1', 1)).duplicate).toBe(false);
+    });
+  });
+
+  describe('🔁 Resume', () => {
+    it('should resume from the stored watermark after a restart', async () => {
+      await sequencer.receive('s1', 1);
+      await sequencer.receive('s1', 2);
+      await sequencer.markPersisted('s1', 1);
+      await sequencer.markPersisted('s1', 2);
+
+      const restarted = new SessionSequencerImpl(store);
+
+      expect(await restarted.resume('s1')).toBe(2);
+      expect((await restarted.receive('s1', 2)).duplicate).toBe(true);
+      expect((await restarted.receive('s1', 3)).missing).toEqual([]);
+    });
+
+    it('should start from zero when the store is unavailable', async () => {
+      const failing: SequenceStore = {
+        load: jest.fn().mockRejectedValue(new Error('connection refused')),
+        save: jest.fn().mockRejectedValue(new Error('connection refused'))
+      };
+      const offline = new SessionSequencerImpl(failing);
+
+      expect(await offline.resume('s1')).toBe(0);
+      await offline.receive('s1', 1);
+      expect((await offline.markPersisted('s1', 1)).ackedThrough).toBe(1);
+    });
+  });
+});
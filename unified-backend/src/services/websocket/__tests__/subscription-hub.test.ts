@@ -0,0 +1,125 @@
+/**
+ * Subscription Hub Tests
+ *
+ * Tests topic and session matching, per-topic filters, event sourcing from
+ * the pipeline and monitoring emitters, and slow-consumer backpressure
+ */
+
+import { EventEmitter } from 'events';
+import { SubscriptionHubImpl, matchesSubscription, subscriptionFilterErrors } from '../subscription-hub';
+
+describe('SubscriptionHub', () => {
+  let sent: Array<{ clientId: string; message: any }>;
+  let buffered: Record<string, number>;
+  let hub: SubscriptionHubImpl;
+
+  beforeEach(() => {
+    sent = [];
+    buffered = {};
+    hub = new SubscriptionHubImpl({
+      send: (clientId, message) => sent.push({ clientId, message }),
+      getBufferedAmount: clientId => buffered[clientId] || 0
+    }, { highWaterMarkBytes: 100, maxPendingEvents: 2, drainIntervalMs: 10_000 });
+  });
+
+  afterEach(() => hub.close());
+
+  describe('🎯 Matching', () => {
+    it('should scope session subscriptions to their session but always pass alerts', () => {
+      const subscription = { sessionId: 's1', topics: ['quality', 'alerts'] as any };
+
+      expect(matchesSubscription(subscription, { topic: 'quality', sessionId: 's1', data: { score: 40 } })).toBe(true);
+      expect(matchesSubscription(subscription, { topic: 'quality', sessionId: 's2', data: { score: 40 } })).toBe(false);
+      expect(matchesSubscription(subscription, { topic: 'alerts', data: { severity: 'low' } })).toBe(true);
+      expect(matchesSubscription(subscription, { topic: 'processing', sessionId: 's1', data: {} })).toBe(false);
+    });
+
+    it('should apply per-topic filters', () => {
+      const subscription = {
+        topics: ['quality', 'alerts', 'session_status'] as any,
+        filters: { maxQualityScore: 50, minSeverity: 'high' as const, statuses: ['FAILED'] }
+      };
+
+      expect(matchesSubscription(subscription, { topic: 'quality', data: { score: 42 } })).toBe(true);
+      expect(matchesSubscription(subscription, { topic: 'quality', data: { score: 87 } })).toBe(false);
+      expect(matchesSubscription(subscription, { topic: 'alerts', data: { severity: 'critical' } })).toBe(true);
+      expect(matchesSubscription(subscription, { topic: 'alerts', data: { severity: 'medium' } })).toBe(false);
+      expect(matchesSubscription(subscription, { topic: 'session_status', data: { status: 'ENHANCING' } })).toBe(false);
+    });
+
+    it('should reject filters of the wrong type or outside the known values', () => {
+      expect(subscriptionFilterErrors(undefined)).toEqual([]);
+      expect(subscriptionFilterErrors({ statuses: ['FAILED'], maxQualityScore: 50, qualityScope: 'session', minSeverity: 'high' })).toEqual([]);
+      expect(subscriptionFilterErrors('FAILED')).toEqual(['filters must be an object']);
+      expect(subscriptionFilterErrors({ statuses: 'FAILED', maxQualityScore: '50', qualityScope: 'page', minSeverity: 'urgent' })).toEqual([
+        'statuses must be an array of strings',
+        'maxQualityScore must be a finite number',
+        'qualityScope must be one of: interaction, session',
+        'minSeverity must be one of: low, medium, high, critical'
+      ]);
+    });
+  });
+
+  describe('📡 Fan-out', () => {
+    it('should push pipeline events to matching subscribers only', () => {
+      const pipeline = new EventEmitter();
+      hub.attachPipeline(pipeline);
+      const watcher = hub.subscribe('admin', { topics: ['training_data', 'processing'] });
+      hub.subscribe('frontend', { sessionId: 'other', topics: ['training_data'] });
+
+      pipeline.emit('trainingDataCreated', { sessionId: 's1', trainingDataId: 'td-1', exampleCount: 12 });
+      pipeline.emit('processingUpdate', { processingId: 'job-1', update: { sessionId: 's1', status: 'completed' } });
+
+      expect(sent.map(entry => entry.clientId)).toEqual(['admin', 'admin']);
+      expect(sent[0].message).toEqual(expect.objectContaining({
+        type: 'subscription_event',
+        sessionId: 's1',
+        data: { subscriptionId: watcher.id, topic: 'training_data', event: expect.objectContaining({ trainingDataId: 'td-1' }) }
+      }));
+      expect(sent[1].message.data.event).toEqual({ processingId: 'job-1', sessionId: 's1', status: 'completed' });
+    });
+
+    it('should relay monitoring alerts', () => {
+      const monitoring = new EventEmitter();
+      hub.attachAlerts(monitoring);
+      hub.subscribe('admin', { topics: ['alerts'] });
+
+      monitoring.emit('alertTriggered', { id: 'alert_1', severity: 'high', message: 'High CPU Usage' });
+
+      expect(sent[0].message.data.event).toEqual(expect.objectContaining({ state: 'triggered', id: 'alert_1' }));
+    });
+
+    it('should stop delivering after unsubscribe and detach on close', () => {
+      const pipeline = new EventEmitter();
+      hub.attachPipeline(pipeline);
+      const subscription = hub.subscribe('admin', { topics: ['quality'] });
+
+      expect(hub.unsubscribe('admin', subscription.id)).toBe(1);
+      pipeline.emit('qualityScored', { sessionId: 's1', score: 10 });
+      expect(sent).toHaveLength(0);
+
+      hub.close();
+      expect(pipeline.listenerCount('qualityScored')).toBe(0);
+    });
+  });
+
+  describe('🚦 Backpressure', () => {
+    it('should hold events for a backed-up socket and report drops once it drains', () => {
+      hub.subscribe('slow', { topics: ['quality'] });
+      buffered.slow = 1000;
+
+      for (let score = 1; score <= 5; score++) {
+        hub.publish({ topic: 'quality', sessionId: 's1', data: { score } });
+      }
+
+      expect(sent).toHaveLength(0);
+      expect(hub.getStats()).toEqual(expect.objectContaining({ pendingEvents: 2, droppedEvents: 3 }));
+
+      buffered.slow = 0;
+      hub.publish({ topic: 'quality', sessionId: 's1', data: { score: 6 } });
+
+      expect(sent[0].message).toEqual(expect.objectContaining({ type: 'subscription_lag', data: { droppedEvents: 4 } }));
+      expect(sent.slice(1).map(entry => entry.message.data.event.score)).toEqual([5, 6]);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { PrismaClient } from '@prisma/client';
+import { Logger } from '../../utils/logger';
+
+/**
+ * Protocol versions the WebSocket server speaks. Version 1 is the original
+ * fire-and-forget protocol; version 2 adds per-session sequence numbers,
+ * persisted-range acks, gap detection and resume.
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = [1, 2] as const;
+
+export type ProtocolVersion = typeof SUPPORTED_PROTOCOL_VERSIONS[number];
+
+/** Message types that carry a sequence number under protocol v2 */
+export const SEQUENCED_MESSAGE_TYPES = ['interaction_event', 'screenshot_data'];
+
+/**
+ * How far past the acked watermark a sequence may run. Anything further is
+ * refused rather than tracked, so one message cannot make the server account
+ * for an arbitrarily large gap.
+ */
+export const MAX_SEQUENCE_WINDOW = 10000;
+
+/** Inclusive range of sequence numbers */
+export type SequenceRange = [number, number];
+
+export interface SequenceAck {
+  /** Every sequence up to and including this one has been persisted */
+  ackedThrough: number;
+  /** Persisted ranges, including out-of-order ones above ackedThrough */
+  ranges: SequenceRange[];
+}
+
+export interface ReceiveResult {
+  duplicate: boolean;
+  /** Sequences that were skipped over by this message and have not arrived yet */
+  missing: SequenceRange[];
+  /** Set when seq is more than MAX_SEQUENCE_WINDOW past the watermark; the message must be dropped */
+  outOfWindow?: boolean;
+}
+
+/** Durable home for each session's acked watermark so resume survives restarts */
+export interface SequenceStore {
+  load(sessionId: string): Promise<number>;
+  save(sessionId: string, ackedThrough: number): Promise<void>;
+}
+
+export interface SessionSequencer {
+  resume(sessionId: string): Promise<number>;
+  receive(sessionId: string, seq: number): Promise<ReceiveResult>;
+  markPersisted(sessionId: string, seq: number): Promise<SequenceAck>;
+  markFailed(sessionId: string, seq: number): SequenceAck;
+  getAck(sessionId: string): SequenceAck;
+  release(sessionId: string): void;
+  getStats(): { trackedSessions: number; inFlight: number };
+}
+
+/**
+ * Picks the highest version both sides support. A client that does not
+ * advertise a version is treated as v1.
+ */
+export function negotiateProtocolVersion(requested: unknown): ProtocolVersion {
+  const candidates = (Array.isArray(requested) ? requested : [requested])
+    .map(value => Number(value))
+    .filter((value): value is ProtocolVersion =>
+      (SUPPORTED_PROTOCOL_VERSIONS as readonly number[]).includes(value)
+    );
+
+  return candidates.length > 0 ? (Math.max(...candidates) as ProtocolVersion) : 1;
+}
+
+export function isValidSequence(seq: unknown): seq is number {
+  return typeof seq === 'number' && Number.isSafeInteger(seq) && seq > 0;
+}
+
+function toRanges(sequences: number[]): SequenceRange[] {
+  const sorted = [...sequences].sort((a, b) => a - b);
+  const ranges: SequenceRange[] = [];
+
+  for (const seq of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && seq === last[1] + 1) {
+      last[1] = seq;
+    } else {
+      ranges.push([seq, seq]);
+    }
+  }
+
+  return ranges;
+}
+
+export class PrismaSequenceStore implements SequenceStore {
+  constructor(private prisma: PrismaClient) {}
+
+  async load(sessionId: string): Promise<number> {
+    const session = await this.prisma.unifiedSession.findUnique({
+      where: { id: sessionId },
+      select: { streamSequence: true }
+    });
+
+    return session?.streamSequence ?? 0;
+  }
+
+  async save(sessionId: string, ackedThrough: number): Promise<void> {
+    // Saves can land out of order; never move the watermark backwards
+    await this.prisma.unifiedSession.updateMany({
+      where: { id: sessionId, streamSequence: { lt: ackedThrough } },
+      data: { streamSequence: ackedThrough }
+    });
+  }
+}
+
+interface SessionSequenceState {
+  ackedThrough: number;
+  highestReceived: number;
+  inFlight: Set<number>;
+  persisted: Set<number>;
+}
+
+/**
+ * Tracks per-session sequence numbers for protocol v2 clients. Sequences
+ * are accepted in any order; the acked watermark only advances over a
+ * contiguous run of persisted sequences, and is written to the store so a
+ * reconnecting client (or a restarted server) knows where to resume.
+ */
+export class SessionSequencerImpl implements SessionSequencer {
+  private states: Map<string, SessionSequenceState> = new Map();
+  private loading: Map<string, Promise<SessionSequenceState>> = new Map();
+  private logger: Logger;
+
+  constructor(private store?: SequenceStore) {
+    this.logger = new Logger('SessionSequencer');
+  }
+
+  async resume(sessionId: string): Promise<number> {
+    const state = await this.getState(sessionId);
+    return state.ackedThrough;
+  }
+
+  async receive(sessionId: string, seq: number): Promise<ReceiveResult> {
+    const state = await this.getState(sessionId);
+
+    if (seq <= state.ackedThrough || state.persisted.has(seq) || state.inFlight.has(seq)) {
+      return { duplicate: true, missing: [] };
+    }
+
+    if (seq - state.ackedThrough > MAX_SEQUENCE_WINDOW) {
+      return { duplicate: false, missing: [], outOfWindow: true };
+    }
+
+    // Everything between the highest sequence seen so far and this one is one gap
+    const gapStart = Math.max(state.highestReceived, state.ackedThrough) + 1;
+    const missing: SequenceRange[] = gapStart < seq ? [[gapStart, seq - 1]] : [];
+
+    state.inFlight.add(seq);
+    state.highestReceived = Math.max(state.highestReceived, seq);
+
+    return { duplicate: false, missing };
+  }
+
+  async markPersisted(sessionId: string, seq: number): Promise<SequenceAck> {
+    const state = await this.getState(sessionId);
+    const previous = state.ackedThrough;
+
+    state.inFlight.delete(seq);
+    if (seq > state.ackedThrough) {
+      state.persisted.add(seq);
+    }
+
+    while (state.persisted.has(state.ackedThrough + 1)) {
+      state.ackedThrough++;
+      state.persisted.delete(state.ackedThrough);
+    }
+
+    if (state.ackedThrough > previous && this.store) {
+      try {
+        await this.store.save(sessionId, state.ackedThrough);
+      } catch (error) {
+        // The in-memory watermark still serves live clients; only resume after a restart is affected
+        this.logger.warn('Failed to save sequence watermark', {
+          sessionId,
+          ackedThrough: state.ackedThrough,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return this.buildAck(state);
+  }
+
+  markFailed(sessionId: string, seq: number): SequenceAck {
+    const state = this.states.get(sessionId);
+    if (!state) {
+      return { ackedThrough: 0, ranges: [] };
+    }
+
+    // Forget the sequence so the client's replay is accepted instead of treated as a duplicate
+    state.inFlight.delete(seq);
+    return this.buildAck(state);
+  }
+
+  getAck(sessionId: string): SequenceAck {
+    const state = this.states.get(sessionId);
+    return state ? this.buildAck(state) : { ackedThrough: 0, ranges: [] };
+  }
+
+  release(sessionId: string): void {
+    this.states.delete(sessionId);
+  }
+
+  getStats(): { trackedSessions: number; inFlight: number } {
+    let inFlight = 0;
+    this.states.forEach(state => {
+      inFlight += state.inFlight.size;
+    });
+
+    return { trackedSessions: this.states.size, inFlight };
+  }
+
+  private buildAck(state: SessionSequenceState): SequenceAck {
+    const ranges = toRanges(Array.from(state.persisted));
+    if (state.ackedThrough > 0) {
+      ranges.unshift([1, state.ackedThrough]);
+    }
+
+    return { ackedThrough: state.ackedThrough, ranges };
+  }
+
+  private async getState(sessionId: string): Promise<SessionSequenceState> {
+    const existing = this.states.get(sessionId);
+    if (existing) return existing;
+
+    // Concurrent first messages for a session must share a single load
+    let pending = this.loading.get(sessionId);
+    if (!pending) {
+      pending = this.loadState(sessionId).finally(() => this.loading.delete(sessionId));
+      this.loading.set(sessionId, pending);
+    }
+
+    return pending;
+  }
+
+  private async loadState(sessionId: string): Promise<SessionSequenceState> {
+    let ackedThrough = 0;
+
+    if (this.store) {
+      try {
+        ackedThrough = await this.store.load(sessionId);
+      } catch (error) {
+        this.logger.warn('Failed to load sequence watermark, starting from zero', {
+          sessionId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const state: SessionSequenceState = {
+      ackedThrough,
+      highestReceived: ackedThrough,
+      inFlight: new Set(),
+      persisted: new Set()
+    };
+    this.states.set(sessionId, state);
+
+    return state;
+  }
+}
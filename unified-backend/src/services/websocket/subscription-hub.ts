@@ -0,0 +1,372 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../utils/logger';
+
+export const SUBSCRIPTION_TOPICS = ['processing', 'session_status', 'quality', 'training_data', 'alerts'] as const;
+
+export type SubscriptionTopic = typeof SUBSCRIPTION_TOPICS[number];
+
+export const ALERT_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+
+export const QUALITY_SCOPES = ['interaction', 'session'] as const;
+
+/** Optional per-topic filters; a filter only applies to the topic it names */
+export interface SubscriptionFilters {
+  /** processing / session_status: only these statuses */
+  statuses?: string[];
+  /** quality: only scores at or below this value (e.g. watch for bad sessions) */
+  maxQualityScore?: number;
+  /** quality: only 'interaction' or 'session' scores */
+  qualityScope?: typeof QUALITY_SCOPES[number];
+  /** alerts: only this severity or worse */
+  minSeverity?: AlertSeverity;
+}
+
+export interface SubscriptionRequest {
+  /** Omit for global subscriptions across all sessions */
+  sessionId?: string;
+  topics: SubscriptionTopic[];
+  filters?: SubscriptionFilters;
+}
+
+export interface Subscription extends SubscriptionRequest {
+  id: string;
+  clientId: string;
+  createdAt: Date;
+}
+
+export interface TopicEvent {
+  topic: SubscriptionTopic;
+  sessionId?: string;
+  data: any;
+}
+
+/** How the hub reaches a client; the WebSocket server supplies this */
+export interface SubscriptionTransport {
+  send(clientId: string, message: { type: string; sessionId?: string; data?: any; timestamp: number }): void;
+  /** Bytes queued on the socket but not yet written to the network */
+  getBufferedAmount(clientId: string): number;
+}
+
+export interface SubscriptionHubOptions {
+  /** Stop writing to a socket once this many bytes are queued on it */
+  highWaterMarkBytes: number;
+  /** Events held per client while its socket is backed up; oldest are dropped beyond this */
+  maxPendingEvents: number;
+  /** How often backed-up clients are retried (ms) */
+  drainIntervalMs: number;
+}
+
+export interface SubscriptionHub {
+  subscribe(clientId: string, request: SubscriptionRequest): Subscription;
+  unsubscribe(clientId: string, subscriptionId?: string): number;
+  removeClient(clientId: string): void;
+  publish(event: TopicEvent): number;
+  attachPipeline(pipeline: EventEmitter): void;
+  attachAlerts(monitoring: EventEmitter): void;
+  getStats(): { subscriptions: number; subscribedClients: number; pendingEvents: number; droppedEvents: number };
+  close(): void;
+}
+
+const DEFAULT_OPTIONS: SubscriptionHubOptions = {
+  highWaterMarkBytes: 1024 * 1024,
+  maxPendingEvents: 500,
+  drainIntervalMs: 250
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export function isSubscriptionTopic(value: unknown): value is SubscriptionTopic {
+  return typeof value === 'string' && (SUBSCRIPTION_TOPICS as readonly string[]).includes(value);
+}
+
+/**
+ * Problems with client-supplied filters, empty when they are usable. Filters
+ * are matched as given, so a wrong type would silently drop or pass events.
+ */
+export function subscriptionFilterErrors(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value !== 'object' || Array.isArray(value)) return ['filters must be an object'];
+
+  const filters = value as Record<string, unknown>;
+  const errors: string[] = [];
+  if (filters.statuses !== undefined &&
+    !(Array.isArray(filters.statuses) && filters.statuses.every(status => typeof status === 'string'))) {
+    errors.push('statuses must be an array of strings');
+  }
+  if (filters.maxQualityScore !== undefined &&
+    !(typeof filters.maxQualityScore === 'number' && Number.isFinite(filters.maxQualityScore))) {
+    errors.push('maxQualityScore must be a finite number');
+  }
+  if (filters.qualityScope !== undefined && !(QUALITY_SCOPES as readonly unknown[]).includes(filters.qualityScope)) {
+    errors.push(`qualityScope must be one of: ${QUALITY_SCOPES.join(', ')}`);
+  }
+  if (filters.minSeverity !== undefined && !(ALERT_SEVERITIES as readonly unknown[]).includes(filters.minSeverity)) {
+    errors.push(`minSeverity must be one of: ${ALERT_SEVERITIES.join(', ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Decides whether a subscription wants an event. Session-scoped
+ * subscriptions only see their session; alerts are system-wide and are
+ * delivered to every subscription that asked for them.
+ */
+export function matchesSubscription(subscription: SubscriptionRequest, event: TopicEvent): boolean {
+  if (!subscription.topics.includes(event.topic)) return false;
+
+  if (subscription.sessionId && event.topic !== 'alerts' && event.sessionId !== subscription.sessionId) {
+    return false;
+  }
+
+  const filters = subscription.filters || {};
+
+  switch (event.topic) {
+    case 'processing':
+    case 'session_status':
+      return !filters.statuses || filters.statuses.includes(String(event.data?.status));
+
+    case 'quality':
+      if (filters.qualityScope && event.data?.scope !== filters.qualityScope) return false;
+      return filters.maxQualityScore === undefined || Number(event.data?.score) <= filters.maxQualityScore;
+
+    case 'alerts': {
+      if (!filters.minSeverity) return true;
+      const severity = SEVERITY_RANK[event.data?.severity as AlertSeverity] ?? 0;
+      return severity >= SEVERITY_RANK[filters.minSeverity];
+    }
+
+    default:
+      return true;
+  }
+}
+
+interface PendingDelivery {
+  subscriptionId: string;
+  event: TopicEvent;
+  publishedAt: number;
+}
+
+/**
+ * Fans out pipeline and monitoring events to subscribed WebSocket clients.
+ * Slow consumers are not allowed to grow server memory: while a socket is
+ * above the high-water mark its events wait in a bounded per-client queue,
+ * the oldest are dropped when that fills, and the client is told how many
+ * it missed once it catches up.
+ */
+export class SubscriptionHubImpl implements SubscriptionHub {
+  private subscriptions: Map<string, Map<string, Subscription>> = new Map();
+  private pending: Map<string, PendingDelivery[]> = new Map();
+  private dropped: Map<string, number> = new Map();
+  private totalDropped = 0;
+  private detachers: Array<() => void> = [];
+  private drainInterval?: ReturnType<typeof setInterval>;
+  private options: SubscriptionHubOptions;
+  private logger: Logger;
+
+  constructor(private transport: SubscriptionTransport, options: Partial<SubscriptionHubOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.logger = new Logger('SubscriptionHub');
+  }
+
+  subscribe(clientId: string, request: SubscriptionRequest): Subscription {
+    const subscription: Subscription = {
+      id: uuidv4(),
+      clientId,
+      sessionId: request.sessionId,
+      topics: Array.from(new Set(request.topics)),
+      filters: request.filters,
+      createdAt: new Date()
+    };
+
+    if (!this.subscriptions.has(clientId)) {
+      this.subscriptions.set(clientId, new Map());
+    }
+    this.subscriptions.get(clientId)!.set(subscription.id, subscription);
+    this.ensureDraining();
+
+    return subscription;
+  }
+
+  unsubscribe(clientId: string, subscriptionId?: string): number {
+    const clientSubscriptions = this.subscriptions.get(clientId);
+    if (!clientSubscriptions) return 0;
+
+    if (!subscriptionId) {
+      const removed = clientSubscriptions.size;
+      this.removeClient(clientId);
+      return removed;
+    }
+
+    const removed = clientSubscriptions.delete(subscriptionId) ? 1 : 0;
+    if (clientSubscriptions.size === 0) {
+      this.removeClient(clientId);
+    }
+    return removed;
+  }
+
+  removeClient(clientId: string): void {
+    this.subscriptions.delete(clientId);
+    this.pending.delete(clientId);
+    this.dropped.delete(clientId);
+  }
+
+  publish(event: TopicEvent): number {
+    let delivered = 0;
+    const publishedAt = Date.now();
+
+    this.subscriptions.forEach((clientSubscriptions, clientId) => {
+      clientSubscriptions.forEach(subscription => {
+        if (!matchesSubscription(subscription, event)) return;
+        this.enqueue(clientId, { subscriptionId: subscription.id, event, publishedAt });
+        delivered++;
+      });
+      this.flush(clientId);
+    });
+
+    return delivered;
+  }
+
+  attachPipeline(pipeline: EventEmitter): void {
+    this.listen(pipeline, 'processingUpdate', ({ processingId, update }: any) => this.publish({
+      topic: 'processing',
+      sessionId: update?.sessionId,
+      data: { processingId, ...update }
+    }));
+    this.listen(pipeline, 'processingStatusChanged', (payload: any) => this.publish({
+      topic: 'session_status',
+      sessionId: payload.sessionId,
+      data: payload
+    }));
+    this.listen(pipeline, 'qualityScored', (payload: any) => this.publish({
+      topic: 'quality',
+      sessionId: payload.sessionId,
+      data: payload
+    }));
+    this.listen(pipeline, 'trainingDataCreated', (payload: any) => this.publish({
+      topic: 'training_data',
+      sessionId: payload.sessionId,
+      data: payload
+    }));
+  }
+
+  attachAlerts(monitoring: EventEmitter): void {
+    this.listen(monitoring, 'alertTriggered', (alert: any) => this.publish({
+      topic: 'alerts',
+      data: { state: 'triggered', ...alert }
+    }));
+    this.listen(monitoring, 'alertResolved', (alert: any) => this.publish({
+      topic: 'alerts',
+      data: { state: 'resolved', ...alert }
+    }));
+  }
+
+  getStats(): { subscriptions: number; subscribedClients: number; pendingEvents: number; droppedEvents: number } {
+    let subscriptions = 0;
+    this.subscriptions.forEach(clientSubscriptions => {
+      subscriptions += clientSubscriptions.size;
+    });
+
+    let pendingEvents = 0;
+    this.pending.forEach(queue => {
+      pendingEvents += queue.length;
+    });
+
+    return {
+      subscriptions,
+      subscribedClients: this.subscriptions.size,
+      pendingEvents,
+      droppedEvents: this.totalDropped
+    };
+  }
+
+  close(): void {
+    this.detachers.forEach(detach => detach());
+    this.detachers = [];
+
+    if (this.drainInterval) {
+      clearInterval(this.drainInterval);
+      this.drainInterval = undefined;
+    }
+
+    this.subscriptions.clear();
+    this.pending.clear();
+    this.dropped.clear();
+  }
+
+  private listen(source: EventEmitter, eventName: string, handler: (payload: any) => void): void {
+    const safeHandler = (payload: any) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        // A bad subscriber must never break the emitter it is listening to
+        this.logger.error('Failed to fan out event', { eventName, error: error instanceof Error ? error.message : String(error) });
+      }
+    };
+
+    source.on(eventName, safeHandler);
+    this.detachers.push(() => source.off(eventName, safeHandler));
+  }
+
+  private enqueue(clientId: string, delivery: PendingDelivery): void {
+    if (!this.pending.has(clientId)) {
+      this.pending.set(clientId, []);
+    }
+
+    const queue = this.pending.get(clientId)!;
+    queue.push(delivery);
+
+    if (queue.length > this.options.maxPendingEvents) {
+      const overflow = queue.length - this.options.maxPendingEvents;
+      queue.splice(0, overflow);
+      this.dropped.set(clientId, (this.dropped.get(clientId) || 0) + overflow);
+      this.totalDropped += overflow;
+    }
+  }
+
+  private flush(clientId: string): void {
+    const queue = this.pending.get(clientId);
+    if (!queue || queue.length === 0) return;
+
+    while (queue.length > 0) {
+      if (this.transport.getBufferedAmount(clientId) > this.options.highWaterMarkBytes) {
+        return; // Still backed up; the drain timer will retry
+      }
+
+      const missed = this.dropped.get(clientId);
+      if (missed) {
+        this.dropped.delete(clientId);
+        this.transport.send(clientId, {
+          type: 'subscription_lag',
+          data: { droppedEvents: missed },
+          timestamp: Date.now()
+        });
+        this.logger.warn('Subscriber fell behind, events dropped', { clientId, droppedEvents: missed });
+      }
+
+      const delivery = queue.shift()!;
+      this.transport.send(clientId, {
+        type: 'subscription_event',
+        sessionId: delivery.event.sessionId,
+        data: {
+          subscriptionId: delivery.subscriptionId,
+          topic: delivery.event.topic,
+          event: delivery.event.data
+        },
+        timestamp: delivery.publishedAt
+      });
+    }
+  }
+
+  private ensureDraining(): void {
+    if (this.drainInterval) return;
+
+    this.drainInterval = setInterval(() => {
+      this.pending.forEach((_queue, clientId) => this.flush(clientId));
+    }, this.options.drainIntervalMs);
+    // Draining alone should not keep the process alive
+    this.drainInterval.unref?.();
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * World Model RAG Query Tests
+ *
+ * Tests selector ranking, variant cluster matching and workflow assembly
+ * for WorldModelService.query() against mocked Mongo collections
+ */
+
+import { WorldModelService } from '../database/service';
+
+const cursor = (docs: any[]) => ({
+  sort: jest.fn().mockReturnThis(),
+  limit: jest.fn().mockReturnThis(),
+  toArray: jest.fn().mockResolvedValue(docs)
+});
+
+const selectorInfo = (selector: string, successRate: number, pageType = 'product-detail', expectedBehavior = '') => ({
+  selector,
+  selectorType: 'css',
+  fallbackSelectors: [],
+  pageContext: { pageType },
+  reliability: { successRate, totalAttempts: 10, successCount: 0, lastUsed: new Date(), avgResponseTime: 0 },
+  interactionType: 'click',
+  expectedBehavior,
+  validation: {}
+});
+
+const sizeCluster = {
+  type: 'size',
+  containerSelector: '.size-picker',
+  selectorPattern: '#size-{VALUE}',
+  options: [
+    { value: 'S', displayName: 'Small', selector: '#size-S' },
+    { value: 'M', displayName: 'Medium', selector: '#size-M' }
+  ],
+  layout: { arrangement: 'horizontal_row', spatialPattern: '' },
+  discoveryInfo: { discoveredFromSiblings: true, totalOptionsFound: 2, discoveredAt: new Date(), reliability: 0.9 }
+};
+
+const colorCluster = {
+  ...sizeCluster,
+  type: 'color',
+  containerSelector: '.swatches',
+  selectorPattern: '#color-{VALUE}',
+  options: [{ value: 'Navy', displayName: 'Navy', selector: '#color-Navy' }]
+};
+
+const emptyCluster = { ...sizeCluster, options: [] };
+
+describe('World Model RAG Query', () => {
+  let service: WorldModelService;
+  let domains: any;
+  let categories: any;
+  let products: any;
+
+  beforeEach(() => {
+    service = new WorldModelService('mongodb://localhost:27017', 'world_model_test');
+
+    domains = { findOne: jest.fn() };
+    categories = { find: jest.fn() };
+    products = { find: jest.fn() };
+
+    (service as any).domains = domains;
+    (service as any).categories = categories;
+    (service as any).products = products;
+  });
+
+  it('should return an empty response for unknown domains', async () => {
+    domains.findOne.mockResolvedValue(null);
+
+    const result = await service.query({ domain: 'unknown.com' });
+
+    expect(result.selectors).toEqual({});
+    expect(result.reliability).toBe(0);
+    expect(products.find).not.toHaveBeenCalled();
+  });
+
+  it('should rank selectors by reliability and surface intent matches first', async () => {
+    domains.findOne.mockResolvedValue({
+      _id: 'domain-1',
+      domain: 'gap.com',
+      globalSelectors: { searchBar: selectorInfo('#search', 0.99, 'homepage') },
+      reliability: { overallSuccessRate: 0.5 },
+      updatedAt: new Date('2026-01-01')
+    });
+    categories.find.mockReturnValue(cursor([]));
+    products.find.mockReturnValue(cursor([
+      {
+        productId: 'p1',
+        pageSelectors: {
+          addToCartButton: selectorInfo('.add-old', 0.6, 'product-detail', 'adds_to_cart'),
+          productTitle: selectorInfo('h1', 0.95),
+          sizeSelection: sizeCluster,
+          colorSelection: colorCluster,
+          styleSelection: emptyCluster
+        },
+        variants: { colors: colorCluster, sizes: sizeCluster, styles: emptyCluster },
+        workflows: {
+          addToCart: [
+            { stepNumber: 1, action: 'select_size', selector: '#size-M' },
+            { stepNumber: 2, action: 'click_add_to_cart', selector: '.add-to-bag' }
+          ],
+          viewReviews: [{ stepNumber: 1, action: 'open_reviews', selector: '#reviews' }]
+        },
+        reliability: { selectorSuccessRates: {} },
+        updatedAt: new Date('2026-02-01')
+      },
+      {
+        productId: 'p2',
+        pageSelectors: {
+          addToCartButton: selectorInfo('.add-to-bag', 0.92, 'product-detail', 'adds_to_cart')
+        },
+        variants: { colors: emptyCluster, sizes: sizeCluster, styles: emptyCluster },
+        workflows: {},
+        reliability: { selectorSuccessRates: {} },
+        updatedAt: new Date('2026-03-01')
+      }
+    ]));
+
+    const result = await service.query({
+      domain: 'https://www.gap.com/',
+      pageType: 'product-detail',
+      intent: 'add a size-M shirt to cart'
+    });
+
+    expect(domains.findOne).toHaveBeenCalledWith({ domain: 'gap.com' });
+
+    // Homepage search bar is filtered out by pageType
+    expect(result.selectors.searchBar).toBeUndefined();
+
+    const keys = Object.keys(result.selectors);
+    expect(keys[0]).toBe('addToCartButton');
+    expect(result.selectors.addToCartButton.selector).toBe('.add-to-bag');
+    expect(result.selectors.addToCartButton.alternatives).toEqual([
+      expect.objectContaining({ selector: '.add-old', reliability: 0.6 })
+    ]);
+
+    // Only size clusters are requested, merged across products, with "M" matched
+    expect(result.variantClusters).toHaveLength(1);
+    expect(result.variantClusters[0].type).toBe('size');
+    expect(result.variantClusters[0].productIds).toEqual(['p1', 'p2']);
+    expect(result.variantClusters[0].matchedOptions.map((option: any) => option.value)).toEqual(['M']);
+
+    expect(result.workflows.map(workflow => workflow.name)).toEqual(['addToCart']);
+    expect(result.workflows[0].reliability).toBeCloseTo(0.92);
+    expect(result.lastUpdated).toEqual(new Date('2026-03-01'));
+  });
+
+  it('should prefer observed success rates over stored selector reliability', async () => {
+    domains.findOne.mockResolvedValue({ _id: 'domain-1', domain: 'gap.com', globalSelectors: {} });
+    categories.find.mockReturnValue(cursor([]));
+    products.find.mockReturnValue(cursor([
+      {
+        productId: 'p1',
+        pageSelectors: { addToCartButton: selectorInfo('.add', 0.9) },
+        workflows: {},
+        reliability: { selectorSuccessRates: { addToCartButton: { successCount: 1, failureCount: 3 } } }
+      }
+    ]));
+
+    const result = await service.query({ domain: 'gap.com' });
+
+    expect(result.selectors.addToCartButton.reliability).toBe(0.25);
+    expect(result.reliability).toBe(0.25);
+  });
+
+  it('should scope categories and products to the requested category path', async () => {
+    domains.findOne.mockResolvedValue({ _id: 'domain-1', domain: 'gap.com', globalSelectors: {} });
+    categories.find.mockReturnValue(cursor([]));
+    products.find.mockReturnValue(cursor([]));
+
+    await service.query({ domain: 'gap.com', categoryPath: 'men/shirts', productType: 'shirt' });
+
+    const categoryFilter = categories.find.mock.calls[0][0];
+    expect(categoryFilter.domainId).toBe('domain-1');
+    expect(categoryFilter.categoryPath.test('men/shirts/casual')).toBe(true);
+    expect(categoryFilter.categoryPath.test('men/shirtsale')).toBe(false);
+
+    const productFilter = products.find.mock.calls[0][0];
+    expect(productFilter['discoveryContexts.categoryPath'].test('men/shirts')).toBe(true);
+    expect(productFilter.productType.$regex.test('Shirt')).toBe(true);
+  });
+});
@@ -250,6 +250,7 @@ export interface ProductDiscoveryContext {
   positionOnPage: number;
   totalProductsOnPage: number;
   discoveredAt: Date;
+  sessionId?: string;               // Session it was recorded from; erased with that session
   
   // Sibling products discovered at same time
   discoveredSiblings: SiblingProduct[];
@@ -284,6 +285,7 @@ export interface CategoryDiscoveryContext {
   discoveryType: CategoryDiscoveryType; // primary, sibling, child, parent
   spatialPosition?: string;         // "above, 44px", "right, 32px"
   discoveredAt: Date;
+  sessionId?: string;               // Session it was recorded from; erased with that session
   
   // Context-specific data
   contextData: {
@@ -21,8 +21,35 @@ import {
   PageType,
   CategoryType,
   CategoryDiscoveryType,
-  ProductAvailability
+  ProductAvailability,
+  SelectorInfo,
+  WorkflowStep
 } from './schema';
+import type { RAGQuery, RAGResponse } from '../types';
+
+/** A selector candidate collected while answering a RAG query */
+interface RankedSelector {
+  key: string;
+  selector: string;
+  selectorType: string;
+  fallbacks: string[];
+  reliability: number;
+  totalAttempts: number;
+  interactionType?: string;
+  expectedBehavior?: string;
+  source: string;
+  intentMatch: boolean;
+}
+
+export interface WorldModelErasureResult {
+  categoriesUpdated: number;
+  categoriesDeleted: number;
+  productsUpdated: number;
+  productsDeleted: number;
+}
+
+const RAG_PRODUCT_LIMIT = 50;
+const RAG_VARIANT_TYPES = ['color', 'size', 'style', 'material'];
 
 export class WorldModelService {
   private client: MongoClient;
@@ -63,6 +90,7 @@ export class WorldModelService {
       await this.categories.createIndex({ domainId: 1, categoryType: 1 });
       await this.categories.createIndex({ 'reliability.successRate': -1 });
       await this.categories.createIndex({ updatedAt: -1 });
+      await this.categories.createIndex({ 'discoveryContexts.sessionId': 1 }, { sparse: true });
 
       // Product indexes
       await this.products.createIndex({ domain: 1, productId: 1 });
@@ -72,6 +100,7 @@ export class WorldModelService {
       await this.products.createIndex({ 'reliability.lastSeen': -1 });
       await this.products.createIndex({ productType: 1 });
       await this.products.createIndex({ updatedAt: -1 });
+      await this.products.createIndex({ 'discoveryContexts.sessionId': 1 }, { sparse: true });
     } catch (error) {
       console.warn('Some indexes may already exist:', error);
     }
@@ -241,9 +270,10 @@ export class WorldModelService {
       spatialContext: any;
       menuStructure?: any;
     };
+    sessionId?: string;
   }): Promise<void> {
     
-    const { domainId, primaryCategory, siblingCategories, discoveryContext } = data;
+    const { domainId, primaryCategory, siblingCategories, discoveryContext, sessionId } = data;
 
     // Process primary category
     await this.upsertCategory({
@@ -253,6 +283,7 @@ export class WorldModelService {
         discoveredFrom: discoveryContext.discoveredFrom || 'direct',
         discoveryType: CategoryDiscoveryType.PRIMARY,
         discoveredAt: new Date(),
+        sessionId,
         contextData: {
           section: 'main-nav',
           interactionType: 'click'
@@ -275,6 +306,7 @@ export class WorldModelService {
           discoveryType: CategoryDiscoveryType.SIBLING,
           spatialPosition: siblingCategory.spatialPosition,
           discoveredAt: new Date(),
+          sessionId,
           contextData: {
             section: 'main-nav',
             interactionType: 'visible'
@@ -335,6 +367,7 @@ export class WorldModelService {
     };
     spatialContext: any; // From training data
     siblingsContext: any; // From training data
+    sessionId?: string; // Session the page was seen in
   }): Promise<void> {
     
     // Process the primary product first
@@ -348,6 +381,7 @@ export class WorldModelService {
         positionOnPage: data.primaryProduct.position || 1,
         totalProductsOnPage: data.pageContext.totalProductsOnPage,
         discoveredAt: new Date(),
+        sessionId: data.sessionId,
         discoveredSiblings: this.processSiblingData(data.siblingProducts),
         contextSpecificData: {
           originalPrice: data.primaryProduct.originalPrice,
@@ -373,6 +407,7 @@ export class WorldModelService {
           positionOnPage: siblingProduct.position,
           totalProductsOnPage: data.pageContext.totalProductsOnPage,
           discoveredAt: new Date(),
+          sessionId: data.sessionId,
           discoveredSiblings: [], // Siblings don't need to store other siblings
           contextSpecificData: {
             originalPrice: siblingProduct.originalPrice,
@@ -658,6 +693,349 @@ export class WorldModelService {
     return patterns;
   }
 
+  /**
+   * Answer a RAG query for automation agents.
+   * Assembles selectors, variant clusters and workflows for a domain from the
+   * domains/categories/products collections, ranked by selector reliability.
+   * Unknown domains return an empty response with zero reliability.
+   */
+  async query(ragQuery: RAGQuery): Promise<RAGResponse> {
+    const domainName = this.normalizeDomain(ragQuery.domain);
+    const intentTokens = this.tokenize(ragQuery.intent || '');
+
+    const domainRecord = await this.domains.findOne({ domain: domainName });
+    if (!domainRecord) {
+      return {
+        selectors: {},
+        variantClusters: [],
+        workflows: [],
+        reliability: 0,
+        lastUpdated: new Date(0)
+      };
+    }
+
+    const categoryFilter: any = { domainId: domainRecord._id!.toString(), isActive: { $ne: false } };
+    const productFilter: any = { domain: domainName, isActive: { $ne: false } };
+
+    if (ragQuery.categoryPath) {
+      const pathPattern = new RegExp(`^${this.escapeRegex(ragQuery.categoryPath)}(/|$)`, 'i');
+      categoryFilter.categoryPath = pathPattern;
+      productFilter['discoveryContexts.categoryPath'] = pathPattern;
+    }
+    if (ragQuery.pageType) {
+      productFilter['discoveryContexts.pageType'] = ragQuery.pageType;
+    }
+    if (ragQuery.productType) {
+      productFilter.productType = { $regex: new RegExp(`^${this.escapeRegex(ragQuery.productType)}$`, 'i') };
+    }
+
+    const [categories, products] = await Promise.all([
+      this.categories.find(categoryFilter).toArray(),
+      this.products.find(productFilter)
+        .sort({ 'reliability.lastSeen': -1 })
+        .limit(RAG_PRODUCT_LIMIT)
+        .toArray()
+    ]);
+
+    // Collect every selector candidate, then keep the most reliable per key
+    const candidates: RankedSelector[] = [];
+
+    for (const [key, info] of Object.entries(domainRecord.globalSelectors || {})) {
+      this.addSelectorCandidate(candidates, key, info, 'domain', ragQuery.pageType, intentTokens);
+    }
+
+    for (const category of categories) {
+      for (const [key, info] of Object.entries(category.pageSelectors || {})) {
+        this.addSelectorCandidate(candidates, key, info, `category:${category.categoryPath}`, ragQuery.pageType, intentTokens);
+      }
+    }
+
+    for (const product of products) {
+      for (const [key, info] of Object.entries(product.pageSelectors || {})) {
+        const observedRate = this.getObservedSuccessRate(product.reliability?.selectorSuccessRates?.[key]);
+        this.addSelectorCandidate(candidates, key, info, `product:${product.productId}`, ragQuery.pageType, intentTokens, observedRate);
+      }
+    }
+
+    const selectors = this.rankSelectors(candidates);
+    const reliabilityBySelector = new Map<string, number>();
+    for (const candidate of candidates) {
+      const known = reliabilityBySelector.get(candidate.selector) ?? 0;
+      reliabilityBySelector.set(candidate.selector, Math.max(known, candidate.reliability));
+    }
+
+    const variantClusters = this.collectVariantClusters(products, intentTokens);
+    const workflows = this.collectWorkflows(products, intentTokens, reliabilityBySelector);
+
+    const selectorScores = Object.values(selectors).map((entry: any) => entry.reliability as number);
+    const reliability = selectorScores.length > 0
+      ? selectorScores.reduce((sum, score) => sum + score, 0) / selectorScores.length
+      : domainRecord.reliability?.overallSuccessRate ?? 0;
+
+    const timestamps = [domainRecord, ...categories, ...products]
+      .map(doc => doc.updatedAt ? new Date(doc.updatedAt).getTime() : 0);
+
+    return {
+      selectors,
+      variantClusters,
+      workflows,
+      reliability: Math.round(reliability * 1000) / 1000,
+      lastUpdated: new Date(Math.max(...timestamps))
+    };
+  }
+
+  private addSelectorCandidate(
+    candidates: RankedSelector[],
+    key: string,
+    info: any,
+    source: string,
+    pageType: string | undefined,
+    intentTokens: string[],
+    observedRate?: number
+  ): void {
+    // Product pageSelectors mix SelectorInfo with VariantClusters; only keep the former
+    if (!info || typeof info.selector !== 'string' || !info.selector) return;
+
+    const selectorInfo = info as SelectorInfo;
+    if (pageType && selectorInfo.pageContext?.pageType && selectorInfo.pageContext.pageType !== pageType) {
+      return;
+    }
+
+    const keyTokens = [
+      ...this.tokenize(key),
+      ...this.tokenize(selectorInfo.expectedBehavior || '')
+    ];
+
+    candidates.push({
+      key,
+      selector: selectorInfo.selector,
+      selectorType: selectorInfo.selectorType,
+      fallbacks: selectorInfo.fallbackSelectors || [],
+      reliability: observedRate ?? selectorInfo.reliability?.successRate ?? 0,
+      totalAttempts: selectorInfo.reliability?.totalAttempts ?? 0,
+      interactionType: selectorInfo.interactionType,
+      expectedBehavior: selectorInfo.expectedBehavior,
+      source,
+      intentMatch: intentTokens.length > 0 && keyTokens.some(token => intentTokens.includes(token))
+    });
+  }
+
+  /**
+   * Pick the most reliable candidate per selector key; the rest become alternatives.
+   * Keys matching the query intent are listed first.
+   */
+  private rankSelectors(candidates: RankedSelector[]): Record<string, any> {
+    const byKey = new Map<string, RankedSelector[]>();
+    for (const candidate of candidates) {
+      const group = byKey.get(candidate.key) || [];
+      group.push(candidate);
+      byKey.set(candidate.key, group);
+    }
+
+    const compare = (a: RankedSelector, b: RankedSelector) =>
+      b.reliability - a.reliability || b.totalAttempts - a.totalAttempts;
+
+    const ranked = Array.from(byKey.values()).map(group => {
+      const sorted = [...group].sort(compare);
+      const alternatives = sorted.slice(1)
+        .filter((candidate, index, list) =>
+          candidate.selector !== sorted[0].selector &&
+          list.findIndex(other => other.selector === candidate.selector) === index
+        )
+        .map(candidate => ({
+          selector: candidate.selector,
+          reliability: candidate.reliability,
+          source: candidate.source
+        }));
+
+      return { best: sorted[0], alternatives };
+    });
+
+    ranked.sort((a, b) =>
+      Number(b.best.intentMatch) - Number(a.best.intentMatch) || compare(a.best, b.best)
+    );
+
+    const selectors: Record<string, any> = {};
+    for (const { best, alternatives } of ranked) {
+      selectors[best.key] = {
+        selector: best.selector,
+        selectorType: best.selectorType,
+        fallbacks: best.fallbacks,
+        reliability: best.reliability,
+        totalAttempts: best.totalAttempts,
+        interactionType: best.interactionType,
+        expectedBehavior: best.expectedBehavior,
+        source: best.source,
+        intentMatch: best.intentMatch,
+        alternatives
+      };
+    }
+
+    return selectors;
+  }
+
+  /**
+   * Merge variant clusters across products that share the same container/pattern.
+   * When the intent names a variant type ("size", "color") only those clusters are returned,
+   * and options named in the intent ("M") are surfaced as matchedOptions.
+   */
+  private collectVariantClusters(products: WorldModelProduct[], intentTokens: string[]): any[] {
+    const merged = new Map<string, any>();
+
+    for (const product of products) {
+      const clusters = [
+        product.variants?.colors,
+        product.variants?.sizes,
+        product.variants?.styles,
+        product.pageSelectors?.colorSelection,
+        product.pageSelectors?.sizeSelection,
+        product.pageSelectors?.styleSelection
+      ];
+
+      for (const cluster of clusters) {
+        if (!cluster || !cluster.options || cluster.options.length === 0) continue;
+
+        const clusterKey = `${cluster.type}|${cluster.containerSelector}|${cluster.selectorPattern}`;
+        const existing = merged.get(clusterKey);
+
+        if (!existing) {
+          merged.set(clusterKey, {
+            type: cluster.type,
+            containerSelector: cluster.containerSelector,
+            selectorPattern: cluster.selectorPattern,
+            layout: cluster.layout,
+            options: [...cluster.options],
+            reliability: cluster.discoveryInfo?.reliability ?? 0,
+            productIds: [product.productId]
+          });
+          continue;
+        }
+
+        for (const option of cluster.options) {
+          if (!existing.options.some((known: any) => known.value === option.value)) {
+            existing.options.push(option);
+          }
+        }
+        existing.reliability = Math.max(existing.reliability, cluster.discoveryInfo?.reliability ?? 0);
+        if (!existing.productIds.includes(product.productId)) {
+          existing.productIds.push(product.productId);
+        }
+      }
+    }
+
+    const requestedTypes = RAG_VARIANT_TYPES.filter(type =>
+      intentTokens.includes(type) || (type === 'color' && intentTokens.includes('colour'))
+    );
+
+    return Array.from(merged.values())
+      .filter(cluster => requestedTypes.length === 0 || requestedTypes.includes(cluster.type))
+      .map(cluster => ({
+        ...cluster,
+        matchedOptions: intentTokens.length === 0 ? [] : cluster.options.filter((option: any) =>
+          this.tokenize(`${option.value} ${option.displayName || ''}`).some(token => intentTokens.includes(token))
+        )
+      }))
+      .sort((a, b) =>
+        b.matchedOptions.length - a.matchedOptions.length ||
+        b.reliability - a.reliability ||
+        b.productIds.length - a.productIds.length
+      );
+  }
+
+  /**
+   * Deduplicate product workflows by their step sequence and score each by the
+   * reliability of the selectors it uses.
+   */
+  private collectWorkflows(
+    products: WorldModelProduct[],
+    intentTokens: string[],
+    reliabilityBySelector: Map<string, number>
+  ): any[] {
+    const merged = new Map<string, any>();
+
+    for (const product of products) {
+      for (const [name, steps] of Object.entries(product.workflows || {})) {
+        if (!Array.isArray(steps) || steps.length === 0) continue;
+
+        const signature = `${name}|${(steps as WorkflowStep[]).map(step => `${step.action}:${step.selector}`).join('>')}`;
+        const existing = merged.get(signature);
+
+        if (existing) {
+          existing.occurrences++;
+          continue;
+        }
+
+        const knownScores = (steps as WorkflowStep[])
+          .map(step => reliabilityBySelector.get(step.selector))
+          .filter((score): score is number => score !== undefined);
+
+        const workflowTokens = [
+          ...this.tokenize(name),
+          ...(steps as WorkflowStep[]).flatMap(step => this.tokenize(step.action || ''))
+        ];
+
+        merged.set(signature, {
+          name,
+          steps,
+          occurrences: 1,
+          exampleProductId: product.productId,
+          reliability: knownScores.length > 0
+            ? knownScores.reduce((sum, score) => sum + score, 0) / knownScores.length
+            : 0,
+          intentMatch: intentTokens.length > 0 && workflowTokens.some(token => intentTokens.includes(token))
+        });
+      }
+    }
+
+    const workflows = Array.from(merged.values());
+    const matching = workflows.filter(workflow => workflow.intentMatch);
+
+    // Fall back to every workflow when nothing matches the intent wording
+    return (matching.length > 0 ? matching : workflows).sort((a, b) =>
+      b.reliability - a.reliability || b.occurrences - a.occurrences
+    );
+  }
+
+  /**
+   * selectorSuccessRates holds either a plain rate or the success/failure
+   * counters written by updateSelectorReliability()
+   */
+  private getObservedSuccessRate(value: any): number | undefined {
+    if (typeof value === 'number') return value;
+    if (value && typeof value === 'object') {
+      const successes = value.successCount || 0;
+      const failures = value.failureCount || 0;
+      if (successes + failures > 0) {
+        return successes / (successes + failures);
+      }
+    }
+    return undefined;
+  }
+
+  private normalizeDomain(domain: string): string {
+    return domain
+      .trim()
+      .toLowerCase()
+      .replace(/^https?:\/\//, '')
+      .replace(/^www\./, '')
+      .split('/')[0];
+  }
+
+  /**
+   * Lowercase word tokens; splits camelCase keys so "addToCartButton" matches "add to cart"
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 0);
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
   /**
    * Update selector reliability based on usage
    */
@@ -685,4 +1063,34 @@ export class WorldModelService {
       }
     );
   }
-}
\ No newline at end of file
+  // ===========================
+  // DATA SUBJECT ERASURE
+  // ===========================
+
+  /**
+   * Remove the discovery contexts recorded from the given sessions, and any
+   * category or product that was only ever seen in them. Contexts ingested
+   * before sessions were recorded on them cannot be traced and are kept.
+   */
+  async eraseSessionData(sessionIds: string[]): Promise<WorldModelErasureResult> {
+    const result: WorldModelErasureResult = { categoriesUpdated: 0, categoriesDeleted: 0, productsUpdated: 0, productsDeleted: 0 };
+    if (sessionIds.length === 0) return result;
+
+    const filter = { 'discoveryContexts.sessionId': { $in: sessionIds } };
+    const pull = { $pull: { discoveryContexts: { sessionId: { $in: sessionIds } } } } as any;
+
+    const categoryIds = (await this.categories.find(filter, { projection: { _id: 1 } }).toArray()).map(category => category._id);
+    if (categoryIds.length > 0) {
+      result.categoriesUpdated = (await this.categories.updateMany({ _id: { $in: categoryIds } }, pull)).modifiedCount;
+      result.categoriesDeleted = (await this.categories.deleteMany({ _id: { $in: categoryIds }, discoveryContexts: { $size: 0 } })).deletedCount;
+    }
+
+    const productIds = (await this.products.find(filter, { projection: { _id: 1 } }).toArray()).map(product => product._id);
+    if (productIds.length > 0) {
+      result.productsUpdated = (await this.products.updateMany({ _id: { $in: productIds } }, pull)).modifiedCount;
+      result.productsDeleted = (await this.products.deleteMany({ _id: { $in: productIds }, discoveryContexts: { $size: 0 } })).deletedCount;
+    }
+
+    return result;
+  }
+}
@@ -8,7 +8,7 @@
  */
 
 // Database layer
-export { WorldModelService } from './database/service';
+export { WorldModelService, WorldModelErasureResult } from './database/service';
 export * from './database/schema';
 
 // Data ingestion
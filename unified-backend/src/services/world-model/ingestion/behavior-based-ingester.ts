@@ -11,6 +11,8 @@
 import { WorldModelService } from '../database/service';
 import { PageType, CategoryType, SiteType } from '../database/schema';
 import { PrismaClient, Prisma } from '@prisma/client';
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from '../../interactions/enhanced-interaction-store';
+import { withFieldEncryption } from '../../encryption';
 import { IntentBasedClassifier } from './intent-based-classifier';
 
 interface ParsedInteraction {
@@ -101,11 +103,13 @@ interface ProductAttribute {
 export class BehaviorBasedIngester {
   private worldModel: WorldModelService;
   private prisma: PrismaClient;
+  private interactionStore: EnhancedInteractionStore;
   private classifier: IntentBasedClassifier;
 
   constructor(worldModelService: WorldModelService) {
     this.worldModel = worldModelService;
-    this.prisma = new PrismaClient();
+    this.prisma = withFieldEncryption(new PrismaClient());
+    this.interactionStore = new EnhancedInteractionStoreImpl(this.prisma);
     this.classifier = new IntentBasedClassifier();
   }
 
@@ -117,7 +121,7 @@ export class BehaviorBasedIngester {
     console.log('🧠 Using intent-based classification with behavioral context\n');
 
     // Get all sessions with enhanced interactions and behavioral context
-    const sessions = await this.prisma.unifiedSession.findMany({
+    const storedSessions = await this.prisma.unifiedSession.findMany({
       where: {
         enhancedInteractions: { not: Prisma.JsonNull },
         interactionCount: { gt: 3 } // Minimum interactions for meaningful analysis
@@ -133,6 +137,7 @@ export class BehaviorBasedIngester {
       },
       orderBy: { qualityScore: 'desc' } // Process highest quality sessions first
     });
+    const sessions = await this.interactionStore.hydrateMany(storedSessions);
 
     console.log(`📊 Found ${sessions.length} sessions with behavioral context`);
 
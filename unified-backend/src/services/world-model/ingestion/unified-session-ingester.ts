@@ -8,6 +8,8 @@
 import { WorldModelService } from '../database/service';
 import { PageType, CategoryType, SiteType } from '../database/schema';
 import { PrismaClient, Prisma } from '@prisma/client';
+import { EnhancedInteractionStore, EnhancedInteractionStoreImpl } from '../../interactions/enhanced-interaction-store';
+import { withFieldEncryption } from '../../encryption';
 
 interface ParsedInteraction {
   id: string;
@@ -66,10 +68,12 @@ interface ExtractedProduct {
 export class UnifiedSessionIngester {
   private worldModel: WorldModelService;
   private prisma: PrismaClient;
+  private interactionStore: EnhancedInteractionStore;
 
   constructor(worldModelService: WorldModelService) {
     this.worldModel = worldModelService;
-    this.prisma = new PrismaClient();
+    this.prisma = withFieldEncryption(new PrismaClient());
+    this.interactionStore = new EnhancedInteractionStoreImpl(this.prisma);
   }
 
   /**
@@ -79,7 +83,7 @@ export class UnifiedSessionIngester {
     console.log('🔄 Starting UnifiedSession ingestion...');
 
     // Get all sessions with enhanced interactions
-    const sessions = await this.prisma.unifiedSession.findMany({
+    const storedSessions = await this.prisma.unifiedSession.findMany({
       where: {
         enhancedInteractions: { not: Prisma.JsonNull },
         interactionCount: { gt: 0 }
@@ -94,6 +98,7 @@ export class UnifiedSessionIngester {
         qualityScore: true
       }
     });
+    const sessions = await this.interactionStore.hydrateMany(storedSessions);
 
     console.log(`📊 Found ${sessions.length} sessions to process`);
 
@@ -163,7 +168,7 @@ export class UnifiedSessionIngester {
     for (const product of products) {
       const key = `${domain.domain}:${product.productId}`;
       if (!stats.productsCreated.has(key)) {
-        await this.ensureProduct(domain.domain, product, interactions);
+        await this.ensureProduct(domain.domain, product, interactions, session.id);
         stats.productsCreated.add(key);
       }
     }
@@ -624,9 +629,10 @@ export class UnifiedSessionIngester {
     }
   }
 
-  private async ensureProduct(domain: string, productData: ExtractedProduct, interactions: ParsedInteraction[]): Promise<void> {
+  private async ensureProduct(domain: string, productData: ExtractedProduct, interactions: ParsedInteraction[], sessionId: string): Promise<void> {
     await this.worldModel.ingestProductWithSiblings({
       domain,
+      sessionId,
       categoryPath: productData.categoryPath,
       primaryProduct: {
         productId: productData.productId,
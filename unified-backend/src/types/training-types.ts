@@ -301,6 +301,8 @@ export interface EnhancedInteractionData {
 export interface TrainingExample {
   prompt: string;
   completion: string;
+  /** Which generator produced the example; used for dataset selection */
+  exampleType?: ExampleType;
   context: {
     // Core context
     pageType?: string;
@@ -1,4 +1,5 @@
 import { Logger } from './logger';
+import { loadKeyRing } from '../services/encryption/key-ring';
 
 const logger = new Logger('EnvValidator');
 
@@ -11,7 +12,6 @@ const envConfig: EnvConfig = {
   required: [
     'DATABASE_URL',
     'JWT_SECRET',
-    'OPENAI_API_KEY',
     'AWS_ACCESS_KEY_ID',
     'AWS_SECRET_ACCESS_KEY',
     'AWS_REGION',
@@ -32,8 +32,46 @@ const envConfig: EnvConfig = {
     'MAX_RETRIES',
     'MAX_SCREENSHOT_SIZE_MB',
     'SCREENSHOT_COMPRESSION_QUALITY',
+    'SCREENSHOT_FORMAT',
+    'SCREENSHOT_THUMBNAIL_WIDTH',
+    'SCREENSHOT_DEDUP_MAX_DISTANCE',
+    'OBJECT_STORE_BACKEND',
+    'OBJECT_STORE_LOCAL_DIR',
     'DATA_RETENTION_DAYS',
-    'ARCHIVE_CLEANUP_INTERVAL_HOURS'
+    'ARCHIVE_CLEANUP_INTERVAL_HOURS',
+    'ARCHIVE_FORMAT',
+    'RETENTION_SCHEDULER_ENABLED',
+    'RETENTION_DRY_RUN',
+    'RETENTION_BATCH_SIZE',
+    'SCREENSHOT_PURGE_GRACE_DAYS',
+    'METRICS_RETENTION_DAYS',
+    'ALERT_ESCALATION_MINUTES',
+    'ALERT_WEBHOOK_URL',
+    'ALERT_WEBHOOK_SECRET',
+    'ALERT_WEBHOOK_MIN_SEVERITY',
+    'ALERT_SLACK_WEBHOOK_URL',
+    'ALERT_SLACK_MIN_SEVERITY',
+    'SMTP_HOST',
+    'SMTP_PORT',
+    'SMTP_SECURE',
+    'SMTP_USER',
+    'SMTP_PASSWORD',
+    'ALERT_EMAIL_FROM',
+    'ALERT_EMAIL_TO',
+    'ALERT_EMAIL_MIN_SEVERITY',
+    'PII_TOKENIZATION_KEY',
+    'ENCRYPTION_KEY',
+    'ENCRYPTION_PREVIOUS_KEYS',
+    'MONGODB_CONNECTION_STRING',
+    'MONGODB_DATABASE_NAME',
+    'LLM_PROVIDER',
+    'LLM_BASE_URL',
+    'LLM_API_KEY',
+    'LLM_CHAT_MODEL',
+    'LLM_VISION_MODEL',
+    'LLM_TIMEOUT_MS',
+    'FINE_TUNE_POLL_INTERVAL_MS',
+    'MODEL_EVALUATION_POLL_INTERVAL_MS'
   ]
 };
 
@@ -78,6 +116,11 @@ export function validateEnvironment(): void {
   validateDatabaseUrl();
   validateJwtSecret();
   validateAwsConfig();
+  validateLlmConfig();
+  validateScreenshotConfig();
+  validateAlertConfig();
+  validatePrivacyConfig();
+  validateEncryptionConfig();
   
   logger.info('Environment validation completed successfully');
 }
@@ -134,6 +177,107 @@ function validateAwsConfig(): void {
   }
 }
 
+const LLM_PROVIDERS = ['openai', 'openai-compatible', 'fake'];
+
+function validateLlmConfig(): void {
+  const provider = process.env.LLM_PROVIDER || 'openai';
+  
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`LLM_PROVIDER must be one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+  
+  // The OpenAI key is only mandatory when OpenAI is the active provider
+  if (provider === 'openai' && !process.env.OPENAI_API_KEY) {
+    throw new Error('Missing required environment variables: OPENAI_API_KEY');
+  }
+  
+  if (provider === 'openai-compatible') {
+    const baseUrl = process.env.LLM_BASE_URL;
+    if (!baseUrl) {
+      throw new Error('LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible');
+    }
+    try {
+      new URL(baseUrl);
+    } catch {
+      throw new Error('LLM_BASE_URL must be a valid URL, e.g. http://localhost:11434/v1');
+    }
+  }
+  
+  if (provider === 'fake' && process.env.NODE_ENV === 'production') {
+    logger.warn('LLM_PROVIDER=fake in production - model responses are canned');
+  }
+}
+
+const OBJECT_STORE_BACKENDS = ['s3', 'local'];
+const SCREENSHOT_FORMATS = ['webp', 'avif'];
+const ARCHIVE_FORMATS = ['zip', 'tar.zst'];
+
+function validateScreenshotConfig(): void {
+  const backend = process.env.OBJECT_STORE_BACKEND;
+  if (backend && !OBJECT_STORE_BACKENDS.includes(backend)) {
+    throw new Error(`OBJECT_STORE_BACKEND must be one of: ${OBJECT_STORE_BACKENDS.join(', ')}`);
+  }
+  
+  const format = process.env.SCREENSHOT_FORMAT;
+  if (format && !SCREENSHOT_FORMATS.includes(format)) {
+    throw new Error(`SCREENSHOT_FORMAT must be one of: ${SCREENSHOT_FORMATS.join(', ')}`);
+  }
+  
+  const archiveFormat = process.env.ARCHIVE_FORMAT;
+  if (archiveFormat && !ARCHIVE_FORMATS.includes(archiveFormat)) {
+    throw new Error(`ARCHIVE_FORMAT must be one of: ${ARCHIVE_FORMATS.join(', ')}`);
+  }
+  
+  // Accept either a 0-1 fraction or a 1-100 encoder quality
+  const quality = process.env.SCREENSHOT_COMPRESSION_QUALITY;
+  if (quality && !(parseFloat(quality) > 0 && parseFloat(quality) <= 100)) {
+    throw new Error('SCREENSHOT_COMPRESSION_QUALITY must be between 0 and 1 (fraction) or 1 and 100');
+  }
+  
+  if (backend === 'local' && process.env.NODE_ENV === 'production') {
+    logger.warn('OBJECT_STORE_BACKEND=local in production - screenshots are only stored on this host');
+  }
+}
+
+const ALERT_SEVERITY_VARS = ['ALERT_WEBHOOK_MIN_SEVERITY', 'ALERT_SLACK_MIN_SEVERITY', 'ALERT_EMAIL_MIN_SEVERITY'];
+const ALERT_SEVERITY_VALUES = ['low', 'medium', 'high', 'critical'];
+
+function validateAlertConfig(): void {
+  for (const varName of ALERT_SEVERITY_VARS) {
+    const value = process.env[varName];
+    if (value && !ALERT_SEVERITY_VALUES.includes(value)) {
+      throw new Error(`${varName} must be one of: ${ALERT_SEVERITY_VALUES.join(', ')}`);
+    }
+  }
+  
+  if (process.env.ALERT_WEBHOOK_URL && !process.env.ALERT_WEBHOOK_SECRET) {
+    logger.warn('ALERT_WEBHOOK_URL is set without ALERT_WEBHOOK_SECRET - webhook alerts will be unsigned');
+  }
+}
+
+function validatePrivacyConfig(): void {
+  const key = process.env.PII_TOKENIZATION_KEY;
+  if (key && !/^[0-9a-fA-F]{64}$/.test(key)) {
+    throw new Error('PII_TOKENIZATION_KEY must be 64 hex characters (32 bytes)');
+  }
+  
+  // A per-process key would make tokens unmatchable and the vault unreadable after every restart
+  if (!key && process.env.NODE_ENV === 'production') {
+    throw new Error('PII_TOKENIZATION_KEY must be set in production');
+  }
+}
+
+// Throws when ENCRYPTION_KEY is missing in production or a key is malformed
+function validateEncryptionConfig(): void {
+  const keyRing = loadKeyRing();
+  
+  if (keyRing && keyRing.ids.length > 1) {
+    logger.info('Previous encryption keys configured - run encryption:reencrypt to retire them', {
+      keyIds: keyRing.ids.filter(id => id !== keyRing.active.id)
+    });
+  }
+}
+
 export function getConfig() {
   return {
     // Server
@@ -149,6 +293,19 @@ export function getConfig() {
     // OpenAI
     openaiApiKey: process.env.OPENAI_API_KEY!,
     
+    // LLM provider selection
+    llm: {
+      provider: (process.env.LLM_PROVIDER || 'openai') as 'openai' | 'openai-compatible' | 'fake',
+      // Never forward the OpenAI key to a third-party compatible endpoint
+      apiKey: process.env.LLM_PROVIDER === 'openai-compatible'
+        ? process.env.LLM_API_KEY
+        : process.env.LLM_API_KEY || process.env.OPENAI_API_KEY,
+      baseUrl: process.env.LLM_BASE_URL,
+      chatModel: process.env.LLM_CHAT_MODEL,
+      visionModel: process.env.LLM_VISION_MODEL,
+      timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '60000')
+    },
+    
     // AWS
     aws: {
       accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
@@ -160,6 +317,10 @@ export function getConfig() {
     // Optional configs with defaults
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
     redisUrl: process.env.REDIS_URL,
+    
+    // World model (MongoDB) - query API is disabled when unset
+    mongodbConnectionString: process.env.MONGODB_CONNECTION_STRING,
+    mongodbDatabaseName: process.env.MONGODB_DATABASE_NAME || 'world_model',
     logLevel: process.env.LOG_LEVEL || 'info',
     
     // Rate limiting
@@ -174,13 +335,66 @@ export function getConfig() {
     maxConcurrentJobs: parseInt(process.env.MAX_CONCURRENT_JOBS || '5'),
     jobTimeoutMs: parseInt(process.env.JOB_TIMEOUT_MS || '300000'),
     maxRetries: parseInt(process.env.MAX_RETRIES || '3'),
+    fineTunePollIntervalMs: parseInt(process.env.FINE_TUNE_POLL_INTERVAL_MS || '60000'),
+    modelEvaluationPollIntervalMs: parseInt(process.env.MODEL_EVALUATION_POLL_INTERVAL_MS || '5000'),
     
     // Screenshots
     maxScreenshotSizeMb: parseFloat(process.env.MAX_SCREENSHOT_SIZE_MB || '5'),
     screenshotCompressionQuality: parseFloat(process.env.SCREENSHOT_COMPRESSION_QUALITY || '0.8'),
+    screenshotFormat: (process.env.SCREENSHOT_FORMAT || 'webp') as 'webp' | 'avif',
+    screenshotThumbnailWidth: parseInt(process.env.SCREENSHOT_THUMBNAIL_WIDTH || '320'),
+    screenshotDedupMaxDistance: parseInt(process.env.SCREENSHOT_DEDUP_MAX_DISTANCE || '4'),
+    
+    // Object storage for screenshots and thumbnails (S3 in production, local disk otherwise)
+    objectStore: {
+      backend: (process.env.OBJECT_STORE_BACKEND || (process.env.NODE_ENV === 'production' ? 's3' : 'local')) as 's3' | 'local',
+      localDir: process.env.OBJECT_STORE_LOCAL_DIR || '/tmp/codesight/objects',
+      bucket: process.env.S3_BUCKET || 'codesight-archives',
+      region: process.env.AWS_REGION || 'us-east-1',
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+      endpoint: process.env.S3_ENDPOINT
+    },
     
     // Data retention
     dataRetentionDays: parseInt(process.env.DATA_RETENTION_DAYS || '90'),
-    archiveCleanupIntervalHours: parseInt(process.env.ARCHIVE_CLEANUP_INTERVAL_HOURS || '24')
+    archiveCleanupIntervalHours: parseInt(process.env.ARCHIVE_CLEANUP_INTERVAL_HOURS || '24'),
+    archiveFormat: (process.env.ARCHIVE_FORMAT || 'zip') as 'zip' | 'tar.zst',
+    retention: {
+      enabled: process.env.RETENTION_SCHEDULER_ENABLED !== 'false',
+      // Comma-separated policy names, or 'all', whose scheduled runs only report
+      dryRunPolicies: process.env.RETENTION_DRY_RUN === 'all'
+        ? 'all' as const
+        : (process.env.RETENTION_DRY_RUN || '').split(',').map(name => name.trim()).filter(Boolean),
+      batchSize: parseInt(process.env.RETENTION_BATCH_SIZE || '50'),
+      screenshotPurgeGraceDays: parseInt(process.env.SCREENSHOT_PURGE_GRACE_DAYS || '7'),
+      metricsRetentionDays: parseInt(process.env.METRICS_RETENTION_DAYS || '30')
+    },
+    
+    // Alert delivery; channels without a URL/SMTP host are skipped
+    alerts: {
+      escalationMinutes: parseInt(process.env.ALERT_ESCALATION_MINUTES || '30'),
+      channels: {
+        webhook: {
+          url: process.env.ALERT_WEBHOOK_URL,
+          secret: process.env.ALERT_WEBHOOK_SECRET,
+          minSeverity: (process.env.ALERT_WEBHOOK_MIN_SEVERITY || 'medium') as 'low' | 'medium' | 'high' | 'critical'
+        },
+        slack: {
+          url: process.env.ALERT_SLACK_WEBHOOK_URL,
+          minSeverity: (process.env.ALERT_SLACK_MIN_SEVERITY || 'medium') as 'low' | 'medium' | 'high' | 'critical'
+        },
+        email: {
+          smtpHost: process.env.SMTP_HOST,
+          smtpPort: parseInt(process.env.SMTP_PORT || '587'),
+          smtpSecure: process.env.SMTP_SECURE === 'true',
+          smtpUser: process.env.SMTP_USER,
+          smtpPassword: process.env.SMTP_PASSWORD,
+          from: process.env.ALERT_EMAIL_FROM,
+          to: (process.env.ALERT_EMAIL_TO || '').split(',').map(address => address.trim()).filter(Boolean),
+          minSeverity: (process.env.ALERT_EMAIL_MIN_SEVERITY || 'high') as 'low' | 'medium' | 'high' | 'critical'
+        }
+      }
+    }
   };
 }
\ No newline at end of file